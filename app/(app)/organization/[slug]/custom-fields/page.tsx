@@ -0,0 +1,212 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { ListPlus } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import { CustomFieldSettings } from "@/components/custom-fields/custom-field-settings";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+  countCustomFieldValues,
+  createCustomFieldTransaction,
+  createUpdateCustomFieldTransaction,
+  type StoredCustomField,
+} from "@/components/service-table/custom-fields";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { db } from "@/lib/db";
+
+/**
+ * Service record with its custom field values
+ */
+interface RawCustomFieldUsage {
+  readonly id: string;
+  readonly customFields?: CustomFieldValues | null;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <ListPlus className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the custom field settings
+ */
+function CustomFieldSettingsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-28" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Custom fields page.
+ * Lists the organization's custom service fields; admins and owners manage
+ * them.
+ */
+export default function CustomFieldsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    fields,
+    isLoading: isLoadingFields,
+    error: fieldsError,
+  } = useCustomFields(organizationId);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const services = (data?.services ?? []) as RawCustomFieldUsage[];
+
+  const valueCounts = useMemo(
+    () => countCustomFieldValues(services),
+    [services]
+  );
+
+  const handleCreate = useCallback(
+    async (definition: CustomFieldDefinition) => {
+      if (!organizationId) {
+        return;
+      }
+      await db.transact(
+        createCustomFieldTransaction(db, organizationId, id(), definition)
+      );
+    },
+    [organizationId]
+  );
+
+  const handleUpdate = useCallback(
+    async (field: StoredCustomField, definition: CustomFieldDefinition) => {
+      await db.transact(
+        createUpdateCustomFieldTransaction(db, field.id, definition)
+      );
+    },
+    []
+  );
+
+  const handleDelete = useCallback(async (field: StoredCustomField) => {
+    await db.transact(db.tx.customFields[field.id].delete());
+  }, []);
+
+  const hasError = organizationError || fieldsError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          fieldsError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingFields ||
+    isLoadingServices
+  ) {
+    return <CustomFieldSettingsSkeleton />;
+  }
+
+  return (
+    <CustomFieldSettings
+      canAdminister={canAdminister}
+      fields={fields}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onUpdate={handleUpdate}
+      valueCounts={valueCounts}
+    />
+  );
+}
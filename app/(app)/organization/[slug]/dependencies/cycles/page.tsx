@@ -0,0 +1,123 @@
+"use client";
+
+import { RefreshCw } from "lucide-react";
+import { useParams } from "next/navigation";
+import { DependencyCycleReport } from "@/components/services/dependency-cycle-report";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <RefreshCw className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the cycle report
+ */
+function DependencyCyclesSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-5 w-full max-w-[480px]" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-10 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Dependency cycles page.
+ * Lists the groups of services that depend on each other in a loop.
+ */
+export default function CyclesPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    rawServices,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <DependencyCyclesSkeleton />;
+  }
+
+  return (
+    <DependencyCycleReport
+      rawServices={rawServices}
+      servicesHref={`/organization/${slug}/services`}
+    />
+  );
+}
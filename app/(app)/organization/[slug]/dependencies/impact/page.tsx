@@ -0,0 +1,129 @@
+"use client";
+
+import { Radar } from "lucide-react";
+import { useParams } from "next/navigation";
+import { Suspense } from "react";
+import { BlastRadiusView } from "@/components/services/blast-radius-view";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Radar className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the blast radius view
+ */
+function BlastRadiusSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-9 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-28" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-10 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Blast radius page.
+ * Lists every service affected when a service or external dependency goes down.
+ */
+export default function ImpactPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    groupedServices,
+    rawServices,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <BlastRadiusSkeleton />;
+  }
+
+  return (
+    <Suspense fallback={<BlastRadiusSkeleton />}>
+      <BlastRadiusView
+        groupedServices={groupedServices}
+        rawServices={rawServices}
+        servicesHref={`/organization/${slug}/services`}
+      />
+    </Suspense>
+  );
+}
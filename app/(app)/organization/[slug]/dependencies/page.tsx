@@ -0,0 +1,150 @@
+"use client";
+
+import { Network } from "lucide-react";
+import { useParams } from "next/navigation";
+import { Suspense } from "react";
+import { DependencyGraphView } from "@/components/services/dependency-graph-view";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found, access and empty states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Network className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the graph view
+ */
+function DependencyGraphSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-9 w-full min-w-[320px] max-w-[560px]" />
+        <Skeleton className="h-8 w-24" />
+      </div>
+      <Skeleton className="h-[420px] w-full rounded-lg" />
+    </div>
+  );
+}
+
+/**
+ * Dependency graph page.
+ * Shows the organization's active services and their declared dependencies.
+ */
+export default function DependenciesPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    groupedServices,
+    rawServices,
+    availableOwners,
+    environmentOptions,
+    runtimeOptions,
+    runtimeCatalog,
+    customFieldFilters,
+    tagOptions,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <DependencyGraphSkeleton />;
+  }
+
+  if (groupedServices.length === 0) {
+    return (
+      <StatusMessage
+        description="Create services and declare their dependencies to see them here."
+        title="No services yet"
+      />
+    );
+  }
+
+  return (
+    <Suspense fallback={<DependencyGraphSkeleton />}>
+      <DependencyGraphView
+        availableOwners={availableOwners}
+        customFieldFilters={customFieldFilters}
+        cyclesHref={`/organization/${slug}/dependencies/cycles`}
+        environmentOptions={environmentOptions}
+        groupedServices={groupedServices}
+        impactHref={`/organization/${slug}/dependencies/impact`}
+        rawServices={rawServices}
+        runtimeCatalog={runtimeCatalog}
+        runtimeOptions={runtimeOptions}
+        servicesHref={`/organization/${slug}/services`}
+        tagOptions={tagOptions}
+      />
+    </Suspense>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { Globe } from "lucide-react";
+import { useParams } from "next/navigation";
+import { DomainConflictReport } from "@/components/services/domain-conflict-report";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Globe className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the domain conflict report
+ */
+function DomainConflictReportSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-5 w-full max-w-[480px]" />
+      </div>
+      <Skeleton className="h-10 w-full rounded-lg" />
+      {Array.from({ length: 6 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded-lg" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Domain conflicts page.
+ * Lists interface domains used by more than one service in the same
+ * environment, and stored domains that aren't valid.
+ */
+export default function DomainConflictsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    rawServices,
+    environmentCatalog,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <DomainConflictReportSkeleton />;
+  }
+
+  return (
+    <DomainConflictReport
+      environmentCatalog={environmentCatalog}
+      rawServices={rawServices}
+      servicesHref={`/organization/${slug}/services`}
+    />
+  );
+}
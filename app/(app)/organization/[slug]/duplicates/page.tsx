@@ -0,0 +1,192 @@
+"use client";
+
+import { CopyCheck } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useState } from "react";
+import type { DuplicatePair } from "@/components/service-table/duplicates";
+import type {
+  MergeServiceRecord,
+  ServiceMergePlan,
+} from "@/components/service-table/service-merge";
+import { createMergeServicesTransactions } from "@/components/service-table/service-transactions";
+import { DuplicateServicesReport } from "@/components/services/duplicate-services-report";
+import { MergeServicesDialog } from "@/components/services/merge-services-dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  type ActiveServiceRecord,
+  useActiveServices,
+} from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { db } from "@/lib/db";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CopyCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the duplicates report
+ */
+function DuplicateServicesReportSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-5 w-full max-w-[480px]" />
+      </div>
+      <Skeleton className="h-10 w-full rounded-lg" />
+      {Array.from({ length: 6 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded-lg" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Possible duplicates page.
+ * Lists services that look registered twice; admins and owners can merge
+ * them, since merging moves one of them to the trash.
+ */
+export default function DuplicatesPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    userId,
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    rawServices,
+    environmentCatalog,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  const [mergePair, setMergePair] = useState<
+    readonly [MergeServiceRecord, MergeServiceRecord] | null
+  >(null);
+
+  const handleMerge = useCallback(
+    (pair: DuplicatePair<ActiveServiceRecord>) => {
+      setMergePair([pair.first, pair.second]);
+    },
+    []
+  );
+
+  const handleMergeOpenChange = useCallback((open: boolean) => {
+    if (!open) {
+      setMergePair(null);
+    }
+  }, []);
+
+  const handleConfirmMerge = useCallback(
+    async (
+      survivor: MergeServiceRecord,
+      duplicate: MergeServiceRecord,
+      plan: ServiceMergePlan
+    ) => {
+      if (!(userId && organizationId)) {
+        return;
+      }
+      await db.transact(
+        createMergeServicesTransactions(
+          db,
+          survivor,
+          duplicate,
+          plan,
+          organizationId,
+          userId
+        )
+      );
+    },
+    [userId, organizationId]
+  );
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <DuplicateServicesReportSkeleton />;
+  }
+
+  return (
+    <>
+      <DuplicateServicesReport
+        canMerge={canAdminister}
+        environmentCatalog={environmentCatalog}
+        onMerge={handleMerge}
+        rawServices={rawServices}
+        servicesHref={`/organization/${slug}/services`}
+      />
+      <MergeServicesDialog
+        onConfirm={handleConfirmMerge}
+        onOpenChange={handleMergeOpenChange}
+        open={mergePair !== null}
+        pair={mergePair}
+        services={rawServices}
+      />
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { Hourglass } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useMemo } from "react";
+import { EndOfLifeReport } from "@/components/services/end-of-life-report";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Hourglass className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the end-of-life report
+ */
+function EndOfLifeReportSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-5 w-full max-w-[480px]" />
+      </div>
+      <Skeleton className="h-10 w-full rounded-lg" />
+      {Array.from({ length: 6 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded-lg" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * End-of-life page.
+ * Lists services running versions past or near their end of support, with
+ * their owners.
+ */
+export default function EndOfLifePage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    groupedServices,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  // Support status is computed for the day the page was opened
+  const today = useMemo(() => new Date(), []);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <EndOfLifeReportSkeleton />;
+  }
+
+  return (
+    <EndOfLifeReport
+      services={groupedServices}
+      servicesHref={`/organization/${slug}/services`}
+      today={today}
+    />
+  );
+}
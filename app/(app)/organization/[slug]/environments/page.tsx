@@ -0,0 +1,222 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { Layers } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import { EnvironmentSettings } from "@/components/environments/environment-settings";
+import {
+  countEnvironmentValues,
+  createDefaultEnvironmentTransactions,
+  createEnvironmentTransaction,
+  createUpdateEnvironmentTransaction,
+  type EnvironmentDefinition,
+  type StoredEnvironment,
+} from "@/components/service-table/environments";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEnvironmentCatalog } from "@/hooks/use-environment-catalog";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { db } from "@/lib/db";
+
+/**
+ * Service record with the interface environments
+ */
+interface RawEnvironmentUsage {
+  readonly id: string;
+  readonly interfaces?: ReadonlyArray<{ readonly env: string | null }>;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Layers className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the environment settings
+ */
+function EnvironmentSettingsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-36" />
+      </div>
+      {Array.from({ length: 3 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Environments page.
+ * Lists the organization's environments; admins and owners manage them.
+ */
+export default function EnvironmentsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    catalog,
+    records,
+    isLoading: isLoadingEnvironments,
+    error: environmentsError,
+  } = useEnvironmentCatalog(organizationId);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            interfaces: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const services = (data?.services ?? []) as RawEnvironmentUsage[];
+
+  const valueCounts = useMemo(
+    () => countEnvironmentValues(services),
+    [services]
+  );
+
+  // The defaults are saved along with the first environment an org adds
+  const handleCreate = useCallback(
+    async (definition: EnvironmentDefinition) => {
+      if (!organizationId) {
+        return;
+      }
+      const defaultTxs = catalog.isDefault
+        ? createDefaultEnvironmentTransactions(db, organizationId)
+        : [];
+      await db.transact([
+        ...defaultTxs,
+        createEnvironmentTransaction(db, organizationId, id(), definition),
+      ]);
+    },
+    [organizationId, catalog.isDefault]
+  );
+
+  const handleUpdate = useCallback(
+    async (
+      environment: StoredEnvironment,
+      definition: EnvironmentDefinition
+    ) => {
+      await db.transact(
+        createUpdateEnvironmentTransaction(db, environment.id, definition)
+      );
+    },
+    []
+  );
+
+  const handleDelete = useCallback(async (environment: StoredEnvironment) => {
+    await db.transact(db.tx.environments[environment.id].delete());
+  }, []);
+
+  const hasError = organizationError || environmentsError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          environmentsError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingEnvironments ||
+    isLoadingServices
+  ) {
+    return <EnvironmentSettingsSkeleton />;
+  }
+
+  return (
+    <EnvironmentSettings
+      canAdminister={canAdminister}
+      catalog={catalog}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onUpdate={handleUpdate}
+      records={records}
+      valueCounts={valueCounts}
+    />
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { Server } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import { RuntimeSettings } from "@/components/runtimes/runtime-settings";
+import {
+  countRuntimeValues,
+  createDefaultRuntimeTransactions,
+  createRuntimeTransaction,
+  createUpdateRuntimeTransaction,
+  type RuntimeDefinition,
+  type StoredRuntime,
+} from "@/components/service-table/runtimes";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { useRuntimeCatalog } from "@/hooks/use-runtime-catalog";
+import { db } from "@/lib/db";
+
+/**
+ * Service record with the interface runtime types
+ */
+interface RawRuntimeUsage {
+  readonly id: string;
+  readonly interfaces?: ReadonlyArray<{
+    readonly runtimeType?: string | null;
+  }>;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Server className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the runtime settings
+ */
+function RuntimeSettingsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-36" />
+      </div>
+      {Array.from({ length: 6 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Runtimes page.
+ * Lists the organization's runtime types; admins and owners manage them.
+ */
+export default function RuntimesPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    catalog,
+    records,
+    isLoading: isLoadingRuntimes,
+    error: runtimesError,
+  } = useRuntimeCatalog(organizationId);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            interfaces: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const services = (data?.services ?? []) as RawRuntimeUsage[];
+
+  const valueCounts = useMemo(() => countRuntimeValues(services), [services]);
+
+  // The defaults are saved along with the first runtime an org registers
+  const handleCreate = useCallback(
+    async (definition: RuntimeDefinition) => {
+      if (!organizationId) {
+        return;
+      }
+      const defaultTxs = catalog.isDefault
+        ? createDefaultRuntimeTransactions(db, organizationId)
+        : [];
+      await db.transact([
+        ...defaultTxs,
+        createRuntimeTransaction(db, organizationId, id(), definition),
+      ]);
+    },
+    [organizationId, catalog.isDefault]
+  );
+
+  const handleUpdate = useCallback(
+    async (runtime: StoredRuntime, definition: RuntimeDefinition) => {
+      await db.transact(
+        createUpdateRuntimeTransaction(db, runtime.id, definition)
+      );
+    },
+    []
+  );
+
+  const handleDelete = useCallback(async (runtime: StoredRuntime) => {
+    await db.transact(db.tx.runtimes[runtime.id].delete());
+  }, []);
+
+  const hasError = organizationError || runtimesError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          runtimesError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingRuntimes ||
+    isLoadingServices
+  ) {
+    return <RuntimeSettingsSkeleton />;
+  }
+
+  return (
+    <RuntimeSettings
+      canAdminister={canAdminister}
+      catalog={catalog}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onUpdate={handleUpdate}
+      records={records}
+      valueCounts={valueCounts}
+    />
+  );
+}
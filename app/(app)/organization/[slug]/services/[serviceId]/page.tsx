@@ -0,0 +1,310 @@
+"use client";
+
+import { Package } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback } from "react";
+import {
+  type RevisionRestoreContext,
+  validateRevisionRestore,
+} from "@/components/service-table/revision-restore";
+import { serviceSnapshotToFormData } from "@/components/service-table/service-revisions";
+import { createUpdateServiceTransactions } from "@/components/service-table/service-transactions";
+import {
+  ServiceDetail,
+  type ServiceDetailRecord,
+} from "@/components/services/service-detail";
+import type { ServiceRevisionRecord } from "@/components/services/service-revision-history";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEnvironmentCatalog } from "@/hooks/use-environment-catalog";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { useRuntimeCatalog } from "@/hooks/use-runtime-catalog";
+import { db } from "@/lib/db";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Package className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton matching the detail layout.
+ */
+function ServiceDetailSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Skeleton className="h-3 w-16" />
+        <Skeleton className="h-7 w-64" />
+        <Skeleton className="h-4 w-96" />
+      </div>
+      {Array.from({ length: 3 }, (_, i) => `skeleton-section-${i}`).map(
+        (key) => (
+          <Skeleton className="h-32 w-full rounded-lg" key={key} />
+        )
+      )}
+    </div>
+  );
+}
+
+/**
+ * Service detail page.
+ * Stable, linkable view of a single service within an organization.
+ */
+export default function ServiceDetailPage() {
+  const params = useParams<{ slug: string; serviceId: string }>();
+  const { slug, serviceId } = params;
+
+  const {
+    userId,
+    organizationId,
+    canCreate,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data: serviceData,
+    isLoading: isLoadingService,
+    error: serviceError,
+  } = db.useQuery(
+    organizationId && serviceId
+      ? {
+          services: {
+            $: {
+              where: {
+                id: serviceId,
+                organizationId,
+              },
+            },
+            interfaces: {},
+            dependencies: {
+              target: {
+                replacement: {},
+              },
+            },
+            team: {},
+            replacement: {},
+            tags: {},
+            dependents: {
+              service: {},
+            },
+            creator: {},
+            updater: {},
+            revisions: {
+              author: {},
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const service = (serviceData?.services?.[0] ??
+    null) as ServiceDetailRecord | null;
+
+  // Restored revisions are checked against the organization as it is now
+  const {
+    data: organizationData,
+    isLoading: isLoadingOrganizationServices,
+    error: organizationServicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            interfaces: {},
+            dependencies: {
+              target: {},
+            },
+          },
+          teams: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const {
+    catalog: environmentCatalog,
+    isLoading: isLoadingEnvironments,
+    error: environmentsError,
+  } = useEnvironmentCatalog(organizationId);
+
+  const {
+    catalog: runtimeCatalog,
+    isLoading: isLoadingRuntimes,
+    error: runtimesError,
+  } = useRuntimeCatalog(organizationId);
+
+  const getRestoreErrors = useCallback(
+    (revision: ServiceRevisionRecord) => {
+      if (!service) {
+        return [];
+      }
+      const context: RevisionRestoreContext = {
+        services: (organizationData?.services ??
+          []) as RevisionRestoreContext["services"],
+        teamIds: new Set(
+          (organizationData?.teams ?? []).map((team) => team.id)
+        ),
+        environmentCatalog,
+      };
+      return validateRevisionRestore(
+        serviceSnapshotToFormData(revision.snapshot),
+        service,
+        context
+      );
+    },
+    [service, organizationData, environmentCatalog]
+  );
+
+  const handleRestoreRevision = useCallback(
+    async (revision: ServiceRevisionRecord) => {
+      if (!(userId && organizationId && service)) {
+        return;
+      }
+      const errors = getRestoreErrors(revision);
+      if (errors.length > 0) {
+        throw new Error(errors.join("\n"));
+      }
+      await db.transact(
+        createUpdateServiceTransactions(
+          db,
+          service.id,
+          organizationId,
+          userId,
+          serviceSnapshotToFormData(revision.snapshot),
+          service,
+          "restore"
+        )
+      );
+    },
+    [userId, organizationId, service, getRestoreErrors]
+  );
+
+  const hasError =
+    organizationError ||
+    serviceError ||
+    organizationServicesError ||
+    environmentsError ||
+    runtimesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          serviceError?.message ||
+          organizationServicesError?.message ||
+          environmentsError?.message ||
+          runtimesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingService ||
+    isLoadingOrganizationServices ||
+    isLoadingEnvironments ||
+    isLoadingRuntimes
+  ) {
+    return <ServiceDetailSkeleton />;
+  }
+
+  if (!service) {
+    return (
+      <StatusMessage
+        description="This service doesn't exist or was removed from the organization."
+        title="Service not found"
+      />
+    );
+  }
+
+  if (service.deletedAt) {
+    return (
+      <StatusMessage
+        description="This service was moved to the trash. An admin can restore it from the organization's Trash page."
+        title="Service in trash"
+      />
+    );
+  }
+
+  return (
+    <ServiceDetail
+      canRestore={canCreate}
+      catalogInfoHref={`/api/organization/${encodeURIComponent(slug)}/services/export?format=backstage&service=${encodeURIComponent(service.id)}`}
+      environmentCatalog={environmentCatalog}
+      getRestoreErrors={getRestoreErrors}
+      impactHref={`/organization/${encodeURIComponent(slug)}/dependencies/impact`}
+      onRestoreRevision={handleRestoreRevision}
+      runtimeCatalog={runtimeCatalog}
+      service={service}
+      servicesHref={`/organization/${encodeURIComponent(slug)}/services`}
+    />
+  );
+}
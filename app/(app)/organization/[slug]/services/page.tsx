@@ -1,28 +1,57 @@
 "use client";
 
-import { AuthUIContext } from "@daveyplate/better-auth-ui";
-import { Download, Package, Plus } from "lucide-react";
-import { useParams } from "next/navigation";
+import { id } from "@instantdb/react";
+import { Download, Link2, Package, Plus, Upload } from "lucide-react";
+import { useParams, useSearchParams } from "next/navigation";
 import {
   Suspense,
   useCallback,
-  useContext,
   useEffect,
   useMemo,
   useRef,
   useState,
 } from "react";
 import { CommandPalette } from "@/components/command-palette";
+import {
+  type BulkEditResult,
+  runBulkWrites,
+} from "@/components/service-table/bulk-edit";
 import {
   CreateServiceDrawer,
   type CreateServiceFormData,
 } from "@/components/service-table/create-service-drawer";
-import { createNewServiceTransactions } from "@/components/service-table/service-transactions";
-import type { GroupedService } from "@/components/service-table/types";
+import type { CustomFieldValues } from "@/components/service-table/custom-fields";
+import { buildServiceDependencyAdjacency } from "@/components/service-table/dependency-cycles";
+import {
+  createDependencyReconciliationTransactions,
+  planDependencyReconciliation,
+} from "@/components/service-table/dependency-links";
+import {
+  createImportMappingTransaction,
+  createUpdateImportMappingTransaction,
+  getServiceImportFields,
+  planServiceImport,
+  type ServiceImportMapping,
+  type ServiceImportPlan,
+} from "@/components/service-table/service-import";
+import {
+  createNewServiceTransactions,
+  createUpdateServiceTransactions,
+} from "@/components/service-table/service-transactions";
+import type { SpreadsheetTable } from "@/components/service-table/spreadsheet-reader";
+import type { TeamOption } from "@/components/service-table/team-links";
 import { convertServicesToGrouped } from "@/components/service-table/utils";
 import { GlobalSearchBar } from "@/components/services/global-search-bar";
+import { ImportServicesDialog } from "@/components/services/import-services-dialog";
+import { ReconcileDependenciesDialog } from "@/components/services/reconcile-dependencies-dialog";
 import { ServicesContent } from "@/components/services/services-content";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Empty,
   EmptyContent,
@@ -37,8 +66,36 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useEnvironmentCatalog } from "@/hooks/use-environment-catalog";
+import { useImportMappings } from "@/hooks/use-import-mappings";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { useRuntimeCatalog } from "@/hooks/use-runtime-catalog";
+import { useServiceTemplates } from "@/hooks/use-service-templates";
 import { useServicesQueryState } from "@/hooks/use-services-query-state";
+import { useTags } from "@/hooks/use-tags";
 import { db } from "@/lib/db";
+import {
+  getEnvironmentOptions,
+  getRuntimeOptions,
+  getTagOptions,
+} from "@/lib/filter-utils";
+
+/**
+ * File formats of the server export offered by the toolbar menu
+ */
+type ServicesExportFormat = "csv" | "xlsx" | "json" | "yaml" | "backstage";
+
+const EXPORT_OPTIONS: ReadonlyArray<{
+  readonly format: ServicesExportFormat;
+  readonly label: string;
+}> = [
+  { format: "xlsx", label: "Excel workbook (.xlsx)" },
+  { format: "csv", label: "CSV (.csv)" },
+  { format: "json", label: "JSON inventory (.json)" },
+  { format: "yaml", label: "YAML inventory (.yaml)" },
+  { format: "backstage", label: "Backstage catalog (catalog-info.yaml)" },
+];
 
 const PAGE_TITLE = "Services";
 const PAGE_DESCRIPTION =
@@ -87,16 +144,23 @@ interface QueryStateBridge {
  */
 function ToolbarRowContent({
   canCreate,
-  groupedServices,
   onCreateService,
+  onImportServices,
+  onReconcileDependencies,
   queryStateBridgeRef,
+  slug,
+  unresolvedDependencyCount,
 }: {
   readonly canCreate: boolean;
-  readonly groupedServices: readonly GroupedService[];
   readonly onCreateService: () => void;
+  readonly onImportServices: () => void;
+  readonly onReconcileDependencies: () => void;
   readonly queryStateBridgeRef: React.RefObject<QueryStateBridge | null>;
+  readonly slug: string;
+  readonly unresolvedDependencyCount: number;
 }) {
   const queryState = useServicesQueryState();
+  const searchParams = useSearchParams();
 
   // Expose query state setters to parent via ref
   useEffect(() => {
@@ -111,20 +175,19 @@ function ToolbarRowContent({
 
   const hasFilteredServices = useMemo(() => {
     const hasQuery = queryState.q.trim().length > 0;
-    const hasFilters =
-      queryState.env.length > 0 ||
-      queryState.runtime.length > 0 ||
-      queryState.owner.length > 0;
+    const hasFilters = queryState.activeFilterCount > 0;
     return hasQuery || hasFilters;
   }, [queryState]);
 
-  const handleExportCsv = useCallback(() => {
-    import("@/components/service-table/export").then(
-      ({ exportServicesToCsv }) => {
-        exportServicesToCsv(groupedServices);
-      }
-    );
-  }, [groupedServices]);
+  // The export route reads the same parameters as the page
+  const getExportHref = useCallback(
+    (format: ServicesExportFormat) => {
+      const query = new URLSearchParams(searchParams.toString());
+      query.set("format", format);
+      return `/api/organization/${slug}/services/export?${query.toString()}`;
+    },
+    [searchParams, slug]
+  );
 
   return (
     <div className="flex items-center justify-between gap-3 py-2">
@@ -135,21 +198,71 @@ function ToolbarRowContent({
 
       {/* Right: Actions */}
       <div className="flex items-center justify-end gap-2">
-        {/* Export CSV - Icon only with tooltip */}
+        {/* Export filtered services - Icon only with format menu */}
         {hasFilteredServices && (
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    aria-label="Export services"
+                    className="h-9"
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent>Export</TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent align="end">
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <DropdownMenuItem asChild key={format}>
+                  <a download href={getExportHref(format)}>
+                    {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {/* Reconcile free-text dependencies - shown while any remain */}
+        {canCreate && unresolvedDependencyCount > 0 && (
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
-                aria-label="Export to CSV"
+                aria-label="Reconcile dependencies"
                 className="h-9"
-                onClick={handleExportCsv}
+                onClick={onReconcileDependencies}
                 size="icon"
                 variant="ghost"
               >
-                <Download className="h-4 w-4" />
+                <Link2 className="h-4 w-4" />
               </Button>
             </TooltipTrigger>
-            <TooltipContent>Export CSV</TooltipContent>
+            <TooltipContent>
+              Reconcile {unresolvedDependencyCount} unlinked dependencies
+            </TooltipContent>
+          </Tooltip>
+        )}
+
+        {/* Import services from a spreadsheet */}
+        {canCreate && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                aria-label="Import services"
+                className="h-9"
+                onClick={onImportServices}
+                size="icon"
+                variant="ghost"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Import from CSV or XLSX</TooltipContent>
           </Tooltip>
         )}
 
@@ -196,22 +309,31 @@ function ToolbarRowContent({
  */
 function ToolbarRow({
   canCreate,
-  groupedServices,
   onCreateService,
+  onImportServices,
+  onReconcileDependencies,
   queryStateBridgeRef,
+  slug,
+  unresolvedDependencyCount,
 }: {
   readonly canCreate: boolean;
-  readonly groupedServices: readonly GroupedService[];
   readonly onCreateService: () => void;
+  readonly onImportServices: () => void;
+  readonly onReconcileDependencies: () => void;
   readonly queryStateBridgeRef: React.RefObject<QueryStateBridge | null>;
+  readonly slug: string;
+  readonly unresolvedDependencyCount: number;
 }) {
   return (
     <Suspense fallback={<ToolbarRowSkeleton />}>
       <ToolbarRowContent
         canCreate={canCreate}
-        groupedServices={groupedServices}
         onCreateService={onCreateService}
+        onImportServices={onImportServices}
+        onReconcileDependencies={onReconcileDependencies}
         queryStateBridgeRef={queryStateBridgeRef}
+        slug={slug}
+        unresolvedDependencyCount={unresolvedDependencyCount}
       />
     </Suspense>
   );
@@ -235,112 +357,26 @@ function ToolbarRowSkeleton() {
 export default function ServicesPage() {
   const params = useParams<{ slug: string }>();
   const slug = params.slug;
-  const { user } = db.useAuth();
-  const userId = user?.id && typeof user.id === "string" ? user.id : null;
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [createServiceTrigger, setCreateServiceTrigger] = useState(0);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [isEmptyStateDrawerOpen, setIsEmptyStateDrawerOpen] = useState(false);
+  const [isReconcileDialogOpen, setIsReconcileDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const queryStateBridgeRef = useRef<QueryStateBridge | null>(null);
 
-  // Resolve organization from Better Auth API list (server-backed). This avoids
-  // client-side InstantDB permission/sync issues after accepting an invitation.
-  const authUIContext = useContext(AuthUIContext);
-  const orgListResult = authUIContext?.hooks?.useListOrganizations?.();
-  const apiOrgList = orgListResult?.data ?? null;
-  const isOrgListLoading = orgListResult?.isPending ?? false;
-
-  // API may return members (with nested organization) or plain organizations; resolve by slug
-  const organizationFromApi = useMemo(() => {
-    if (!slug || !apiOrgList || !Array.isArray(apiOrgList)) return null;
-    for (const item of apiOrgList as Array<
-      | { slug?: string; id?: string; name?: string }
-      | { organization?: { slug?: string; id?: string; name?: string } }
-    >) {
-      const orgSlug =
-        "organization" in item && item.organization?.slug != null
-          ? item.organization.slug
-          : "slug" in item && item.slug != null
-            ? item.slug
-            : null;
-      if (orgSlug != null && String(orgSlug) === String(slug)) {
-        return ("organization" in item ? item.organization : item) as {
-          id: string;
-          name?: string;
-          slug: string;
-        };
-      }
-    }
-    return null;
-  }, [slug, apiOrgList]);
-
-  // Fallback: client-side InstantDB org-by-slug (may be empty due to permissions until sync)
-  const { data: orgData, error: orgError } = db.useQuery(
-    slug && !organizationFromApi
-      ? {
-          organizations: {
-            $: {
-              where: { slug },
-            },
-          },
-        }
-      : null
-  );
-
-  const orgListFromDb = Array.isArray(orgData?.organizations)
-    ? orgData.organizations
-    : [];
-  const organizationFromDb = orgListFromDb[0] ?? null;
-
-  const organization = organizationFromApi ?? organizationFromDb;
-  const organizationId =
-    organization?.id && typeof organization.id === "string"
-      ? organization.id
-      : null;
-
-  // Determine if user has access: if org is from API, user has access
-  const hasAccessViaApi = Boolean(organizationFromApi);
-
-  // Query user's membership to determine role (for canCreate permission)
   const {
-    data: membershipData,
-    isLoading: isLoadingMembership,
-    error: membershipError,
-  } = db.useQuery(
-    userId && organizationId
-      ? {
-          members: {
-            $: {
-              where: {
-                userId,
-                organizationId,
-              },
-            },
-          },
-        }
-      : null
-  );
-
-  const membership = membershipData?.members?.[0];
-  const memberRole = membership?.role ?? null;
-
-  const canCreate = useMemo(() => {
-    // While membership is loading, disable creation to avoid permission errors
-    if (!membershipData) {
-      return false;
-    }
-    if (!membership) {
-      return false;
-    }
-    return (
-      memberRole === "member" ||
-      memberRole === "editor" ||
-      memberRole === "admin" ||
-      memberRole === "owner"
-    );
-  }, [membershipData, membership, memberRole]);
+    userId,
+    organizationId,
+    canCreate,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
 
-  // Query services for this organization only
+  // Query services for this organization only, excluding those in the trash
   // IMPORTANT: Must query organization relationship for permissions to work
   const {
     data: servicesData,
@@ -353,77 +389,89 @@ export default function ServicesPage() {
             $: {
               where: {
                 organizationId,
+                deletedAt: { $isNull: true },
               },
             },
             interfaces: {},
-            dependencies: {},
+            dependencies: {
+              target: {},
+            },
+            team: {},
+            replacement: {},
+            tags: {},
             organization: {
               members: {
                 user: {},
               },
             },
           },
+          teams: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+          },
         }
       : null
   );
 
+  const {
+    catalog: environmentCatalog,
+    isLoading: isLoadingEnvironments,
+    error: environmentsError,
+  } = useEnvironmentCatalog(organizationId);
+
+  const {
+    catalog: runtimeCatalog,
+    isLoading: isLoadingRuntimes,
+    error: runtimesError,
+  } = useRuntimeCatalog(organizationId);
+
+  const {
+    fields: customFields,
+    isLoading: isLoadingCustomFields,
+    error: customFieldsError,
+  } = useCustomFields(organizationId);
+
+  const {
+    tags: availableTags,
+    isLoading: isLoadingTags,
+    error: tagsError,
+  } = useTags(organizationId);
+
+  const {
+    templates,
+    isLoading: isLoadingTemplates,
+    error: templatesError,
+  } = useServiceTemplates(organizationId);
+
+  // Saved column mappings only prefill the import wizard, so they don't
+  // hold back the page
+  const { mappings: importMappings } = useImportMappings(organizationId);
+
   // Combined loading state:
   // - Resolving org from API list or from InstantDB
-  // - If org is found, services query loading
-  const isLoading = useMemo(() => {
-    if (!slug) return false;
-    // Resolving org from Better Auth API list
-    if (isOrgListLoading && !organizationFromApi) {
-      return true;
-    }
-    // Fallback: InstantDB org-by-slug still loading (when we don't have org from API yet)
-    if (!organizationFromApi && orgData === undefined) {
-      return true;
-    }
-    // If we have org, just wait for services to load
-    if (organizationId && isLoadingServices) {
-      return true;
-    }
-    return false;
-  }, [
-    slug,
-    isOrgListLoading,
-    organizationFromApi,
-    orgData,
-    organizationId,
-    isLoadingServices,
-  ]);
-
-  // Org not found: slug in URL but org not in API list and not in InstantDB result
-  const orgNotFound = useMemo(() => {
-    if (!slug) return false;
-    if (organization) return false;
-    if (isOrgListLoading) return false;
-    if (organizationFromApi !== null) return false;
-    if (orgData === undefined) return false;
-    return orgListFromDb.length === 0;
-  }, [
-    slug,
-    organization,
-    isOrgListLoading,
-    organizationFromApi,
-    orgData,
-    orgListFromDb.length,
-  ]);
-
-  // Determine if user doesn't have access
-  // Only block if: org exists, no API access, and membership query shows no membership
-  const noAccess = useMemo(() => {
-    // If user has access via API, they have access
-    if (hasAccessViaApi) {
-      return false;
-    }
-    // Otherwise, check membership: org exists, membership query completed, but no membership found
-    return organization && membershipData !== undefined && !membership;
-  }, [hasAccessViaApi, organization, membershipData, membership]);
+  // - If org is found, services, environments, runtimes, custom fields,
+  //   tags and templates queries loading
+  const isLoading =
+    isLoadingOrganization ||
+    Boolean(organizationId && isLoadingServices) ||
+    isLoadingEnvironments ||
+    isLoadingRuntimes ||
+    isLoadingCustomFields ||
+    isLoadingTags ||
+    isLoadingTemplates;
 
   // Check for any query errors
-  const hasError = orgError || membershipError || servicesError;
+  const hasError =
+    organizationError ||
+    servicesError ||
+    environmentsError ||
+    runtimesError ||
+    customFieldsError ||
+    tagsError ||
+    templatesError;
 
   const rawServices = (servicesData?.services || []) as Array<{
     id: string;
@@ -431,7 +479,15 @@ export default function ServicesPage() {
     description?: string | null;
     language?: string | null; // Stored as comma-separated string
     owner: string;
+    team?: { id: string; name: string } | null;
     repository: string;
+    customFields?: CustomFieldValues | null;
+    lifecycle?: string | null;
+    sunsetDate?: string | null;
+    replacement?: { id: string; name: string } | null;
+    tags?: Array<{ id: string; name: string; color?: string | null }>;
+    techStack?: unknown;
+    links?: unknown;
     organizationId: string;
     createdAt: Date;
     updatedAt: Date;
@@ -446,12 +502,15 @@ export default function ServicesPage() {
     dependencies?: Array<{
       id: string;
       dependencyName: string;
+      external?: boolean | null;
+      target?: { id: string; name: string } | null;
     }>;
   }>;
 
   const groupedServices = useMemo(
-    () => convertServicesToGrouped(rawServices),
-    [rawServices]
+    () =>
+      convertServicesToGrouped(rawServices, environmentCatalog, runtimeCatalog),
+    [rawServices, environmentCatalog, runtimeCatalog]
   );
 
   const existingServiceNames = useMemo(
@@ -460,26 +519,169 @@ export default function ServicesPage() {
   );
 
   // Extract available filter options from services
-  const availableRuntimes = useMemo(() => {
+  const runtimeOptions = useMemo(() => {
     const runtimeSet = new Set<string>();
     for (const service of groupedServices) {
       for (const runtime of service.runtimeFootprint) {
         runtimeSet.add(runtime);
       }
     }
-    return Array.from(runtimeSet).sort();
-  }, [groupedServices]);
+    return getRuntimeOptions(runtimeCatalog, Array.from(runtimeSet));
+  }, [runtimeCatalog, groupedServices]);
+
+  const environmentOptions = useMemo(
+    () =>
+      getEnvironmentOptions(
+        environmentCatalog,
+        groupedServices.flatMap((service) =>
+          service.environments.map((env) => env.env)
+        )
+      ),
+    [environmentCatalog, groupedServices]
+  );
+
+  const tagOptions = useMemo(
+    () => getTagOptions(availableTags),
+    [availableTags]
+  );
+
+  const availableTeams = useMemo(
+    () =>
+      [...((servicesData?.teams ?? []) as TeamOption[])].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+    [servicesData?.teams]
+  );
 
+  // Every team, plus legacy owners of services not yet linked to a team
   const availableOwners = useMemo(() => {
-    const ownerSet = new Set<string>();
+    const ownerSet = new Set<string>(availableTeams.map((team) => team.name));
     for (const service of groupedServices) {
       ownerSet.add(service.owner);
     }
     return Array.from(ownerSet).sort();
-  }, [groupedServices]);
+  }, [availableTeams, groupedServices]);
 
   const hasServices = groupedServices.length > 0;
 
+  // Legacy free-text dependencies that are neither linked nor marked external
+  const dependencyReconciliationPlan = useMemo(
+    () =>
+      planDependencyReconciliation(
+        rawServices,
+        rawServices.map(({ id, name }) => ({ id, name }))
+      ),
+    [rawServices]
+  );
+
+  const handleReconcileDependencies = useCallback(async () => {
+    if (!(userId && organizationId)) {
+      return;
+    }
+    await db.transact(
+      createDependencyReconciliationTransactions(
+        db,
+        dependencyReconciliationPlan,
+        rawServices,
+        { organizationId, userId }
+      )
+    );
+  }, [dependencyReconciliationPlan, rawServices, userId, organizationId]);
+
+  const importFields = useMemo(
+    () => getServiceImportFields(customFields),
+    [customFields]
+  );
+
+  const handleOpenImportDialog = useCallback(() => {
+    setIsImportDialogOpen(true);
+  }, []);
+
+  const handlePlanImport = useCallback(
+    (table: SpreadsheetTable, mapping: ServiceImportMapping) =>
+      planServiceImport(table, mapping, {
+        services: rawServices,
+        adjacency: buildServiceDependencyAdjacency(rawServices),
+        teams: availableTeams,
+        tags: availableTags,
+        environmentCatalog,
+        runtimeCatalog,
+        customFields,
+      }),
+    [
+      rawServices,
+      availableTeams,
+      availableTags,
+      environmentCatalog,
+      runtimeCatalog,
+      customFields,
+    ]
+  );
+
+  // Imported services get the same transactions and revisions as the form
+  const handleImportServices = useCallback(
+    (
+      plan: ServiceImportPlan,
+      onProgress: (completed: number, total: number) => void
+    ): Promise<BulkEditResult[]> => {
+      if (!(userId && organizationId)) {
+        return Promise.resolve([]);
+      }
+      return runBulkWrites(
+        plan.writes.map((write) => ({
+          serviceId: write.serviceId,
+          serviceName: write.serviceName,
+          transactions: write.existing
+            ? createUpdateServiceTransactions(
+                db,
+                write.serviceId,
+                organizationId,
+                userId,
+                write.data,
+                write.existing
+              )
+            : createNewServiceTransactions(
+                db,
+                organizationId,
+                userId,
+                write.data,
+                write.serviceId
+              ),
+        })),
+        (chunks: Parameters<typeof db.transact>[0]) => db.transact(chunks),
+        onProgress
+      );
+    },
+    [userId, organizationId]
+  );
+
+  const handleSaveImportMapping = useCallback(
+    async (name: string, mapping: ServiceImportMapping) => {
+      if (!organizationId) {
+        return;
+      }
+      const existing = importMappings.find(
+        (saved) => saved.name.toLowerCase() === name.toLowerCase()
+      );
+      await db.transact(
+        existing
+          ? createUpdateImportMappingTransaction(db, existing.id, mapping)
+          : createImportMappingTransaction(
+              db,
+              organizationId,
+              id(),
+              name,
+              mapping
+            )
+      );
+    },
+    [organizationId, importMappings]
+  );
+
+  const handleDeleteImportMapping = useCallback(async (mappingId: string) => {
+    await db.transact(db.tx.importMappings[mappingId].delete());
+  }, []);
+
   // Keyboard shortcut for command palette
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -614,9 +816,13 @@ export default function ServicesPage() {
   // Show error state if any query failed
   if (hasError) {
     const errorMessage =
-      orgError?.message ||
-      membershipError?.message ||
+      organizationError?.message ||
       servicesError?.message ||
+      environmentsError?.message ||
+      runtimesError?.message ||
+      customFieldsError?.message ||
+      tagsError?.message ||
+      templatesError?.message ||
       "An error occurred";
     return (
       <div className="space-y-4">
@@ -683,9 +889,12 @@ export default function ServicesPage() {
       {!isLoading && hasServices && userId && organizationId && (
         <ToolbarRow
           canCreate={canCreate}
-          groupedServices={groupedServices}
           onCreateService={handleCreateService}
+          onImportServices={handleOpenImportDialog}
+          onReconcileDependencies={() => setIsReconcileDialogOpen(true)}
           queryStateBridgeRef={queryStateBridgeRef}
+          slug={slug}
+          unresolvedDependencyCount={dependencyReconciliationPlan.length}
         />
       )}
 
@@ -720,14 +929,23 @@ export default function ServicesPage() {
         <Suspense fallback={<ServicesContentFallback />}>
           <ServicesContent
             availableOwners={availableOwners}
-            availableRuntimes={availableRuntimes}
+            availableTags={availableTags}
+            availableTeams={availableTeams}
             canCreate={canCreate}
+            canDelete={canAdminister}
             createServiceTrigger={createServiceTrigger}
+            customFields={customFields}
+            environmentCatalog={environmentCatalog}
+            environmentOptions={environmentOptions}
             existingServiceNames={existingServiceNames}
             groupedServices={groupedServices}
             onDrawerOpenChange={handleDrawerOpenChange}
             organizationIds={[organizationId]}
             rawServices={rawServices}
+            runtimeCatalog={runtimeCatalog}
+            runtimeOptions={runtimeOptions}
+            tagOptions={tagOptions}
+            templates={templates}
             userId={userId}
           />
         </Suspense>
@@ -743,27 +961,39 @@ export default function ServicesPage() {
               <EmptyTitle>No services yet</EmptyTitle>
               <EmptyDescription>
                 Services represent deployed software in your organization.
-                Create your first service to start building your deployment
-                inventory.
+                Create your first service, or import them from a spreadsheet, to
+                start building your deployment inventory.
               </EmptyDescription>
             </EmptyHeader>
             {canCreate && (
               <EmptyContent>
-                <Button onClick={handleOpenEmptyStateDrawer}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Create service
-                </Button>
+                <div className="flex gap-2">
+                  <Button onClick={handleOpenEmptyStateDrawer}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create service
+                  </Button>
+                  <Button onClick={handleOpenImportDialog} variant="outline">
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import services
+                  </Button>
+                </div>
               </EmptyContent>
             )}
           </Empty>
 
           {canCreate && organizationId && (
             <CreateServiceDrawer
+              availableTags={availableTags}
+              availableTeams={availableTeams}
               canCreate={canCreate}
+              customFields={customFields}
+              environmentCatalog={environmentCatalog}
               existingServiceNames={existingServiceNames}
               onOpenChange={setIsEmptyStateDrawerOpen}
               onSubmit={handleEmptyStateServiceSubmit}
               open={isEmptyStateDrawerOpen}
+              runtimeCatalog={runtimeCatalog}
+              templates={templates}
             />
           )}
         </>
@@ -773,6 +1003,7 @@ export default function ServicesPage() {
         canCreate={canCreate}
         groupedServices={groupedServices}
         onCreateService={handleCreateService}
+        onImportServices={handleOpenImportDialog}
         onOpenChange={setCommandPaletteOpen}
         onSetOwner={(owners) => {
           queryStateBridgeRef.current?.setOwner(owners);
@@ -789,6 +1020,26 @@ export default function ServicesPage() {
         }))}
         slug={slug}
       />
+
+      <ReconcileDependenciesDialog
+        onConfirm={handleReconcileDependencies}
+        onOpenChange={setIsReconcileDialogOpen}
+        open={isReconcileDialogOpen}
+        plan={dependencyReconciliationPlan}
+      />
+
+      {canCreate && (
+        <ImportServicesDialog
+          fields={importFields}
+          mappings={importMappings}
+          onDeleteMapping={handleDeleteImportMapping}
+          onImport={handleImportServices}
+          onOpenChange={setIsImportDialogOpen}
+          onPlan={handlePlanImport}
+          onSaveMapping={handleSaveImportMapping}
+          open={isImportDialogOpen}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+"use client";
+
+import { CalendarClock } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useMemo } from "react";
+import { UpcomingSunsets } from "@/components/services/upcoming-sunsets";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useActiveServices } from "@/hooks/use-active-services";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CalendarClock className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the sunset list
+ */
+function UpcomingSunsetsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 py-2">
+        <Skeleton className="h-5 w-full max-w-[480px]" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-16 w-full rounded-lg" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Upcoming sunsets page.
+ * Lists deprecated services by sunset date with the services still using them.
+ */
+export default function SunsetsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    rawServices,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = useActiveServices(organizationId);
+
+  // Distances are counted from the day the page was opened
+  const today = useMemo(() => new Date(), []);
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return <UpcomingSunsetsSkeleton />;
+  }
+
+  return (
+    <UpcomingSunsets
+      rawServices={rawServices}
+      servicesHref={`/organization/${slug}/services`}
+      today={today}
+    />
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { Tag } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import {
+  countTagUsage,
+  createTagTransaction,
+  createUpdateTagTransaction,
+  type StoredTag,
+  type TagDefinition,
+} from "@/components/service-table/tags";
+import { TagSettings } from "@/components/tags/tag-settings";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { useTags } from "@/hooks/use-tags";
+import { db } from "@/lib/db";
+
+/**
+ * Service record with its tags
+ */
+interface RawTagUsage {
+  readonly id: string;
+  readonly tags?: ReadonlyArray<{ readonly id: string }>;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Tag className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the tag settings
+ */
+function TagSettingsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-28" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Tags page.
+ * Lists the organization's service tags; admins and owners manage them.
+ */
+export default function TagsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    tags,
+    isLoading: isLoadingTags,
+    error: tagsError,
+  } = useTags(organizationId);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            tags: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const services = (data?.services ?? []) as RawTagUsage[];
+
+  const usageCounts = useMemo(() => countTagUsage(services), [services]);
+
+  const handleCreate = useCallback(
+    async (definition: TagDefinition) => {
+      if (!organizationId) {
+        return;
+      }
+      await db.transact(
+        createTagTransaction(db, organizationId, id(), definition)
+      );
+    },
+    [organizationId]
+  );
+
+  const handleUpdate = useCallback(
+    async (tag: StoredTag, definition: TagDefinition) => {
+      await db.transact(createUpdateTagTransaction(db, tag.id, definition));
+    },
+    []
+  );
+
+  // Deleting the tag removes its links to services
+  const handleDelete = useCallback(async (tag: StoredTag) => {
+    await db.transact(db.tx.tags[tag.id].delete());
+  }, []);
+
+  const hasError = organizationError || tagsError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          tagsError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingTags ||
+    isLoadingServices
+  ) {
+    return <TagSettingsSkeleton />;
+  }
+
+  return (
+    <TagSettings
+      canAdminister={canAdminister}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onUpdate={handleUpdate}
+      tags={tags}
+      usageCounts={usageCounts}
+    />
+  );
+}
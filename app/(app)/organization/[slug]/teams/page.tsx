@@ -0,0 +1,290 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { UsersRound } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import type { StoredServiceSource } from "@/components/service-table/service-revisions";
+import {
+  createDeleteTeamTransactions,
+  createOwnerMigrationTransactions,
+  createTeamTransaction,
+  createUpdateTeamTransactions,
+  planOwnerMigration,
+  type TeamInput,
+} from "@/components/service-table/team-links";
+import {
+  TeamDirectory,
+  type TeamRecord,
+} from "@/components/teams/team-directory";
+import type { TeamMemberOption } from "@/components/teams/team-form-dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { db } from "@/lib/db";
+
+/**
+ * Organization member record with its user
+ */
+interface RawMember {
+  readonly id: string;
+  readonly user?: {
+    readonly id: string;
+    readonly name?: string | null;
+    readonly email?: string | null;
+  } | null;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <UsersRound className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the team directory
+ */
+function TeamDirectorySkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-28" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Teams page.
+ * Lists the teams that own services; editors manage them and migrate owners.
+ */
+export default function TeamsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    userId,
+    organizationId,
+    canCreate,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingTeams,
+    error: teamsError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          teams: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            members: {},
+            // Loaded in full: renaming or deleting the team records a
+            // revision of each of its services
+            services: {
+              interfaces: {},
+              dependencies: {
+                target: {},
+              },
+              team: {},
+              replacement: {},
+              tags: {},
+            },
+          },
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            interfaces: {},
+            dependencies: {
+              target: {},
+            },
+            team: {},
+            replacement: {},
+            tags: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+          members: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            user: {},
+          },
+        }
+      : null
+  );
+
+  const teams = (data?.teams ?? []) as TeamRecord[];
+  // Loaded in full: the migration records a revision of each service it
+  // moves to a team
+  const services = (data?.services ?? []) as StoredServiceSource[];
+  const members = (data?.members ?? []) as RawMember[];
+
+  const memberOptions = useMemo<TeamMemberOption[]>(
+    () =>
+      members
+        .map((member) => ({
+          id: member.id,
+          label:
+            member.user?.name?.trim() ||
+            member.user?.email?.trim() ||
+            "Unknown user",
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [members]
+  );
+
+  const migrationPlan = useMemo(
+    () => planOwnerMigration(services, teams),
+    [services, teams]
+  );
+
+  const handleCreate = useCallback(
+    async (input: TeamInput) => {
+      if (!organizationId) {
+        return;
+      }
+      await db.transact(createTeamTransaction(db, organizationId, id(), input));
+    },
+    [organizationId]
+  );
+
+  // Services whose owner a team change rewrites get a revision by this user
+  const handleUpdate = useCallback(
+    async (team: TeamRecord, input: TeamInput) => {
+      if (!(userId && organizationId)) {
+        return;
+      }
+      await db.transact(
+        createUpdateTeamTransactions(db, team, input, {
+          organizationId,
+          userId,
+        })
+      );
+    },
+    [userId, organizationId]
+  );
+
+  const handleDelete = useCallback(
+    async (team: TeamRecord) => {
+      if (!(userId && organizationId)) {
+        return;
+      }
+      await db.transact(
+        createDeleteTeamTransactions(db, team, { organizationId, userId })
+      );
+    },
+    [userId, organizationId]
+  );
+
+  const handleMigrate = useCallback(async () => {
+    if (!(userId && organizationId)) {
+      return;
+    }
+    await db.transact(
+      createOwnerMigrationTransactions(db, migrationPlan, services, {
+        organizationId,
+        userId,
+      })
+    );
+  }, [userId, organizationId, migrationPlan, services]);
+
+  const hasError = organizationError || teamsError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          teamsError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingTeams) {
+    return <TeamDirectorySkeleton />;
+  }
+
+  return (
+    <TeamDirectory
+      canAdminister={canAdminister}
+      canCreate={canCreate}
+      memberOptions={memberOptions}
+      migrationPlan={migrationPlan}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onMigrate={handleMigrate}
+      onUpdate={handleUpdate}
+      servicesHref={`/organization/${slug}/services`}
+      teams={teams}
+    />
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { id } from "@instantdb/react";
+import { LayoutTemplate } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback } from "react";
+import {
+  createServiceTemplateTransaction,
+  createUpdateServiceTemplateTransaction,
+  type ServiceTemplateDefinition,
+  type StoredServiceTemplate,
+} from "@/components/service-table/service-templates";
+import { ServiceTemplateSettings } from "@/components/service-templates/service-template-settings";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useEnvironmentCatalog } from "@/hooks/use-environment-catalog";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { useRuntimeCatalog } from "@/hooks/use-runtime-catalog";
+import { useServiceTemplates } from "@/hooks/use-service-templates";
+import { db } from "@/lib/db";
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <LayoutTemplate className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the service template settings
+ */
+function ServiceTemplateSettingsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <Skeleton className="h-5 w-full max-w-[360px]" />
+        <Skeleton className="h-8 w-32" />
+      </div>
+      {Array.from({ length: 4 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+        <Skeleton className="h-12 w-full rounded" key={key} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Service templates page.
+ * Lists the organization's service templates; admins and owners manage them.
+ */
+export default function ServiceTemplatesPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  const {
+    templates,
+    isLoading: isLoadingTemplates,
+    error: templatesError,
+  } = useServiceTemplates(organizationId);
+  const {
+    catalog: environmentCatalog,
+    isLoading: isLoadingEnvironments,
+    error: environmentsError,
+  } = useEnvironmentCatalog(organizationId);
+  const {
+    catalog: runtimeCatalog,
+    isLoading: isLoadingRuntimes,
+    error: runtimesError,
+  } = useRuntimeCatalog(organizationId);
+  const {
+    fields: customFields,
+    isLoading: isLoadingFields,
+    error: fieldsError,
+  } = useCustomFields(organizationId);
+
+  const handleCreate = useCallback(
+    async (definition: ServiceTemplateDefinition) => {
+      if (!organizationId) {
+        return;
+      }
+      await db.transact(
+        createServiceTemplateTransaction(db, organizationId, id(), definition)
+      );
+    },
+    [organizationId]
+  );
+
+  const handleUpdate = useCallback(
+    async (
+      template: StoredServiceTemplate,
+      definition: ServiceTemplateDefinition
+    ) => {
+      await db.transact(
+        createUpdateServiceTemplateTransaction(db, template.id, definition)
+      );
+    },
+    []
+  );
+
+  const handleDelete = useCallback(async (template: StoredServiceTemplate) => {
+    await db.transact(db.tx.serviceTemplates[template.id].delete());
+  }, []);
+
+  const error =
+    organizationError ||
+    templatesError ||
+    environmentsError ||
+    runtimesError ||
+    fieldsError;
+
+  if (error) {
+    return (
+      <StatusMessage
+        description={error.message || "An error occurred"}
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (
+    isLoadingOrganization ||
+    !organizationId ||
+    isLoadingTemplates ||
+    isLoadingEnvironments ||
+    isLoadingRuntimes ||
+    isLoadingFields
+  ) {
+    return <ServiceTemplateSettingsSkeleton />;
+  }
+
+  return (
+    <ServiceTemplateSettings
+      canAdminister={canAdminister}
+      customFields={customFields}
+      environmentCatalog={environmentCatalog}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      onUpdate={handleUpdate}
+      runtimeCatalog={runtimeCatalog}
+      templates={templates}
+    />
+  );
+}
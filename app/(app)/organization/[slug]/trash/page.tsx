@@ -0,0 +1,260 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useCallback, useMemo } from "react";
+import {
+  createPurgeServiceTransactions,
+  createRestoreDeletedServiceTransactions,
+} from "@/components/service-table/service-transactions";
+import {
+  ServiceTrash,
+  type TrashedService,
+} from "@/components/services/service-trash";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useOrganizationMembership } from "@/hooks/use-organization-membership";
+import { db } from "@/lib/db";
+import { resolveTrashRetentionDays } from "@/lib/trash";
+
+/**
+ * Raw service record with the relations needed to restore or purge it
+ */
+interface RawTrashService {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string | null;
+  readonly language?: string | null;
+  readonly owner: string;
+  readonly team?: { readonly id: string; readonly name: string } | null;
+  readonly repository: string;
+  readonly deletedAt?: Date | null;
+  readonly deletedById?: string | null;
+  readonly interfaces?: Array<{
+    readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch?: string | null;
+    readonly runtimeType?: string | null;
+    readonly runtimeId?: string | null;
+  }>;
+  readonly dependencies?: Array<{
+    readonly id: string;
+    readonly dependencyName: string;
+    readonly target?: { readonly id: string; readonly name: string } | null;
+  }>;
+  readonly deleter?: {
+    readonly id: string;
+    readonly name?: string | null;
+    readonly email?: string | null;
+  } | null;
+}
+
+/**
+ * Full-width status message used for error, not-found and access states.
+ */
+function StatusMessage({
+  title,
+  description,
+}: {
+  readonly title: string;
+  readonly description: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <Trash2 className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{title}</EmptyTitle>
+          <EmptyDescription>{description}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    </div>
+  );
+}
+
+/**
+ * Trash page.
+ * Lists soft-deleted services of the organization; admins can restore or purge them.
+ */
+export default function TrashPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
+
+  const {
+    userId,
+    organizationId,
+    canAdminister,
+    isLoading: isLoadingOrganization,
+    orgNotFound,
+    noAccess,
+    error: organizationError,
+  } = useOrganizationMembership(slug);
+
+  // Active services are loaded too, to detect name conflicts on restore
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const {
+    data,
+    isLoading: isLoadingServices,
+    error: servicesError,
+  } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            interfaces: {},
+            dependencies: {
+              target: {},
+            },
+            team: {},
+            replacement: {},
+            tags: {},
+            deleter: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+          organizations: {
+            $: {
+              where: {
+                id: organizationId,
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const rawServices = (data?.services ?? []) as RawTrashService[];
+  const retentionDays = resolveTrashRetentionDays(
+    data?.organizations?.[0]?.trashRetentionDays
+  );
+
+  const trashedServices = useMemo(
+    () => rawServices.filter((service) => service.deletedAt),
+    [rawServices]
+  );
+
+  const activeServiceNames = useMemo(
+    () =>
+      rawServices
+        .filter((service) => !service.deletedAt)
+        .map((service) => service.name),
+    [rawServices]
+  );
+
+  const findRawService = useCallback(
+    (service: TrashedService) =>
+      rawServices.find((raw) => raw.id === service.id) ?? null,
+    [rawServices]
+  );
+
+  const handleRestore = useCallback(
+    async (service: TrashedService) => {
+      const raw = findRawService(service);
+      if (!(userId && organizationId && raw)) {
+        return;
+      }
+      await db.transact(
+        createRestoreDeletedServiceTransactions(db, raw, organizationId, userId)
+      );
+    },
+    [userId, organizationId, findRawService]
+  );
+
+  const handlePurge = useCallback(
+    async (service: TrashedService) => {
+      const raw = findRawService(service);
+      if (!(userId && organizationId && raw)) {
+        return;
+      }
+      await db.transact(
+        createPurgeServiceTransactions(db, raw, organizationId, userId)
+      );
+    },
+    [userId, organizationId, findRawService]
+  );
+
+  const handleRetentionChange = useCallback(
+    async (days: number) => {
+      if (!organizationId) {
+        return;
+      }
+      await db.transact(
+        db.tx.organizations[organizationId].update({
+          trashRetentionDays: days,
+        })
+      );
+    },
+    [organizationId]
+  );
+
+  const hasError = organizationError || servicesError;
+
+  if (hasError) {
+    return (
+      <StatusMessage
+        description={
+          organizationError?.message ||
+          servicesError?.message ||
+          "An error occurred"
+        }
+        title="Something went wrong"
+      />
+    );
+  }
+
+  if (orgNotFound) {
+    return (
+      <StatusMessage
+        description="The organization you're looking for doesn't exist."
+        title="Organization not found"
+      />
+    );
+  }
+
+  if (noAccess) {
+    return (
+      <StatusMessage
+        description="You don't have access to this organization."
+        title="Access denied"
+      />
+    );
+  }
+
+  if (isLoadingOrganization || !organizationId || isLoadingServices) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }, (_, i) => `skeleton-row-${i}`).map((key) => (
+          <Skeleton className="h-12 w-full rounded" key={key} />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ServiceTrash
+      activeServiceNames={activeServiceNames}
+      canAdminister={canAdminister}
+      onPurge={handlePurge}
+      onRestore={handleRestore}
+      onRetentionChange={handleRetentionChange}
+      retentionDays={retentionDays}
+      services={trashedServices as TrashedService[]}
+    />
+  );
+}
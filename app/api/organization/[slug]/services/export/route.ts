@@ -0,0 +1,468 @@
+/**
+ * Services Export Route
+ *
+ * Exports the services of an organization as CSV, XLSX, as the JSON or
+ * YAML inventory documents, or as Backstage catalog-info documents, for a
+ * signed-in member allowed to read services. Accepts the query parameters of
+ * the services page (q, env, owner, runtime, lifecycle, tag, cf, match) so a
+ * shared filtered URL exports exactly the services it shows, plus `format`
+ * and `service`, the id of a single service to export.
+ *
+ * The organization's services are listed once per export, oldest first,
+ * into an index of their names and lifecycles. Services are then read a page
+ * at a time in index order, so services created or deleted meanwhile can't
+ * shift the pages, and lifecycle warnings and catalog references are
+ * resolved against the whole index rather than one page.
+ *
+ * For CSV and XLSX, services are written as they arrive, so large
+ * organizations are never held in memory at once. Unlike the page, search
+ * results keep their stored order instead of being ranked by relevance. The
+ * inventory and catalog documents are sorted by name, so they are built once
+ * every service has been read.
+ *
+ * GET /api/organization/{slug}/services/export?format=xlsx&env=production
+ */
+
+import type { Role } from "better-auth/plugins/access";
+import consola from "consola";
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldType,
+  type CustomFieldValue,
+  sortCustomFields,
+} from "@/components/service-table/custom-fields";
+import { createServicesQueryMatcher } from "@/components/service-table/derive-visible-services";
+import {
+  createEnvironmentCatalog,
+  type EnvironmentCatalog,
+} from "@/components/service-table/environments";
+import {
+  buildServiceWorkbookStreams,
+  getInterfaceExportColumns,
+  getInterfaceExportRows,
+  getServiceExportMetadata,
+  toServicesCsvLine,
+} from "@/components/service-table/export";
+import type { LifecycleSource } from "@/components/service-table/lifecycle";
+import {
+  createRuntimeCatalog,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
+import type { GroupedService } from "@/components/service-table/types";
+import { convertServicesToGrouped } from "@/components/service-table/utils";
+import {
+  streamXlsxWorkbook,
+  XLSX_MIME_TYPE,
+} from "@/components/service-table/xlsx";
+import {
+  adminDb,
+  adminRole,
+  auth,
+  editor,
+  member,
+  owner,
+  viewer,
+} from "@/lib/auth";
+import { CATALOG_INFO_FILE_NAME, serializeCatalogInfo } from "@/lib/backstage";
+import {
+  INVENTORY_SCHEMA_PATH,
+  type InventoryService,
+  serializeInventoryJson,
+  serializeInventoryYaml,
+  toInventoryService,
+} from "@/lib/inventory";
+import {
+  loadServicesQueryParams,
+  normalizeServicesQueryParams,
+} from "@/lib/services-query";
+
+/**
+ * Number of services read per query
+ */
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * Formats of the export, with their content type
+ */
+const EXPORT_CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: XLSX_MIME_TYPE,
+  json: "application/json; charset=utf-8",
+  yaml: "application/yaml; charset=utf-8",
+  backstage: "application/yaml; charset=utf-8",
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES;
+
+/**
+ * Organization roles, by the name stored on memberships
+ */
+const ROLES: Readonly<Record<string, Role>> = {
+  owner,
+  admin: adminRole,
+  member,
+  editor,
+  viewer,
+};
+
+/**
+ * Organization catalogs the services are resolved against
+ */
+interface ExportContext {
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly customFields: readonly CustomFieldDefinition[];
+}
+
+/**
+ * Whether a value is a supported export format
+ */
+function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(EXPORT_CONTENT_TYPES, value);
+}
+
+/**
+ * Whether a membership role grants the service read permission. Members
+ * may hold several comma-separated roles.
+ */
+function canReadServices(role: string): boolean {
+  return role.split(",").some((name) => {
+    const key = name.trim();
+    return (
+      Object.hasOwn(ROLES, key) &&
+      ROLES[key].authorize({ service: ["read"] }).success
+    );
+  });
+}
+
+/**
+ * Loads the environments, runtimes and custom fields of an organization
+ */
+async function loadExportContext(
+  organizationId: string
+): Promise<ExportContext> {
+  const where = { organizationId };
+  const { environments, runtimes, customFields } = await adminDb.query({
+    environments: { $: { where } },
+    runtimes: { $: { where } },
+    customFields: { $: { where } },
+  });
+
+  return {
+    environmentCatalog: createEnvironmentCatalog(
+      environments.map((environment) => ({
+        key: environment.key,
+        label: environment.label,
+        order: environment.order,
+        color: environment.color,
+        aliases: environment.aliases ?? [],
+      }))
+    ),
+    runtimeCatalog: createRuntimeCatalog(
+      runtimes.map((runtime) => ({
+        key: runtime.key,
+        label: runtime.label,
+        badge: runtime.badge,
+        runtimeIdHint: runtime.runtimeIdHint ?? "",
+      }))
+    ),
+    customFields: sortCustomFields(
+      customFields.map((field) => ({
+        key: field.key,
+        label: field.label,
+        type: field.type as CustomFieldType,
+        required: field.required,
+        options: field.options ?? [],
+        defaultValue: (field.defaultValue as CustomFieldValue) ?? null,
+        order: field.order,
+      }))
+    ),
+  };
+}
+
+/**
+ * Lists the active services of an organization once, oldest first, with the
+ * fields other services are resolved against
+ */
+async function loadServiceIndex(
+  organizationId: string
+): Promise<LifecycleSource[]> {
+  const { services } = await adminDb.query({
+    services: {
+      $: {
+        where: {
+          organizationId,
+          deletedAt: { $isNull: true },
+        },
+        order: { serverCreatedAt: "asc" },
+        fields: ["name", "lifecycle", "sunsetDate"],
+      },
+      replacement: {
+        $: { fields: ["name"] },
+      },
+    },
+  });
+  return services.map((service) => ({
+    id: service.id,
+    name: service.name,
+    lifecycle: service.lifecycle ?? null,
+    sunsetDate: service.sunsetDate ?? null,
+    replacement: service.replacement
+      ? { id: service.replacement.id, name: service.replacement.name }
+      : null,
+  }));
+}
+
+/**
+ * Reads the indexed services that match a test, a page at a time, in index
+ * order. Services deleted since the index was loaded are left out.
+ */
+async function* readServices(
+  organizationId: string,
+  context: ExportContext,
+  index: readonly LifecycleSource[],
+  matches: (service: GroupedService) => boolean
+): AsyncGenerator<GroupedService> {
+  const indexById = new Map(index.map((service) => [service.id, service]));
+  const positions = new Map(
+    index.map((service, position) => [service.id, position])
+  );
+
+  for (let start = 0; start < index.length; start += EXPORT_PAGE_SIZE) {
+    const ids = index
+      .slice(start, start + EXPORT_PAGE_SIZE)
+      .map((service) => service.id);
+    const { services } = await adminDb.query({
+      services: {
+        $: {
+          where: {
+            id: { $in: ids },
+            organizationId,
+            deletedAt: { $isNull: true },
+          },
+        },
+        interfaces: {},
+        dependencies: {
+          target: {},
+        },
+        team: {},
+        replacement: {},
+        tags: {},
+      },
+    });
+    const ordered = [...services].sort(
+      (a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0)
+    );
+
+    // Optional attributes come back undefined; the conversion handles both
+    const page = convertServicesToGrouped(
+      ordered as Parameters<typeof convertServicesToGrouped>[0],
+      context.environmentCatalog,
+      context.runtimeCatalog,
+      indexById
+    );
+    for (const service of page) {
+      if (matches(service)) {
+        yield service;
+      }
+    }
+  }
+}
+
+/**
+ * CSV export: one line per interface, as the services page exports it
+ */
+async function* streamCsv(
+  services: AsyncIterable<GroupedService>,
+  customFields: readonly CustomFieldDefinition[]
+): AsyncGenerator<string> {
+  yield toServicesCsvLine(getInterfaceExportColumns(customFields));
+  for await (const service of services) {
+    for (const row of getInterfaceExportRows(service, customFields)) {
+      yield `\n${toServicesCsvLine(row)}`;
+    }
+  }
+}
+
+/**
+ * Reads every service into its inventory form
+ */
+async function readInventory(
+  services: AsyncIterable<GroupedService>
+): Promise<InventoryService[]> {
+  const inventory: InventoryService[] = [];
+  for await (const service of services) {
+    inventory.push(toInventoryService(service));
+  }
+  return inventory;
+}
+
+/**
+ * Writes the services as catalog-info documents. Dependencies on indexed
+ * services are told from those on external systems.
+ */
+async function readCatalogInfo(
+  services: AsyncIterable<GroupedService>,
+  index: readonly LifecycleSource[]
+): Promise<string> {
+  return serializeCatalogInfo(
+    await readInventory(services),
+    new Set(index.map((service) => service.name))
+  );
+}
+
+/**
+ * Name of the downloaded file; a single service's catalog document gets the
+ * name Backstage looks for
+ */
+function getExportFileName(
+  format: ExportFormat,
+  slug: string,
+  serviceId: string | null
+): string {
+  if (format !== "backstage") {
+    return `${slug}-services.${format}`;
+  }
+  return serviceId
+    ? CATALOG_INFO_FILE_NAME
+    : `${slug}-${CATALOG_INFO_FILE_NAME}`;
+}
+
+/**
+ * Response body pulling chunks as the client reads them
+ */
+function toResponseBody(
+  chunks: AsyncGenerator<string | Uint8Array>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(
+            typeof value === "string" ? encoder.encode(value) : value
+          );
+        }
+      } catch (error) {
+        consola.error("[Export] Failed to stream services export:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const format = request.nextUrl.searchParams.get("format") ?? "csv";
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: "Unsupported export format" },
+      { status: 400 }
+    );
+  }
+
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { slug } = await params;
+    const { organizations } = await adminDb.query({
+      organizations: {
+        $: { where: { slug } },
+      },
+    });
+    const organization = organizations[0];
+    if (!organization) {
+      return NextResponse.json(
+        { error: "Organization not found" },
+        { status: 404 }
+      );
+    }
+
+    const { members } = await adminDb.query({
+      members: {
+        $: {
+          where: {
+            organizationId: organization.id,
+            userId: session.user.id,
+          },
+        },
+      },
+    });
+    if (!members.some((membership) => canReadServices(membership.role))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const context = await loadExportContext(organization.id);
+    const queryState = normalizeServicesQueryParams(
+      loadServicesQueryParams(request.nextUrl.searchParams)
+    );
+    const serviceId = request.nextUrl.searchParams.get("service");
+    const matchesQuery = createServicesQueryMatcher(queryState);
+    const matches = (service: GroupedService) =>
+      (!serviceId || service.id === serviceId) && matchesQuery(service);
+    const metadata = getServiceExportMetadata(queryState, context.customFields);
+    const exportedAt = new Date();
+    const index = await loadServiceIndex(organization.id);
+    const services = () =>
+      readServices(organization.id, context, index, matches);
+
+    let body: ReadableStream<Uint8Array> | string;
+    if (format === "xlsx") {
+      body = toResponseBody(
+        streamXlsxWorkbook(
+          buildServiceWorkbookStreams(
+            services,
+            context.customFields,
+            metadata,
+            exportedAt
+          ),
+          exportedAt
+        )
+      );
+    } else if (format === "csv") {
+      body = toResponseBody(streamCsv(services(), context.customFields));
+    } else if (format === "backstage") {
+      body = await readCatalogInfo(services(), index);
+    } else if (format === "yaml") {
+      const inventory = await readInventory(services());
+      try {
+        body = serializeInventoryYaml(inventory);
+      } catch (error) {
+        // Services the legacy format can't hold fail the export rather
+        // than being left out of it
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Export failed" },
+          { status: 422 }
+        );
+      }
+    } else {
+      body = serializeInventoryJson(
+        await readInventory(services()),
+        new URL(INVENTORY_SCHEMA_PATH, request.nextUrl.origin).href
+      );
+    }
+
+    return new Response(body, {
+      headers: {
+        "Cache-Control": "no-store",
+        "Content-Disposition": `attachment; filename="${getExportFileName(format, organization.slug, serviceId)}"`,
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+      },
+    });
+  } catch (error) {
+    consola.error("[Export] Failed to export services:", error);
+    return NextResponse.json({ error: "Export failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Trash Purge Route
+ *
+ * Permanently deletes services that have stayed in the trash longer than
+ * their organization's retention period. Meant to be called by a scheduler
+ * (e.g. a daily cron) with `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import { id } from "@instantdb/admin";
+import consola from "consola";
+import { type NextRequest, NextResponse } from "next/server";
+import { createServiceSnapshot } from "@/components/service-table/service-revisions";
+import { adminDb } from "@/lib/auth";
+import { isPastTrashRetention, resolveTrashRetentionDays } from "@/lib/trash";
+
+/**
+ * Author recorded on revisions written by the scheduled purge
+ */
+const SYSTEM_USER_ID = "system";
+
+/**
+ * Maximum number of services purged per transaction
+ */
+const PURGE_BATCH_SIZE = 50;
+
+async function handlePurge(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { services } = await adminDb.query({
+      services: {
+        $: {
+          where: {
+            deletedAt: { $isNull: false },
+          },
+        },
+        interfaces: {},
+        dependencies: {
+          target: {},
+        },
+        organization: {},
+      },
+    });
+
+    const now = new Date();
+    const expired = services.filter(
+      (service) =>
+        service.deletedAt &&
+        isPastTrashRetention(
+          service.deletedAt,
+          resolveTrashRetentionDays(service.organization?.trashRetentionDays),
+          now
+        )
+    );
+
+    for (let i = 0; i < expired.length; i += PURGE_BATCH_SIZE) {
+      const batch = expired.slice(i, i + PURGE_BATCH_SIZE);
+      await adminDb.transact(
+        batch.flatMap((service) => {
+          const snapshot = createServiceSnapshot(service);
+          return [
+            adminDb.tx.serviceRevisions[id()]
+              .create({
+                action: "purge",
+                createdAt: now,
+                createdById: SYSTEM_USER_ID,
+                organizationId: service.organizationId,
+                serviceId: service.id,
+                serviceName: snapshot.name,
+                snapshot,
+              })
+              .link({ organization: service.organizationId }),
+            // Cascades to interfaces and dependencies
+            adminDb.tx.services[service.id].delete(),
+          ];
+        })
+      );
+    }
+
+    if (expired.length > 0) {
+      consola.info("[Trash] Purged expired services:", {
+        count: expired.length,
+      });
+    }
+
+    return NextResponse.json({ purged: expired.length });
+  } catch (error) {
+    consola.error("[Trash] Failed to purge expired services:", error);
+    return NextResponse.json({ error: "Purge failed" }, { status: 500 });
+  }
+}
+
+export const GET = handlePurge;
+export const POST = handlePurge;
@@ -36,6 +36,8 @@ export interface CommandPaletteProps {
   readonly services: readonly RawPaletteService[];
   readonly canCreate: boolean;
   readonly onCreateService: () => void;
+  /** Opens the services import wizard; the action is hidden without it */
+  readonly onImportServices?: () => void;
   readonly onSetQuery: (query: string) => void;
   readonly onSetOwner: (owner: readonly string[]) => void;
   readonly groupedServices: readonly GroupedService[];
@@ -1,12 +1,25 @@
 import {
+  CalendarClock,
+  CopyCheck,
   Download,
+  FileSpreadsheet,
   Globe,
+  Hourglass,
+  Layers,
+  LayoutTemplate,
+  ListPlus,
+  Network,
   Package,
   Plus,
+  Server,
   Settings,
+  Tag,
+  Trash2,
+  Upload,
   User,
   UserPlus,
   Users,
+  UsersRound,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useMemo } from "react";
@@ -23,6 +36,7 @@ export function useCommandItems(
       services,
       canCreate,
       onCreateService,
+      onImportServices,
       onSetQuery,
       onSetOwner,
       groupedServices,
@@ -43,6 +57,150 @@ export function useCommandItems(
       },
     });
 
+    items.push({
+      id: "nav-dependencies",
+      category: "navigate",
+      label: "Go to Dependency Graph",
+      icon: Network,
+      url: `/organization/${slug}/dependencies`,
+      action: () => {
+        router.push(`/organization/${slug}/dependencies`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-sunsets",
+      category: "navigate",
+      label: "Go to Upcoming Sunsets",
+      icon: CalendarClock,
+      url: `/organization/${slug}/sunsets`,
+      action: () => {
+        router.push(`/organization/${slug}/sunsets`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-end-of-life",
+      category: "navigate",
+      label: "Go to End of Life",
+      icon: Hourglass,
+      url: `/organization/${slug}/end-of-life`,
+      action: () => {
+        router.push(`/organization/${slug}/end-of-life`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-duplicates",
+      category: "navigate",
+      label: "Go to Possible Duplicates",
+      icon: CopyCheck,
+      url: `/organization/${slug}/duplicates`,
+      action: () => {
+        router.push(`/organization/${slug}/duplicates`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-domain-conflicts",
+      category: "navigate",
+      label: "Go to Domain Conflicts",
+      icon: Globe,
+      url: `/organization/${slug}/domain-conflicts`,
+      action: () => {
+        router.push(`/organization/${slug}/domain-conflicts`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-teams",
+      category: "navigate",
+      label: "Go to Teams",
+      icon: UsersRound,
+      url: `/organization/${slug}/teams`,
+      action: () => {
+        router.push(`/organization/${slug}/teams`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-environments",
+      category: "navigate",
+      label: "Go to Environments",
+      icon: Layers,
+      url: `/organization/${slug}/environments`,
+      action: () => {
+        router.push(`/organization/${slug}/environments`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-runtimes",
+      category: "navigate",
+      label: "Go to Runtimes",
+      icon: Server,
+      url: `/organization/${slug}/runtimes`,
+      action: () => {
+        router.push(`/organization/${slug}/runtimes`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-custom-fields",
+      category: "navigate",
+      label: "Go to Custom Fields",
+      icon: ListPlus,
+      url: `/organization/${slug}/custom-fields`,
+      action: () => {
+        router.push(`/organization/${slug}/custom-fields`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-templates",
+      category: "navigate",
+      label: "Go to Templates",
+      icon: LayoutTemplate,
+      url: `/organization/${slug}/templates`,
+      action: () => {
+        router.push(`/organization/${slug}/templates`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-tags",
+      category: "navigate",
+      label: "Go to Tags",
+      icon: Tag,
+      url: `/organization/${slug}/tags`,
+      action: () => {
+        router.push(`/organization/${slug}/tags`);
+        onClose();
+      },
+    });
+
+    items.push({
+      id: "nav-trash",
+      category: "navigate",
+      label: "Go to Trash",
+      icon: Trash2,
+      url: `/organization/${slug}/trash`,
+      action: () => {
+        router.push(`/organization/${slug}/trash`);
+        onClose();
+      },
+    });
+
     items.push({
       id: "nav-members",
       category: "navigate",
@@ -127,7 +285,7 @@ export function useCommandItems(
           id: `owner-${service.owner}`,
           category: "navigate",
           label: service.owner,
-          description: "Owner",
+          description: "Team",
           icon: User,
           hideInEmptyState: true,
           action: () => {
@@ -153,6 +311,20 @@ export function useCommandItems(
         onClose();
       },
     });
+    items.push({
+      id: "export-xlsx",
+      category: "export",
+      label: "Export to Excel",
+      icon: FileSpreadsheet,
+      action: () => {
+        import("@/components/service-table/export").then(
+          ({ exportServicesToXlsx }) => {
+            exportServicesToXlsx(groupedServices);
+          }
+        );
+        onClose();
+      },
+    });
 
     // --- Create actions (role-gated) ---
     if (canCreate) {
@@ -168,6 +340,20 @@ export function useCommandItems(
         },
       });
 
+      if (onImportServices) {
+        items.push({
+          id: "import-services",
+          category: "actions",
+          label: "Import Services",
+          description: "From a CSV or XLSX file",
+          icon: Upload,
+          action: () => {
+            onImportServices();
+            onClose();
+          },
+        });
+      }
+
       items.push({
         id: "invite-member",
         category: "actions",
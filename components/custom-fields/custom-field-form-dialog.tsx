@@ -0,0 +1,344 @@
+/**
+ * Custom Field Form Dialog
+ *
+ * Defines or edits a custom field of an organization: label, key, type,
+ * required flag, choices, default and position. The key and type describe
+ * the values services already store, so they are only set when the field is
+ * created.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CustomFieldInput } from "@/components/service-table/custom-field-input";
+import {
+  CUSTOM_FIELD_TYPES,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+  type CustomFieldValue,
+  isChoiceCustomField,
+  parseCustomFieldOptions,
+  slugifyCustomFieldKey,
+} from "@/components/service-table/custom-fields";
+import { validateCustomField } from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface CustomFieldFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Field being edited, or the prefilled values of a new one */
+  readonly initialValue: CustomFieldDefinition;
+  readonly isEditing: boolean;
+  /** Fields the key must not collide with */
+  readonly otherFields: readonly CustomFieldDefinition[];
+  readonly onSubmit: (definition: CustomFieldDefinition) => Promise<void>;
+}
+
+/**
+ * Form values; options and position are kept as typed
+ */
+interface FormValues {
+  readonly key: string;
+  readonly label: string;
+  readonly type: CustomFieldType;
+  readonly required: boolean;
+  readonly options: string;
+  readonly defaultValue: CustomFieldValue | null;
+  readonly order: string;
+  /** Whether the key was typed rather than derived from the label */
+  readonly keyEdited: boolean;
+}
+
+/**
+ * Form values of a field definition
+ */
+function toFormValues(definition: CustomFieldDefinition): FormValues {
+  return {
+    key: definition.key,
+    label: definition.label,
+    type: definition.type,
+    required: definition.required,
+    options: definition.options.join(", "),
+    defaultValue: definition.defaultValue,
+    order: String(definition.order),
+    keyEdited: definition.key !== "",
+  };
+}
+
+/**
+ * Field definition of the form values, trimmed
+ */
+function toDefinition(values: FormValues): CustomFieldDefinition {
+  const order = values.order.trim();
+  return {
+    key: values.key.trim(),
+    label: values.label.trim(),
+    type: values.type,
+    required: values.required,
+    options: isChoiceCustomField(values.type)
+      ? parseCustomFieldOptions(values.options)
+      : [],
+    defaultValue: values.defaultValue,
+    order: order === "" ? Number.NaN : Number(order),
+  };
+}
+
+/**
+ * Dialog with the custom field settings
+ */
+export function CustomFieldFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  isEditing,
+  otherFields,
+  onSubmit,
+}: CustomFieldFormDialogProps) {
+  const [values, setValues] = useState<FormValues>(() =>
+    toFormValues(initialValue)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(initialValue));
+    }
+  }, [open, initialValue]);
+
+  const definition = useMemo(() => toDefinition(values), [values]);
+  const errors = useMemo(
+    () => validateCustomField(definition, otherFields),
+    [definition, otherFields]
+  );
+  const isFormValid = Object.keys(errors).length === 0;
+  const isChoice = isChoiceCustomField(values.type);
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Create";
+  }, [isSubmitting, isEditing]);
+
+  const handleLabelChange = (label: string) => {
+    setValues((prev) => ({
+      ...prev,
+      label,
+      // New fields derive their key from the label until it is typed
+      key:
+        isEditing || prev.keyEdited ? prev.key : slugifyCustomFieldKey(label),
+    }));
+  };
+
+  const handleTypeChange = (type: CustomFieldType) => {
+    // A default of the previous type rarely fits the new one
+    setValues((prev) => ({ ...prev, type, defaultValue: null }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(definition);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save custom field:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit custom field" : "New custom field"}
+          </DialogTitle>
+          <DialogDescription>
+            Services store their value under the key. Required fields must be
+            filled in before a service can be saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-label">
+              Label <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.label && errors.label ? "true" : "false"}
+              id="custom-field-label"
+              onChange={(e) => handleLabelChange(e.target.value)}
+              placeholder="Cost center"
+              value={values.label}
+            />
+            {values.label && errors.label && (
+              <p className="text-destructive text-xs">{errors.label}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-key">
+              Key <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.key && errors.key ? "true" : "false"}
+              className="font-mono"
+              disabled={isEditing}
+              id="custom-field-key"
+              onChange={(e) =>
+                setValues((prev) => ({
+                  ...prev,
+                  key: e.target.value,
+                  keyEdited: e.target.value !== "",
+                }))
+              }
+              placeholder="cost_center"
+              value={values.key}
+            />
+            {values.key && errors.key && (
+              <p className="text-destructive text-xs">{errors.key}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-type">Type</Label>
+            <Select
+              disabled={isEditing}
+              onValueChange={(value) =>
+                handleTypeChange(value as CustomFieldType)
+              }
+              value={values.type}
+            >
+              <SelectTrigger className="w-full" id="custom-field-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-field-order">Position</Label>
+            <Input
+              aria-invalid={errors.order ? "true" : "false"}
+              id="custom-field-order"
+              min={0}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, order: e.target.value }))
+              }
+              type="number"
+              value={values.order}
+            />
+            {errors.order && (
+              <p className="text-destructive text-xs">{errors.order}</p>
+            )}
+          </div>
+
+          {isChoice && (
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="custom-field-options">
+                Options <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                aria-invalid={
+                  values.options && errors.options ? "true" : "false"
+                }
+                id="custom-field-options"
+                onChange={(e) =>
+                  setValues((prev) => ({ ...prev, options: e.target.value }))
+                }
+                placeholder="public, internal, confidential"
+                value={values.options}
+              />
+              {values.options && errors.options ? (
+                <p className="text-destructive text-xs">{errors.options}</p>
+              ) : (
+                <p className="text-muted-foreground text-xs">
+                  Separate options with commas.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="custom-field-default">Default</Label>
+            <CustomFieldInput
+              field={definition}
+              id="custom-field-default"
+              invalid={Boolean(errors.defaultValue)}
+              onChange={(defaultValue) =>
+                setValues((prev) => ({ ...prev, defaultValue }))
+              }
+              value={values.defaultValue}
+            />
+            {errors.defaultValue ? (
+              <p className="text-destructive text-xs">{errors.defaultValue}</p>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Optional. Prefilled on new services.
+              </p>
+            )}
+          </div>
+
+          <div className="col-span-2 flex items-center gap-2">
+            <Checkbox
+              checked={values.required}
+              id="custom-field-required"
+              onCheckedChange={(checked) =>
+                setValues((prev) => ({ ...prev, required: checked === true }))
+              }
+            />
+            <Label className="font-normal" htmlFor="custom-field-required">
+              Required
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
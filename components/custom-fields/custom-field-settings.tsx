@@ -0,0 +1,287 @@
+/**
+ * Custom Field Settings
+ *
+ * Lists the custom fields of an organization with their type, default and
+ * the number of services with a value. Admins and owners create, edit and
+ * delete fields; deleting one never touches the values services store.
+ */
+
+"use client";
+
+import { ListPlus, Pencil, Plus, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import {
+  type CustomFieldDefinition,
+  formatCustomFieldValue,
+  getCustomFieldTypeLabel,
+  type StoredCustomField,
+} from "@/components/service-table/custom-fields";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CustomFieldFormDialog } from "./custom-field-form-dialog";
+
+interface CustomFieldSettingsProps {
+  readonly fields: readonly StoredCustomField[];
+  /** Services with a value per field key */
+  readonly valueCounts: ReadonlyMap<string, number>;
+  readonly canAdminister: boolean;
+  readonly onCreate: (definition: CustomFieldDefinition) => Promise<void>;
+  readonly onUpdate: (
+    field: StoredCustomField,
+    definition: CustomFieldDefinition
+  ) => Promise<void>;
+  readonly onDelete: (field: StoredCustomField) => Promise<void>;
+}
+
+/**
+ * Field being edited in the form dialog
+ */
+interface FormState {
+  readonly initialValue: CustomFieldDefinition;
+  /** Stored field being edited; null to create one */
+  readonly field: StoredCustomField | null;
+}
+
+/**
+ * Pluralizes "service"
+ */
+function formatServiceCount(count: number): string {
+  return `${count} service${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Custom fields table
+ */
+export function CustomFieldSettings({
+  fields,
+  valueCounts,
+  canAdminister,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: CustomFieldSettingsProps) {
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<StoredCustomField | null>(
+    null
+  );
+
+  const otherFields = useMemo(
+    () => fields.filter((field) => field.id !== formState?.field?.id),
+    [fields, formState]
+  );
+
+  const openCreate = useCallback(() => {
+    setFormState({
+      initialValue: {
+        key: "",
+        label: "",
+        type: "text",
+        required: false,
+        options: [],
+        defaultValue: null,
+        // New fields go last
+        order: fields.reduce((max, field) => Math.max(max, field.order + 1), 0),
+      },
+      field: null,
+    });
+  }, [fields]);
+
+  const handleSubmit = useCallback(
+    (definition: CustomFieldDefinition) =>
+      formState?.field
+        ? onUpdate(formState.field, definition)
+        : onCreate(definition),
+    [formState, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const field = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(field);
+    } catch (error) {
+      console.error("Failed to delete custom field:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          Custom fields appear in the service form, as table columns, as filters
+          and in exports.
+        </p>
+        {canAdminister && (
+          <Button onClick={openCreate} size="sm">
+            <Plus className="mr-1.5 size-3.5" />
+            New field
+          </Button>
+        )}
+      </div>
+
+      {fields.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <ListPlus className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>No custom fields</EmptyTitle>
+            <EmptyDescription>
+              Track facts like cost center, data classification or SLA tier on
+              every service.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Default</TableHead>
+                <TableHead>Usage</TableHead>
+                {canAdminister && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field) => (
+                <TableRow key={field.id}>
+                  <TableCell className="font-medium text-sm">
+                    <div className="flex items-center gap-2">
+                      {field.label}
+                      {field.required && (
+                        <Badge variant="outline">Required</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {field.key}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {getCustomFieldTypeLabel(field.type)}
+                    {field.options.length > 0 && (
+                      <span className="block truncate">
+                        {field.options.join(", ")}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatCustomFieldValue(field.defaultValue) || "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatServiceCount(valueCounts.get(field.key) ?? 0)}
+                  </TableCell>
+                  {canAdminister && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          onClick={() =>
+                            setFormState({ initialValue: field, field })
+                          }
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Pencil className="mr-1.5 size-3.5" />
+                          Edit
+                        </Button>
+                        <Button
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPendingDelete(field)}
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Trash2 className="mr-1.5 size-3.5" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {formState && (
+        <CustomFieldFormDialog
+          initialValue={formState.initialValue}
+          isEditing={formState.field !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormState(null);
+            }
+          }}
+          onSubmit={handleSubmit}
+          open
+          otherFields={otherFields}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete custom field</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.label} will be removed from the form, table,
+              filters and exports.{" "}
+              {formatServiceCount(
+                pendingDelete ? (valueCounts.get(pendingDelete.key) ?? 0) : 0
+              )}{" "}
+              keep their value, which comes back if a field with the same key is
+              created again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,7 +1,24 @@
 "use client";
 
 import { SignedIn, SignedOut, UserButton } from "@daveyplate/better-auth-ui";
-import { Building2, Mail, Package, Users } from "lucide-react";
+import {
+  Building2,
+  CalendarClock,
+  CopyCheck,
+  Globe,
+  Hourglass,
+  Layers,
+  LayoutTemplate,
+  ListPlus,
+  Mail,
+  Network,
+  Package,
+  Server,
+  Tag,
+  Trash2,
+  Users,
+  UsersRound,
+} from "lucide-react";
 import Link from "next/link";
 import { useParams, usePathname } from "next/navigation";
 
@@ -31,6 +48,18 @@ type NavigationItem = {
 
 const NAVIGATION_ITEMS: NavigationItem[] = [
   { title: "Services", path: "services", icon: Package },
+  { title: "Dependencies", path: "dependencies", icon: Network },
+  { title: "Sunsets", path: "sunsets", icon: CalendarClock },
+  { title: "End of Life", path: "end-of-life", icon: Hourglass },
+  { title: "Duplicates", path: "duplicates", icon: CopyCheck },
+  { title: "Domain Conflicts", path: "domain-conflicts", icon: Globe },
+  { title: "Teams", path: "teams", icon: UsersRound },
+  { title: "Environments", path: "environments", icon: Layers },
+  { title: "Runtimes", path: "runtimes", icon: Server },
+  { title: "Custom Fields", path: "custom-fields", icon: ListPlus },
+  { title: "Templates", path: "templates", icon: LayoutTemplate },
+  { title: "Tags", path: "tags", icon: Tag },
+  { title: "Trash", path: "trash", icon: Trash2 },
   { title: "Organization", path: "settings", icon: Building2 },
   { title: "Members", path: "members", icon: Users },
   { title: "Invitations", path: "invitations", icon: Mail },
@@ -31,6 +31,18 @@ type ViewHeaderProps = {
 
 const ROUTE_LABELS: Record<string, string> = {
   "/organization/[slug]/services": "Services",
+  "/organization/[slug]/dependencies": "Dependencies",
+  "/organization/[slug]/sunsets": "Sunsets",
+  "/organization/[slug]/end-of-life": "End of Life",
+  "/organization/[slug]/duplicates": "Duplicates",
+  "/organization/[slug]/domain-conflicts": "Domain Conflicts",
+  "/organization/[slug]/teams": "Teams",
+  "/organization/[slug]/environments": "Environments",
+  "/organization/[slug]/runtimes": "Runtimes",
+  "/organization/[slug]/custom-fields": "Custom Fields",
+  "/organization/[slug]/templates": "Templates",
+  "/organization/[slug]/tags": "Tags",
+  "/organization/[slug]/trash": "Trash",
   "/organization/[slug]/settings": "Organization",
   "/organization/[slug]/members": "Members",
   "/organization/[slug]/invitations": "Invitations",
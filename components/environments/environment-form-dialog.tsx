@@ -0,0 +1,267 @@
+/**
+ * Environment Form Dialog
+ *
+ * Creates or edits an organization environment: key, label, criticality
+ * order, colour and aliases. The key is what interfaces store, so it is only
+ * set when the environment is created.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  type EnvironmentDefinition,
+  parseEnvironmentAliases,
+} from "@/components/service-table/environments";
+import { validateEnvironment } from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface EnvironmentFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Environment being edited, or the prefilled values of a new one */
+  readonly initialValue: EnvironmentDefinition;
+  readonly isEditing: boolean;
+  /** Environments the key and aliases must not collide with */
+  readonly otherEnvironments: readonly EnvironmentDefinition[];
+  readonly onSubmit: (definition: EnvironmentDefinition) => Promise<void>;
+}
+
+/**
+ * Form fields, kept as typed text until submit
+ */
+interface EnvironmentFormValues {
+  readonly key: string;
+  readonly label: string;
+  readonly order: string;
+  readonly color: string;
+  readonly aliases: string;
+}
+
+/**
+ * Form values of an environment definition
+ */
+function toFormValues(
+  definition: EnvironmentDefinition
+): EnvironmentFormValues {
+  return {
+    key: definition.key,
+    label: definition.label,
+    order: String(definition.order),
+    color: definition.color,
+    aliases: definition.aliases.join(", "),
+  };
+}
+
+/**
+ * Environment definition of the form values
+ */
+function toDefinition(values: EnvironmentFormValues): EnvironmentDefinition {
+  return {
+    key: values.key.trim(),
+    label: values.label.trim(),
+    order: values.order.trim() === "" ? Number.NaN : Number(values.order),
+    color: values.color.trim(),
+    aliases: parseEnvironmentAliases(values.aliases),
+  };
+}
+
+/**
+ * Dialog with the environment fields
+ */
+export function EnvironmentFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  isEditing,
+  otherEnvironments,
+  onSubmit,
+}: EnvironmentFormDialogProps) {
+  const [values, setValues] = useState<EnvironmentFormValues>(() =>
+    toFormValues(initialValue)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(initialValue));
+    }
+  }, [open, initialValue]);
+
+  const definition = useMemo(() => toDefinition(values), [values]);
+  const errors = useMemo(
+    () => validateEnvironment(definition, otherEnvironments),
+    [definition, otherEnvironments]
+  );
+  const isFormValid = Object.keys(errors).length === 0;
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Create";
+  }, [isSubmitting, isEditing]);
+
+  const setField = (field: keyof EnvironmentFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(definition);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save environment:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit environment" : "New environment"}
+          </DialogTitle>
+          <DialogDescription>
+            Interfaces store the key. Aliases are other stored values that mean
+            the same environment; they are never rewritten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="environment-key">
+              Key <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.key && errors.key ? "true" : "false"}
+              className="font-mono"
+              disabled={isEditing}
+              id="environment-key"
+              onChange={(e) => setField("key", e.target.value)}
+              placeholder="prod-eu"
+              value={values.key}
+            />
+            {values.key && errors.key && (
+              <p className="text-destructive text-xs">{errors.key}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="environment-label">
+              Label <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.label && errors.label ? "true" : "false"}
+              id="environment-label"
+              onChange={(e) => setField("label", e.target.value)}
+              placeholder="PROD EU"
+              value={values.label}
+            />
+            {values.label && errors.label && (
+              <p className="text-destructive text-xs">{errors.label}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="environment-order">
+              Criticality <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={errors.order ? "true" : "false"}
+              id="environment-order"
+              min={0}
+              onChange={(e) => setField("order", e.target.value)}
+              step={1}
+              type="number"
+              value={values.order}
+            />
+            {errors.order ? (
+              <p className="text-destructive text-xs">{errors.order}</p>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                0 is the most critical. Environments may share a rank.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="environment-color">Colour</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Pick colour"
+                className="h-9 w-12 shrink-0 p-1"
+                onChange={(e) => setField("color", e.target.value)}
+                type="color"
+                value={errors.color ? "#000000" : values.color}
+              />
+              <Input
+                aria-invalid={errors.color ? "true" : "false"}
+                className="font-mono"
+                id="environment-color"
+                onChange={(e) => setField("color", e.target.value)}
+                value={values.color}
+              />
+            </div>
+            {errors.color && (
+              <p className="text-destructive text-xs">{errors.color}</p>
+            )}
+          </div>
+
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="environment-aliases">Aliases</Label>
+            <Input
+              aria-invalid={errors.aliases ? "true" : "false"}
+              className="font-mono"
+              id="environment-aliases"
+              onChange={(e) => setField("aliases", e.target.value)}
+              placeholder="prd, live"
+              value={values.aliases}
+            />
+            {errors.aliases ? (
+              <p className="text-destructive text-xs">{errors.aliases}</p>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Optional. Comma-separated, case-insensitive.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,394 @@
+/**
+ * Environment Settings
+ *
+ * Lists the environments of an organization with their criticality, colour,
+ * aliases and the number of interfaces using them, and the stored values
+ * that match no environment. Admins and owners add, edit and delete
+ * environments; deleting one never touches the interfaces using it.
+ */
+
+"use client";
+
+import { Layers, Pencil, Plus, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import {
+  type EnvironmentCatalog,
+  type EnvironmentDefinition,
+  findEnvironment,
+  type StoredEnvironment,
+  slugifyEnvironmentKey,
+} from "@/components/service-table/environments";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EnvironmentFormDialog } from "./environment-form-dialog";
+
+interface EnvironmentSettingsProps {
+  readonly catalog: EnvironmentCatalog;
+  /** Stored environments; empty while the defaults are in use */
+  readonly records: readonly StoredEnvironment[];
+  /** Interfaces per stored environment value */
+  readonly valueCounts: ReadonlyMap<string, number>;
+  readonly canAdminister: boolean;
+  readonly onCreate: (definition: EnvironmentDefinition) => Promise<void>;
+  readonly onUpdate: (
+    environment: StoredEnvironment,
+    definition: EnvironmentDefinition
+  ) => Promise<void>;
+  readonly onDelete: (environment: StoredEnvironment) => Promise<void>;
+}
+
+/**
+ * Environment being edited in the form dialog
+ */
+interface FormState {
+  readonly initialValue: EnvironmentDefinition;
+  /** Stored environment being edited; null to create one */
+  readonly environment: StoredEnvironment | null;
+}
+
+/**
+ * Pluralizes "interface"
+ */
+function formatInterfaceCount(count: number): string {
+  return `${count} interface${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Colour swatch of an environment
+ */
+function ColorSwatch({ color }: { readonly color: string }) {
+  return (
+    <span
+      className="inline-flex size-3 shrink-0 rounded-full border border-border/40"
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
+/**
+ * Environments table with the undefined stored values
+ */
+export function EnvironmentSettings({
+  catalog,
+  records,
+  valueCounts,
+  canAdminister,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: EnvironmentSettingsProps) {
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<StoredEnvironment | null>(
+    null
+  );
+
+  const recordsByKey = useMemo(
+    () => new Map(records.map((record) => [record.key, record])),
+    [records]
+  );
+
+  // Interfaces per environment, including values stored as an alias
+  const usageByKey = useMemo(() => {
+    const usage = new Map<string, number>();
+    for (const [value, count] of valueCounts) {
+      const environment = findEnvironment(catalog, value);
+      if (environment) {
+        usage.set(environment.key, (usage.get(environment.key) ?? 0) + count);
+      }
+    }
+    return usage;
+  }, [catalog, valueCounts]);
+
+  const undefinedValues = useMemo(
+    () =>
+      Array.from(valueCounts)
+        .filter(([value]) => value && !findEnvironment(catalog, value))
+        .sort(
+          ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+        ),
+    [catalog, valueCounts]
+  );
+
+  const otherEnvironments = useMemo(
+    () =>
+      catalog.environments.filter(
+        (environment) => environment.key !== formState?.environment?.key
+      ),
+    [catalog, formState]
+  );
+
+  const openCreate = useCallback(
+    (key = "") => {
+      // New environments are the least critical until ranked otherwise
+      const maxOrder = Math.max(
+        -1,
+        ...catalog.environments.map((environment) => environment.order)
+      );
+      setFormState({
+        initialValue: {
+          key,
+          label: key.toUpperCase(),
+          order: maxOrder + 1,
+          color: "#64748b",
+          aliases: [],
+        },
+        environment: null,
+      });
+    },
+    [catalog]
+  );
+
+  const handleSubmit = useCallback(
+    (definition: EnvironmentDefinition) =>
+      formState?.environment
+        ? onUpdate(formState.environment, definition)
+        : onCreate(definition),
+    [formState, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const environment = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(environment);
+    } catch (error) {
+      console.error("Failed to delete environment:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          {catalog.isDefault
+            ? "Using the default environments. Adding an environment saves them so they can be edited."
+            : "Environments are ordered by criticality. Filters, sorting, badges and exports follow this list."}
+        </p>
+        {canAdminister && (
+          <Button onClick={() => openCreate()} size="sm">
+            <Plus className="mr-1.5 size-3.5" />
+            New environment
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border/40">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Environment</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Criticality</TableHead>
+              <TableHead>Aliases</TableHead>
+              <TableHead>Usage</TableHead>
+              {canAdminister && (
+                <TableHead className="text-right">Actions</TableHead>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {catalog.environments.map((environment) => {
+              const record = recordsByKey.get(environment.key);
+              return (
+                <TableRow key={environment.key}>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      <ColorSwatch color={environment.color} />
+                      <span className="font-medium font-mono text-xs uppercase">
+                        {environment.label}
+                      </span>
+                    </span>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {environment.key}
+                  </TableCell>
+                  <TableCell className="text-xs">{environment.order}</TableCell>
+                  <TableCell>
+                    <div className="flex max-w-[280px] flex-wrap gap-1">
+                      {environment.aliases.length > 0
+                        ? environment.aliases.map((alias) => (
+                            <Badge
+                              className="font-mono"
+                              key={alias}
+                              variant="secondary"
+                            >
+                              {alias}
+                            </Badge>
+                          ))
+                        : "—"}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatInterfaceCount(usageByKey.get(environment.key) ?? 0)}
+                  </TableCell>
+                  {canAdminister && (
+                    <TableCell className="text-right">
+                      {record && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            onClick={() =>
+                              setFormState({
+                                initialValue: record,
+                                environment: record,
+                              })
+                            }
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Pencil className="mr-1.5 size-3.5" />
+                            Edit
+                          </Button>
+                          <Button
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setPendingDelete(record)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Trash2 className="mr-1.5 size-3.5" />
+                            Delete
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="font-medium text-sm">Undefined values</h2>
+        {undefinedValues.length === 0 ? (
+          <Empty className="border-border/40 border-dashed">
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Layers className="size-6" />
+              </EmptyMedia>
+              <EmptyTitle>
+                Every interface uses a defined environment
+              </EmptyTitle>
+              <EmptyDescription>
+                Values matching no environment or alias would be listed here.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="rounded-lg border border-border/40">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stored value</TableHead>
+                  <TableHead>Usage</TableHead>
+                  {canAdminister && (
+                    <TableHead className="text-right">Actions</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {undefinedValues.map(([value, count]) => (
+                  <TableRow key={value}>
+                    <TableCell className="font-mono text-xs">{value}</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatInterfaceCount(count)}
+                    </TableCell>
+                    {canAdminister && (
+                      <TableCell className="text-right">
+                        <Button
+                          onClick={() =>
+                            openCreate(slugifyEnvironmentKey(value))
+                          }
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Plus className="mr-1.5 size-3.5" />
+                          Define
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      {formState && (
+        <EnvironmentFormDialog
+          initialValue={formState.initialValue}
+          isEditing={formState.environment !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormState(null);
+            }
+          }}
+          onSubmit={handleSubmit}
+          open
+          otherEnvironments={otherEnvironments}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete environment</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.label} will be deleted.{" "}
+              {formatInterfaceCount(
+                pendingDelete ? (usageByKey.get(pendingDelete.key) ?? 0) : 0
+              )}{" "}
+              keep their stored value and show as undefined until another
+              environment or alias matches it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
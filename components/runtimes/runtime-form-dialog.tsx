@@ -0,0 +1,206 @@
+/**
+ * Runtime Form Dialog
+ *
+ * Registers or edits an organization runtime type: key, label, table badge
+ * and the runtime ID format hint. The key is what interfaces store, so it is
+ * only set when the runtime is registered.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { RuntimeDefinition } from "@/components/service-table/runtimes";
+import { validateRuntime } from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface RuntimeFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Runtime being edited, or the prefilled values of a new one */
+  readonly initialValue: RuntimeDefinition;
+  readonly isEditing: boolean;
+  /** Runtimes the key must not collide with */
+  readonly otherRuntimes: readonly RuntimeDefinition[];
+  readonly onSubmit: (definition: RuntimeDefinition) => Promise<void>;
+}
+
+/**
+ * Runtime definition of the form values, trimmed
+ */
+function toDefinition(values: RuntimeDefinition): RuntimeDefinition {
+  return {
+    key: values.key.trim(),
+    label: values.label.trim(),
+    badge: values.badge.trim(),
+    runtimeIdHint: values.runtimeIdHint.trim(),
+  };
+}
+
+/**
+ * Dialog with the runtime fields
+ */
+export function RuntimeFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  isEditing,
+  otherRuntimes,
+  onSubmit,
+}: RuntimeFormDialogProps) {
+  const [values, setValues] = useState<RuntimeDefinition>(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(initialValue);
+    }
+  }, [open, initialValue]);
+
+  const definition = useMemo(() => toDefinition(values), [values]);
+  const errors = useMemo(
+    () => validateRuntime(definition, otherRuntimes),
+    [definition, otherRuntimes]
+  );
+  const isFormValid = Object.keys(errors).length === 0;
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Register";
+  }, [isSubmitting, isEditing]);
+
+  const setField = (field: keyof RuntimeDefinition, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(definition);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save runtime:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit runtime" : "New runtime"}
+          </DialogTitle>
+          <DialogDescription>
+            Interfaces store the key as their runtime type. The badge is shown
+            in the services table.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="runtime-key">
+              Key <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.key && errors.key ? "true" : "false"}
+              className="font-mono"
+              disabled={isEditing}
+              id="runtime-key"
+              onChange={(e) => setField("key", e.target.value)}
+              placeholder="cloud-run"
+              value={values.key}
+            />
+            {values.key && errors.key && (
+              <p className="text-destructive text-xs">{errors.key}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="runtime-label">
+              Label <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.label && errors.label ? "true" : "false"}
+              id="runtime-label"
+              onChange={(e) => setField("label", e.target.value)}
+              placeholder="Cloud Run"
+              value={values.label}
+            />
+            {values.label && errors.label && (
+              <p className="text-destructive text-xs">{errors.label}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="runtime-badge">
+              Badge <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.badge && errors.badge ? "true" : "false"}
+              className="font-mono"
+              id="runtime-badge"
+              onChange={(e) => setField("badge", e.target.value)}
+              placeholder="CRUN"
+              value={values.badge}
+            />
+            {values.badge && errors.badge ? (
+              <p className="text-destructive text-xs">{errors.badge}</p>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Up to 6 characters.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="runtime-id-hint">Runtime ID format</Label>
+            <Input
+              className="font-mono"
+              id="runtime-id-hint"
+              onChange={(e) => setField("runtimeIdHint", e.target.value)}
+              placeholder="project/region/service"
+              value={values.runtimeIdHint}
+            />
+            <p className="text-muted-foreground text-xs">
+              Optional. Shown as the runtime ID placeholder.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,353 @@
+/**
+ * Runtime Settings
+ *
+ * Lists the runtime types of an organization with their badge, runtime ID
+ * format and the number of interfaces using them, and the stored runtime
+ * types missing from the catalog. Admins and owners register, edit and
+ * delete runtimes; deleting one never touches the interfaces using it.
+ */
+
+"use client";
+
+import { Pencil, Plus, Server, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import {
+  findRuntime,
+  type RuntimeCatalog,
+  type RuntimeDefinition,
+  type StoredRuntime,
+  slugifyRuntimeKey,
+} from "@/components/service-table/runtimes";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RuntimeFormDialog } from "./runtime-form-dialog";
+
+interface RuntimeSettingsProps {
+  readonly catalog: RuntimeCatalog;
+  /** Stored runtimes; empty while the defaults are in use */
+  readonly records: readonly StoredRuntime[];
+  /** Interfaces per stored runtime type */
+  readonly valueCounts: ReadonlyMap<string, number>;
+  readonly canAdminister: boolean;
+  readonly onCreate: (definition: RuntimeDefinition) => Promise<void>;
+  readonly onUpdate: (
+    runtime: StoredRuntime,
+    definition: RuntimeDefinition
+  ) => Promise<void>;
+  readonly onDelete: (runtime: StoredRuntime) => Promise<void>;
+}
+
+/**
+ * Runtime being edited in the form dialog
+ */
+interface FormState {
+  readonly initialValue: RuntimeDefinition;
+  /** Stored runtime being edited; null to register one */
+  readonly runtime: StoredRuntime | null;
+}
+
+/**
+ * Pluralizes "interface"
+ */
+function formatInterfaceCount(count: number): string {
+  return `${count} interface${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Runtimes table with the stored runtime types missing from the catalog
+ */
+export function RuntimeSettings({
+  catalog,
+  records,
+  valueCounts,
+  canAdminister,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: RuntimeSettingsProps) {
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<StoredRuntime | null>(
+    null
+  );
+
+  const recordsByKey = useMemo(
+    () => new Map(records.map((record) => [record.key, record])),
+    [records]
+  );
+
+  // Interfaces per runtime, whatever the case of the stored value
+  const usageByKey = useMemo(() => {
+    const usage = new Map<string, number>();
+    for (const [value, count] of valueCounts) {
+      const runtime = findRuntime(catalog, value);
+      if (runtime) {
+        usage.set(runtime.key, (usage.get(runtime.key) ?? 0) + count);
+      }
+    }
+    return usage;
+  }, [catalog, valueCounts]);
+
+  const undefinedValues = useMemo(
+    () =>
+      Array.from(valueCounts)
+        .filter(([value]) => !findRuntime(catalog, value))
+        .sort(
+          ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+        ),
+    [catalog, valueCounts]
+  );
+
+  const otherRuntimes = useMemo(
+    () =>
+      catalog.runtimes.filter(
+        (runtime) => runtime.key !== formState?.runtime?.key
+      ),
+    [catalog, formState]
+  );
+
+  const openCreate = useCallback((key = "") => {
+    setFormState({
+      initialValue: {
+        key,
+        label: key,
+        badge: key.slice(0, 4).toUpperCase(),
+        runtimeIdHint: "",
+      },
+      runtime: null,
+    });
+  }, []);
+
+  const handleSubmit = useCallback(
+    (definition: RuntimeDefinition) =>
+      formState?.runtime
+        ? onUpdate(formState.runtime, definition)
+        : onCreate(definition),
+    [formState, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const runtime = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(runtime);
+    } catch (error) {
+      console.error("Failed to delete runtime:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          {catalog.isDefault
+            ? "Using the default runtimes. Registering a runtime saves them so they can be edited."
+            : "The service form, table badges, filters and YAML validation follow this list."}
+        </p>
+        {canAdminister && (
+          <Button onClick={() => openCreate()} size="sm">
+            <Plus className="mr-1.5 size-3.5" />
+            New runtime
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border/40">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Runtime</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Badge</TableHead>
+              <TableHead>Runtime ID format</TableHead>
+              <TableHead>Usage</TableHead>
+              {canAdminister && (
+                <TableHead className="text-right">Actions</TableHead>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {catalog.runtimes.map((runtime) => {
+              const record = recordsByKey.get(runtime.key);
+              return (
+                <TableRow key={runtime.key}>
+                  <TableCell className="font-medium text-sm">
+                    {runtime.label}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {runtime.key}
+                  </TableCell>
+                  <TableCell className="font-mono text-muted-foreground text-xs">
+                    {runtime.badge}
+                  </TableCell>
+                  <TableCell className="font-mono text-muted-foreground text-xs">
+                    {runtime.runtimeIdHint || "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatInterfaceCount(usageByKey.get(runtime.key) ?? 0)}
+                  </TableCell>
+                  {canAdminister && (
+                    <TableCell className="text-right">
+                      {record && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            onClick={() =>
+                              setFormState({
+                                initialValue: record,
+                                runtime: record,
+                              })
+                            }
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Pencil className="mr-1.5 size-3.5" />
+                            Edit
+                          </Button>
+                          <Button
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setPendingDelete(record)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Trash2 className="mr-1.5 size-3.5" />
+                            Delete
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-3">
+        <h2 className="font-medium text-sm">Unregistered runtime types</h2>
+        {undefinedValues.length === 0 ? (
+          <Empty className="border-border/40 border-dashed">
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Server className="size-6" />
+              </EmptyMedia>
+              <EmptyTitle>Every interface uses a registered runtime</EmptyTitle>
+              <EmptyDescription>
+                Runtime types missing from the catalog would be listed here.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="rounded-lg border border-border/40">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stored value</TableHead>
+                  <TableHead>Usage</TableHead>
+                  {canAdminister && (
+                    <TableHead className="text-right">Actions</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {undefinedValues.map(([value, count]) => (
+                  <TableRow key={value}>
+                    <TableCell className="font-mono text-xs">{value}</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatInterfaceCount(count)}
+                    </TableCell>
+                    {canAdminister && (
+                      <TableCell className="text-right">
+                        <Button
+                          onClick={() => openCreate(slugifyRuntimeKey(value))}
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Plus className="mr-1.5 size-3.5" />
+                          Register
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      {formState && (
+        <RuntimeFormDialog
+          initialValue={formState.initialValue}
+          isEditing={formState.runtime !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormState(null);
+            }
+          }}
+          onSubmit={handleSubmit}
+          open
+          otherRuntimes={otherRuntimes}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete runtime</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.label} will be deleted.{" "}
+              {formatInterfaceCount(
+                pendingDelete ? (usageByKey.get(pendingDelete.key) ?? 0) : 0
+              )}{" "}
+              keep their runtime type and show as unregistered until it is
+              registered again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
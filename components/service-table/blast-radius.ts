@@ -0,0 +1,130 @@
+/**
+ * Blast Radius
+ *
+ * Impact analysis answering "who depends on me": starting from a service or
+ * an external dependency, walks declared dependencies in reverse and lists
+ * every service that breaks directly or transitively when it goes down.
+ */
+
+import {
+  buildDependencyGraph,
+  type DependencyGraphNode,
+  type DependencyGraphSource,
+} from "./dependency-graph";
+import type { GroupedService } from "./types";
+
+/**
+ * Service affected by an outage of the analysed subject
+ */
+export interface BlastRadiusEntry {
+  readonly id: string;
+  readonly name: string;
+  readonly owner: string;
+  /** 1 for direct dependents, 2 for their dependents, and so on */
+  readonly depth: number;
+  /** Dependency through which the service is affected on a shortest path */
+  readonly via: string;
+  readonly productionDomains: readonly string[];
+}
+
+export interface BlastRadius {
+  readonly subject: DependencyGraphNode;
+  /** Sorted by depth, then name */
+  readonly affected: readonly BlastRadiusEntry[];
+  readonly maxDepth: number;
+  readonly ownerCount: number;
+  readonly productionDomainCount: number;
+}
+
+/**
+ * Production domains of a service: those in the organization's most critical
+ * environments
+ */
+function getProductionDomains(service: GroupedService): string[] {
+  return service.environments
+    .filter((env) => env.isCritical)
+    .map((env) => env.domain);
+}
+
+/**
+ * Lists the subjects an analysis can start from: every service and every
+ * external dependency, sorted by name
+ */
+export function listBlastRadiusSubjects(
+  services: readonly GroupedService[],
+  sources: readonly DependencyGraphSource[]
+): readonly DependencyGraphNode[] {
+  return [...buildDependencyGraph(services, sources).nodes].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Computes the blast radius of a graph node (service id or external
+ * dependency node id). Returns null when the subject isn't part of the graph.
+ *
+ * @param services - All services of the organization
+ * @param sources - The same services with their stored dependencies
+ * @param subjectId - Node to analyse
+ */
+export function computeBlastRadius(
+  services: readonly GroupedService[],
+  sources: readonly DependencyGraphSource[],
+  subjectId: string
+): BlastRadius | null {
+  const graph = buildDependencyGraph(services, sources);
+  const subject = graph.nodes.find((node) => node.id === subjectId);
+  if (!subject) {
+    return null;
+  }
+
+  const dependents = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    dependents.set(target, [...(dependents.get(target) ?? []), source]);
+  }
+
+  const servicesById = new Map(
+    services.map((service) => [service.id, service])
+  );
+  const nodeNames = new Map(graph.nodes.map((node) => [node.id, node.name]));
+  const affected: BlastRadiusEntry[] = [];
+  const visited = new Set([subjectId]);
+  let frontier = [subjectId];
+
+  // Breadth-first so each service is reported at its shortest depth
+  for (let depth = 1; frontier.length > 0; depth += 1) {
+    const next: string[] = [];
+    for (const nodeId of frontier) {
+      for (const dependentId of dependents.get(nodeId) ?? []) {
+        const service = servicesById.get(dependentId);
+        if (visited.has(dependentId) || !service) {
+          continue;
+        }
+        visited.add(dependentId);
+        next.push(dependentId);
+        affected.push({
+          id: service.id,
+          name: service.name,
+          owner: service.owner,
+          depth,
+          via: nodeNames.get(nodeId) ?? nodeId,
+          productionDomains: getProductionDomains(service),
+        });
+      }
+    }
+    frontier = next;
+  }
+
+  affected.sort((a, b) => a.depth - b.depth || a.name.localeCompare(b.name));
+
+  return {
+    subject,
+    affected,
+    maxDepth: affected.reduce((max, entry) => Math.max(max, entry.depth), 0),
+    ownerCount: new Set(affected.map((entry) => entry.owner.toLowerCase()))
+      .size,
+    productionDomainCount: new Set(
+      affected.flatMap((entry) => entry.productionDomains)
+    ).size,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Bulk Action Bar
+ *
+ * Shown above the services table while rows are selected: exports the
+ * selection, and starts the bulk edits the user is allowed to make. Editors
+ * can change the team, languages and dependencies; only admins and owners
+ * can move services to the trash, as for a single service.
+ */
+
+"use client";
+
+import { Code, Download, Network, Trash2, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ServiceBulkAction } from "./bulk-edit";
+
+interface BulkActionBarProps {
+  readonly selectedCount: number;
+  /** Whether the user may edit services (editors and above) */
+  readonly canEdit: boolean;
+  /** Whether the user may move services to the trash (admins and owners) */
+  readonly canDelete: boolean;
+  readonly onAction: (action: ServiceBulkAction) => void;
+  readonly onExport: () => void;
+  readonly onClear: () => void;
+}
+
+/**
+ * Edit actions of the bar, in display order
+ */
+const EDIT_ACTIONS: ReadonlyArray<{
+  readonly action: Exclude<ServiceBulkAction, "delete">;
+  readonly label: string;
+  readonly icon: typeof Users;
+}> = [
+  { action: "owner", label: "Team", icon: Users },
+  { action: "languages", label: "Languages", icon: Code },
+  { action: "dependencies", label: "Dependencies", icon: Network },
+];
+
+/**
+ * Actions on the selected rows of the services table
+ */
+export function BulkActionBar({
+  selectedCount,
+  canEdit,
+  canDelete,
+  onAction,
+  onExport,
+  onClear,
+}: BulkActionBarProps) {
+  return (
+    <div
+      aria-label="Bulk actions"
+      className="flex flex-wrap items-center gap-2 rounded-md border border-black/10 bg-muted/40 px-3 py-2 dark:border-white/5"
+      role="toolbar"
+    >
+      <span
+        aria-atomic="true"
+        aria-live="polite"
+        className="mr-1 font-medium text-xs"
+      >
+        {selectedCount} selected
+      </span>
+
+      {canEdit &&
+        EDIT_ACTIONS.map(({ action, label, icon: Icon }) => (
+          <Button
+            className="h-7 text-xs"
+            key={action}
+            onClick={() => onAction(action)}
+            size="sm"
+            variant="outline"
+          >
+            <Icon className="mr-1 size-3" />
+            {label}
+          </Button>
+        ))}
+
+      <Button
+        className="h-7 text-xs"
+        onClick={onExport}
+        size="sm"
+        variant="outline"
+      >
+        <Download className="mr-1 size-3" />
+        CSV
+      </Button>
+
+      {canDelete && (
+        <Button
+          className="h-7 text-destructive text-xs"
+          onClick={() => onAction("delete")}
+          size="sm"
+          variant="outline"
+        >
+          <Trash2 className="mr-1 size-3" />
+          Delete
+        </Button>
+      )}
+
+      <Button
+        aria-label="Clear selection"
+        className="ml-auto h-7 text-xs"
+        onClick={onClear}
+        size="sm"
+        variant="ghost"
+      >
+        <X className="size-3" />
+      </Button>
+    </div>
+  );
+}
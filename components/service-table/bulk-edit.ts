@@ -0,0 +1,362 @@
+/**
+ * Bulk Edit
+ *
+ * Changes applied to the services selected in the services table: the owning
+ * team, languages added or removed, dependencies added or removed. Only the
+ * edited fields are written, by `createBulkEditTransactions`; the rest of
+ * each service is left as stored. Each service still gets its own revision,
+ * and dependencies added in bulk are checked like in the form.
+ *
+ * Services are written in batches of `db.transact` calls. A batch that fails
+ * is retried one service at a time, so the summary can tell which services
+ * failed.
+ */
+
+import { id } from "@instantdb/react";
+import type { DependencyAdjacency } from "./dependency-cycles";
+import {
+  type DependencyServiceOption,
+  getDependencyDisplayName,
+  resolveDependencyTarget,
+  resolveDependencyTargetId,
+  type StoredDependency,
+} from "./dependency-links";
+import type { ServiceSnapshotSource } from "./service-revisions";
+import type { TeamOption } from "./team-links";
+import type { ServiceDependency } from "./types";
+import { validateServiceDependencies } from "./validation";
+
+/**
+ * Services written per `db.transact` call
+ */
+export const BULK_EDIT_BATCH_SIZE = 20;
+
+/**
+ * Change applied to every selected service
+ */
+export type BulkEditChange =
+  | { readonly kind: "owner"; readonly team: TeamOption }
+  | {
+      readonly kind: "languages";
+      readonly add: readonly string[];
+      readonly remove: readonly string[];
+    }
+  | {
+      readonly kind: "dependencies";
+      readonly add: readonly string[];
+      readonly remove: readonly string[];
+    };
+
+/**
+ * Operation applied to the selected services: a change, or moving them to
+ * the trash
+ */
+export type ServiceBulkOperation = BulkEditChange | { readonly kind: "delete" };
+
+/**
+ * Action started from the bulk action bar of the services table
+ */
+export type ServiceBulkAction = ServiceBulkOperation["kind"];
+
+/**
+ * Service as read for a bulk edit
+ */
+export interface BulkEditSource extends ServiceSnapshotSource {
+  readonly id: string;
+  readonly dependencies?: readonly StoredDependency[];
+}
+
+/**
+ * Fields a bulk edit writes to one service; undefined fields are not written
+ */
+export interface BulkEditPatch {
+  readonly team?: TeamOption;
+  readonly languages?: readonly string[];
+  /** Stored dependency rows to delete */
+  readonly removedDependencyIds?: readonly string[];
+  readonly addedDependencies?: readonly ServiceDependency[];
+}
+
+/**
+ * Service to write, with the fields the change writes
+ */
+export interface BulkEditUpdate<T extends BulkEditSource = BulkEditSource> {
+  readonly service: T;
+  readonly patch: BulkEditPatch;
+}
+
+/**
+ * Outcome of a bulk action for one service
+ */
+export interface BulkEditResult {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  readonly status: "succeeded" | "failed" | "skipped";
+  /** Why the service failed or was skipped */
+  readonly message: string | null;
+}
+
+/**
+ * Services to write and services left untouched by a bulk edit
+ */
+export interface BulkEditPlan<T extends BulkEditSource = BulkEditSource> {
+  readonly updates: readonly BulkEditUpdate<T>[];
+  readonly skipped: readonly BulkEditResult[];
+}
+
+/**
+ * Organization context needed to plan a bulk edit
+ */
+export interface BulkEditContext {
+  /** Active services of the organization, that dependencies can link to */
+  readonly services: readonly DependencyServiceOption[];
+  /** Existing dependency graph of the organization, by service id */
+  readonly adjacency: DependencyAdjacency;
+}
+
+/**
+ * Service written in a batch, with its transactions
+ */
+export interface BulkWriteItem<TChunk> {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  readonly transactions: readonly TChunk[];
+}
+
+/**
+ * Splits a comma-separated list entered in the bulk edit dialog
+ */
+export function parseBulkEditList(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Languages of a stored service, in stored order
+ */
+function getStoredLanguages(service: BulkEditSource): string[] {
+  return (service.language ?? "")
+    .split(",")
+    .map((lang) => lang.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Removes and adds values, compared case-insensitively
+ */
+function updateList(
+  values: readonly string[],
+  add: readonly string[],
+  remove: readonly string[]
+): string[] {
+  const removed = new Set(remove.map((value) => value.toLowerCase()));
+  const kept = values.filter((value) => !removed.has(value.toLowerCase()));
+  const present = new Set(kept.map((value) => value.toLowerCase()));
+  return [...kept, ...add.filter((value) => !present.has(value.toLowerCase()))];
+}
+
+/**
+ * Dependencies removed from and added to one service. Stored dependencies
+ * are matched by their displayed name and are otherwise left as they are.
+ */
+function planDependencyChange(
+  service: BulkEditSource,
+  change: Extract<BulkEditChange, { kind: "dependencies" }>,
+  services: readonly DependencyServiceOption[]
+): {
+  readonly kept: readonly StoredDependency[];
+  readonly removedDependencyIds: string[];
+  readonly addedDependencies: ServiceDependency[];
+} {
+  const removed = new Set(change.remove.map((name) => name.toLowerCase()));
+  const stored = service.dependencies ?? [];
+  const isRemoved = (dep: StoredDependency) =>
+    removed.has(getDependencyDisplayName(dep).trim().toLowerCase());
+  const kept = stored.filter((dep) => !isRemoved(dep));
+  const present = new Set(
+    kept.map((dep) => getDependencyDisplayName(dep).trim().toLowerCase())
+  );
+  const addedDependencies = change.add
+    .filter((name) => !present.has(name.toLowerCase()))
+    .map((name) => {
+      const target = resolveDependencyTarget(name, services);
+      return {
+        id: id(),
+        name: target?.name ?? name,
+        serviceId: target?.id ?? null,
+      };
+    });
+  return {
+    kept,
+    removedDependencyIds: stored.filter(isRemoved).map((dep) => dep.id),
+    addedDependencies,
+  };
+}
+
+/**
+ * Fields a bulk change writes to one service; null when it changes nothing
+ */
+function planBulkEditPatch(
+  service: BulkEditSource,
+  change: Exclude<BulkEditChange, { kind: "dependencies" }>
+): BulkEditPatch | null {
+  if (change.kind === "owner") {
+    const unchanged =
+      service.team?.id === change.team.id && service.owner === change.team.name;
+    return unchanged ? null : { team: change.team };
+  }
+  const before = getStoredLanguages(service);
+  const languages = updateList(before, change.add, change.remove);
+  return JSON.stringify(languages) === JSON.stringify(before)
+    ? null
+    : { languages };
+}
+
+/**
+ * Plans a bulk edit: the fields written to each service, and the services
+ * skipped because nothing changes or an added dependency is invalid.
+ * Dependencies accepted for one service count when checking the next ones, so
+ * a bulk edit can't close a cycle between selected services.
+ */
+export function planBulkEdit<T extends BulkEditSource>(
+  selected: readonly T[],
+  change: BulkEditChange,
+  context: BulkEditContext
+): BulkEditPlan<T> {
+  const adjacency = new Map(context.adjacency);
+  const serviceNames = new Map(
+    context.services.map((service) => [service.id, service.name])
+  );
+  const updates: BulkEditUpdate<T>[] = [];
+  const skipped: BulkEditResult[] = [];
+  const skip = (service: T, message: string) =>
+    skipped.push({
+      serviceId: service.id,
+      serviceName: service.name,
+      status: "skipped",
+      message,
+    });
+
+  for (const service of selected) {
+    if (change.kind !== "dependencies") {
+      const patch = planBulkEditPatch(service, change);
+      if (patch) {
+        updates.push({ service, patch });
+      } else {
+        skip(service, "Nothing to change");
+      }
+      continue;
+    }
+
+    const { kept, removedDependencyIds, addedDependencies } =
+      planDependencyChange(service, change, context.services);
+    if (removedDependencyIds.length === 0 && addedDependencies.length === 0) {
+      skip(service, "Nothing to change");
+      continue;
+    }
+
+    // Legacy free-text dependencies are matched by name, like in the form
+    const dependencies = [
+      ...kept.map((dep) => ({
+        id: dep.id,
+        name: getDependencyDisplayName(dep),
+        serviceId: resolveDependencyTargetId(dep, context.services),
+      })),
+      ...addedDependencies,
+    ];
+    const errors = validateServiceDependencies(dependencies, {
+      serviceId: service.id,
+      serviceName: service.name,
+      adjacency,
+      serviceNames,
+    });
+    const error = addedDependencies.find((dep) => errors[dep.id]);
+    if (error) {
+      skip(service, `${error.name}: ${errors[error.id]}`);
+      continue;
+    }
+    adjacency.set(
+      service.id,
+      dependencies.flatMap((dep) => (dep.serviceId ? [dep.serviceId] : []))
+    );
+
+    updates.push({
+      service,
+      patch: { removedDependencyIds, addedDependencies },
+    });
+  }
+
+  return { updates, skipped };
+}
+
+/**
+ * Message of a failed transaction
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Failed to save changes";
+}
+
+/**
+ * Writes services in batches of `BULK_EDIT_BATCH_SIZE`. A failed batch is
+ * retried one service at a time so each failure is reported against its
+ * service. Progress is reported after each batch or retry.
+ */
+export async function runBulkWrites<TChunk>(
+  items: readonly BulkWriteItem<TChunk>[],
+  transact: (chunks: TChunk[]) => Promise<unknown>,
+  onProgress: (completed: number, total: number) => void
+): Promise<BulkEditResult[]> {
+  const results: BulkEditResult[] = [];
+  let completed = 0;
+
+  const succeed = (item: BulkWriteItem<TChunk>) => {
+    results.push({
+      serviceId: item.serviceId,
+      serviceName: item.serviceName,
+      status: "succeeded",
+      message: null,
+    });
+  };
+
+  for (let start = 0; start < items.length; start += BULK_EDIT_BATCH_SIZE) {
+    const batch = items.slice(start, start + BULK_EDIT_BATCH_SIZE);
+    try {
+      await transact(batch.flatMap((item) => item.transactions));
+      batch.forEach(succeed);
+      completed += batch.length;
+      onProgress(completed, items.length);
+      continue;
+    } catch (error) {
+      console.error("Bulk edit batch failed, retrying per service:", error);
+    }
+
+    for (const item of batch) {
+      try {
+        await transact([...item.transactions]);
+        succeed(item);
+      } catch (error) {
+        console.error(`Failed to save ${item.serviceName}:`, error);
+        results.push({
+          serviceId: item.serviceId,
+          serviceName: item.serviceName,
+          status: "failed",
+          message: getErrorMessage(error),
+        });
+      }
+      completed += 1;
+      onProgress(completed, items.length);
+    }
+  }
+
+  return results;
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { Copy } from "lucide-react";
+import { Copy, TriangleAlert } from "lucide-react";
 import { memo, useCallback, useMemo, useRef, useState } from "react";
-import { Pill, PillIndicator } from "@/components/kibo-ui/pill";
+import { Pill } from "@/components/kibo-ui/pill";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,6 +17,8 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -24,9 +26,51 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { ENV_LABELS, ENV_ORDER, RUNTIME_LABELS } from "./constants";
+import {
+  type CustomFieldValue,
+  formatCustomFieldValue,
+} from "./custom-fields";
+import {
+  DEFAULT_LIFECYCLE_STATUS,
+  formatLifecycleWarnings,
+  type LifecycleStatus,
+  type LifecycleWarning,
+} from "./lifecycle";
+import { LifecycleBadge } from "./lifecycle-badge";
+import { SERVICE_LINK_ICONS, ServiceLinkButtons } from "./service-link-buttons";
+import { formatServiceLinkLabel } from "./service-links";
+import { TagPill } from "./tag-pill";
+import type { StoredTag } from "./tags";
 import type { EnvironmentInfo, GroupedService } from "./types";
 
+/**
+ * Tag pills shown in a row before the rest are counted
+ */
+const MAX_VISIBLE_TAGS = 2;
+
+/**
+ * Link buttons shown in the actions column; all links are in the row menu
+ * once there are more
+ */
+const MAX_ROW_LINKS = 3;
+
+const NO_LINKS: NonNullable<GroupedService["links"]> = [];
+
+/**
+ * Colour dot of an environment defined by the organization
+ */
+function EnvColorDot({ color }: { readonly color: string | null }) {
+  if (!color) {
+    return null;
+  }
+  return (
+    <span
+      className="inline-flex size-2 shrink-0 rounded-full"
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
 /**
  * Props for EnvBadges component
  */
@@ -37,32 +81,20 @@ interface EnvBadgesProps {
 /**
  * Environment cell - single aggregated state indicator using Pill component
  * Displays one primary environment label with +N counter for additional environments
- * Popover on hover/focus shows all environments ordered PROD → STAGE → DEV
+ * Popover on hover/focus shows all environments ordered by the organization's
+ * criticality (environments arrive sorted from conversion)
  */
 export const EnvBadges = memo(function EnvBadges({
   environments,
 }: EnvBadgesProps) {
   const [isOpen, setIsOpen] = useState(false);
 
-  const { sortedEnvs, primaryEnv, additionalCount, hasProduction } =
-    useMemo(() => {
-      const uniqueEnvs = [...new Set(environments.map((e) => e.env))];
-      const sortedEnvs = uniqueEnvs.sort(
-        (a, b) => ENV_ORDER.indexOf(a) - ENV_ORDER.indexOf(b)
-      );
-      const hasProduction = sortedEnvs.includes("production");
-      const primaryEnv = sortedEnvs[0] ?? null;
-      const additionalCount = sortedEnvs.length > 1 ? sortedEnvs.length - 1 : 0;
-
-      return { sortedEnvs, primaryEnv, additionalCount, hasProduction };
-    }, [environments]);
-
-  const sortedEnvironmentsForPopover = useMemo(() => {
-    return [...environments].sort((a, b) => {
-      const aIndex = ENV_ORDER.indexOf(a.env);
-      const bIndex = ENV_ORDER.indexOf(b.env);
-      return aIndex - bIndex;
-    });
+  const { sortedEnvs, primaryEnv, additionalCount } = useMemo(() => {
+    const sortedEnvs = [...new Set(environments.map((e) => e.env))];
+    const primaryEnv = environments[0] ?? null;
+    const additionalCount = sortedEnvs.length > 1 ? sortedEnvs.length - 1 : 0;
+
+    return { sortedEnvs, primaryEnv, additionalCount };
   }, [environments]);
 
   if (sortedEnvs.length === 0) {
@@ -88,11 +120,9 @@ export const EnvBadges = memo(function EnvBadges({
               className="flex h-5 min-w-[60px] max-w-[120px] shrink-0 cursor-pointer items-center gap-1.5 px-2 py-0 transition-colors hover:bg-muted/50"
               variant="secondary"
             >
-              {hasProduction && (
-                <PillIndicator pulse={false} variant="success" />
-              )}
+              <EnvColorDot color={primaryEnv?.envColor ?? null} />
               <span className="font-mono text-[11px] text-muted-foreground/80 uppercase leading-none tracking-wide">
-                {primaryEnv ? ENV_LABELS[primaryEnv] : "—"}
+                {primaryEnv ? primaryEnv.envLabel : "—"}
               </span>
               {additionalCount > 0 && (
                 <span className="font-mono text-[11px] text-muted-foreground/40 leading-none">
@@ -111,25 +141,26 @@ export const EnvBadges = memo(function EnvBadges({
         >
           <div className="space-y-1.5">
             <div className="mb-2 px-1 font-medium text-[10px] text-muted-foreground/70 uppercase tracking-wide">
-              Environments ({sortedEnvironmentsForPopover.length})
+              Environments ({environments.length})
             </div>
-            {sortedEnvironmentsForPopover.length === 0 ? (
+            {environments.length === 0 ? (
               <div className="px-1 py-2 text-[11px] text-muted-foreground/60">
                 No environments configured
               </div>
             ) : (
-              sortedEnvironmentsForPopover.map((env, idx) => (
+              environments.map((env, idx) => (
                 <div
                   className="group/item flex items-center justify-between gap-2 rounded-md p-2 transition-colors hover:bg-muted/50"
                   key={`${env.domain}-${env.env}-${idx}`}
                 >
                   <div className="flex min-w-0 flex-1 items-center gap-2.5">
                     <div className="inline-flex shrink-0 items-center gap-1.5">
-                      {env.env === "production" && (
-                        <PillIndicator pulse={false} variant="success" />
-                      )}
-                      <span className="min-w-12 font-mono text-[10px] text-muted-foreground/70 uppercase tracking-wide">
-                        {ENV_LABELS[env.env]}
+                      <EnvColorDot color={env.envColor} />
+                      <span
+                        className="min-w-12 font-mono text-[10px] text-muted-foreground/70 uppercase tracking-wide"
+                        title={env.storedEnv}
+                      >
+                        {env.envLabel}
                       </span>
                     </div>
                     <div className="flex min-w-0 flex-1 flex-col">
@@ -143,7 +174,8 @@ export const EnvBadges = memo(function EnvBadges({
                       )}
                       {env.runtimeType && env.runtimeId && (
                         <span className="truncate font-mono text-[10px] text-muted-foreground/50">
-                          {env.runtimeType}: {env.runtimeId}
+                          {env.runtimeLabel ?? env.runtimeType}:{" "}
+                          {env.runtimeId}
                         </span>
                       )}
                     </div>
@@ -236,14 +268,12 @@ export const DomainsAffordance = memo(function DomainsAffordance({
                   >
                     <div className="flex min-w-0 flex-1 items-center gap-2.5">
                       <div className="inline-flex shrink-0 items-center gap-1.5">
-                        {env.env === "production" && (
-                          <div
-                            className="h-1.5 w-1.5 shrink-0 rounded-full bg-green-500"
-                            title="Production"
-                          />
-                        )}
-                        <span className="min-w-12 font-mono text-[10px] text-muted-foreground/70 uppercase tracking-wide">
-                          {ENV_LABELS[env.env]}
+                        <EnvColorDot color={env.envColor} />
+                        <span
+                          className="min-w-12 font-mono text-[10px] text-muted-foreground/70 uppercase tracking-wide"
+                          title={env.storedEnv}
+                        >
+                          {env.envLabel}
                         </span>
                       </div>
                       <div className="flex min-w-0 flex-1 flex-col">
@@ -280,21 +310,17 @@ export const DomainsAffordance = memo(function DomainsAffordance({
  * Props for RuntimeFootprint component
  */
 interface RuntimeFootprintProps {
-  readonly runtimeFootprint: readonly string[];
+  /** Badges of the runtime types, resolved from the organization's catalog */
+  readonly runtimeBadges: readonly string[];
 }
 
 /**
  * Runtime footprint - displays aggregated runtime types
  */
 export const RuntimeFootprint = memo(function RuntimeFootprint({
-  runtimeFootprint,
+  runtimeBadges,
 }: RuntimeFootprintProps) {
-  const display =
-    runtimeFootprint.length > 0
-      ? runtimeFootprint
-          .map((rt) => RUNTIME_LABELS[rt] ?? rt.toUpperCase())
-          .join("·")
-      : null;
+  const display = runtimeBadges.length > 0 ? runtimeBadges.join("·") : null;
 
   return (
     <div className="flex h-5 items-center">
@@ -311,27 +337,153 @@ export const RuntimeFootprint = memo(function RuntimeFootprint({
   );
 });
 
+/**
+ * Props for LifecycleCell component
+ */
+interface LifecycleCellProps {
+  readonly lifecycle: LifecycleStatus | undefined;
+  readonly warnings: readonly LifecycleWarning[] | undefined;
+}
+
+/**
+ * Lifecycle status badge, with a warning icon when the service depends on
+ * deprecated or retired services
+ */
+export const LifecycleCell = memo(function LifecycleCell({
+  lifecycle,
+  warnings,
+}: LifecycleCellProps) {
+  const warningText = useMemo(
+    () => (warnings?.length ? formatLifecycleWarnings(warnings) : null),
+    [warnings]
+  );
+
+  return (
+    <div className="flex h-5 items-center gap-1.5">
+      <LifecycleBadge
+        className="px-1.5 py-0 text-[11px]"
+        status={lifecycle ?? DEFAULT_LIFECYCLE_STATUS}
+      />
+      {warningText && (
+        <span
+          aria-label={`Depends on deprecated or retired services: ${warningText}`}
+          className="inline-flex text-amber-500"
+          role="img"
+          title={warningText}
+        >
+          <TriangleAlert className="size-3.5" />
+        </span>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Props for CustomFieldCell component
+ */
+interface CustomFieldCellProps {
+  readonly value: CustomFieldValue | undefined;
+}
+
+/**
+ * Custom field value - formatted text, dash when not filled in
+ */
+export const CustomFieldCell = memo(function CustomFieldCell({
+  value,
+}: CustomFieldCellProps) {
+  const display = formatCustomFieldValue(value);
+
+  return (
+    <div className="flex h-5 items-center">
+      {display ? (
+        <span
+          className="truncate text-[11px] text-muted-foreground/80 leading-none"
+          title={display}
+        >
+          {display}
+        </span>
+      ) : (
+        <span className="text-[11px] text-muted-foreground/40">—</span>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Props for TagsCell component
+ */
+interface TagsCellProps {
+  readonly tags: readonly StoredTag[] | undefined;
+}
+
+/**
+ * Tag pills - the first tags, then a count of the others
+ */
+export const TagsCell = memo(function TagsCell({ tags }: TagsCellProps) {
+  if (!tags || tags.length === 0) {
+    return (
+      <div className="flex h-5 items-center">
+        <span className="text-[11px] text-muted-foreground/40">—</span>
+      </div>
+    );
+  }
+
+  const visibleTags = tags.slice(0, MAX_VISIBLE_TAGS);
+  const hiddenTags = tags.slice(MAX_VISIBLE_TAGS);
+
+  return (
+    <div className="flex h-5 items-center gap-1 overflow-hidden">
+      {visibleTags.map((tag) => (
+        <TagPill
+          className="shrink-0 px-1.5 py-0 text-[11px]"
+          key={tag.id}
+          tag={tag}
+        />
+      ))}
+      {hiddenTags.length > 0 && (
+        <span
+          className="shrink-0 text-[11px] text-muted-foreground/70"
+          title={hiddenTags.map((tag) => tag.name).join(", ")}
+        >
+          +{hiddenTags.length}
+        </span>
+      )}
+    </div>
+  );
+});
+
 /**
  * Props for RowActions component
  */
 interface RowActionsProps {
   readonly service: GroupedService;
+  readonly onView?: (service: GroupedService) => void;
   readonly onEdit: (service: GroupedService) => void;
   readonly onDelete: (service: GroupedService) => void;
+  /** Opens the service form pre-filled with a copy of the service */
+  readonly onDuplicate?: (service: GroupedService) => void;
 }
 
 /**
- * Row actions - three-dot menu with Edit and Delete options
+ * Row actions - operational link buttons and a three-dot menu with View,
+ * Edit, Duplicate and Delete options
  */
 export const RowActions = memo(function RowActions({
   service,
+  onView,
   onEdit,
   onDelete,
+  onDuplicate,
 }: RowActionsProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const triggerRef = useRef<HTMLButtonElement>(null);
 
+  const handleView = useCallback(() => {
+    setIsDropdownOpen(false);
+    onView?.(service);
+  }, [onView, service]);
+
   const handleEdit = useCallback(() => {
     // Close dropdown first, then open drawer
     setIsDropdownOpen(false);
@@ -343,6 +495,14 @@ export const RowActions = memo(function RowActions({
     }, 0);
   }, [onEdit, service]);
 
+  const handleDuplicate = useCallback(() => {
+    setIsDropdownOpen(false);
+    // Like edit, let the dropdown close before the drawer opens
+    setTimeout(() => {
+      onDuplicate?.(service);
+    }, 0);
+  }, [onDuplicate, service]);
+
   const handleDeleteClick = useCallback(() => {
     setIsDropdownOpen(false);
     setIsDeleteDialogOpen(true);
@@ -353,8 +513,11 @@ export const RowActions = memo(function RowActions({
     onDelete(service);
   }, [onDelete, service]);
 
+  const links = service.links ?? NO_LINKS;
+
   return (
-    <div className="flex h-5 items-center justify-end">
+    <div className="flex h-5 items-center justify-end gap-0.5">
+      <ServiceLinkButtons links={links} maxVisible={MAX_ROW_LINKS} />
       <DropdownMenu onOpenChange={setIsDropdownOpen} open={isDropdownOpen}>
         <DropdownMenuTrigger asChild>
           <button
@@ -373,10 +536,44 @@ export const RowActions = memo(function RowActions({
           align="end"
           onClick={(e: React.MouseEvent) => e.stopPropagation()}
         >
+          {onView && (
+            <DropdownMenuItem onClick={handleView}>View details</DropdownMenuItem>
+          )}
           <DropdownMenuItem onClick={handleEdit}>Edit service</DropdownMenuItem>
+          {onDuplicate && (
+            <DropdownMenuItem onClick={handleDuplicate}>
+              Duplicate service
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem onClick={handleDeleteClick} variant="destructive">
             Delete service
           </DropdownMenuItem>
+          {links.length > MAX_ROW_LINKS && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-muted-foreground text-xs">
+                Links
+              </DropdownMenuLabel>
+              {links.map((link) => {
+                const Icon = SERVICE_LINK_ICONS[link.type];
+                return (
+                  <DropdownMenuItem
+                    asChild
+                    key={`${link.type}|${link.env ?? ""}|${link.url}`}
+                  >
+                    <a
+                      href={link.url}
+                      rel="noopener noreferrer"
+                      target="_blank"
+                    >
+                      <Icon className="size-3.5" />
+                      {formatServiceLinkLabel(link)}
+                    </a>
+                  </DropdownMenuItem>
+                );
+              })}
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -390,9 +587,9 @@ export const RowActions = memo(function RowActions({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete service</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{service.name}"? This action
-              cannot be undone and will remove all associated interfaces and
-              dependencies.
+              "{service.name}" will be moved to the trash together with its
+              interfaces and dependencies. Admins can restore it from the
+              trash until it is purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -3,31 +3,116 @@
 import type { ColumnDef } from "@tanstack/react-table";
 import { useMemo } from "react";
 import type { TableColumnMeta } from "@/components/table/core";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
 import {
+  CustomFieldCell,
   DomainsAffordance,
   EnvBadges,
+  LifecycleCell,
   RowActions,
   RuntimeFootprint,
+  TagsCell,
 } from "./cells";
+import type { CustomFieldDefinition } from "./custom-fields";
 import type { GroupedService } from "./types";
 
 /**
  * Props for useServiceTableColumns hook
  */
 interface UseServiceTableColumnsProps {
+  readonly onView?: (service: GroupedService) => void;
   readonly onEdit: (service: GroupedService) => void;
   readonly onDelete: (service: GroupedService) => void;
+  readonly onDuplicate?: (service: GroupedService) => void;
+  /** Organization custom fields, each shown as a column before the actions */
+  readonly customFields?: readonly CustomFieldDefinition[];
+  /** Adds a checkbox column selecting rows for bulk actions */
+  readonly selectable?: boolean;
 }
 
+/**
+ * Stable default, so the columns aren't rebuilt on every render
+ */
+const NO_CUSTOM_FIELDS: readonly CustomFieldDefinition[] = [];
+
+/**
+ * Column id of a custom field, prefixed so it can't clash with built-in ids
+ */
+function getCustomFieldColumnId(key: string): string {
+  return `custom:${key}`;
+}
+
+/**
+ * Creates the column of a custom field
+ */
+function createCustomFieldColumn(
+  field: CustomFieldDefinition
+): ColumnDef<GroupedService> {
+  return {
+    id: getCustomFieldColumnId(field.key),
+    header: () => <span>{field.label}</span>,
+    cell: ({ row }) => (
+      <CustomFieldCell value={row.original.customFields?.[field.key]} />
+    ),
+    size: 140,
+    minSize: 80,
+    maxSize: 300,
+    meta: {
+      headerLabel: field.label,
+    } as TableColumnMeta,
+  };
+}
+
+/**
+ * Checkbox column selecting rows for bulk actions; the header checkbox
+ * selects every row of the table
+ */
+const SELECT_COLUMN: ColumnDef<GroupedService> = {
+  id: "select",
+  header: ({ table }) => (
+    <Checkbox
+      aria-label="Select all services"
+      checked={
+        table.getIsAllRowsSelected() ||
+        (table.getIsSomeRowsSelected() && "indeterminate")
+      }
+      onCheckedChange={(checked) =>
+        table.toggleAllRowsSelected(checked === true)
+      }
+    />
+  ),
+  cell: ({ row }) => (
+    <div className="flex h-5 items-center">
+      <Checkbox
+        aria-label={`Select ${row.original.name}`}
+        checked={row.getIsSelected()}
+        onCheckedChange={(checked) => row.toggleSelected(checked === true)}
+      />
+    </div>
+  ),
+  size: 50,
+  enableResizing: false,
+  meta: {
+    sticky: true,
+    headerLabel: "Select",
+  } as TableColumnMeta,
+};
+
 /**
  * Creates column definitions for the service table
  */
 export function useServiceTableColumns({
+  onView,
   onEdit,
   onDelete,
+  onDuplicate,
+  customFields = NO_CUSTOM_FIELDS,
+  selectable = false,
 }: UseServiceTableColumnsProps): ColumnDef<GroupedService>[] {
   return useMemo<ColumnDef<GroupedService>[]>(
     () => [
+      ...(selectable ? [SELECT_COLUMN] : []),
       {
         id: "name",
         accessorKey: "name",
@@ -47,6 +132,22 @@ export function useServiceTableColumns({
           headerLabel: "Service",
         } as TableColumnMeta,
       },
+      {
+        id: "lifecycle",
+        header: () => <span>Status</span>,
+        cell: ({ row }) => (
+          <LifecycleCell
+            lifecycle={row.original.lifecycle}
+            warnings={row.original.lifecycleWarnings}
+          />
+        ),
+        size: 120,
+        minSize: 100,
+        maxSize: 160,
+        meta: {
+          headerLabel: "Status",
+        } as TableColumnMeta,
+      },
       {
         id: "environments",
         header: () => <span>Env</span>,
@@ -80,7 +181,7 @@ export function useServiceTableColumns({
         id: "runtime",
         header: () => <span>Runtime</span>,
         cell: ({ row }) => (
-          <RuntimeFootprint runtimeFootprint={row.original.runtimeFootprint} />
+          <RuntimeFootprint runtimeBadges={row.original.runtimeBadges} />
         ),
         size: 90,
         minSize: 70,
@@ -92,10 +193,16 @@ export function useServiceTableColumns({
       {
         id: "owner",
         accessorKey: "owner",
-        header: () => <span>Owner</span>,
+        header: () => <span>Team</span>,
         cell: ({ row }) => (
           <div className="flex h-5 items-center">
-            <span className="truncate text-[11px] text-muted-foreground/80 leading-none">
+            <span
+              className={cn(
+                "truncate text-[11px] text-muted-foreground/80 leading-none",
+                !row.original.teamId && "italic"
+              )}
+              title={row.original.teamId ? undefined : "Not linked to a team"}
+            >
               {row.original.owner}
             </span>
           </div>
@@ -104,26 +211,40 @@ export function useServiceTableColumns({
         minSize: 120,
         maxSize: 200,
         meta: {
-          headerLabel: "Owner",
+          headerLabel: "Team",
+        } as TableColumnMeta,
+      },
+      {
+        id: "tags",
+        header: () => <span>Tags</span>,
+        cell: ({ row }) => <TagsCell tags={row.original.tags} />,
+        size: 180,
+        minSize: 100,
+        maxSize: 320,
+        meta: {
+          headerLabel: "Tags",
         } as TableColumnMeta,
       },
+      ...customFields.map(createCustomFieldColumn),
       {
         id: "actions",
         header: () => <span>Actions</span>,
         cell: ({ row }) => (
           <RowActions
             onDelete={onDelete}
+            onDuplicate={onDuplicate}
             onEdit={onEdit}
+            onView={onView}
             service={row.original}
           />
         ),
-        size: 72,
+        size: 160,
         enableResizing: false,
         meta: {
           headerLabel: "Actions",
         } as TableColumnMeta,
       },
     ],
-    [onEdit, onDelete]
+    [onView, onEdit, onDelete, onDuplicate, customFields, selectable]
   );
 }
@@ -1,9 +1,14 @@
 "use client";
 
+import { id } from "@instantdb/react";
 import {
+  CalendarClock,
   CheckIcon,
   Code,
   Globe,
+  Layers,
+  Link2,
+  ListPlus,
   Plus,
   Settings,
   Trash2,
@@ -27,6 +32,7 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -46,6 +52,50 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Textarea } from "@/components/ui/textarea";
+import { CustomFieldInputList } from "./custom-field-input";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  getCustomFieldDefaults,
+} from "./custom-fields";
+import { buildServiceDependencyAdjacency } from "./dependency-cycles";
+import type { DependencyGraphSource } from "./dependency-graph";
+import { resolveDependencyTarget } from "./dependency-links";
+import { buildDomainClaims, type DomainSource } from "./domains";
+import { DuplicateWarnings } from "./duplicate-warnings";
+import { type DuplicateSource, findDuplicateCandidates } from "./duplicates";
+import {
+  DEFAULT_ENVIRONMENT_CATALOG,
+  type EnvironmentCatalog,
+  getEnvironmentSelectOptions,
+} from "./environments";
+import {
+  DEFAULT_LIFECYCLE_STATUS,
+  type LifecycleFields,
+  type LifecycleStatus,
+  normalizeLifecycleFields,
+  resolveLifecycleStatus,
+} from "./lifecycle";
+import { LifecycleFieldsInput } from "./lifecycle-fields";
+import {
+  DEFAULT_RUNTIME_CATALOG,
+  getRuntimeIdHint,
+  getRuntimeSelectOptions,
+  type RuntimeCatalog,
+} from "./runtimes";
+import { ServiceLinksInput } from "./service-links-input";
+import { ServiceTagsInput } from "./service-tags-input";
+import {
+  applyServiceTemplate,
+  type InterfaceNamePatterns,
+  NAME_PLACEHOLDER,
+  refreshNamePlaceholders,
+  type ServicePrefill,
+  type StoredServiceTemplate,
+} from "./service-templates";
+import type { StoredTag } from "./tags";
+import { resolveTeam, type TeamOption } from "./team-links";
+import { TechStackInput } from "./tech-stack-input";
 import type {
   CreateServiceFormData,
   GroupedService,
@@ -53,26 +103,16 @@ import type {
   ServiceInterface,
 } from "./types";
 import {
+  validateCustomFieldValues,
+  validateLifecycle,
   validateName,
+  validateServiceDependencies,
   validateServiceInterface,
+  validateServiceLinks,
+  validateTechStack,
   validateUrl,
 } from "./validation";
 
-const ENVIRONMENT_OPTIONS = [
-  { value: "production", label: "Production" },
-  { value: "staging", label: "Staging" },
-  { value: "development", label: "Development" },
-] as const;
-
-const RUNTIME_TYPE_OPTIONS = [
-  { value: "ec2", label: "EC2" },
-  { value: "vm", label: "VM" },
-  { value: "k8s", label: "K8s" },
-  { value: "lambda", label: "Lambda" },
-  { value: "container", label: "Container" },
-  { value: "paas", label: "PaaS" },
-] as const;
-
 const LANGUAGE_OPTIONS = [
   { value: "javascript", label: "JavaScript" },
   { value: "typescript", label: "TypeScript" },
@@ -98,6 +138,11 @@ const LANGUAGE_OPTIONS = [
 // Re-export types for convenience
 export type { CreateServiceFormData, ServiceInterface, ServiceDependency };
 
+/**
+ * Other service of the organization, as read by the form
+ */
+type ServiceOption = DependencyGraphSource & DuplicateSource & DomainSource;
+
 interface CreateServiceDrawerProps {
   readonly open: boolean;
   readonly onOpenChange: (open: boolean) => void;
@@ -105,6 +150,111 @@ interface CreateServiceDrawerProps {
   readonly onSubmit: (data: CreateServiceFormData) => Promise<void>;
   readonly canCreate: boolean;
   readonly editingService?: GroupedService | null;
+  /**
+   * Services of the organization that dependencies can link to, with their
+   * own dependencies to detect cycles, and their repository and interfaces
+   * to check domains and warn about duplicates
+   */
+  readonly availableServices?: readonly ServiceOption[];
+  /** Teams of the organization that can own the service */
+  readonly availableTeams?: readonly TeamOption[];
+  /** Environments of the organization */
+  readonly environmentCatalog?: EnvironmentCatalog;
+  /** Runtime types of the organization */
+  readonly runtimeCatalog?: RuntimeCatalog;
+  /** Custom fields of the organization */
+  readonly customFields?: readonly CustomFieldDefinition[];
+  /** Tags of the organization */
+  readonly availableTags?: readonly StoredTag[];
+  /** Values of a new service, such as a duplicated one; read on open */
+  readonly prefill?: ServicePrefill | null;
+  /** Templates of the organization offered when creating a service */
+  readonly templates?: readonly StoredServiceTemplate[];
+}
+
+const EMPTY_SERVICE_OPTIONS: readonly ServiceOption[] = [];
+const EMPTY_TEAM_OPTIONS: readonly TeamOption[] = [];
+const EMPTY_CUSTOM_FIELDS: readonly CustomFieldDefinition[] = [];
+const EMPTY_TAGS: readonly StoredTag[] = [];
+const EMPTY_TEMPLATES: readonly StoredServiceTemplate[] = [];
+const EMPTY_NAME_PATTERNS: InterfaceNamePatterns = new Map();
+
+/**
+ * Lifecycle fields entered in the form
+ */
+function getFormLifecycle(data: CreateServiceFormData): LifecycleFields {
+  return {
+    lifecycle: data.lifecycle ?? DEFAULT_LIFECYCLE_STATUS,
+    sunsetDate: data.sunsetDate ?? null,
+    replacement: data.replacement ?? null,
+  };
+}
+
+/**
+ * Status the service can move from; null while creating one
+ */
+function getPreviousLifecycle(
+  service: GroupedService | null | undefined
+): LifecycleStatus | null {
+  return service ? resolveLifecycleStatus(service.lifecycle) : null;
+}
+
+/**
+ * Lifecycle fields of the service being edited
+ */
+function getEditingLifecycle(service: GroupedService): LifecycleFields {
+  return {
+    lifecycle: resolveLifecycleStatus(service.lifecycle),
+    sunsetDate: service.sunsetDate ?? null,
+    replacement: service.replacementServiceId
+      ? {
+          id: service.replacementServiceId,
+          name: service.replacementName ?? "",
+        }
+      : null,
+  };
+}
+
+/**
+ * Picker of the template a new service starts from; hidden while editing
+ * and when the organization has no templates
+ */
+function ServiceTemplatePicker({
+  hidden,
+  templates,
+  value,
+  onChange,
+}: {
+  readonly hidden: boolean;
+  readonly templates: readonly StoredServiceTemplate[];
+  readonly value: string;
+  readonly onChange: (templateId: string) => void;
+}) {
+  if (hidden || templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 space-y-2">
+      <Label htmlFor="service-template">Template</Label>
+      <Select onValueChange={onChange} value={value || undefined}>
+        <SelectTrigger className="w-full" id="service-template">
+          <SelectValue placeholder="Start from a template" />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-muted-foreground text-xs">
+        Replaces the languages, interfaces and dependencies. {NAME_PLACEHOLDER}{" "}
+        in domains becomes the service name.
+      </p>
+    </div>
+  );
 }
 
 export function CreateServiceDrawer({
@@ -114,6 +264,14 @@ export function CreateServiceDrawer({
   onSubmit,
   canCreate,
   editingService,
+  availableServices = EMPTY_SERVICE_OPTIONS,
+  availableTeams = EMPTY_TEAM_OPTIONS,
+  environmentCatalog = DEFAULT_ENVIRONMENT_CATALOG,
+  runtimeCatalog = DEFAULT_RUNTIME_CATALOG,
+  customFields = EMPTY_CUSTOM_FIELDS,
+  availableTags = EMPTY_TAGS,
+  prefill,
+  templates = EMPTY_TEMPLATES,
 }: CreateServiceDrawerProps) {
   const [formData, setFormData] = useState<CreateServiceFormData>({
     name: "",
@@ -123,6 +281,13 @@ export function CreateServiceDrawer({
     repository: "",
     interfaces: [],
     dependencies: [],
+    customFields: {},
+    lifecycle: DEFAULT_LIFECYCLE_STATUS,
+    sunsetDate: null,
+    replacement: null,
+    tags: [],
+    techStack: [],
+    links: [],
   });
   const [languageSearch, setLanguageSearch] = useState("");
   const [errors, setErrors] = useState<
@@ -132,11 +297,160 @@ export function CreateServiceDrawer({
   const [interfaceErrors, setInterfaceErrors] = useState<
     Record<string, Partial<Record<keyof ServiceInterface, string>>>
   >({});
+  // Interfaces filled from a template or a duplicate, refilled on rename
+  const [namePatterns, setNamePatterns] =
+    useState<InterfaceNamePatterns>(EMPTY_NAME_PATTERNS);
+  const [templateId, setTemplateId] = useState("");
 
   const serviceNameInputRef = useRef<HTMLInputElement>(null);
 
   const isEditing = editingService !== null && editingService !== undefined;
 
+  // A service can't depend on itself
+  const dependencyOptions = useMemo(
+    () =>
+      availableServices.filter((service) => service.id !== editingService?.id),
+    [availableServices, editingService?.id]
+  );
+  // Read when the drawer opens, so live service updates don't reset the form
+  const dependencyOptionsRef = useRef(dependencyOptions);
+  dependencyOptionsRef.current = dependencyOptions;
+  // Defaults are read when the drawer opens, like the dependency options
+  const customFieldsRef = useRef(customFields);
+  customFieldsRef.current = customFields;
+  const prefillRef = useRef(prefill);
+  prefillRef.current = prefill;
+
+  const dependencyAdjacency = useMemo(
+    () => buildServiceDependencyAdjacency(availableServices),
+    [availableServices]
+  );
+  const serviceNamesById = useMemo(
+    () =>
+      new Map(availableServices.map((service) => [service.id, service.name])),
+    [availableServices]
+  );
+
+  const dependencyErrors = useMemo(
+    () =>
+      validateServiceDependencies(formData.dependencies, {
+        serviceId: editingService?.id ?? null,
+        serviceName: formData.name,
+        adjacency: dependencyAdjacency,
+        serviceNames: serviceNamesById,
+      }),
+    [
+      formData.dependencies,
+      formData.name,
+      editingService?.id,
+      dependencyAdjacency,
+      serviceNamesById,
+    ]
+  );
+
+  // Domains of the other services; each (domain, env) pair has one owner
+  const interfaceValidationContext = useMemo(
+    () => ({
+      catalog: environmentCatalog,
+      claims: buildDomainClaims(
+        availableServices,
+        environmentCatalog,
+        editingService?.id ?? null
+      ),
+    }),
+    [availableServices, environmentCatalog, editingService?.id]
+  );
+
+  // Warnings only; a similar service doesn't block saving
+  const duplicateMatches = useMemo(
+    () =>
+      findDuplicateCandidates(
+        {
+          name: formData.name,
+          repository: formData.repository,
+          interfaces: formData.interfaces,
+        },
+        availableServices,
+        environmentCatalog,
+        editingService?.id ?? null
+      ),
+    [
+      formData.name,
+      formData.repository,
+      formData.interfaces,
+      availableServices,
+      environmentCatalog,
+      editingService?.id,
+    ]
+  );
+
+  const techStackErrors = useMemo(
+    () => validateTechStack(formData.techStack ?? []),
+    [formData.techStack]
+  );
+
+  const linkErrors = useMemo(
+    () => validateServiceLinks(formData.links ?? []),
+    [formData.links]
+  );
+
+  const customFieldErrors = useMemo(
+    () => validateCustomFieldValues(customFields, formData.customFields),
+    [customFields, formData.customFields]
+  );
+
+  const previousLifecycle = getPreviousLifecycle(editingService);
+  const lifecycleFields = useMemo(() => getFormLifecycle(formData), [formData]);
+
+  const lifecycleErrors = useMemo(
+    () =>
+      validateLifecycle(normalizeLifecycleFields(lifecycleFields), {
+        previousStatus: previousLifecycle,
+        serviceId: editingService?.id ?? null,
+      }),
+    [lifecycleFields, previousLifecycle, editingService?.id]
+  );
+
+  // Existing team the owner refers to, preferring the team the form was
+  // filled with while the owner still names it; otherwise a new team is
+  // created on save
+  const ownerTeam = useMemo(() => {
+    const linked = availableTeams.find((team) => team.id === formData.teamId);
+    return linked && linked.name === formData.owner.trim()
+      ? linked
+      : resolveTeam(formData.owner, availableTeams);
+  }, [formData.owner, formData.teamId, availableTeams]);
+
+  // Stored values that aren't environment keys stay selectable, unchanged
+  const environmentOptions = useMemo(
+    () =>
+      getEnvironmentSelectOptions(
+        environmentCatalog,
+        formData.interfaces.map((iface) => iface.env)
+      ),
+    [environmentCatalog, formData.interfaces]
+  );
+
+  // Links can also be scoped to values missing from the catalog
+  const linkEnvironmentOptions = useMemo(
+    () =>
+      getEnvironmentSelectOptions(
+        environmentCatalog,
+        (formData.links ?? []).map((link) => link.env ?? "")
+      ),
+    [environmentCatalog, formData.links]
+  );
+
+  // Likewise for runtime types missing from the catalog
+  const runtimeOptions = useMemo(
+    () =>
+      getRuntimeSelectOptions(
+        runtimeCatalog,
+        formData.interfaces.map((iface) => iface.runtimeType)
+      ),
+    [runtimeCatalog, formData.interfaces]
+  );
+
   const submitButtonText = useMemo(() => {
     if (isSubmitting) {
       return isEditing ? "Saving..." : "Creating...";
@@ -153,10 +467,11 @@ export function CreateServiceDrawer({
         languages: editingService.languages ?? [],
         owner: editingService.owner,
         repository: editingService.repository,
-        interfaces: editingService.environments.map((env, idx) => ({
-          id: `interface-${idx}`,
+        // Keep stored interface ids so saving updates rows in place
+        interfaces: editingService.environments.map((env) => ({
+          id: env.id ?? id(),
           domain: env.domain,
-          env: env.env,
+          env: env.storedEnv || env.env,
           branch: env.branch ?? "",
           runtimeType: env.runtimeType ?? "",
           runtimeId: env.runtimeId ?? "",
@@ -164,9 +479,31 @@ export function CreateServiceDrawer({
         dependencies: editingService.dependencies.map((dep, idx) => ({
           id: `dependency-${idx}`,
           name: dep,
+          serviceId:
+            resolveDependencyTarget(dep, dependencyOptionsRef.current)?.id ??
+            null,
+        })),
+        customFields: editingService.customFields ?? {},
+        ...getEditingLifecycle(editingService),
+        tags: editingService.tags,
+        techStack: (editingService.techStack ?? []).map((entry, idx) => ({
+          ...entry,
+          id: `tech-stack-${idx}`,
+        })),
+        links: (editingService.links ?? []).map((link, idx) => ({
+          ...link,
+          id: `link-${idx}`,
         })),
       });
-    } else if (!open) {
+    } else if (open && prefillRef.current) {
+      setFormData(prefillRef.current.data);
+      setNamePatterns(prefillRef.current.patterns);
+    } else if (open) {
+      setFormData((prev) => ({
+        ...prev,
+        customFields: getCustomFieldDefaults(customFieldsRef.current),
+      }));
+    } else {
       setFormData({
         name: "",
         description: "",
@@ -175,11 +512,20 @@ export function CreateServiceDrawer({
         repository: "",
         interfaces: [],
         dependencies: [],
+        customFields: {},
+        lifecycle: DEFAULT_LIFECYCLE_STATUS,
+        sunsetDate: null,
+        replacement: null,
+        tags: [],
+        techStack: [],
+        links: [],
       });
       setErrors({});
       setInterfaceErrors({});
       setIsSubmitting(false);
       setLanguageSearch("");
+      setNamePatterns(EMPTY_NAME_PATTERNS);
+      setTemplateId("");
     }
   }, [open, editingService]);
 
@@ -227,7 +573,18 @@ export function CreateServiceDrawer({
     const ownerValid = formData.owner.trim().length > 0;
     const repoError = validateUrl(formData.repository);
 
-    if (nameError || !ownerValid || repoError) {
+    if (
+      nameError ||
+      !ownerValid ||
+      repoError ||
+      [
+        dependencyErrors,
+        techStackErrors,
+        linkErrors,
+        customFieldErrors,
+        lifecycleErrors,
+      ].some((fieldErrors) => Object.keys(fieldErrors).length > 0)
+    ) {
       return false;
     }
 
@@ -235,7 +592,8 @@ export function CreateServiceDrawer({
     for (const iface of formData.interfaces) {
       const ifaceErrors = validateServiceInterface(
         iface,
-        formData.interfaces.filter((i) => i.id !== iface.id)
+        formData.interfaces.filter((i) => i.id !== iface.id),
+        interfaceValidationContext
       );
       if (Object.keys(ifaceErrors).length > 0) {
         return false;
@@ -243,7 +601,18 @@ export function CreateServiceDrawer({
     }
 
     return true;
-  }, [formData, existingServiceNames, isEditing, editingService?.name]);
+  }, [
+    formData,
+    existingServiceNames,
+    isEditing,
+    editingService?.name,
+    dependencyErrors,
+    techStackErrors,
+    linkErrors,
+    customFieldErrors,
+    lifecycleErrors,
+    interfaceValidationContext,
+  ]);
 
   const handleFieldChange = (
     field: keyof CreateServiceFormData,
@@ -253,6 +622,16 @@ export function CreateServiceDrawer({
 
     // Validate on change
     if (field === "name") {
+      // Refill the domains that follow the name
+      setFormData((prev) => ({
+        ...prev,
+        interfaces: refreshNamePlaceholders(
+          prev.interfaces,
+          namePatterns,
+          formData.name,
+          value
+        ),
+      }));
       const error = validateName(
         value,
         existingServiceNames,
@@ -271,11 +650,40 @@ export function CreateServiceDrawer({
     } else if (field === "owner") {
       setErrors((prev) => ({
         ...prev,
-        owner: value.trim() ? undefined : "Owner is required",
+        owner: value.trim() ? undefined : "Team is required",
       }));
     }
   };
 
+  const handleTemplateChange = (value: string) => {
+    const template = templates.find((option) => option.id === value);
+    if (!template) {
+      return;
+    }
+    const next = applyServiceTemplate(formData, template, dependencyOptions);
+    setTemplateId(value);
+    setFormData(next.data);
+    setNamePatterns(next.patterns);
+    setInterfaceErrors({});
+  };
+
+  const handleCustomFieldChange = (
+    key: string,
+    value: CustomFieldValue | null
+  ) => {
+    setFormData((prev) => {
+      const others = Object.fromEntries(
+        Object.entries(prev.customFields ?? {}).filter(
+          ([otherKey]) => otherKey !== key
+        )
+      );
+      return {
+        ...prev,
+        customFields: value === null ? others : { ...others, [key]: value },
+      };
+    });
+  };
+
   const handleLanguageSelect = (value: string) => {
     if (formData.languages.includes(value)) {
       setFormData((prev) => ({
@@ -299,7 +707,7 @@ export function CreateServiceDrawer({
 
   const handleAddInterface = () => {
     const newInterface: ServiceInterface = {
-      id: `interface-${Date.now()}`,
+      id: id(),
       domain: "",
       env: "",
       branch: "",
@@ -344,11 +752,15 @@ export function CreateServiceDrawer({
 
     const updatedIface = { ...iface, [field]: value };
     const otherInterfaces = formData.interfaces.filter((i) => i.id !== id);
-    const newErrors = validateServiceInterface(updatedIface, otherInterfaces);
+    const newErrors = validateServiceInterface(
+      updatedIface,
+      otherInterfaces,
+      interfaceValidationContext
+    );
 
     setInterfaceErrors((prev) => ({
       ...prev,
-      [id]: { ...prev[id], ...newErrors },
+      [id]: newErrors,
     }));
   };
 
@@ -371,10 +783,18 @@ export function CreateServiceDrawer({
   };
 
   const handleDependencyChange = (id: string, value: string) => {
+    // Link to a service as soon as the name matches one
+    const target = resolveDependencyTarget(value, dependencyOptions);
     setFormData((prev) => ({
       ...prev,
       dependencies: prev.dependencies.map((dep) =>
-        dep.id === id ? { ...dep, name: value } : dep
+        dep.id === id
+          ? {
+              ...dep,
+              name: target?.name ?? value,
+              serviceId: target?.id ?? null,
+            }
+          : dep
       ),
     }));
   };
@@ -388,25 +808,29 @@ export function CreateServiceDrawer({
 
     try {
       // Filter out empty dependencies and deduplicate
-      const validDependencies = Array.from(
-        new Set(
-          formData.dependencies
-            .map((d) => d.name.trim())
-            .filter((name) => name.length > 0)
-        )
-      );
+      const validDependencies = new Map<string, ServiceDependency>();
+      for (const dep of formData.dependencies) {
+        const name = dep.name.trim();
+        if (name.length > 0 && !validDependencies.has(name.toLowerCase())) {
+          validDependencies.set(name.toLowerCase(), {
+            id: `dep-${name}`,
+            name,
+            serviceId: dep.serviceId ?? null,
+          });
+        }
+      }
 
       await onSubmit({
         ...formData,
         name: formData.name.trim(),
         description: formData.description.trim(),
         languages: formData.languages,
-        owner: formData.owner.trim(),
+        owner: ownerTeam?.name ?? formData.owner.trim(),
+        teamId: ownerTeam?.id ?? id(),
+        createTeam: !ownerTeam,
         repository: formData.repository.trim(),
-        dependencies: validDependencies.map((name) => ({
-          id: `dep-${name}`,
-          name,
-        })),
+        dependencies: Array.from(validDependencies.values()),
+        ...normalizeLifecycleFields(lifecycleFields),
       });
 
       onOpenChange(false);
@@ -436,6 +860,13 @@ export function CreateServiceDrawer({
         </SheetHeader>
 
         <div className="flex-1 overflow-y-auto">
+          <ServiceTemplatePicker
+            hidden={isEditing}
+            onChange={handleTemplateChange}
+            templates={templates}
+            value={templateId}
+          />
+          <DuplicateWarnings className="mb-3" matches={duplicateMatches} />
           <Accordion
             className="w-full -space-y-px"
             collapsible
@@ -574,17 +1005,38 @@ export function CreateServiceDrawer({
 
                   <div className="space-y-2">
                     <Label htmlFor="service-owner">
-                      Owner <span className="text-destructive">*</span>
+                      Team <span className="text-destructive">*</span>
                     </Label>
-                    <Input
-                      aria-invalid={errors.owner ? "true" : "false"}
-                      id="service-owner"
-                      onChange={(e) =>
-                        handleFieldChange("owner", e.target.value)
-                      }
-                      placeholder="team-name"
-                      value={formData.owner}
-                    />
+                    <datalist id="team-options">
+                      {availableTeams.map((team) => (
+                        <option key={team.id} value={team.name} />
+                      ))}
+                    </datalist>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        aria-invalid={errors.owner ? "true" : "false"}
+                        id="service-owner"
+                        list="team-options"
+                        onChange={(e) =>
+                          handleFieldChange("owner", e.target.value)
+                        }
+                        placeholder="payments"
+                        value={formData.owner}
+                      />
+                      {formData.owner.trim() && (
+                        <Badge
+                          className="shrink-0"
+                          title={
+                            ownerTeam
+                              ? `Owned by the ${ownerTeam.name} team`
+                              : "No matching team; a new team is created on save"
+                          }
+                          variant={ownerTeam ? "secondary" : "outline"}
+                        >
+                          {ownerTeam ? "Team" : "New team"}
+                        </Badge>
+                      )}
+                    </div>
                     {errors.owner && (
                       <p className="text-destructive text-xs">{errors.owner}</p>
                     )}
@@ -610,6 +1062,14 @@ export function CreateServiceDrawer({
                       </p>
                     )}
                   </div>
+
+                  <ServiceTagsInput
+                    availableTags={availableTags}
+                    onChange={(tags) =>
+                      setFormData((prev) => ({ ...prev, tags }))
+                    }
+                    value={formData.tags}
+                  />
                 </div>
               </AccordionContent>
             </AccordionItem>
@@ -719,12 +1179,15 @@ export function CreateServiceDrawer({
                                     <SelectValue placeholder="Select environment" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    {ENVIRONMENT_OPTIONS.map((opt) => (
+                                    {environmentOptions.map((opt) => (
                                       <SelectItem
                                         key={opt.value}
                                         value={opt.value}
                                       >
                                         {opt.label}
+                                        <span className="text-muted-foreground text-xs">
+                                          {opt.hint}
+                                        </span>
                                       </SelectItem>
                                     ))}
                                   </SelectContent>
@@ -775,12 +1238,15 @@ export function CreateServiceDrawer({
                                     <SelectValue placeholder="Select runtime type" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    {RUNTIME_TYPE_OPTIONS.map((opt) => (
+                                    {runtimeOptions.map((opt) => (
                                       <SelectItem
                                         key={opt.value}
                                         value={opt.value}
                                       >
                                         {opt.label}
+                                        <span className="text-muted-foreground text-xs">
+                                          {opt.hint}
+                                        </span>
                                       </SelectItem>
                                     ))}
                                   </SelectContent>
@@ -810,7 +1276,10 @@ export function CreateServiceDrawer({
                                         e.target.value
                                       )
                                     }
-                                    placeholder="runtime-identifier"
+                                    placeholder={getRuntimeIdHint(
+                                      runtimeCatalog,
+                                      iface.runtimeType
+                                    )}
                                     value={iface.runtimeId}
                                   />
                                   {interfaceErrors[iface.id]?.runtimeId && (
@@ -848,23 +1317,54 @@ export function CreateServiceDrawer({
                       </p>
                     ) : (
                       <div className="space-y-2">
+                        <datalist id="dependency-service-options">
+                          {dependencyOptions.map((service) => (
+                            <option key={service.id} value={service.name} />
+                          ))}
+                        </datalist>
                         {formData.dependencies.map((dep) => (
-                          <div className="flex items-center gap-2" key={dep.id}>
-                            <Input
-                              onChange={(e) =>
-                                handleDependencyChange(dep.id, e.target.value)
-                              }
-                              placeholder="dependency-name"
-                              value={dep.name}
-                            />
-                            <Button
-                              onClick={() => handleRemoveDependency(dep.id)}
-                              size="icon"
-                              type="button"
-                              variant="ghost"
-                            >
-                              <X className="size-4" />
-                            </Button>
+                          <div className="space-y-1" key={dep.id}>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                aria-invalid={
+                                  dependencyErrors[dep.id] ? "true" : "false"
+                                }
+                                list="dependency-service-options"
+                                onChange={(e) =>
+                                  handleDependencyChange(dep.id, e.target.value)
+                                }
+                                placeholder="service-name"
+                                value={dep.name}
+                              />
+                              {dep.name.trim() && (
+                                <Badge
+                                  className="shrink-0"
+                                  title={
+                                    dep.serviceId
+                                      ? "Linked to a service in this organization"
+                                      : "No matching service; saved as an external dependency"
+                                  }
+                                  variant={
+                                    dep.serviceId ? "secondary" : "outline"
+                                  }
+                                >
+                                  {dep.serviceId ? "Linked" : "External"}
+                                </Badge>
+                              )}
+                              <Button
+                                onClick={() => handleRemoveDependency(dep.id)}
+                                size="icon"
+                                type="button"
+                                variant="ghost"
+                              >
+                                <X className="size-4" />
+                              </Button>
+                            </div>
+                            {dependencyErrors[dep.id] && (
+                              <p className="text-destructive text-xs">
+                                {dependencyErrors[dep.id]}
+                              </p>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -873,6 +1373,98 @@ export function CreateServiceDrawer({
                 </div>
               </AccordionContent>
             </AccordionItem>
+
+            {/* Tech Stack Section */}
+            <AccordionItem
+              className="overflow-hidden border bg-background px-4 first:rounded-t-lg last:rounded-b-lg last:border-b"
+              value="tech-stack"
+            >
+              <AccordionTrigger className="group">
+                <div className="flex items-center gap-2">
+                  <Layers className="size-4 stroke-2 text-muted-foreground" />
+                  <span>Tech stack</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <TechStackInput
+                  errors={techStackErrors}
+                  onChange={(techStack) =>
+                    setFormData((prev) => ({ ...prev, techStack }))
+                  }
+                  value={formData.techStack}
+                />
+              </AccordionContent>
+            </AccordionItem>
+
+            {/* Links Section */}
+            <AccordionItem
+              className="overflow-hidden border bg-background px-4 first:rounded-t-lg last:rounded-b-lg last:border-b"
+              value="links"
+            >
+              <AccordionTrigger className="group">
+                <div className="flex items-center gap-2">
+                  <Link2 className="size-4 stroke-2 text-muted-foreground" />
+                  <span>Operational links</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ServiceLinksInput
+                  environmentOptions={linkEnvironmentOptions}
+                  errors={linkErrors}
+                  onChange={(links) =>
+                    setFormData((prev) => ({ ...prev, links }))
+                  }
+                  value={formData.links}
+                />
+              </AccordionContent>
+            </AccordionItem>
+
+            {/* Lifecycle Section */}
+            <AccordionItem
+              className="overflow-hidden border bg-background px-4 first:rounded-t-lg last:rounded-b-lg last:border-b"
+              value="lifecycle"
+            >
+              <AccordionTrigger className="group">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="size-4 stroke-2 text-muted-foreground" />
+                  <span>Lifecycle</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <LifecycleFieldsInput
+                  errors={lifecycleErrors}
+                  onChange={(value) =>
+                    setFormData((prev) => ({ ...prev, ...value }))
+                  }
+                  previousStatus={previousLifecycle}
+                  replacementOptions={dependencyOptions}
+                  value={lifecycleFields}
+                />
+              </AccordionContent>
+            </AccordionItem>
+
+            {/* Custom Fields Section */}
+            {customFields.length > 0 && (
+              <AccordionItem
+                className="overflow-hidden border bg-background px-4 first:rounded-t-lg last:rounded-b-lg last:border-b"
+                value="custom-fields"
+              >
+                <AccordionTrigger className="group">
+                  <div className="flex items-center gap-2">
+                    <ListPlus className="size-4 stroke-2 text-muted-foreground" />
+                    <span>Custom fields</span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <CustomFieldInputList
+                    errors={customFieldErrors}
+                    fields={customFields}
+                    onChange={handleCustomFieldChange}
+                    values={formData.customFields}
+                  />
+                </AccordionContent>
+              </AccordionItem>
+            )}
           </Accordion>
         </div>
 
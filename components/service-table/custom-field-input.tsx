@@ -0,0 +1,196 @@
+/**
+ * Custom Field Input
+ *
+ * Input matching the type of a custom field, used for service values in the
+ * service form and for defaults in the custom field dialog.
+ */
+
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "./custom-fields";
+
+/** Select value that clears a single-choice field */
+const NO_CHOICE = "__none__";
+
+interface CustomFieldInputProps {
+  readonly id: string;
+  readonly field: Pick<CustomFieldDefinition, "label" | "type" | "options">;
+  readonly value: CustomFieldValue | null | undefined;
+  /** Receives null when the value is cleared */
+  readonly onChange: (value: CustomFieldValue | null) => void;
+  readonly invalid?: boolean;
+}
+
+/**
+ * Options of a multi-enum value, ignoring values of other types
+ */
+function toSelectedOptions(
+  value: CustomFieldValue | null | undefined
+): readonly string[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Checkbox list of the options of a multiple choice field
+ */
+function MultiChoiceInput({
+  id,
+  field,
+  value,
+  onChange,
+}: CustomFieldInputProps) {
+  const selected = toSelectedOptions(value);
+
+  const handleToggle = (option: string, checked: boolean) => {
+    const next = checked
+      ? field.options.filter(
+          (candidate) => candidate === option || selected.includes(candidate)
+        )
+      : selected.filter((candidate) => candidate !== option);
+    onChange(next.length > 0 ? next : null);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2" id={id}>
+      {field.options.map((option) => (
+        <div className="flex items-center gap-2" key={option}>
+          <Checkbox
+            checked={selected.includes(option)}
+            id={`${id}-${option}`}
+            onCheckedChange={(checked) =>
+              handleToggle(option, checked === true)
+            }
+          />
+          <Label className="font-normal" htmlFor={`${id}-${option}`}>
+            {option}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Input for one custom field value
+ */
+export function CustomFieldInput(props: CustomFieldInputProps) {
+  const { id, field, value, onChange, invalid = false } = props;
+  const ariaInvalid = invalid ? "true" : "false";
+
+  switch (field.type) {
+    case "boolean":
+      return (
+        <Switch
+          checked={value === true}
+          id={id}
+          onCheckedChange={(checked) => onChange(checked)}
+        />
+      );
+    case "enum":
+      return (
+        <Select
+          onValueChange={(next) => onChange(next === NO_CHOICE ? null : next)}
+          value={typeof value === "string" && value ? value : NO_CHOICE}
+        >
+          <SelectTrigger aria-invalid={ariaInvalid} id={id}>
+            <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CHOICE}>
+              <span className="text-muted-foreground">None</span>
+            </SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multi-enum":
+      return <MultiChoiceInput {...props} />;
+    case "number":
+      return (
+        <Input
+          aria-invalid={ariaInvalid}
+          id={id}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+          type="number"
+          value={typeof value === "number" ? String(value) : ""}
+        />
+      );
+    default:
+      return (
+        <Input
+          aria-invalid={ariaInvalid}
+          id={id}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : e.target.value)
+          }
+          placeholder={field.type === "url" ? "https://" : undefined}
+          type={field.type === "text" ? "text" : field.type}
+          value={typeof value === "string" ? value : ""}
+        />
+      );
+  }
+}
+
+interface CustomFieldInputListProps {
+  readonly fields: readonly CustomFieldDefinition[];
+  readonly values: CustomFieldValues | undefined;
+  /** Error messages keyed by field key */
+  readonly errors: Readonly<Record<string, string>>;
+  readonly onChange: (key: string, value: CustomFieldValue | null) => void;
+}
+
+/**
+ * Labelled inputs for the custom fields of a service, with their errors
+ */
+export function CustomFieldInputList({
+  fields,
+  values,
+  errors,
+  onChange,
+}: CustomFieldInputListProps) {
+  return (
+    <div className="flex flex-col gap-4 pb-2">
+      {fields.map((field) => (
+        <div className="space-y-2" key={field.key}>
+          <Label htmlFor={`custom-field-${field.key}`}>
+            {field.label}
+            {field.required && field.type !== "boolean" && (
+              <span className="text-destructive"> *</span>
+            )}
+          </Label>
+          <CustomFieldInput
+            field={field}
+            id={`custom-field-${field.key}`}
+            invalid={Boolean(errors[field.key])}
+            onChange={(value) => onChange(field.key, value)}
+            value={values?.[field.key]}
+          />
+          {errors[field.key] && (
+            <p className="text-destructive text-xs">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
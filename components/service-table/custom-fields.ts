@@ -0,0 +1,284 @@
+/**
+ * Custom Fields
+ *
+ * Organizations define the extra facts they track on services (cost center,
+ * data classification, SLA tier...): a key, a label, a type, whether it is
+ * required and a default. Values are stored on the service as a JSON object
+ * keyed by field key; empty values are left out.
+ *
+ * Like environments and runtimes, stored values are never rewritten: values
+ * of a deleted field stay on the service and come back if it is recreated.
+ */
+
+import type { db } from "@/lib/db";
+
+/**
+ * Kind of value a custom field holds
+ */
+export type CustomFieldType =
+  | "text"
+  | "number"
+  | "enum"
+  | "multi-enum"
+  | "boolean"
+  | "date"
+  | "url";
+
+/**
+ * Custom field types with their display names, in picker order
+ */
+export const CUSTOM_FIELD_TYPES: ReadonlyArray<{
+  readonly value: CustomFieldType;
+  readonly label: string;
+}> = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "enum", label: "Single choice" },
+  { value: "multi-enum", label: "Multiple choice" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "date", label: "Date" },
+  { value: "url", label: "URL" },
+];
+
+/**
+ * Stored value of a custom field. Dates are "YYYY-MM-DD" strings and
+ * multi-enum values are arrays of options.
+ */
+export type CustomFieldValue = string | number | boolean | readonly string[];
+
+/**
+ * Custom field values of a service, by field key
+ */
+export type CustomFieldValues = Readonly<Record<string, CustomFieldValue>>;
+
+/**
+ * Custom field defined by an organization
+ */
+export interface CustomFieldDefinition {
+  /** Key of the value in the service's custom fields */
+  readonly key: string;
+  readonly label: string;
+  readonly type: CustomFieldType;
+  readonly required: boolean;
+  /** Choices of enum and multi-enum fields */
+  readonly options: readonly string[];
+  /** Value prefilled on new services; null for none */
+  readonly defaultValue: CustomFieldValue | null;
+  /** Position in the form, table and exports */
+  readonly order: number;
+}
+
+/**
+ * Stored custom field of an organization
+ */
+export interface StoredCustomField extends CustomFieldDefinition {
+  readonly id: string;
+}
+
+/**
+ * Whether a field picks its values from its options
+ */
+export function isChoiceCustomField(type: CustomFieldType): boolean {
+  return type === "enum" || type === "multi-enum";
+}
+
+/**
+ * Display name of a custom field type
+ */
+export function getCustomFieldTypeLabel(type: CustomFieldType): string {
+  return (
+    CUSTOM_FIELD_TYPES.find((option) => option.value === type)?.label ?? type
+  );
+}
+
+/**
+ * Orders fields by their position, then by label
+ */
+export function sortCustomFields<T extends CustomFieldDefinition>(
+  definitions: readonly T[]
+): T[] {
+  return [...definitions].sort(
+    (a, b) => a.order - b.order || a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Whether a value counts as not filled in. `false` is an answer, not a blank.
+ */
+export function isEmptyCustomFieldValue(
+  value: CustomFieldValue | null | undefined
+): boolean {
+  if (value === null || value === undefined) {
+    return true;
+  }
+  if (typeof value === "string") {
+    return value.trim() === "";
+  }
+  if (typeof value === "number") {
+    return Number.isNaN(value);
+  }
+  if (typeof value === "boolean") {
+    return false;
+  }
+  return value.length === 0;
+}
+
+/**
+ * Values prefilled on a new service from the fields' defaults
+ */
+export function getCustomFieldDefaults(
+  definitions: readonly CustomFieldDefinition[]
+): CustomFieldValues {
+  const values: Record<string, CustomFieldValue> = {};
+  for (const definition of definitions) {
+    if (!isEmptyCustomFieldValue(definition.defaultValue)) {
+      values[definition.key] = definition.defaultValue as CustomFieldValue;
+    }
+  }
+  return values;
+}
+
+/**
+ * Trims text values and drops empty ones, keeping values of fields the
+ * organization no longer defines. Keys are sorted so values serialise stably.
+ */
+export function normalizeCustomFieldValues(
+  values: CustomFieldValues | null | undefined
+): CustomFieldValues {
+  const normalized: Record<string, CustomFieldValue> = {};
+  const entries = Object.entries(values ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [key, value] of entries) {
+    const trimmed = typeof value === "string" ? value.trim() : value;
+    if (!isEmptyCustomFieldValue(trimmed)) {
+      normalized[key] = trimmed;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Formats a value for cells, chips, diffs and exports
+ */
+export function formatCustomFieldValue(
+  value: CustomFieldValue | null | undefined
+): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return value.join(", ");
+}
+
+/**
+ * Filter values a stored value matches: each option of a multi-enum, and
+ * "true" / "false" for booleans
+ */
+export function getCustomFieldFilterTokens(
+  value: CustomFieldValue | null | undefined
+): string[] {
+  if (isEmptyCustomFieldValue(value)) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+  return [String(value)];
+}
+
+/**
+ * Parses comma-separated options, trimmed and deduplicated
+ */
+export function parseCustomFieldOptions(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(",")
+        .map((option) => option.trim())
+        .filter((option) => option.length > 0)
+    )
+  );
+}
+
+/**
+ * Builds a field key from a label: "Cost center" → "cost_center"
+ */
+export function slugifyCustomFieldKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Counts services with a value per field key
+ */
+export function countCustomFieldValues(
+  services: ReadonlyArray<{
+    readonly customFields?: CustomFieldValues | null;
+  }>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const service of services) {
+    for (const [key, value] of Object.entries(service.customFields ?? {})) {
+      if (!isEmptyCustomFieldValue(value)) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Creates a custom field of an organization
+ */
+export function createCustomFieldTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  fieldId: string,
+  definition: CustomFieldDefinition
+) {
+  return dbInstance.tx.customFields[fieldId]
+    .create({
+      key: definition.key.trim(),
+      label: definition.label.trim(),
+      type: definition.type,
+      required: definition.required,
+      options: [...definition.options],
+      defaultValue: definition.defaultValue,
+      order: definition.order,
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Updates a custom field. The key and type describe the values services
+ * already store, so they can't be changed.
+ */
+export function createUpdateCustomFieldTransaction(
+  dbInstance: typeof db,
+  fieldId: string,
+  definition: Omit<CustomFieldDefinition, "key" | "type">
+) {
+  return dbInstance.tx.customFields[fieldId].update({
+    label: definition.label.trim(),
+    required: definition.required,
+    options: [...definition.options],
+    defaultValue: definition.defaultValue,
+    order: definition.order,
+    updatedAt: new Date(),
+  });
+}
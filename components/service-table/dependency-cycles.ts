@@ -0,0 +1,210 @@
+/**
+ * Dependency Cycles
+ *
+ * Graph algorithms behind dependency validation: path search (would a new
+ * dependency close a cycle?) and detection of the cycles already present in
+ * an organization's dependency graph.
+ *
+ * Graphs are plain adjacency maps so the same code works on service ids
+ * (stored services) and on lower-cased service names (YAML, imports).
+ */
+
+import type { DependencyGraphSource } from "./dependency-graph";
+import { resolveDependencyTargetId } from "./dependency-links";
+
+/**
+ * Directed dependency graph: key depends on each listed key
+ */
+export type DependencyAdjacency = ReadonlyMap<string, readonly string[]>;
+
+/**
+ * Builds the adjacency of stored services by id. Linked dependencies use
+ * their target; legacy free-text ones are matched by name; external ones are
+ * ignored since they can't close a cycle.
+ */
+export function buildServiceDependencyAdjacency(
+  sources: readonly DependencyGraphSource[]
+): Map<string, string[]> {
+  const options = sources.map(({ id, name }) => ({ id, name }));
+  const adjacency = new Map<string, string[]>();
+
+  for (const source of sources) {
+    const targets = new Set<string>();
+    for (const dependency of source.dependencies ?? []) {
+      const targetId = resolveDependencyTargetId(dependency, options);
+      if (targetId) {
+        targets.add(targetId);
+      }
+    }
+    adjacency.set(source.id, Array.from(targets));
+  }
+
+  return adjacency;
+}
+
+/**
+ * Walks the breadth-first predecessors back from a node to the search origin
+ */
+function tracePath(
+  previous: ReadonlyMap<string, string | null>,
+  key: string
+): string[] {
+  const path: string[] = [];
+  for (let step: string | null = key; step !== null; ) {
+    path.unshift(step);
+    step = previous.get(step) ?? null;
+  }
+  return path;
+}
+
+/**
+ * Finds a shortest dependency path from one node to another.
+ *
+ * @returns Keys from `from` to `to` (both included), or null when unreachable
+ */
+export function findDependencyPath(
+  adjacency: DependencyAdjacency,
+  from: string,
+  to: string,
+  allowed?: ReadonlySet<string>
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  let frontier = [from];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(to)) {
+      return tracePath(previous, to);
+    }
+    const next: string[] = [];
+    for (const key of frontier) {
+      const neighbours = (adjacency.get(key) ?? []).filter(
+        (neighbour) =>
+          !previous.has(neighbour) && (!allowed || allowed.has(neighbour))
+      );
+      for (const neighbour of neighbours) {
+        previous.set(neighbour, key);
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+/**
+ * Strongly connected components (Tarjan)
+ */
+function findStronglyConnectedComponents(
+  adjacency: DependencyAdjacency
+): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let index = 0;
+
+  const popComponent = (root: string): void => {
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop();
+      if (member !== undefined) {
+        onStack.delete(member);
+        component.push(member);
+      }
+    } while (member !== undefined && member !== root);
+    components.push(component);
+  };
+
+  const lowerLink = (key: string, value: number | undefined): void => {
+    lowLinks.set(key, Math.min(lowLinks.get(key) ?? 0, value ?? 0));
+  };
+
+  const connect = (key: string): void => {
+    indices.set(key, index);
+    lowLinks.set(key, index);
+    index += 1;
+    stack.push(key);
+    onStack.add(key);
+
+    for (const neighbour of adjacency.get(key) ?? []) {
+      if (!indices.has(neighbour)) {
+        connect(neighbour);
+        lowerLink(key, lowLinks.get(neighbour));
+      } else if (onStack.has(neighbour)) {
+        lowerLink(key, indices.get(neighbour));
+      }
+    }
+
+    if (lowLinks.get(key) === indices.get(key)) {
+      popComponent(key);
+    }
+  };
+
+  for (const key of adjacency.keys()) {
+    if (!indices.has(key)) {
+      connect(key);
+    }
+  }
+  return components;
+}
+
+/**
+ * Representative cycle of a strongly connected component, starting at its
+ * first key in sort order. Null for a single node without a self-loop.
+ */
+function findComponentCycle(
+  adjacency: DependencyAdjacency,
+  component: readonly string[]
+): string[] | null {
+  const [start] = [...component].sort();
+  if (start === undefined) {
+    return null;
+  }
+  const successors = adjacency.get(start) ?? [];
+  if (component.length === 1) {
+    return successors.includes(start) ? [start] : null;
+  }
+
+  // Shortest way back to the start through the component
+  const members = new Set(component);
+  let shortest: string[] | null = null;
+  for (const successor of successors.filter((key) => members.has(key))) {
+    const path = findDependencyPath(adjacency, successor, start, members);
+    if (path && (!shortest || path.length < shortest.length)) {
+      shortest = path;
+    }
+  }
+  return shortest ? [start, ...shortest.slice(0, -1)] : null;
+}
+
+/**
+ * Lists the cycles of a dependency graph: one representative cycle per group
+ * of mutually dependent nodes.
+ *
+ * @returns Cycles as key lists; `[a, b]` means a → b → a
+ */
+export function findDependencyCycles(
+  adjacency: DependencyAdjacency
+): string[][] {
+  const cycles: string[][] = [];
+  for (const component of findStronglyConnectedComponents(adjacency)) {
+    const cycle = findComponentCycle(adjacency, component);
+    if (cycle) {
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles.sort(
+    (a, b) => a.length - b.length || (a[0] ?? "").localeCompare(b[0] ?? "")
+  );
+}
+
+/**
+ * Formats a cycle for display, closing it on its first node: "a → b → a"
+ */
+export function formatDependencyCycle(names: readonly string[]): string {
+  return [...names, names[0]].join(" → ");
+}
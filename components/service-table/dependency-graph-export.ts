@@ -0,0 +1,170 @@
+/**
+ * Dependency Graph Export
+ *
+ * Writes the dependency graph as a Mermaid flowchart, Graphviz DOT or a
+ * standalone SVG, keeping the node colours of the graph view, and downloads
+ * the file.
+ */
+
+import {
+  createDependencyGraphPalette,
+  type DependencyGraph,
+  type DependencyGraphColorBy,
+  type DependencyGraphLayout,
+  type DependencyGraphPalette,
+  GRAPH_NEUTRAL_COLOR,
+  GRAPH_NODE_HEIGHT,
+  GRAPH_NODE_WIDTH,
+  layoutDependencyGraph,
+  truncateGraphLabel,
+} from "./dependency-graph";
+import { downloadFile } from "./export";
+import type { RuntimeCatalog } from "./runtimes";
+import { escapeXml } from "./xlsx";
+
+/**
+ * Formats the dependency graph can be exported to
+ */
+export type DependencyGraphExportFormat = "mermaid" | "dot" | "svg";
+
+const EXPORT_FILES: Readonly<
+  Record<DependencyGraphExportFormat, { extension: string; type: string }>
+> = {
+  mermaid: { extension: "mmd", type: "text/plain" },
+  dot: { extension: "dot", type: "text/vnd.graphviz" },
+  svg: { extension: "svg", type: "image/svg+xml" },
+};
+
+const QUOTE_PATTERN = /"/g;
+const BACKSLASH_PATTERN = /\\/g;
+
+/**
+ * Short, format-safe node identifiers (n0, n1, ...) in node order
+ */
+function createNodeKeys(graph: DependencyGraph): Map<string, string> {
+  return new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+}
+
+/**
+ * Renders the graph as a Mermaid flowchart, keeping node colours
+ */
+export function dependencyGraphToMermaid(
+  graph: DependencyGraph,
+  palette: DependencyGraphPalette
+): string {
+  const keys = createNodeKeys(graph);
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const label = node.name.replace(QUOTE_PATTERN, "#quot;");
+    const key = keys.get(node.id);
+    lines.push(
+      node.external ? `  ${key}(["${label}"])` : `  ${key}["${label}"]`
+    );
+  }
+  for (const { source, target } of graph.edges) {
+    lines.push(`  ${keys.get(source)} --> ${keys.get(target)}`);
+  }
+  for (const node of graph.nodes) {
+    const color = palette.nodeColors.get(node.id) ?? GRAPH_NEUTRAL_COLOR;
+    lines.push(`  style ${keys.get(node.id)} fill:${color},color:#ffffff`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Escapes a value for a quoted Graphviz string
+ */
+function escapeDot(value: string): string {
+  return value.replace(BACKSLASH_PATTERN, "\\\\").replace(QUOTE_PATTERN, '\\"');
+}
+
+/**
+ * Renders the graph in Graphviz DOT, keeping node colours
+ */
+export function dependencyGraphToDot(
+  graph: DependencyGraph,
+  palette: DependencyGraphPalette
+): string {
+  const keys = createNodeKeys(graph);
+  const lines = [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontcolor="#ffffff"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const color = palette.nodeColors.get(node.id) ?? GRAPH_NEUTRAL_COLOR;
+    const shape = node.external ? ', style="rounded,filled,dashed"' : "";
+    lines.push(
+      `  ${keys.get(node.id)} [label="${escapeDot(node.name)}", fillcolor="${color}"${shape}];`
+    );
+  }
+  for (const { source, target } of graph.edges) {
+    lines.push(`  ${keys.get(source)} -> ${keys.get(target)};`);
+  }
+  lines.push("}");
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Renders a laid out graph as a standalone SVG document
+ */
+export function dependencyGraphToSvg(
+  layout: DependencyGraphLayout,
+  palette: DependencyGraphPalette
+): string {
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Helvetica, Arial, sans-serif" font-size="12">`,
+    "  <defs>",
+    '    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">',
+    '      <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8"/>',
+    "    </marker>",
+    "  </defs>",
+    `  <rect width="100%" height="100%" fill="#ffffff"/>`,
+  ];
+
+  for (const { path } of layout.edges) {
+    parts.push(
+      `  <path d="${path}" fill="none" stroke="#94a3b8" stroke-width="1.5" marker-end="url(#arrow)"/>`
+    );
+  }
+  for (const { node, x, y } of layout.nodes) {
+    const color = palette.nodeColors.get(node.id) ?? GRAPH_NEUTRAL_COLOR;
+    const dash = node.external ? ' stroke-dasharray="4 3"' : "";
+    parts.push(
+      `  <g><title>${escapeXml(node.name)}</title>`,
+      `    <rect x="${x}" y="${y}" width="${GRAPH_NODE_WIDTH}" height="${GRAPH_NODE_HEIGHT}" rx="8" fill="${color}" stroke="${color}"${dash}/>`,
+      `    <text x="${x + GRAPH_NODE_WIDTH / 2}" y="${y + GRAPH_NODE_HEIGHT / 2}" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${escapeXml(truncateGraphLabel(node.name))}</text>`,
+      "  </g>"
+    );
+  }
+  parts.push("</svg>");
+
+  return `${parts.join("\n")}\n`;
+}
+
+/**
+ * Exports the dependency graph in the given format and triggers a download
+ */
+export function exportDependencyGraph(
+  graph: DependencyGraph,
+  format: DependencyGraphExportFormat,
+  colorBy: DependencyGraphColorBy,
+  runtimeCatalog: RuntimeCatalog
+): void {
+  const palette = createDependencyGraphPalette(graph, colorBy, runtimeCatalog);
+  let content: string;
+  if (format === "mermaid") {
+    content = dependencyGraphToMermaid(graph, palette);
+  } else if (format === "dot") {
+    content = dependencyGraphToDot(graph, palette);
+  } else {
+    content = dependencyGraphToSvg(layoutDependencyGraph(graph), palette);
+  }
+
+  const { extension, type } = EXPORT_FILES[format];
+  downloadFile(content, `dependency-graph.${extension}`, type);
+}
@@ -0,0 +1,474 @@
+/**
+ * Dependency Graph
+ *
+ * Builds the organization's dependency graph: services are nodes and each
+ * declared dependency is a directed edge from the dependent service to the
+ * service it depends on. Dependencies marked external (or matching no
+ * service) become external nodes.
+ *
+ * Also provides neighbourhood focus, node colouring by owner or runtime and a
+ * layered left-to-right layout shared by the graph view and the SVG export.
+ */
+
+import {
+  resolveDependencyTargetId,
+  type StoredDependency,
+} from "./dependency-links";
+import {
+  DEFAULT_RUNTIME_CATALOG,
+  getRuntimeLabel,
+  type RuntimeCatalog,
+} from "./runtimes";
+import type { GroupedService } from "./types";
+
+/**
+ * Attribute used to colour service nodes
+ */
+export type DependencyGraphColorBy = "owner" | "runtime";
+
+/**
+ * Service or external dependency in the graph
+ */
+export interface DependencyGraphNode {
+  readonly id: string;
+  readonly name: string;
+  readonly owner: string | null;
+  readonly runtime: string | null;
+  readonly external: boolean;
+}
+
+/**
+ * Edge from a service to one of its dependencies
+ */
+export interface DependencyGraphEdge {
+  readonly source: string;
+  readonly target: string;
+}
+
+export interface DependencyGraph {
+  readonly nodes: readonly DependencyGraphNode[];
+  readonly edges: readonly DependencyGraphEdge[];
+}
+
+/**
+ * Service with its stored dependencies, as loaded by the services query
+ */
+export interface DependencyGraphSource {
+  readonly id: string;
+  readonly name: string;
+  readonly dependencies?: readonly StoredDependency[];
+}
+
+/**
+ * Legend entry for one colour
+ */
+export interface DependencyGraphLegendItem {
+  readonly key: string;
+  readonly label: string;
+  readonly color: string;
+}
+
+export interface DependencyGraphPalette {
+  readonly nodeColors: ReadonlyMap<string, string>;
+  readonly legend: readonly DependencyGraphLegendItem[];
+}
+
+export interface DependencyGraphLayoutNode {
+  readonly node: DependencyGraphNode;
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface DependencyGraphLayoutEdge {
+  readonly edge: DependencyGraphEdge;
+  /** SVG path data from the source's right side to the target's left side */
+  readonly path: string;
+}
+
+export interface DependencyGraphLayout {
+  readonly nodes: readonly DependencyGraphLayoutNode[];
+  readonly edges: readonly DependencyGraphLayoutEdge[];
+  readonly width: number;
+  readonly height: number;
+}
+
+/**
+ * Layout dimensions (pixels)
+ */
+export const GRAPH_NODE_WIDTH = 180;
+export const GRAPH_NODE_HEIGHT = 40;
+const GRAPH_COLUMN_GAP = 96;
+const GRAPH_ROW_GAP = 16;
+const GRAPH_PADDING = 24;
+
+/**
+ * Characters of a node name that fit in its box
+ */
+const GRAPH_MAX_LABEL_LENGTH = 24;
+
+/**
+ * Colours assigned to owners/runtimes in order of appearance (sorted by key)
+ */
+const GRAPH_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#9333ea",
+  "#dc2626",
+  "#0891b2",
+  "#c026d3",
+  "#65a30d",
+  "#ea580c",
+  "#4f46e5",
+] as const;
+
+/**
+ * Colour for external dependencies and services without the attribute
+ */
+export const GRAPH_NEUTRAL_COLOR = "#64748b";
+
+/**
+ * Runtime key of services deployed on several runtime types
+ */
+const MIXED_RUNTIME = "mixed";
+
+/**
+ * Truncates a node name to fit its box
+ */
+export function truncateGraphLabel(name: string): string {
+  return name.length > GRAPH_MAX_LABEL_LENGTH
+    ? `${name.slice(0, GRAPH_MAX_LABEL_LENGTH - 1)}…`
+    : name;
+}
+
+/**
+ * Node id of an external dependency, shared by all services declaring it
+ */
+function getExternalNodeId(name: string): string {
+  return `external:${name.trim().toLowerCase()}`;
+}
+
+/**
+ * Adds the external node for a dependency name (once) and returns its id
+ */
+function addExternalNode(
+  nodes: Map<string, DependencyGraphNode>,
+  name: string
+): string {
+  const nodeId = getExternalNodeId(name);
+  if (!nodes.has(nodeId)) {
+    nodes.set(nodeId, {
+      id: nodeId,
+      name: name.trim(),
+      owner: null,
+      runtime: null,
+      external: true,
+    });
+  }
+  return nodeId;
+}
+
+/**
+ * Builds the graph of the given services. Edges to services that are not part
+ * of `services` (e.g. filtered out) are dropped; external dependencies are kept.
+ *
+ * @param services - Services to include as nodes
+ * @param sources - All services of the organization with their dependencies
+ */
+export function buildDependencyGraph(
+  services: readonly GroupedService[],
+  sources: readonly DependencyGraphSource[]
+): DependencyGraph {
+  const nodes = new Map<string, DependencyGraphNode>();
+  const edges = new Map<string, DependencyGraphEdge>();
+  const sourcesById = new Map(sources.map((source) => [source.id, source]));
+  const options = sources.map(({ id, name }) => ({ id, name }));
+
+  for (const service of services) {
+    const runtimes = service.runtimeFootprint;
+    nodes.set(service.id, {
+      id: service.id,
+      name: service.name,
+      owner: service.owner,
+      runtime: runtimes.length > 1 ? MIXED_RUNTIME : (runtimes[0] ?? null),
+      external: false,
+    });
+  }
+
+  for (const service of services) {
+    for (const dependency of sourcesById.get(service.id)?.dependencies ?? []) {
+      const targetId = resolveDependencyTargetId(
+        dependency,
+        options.filter((option) => option.id !== service.id)
+      );
+
+      // Dependencies on services outside the graph (e.g. filtered out) are dropped
+      if (targetId && !(nodes.has(targetId) && targetId !== service.id)) {
+        continue;
+      }
+      const target =
+        targetId ?? addExternalNode(nodes, dependency.dependencyName);
+      edges.set(`${service.id}->${target}`, { source: service.id, target });
+    }
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
+
+/**
+ * Restricts the graph to a node and everything within `depth` hops of it,
+ * following edges in both directions (dependencies and dependents).
+ * Returns the graph unchanged when the node isn't part of it.
+ */
+export function focusDependencyGraph(
+  graph: DependencyGraph,
+  nodeId: string,
+  depth: number
+): DependencyGraph {
+  if (!graph.nodes.some((node) => node.id === nodeId)) {
+    return graph;
+  }
+
+  const neighbours = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    neighbours.set(source, [...(neighbours.get(source) ?? []), target]);
+    neighbours.set(target, [...(neighbours.get(target) ?? []), source]);
+  }
+
+  const included = new Set([nodeId]);
+  let frontier = [nodeId];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop += 1) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of neighbours.get(id) ?? []) {
+        if (!included.has(neighbour)) {
+          included.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter((node) => included.has(node.id)),
+    edges: graph.edges.filter(
+      (edge) => included.has(edge.source) && included.has(edge.target)
+    ),
+  };
+}
+
+/**
+ * Colour key of a node; null for external dependencies
+ */
+function getColorKey(
+  node: DependencyGraphNode,
+  colorBy: DependencyGraphColorBy
+): string | null {
+  if (node.external) {
+    return null;
+  }
+  return colorBy === "owner" ? node.owner : node.runtime;
+}
+
+/**
+ * Legend label of a colour key
+ */
+function getColorLabel(
+  key: string,
+  colorBy: DependencyGraphColorBy,
+  runtimeCatalog: RuntimeCatalog
+): string {
+  if (colorBy === "owner") {
+    return key;
+  }
+  if (key === MIXED_RUNTIME) {
+    return "Multiple runtimes";
+  }
+  return getRuntimeLabel(runtimeCatalog, key);
+}
+
+/**
+ * Assigns a colour to every node by owner or runtime.
+ * External dependencies and services without the attribute use the neutral colour.
+ */
+export function createDependencyGraphPalette(
+  graph: DependencyGraph,
+  colorBy: DependencyGraphColorBy,
+  runtimeCatalog: RuntimeCatalog = DEFAULT_RUNTIME_CATALOG
+): DependencyGraphPalette {
+  const keys = new Set<string>();
+  let hasUnassigned = false;
+  let hasExternal = false;
+
+  for (const node of graph.nodes) {
+    const key = getColorKey(node, colorBy);
+    if (key) {
+      keys.add(key);
+    } else if (node.external) {
+      hasExternal = true;
+    } else {
+      hasUnassigned = true;
+    }
+  }
+
+  const sortedKeys = Array.from(keys).sort((a, b) => a.localeCompare(b));
+  const keyColors = new Map(
+    sortedKeys.map((key, index) => [
+      key,
+      GRAPH_COLORS[index % GRAPH_COLORS.length],
+    ])
+  );
+
+  const nodeColors = new Map<string, string>();
+  for (const node of graph.nodes) {
+    const key = getColorKey(node, colorBy);
+    nodeColors.set(node.id, (key && keyColors.get(key)) ?? GRAPH_NEUTRAL_COLOR);
+  }
+
+  const legend: DependencyGraphLegendItem[] = sortedKeys.map((key) => ({
+    key,
+    label: getColorLabel(key, colorBy, runtimeCatalog),
+    color: keyColors.get(key) ?? GRAPH_NEUTRAL_COLOR,
+  }));
+  if (hasUnassigned) {
+    legend.push({
+      key: "unassigned",
+      label: colorBy === "owner" ? "No team" : "No runtime",
+      color: GRAPH_NEUTRAL_COLOR,
+    });
+  }
+  if (hasExternal) {
+    legend.push({
+      key: "external",
+      label: "External",
+      color: GRAPH_NEUTRAL_COLOR,
+    });
+  }
+
+  return { nodeColors, legend };
+}
+
+/**
+ * Assigns each node a column: dependents on the left, their dependencies to
+ * the right (longest path). Edges closing a cycle are ignored.
+ */
+function computeColumns(graph: DependencyGraph): Map<string, number> {
+  const dependents = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    dependents.set(target, [...(dependents.get(target) ?? []), source]);
+  }
+
+  const columns = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): number => {
+    const known = columns.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(id)) {
+      return -1;
+    }
+    visiting.add(id);
+    let column = 0;
+    for (const dependent of dependents.get(id) ?? []) {
+      column = Math.max(column, visit(dependent) + 1);
+    }
+    visiting.delete(id);
+    columns.set(id, column);
+    return column;
+  };
+
+  for (const node of graph.nodes) {
+    visit(node.id);
+  }
+  return columns;
+}
+
+/**
+ * Lays the graph out in columns, ordering each column by the average row of
+ * the nodes depending on it to reduce edge crossings.
+ */
+export function layoutDependencyGraph(
+  graph: DependencyGraph
+): DependencyGraphLayout {
+  const columns = computeColumns(graph);
+  const dependents = new Map<string, string[]>();
+  for (const { source, target } of graph.edges) {
+    dependents.set(target, [...(dependents.get(target) ?? []), source]);
+  }
+
+  const columnNodes: DependencyGraphNode[][] = [];
+  for (const node of [...graph.nodes].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  )) {
+    const column = columns.get(node.id) ?? 0;
+    columnNodes[column] = [...(columnNodes[column] ?? []), node];
+  }
+
+  const rows = new Map<string, number>();
+  const positioned: DependencyGraphLayoutNode[] = [];
+  let maxRows = 0;
+
+  for (let column = 0; column < columnNodes.length; column += 1) {
+    const ordered = (columnNodes[column] ?? [])
+      .map((node, index) => {
+        const parentRows = (dependents.get(node.id) ?? [])
+          .map((id) => rows.get(id))
+          .filter((row): row is number => row !== undefined);
+        const weight =
+          parentRows.length > 0
+            ? parentRows.reduce((sum, row) => sum + row, 0) / parentRows.length
+            : index;
+        return { node, weight };
+      })
+      .sort((a, b) => a.weight - b.weight);
+
+    ordered.forEach(({ node }, row) => {
+      rows.set(node.id, row);
+      positioned.push({
+        node,
+        x: GRAPH_PADDING + column * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP),
+        y: GRAPH_PADDING + row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP),
+      });
+    });
+    maxRows = Math.max(maxRows, ordered.length);
+  }
+
+  const positions = new Map(positioned.map((item) => [item.node.id, item]));
+  const edges: DependencyGraphLayoutEdge[] = [];
+  for (const edge of graph.edges) {
+    const source = positions.get(edge.source);
+    const target = positions.get(edge.target);
+    if (!(source && target)) {
+      continue;
+    }
+    const x1 = source.x + GRAPH_NODE_WIDTH;
+    const y1 = source.y + GRAPH_NODE_HEIGHT / 2;
+    const x2 = target.x;
+    const y2 = target.y + GRAPH_NODE_HEIGHT / 2;
+    const bend = Math.max(GRAPH_COLUMN_GAP / 2, Math.abs(x2 - x1) / 2);
+    edges.push({
+      edge,
+      path: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`,
+    });
+  }
+
+  const columnCount = Math.max(columnNodes.length, 1);
+  return {
+    nodes: positioned,
+    edges,
+    width:
+      GRAPH_PADDING * 2 +
+      columnCount * GRAPH_NODE_WIDTH +
+      (columnCount - 1) * GRAPH_COLUMN_GAP,
+    height:
+      GRAPH_PADDING * 2 +
+      Math.max(maxRows, 1) * GRAPH_NODE_HEIGHT +
+      Math.max(maxRows - 1, 0) * GRAPH_ROW_GAP,
+  };
+}
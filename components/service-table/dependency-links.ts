@@ -0,0 +1,187 @@
+/**
+ * Dependency Links
+ *
+ * A dependency either links to another service of the same organization
+ * (`target`) or is explicitly marked `external` when no service matches.
+ * Names are matched case-insensitively against active services.
+ *
+ * Also provides the one-time reconciliation that resolves legacy free-text
+ * dependencies (neither linked nor marked external) against existing services.
+ */
+
+import type { db } from "@/lib/db";
+import {
+  createServiceChangeRevisionTransaction,
+  type ServiceChangeAuthor,
+  type StoredServiceSource,
+} from "./service-revisions";
+
+/**
+ * Service that a dependency can link to
+ */
+export interface DependencyServiceOption {
+  readonly id: string;
+  readonly name: string;
+}
+
+/**
+ * Stored dependency as loaded with its target
+ */
+export interface StoredDependency {
+  readonly id: string;
+  readonly dependencyName: string;
+  readonly external?: boolean | null;
+  readonly target?: { readonly id: string; readonly name?: string } | null;
+}
+
+/**
+ * Planned outcome of reconciling one unresolved dependency
+ */
+export interface DependencyReconciliation {
+  /** Service declaring the dependency */
+  readonly serviceId: string;
+  readonly dependencyId: string;
+  readonly dependencyName: string;
+  readonly target: DependencyServiceOption | null;
+}
+
+/**
+ * Finds the service a dependency name refers to
+ */
+export function resolveDependencyTarget(
+  name: string,
+  services: readonly DependencyServiceOption[]
+): DependencyServiceOption | null {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  return (
+    services.find((service) => service.name.toLowerCase() === normalized) ??
+    null
+  );
+}
+
+/**
+ * Service a stored dependency points to, or null when it is external.
+ * Legacy free-text dependencies are matched by name until reconciled.
+ */
+export function resolveDependencyTargetId(
+  dependency: StoredDependency,
+  services: readonly DependencyServiceOption[]
+): string | null {
+  if (dependency.target) {
+    return dependency.target.id;
+  }
+  if (dependency.external) {
+    return null;
+  }
+  return (
+    resolveDependencyTarget(dependency.dependencyName, services)?.id ?? null
+  );
+}
+
+/**
+ * Display name of a dependency: the linked service's current name when linked,
+ * so renaming a service doesn't orphan its dependents
+ */
+export function getDependencyDisplayName(dependency: StoredDependency): string {
+  return dependency.target?.name ?? dependency.dependencyName;
+}
+
+/**
+ * Whether a dependency predates links: neither linked nor marked external
+ */
+export function isUnresolvedDependency(dependency: StoredDependency): boolean {
+  return !dependency.target && dependency.external == null;
+}
+
+/**
+ * Plans the reconciliation of unresolved dependencies against services.
+ * A dependency never links to the service that declares it.
+ */
+export function planDependencyReconciliation(
+  services: ReadonlyArray<{
+    readonly id: string;
+    readonly dependencies?: readonly StoredDependency[];
+  }>,
+  options: readonly DependencyServiceOption[]
+): DependencyReconciliation[] {
+  const plan: DependencyReconciliation[] = [];
+  for (const service of services) {
+    const candidates = options.filter((option) => option.id !== service.id);
+    for (const dependency of service.dependencies ?? []) {
+      if (!isUnresolvedDependency(dependency)) {
+        continue;
+      }
+      plan.push({
+        serviceId: service.id,
+        dependencyId: dependency.id,
+        dependencyName: dependency.dependencyName,
+        target: resolveDependencyTarget(dependency.dependencyName, candidates),
+      });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Links or marks external one planned dependency
+ */
+function createReconciledDependencyTransaction(
+  dbInstance: typeof db,
+  { dependencyId, target }: DependencyReconciliation
+) {
+  const tx = dbInstance.tx.serviceDependencies[dependencyId];
+  if (!target) {
+    return tx.update({ external: true });
+  }
+  return tx
+    .update({ dependencyName: target.name, external: false })
+    .link({ target: target.id });
+}
+
+/**
+ * Creates transactions applying a reconciliation plan: matched dependencies
+ * are linked (and take the service's exact name), the rest are marked
+ * external. Each service changed records a revision.
+ *
+ * @param services - Services the plan was made from
+ */
+export function createDependencyReconciliationTransactions(
+  dbInstance: typeof db,
+  plan: readonly DependencyReconciliation[],
+  services: ReadonlyArray<
+    StoredServiceSource & {
+      readonly dependencies?: readonly StoredDependency[];
+    }
+  >,
+  author: ServiceChangeAuthor
+) {
+  return services.flatMap((service) => {
+    const planned = new Map(
+      plan
+        .filter((item) => item.serviceId === service.id)
+        .map((item) => [item.dependencyId, item])
+    );
+    if (planned.size === 0) {
+      return [];
+    }
+    const dependencies = (service.dependencies ?? []).map((dep) => {
+      const target = planned.get(dep.id)?.target;
+      return target
+        ? { ...dep, dependencyName: target.name, target, external: false }
+        : dep;
+    });
+    return [
+      ...Array.from(planned.values(), (item) =>
+        createReconciledDependencyTransaction(dbInstance, item)
+      ),
+      createServiceChangeRevisionTransaction(dbInstance, {
+        service,
+        changes: { dependencies },
+        ...author,
+      }),
+    ];
+  });
+}
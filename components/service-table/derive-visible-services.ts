@@ -9,18 +9,127 @@
  * 2. Environment filter - match services with selected environments
  * 3. Runtime filter - match services with selected runtimes
  * 4. Owner filter - match services with selected owners
- * 5. Match mode - controls how multiple filters combine (all vs any)
+ * 5. Lifecycle filter - match services with selected lifecycle statuses
+ * 6. Tag filter - match services with any of the selected tags
+ * 7. Custom field filters - match services with selected custom field values
+ * 8. Match mode - controls how multiple filters combine (all vs any)
  */
 
 import type { ServicesQueryState } from "@/hooks/use-services-query-state";
+import { getCustomFieldFilterTokens } from "./custom-fields";
+import { DEFAULT_LIFECYCLE_STATUS } from "./lifecycle";
 import type { GroupedService } from "./types";
 import { calculateSearchScore } from "./utils";
 
+/**
+ * Test of a single active structured filter
+ */
+type FilterPredicate = (service: GroupedService) => boolean;
+
+/**
+ * Builds one predicate per active structured filter (env, runtime, owner,
+ * lifecycle, tag, then each custom field).
+ *
+ * @param queryState - Current query state from URL
+ * @returns Predicates of the active filters; empty when none is active
+ */
+function buildFilterPredicates(
+  queryState: ServicesQueryState
+): FilterPredicate[] {
+  const { env, runtime, owner, lifecycle, tag, custom } = queryState;
+  const predicates: FilterPredicate[] = [];
+
+  if (env.length > 0) {
+    const envSet = new Set(env);
+    predicates.push((service) =>
+      service.environments.some((e) => envSet.has(e.env))
+    );
+  }
+
+  if (runtime.length > 0) {
+    const runtimeSet = new Set(runtime);
+    predicates.push((service) =>
+      service.runtimeFootprint.some((rt) => runtimeSet.has(rt))
+    );
+  }
+
+  if (owner.length > 0) {
+    const ownerSet = new Set(owner.map((o) => o.toLowerCase()));
+    predicates.push((service) => ownerSet.has(service.owner.toLowerCase()));
+  }
+
+  if (lifecycle.length > 0) {
+    const lifecycleSet = new Set(lifecycle);
+    predicates.push((service) =>
+      lifecycleSet.has(service.lifecycle ?? DEFAULT_LIFECYCLE_STATUS)
+    );
+  }
+
+  if (tag.length > 0) {
+    // Tag names are unique per organization regardless of case
+    const tagSet = new Set(tag.map((name) => name.toLowerCase()));
+    predicates.push((service) =>
+      (service.tags ?? []).some((serviceTag) =>
+        tagSet.has(serviceTag.name.toLowerCase())
+      )
+    );
+  }
+
+  for (const [key, values] of Object.entries(custom)) {
+    const valueSet = new Set(values);
+    predicates.push((service) =>
+      getCustomFieldFilterTokens(service.customFields?.[key]).some((token) =>
+        valueSet.has(token)
+      )
+    );
+  }
+
+  return predicates;
+}
+
+/**
+ * Whether a service passes the structured filters, combined by match mode
+ */
+function matchesFilterPredicates(
+  service: GroupedService,
+  predicates: readonly FilterPredicate[],
+  match: ServicesQueryState["match"]
+): boolean {
+  if (predicates.length === 0) {
+    return true;
+  }
+  return match === "all"
+    ? predicates.every((predicate) => predicate(service))
+    : predicates.some((predicate) => predicate(service));
+}
+
+/**
+ * Builds a test of single services against the query state, for callers
+ * that see services a page at a time (such as the server export). Keeps the
+ * same services as deriveVisibleServices, without ordering them by search
+ * score.
+ *
+ * @param queryState - Query state parsed from the URL
+ * @returns Whether a service matches the search and the filters
+ */
+export function createServicesQueryMatcher(
+  queryState: ServicesQueryState
+): (service: GroupedService) => boolean {
+  const searchQuery = queryState.q.trim();
+  const predicates = buildFilterPredicates(queryState);
+  return (service) =>
+    (searchQuery.length === 0 ||
+      calculateSearchScore(service, searchQuery) > 0) &&
+    matchesFilterPredicates(service, predicates, queryState.match);
+}
+
 /**
  * Derives visible services from all services and query state.
  *
  * With the Linear-style architecture, q is pure free text (no filter tokens).
- * Structured filters (env, owner, runtime) are separate and explicit.
+ * Structured filters (env, owner, runtime, lifecycle, tag, custom fields)
+ * are separate and
+ * explicit.
  *
  * @param services - All available services
  * @param queryState - Current query state from URL
@@ -30,7 +139,7 @@ export function deriveVisibleServices(
   services: readonly GroupedService[],
   queryState: ServicesQueryState
 ): readonly GroupedService[] {
-  const { q, env, runtime, owner, match } = queryState;
+  const { q, match } = queryState;
 
   let filtered = services;
 
@@ -58,61 +167,13 @@ export function deriveVisibleServices(
   }
 
   // Apply structured filters based on match mode
-  const hasFilters = env.length > 0 || runtime.length > 0 || owner.length > 0;
-
-  if (hasFilters) {
-    if (match === "all") {
-      // Match ALL filters (AND condition) - default
-      // Service must satisfy all active filters
-
-      if (env.length > 0) {
-        const envSet = new Set(env);
-        filtered = filtered.filter((service) =>
-          service.environments.some((e) => envSet.has(e.env))
-        );
-      }
-
-      if (runtime.length > 0) {
-        const runtimeSet = new Set(runtime);
-        filtered = filtered.filter((service) =>
-          service.runtimeFootprint.some((rt) => runtimeSet.has(rt))
-        );
-      }
-
-      if (owner.length > 0) {
-        const ownerSet = new Set(owner.map((o) => o.toLowerCase()));
-        filtered = filtered.filter((service) =>
-          ownerSet.has(service.owner.toLowerCase())
-        );
-      }
-    } else {
-      // Match ANY filter (OR condition)
-      // Service must satisfy at least one active filter
-
-      filtered = filtered.filter((service) => {
-        let matchesAny = false;
-
-        if (env.length > 0) {
-          const envSet = new Set(env);
-          matchesAny =
-            matchesAny || service.environments.some((e) => envSet.has(e.env));
-        }
-
-        if (runtime.length > 0) {
-          const runtimeSet = new Set(runtime);
-          matchesAny =
-            matchesAny ||
-            service.runtimeFootprint.some((rt) => runtimeSet.has(rt));
-        }
-
-        if (owner.length > 0) {
-          const ownerSet = new Set(owner.map((o) => o.toLowerCase()));
-          matchesAny = matchesAny || ownerSet.has(service.owner.toLowerCase());
-        }
-
-        return matchesAny;
-      });
-    }
+  const predicates = buildFilterPredicates(queryState);
+
+  // Match ALL filters (AND condition) by default, ANY (OR) otherwise
+  if (predicates.length > 0) {
+    filtered = filtered.filter((service) =>
+      matchesFilterPredicates(service, predicates, match)
+    );
   }
 
   return filtered;
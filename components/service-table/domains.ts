@@ -0,0 +1,228 @@
+/**
+ * Interface Domains
+ *
+ * Domains of service interfaces are entered as hostnames or URLs and stored
+ * normalised: the lowercase host without scheme, credentials, query or
+ * trailing dot, followed by the port and path when present. A leading "*."
+ * label makes a wildcard domain.
+ *
+ * Each (domain, environment) pair belongs to a single interface across the
+ * organization. This module builds the index of claimed domains used by the
+ * service form and lists the existing conflicts for the conflict report.
+ */
+
+import {
+  compareEnvironmentValues,
+  type EnvironmentCatalog,
+  resolveEnvironment,
+} from "./environments";
+
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const QUERY_OR_FRAGMENT_PATTERN = /[?#].*$/;
+const CREDENTIALS_PATTERN = /^[^@/]*@/;
+const HOST_PORT_PATTERN = /:(\d*)$/;
+const TRAILING_DOTS_PATTERN = /\.+$/;
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const HOSTNAME_MAX_LENGTH = 253;
+const WILDCARD_PREFIX = "*.";
+
+/**
+ * Environment of interfaces stored without one
+ */
+const DEFAULT_INTERFACE_ENV = "production";
+
+/**
+ * Parts of a domain as entered on an interface
+ */
+export interface ParsedDomain {
+  /** Lowercase host without trailing dot, "*." included for wildcards */
+  readonly host: string;
+  /** Port digits as entered; null without a port */
+  readonly port: string | null;
+  /** Path without trailing slashes; empty without a path */
+  readonly path: string;
+  readonly wildcard: boolean;
+}
+
+/**
+ * Service as read for domain uniqueness
+ */
+export interface DomainSource {
+  readonly id: string;
+  readonly name: string;
+  readonly interfaces?: ReadonlyArray<{
+    readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+  }>;
+}
+
+/**
+ * Interface holding a domain in an environment
+ */
+export interface DomainOwner {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  readonly interfaceId: string;
+}
+
+/**
+ * Domains claimed in the organization, by `getDomainKey`
+ */
+export type DomainClaims = ReadonlyMap<string, DomainOwner>;
+
+/**
+ * Domain held by more than one interface in the same environment
+ */
+export interface DomainConflict {
+  /** Normalised domain */
+  readonly domain: string;
+  /** Environment key, or the stored value when it isn't in the catalog */
+  readonly env: string;
+  readonly owners: readonly DomainOwner[];
+}
+
+/**
+ * Splits a domain or URL into host, port and path
+ */
+export function parseDomain(value: string): ParsedDomain {
+  const withoutScheme = value
+    .trim()
+    .replace(URL_SCHEME_PATTERN, "")
+    .replace(QUERY_OR_FRAGMENT_PATTERN, "");
+  const slashIndex = withoutScheme.indexOf("/");
+  const authority = (
+    slashIndex === -1 ? withoutScheme : withoutScheme.slice(0, slashIndex)
+  ).replace(CREDENTIALS_PATTERN, "");
+  const path =
+    slashIndex === -1
+      ? ""
+      : withoutScheme.slice(slashIndex).replace(TRAILING_SLASHES_PATTERN, "");
+  const portMatch = HOST_PORT_PATTERN.exec(authority);
+  const host = (portMatch ? authority.slice(0, portMatch.index) : authority)
+    .toLowerCase()
+    .replace(TRAILING_DOTS_PATTERN, "");
+  return {
+    host,
+    port: portMatch ? (portMatch[1] ?? "") : null,
+    path,
+    wildcard: host.startsWith(WILDCARD_PREFIX),
+  };
+}
+
+/**
+ * Stored form of a domain: "https://API.example.com./v1/" becomes
+ * "api.example.com/v1"
+ */
+export function normalizeDomain(value: string): string {
+  const { host, port, path } = parseDomain(value);
+  return `${host}${port === null ? "" : `:${port}`}${path}`;
+}
+
+/**
+ * Host of a domain, without port or path
+ */
+export function normalizeHostname(value: string): string {
+  return parseDomain(value).host;
+}
+
+/**
+ * Whether a host is a valid hostname: dot-separated labels of letters,
+ * digits and inner hyphens
+ */
+export function isValidHostname(host: string): boolean {
+  return (
+    host.length > 0 &&
+    host.length <= HOSTNAME_MAX_LENGTH &&
+    host.split(".").every((label) => HOSTNAME_LABEL_PATTERN.test(label))
+  );
+}
+
+/**
+ * Key of a domain in an environment: environments are compared by catalog
+ * key, so aliases of the same environment collide
+ */
+export function getDomainKey(
+  domain: string,
+  env: string | null | undefined,
+  catalog: EnvironmentCatalog
+): string {
+  const envKey = resolveEnvironment(catalog, env || DEFAULT_INTERFACE_ENV).key;
+  return `${envKey}|${normalizeDomain(domain)}`;
+}
+
+/**
+ * Indexes the domains claimed by the organization's services, except the
+ * service being edited
+ */
+export function buildDomainClaims(
+  services: readonly DomainSource[],
+  catalog: EnvironmentCatalog,
+  excludeServiceId: string | null = null
+): DomainClaims {
+  const claims = new Map<string, DomainOwner>();
+  for (const service of services) {
+    if (service.id === excludeServiceId) {
+      continue;
+    }
+    for (const iface of service.interfaces ?? []) {
+      const key = getDomainKey(iface.domain, iface.env, catalog);
+      if (iface.domain.trim() && !claims.has(key)) {
+        claims.set(key, {
+          serviceId: service.id,
+          serviceName: service.name,
+          interfaceId: iface.id,
+        });
+      }
+    }
+  }
+  return claims;
+}
+
+/**
+ * Domains held by more than one interface in the same environment, most
+ * critical environment first
+ */
+export function findDomainConflicts(
+  services: readonly DomainSource[],
+  catalog: EnvironmentCatalog
+): DomainConflict[] {
+  const groups = new Map<
+    string,
+    { domain: string; env: string; owners: DomainOwner[] }
+  >();
+  for (const service of services) {
+    for (const iface of service.interfaces ?? []) {
+      if (!iface.domain.trim()) {
+        continue;
+      }
+      const key = getDomainKey(iface.domain, iface.env, catalog);
+      const group = groups.get(key) ?? {
+        domain: normalizeDomain(iface.domain),
+        env: resolveEnvironment(catalog, iface.env || DEFAULT_INTERFACE_ENV)
+          .key,
+        owners: [],
+      };
+      group.owners.push({
+        serviceId: service.id,
+        serviceName: service.name,
+        interfaceId: iface.id,
+      });
+      groups.set(key, group);
+    }
+  }
+  return Array.from(groups.values())
+    .filter((group) => group.owners.length > 1)
+    .map((group) => ({
+      ...group,
+      owners: group.owners.sort((a, b) =>
+        a.serviceName.localeCompare(b.serviceName)
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        compareEnvironmentValues(catalog, a.env, b.env) ||
+        a.domain.localeCompare(b.domain)
+    );
+}
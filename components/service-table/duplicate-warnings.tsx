@@ -0,0 +1,69 @@
+/**
+ * Duplicate Warnings
+ *
+ * Warns in the service form that the service being entered looks like one
+ * already registered, and why. Saving stays possible: similar names or a
+ * shared repository can be legitimate.
+ */
+
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { type DuplicateMatch, getDuplicateReasonLabel } from "./duplicates";
+
+interface DuplicateWarningsProps {
+  readonly matches: readonly DuplicateMatch[];
+  readonly className?: string;
+}
+
+/**
+ * Describes what a match shares: "Similar name, same production domain
+ * (api.example.com)"
+ */
+function formatMatchReasons(match: DuplicateMatch): string {
+  return match.reasons
+    .map((reason, idx) => {
+      const label = getDuplicateReasonLabel(reason);
+      const text = idx === 0 ? label : label.toLowerCase();
+      return reason === "domain"
+        ? `${text} (${match.sharedDomains.join(", ")})`
+        : text;
+    })
+    .join(", ");
+}
+
+/**
+ * Alert listing the services the form looks like a duplicate of
+ */
+export function DuplicateWarnings({
+  matches,
+  className,
+}: DuplicateWarningsProps) {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert className={className}>
+      <TriangleAlert className="h-3.5 w-3.5 text-amber-500" />
+      <AlertTitle className="text-xs">
+        Possible duplicate of {matches.length === 1 ? "a service" : "services"}
+      </AlertTitle>
+      <AlertDescription className="text-xs">
+        <ul className="space-y-0.5">
+          {matches.map((match) => (
+            <li key={match.serviceId}>
+              <span className="font-medium font-mono">{match.serviceName}</span>
+              : {formatMatchReasons(match)}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-1 text-muted-foreground">
+          Check the existing service before saving; duplicates can be merged
+          from the possible duplicates report.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Duplicate Services
+ *
+ * Detects services that are likely the same deployed software registered
+ * twice: names that only differ by case, separators or a suffix such as
+ * "-service" or "-v2", the same repository, or the same domain in the most
+ * critical environment. Used by the service drawer to warn before saving and
+ * by the organization's possible duplicates report.
+ */
+
+import { normalizeHostname } from "./domains";
+import { type EnvironmentCatalog, resolveEnvironment } from "./environments";
+
+/**
+ * Why two services look like duplicates
+ */
+export type DuplicateReason = "name" | "repository" | "domain";
+
+/**
+ * Service as read for duplicate detection
+ */
+export interface DuplicateSource {
+  readonly id: string;
+  readonly name: string;
+  readonly repository?: string | null;
+  readonly interfaces?: ReadonlyArray<{
+    readonly domain: string;
+    readonly env: string | null;
+  }>;
+}
+
+/**
+ * Service matching another one, with what they share
+ */
+export interface DuplicateMatch {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  readonly reasons: readonly DuplicateReason[];
+  /** Production domains both services serve */
+  readonly sharedDomains: readonly string[];
+}
+
+/**
+ * Two services suspected to be duplicates, ordered by name
+ */
+export interface DuplicatePair<T extends DuplicateSource = DuplicateSource> {
+  readonly first: T;
+  readonly second: T;
+  readonly reasons: readonly DuplicateReason[];
+  readonly sharedDomains: readonly string[];
+}
+
+const DUPLICATE_REASON_LABELS: Readonly<Record<DuplicateReason, string>> = {
+  name: "Similar name",
+  repository: "Same repository",
+  domain: "Same production domain",
+};
+
+/**
+ * Words dropped from the end of names before comparing them
+ */
+const NAME_SUFFIXES = new Set([
+  "service",
+  "svc",
+  "api",
+  "app",
+  "server",
+  "backend",
+  "new",
+  "old",
+  "legacy",
+]);
+
+const NAME_SEPARATOR_PATTERN = /[\s._/-]+/;
+const VERSION_SUFFIX_PATTERN = /^v?\d+$/;
+const CAMEL_CASE_PATTERN = /([a-z0-9])([A-Z])/g;
+const URL_PROTOCOL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+const SCP_REPOSITORY_PATTERN = /^[^@/\s]+@([^:/\s]+):(.+)$/;
+const URL_CREDENTIALS_PATTERN = /^[^@/]+@/;
+const WWW_PREFIX_PATTERN = /^www\./;
+const GIT_SUFFIX_PATTERN = /\.git$/;
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+
+/**
+ * Display name of a duplicate reason
+ */
+export function getDuplicateReasonLabel(reason: DuplicateReason): string {
+  return DUPLICATE_REASON_LABELS[reason];
+}
+
+/**
+ * Comparison key of a service name: lowercase words without separators or
+ * trailing suffixes, so "Billing-Service", "billing_svc" and "billingV2"
+ * share the key "billing"
+ */
+export function normalizeServiceNameKey(name: string): string {
+  const words = name
+    .trim()
+    .replace(CAMEL_CASE_PATTERN, "$1 $2")
+    .toLowerCase()
+    .split(NAME_SEPARATOR_PATTERN)
+    .filter(Boolean);
+  // Keep at least one word so "api" alone still has a key
+  while (
+    words.length > 1 &&
+    (NAME_SUFFIXES.has(words.at(-1) ?? "") ||
+      VERSION_SUFFIX_PATTERN.test(words.at(-1) ?? ""))
+  ) {
+    words.pop();
+  }
+  return words.join("");
+}
+
+/**
+ * Comparison key of a repository URL: host and path without protocol,
+ * credentials, "www.", ".git" or trailing slashes. SSH remotes such as
+ * "git@github.com:acme/billing.git" match their HTTPS form.
+ */
+export function normalizeRepositoryKey(repository: string): string {
+  let value = repository.trim().toLowerCase();
+  const scp = SCP_REPOSITORY_PATTERN.exec(value);
+  if (scp && !URL_PROTOCOL_PATTERN.test(value)) {
+    value = `${scp[1]}/${scp[2]}`;
+  }
+  return value
+    .replace(URL_PROTOCOL_PATTERN, "")
+    .replace(URL_CREDENTIALS_PATTERN, "")
+    .replace(WWW_PREFIX_PATTERN, "")
+    .replace(TRAILING_SLASHES_PATTERN, "")
+    .replace(GIT_SUFFIX_PATTERN, "");
+}
+
+/**
+ * Hostnames a service serves in the organization's most critical environment
+ */
+export function getProductionHostnames(
+  service: Pick<DuplicateSource, "interfaces">,
+  catalog: EnvironmentCatalog
+): string[] {
+  const hostnames = (service.interfaces ?? [])
+    .filter((iface) => resolveEnvironment(catalog, iface.env).isCritical)
+    .map((iface) => normalizeHostname(iface.domain))
+    .filter(Boolean);
+  return Array.from(new Set(hostnames)).sort();
+}
+
+/**
+ * Comparison keys of a service, computed once per service
+ */
+interface DuplicateKeys {
+  readonly name: string;
+  readonly repository: string;
+  readonly hostnames: readonly string[];
+}
+
+function getDuplicateKeys(
+  service: Omit<DuplicateSource, "id">,
+  catalog: EnvironmentCatalog
+): DuplicateKeys {
+  return {
+    name: normalizeServiceNameKey(service.name),
+    repository: normalizeRepositoryKey(service.repository ?? ""),
+    hostnames: getProductionHostnames(service, catalog),
+  };
+}
+
+/**
+ * What two services share; no reasons when they look unrelated
+ */
+function compareDuplicateKeys(
+  a: DuplicateKeys,
+  b: DuplicateKeys
+): Pick<DuplicateMatch, "reasons" | "sharedDomains"> {
+  const reasons: DuplicateReason[] = [];
+  if (a.name && a.name === b.name) {
+    reasons.push("name");
+  }
+  if (a.repository && a.repository === b.repository) {
+    reasons.push("repository");
+  }
+  const sharedDomains = a.hostnames.filter((host) =>
+    b.hostnames.includes(host)
+  );
+  if (sharedDomains.length > 0) {
+    reasons.push("domain");
+  }
+  return { reasons, sharedDomains };
+}
+
+/**
+ * Services that look like duplicates of a service being created or edited,
+ * sorted by name
+ */
+export function findDuplicateCandidates(
+  candidate: Omit<DuplicateSource, "id">,
+  services: readonly DuplicateSource[],
+  catalog: EnvironmentCatalog,
+  excludeServiceId: string | null = null
+): DuplicateMatch[] {
+  const keys = getDuplicateKeys(candidate, catalog);
+  const matches: DuplicateMatch[] = [];
+  for (const service of services) {
+    if (service.id === excludeServiceId) {
+      continue;
+    }
+    const { reasons, sharedDomains } = compareDuplicateKeys(
+      keys,
+      getDuplicateKeys(service, catalog)
+    );
+    if (reasons.length > 0) {
+      matches.push({
+        serviceId: service.id,
+        serviceName: service.name,
+        reasons,
+        sharedDomains,
+      });
+    }
+  }
+  return matches.sort((a, b) => a.serviceName.localeCompare(b.serviceName));
+}
+
+/**
+ * All pairs of services of an organization that look like duplicates, the
+ * ones sharing the most first
+ */
+export function findDuplicatePairs<T extends DuplicateSource>(
+  services: readonly T[],
+  catalog: EnvironmentCatalog
+): DuplicatePair<T>[] {
+  const sorted = [...services].sort((a, b) => a.name.localeCompare(b.name));
+  const keys = sorted.map((service) => getDuplicateKeys(service, catalog));
+  const pairs: DuplicatePair<T>[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const { reasons, sharedDomains } = compareDuplicateKeys(keys[i], keys[j]);
+      if (reasons.length > 0) {
+        pairs.push({
+          first: sorted[i],
+          second: sorted[j],
+          reasons,
+          sharedDomains,
+        });
+      }
+    }
+  }
+  return pairs.sort(
+    (a, b) =>
+      b.reasons.length - a.reasons.length ||
+      a.first.name.localeCompare(b.first.name) ||
+      a.second.name.localeCompare(b.second.name)
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Environment Catalog
+ *
+ * Each organization defines its own environments: a key (the value stored on
+ * interfaces), a short label, a criticality rank, a colour and aliases that
+ * resolve to the key ("prod" → "production"). Organizations that haven't
+ * defined any use the production/staging/development defaults.
+ *
+ * Resolution only affects display, sorting and filtering: stored values are
+ * never rewritten, and values matching no environment are shown as stored and
+ * sorted last.
+ */
+
+import { id } from "@instantdb/react";
+import type { db } from "@/lib/db";
+
+const ENVIRONMENT_KEY_INVALID_PATTERN = /[^a-z0-9_]+/g;
+const ENVIRONMENT_KEY_EDGES_PATTERN = /^[-_]+|[-_]+$/g;
+
+/**
+ * Environment defined by an organization
+ */
+export interface EnvironmentDefinition {
+  /** Value stored on interfaces */
+  readonly key: string;
+  /** Short display label, e.g. "PROD" */
+  readonly label: string;
+  /** Criticality rank: lower is more critical, equal ranks are allowed */
+  readonly order: number;
+  /** Hex colour of the environment badge */
+  readonly color: string;
+  /** Other stored values that mean this environment */
+  readonly aliases: readonly string[];
+}
+
+/**
+ * Resolved environments of an organization
+ */
+export interface EnvironmentCatalog {
+  /** Sorted by criticality, then key */
+  readonly environments: readonly EnvironmentDefinition[];
+  /** True when the organization hasn't defined its own environments */
+  readonly isDefault: boolean;
+  /** Lowercased keys and aliases to their environment */
+  readonly byValue: ReadonlyMap<string, EnvironmentDefinition>;
+}
+
+/**
+ * Stored environment of an organization
+ */
+export interface StoredEnvironment extends EnvironmentDefinition {
+  readonly id: string;
+}
+
+/**
+ * Environment as displayed for a stored value
+ */
+export interface ResolvedEnvironment {
+  /** Environment key, or the stored value when no environment matches */
+  readonly key: string;
+  readonly label: string;
+  /** Null for values matching no environment */
+  readonly color: string | null;
+  /** Position in the catalog; undefined values sort after every environment */
+  readonly rank: number;
+  /** Part of the most critical environments (e.g. production regions) */
+  readonly isCritical: boolean;
+  readonly isDefined: boolean;
+}
+
+/**
+ * Environments used until an organization defines its own
+ */
+export const DEFAULT_ENVIRONMENTS: readonly EnvironmentDefinition[] = [
+  {
+    key: "production",
+    label: "PROD",
+    order: 0,
+    color: "#22c55e",
+    aliases: ["prod"],
+  },
+  {
+    key: "staging",
+    label: "STAGE",
+    order: 1,
+    color: "#f59e0b",
+    aliases: ["stage"],
+  },
+  {
+    key: "development",
+    label: "DEV",
+    order: 2,
+    color: "#3b82f6",
+    aliases: ["dev"],
+  },
+];
+
+/**
+ * Builds the catalog of an organization, falling back to the defaults when
+ * it has no environments
+ */
+export function createEnvironmentCatalog(
+  definitions: readonly EnvironmentDefinition[] | null | undefined
+): EnvironmentCatalog {
+  const isDefault = !definitions || definitions.length === 0;
+  const environments = [...(definitions ?? [])];
+  if (isDefault) {
+    environments.push(...DEFAULT_ENVIRONMENTS);
+  }
+  environments.sort((a, b) => a.order - b.order || a.key.localeCompare(b.key));
+
+  const byValue = new Map<string, EnvironmentDefinition>();
+  // Keys take precedence over aliases of other environments
+  for (const environment of environments) {
+    for (const alias of environment.aliases) {
+      const value = alias.trim().toLowerCase();
+      if (value && !byValue.has(value)) {
+        byValue.set(value, environment);
+      }
+    }
+  }
+  for (const environment of environments) {
+    byValue.set(environment.key.toLowerCase(), environment);
+  }
+
+  return { environments, isDefault, byValue };
+}
+
+/**
+ * Catalog of the default environments
+ */
+export const DEFAULT_ENVIRONMENT_CATALOG =
+  createEnvironmentCatalog(DEFAULT_ENVIRONMENTS);
+
+/**
+ * Finds the environment a stored value refers to, by key or alias
+ */
+export function findEnvironment(
+  catalog: EnvironmentCatalog,
+  value: string | null | undefined
+): EnvironmentDefinition | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  return catalog.byValue.get(normalized) ?? null;
+}
+
+/**
+ * Resolves a stored environment value for display, sorting and filtering
+ */
+export function resolveEnvironment(
+  catalog: EnvironmentCatalog,
+  value: string | null | undefined
+): ResolvedEnvironment {
+  const environment = findEnvironment(catalog, value);
+  if (!environment) {
+    const stored = value?.trim() ?? "";
+    return {
+      key: stored,
+      label: stored ? stored.toUpperCase() : "—",
+      color: null,
+      rank: catalog.environments.length,
+      isCritical: false,
+      isDefined: false,
+    };
+  }
+  return {
+    key: environment.key,
+    label: environment.label,
+    color: environment.color,
+    rank: catalog.environments.indexOf(environment),
+    isCritical: environment.order === catalog.environments[0]?.order,
+    isDefined: true,
+  };
+}
+
+/**
+ * Display label of a stored environment value
+ */
+export function getEnvironmentLabel(
+  catalog: EnvironmentCatalog,
+  value: string | null | undefined
+): string {
+  return resolveEnvironment(catalog, value).label;
+}
+
+/**
+ * Compares stored environment values by criticality, then value
+ */
+export function compareEnvironmentValues(
+  catalog: EnvironmentCatalog,
+  a: string | null | undefined,
+  b: string | null | undefined
+): number {
+  const resolvedA = resolveEnvironment(catalog, a);
+  const resolvedB = resolveEnvironment(catalog, b);
+  return (
+    resolvedA.rank - resolvedB.rank ||
+    resolvedA.key.localeCompare(resolvedB.key)
+  );
+}
+
+/**
+ * Builds an environment key from a stored value: "Prod EU" → "prod-eu"
+ */
+export function slugifyEnvironmentKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(ENVIRONMENT_KEY_INVALID_PATTERN, "-")
+    .replace(ENVIRONMENT_KEY_EDGES_PATTERN, "");
+}
+
+/**
+ * Normalizes a comma-separated alias list, dropping blanks and duplicates
+ */
+export function parseEnvironmentAliases(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((alias) => alias.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Option of the environment picker
+ */
+export interface EnvironmentSelectOption {
+  readonly value: string;
+  readonly label: string;
+  readonly hint: string;
+}
+
+/**
+ * Options for picking an interface environment: the organization's
+ * environments, plus stored values that aren't an environment key so that
+ * editing a service keeps them as they are
+ */
+export function getEnvironmentSelectOptions(
+  catalog: EnvironmentCatalog,
+  storedValues: readonly string[]
+): EnvironmentSelectOption[] {
+  const options: EnvironmentSelectOption[] = catalog.environments.map(
+    (environment) => ({
+      value: environment.key,
+      label: environment.label,
+      hint: environment.key,
+    })
+  );
+  const keys = new Set(options.map((option) => option.value));
+
+  for (const value of new Set(storedValues)) {
+    if (!value || keys.has(value)) {
+      continue;
+    }
+    const environment = findEnvironment(catalog, value);
+    options.push({
+      value,
+      label: value,
+      hint: environment ? `alias of ${environment.label}` : "not defined",
+    });
+  }
+  return options;
+}
+
+/**
+ * Counts interfaces per stored environment value
+ */
+export function countEnvironmentValues(
+  services: ReadonlyArray<{
+    readonly interfaces?: ReadonlyArray<{ readonly env: string | null }>;
+  }>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const service of services) {
+    for (const iface of service.interfaces ?? []) {
+      const value = iface.env?.trim() ?? "";
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Creates an environment of an organization
+ */
+export function createEnvironmentTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  environmentId: string,
+  definition: EnvironmentDefinition
+) {
+  return dbInstance.tx.environments[environmentId]
+    .create({
+      key: definition.key.trim(),
+      label: definition.label.trim(),
+      order: definition.order,
+      color: definition.color,
+      aliases: [...definition.aliases],
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Updates an environment. The key is what interfaces store, so it can't be
+ * changed: renaming it would silently detach every interface using it.
+ */
+export function createUpdateEnvironmentTransaction(
+  dbInstance: typeof db,
+  environmentId: string,
+  definition: Omit<EnvironmentDefinition, "key">
+) {
+  return dbInstance.tx.environments[environmentId].update({
+    label: definition.label.trim(),
+    order: definition.order,
+    color: definition.color,
+    aliases: [...definition.aliases],
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Stores the default environments, so an organization can start editing
+ * from them
+ */
+export function createDefaultEnvironmentTransactions(
+  dbInstance: typeof db,
+  organizationId: string
+) {
+  return DEFAULT_ENVIRONMENTS.map((definition) =>
+    createEnvironmentTransaction(dbInstance, organizationId, id(), definition)
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * End-of-Life Badge
+ *
+ * Support status of a tech stack version, used in the service form, on the
+ * service page and in the end-of-life report.
+ */
+
+"use client";
+
+import {
+  PillIndicator,
+  type PillIndicatorProps,
+} from "@/components/kibo-ui/pill";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatSunsetDistance } from "./lifecycle";
+import { type EolInfo, type EolStatus, getEolStatusLabel } from "./tech-stack";
+
+/**
+ * Indicator colour of each status
+ */
+const EOL_INDICATORS: Readonly<
+  Record<EolStatus, NonNullable<PillIndicatorProps["variant"]>>
+> = {
+  supported: "success",
+  "eol-soon": "warning",
+  eol: "error",
+  unknown: "info",
+};
+
+interface EolBadgeProps {
+  readonly info: EolInfo;
+  readonly className?: string;
+}
+
+/**
+ * Describes the end of support of a version: "Node.js 18: support ended
+ * 2025-04-30 (170 days ago)"
+ */
+function getEolTitle(info: EolInfo): string {
+  if (info.status === "unknown") {
+    return "Not in the bundled end-of-life dataset";
+  }
+  const release = `${info.productLabel} ${info.cycle}`;
+  if (!info.eolDate) {
+    return `${release}: no end of support announced`;
+  }
+  const verb = info.status === "eol" ? "ended" : "ends";
+  const distance = formatSunsetDistance(info.daysLeft).toLowerCase();
+  return `${release}: support ${verb} ${info.eolDate} (${distance})`;
+}
+
+/**
+ * Outlined badge with a coloured dot and the support status
+ */
+export function EolBadge({ info, className }: EolBadgeProps) {
+  return (
+    <Badge
+      className={cn(
+        "gap-1.5 font-normal",
+        info.status === "unknown" && "text-muted-foreground",
+        className
+      )}
+      title={getEolTitle(info)}
+      variant="outline"
+    >
+      <PillIndicator variant={EOL_INDICATORS[info.status]} />
+      {getEolStatusLabel(info.status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * End-of-Life Dataset
+ *
+ * Bundled support dates of common languages, runtimes and frameworks, used to
+ * flag services on unsupported versions without calling an external service.
+ * Cycles follow the layout of endoflife.date: a release line and the day its
+ * support ends, or `false` while no end date is announced.
+ *
+ * To update, edit the cycles below (or regenerate them from endoflife.date)
+ * and move `EOL_DATASET_UPDATED` to the day of the update.
+ */
+
+/**
+ * Release line of a product
+ */
+export interface EolCycle {
+  /** Release line, matched against the start of a version ("18", "3.11") */
+  readonly cycle: string;
+  /** "YYYY-MM-DD" end of support, or false while none is announced */
+  readonly eol: string | false;
+}
+
+/**
+ * Product tracked by the dataset
+ */
+export interface EolProduct {
+  readonly id: string;
+  readonly label: string;
+  /** Names services use for the product, lowercase */
+  readonly aliases: readonly string[];
+  readonly cycles: readonly EolCycle[];
+}
+
+/**
+ * Day the dataset was last updated
+ */
+export const EOL_DATASET_UPDATED = "2026-10-01";
+
+/**
+ * Products with their release lines, newest first
+ */
+export const EOL_DATASET: readonly EolProduct[] = [
+  {
+    id: "nodejs",
+    label: "Node.js",
+    aliases: ["node", "nodejs", "node.js"],
+    cycles: [
+      { cycle: "24", eol: "2028-04-30" },
+      { cycle: "22", eol: "2027-04-30" },
+      { cycle: "20", eol: "2026-04-30" },
+      { cycle: "18", eol: "2025-04-30" },
+      { cycle: "16", eol: "2023-09-11" },
+      { cycle: "14", eol: "2023-04-30" },
+    ],
+  },
+  {
+    id: "python",
+    label: "Python",
+    aliases: ["python", "python3", "cpython"],
+    cycles: [
+      { cycle: "3.14", eol: "2030-10-31" },
+      { cycle: "3.13", eol: "2029-10-31" },
+      { cycle: "3.12", eol: "2028-10-31" },
+      { cycle: "3.11", eol: "2027-10-31" },
+      { cycle: "3.10", eol: "2026-10-31" },
+      { cycle: "3.9", eol: "2025-10-31" },
+      { cycle: "3.8", eol: "2024-10-07" },
+      { cycle: "3.7", eol: "2023-06-27" },
+    ],
+  },
+  {
+    id: "java",
+    label: "Java (Temurin)",
+    aliases: ["java", "jdk", "openjdk", "temurin"],
+    cycles: [
+      { cycle: "25", eol: "2031-09-30" },
+      { cycle: "21", eol: "2029-12-31" },
+      { cycle: "17", eol: "2027-10-31" },
+      { cycle: "11", eol: "2027-10-31" },
+      { cycle: "8", eol: "2026-11-30" },
+    ],
+  },
+  {
+    id: "go",
+    label: "Go",
+    aliases: ["go", "golang"],
+    cycles: [
+      { cycle: "1.25", eol: false },
+      { cycle: "1.24", eol: "2026-08-12" },
+      { cycle: "1.23", eol: "2026-02-11" },
+      { cycle: "1.22", eol: "2025-08-12" },
+      { cycle: "1.21", eol: "2025-02-11" },
+      { cycle: "1.20", eol: "2024-08-13" },
+    ],
+  },
+  {
+    id: "ruby",
+    label: "Ruby",
+    aliases: ["ruby"],
+    cycles: [
+      { cycle: "3.4", eol: "2028-03-31" },
+      { cycle: "3.3", eol: "2027-03-31" },
+      { cycle: "3.2", eol: "2026-03-31" },
+      { cycle: "3.1", eol: "2025-03-31" },
+      { cycle: "3.0", eol: "2024-04-23" },
+    ],
+  },
+  {
+    id: "php",
+    label: "PHP",
+    aliases: ["php"],
+    cycles: [
+      { cycle: "8.4", eol: "2028-12-31" },
+      { cycle: "8.3", eol: "2027-12-31" },
+      { cycle: "8.2", eol: "2026-12-31" },
+      { cycle: "8.1", eol: "2025-12-31" },
+      { cycle: "8.0", eol: "2023-11-26" },
+      { cycle: "7.4", eol: "2022-11-28" },
+    ],
+  },
+  {
+    id: "dotnet",
+    label: ".NET",
+    aliases: [".net", "dotnet", "net"],
+    cycles: [
+      { cycle: "10", eol: "2028-11-14" },
+      { cycle: "9", eol: "2026-11-10" },
+      { cycle: "8", eol: "2026-11-10" },
+      { cycle: "7", eol: "2024-05-14" },
+      { cycle: "6", eol: "2024-11-12" },
+    ],
+  },
+  {
+    id: "spring-boot",
+    label: "Spring Boot",
+    aliases: ["spring-boot", "spring boot", "springboot"],
+    cycles: [
+      { cycle: "3.5", eol: "2026-06-30" },
+      { cycle: "3.4", eol: "2025-12-31" },
+      { cycle: "3.3", eol: "2025-06-30" },
+      { cycle: "3.2", eol: "2024-11-23" },
+      { cycle: "3.1", eol: "2024-05-18" },
+      { cycle: "3.0", eol: "2023-11-24" },
+      { cycle: "2.7", eol: "2023-11-24" },
+    ],
+  },
+  {
+    id: "django",
+    label: "Django",
+    aliases: ["django"],
+    cycles: [
+      { cycle: "5.2", eol: "2028-04-30" },
+      { cycle: "5.1", eol: "2025-12-31" },
+      { cycle: "5.0", eol: "2025-04-30" },
+      { cycle: "4.2", eol: "2026-04-30" },
+      { cycle: "3.2", eol: "2024-04-01" },
+    ],
+  },
+  {
+    id: "rails",
+    label: "Ruby on Rails",
+    aliases: ["rails", "ruby on rails", "ror"],
+    cycles: [
+      { cycle: "8.0", eol: "2026-11-07" },
+      { cycle: "7.2", eol: "2026-08-09" },
+      { cycle: "7.1", eol: "2025-10-01" },
+      { cycle: "7.0", eol: "2025-04-01" },
+      { cycle: "6.1", eol: "2024-10-01" },
+    ],
+  },
+  {
+    id: "angular",
+    label: "Angular",
+    aliases: ["angular"],
+    cycles: [
+      { cycle: "20", eol: "2026-11-28" },
+      { cycle: "19", eol: "2026-05-19" },
+      { cycle: "18", eol: "2025-11-21" },
+      { cycle: "17", eol: "2025-05-15" },
+      { cycle: "16", eol: "2024-11-08" },
+    ],
+  },
+];
@@ -1,59 +1,524 @@
-import { ENV_LABELS } from "./constants";
+import type { ServicesQueryState } from "@/hooks/use-services-query-state";
+import type { BlastRadius } from "./blast-radius";
+import {
+  type CustomFieldDefinition,
+  formatCustomFieldValue,
+} from "./custom-fields";
+import { DEFAULT_LIFECYCLE_STATUS, getLifecycleLabel } from "./lifecycle";
+import {
+  SERVICE_IMPORT_STATUS_LABELS,
+  type ServiceImportRowResult,
+} from "./service-import";
+import { formatServiceLinks } from "./service-links";
+import { formatTechStack } from "./tech-stack";
 import type { GroupedService } from "./types";
+import {
+  createXlsxWorkbook,
+  XLSX_MIME_TYPE,
+  type XlsxCell,
+  type XlsxSheet,
+  type XlsxSheetStream,
+} from "./xlsx";
+
+const QUOTE_PATTERN = /"/g;
+const FILENAME_SEPARATOR_PATTERN = /[^a-z0-9]+/g;
+const FILENAME_EDGE_DASHES_PATTERN = /^-|-$/g;
+const FILE_EXTENSION_PATTERN = /\.[^.]+$/;
 
 /**
- * Exports services data to CSV format
- */
-export function exportServicesToCsv(services: readonly GroupedService[]): void {
-  const csvRows: string[][] = [];
-
-  for (const service of services) {
-    if (service.environments.length === 0) {
-      csvRows.push([
-        service.name,
-        service.owner,
-        service.repository,
-        "—",
-        "—",
-        "—",
-        "—",
-        "—",
-      ]);
-    } else {
-      for (const env of service.environments) {
-        csvRows.push([
-          service.name,
-          service.owner,
-          service.repository,
-          env.domain,
-          ENV_LABELS[env.env],
-          env.branch ?? "—",
-          env.runtimeType ?? "—",
-          env.runtimeId ?? "—",
-        ]);
-      }
-    }
-  }
+ * Shown for empty values in the CSV export
+ */
+const EMPTY_CELL = "—";
+
+/**
+ * Line of the metadata sheet describing an export
+ */
+export interface ServiceExportMetadata {
+  readonly label: string;
+  readonly value: string;
+}
 
-  const csvContent = [
-    [
-      "Service",
-      "Owner",
-      "Repository",
-      "Domain",
-      "Environment",
-      "Branch",
-      "Runtime Type",
-      "Runtime ID",
-    ].join(","),
-    ...csvRows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-  ].join("\n");
-
-  const blob = new Blob([csvContent], { type: "text/csv" });
+/**
+ * Columns describing the service, repeated on each interface row
+ */
+const SERVICE_COLUMNS = [
+  "Service",
+  "Description",
+  "Team",
+  "Repository",
+  "Languages",
+  "Dependencies",
+];
+
+/**
+ * Columns describing an interface
+ */
+const INTERFACE_COLUMNS = [
+  "Domain",
+  "Environment",
+  "Branch",
+  "Runtime Type",
+  "Runtime ID",
+];
+
+/**
+ * Columns following the service and interface ones
+ */
+const DETAIL_COLUMNS = [
+  "Lifecycle",
+  "Sunset Date",
+  "Replacement",
+  "Tags",
+  "Tech Stack",
+  "Links",
+];
+
+/**
+ * Triggers a browser download of a file
+ */
+export function downloadFile(
+  content: BlobPart,
+  filename: string,
+  type: string
+): void {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
   anchor.href = url;
-  anchor.download = "services-export.csv";
+  anchor.download = filename;
   anchor.click();
   URL.revokeObjectURL(url);
 }
+
+/**
+ * Quotes a CSV cell, doubling embedded quotes
+ */
+function escapeCsvCell(cell: string): string {
+  return `"${cell.replace(QUOTE_PATTERN, '""')}"`;
+}
+
+/**
+ * CSV content of a header row and data rows
+ */
+function toCsv(rows: readonly (readonly string[])[]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n");
+}
+
+/**
+ * Column labels of the custom fields
+ */
+function getCustomFieldColumns(
+  customFields: readonly CustomFieldDefinition[]
+): string[] {
+  return customFields.map((field) => field.label);
+}
+
+/**
+ * Cells of the service columns
+ */
+function getServiceCells(service: GroupedService): string[] {
+  return [
+    service.name,
+    service.description ?? "",
+    service.owner,
+    service.repository,
+    (service.languages ?? []).join(", "),
+    service.dependencies.join(", "),
+  ];
+}
+
+/**
+ * Cells of the detail columns and custom fields
+ */
+function getDetailCells(
+  service: GroupedService,
+  customFields: readonly CustomFieldDefinition[]
+): string[] {
+  return [
+    getLifecycleLabel(service.lifecycle ?? DEFAULT_LIFECYCLE_STATUS),
+    service.sunsetDate ?? "",
+    service.replacementName ?? "",
+    (service.tags ?? []).map((tag) => tag.name).join(", "),
+    formatTechStack(service.techStack ?? []),
+    formatServiceLinks(service.links ?? []),
+    ...customFields.map((field) =>
+      formatCustomFieldValue(service.customFields?.[field.key])
+    ),
+  ];
+}
+
+/**
+ * Header of the Interfaces sheet and of the CSV export
+ */
+export function getInterfaceExportColumns(
+  customFields: readonly CustomFieldDefinition[]
+): string[] {
+  return [
+    ...SERVICE_COLUMNS,
+    ...INTERFACE_COLUMNS,
+    ...DETAIL_COLUMNS,
+    ...getCustomFieldColumns(customFields),
+  ];
+}
+
+/**
+ * One row per interface of a service with the service fields repeated; a
+ * service without interfaces gets a single row with empty interface cells
+ */
+export function getInterfaceExportRows(
+  service: GroupedService,
+  customFields: readonly CustomFieldDefinition[]
+): string[][] {
+  const serviceCells = getServiceCells(service);
+  const detailCells = getDetailCells(service, customFields);
+  if (service.environments.length === 0) {
+    return [
+      [...serviceCells, ...INTERFACE_COLUMNS.map(() => ""), ...detailCells],
+    ];
+  }
+  return service.environments.map((env) => [
+    ...serviceCells,
+    env.domain,
+    env.envLabel,
+    env.branch ?? "",
+    env.runtimeType ?? "",
+    env.runtimeId ?? "",
+    ...detailCells,
+  ]);
+}
+
+/**
+ * Header of the Services sheet
+ */
+export function getServiceExportColumns(
+  customFields: readonly CustomFieldDefinition[]
+): string[] {
+  return [
+    ...SERVICE_COLUMNS,
+    "Environments",
+    "Interfaces",
+    ...DETAIL_COLUMNS,
+    ...getCustomFieldColumns(customFields),
+  ];
+}
+
+/**
+ * Row of a service in the Services sheet, with its environments and
+ * interface count
+ */
+export function getServiceExportRow(
+  service: GroupedService,
+  customFields: readonly CustomFieldDefinition[]
+): XlsxCell[] {
+  return [
+    ...getServiceCells(service),
+    Array.from(new Set(service.environments.map((env) => env.envLabel))).join(
+      ", "
+    ),
+    service.environments.length,
+    ...getDetailCells(service, customFields),
+  ];
+}
+
+/**
+ * Header of the Dependencies sheet
+ */
+export const DEPENDENCY_EXPORT_COLUMNS = ["Service", "Team", "Dependency"];
+
+/**
+ * One row per dependency of a service
+ */
+export function getDependencyExportRows(service: GroupedService): string[][] {
+  return service.dependencies.map((dependency) => [
+    service.name,
+    service.owner,
+    dependency,
+  ]);
+}
+
+/**
+ * Header of the Export sheet
+ */
+export const METADATA_EXPORT_COLUMNS = ["Field", "Value"];
+
+/**
+ * Rows of the Export sheet: when the file was written, how many services it
+ * holds and the search and filters they were selected with
+ */
+export function getMetadataExportRows(
+  serviceCount: number,
+  metadata: readonly ServiceExportMetadata[],
+  exportedAt: Date
+): XlsxCell[][] {
+  return [
+    ["Exported at", exportedAt.toISOString()],
+    ["Services", serviceCount],
+    ...metadata.map((entry) => [entry.label, entry.value]),
+  ];
+}
+
+/**
+ * Line of the services CSV, with "—" for empty cells
+ */
+export function toServicesCsvLine(row: readonly string[]): string {
+  return row.map((cell) => escapeCsvCell(cell || EMPTY_CELL)).join(",");
+}
+
+/**
+ * Joins the selected values of a filter, or "—" when none is selected
+ */
+function formatFilterValues(values: readonly string[]): string {
+  return values.length > 0 ? values.join(", ") : EMPTY_CELL;
+}
+
+/**
+ * Describes the search and filters of the services view for the metadata
+ * sheet. Custom field filters are labelled with their field.
+ */
+export function getServiceExportMetadata(
+  queryState: ServicesQueryState,
+  customFields: readonly CustomFieldDefinition[] = []
+): ServiceExportMetadata[] {
+  const customFilters = Object.entries(queryState.custom)
+    .filter(([, values]) => values.length > 0)
+    .map(([key, values]) => ({
+      label:
+        customFields.find((field) => field.key === key)?.label ??
+        `Field ${key}`,
+      value: formatFilterValues(values),
+    }));
+
+  return [
+    { label: "Search", value: queryState.q.trim() || EMPTY_CELL },
+    {
+      label: "Match",
+      value: queryState.match === "any" ? "Any filter" : "All filters",
+    },
+    { label: "Environments", value: formatFilterValues(queryState.env) },
+    { label: "Teams", value: formatFilterValues(queryState.owner) },
+    { label: "Runtimes", value: formatFilterValues(queryState.runtime) },
+    {
+      label: "Lifecycle",
+      value: formatFilterValues(
+        queryState.lifecycle.map((status) => getLifecycleLabel(status))
+      ),
+    },
+    { label: "Tags", value: formatFilterValues(queryState.tag) },
+    ...customFilters,
+  ];
+}
+
+/**
+ * Sheets of the services workbook: services, interfaces, dependencies and
+ * the export metadata
+ */
+export function buildServiceWorkbookSheets(
+  services: readonly GroupedService[],
+  customFields: readonly CustomFieldDefinition[],
+  metadata: readonly ServiceExportMetadata[],
+  exportedAt: Date
+): XlsxSheet[] {
+  return [
+    {
+      name: "Services",
+      rows: [
+        getServiceExportColumns(customFields),
+        ...services.map((service) =>
+          getServiceExportRow(service, customFields)
+        ),
+      ],
+    },
+    {
+      name: "Interfaces",
+      rows: [
+        getInterfaceExportColumns(customFields),
+        ...services.flatMap((service) =>
+          getInterfaceExportRows(service, customFields)
+        ),
+      ],
+    },
+    {
+      name: "Dependencies",
+      rows: [
+        DEPENDENCY_EXPORT_COLUMNS,
+        ...services.flatMap(getDependencyExportRows),
+      ],
+    },
+    {
+      name: "Export",
+      rows: [
+        METADATA_EXPORT_COLUMNS,
+        ...getMetadataExportRows(services.length, metadata, exportedAt),
+      ],
+    },
+  ];
+}
+
+/**
+ * Sheets of the services workbook written as services are read: the
+ * services are read once per sheet, so they are never all held in memory.
+ * The Export sheet comes last and counts the services of the Services sheet.
+ */
+export function buildServiceWorkbookStreams(
+  readServices: () => AsyncIterable<GroupedService>,
+  customFields: readonly CustomFieldDefinition[],
+  metadata: readonly ServiceExportMetadata[],
+  exportedAt: Date
+): XlsxSheetStream[] {
+  let serviceCount = 0;
+  return [
+    {
+      name: "Services",
+      columns: getServiceExportColumns(customFields),
+      async *rows() {
+        for await (const service of readServices()) {
+          serviceCount++;
+          yield getServiceExportRow(service, customFields);
+        }
+      },
+    },
+    {
+      name: "Interfaces",
+      columns: getInterfaceExportColumns(customFields),
+      async *rows() {
+        for await (const service of readServices()) {
+          yield* getInterfaceExportRows(service, customFields);
+        }
+      },
+    },
+    {
+      name: "Dependencies",
+      columns: DEPENDENCY_EXPORT_COLUMNS,
+      async *rows() {
+        for await (const service of readServices()) {
+          yield* getDependencyExportRows(service);
+        }
+      },
+    },
+    {
+      name: "Export",
+      columns: METADATA_EXPORT_COLUMNS,
+      rows: () => getMetadataExportRows(serviceCount, metadata, exportedAt),
+    },
+  ];
+}
+
+/**
+ * Content of the services CSV: the rows of the Interfaces sheet, with "—"
+ * for empty cells
+ */
+export function createServicesCsv(
+  services: readonly GroupedService[],
+  customFields: readonly CustomFieldDefinition[] = []
+): string {
+  return [
+    getInterfaceExportColumns(customFields),
+    ...services.flatMap((service) =>
+      getInterfaceExportRows(service, customFields)
+    ),
+  ]
+    .map(toServicesCsvLine)
+    .join("\n");
+}
+
+/**
+ * Exports services data to CSV format, one row per interface, with the
+ * service fields, the lifecycle columns, the tags, the tech stack, the
+ * operational links and a column per custom field
+ */
+export function exportServicesToCsv(
+  services: readonly GroupedService[],
+  customFields: readonly CustomFieldDefinition[] = []
+): void {
+  downloadFile(
+    createServicesCsv(services, customFields),
+    "services-export.csv",
+    "text/csv"
+  );
+}
+
+/**
+ * Exports services to an Excel workbook with a Services, an Interfaces, a
+ * Dependencies and an Export sheet. The Export sheet records when the file
+ * was written and the search and filters it reflects.
+ */
+export function exportServicesToXlsx(
+  services: readonly GroupedService[],
+  customFields: readonly CustomFieldDefinition[] = [],
+  metadata: readonly ServiceExportMetadata[] = []
+): void {
+  const exportedAt = new Date();
+  const workbook = createXlsxWorkbook(
+    buildServiceWorkbookSheets(services, customFields, metadata, exportedAt),
+    exportedAt
+  );
+  downloadFile(workbook, "services-export.xlsx", XLSX_MIME_TYPE);
+}
+
+/**
+ * Exports a blast radius analysis to CSV, one row per affected service
+ */
+export function exportBlastRadiusToCsv(blastRadius: BlastRadius): void {
+  const rows = blastRadius.affected.map((entry) => [
+    entry.name,
+    String(entry.depth),
+    entry.owner,
+    entry.via,
+    entry.productionDomains.join(" "),
+  ]);
+
+  const csvContent = toCsv([
+    ["Service", "Depth", "Team", "Via", "Production Domains"],
+    ...rows,
+  ]);
+
+  const subject = blastRadius.subject.name
+    .toLowerCase()
+    .replace(FILENAME_SEPARATOR_PATTERN, "-")
+    .replace(FILENAME_EDGE_DASHES_PATTERN, "");
+  downloadFile(
+    csvContent,
+    `blast-radius-${subject || "export"}.csv`,
+    "text/csv"
+  );
+}
+
+/**
+ * Exports the rows an import held back or failed to save to CSV, one line
+ * per message, so they can be fixed in the sheet and imported again
+ *
+ * @param fileName - Name of the imported file, used to name the report
+ */
+export function exportServiceImportReport(
+  rows: readonly ServiceImportRowResult[],
+  fileName: string
+): void {
+  const lines = rows
+    .filter(
+      (row) =>
+        row.status === "conflict" ||
+        row.status === "error" ||
+        row.status === "failed"
+    )
+    .flatMap((row) =>
+      row.messages.map((message) => [
+        String(row.rowNumber),
+        row.serviceName,
+        SERVICE_IMPORT_STATUS_LABELS[row.status],
+        message,
+      ])
+    );
+
+  const csvContent = toCsv([["Row", "Service", "Status", "Message"], ...lines]);
+
+  const subject = fileName
+    .replace(FILE_EXTENSION_PATTERN, "")
+    .toLowerCase()
+    .replace(FILENAME_SEPARATOR_PATTERN, "-")
+    .replace(FILENAME_EDGE_DASHES_PATTERN, "");
+  downloadFile(
+    csvContent,
+    `import-errors-${subject || "services"}.csv`,
+    "text/csv"
+  );
+}
@@ -37,6 +37,8 @@ import {
   SORT_FIELD_MAPS,
   STICKY_COLUMNS,
 } from "@/utils/table-configs";
+import { BulkActionBar } from "./bulk-action-bar";
+import type { ServiceBulkAction } from "./bulk-edit";
 import { useServiceTableColumns } from "./columns";
 import { NON_CLICKABLE_COLUMNS, TABLE_ID } from "./constants";
 import { exportServicesToCsv } from "./export";
@@ -45,6 +47,15 @@ import type { GroupedService, ServiceTableProps } from "./types";
 import { useServiceData } from "./use-service-data";
 
 const ROW_HEIGHT = ROW_HEIGHTS[TABLE_ID];
+const SELECT_COLUMN_ID = "select";
+
+/**
+ * Sticky columns without the selection column, for tables without bulk
+ * actions
+ */
+const UNSELECTABLE_STICKY_COLUMNS = STICKY_COLUMNS[TABLE_ID].filter(
+  (col) => col.id !== SELECT_COLUMN_ID
+);
 
 /**
  * Sort button component for table headers
@@ -133,6 +144,11 @@ function renderHeaderContent<TData>(
   const sortFieldMap = SORT_FIELD_MAPS[TABLE_ID];
   const sortField = sortFieldMap?.[columnId];
 
+  // Selection column - the select-all checkbox
+  if (columnId === SELECT_COLUMN_ID) {
+    return flexRender(header.column.columnDef.header, header.getContext());
+  }
+
   // Actions column - static text
   if (columnId === "actions") {
     return (
@@ -324,9 +340,16 @@ export function ServiceTable({
   initialSearchQuery = "",
   onSearchChange,
   showHeader = true,
+  onView,
   onEdit,
   onDelete,
+  onDuplicate,
+  customFields,
+  onBulkAction,
+  canBulkEdit = false,
+  canBulkDelete = false,
 }: ServiceTableProps) {
+  const selectable = onBulkAction !== undefined;
   const [searchTerm, setSearchTerm] = useState(initialSearchQuery);
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
   const parentRef = useRef<HTMLDivElement>(null);
@@ -377,6 +400,7 @@ export function ServiceTable({
   }, [providedServices, yamlData.filteredServices, sortColumn, sortValue]);
 
   const columns = useServiceTableColumns({
+    onView,
     onEdit:
       onEdit ??
       (() => {
@@ -387,6 +411,9 @@ export function ServiceTable({
       (() => {
         // No-op: default callback when onDelete is not provided
       }),
+    onDuplicate,
+    customFields,
+    selectable,
   });
 
   const {
@@ -398,6 +425,17 @@ export function ServiceTable({
     setColumnOrder,
   } = useTableSettings({ tableId: TABLE_ID });
 
+  // Orders saved before rows were selectable keep the checkbox first
+  const effectiveColumnOrder = useMemo(
+    () =>
+      selectable &&
+      columnOrder.length > 0 &&
+      !columnOrder.includes(SELECT_COLUMN_ID)
+        ? [SELECT_COLUMN_ID, ...columnOrder]
+        : columnOrder,
+    [selectable, columnOrder]
+  );
+
   const table = useReactTable({
     getRowId: (row) => row.id,
     data: filteredServices,
@@ -413,7 +451,7 @@ export function ServiceTable({
       rowSelection,
       columnVisibility,
       columnSizing,
-      columnOrder,
+      columnOrder: effectiveColumnOrder,
     },
     meta: {
       callbacks: {
@@ -430,18 +468,22 @@ export function ServiceTable({
     },
   });
 
+  const stickyColumns = selectable
+    ? STICKY_COLUMNS[TABLE_ID]
+    : UNSELECTABLE_STICKY_COLUMNS;
+
   const { getStickyStyle, getStickyClassName } = useStickyColumns({
     columnVisibility,
     table,
     loading: false,
-    stickyColumns: STICKY_COLUMNS[TABLE_ID],
+    stickyColumns,
   });
 
   const { sensors, handleDragEnd } = useTableDnd(table);
 
   const tableScroll = useTableScroll({
     useColumnWidths: true,
-    startFromColumn: STICKY_COLUMNS[TABLE_ID].length,
+    startFromColumn: stickyColumns.length,
   });
 
   const { rows } = table.getRowModel();
@@ -468,8 +510,29 @@ export function ServiceTable({
   );
 
   const handleExportCsv = useCallback(() => {
-    exportServicesToCsv(filteredServices);
-  }, [filteredServices]);
+    exportServicesToCsv(filteredServices, customFields);
+  }, [filteredServices, customFields]);
+
+  // Rows hidden by the search or filters are left out of bulk actions
+  const selectedServices = useMemo(
+    () => filteredServices.filter((service) => rowSelection[service.id]),
+    [filteredServices, rowSelection]
+  );
+
+  const handleBulkAction = useCallback(
+    (action: ServiceBulkAction) => {
+      onBulkAction?.(action, selectedServices);
+    },
+    [onBulkAction, selectedServices]
+  );
+
+  const handleExportSelection = useCallback(() => {
+    exportServicesToCsv(selectedServices, customFields);
+  }, [selectedServices, customFields]);
+
+  const handleClearSelection = useCallback(() => {
+    setRowSelection({});
+  }, []);
 
   const handleSearchChange = useCallback(
     (value: string) => {
@@ -497,6 +560,17 @@ export function ServiceTable({
         />
       )}
 
+      {selectable && selectedServices.length > 0 && (
+        <BulkActionBar
+          canDelete={canBulkDelete}
+          canEdit={canBulkEdit}
+          onAction={handleBulkAction}
+          onClear={handleClearSelection}
+          onExport={handleExportSelection}
+          selectedCount={selectedServices.length}
+        />
+      )}
+
       {filteredServices.length === 0 ? (
         <NoResults onClear={() => handleSearchChange("")} />
       ) : (
@@ -551,7 +625,7 @@ export function ServiceTable({
                     const row = rows[virtualRow.index];
                     return (
                       <VirtualRow
-                        columnOrder={columnOrder}
+                        columnOrder={effectiveColumnOrder}
                         columnSizing={columnSizing}
                         columnVisibility={columnVisibility}
                         getStickyClassName={getStickyClassName}
@@ -0,0 +1,52 @@
+/**
+ * Lifecycle Badge
+ *
+ * Status badge of a service's lifecycle, used in the services table and on
+ * the service page.
+ */
+
+"use client";
+
+import {
+  PillIndicator,
+  type PillIndicatorProps,
+} from "@/components/kibo-ui/pill";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getLifecycleLabel, type LifecycleStatus } from "./lifecycle";
+
+/**
+ * Indicator colour of each status
+ */
+const LIFECYCLE_INDICATORS: Readonly<
+  Record<LifecycleStatus, NonNullable<PillIndicatorProps["variant"]>>
+> = {
+  planned: "info",
+  active: "success",
+  deprecated: "warning",
+  retired: "error",
+};
+
+interface LifecycleBadgeProps {
+  readonly status: LifecycleStatus;
+  readonly className?: string;
+}
+
+/**
+ * Outlined badge with a coloured dot and the status name
+ */
+export function LifecycleBadge({ status, className }: LifecycleBadgeProps) {
+  return (
+    <Badge
+      className={cn(
+        "gap-1.5 font-normal",
+        status === "retired" && "text-muted-foreground",
+        className
+      )}
+      variant="outline"
+    >
+      <PillIndicator variant={LIFECYCLE_INDICATORS[status]} />
+      {getLifecycleLabel(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Lifecycle Fields
+ *
+ * Lifecycle inputs of the service form: the status, limited to the ones the
+ * stored status can move to, and for deprecated and retired services the
+ * sunset date and the replacing service.
+ */
+
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLifecycleLabel,
+  getLifecycleStatusOptions,
+  hasSunset,
+  type LifecycleFields,
+  type LifecycleStatus,
+  type ServiceReference,
+} from "./lifecycle";
+
+/** Select value of a deprecated service without a replacement yet */
+const NO_REPLACEMENT = "__none__";
+
+interface LifecycleFieldsInputProps {
+  readonly value: LifecycleFields;
+  /** Stored status; null while creating the service */
+  readonly previousStatus: LifecycleStatus | null;
+  /** Services that can replace this one */
+  readonly replacementOptions: readonly ServiceReference[];
+  readonly errors: Partial<Record<keyof LifecycleFields, string>>;
+  readonly onChange: (value: LifecycleFields) => void;
+}
+
+/**
+ * Status select with the sunset date and replacement of phased-out services
+ */
+export function LifecycleFieldsInput({
+  value,
+  previousStatus,
+  replacementOptions,
+  errors,
+  onChange,
+}: LifecycleFieldsInputProps) {
+  const statusOptions = getLifecycleStatusOptions(previousStatus);
+  // A stored replacement stays selectable after it leaves the options
+  const { replacement: currentReplacement } = value;
+  const options =
+    currentReplacement &&
+    !replacementOptions.some((option) => option.id === currentReplacement.id)
+      ? [currentReplacement, ...replacementOptions]
+      : replacementOptions;
+
+  const handleReplacementChange = (replacementId: string) => {
+    const replacement =
+      options.find((option) => option.id === replacementId) ?? null;
+    onChange({
+      ...value,
+      replacement: replacement
+        ? { id: replacement.id, name: replacement.name }
+        : null,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 pb-2">
+      <div className="space-y-2">
+        <Label htmlFor="service-lifecycle">Status</Label>
+        <Select
+          onValueChange={(next) =>
+            onChange({ ...value, lifecycle: next as LifecycleStatus })
+          }
+          value={value.lifecycle}
+        >
+          <SelectTrigger
+            aria-invalid={errors.lifecycle ? "true" : "false"}
+            id="service-lifecycle"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {statusOptions.map((status) => (
+              <SelectItem key={status} value={status}>
+                {getLifecycleLabel(status)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {errors.lifecycle ? (
+          <p className="text-destructive text-xs">{errors.lifecycle}</p>
+        ) : (
+          previousStatus === "retired" && (
+            <p className="text-muted-foreground text-xs">
+              Retired services can't change status.
+            </p>
+          )
+        )}
+      </div>
+
+      {hasSunset(value.lifecycle) && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="service-sunset-date">
+              Sunset date
+              {value.lifecycle === "deprecated" && (
+                <span className="text-destructive"> *</span>
+              )}
+            </Label>
+            <Input
+              aria-invalid={errors.sunsetDate ? "true" : "false"}
+              id="service-sunset-date"
+              onChange={(e) =>
+                onChange({ ...value, sunsetDate: e.target.value || null })
+              }
+              type="date"
+              value={value.sunsetDate ?? ""}
+            />
+            {errors.sunsetDate && (
+              <p className="text-destructive text-xs">{errors.sunsetDate}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="service-replacement">
+              Replacement
+              {value.lifecycle === "deprecated" && (
+                <span className="text-destructive"> *</span>
+              )}
+            </Label>
+            <Select
+              onValueChange={handleReplacementChange}
+              value={value.replacement?.id ?? NO_REPLACEMENT}
+            >
+              <SelectTrigger
+                aria-invalid={errors.replacement ? "true" : "false"}
+                id="service-replacement"
+              >
+                <SelectValue placeholder="Select a service" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_REPLACEMENT}>
+                  <span className="text-muted-foreground">None</span>
+                </SelectItem>
+                {options.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.replacement ? (
+              <p className="text-destructive text-xs">{errors.replacement}</p>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                Services depending on this one are told to move to it.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
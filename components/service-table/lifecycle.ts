@@ -0,0 +1,343 @@
+/**
+ * Service Lifecycle
+ *
+ * Every service is planned, active, deprecated or retired. Services move
+ * through the lifecycle along fixed transitions: planned services go live or
+ * are abandoned, active services are deprecated, and deprecated services are
+ * either reinstated or retired. Retirement is final.
+ *
+ * Deprecated services carry a sunset date and the service replacing them
+ * (`replacement` link); retired services keep them for reference. Services
+ * that predate the lifecycle are active.
+ */
+
+/**
+ * Lifecycle status of a service
+ */
+export type LifecycleStatus = "planned" | "active" | "deprecated" | "retired";
+
+/**
+ * Lifecycle statuses with their display names, in lifecycle order
+ */
+export const LIFECYCLE_STATUSES: ReadonlyArray<{
+  readonly value: LifecycleStatus;
+  readonly label: string;
+  readonly description: string;
+}> = [
+  { value: "planned", label: "Planned", description: "Not live yet" },
+  { value: "active", label: "Active", description: "Live and supported" },
+  {
+    value: "deprecated",
+    label: "Deprecated",
+    description: "Being phased out for a replacement",
+  },
+  { value: "retired", label: "Retired", description: "No longer running" },
+];
+
+/**
+ * Status of services stored without one
+ */
+export const DEFAULT_LIFECYCLE_STATUS: LifecycleStatus = "active";
+
+/**
+ * Statuses a service can move to from each status
+ */
+const LIFECYCLE_TRANSITIONS: Readonly<
+  Record<LifecycleStatus, readonly LifecycleStatus[]>
+> = {
+  planned: ["active", "retired"],
+  active: ["deprecated"],
+  deprecated: ["active", "retired"],
+  retired: [],
+};
+
+/**
+ * Statuses a new service can start in
+ */
+const INITIAL_LIFECYCLE_STATUSES: readonly LifecycleStatus[] = [
+  "planned",
+  "active",
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Service the lifecycle fields refer to
+ */
+export interface ServiceReference {
+  readonly id: string;
+  readonly name: string;
+}
+
+/**
+ * Lifecycle fields of a service
+ */
+export interface LifecycleFields {
+  readonly lifecycle: LifecycleStatus;
+  /** "YYYY-MM-DD"; only kept on deprecated and retired services */
+  readonly sunsetDate: string | null;
+  /** Only kept on deprecated and retired services */
+  readonly replacement: ServiceReference | null;
+}
+
+/**
+ * Service record with its lifecycle, as loaded with the `replacement` link
+ */
+export interface LifecycleSource {
+  readonly id: string;
+  readonly name: string;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+}
+
+/**
+ * Dependency on a deprecated or retired service, shown to its dependents
+ */
+export interface LifecycleWarning {
+  readonly serviceId: string;
+  readonly name: string;
+  readonly lifecycle: LifecycleStatus;
+  readonly sunsetDate: string | null;
+  readonly replacementName: string | null;
+}
+
+/**
+ * Deprecated service in the upcoming sunsets list
+ */
+export interface UpcomingSunset {
+  readonly id: string;
+  readonly name: string;
+  readonly sunsetDate: string | null;
+  /** Days until the sunset date, negative once passed; null without a date */
+  readonly daysLeft: number | null;
+  readonly replacementName: string | null;
+  /** Services that still depend on it */
+  readonly dependents: readonly ServiceReference[];
+}
+
+/**
+ * Whether a value is a lifecycle status
+ */
+export function isLifecycleStatus(value: string): value is LifecycleStatus {
+  return LIFECYCLE_STATUSES.some((status) => status.value === value);
+}
+
+/**
+ * Status of a stored value; missing and unknown values are active
+ */
+export function resolveLifecycleStatus(
+  value: string | null | undefined
+): LifecycleStatus {
+  const normalized = value?.trim().toLowerCase() ?? "";
+  return isLifecycleStatus(normalized) ? normalized : DEFAULT_LIFECYCLE_STATUS;
+}
+
+/**
+ * Display name of a lifecycle status
+ */
+export function getLifecycleLabel(status: LifecycleStatus): string {
+  return (
+    LIFECYCLE_STATUSES.find((option) => option.value === status)?.label ??
+    status
+  );
+}
+
+/**
+ * Whether a service can move between two statuses. A null origin stands for
+ * a new service.
+ */
+export function canTransitionLifecycle(
+  from: LifecycleStatus | null,
+  to: LifecycleStatus
+): boolean {
+  if (from === null) {
+    return INITIAL_LIFECYCLE_STATUSES.includes(to);
+  }
+  return from === to || LIFECYCLE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses offered in the service form: the current status and the ones it
+ * can move to, in lifecycle order
+ */
+export function getLifecycleStatusOptions(
+  from: LifecycleStatus | null
+): LifecycleStatus[] {
+  return LIFECYCLE_STATUSES.map((status) => status.value).filter((status) =>
+    canTransitionLifecycle(from, status)
+  );
+}
+
+/**
+ * Whether a status carries a sunset date and a replacement
+ */
+export function hasSunset(status: LifecycleStatus): boolean {
+  return status === "deprecated" || status === "retired";
+}
+
+/**
+ * Drops the sunset date and replacement of statuses that don't carry them
+ */
+export function normalizeLifecycleFields(
+  fields: LifecycleFields
+): LifecycleFields {
+  if (!hasSunset(fields.lifecycle)) {
+    return { lifecycle: fields.lifecycle, sunsetDate: null, replacement: null };
+  }
+  return {
+    lifecycle: fields.lifecycle,
+    sunsetDate: fields.sunsetDate?.trim() || null,
+    replacement: fields.replacement,
+  };
+}
+
+/**
+ * Lifecycle fields of a stored service
+ */
+export function getLifecycleFields(service: LifecycleSource): LifecycleFields {
+  return normalizeLifecycleFields({
+    lifecycle: resolveLifecycleStatus(service.lifecycle),
+    sunsetDate: service.sunsetDate ?? null,
+    replacement: service.replacement
+      ? { id: service.replacement.id, name: service.replacement.name }
+      : null,
+  });
+}
+
+/**
+ * Whole days from today to a "YYYY-MM-DD" date, negative once it has passed
+ */
+export function getDaysUntil(date: string, today: Date): number | null {
+  const target = Date.parse(`${date}T00:00:00Z`);
+  if (Number.isNaN(target)) {
+    return null;
+  }
+  const start = Date.UTC(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate()
+  );
+  return Math.round((target - start) / MS_PER_DAY);
+}
+
+/**
+ * Describes how far away a sunset is: "in 12 days", "today", "3 days ago"
+ */
+export function formatSunsetDistance(daysLeft: number | null): string {
+  if (daysLeft === null) {
+    return "No sunset date";
+  }
+  if (daysLeft === 0) {
+    return "Today";
+  }
+  const days = Math.abs(daysLeft);
+  const unit = days === 1 ? "day" : "days";
+  return daysLeft > 0 ? `In ${days} ${unit}` : `${days} ${unit} ago`;
+}
+
+/**
+ * Warnings for the dependencies of a service on deprecated or retired
+ * services, in dependency order
+ */
+export function getLifecycleWarnings(
+  targets: ReadonlyArray<LifecycleSource | null | undefined>
+): LifecycleWarning[] {
+  const warnings: LifecycleWarning[] = [];
+  const seen = new Set<string>();
+  for (const target of targets) {
+    if (!target || seen.has(target.id)) {
+      continue;
+    }
+    seen.add(target.id);
+    const fields = getLifecycleFields(target);
+    if (hasSunset(fields.lifecycle)) {
+      warnings.push({
+        serviceId: target.id,
+        name: target.name,
+        lifecycle: fields.lifecycle,
+        sunsetDate: fields.sunsetDate,
+        replacementName: fields.replacement?.name ?? null,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Summarises lifecycle warnings for a tooltip
+ */
+export function formatLifecycleWarnings(
+  warnings: readonly LifecycleWarning[]
+): string {
+  return warnings
+    .map((warning) => {
+      const parts = [
+        `${warning.name} is ${getLifecycleLabel(warning.lifecycle).toLowerCase()}`,
+      ];
+      if (warning.sunsetDate) {
+        parts.push(`sunset ${warning.sunsetDate}`);
+      }
+      if (warning.replacementName) {
+        parts.push(`use ${warning.replacementName}`);
+      }
+      return parts.join(", ");
+    })
+    .join("\n");
+}
+
+/**
+ * Deprecated services ordered by sunset date, soonest (or overdue) first and
+ * those without a date last, with the services still depending on them
+ */
+export function getUpcomingSunsets(
+  services: ReadonlyArray<
+    LifecycleSource & {
+      readonly dependencies?: ReadonlyArray<{
+        readonly target?: { readonly id: string } | null;
+      }>;
+    }
+  >,
+  today: Date
+): UpcomingSunset[] {
+  const dependentsById = new Map<string, ServiceReference[]>();
+  for (const service of services) {
+    for (const dep of service.dependencies ?? []) {
+      const targetId = dep.target?.id;
+      if (!targetId || targetId === service.id) {
+        continue;
+      }
+      const dependents = dependentsById.get(targetId) ?? [];
+      if (!dependents.some((dependent) => dependent.id === service.id)) {
+        dependents.push({ id: service.id, name: service.name });
+      }
+      dependentsById.set(targetId, dependents);
+    }
+  }
+
+  return services
+    .filter(
+      (service) => resolveLifecycleStatus(service.lifecycle) === "deprecated"
+    )
+    .map((service) => {
+      const fields = getLifecycleFields(service);
+      return {
+        id: service.id,
+        name: service.name,
+        sunsetDate: fields.sunsetDate,
+        daysLeft: fields.sunsetDate
+          ? getDaysUntil(fields.sunsetDate, today)
+          : null,
+        replacementName: fields.replacement?.name ?? null,
+        dependents: (dependentsById.get(service.id) ?? []).sort((a, b) =>
+          a.name.localeCompare(b.name)
+        ),
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.daysLeft ?? Number.POSITIVE_INFINITY) -
+          (b.daysLeft ?? Number.POSITIVE_INFINITY) ||
+        a.name.localeCompare(b.name)
+    );
+}
@@ -0,0 +1,179 @@
+/**
+ * Revision Restore
+ *
+ * Checks a revision against the organization as it is now, before "restore
+ * this revision" writes it back. The organization may have moved on since the
+ * revision was recorded: its name or domains may be taken by another service,
+ * its dependencies may close a cycle, its lifecycle may be behind the stored
+ * one, and the team, replacement or dependency targets it links to may be in
+ * the trash or purged.
+ *
+ * The same rules as the service form apply; a revision with errors is not
+ * restored.
+ */
+
+import { buildServiceDependencyAdjacency } from "./dependency-cycles";
+import type { DependencyGraphSource } from "./dependency-graph";
+import { buildDomainClaims, type DomainSource } from "./domains";
+import type { EnvironmentCatalog } from "./environments";
+import {
+  normalizeLifecycleFields,
+  resolveLifecycleStatus,
+  type ServiceReference,
+} from "./lifecycle";
+import type { CreateServiceFormData } from "./types";
+import {
+  validateLifecycle,
+  validateName,
+  validateServiceDependencies,
+  validateServiceInterface,
+} from "./validation";
+
+/**
+ * Stored service a revision is restored onto
+ */
+export interface RestoredServiceSource {
+  readonly id: string;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+}
+
+/**
+ * Organization a revision is restored into
+ */
+export interface RevisionRestoreContext {
+  /** Active services of the organization, including the restored one */
+  readonly services: ReadonlyArray<DomainSource & DependencyGraphSource>;
+  /** Ids of the organization's teams */
+  readonly teamIds: ReadonlySet<string>;
+  readonly environmentCatalog: EnvironmentCatalog;
+}
+
+/**
+ * Errors of the restored interfaces: domains held by another service, and
+ * the interface checks of the form
+ */
+function validateRestoredInterfaces(
+  data: CreateServiceFormData,
+  service: RestoredServiceSource,
+  context: RevisionRestoreContext
+): string[] {
+  const claims = buildDomainClaims(
+    context.services,
+    context.environmentCatalog,
+    service.id
+  );
+  return data.interfaces.flatMap((iface) =>
+    Object.values(
+      validateServiceInterface(
+        iface,
+        data.interfaces.filter((other) => other.id !== iface.id),
+        { catalog: context.environmentCatalog, claims }
+      )
+    ).map((message) => `${iface.domain}: ${message}`)
+  );
+}
+
+/**
+ * Errors of the restored dependencies: targets that are no longer active,
+ * and the self, duplicate and cycle checks of the form
+ */
+function validateRestoredDependencies(
+  data: CreateServiceFormData,
+  service: RestoredServiceSource,
+  context: RevisionRestoreContext
+): string[] {
+  const serviceNames = new Map(
+    context.services.map((source) => [source.id, source.name])
+  );
+  const errors = validateServiceDependencies(data.dependencies, {
+    serviceId: service.id,
+    serviceName: data.name,
+    adjacency: buildServiceDependencyAdjacency(context.services),
+    serviceNames,
+  });
+  return data.dependencies.flatMap((dep) => {
+    if (dep.serviceId && !serviceNames.has(dep.serviceId)) {
+      return [`${dep.name}: Service is in the trash or was deleted`];
+    }
+    const message = errors[dep.id];
+    return message ? [`${dep.name}: ${message}`] : [];
+  });
+}
+
+/**
+ * Errors of the restored lifecycle: the move from the stored status, and a
+ * replacement that is no longer active. Fields missing from older revisions
+ * keep the stored values, like the write does.
+ */
+function validateRestoredLifecycle(
+  data: CreateServiceFormData,
+  service: RestoredServiceSource,
+  context: RevisionRestoreContext
+): string[] {
+  const previousStatus = resolveLifecycleStatus(service.lifecycle);
+  const fields = normalizeLifecycleFields({
+    lifecycle: data.lifecycle ?? previousStatus,
+    sunsetDate:
+      data.sunsetDate === undefined
+        ? (service.sunsetDate ?? null)
+        : data.sunsetDate,
+    replacement:
+      data.replacement === undefined
+        ? (service.replacement ?? null)
+        : data.replacement,
+  });
+  const errors: string[] = Object.values(
+    validateLifecycle(fields, { previousStatus, serviceId: service.id })
+  ).filter((message): message is string => Boolean(message));
+
+  const { replacement } = fields;
+  if (
+    replacement &&
+    !context.services.some((source) => source.id === replacement.id)
+  ) {
+    errors.push(
+      `Replacement ${replacement.name} is in the trash or was deleted`
+    );
+  }
+  return errors;
+}
+
+/**
+ * Validates a revision, as form data, against the organization's current
+ * services and teams
+ *
+ * @param data - Revision mapped by `serviceSnapshotToFormData`
+ * @param service - Stored service the revision belongs to
+ * @returns Error messages; empty when the revision can be restored
+ */
+export function validateRevisionRestore(
+  data: CreateServiceFormData,
+  service: RestoredServiceSource,
+  context: RevisionRestoreContext
+): string[] {
+  const errors: string[] = [];
+
+  const nameError = validateName(
+    data.name,
+    context.services
+      .filter((source) => source.id !== service.id)
+      .map((source) => source.name)
+  );
+  if (nameError) {
+    errors.push(nameError);
+  }
+
+  // An undefined team (older revisions) keeps the stored one
+  if (data.teamId && !context.teamIds.has(data.teamId)) {
+    errors.push(`Team ${data.owner} was deleted`);
+  }
+
+  return [
+    ...errors,
+    ...validateRestoredInterfaces(data, service, context),
+    ...validateRestoredDependencies(data, service, context),
+    ...validateRestoredLifecycle(data, service, context),
+  ];
+}
@@ -0,0 +1,284 @@
+/**
+ * Runtime Catalog
+ *
+ * Each organization registers the runtime types its interfaces are deployed
+ * on: a key (the value stored as `runtimeType`), a label, a short badge for
+ * the table and a hint describing what the `runtimeId` looks like.
+ * Organizations that haven't registered any use the built-in defaults.
+ *
+ * Like environments, stored values are never rewritten: a runtime type that
+ * isn't in the catalog is shown as stored.
+ */
+
+import { id } from "@instantdb/react";
+import type { db } from "@/lib/db";
+
+/**
+ * Runtime type registered by an organization
+ */
+export interface RuntimeDefinition {
+  /** Value stored on interfaces as `runtimeType` */
+  readonly key: string;
+  /** Display name, e.g. "Cloud Run" */
+  readonly label: string;
+  /** Short badge shown in the services table, e.g. "CRUN" */
+  readonly badge: string;
+  /** What the runtime ID looks like, e.g. "project/region/service" */
+  readonly runtimeIdHint: string;
+}
+
+/**
+ * Resolved runtime types of an organization
+ */
+export interface RuntimeCatalog {
+  /** Sorted by label */
+  readonly runtimes: readonly RuntimeDefinition[];
+  /** True when the organization hasn't registered its own runtimes */
+  readonly isDefault: boolean;
+  /** Lowercased keys to their runtime */
+  readonly byKey: ReadonlyMap<string, RuntimeDefinition>;
+}
+
+/**
+ * Stored runtime type of an organization
+ */
+export interface StoredRuntime extends RuntimeDefinition {
+  readonly id: string;
+}
+
+/**
+ * Runtime types used until an organization registers its own
+ */
+export const DEFAULT_RUNTIMES: readonly RuntimeDefinition[] = [
+  {
+    key: "ec2",
+    label: "EC2",
+    badge: "EC2",
+    runtimeIdHint: "i-0123456789abcdef0",
+  },
+  {
+    key: "vm",
+    label: "VM",
+    badge: "VM",
+    runtimeIdHint: "hostname",
+  },
+  {
+    key: "k8s",
+    label: "K8s",
+    badge: "K8S",
+    runtimeIdHint: "cluster/namespace",
+  },
+  {
+    key: "lambda",
+    label: "Lambda",
+    badge: "λ",
+    runtimeIdHint: "function-name",
+  },
+  {
+    key: "container",
+    label: "Container",
+    badge: "CTR",
+    runtimeIdHint: "container-name",
+  },
+  {
+    key: "paas",
+    label: "PaaS",
+    badge: "PAAS",
+    runtimeIdHint: "app-name",
+  },
+];
+
+/**
+ * Placeholder of the runtime ID for runtimes without a hint
+ */
+export const DEFAULT_RUNTIME_ID_HINT = "runtime-identifier";
+
+/**
+ * Builds the catalog of an organization, falling back to the defaults when
+ * it has no runtimes
+ */
+export function createRuntimeCatalog(
+  definitions: readonly RuntimeDefinition[] | null | undefined
+): RuntimeCatalog {
+  const isDefault = !definitions || definitions.length === 0;
+  const runtimes = [...(definitions ?? [])];
+  if (isDefault) {
+    runtimes.push(...DEFAULT_RUNTIMES);
+  }
+  runtimes.sort(
+    (a, b) => a.label.localeCompare(b.label) || a.key.localeCompare(b.key)
+  );
+
+  const byKey = new Map(
+    runtimes.map((runtime) => [runtime.key.toLowerCase(), runtime])
+  );
+
+  return { runtimes, isDefault, byKey };
+}
+
+/**
+ * Catalog of the default runtimes
+ */
+export const DEFAULT_RUNTIME_CATALOG = createRuntimeCatalog(DEFAULT_RUNTIMES);
+
+/**
+ * Finds the runtime a stored runtime type refers to
+ */
+export function findRuntime(
+  catalog: RuntimeCatalog,
+  value: string | null | undefined
+): RuntimeDefinition | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  return catalog.byKey.get(normalized) ?? null;
+}
+
+/**
+ * Display label of a stored runtime type
+ */
+export function getRuntimeLabel(
+  catalog: RuntimeCatalog,
+  value: string
+): string {
+  return findRuntime(catalog, value)?.label ?? value;
+}
+
+/**
+ * Table badge of a stored runtime type
+ */
+export function getRuntimeBadge(
+  catalog: RuntimeCatalog,
+  value: string
+): string {
+  return findRuntime(catalog, value)?.badge ?? value.toUpperCase();
+}
+
+/**
+ * Runtime ID placeholder of a stored runtime type
+ */
+export function getRuntimeIdHint(
+  catalog: RuntimeCatalog,
+  value: string | null | undefined
+): string {
+  return findRuntime(catalog, value)?.runtimeIdHint || DEFAULT_RUNTIME_ID_HINT;
+}
+
+/**
+ * Builds a runtime key from a stored value: "Cloud Run" → "cloud-run"
+ */
+export function slugifyRuntimeKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "-")
+    .replace(/^[-_]+|[-_]+$/g, "");
+}
+
+/**
+ * Option of the runtime type picker
+ */
+export interface RuntimeSelectOption {
+  readonly value: string;
+  readonly label: string;
+  readonly hint: string;
+}
+
+/**
+ * Options for picking an interface runtime type: the organization's
+ * runtimes, plus stored values that aren't in the catalog so that editing a
+ * service keeps them as they are
+ */
+export function getRuntimeSelectOptions(
+  catalog: RuntimeCatalog,
+  storedValues: readonly string[]
+): RuntimeSelectOption[] {
+  const options: RuntimeSelectOption[] = catalog.runtimes.map((runtime) => ({
+    value: runtime.key,
+    label: runtime.label,
+    hint: runtime.key,
+  }));
+  const keys = new Set(options.map((option) => option.value));
+
+  for (const value of new Set(storedValues)) {
+    if (!value || keys.has(value)) {
+      continue;
+    }
+    options.push({ value, label: value, hint: "not defined" });
+  }
+  return options;
+}
+
+/**
+ * Counts interfaces per stored runtime type
+ */
+export function countRuntimeValues(
+  services: ReadonlyArray<{
+    readonly interfaces?: ReadonlyArray<{
+      readonly runtimeType?: string | null;
+    }>;
+  }>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const service of services) {
+    for (const iface of service.interfaces ?? []) {
+      const value = iface.runtimeType?.trim() ?? "";
+      if (value) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Creates a runtime type of an organization
+ */
+export function createRuntimeTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  runtimeId: string,
+  definition: RuntimeDefinition
+) {
+  return dbInstance.tx.runtimes[runtimeId]
+    .create({
+      key: definition.key.trim(),
+      label: definition.label.trim(),
+      badge: definition.badge.trim(),
+      runtimeIdHint: definition.runtimeIdHint.trim(),
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Updates a runtime type. The key is what interfaces store, so it can't be
+ * changed.
+ */
+export function createUpdateRuntimeTransaction(
+  dbInstance: typeof db,
+  runtimeId: string,
+  definition: Omit<RuntimeDefinition, "key">
+) {
+  return dbInstance.tx.runtimes[runtimeId].update({
+    label: definition.label.trim(),
+    badge: definition.badge.trim(),
+    runtimeIdHint: definition.runtimeIdHint.trim(),
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Stores the default runtimes, so an organization can start editing from them
+ */
+export function createDefaultRuntimeTransactions(
+  dbInstance: typeof db,
+  organizationId: string
+) {
+  return DEFAULT_RUNTIMES.map((definition) =>
+    createRuntimeTransaction(dbInstance, organizationId, id(), definition)
+  );
+}
@@ -0,0 +1,1394 @@
+/**
+ * Service Import
+ *
+ * Registers services from a CSV or XLSX sheet. Columns are mapped to service
+ * fields, and rows are grouped by service name into services to create or
+ * update. A sheet may hold one row per interface, like the CSV export: the
+ * service cells of those rows must agree.
+ *
+ * Empty cells keep the stored value of a field, and list cells (languages,
+ * dependencies, tags) add to the stored lists, so re-importing an edited
+ * export only changes what was edited. Each service is checked with the
+ * rules of the service form before anything is written; domains held by
+ * other services are reported as conflicts, other failures as errors.
+ *
+ * Column mappings can be saved per organization and reused for the next
+ * import of a sheet with the same headers.
+ */
+
+import { id } from "@instantdb/react";
+import { toCatalogEntityName } from "@/lib/backstage";
+import type { db } from "@/lib/db";
+import { type BulkEditSource, parseBulkEditList } from "./bulk-edit";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  getCustomFieldDefaults,
+} from "./custom-fields";
+import type { DependencyAdjacency } from "./dependency-cycles";
+import {
+  type DependencyServiceOption,
+  getDependencyDisplayName,
+  resolveDependencyTarget,
+  resolveDependencyTargetId,
+} from "./dependency-links";
+import {
+  buildDomainClaims,
+  type DomainOwner,
+  getDomainKey,
+  normalizeDomain,
+} from "./domains";
+import {
+  type EnvironmentCatalog,
+  type EnvironmentDefinition,
+  findEnvironment,
+} from "./environments";
+import {
+  DEFAULT_LIFECYCLE_STATUS,
+  LIFECYCLE_STATUSES,
+  type LifecycleStatus,
+  normalizeLifecycleFields,
+  resolveLifecycleStatus,
+} from "./lifecycle";
+import { findRuntime, type RuntimeCatalog } from "./runtimes";
+import {
+  createServiceSnapshot,
+  serviceSnapshotToFormData,
+} from "./service-revisions";
+import type { SpreadsheetTable } from "./spreadsheet-reader";
+import { isSameTagName, type TagReference } from "./tags";
+import { resolveTeam, slugifyTeamName, type TeamOption } from "./team-links";
+import type {
+  CreateServiceFormData,
+  ServiceDependency,
+  ServiceInterface,
+} from "./types";
+import {
+  validateCustomFieldValues,
+  validateLifecycle,
+  validateName,
+  validateServiceDependencies,
+  validateServiceInterface,
+  validateUrl,
+} from "./validation";
+
+const HEADER_NOISE_PATTERN = /[^a-z0-9]+/g;
+const SPREADSHEET_SERIAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Written by the CSV export for empty values
+ */
+const EXPORT_EMPTY_CELL = "—";
+
+/**
+ * Prefix of the mapping keys of custom fields
+ */
+const CUSTOM_FIELD_PREFIX = "custom:";
+
+/**
+ * Day zero of spreadsheet date serials, which XLSX files store dates as
+ */
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+const DAY_MS = 86_400_000;
+
+const TRUE_CELLS = new Set(["yes", "y", "true", "1"]);
+const FALSE_CELLS = new Set(["no", "n", "false", "0"]);
+
+/**
+ * Service field a sheet column can be mapped to
+ */
+export interface ServiceImportField {
+  /** Mapping key: the field name, or "custom:" and a custom field key */
+  readonly key: string;
+  readonly label: string;
+  /** Whether a column must be mapped to the field before importing */
+  readonly required: boolean;
+  /** Other headers recognised for the field, besides its label */
+  readonly aliases: readonly string[];
+}
+
+/**
+ * Column header mapped to each field, by field key
+ */
+export type ServiceImportMapping = Readonly<Record<string, string>>;
+
+/**
+ * Column mapping saved by an organization
+ */
+export interface StoredImportMapping {
+  readonly id: string;
+  readonly name: string;
+  readonly columns: ServiceImportMapping;
+}
+
+/**
+ * Planned outcome of a row: the service is created, updated or left
+ * unchanged, or the row is held back by a conflict or an error. Rows whose
+ * service failed to save are marked failed after the import.
+ */
+export type ServiceImportStatus =
+  | "create"
+  | "update"
+  | "unchanged"
+  | "conflict"
+  | "error"
+  | "failed";
+
+/**
+ * Display names of the row statuses
+ */
+export const SERVICE_IMPORT_STATUS_LABELS: Readonly<
+  Record<ServiceImportStatus, string>
+> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "Unchanged",
+  conflict: "Conflict",
+  error: "Error",
+  failed: "Failed",
+};
+
+/**
+ * Outcome of one sheet row
+ */
+export interface ServiceImportRowResult {
+  /** Row number in the sheet, the header being row 1 or later */
+  readonly rowNumber: number;
+  readonly serviceName: string;
+  readonly status: ServiceImportStatus;
+  /** Why the row is held back, or what failed */
+  readonly messages: readonly string[];
+}
+
+/**
+ * Service to write, with its form data after the import
+ */
+export interface ServiceImportWrite<T extends BulkEditSource = BulkEditSource> {
+  /** Id of the stored service, or the id chosen for a new one */
+  readonly serviceId: string;
+  readonly serviceName: string;
+  /** Stored service; null for a new service */
+  readonly existing: T | null;
+  readonly data: CreateServiceFormData;
+  readonly rowNumbers: readonly number[];
+}
+
+/**
+ * Dry run of an import: the outcome of each row and the services to write,
+ * new services first, each after the new services it links to
+ */
+export interface ServiceImportPlan<T extends BulkEditSource = BulkEditSource> {
+  readonly rows: readonly ServiceImportRowResult[];
+  readonly writes: readonly ServiceImportWrite<T>[];
+}
+
+/**
+ * Organization context needed to plan an import
+ */
+export interface ServiceImportContext<T extends BulkEditSource> {
+  /** Active services of the organization */
+  readonly services: readonly T[];
+  /** Existing dependency graph of the organization, by service id */
+  readonly adjacency: DependencyAdjacency;
+  readonly teams: readonly TeamOption[];
+  readonly tags: readonly TagReference[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly customFields: readonly CustomFieldDefinition[];
+}
+
+/**
+ * Fields of a service that columns can be mapped to. The labels are the
+ * column headers of the CSV export, so an export maps itself.
+ */
+const SERVICE_IMPORT_FIELDS: readonly ServiceImportField[] = [
+  {
+    key: "name",
+    label: "Service",
+    required: true,
+    aliases: ["Name", "Service name"],
+  },
+  { key: "description", label: "Description", required: false, aliases: [] },
+  { key: "owner", label: "Team", required: false, aliases: ["Owner"] },
+  {
+    key: "repository",
+    label: "Repository",
+    required: false,
+    aliases: ["Repo", "Repository URL"],
+  },
+  {
+    key: "languages",
+    label: "Languages",
+    required: false,
+    aliases: ["Language"],
+  },
+  {
+    key: "dependencies",
+    label: "Dependencies",
+    required: false,
+    aliases: ["Depends on"],
+  },
+  { key: "domain", label: "Domain", required: false, aliases: ["Interface"] },
+  { key: "env", label: "Environment", required: false, aliases: ["Env"] },
+  { key: "branch", label: "Branch", required: false, aliases: [] },
+  {
+    key: "runtimeType",
+    label: "Runtime Type",
+    required: false,
+    aliases: ["Runtime"],
+  },
+  { key: "runtimeId", label: "Runtime ID", required: false, aliases: [] },
+  { key: "lifecycle", label: "Lifecycle", required: false, aliases: [] },
+  {
+    key: "sunsetDate",
+    label: "Sunset Date",
+    required: false,
+    aliases: ["Sunset"],
+  },
+  {
+    key: "replacement",
+    label: "Replacement",
+    required: false,
+    aliases: ["Replaced by"],
+  },
+  { key: "tags", label: "Tags", required: false, aliases: ["Tag"] },
+];
+
+/**
+ * Mapping keys of the interface columns
+ */
+const INTERFACE_FIELD_KEYS = [
+  "domain",
+  "env",
+  "branch",
+  "runtimeType",
+  "runtimeId",
+];
+
+/**
+ * Cells of a sheet row, by field key; empty cells are left out
+ */
+interface ImportRow {
+  readonly number: number;
+  readonly values: ReadonlyMap<string, string>;
+}
+
+/**
+ * Rows of one service
+ */
+interface ImportGroup<T extends BulkEditSource> {
+  readonly name: string;
+  readonly serviceId: string;
+  readonly existing: T | null;
+  readonly rows: readonly ImportRow[];
+}
+
+/**
+ * Problem found while planning a service; without a row number it concerns
+ * every row of the service
+ */
+interface ImportIssue {
+  readonly rowNumber: number | null;
+  readonly kind: "conflict" | "error";
+  readonly message: string;
+}
+
+/**
+ * Organization state as services are planned, so each service is checked
+ * against the ones planned before it
+ */
+interface ImportPlanState {
+  readonly claims: Map<string, DomainOwner>;
+  readonly adjacency: Map<string, readonly string[]>;
+  readonly serviceNames: ReadonlyMap<string, string>;
+  /** Stored and imported services, that dependencies can link to */
+  readonly targets: readonly DependencyServiceOption[];
+  /** Stored teams and the teams the import creates */
+  readonly teams: TeamOption[];
+  readonly newTeamIds: Set<string>;
+}
+
+/**
+ * Planned outcome of one service
+ */
+interface ImportOutcome<T extends BulkEditSource> {
+  readonly group: ImportGroup<T>;
+  status: ServiceImportStatus;
+  readonly issues: ImportIssue[];
+  write: ServiceImportWrite<T> | null;
+}
+
+/**
+ * Fields columns can be mapped to: the service fields, then the custom
+ * fields of the organization
+ */
+export function getServiceImportFields(
+  customFields: readonly CustomFieldDefinition[]
+): ServiceImportField[] {
+  return [
+    ...SERVICE_IMPORT_FIELDS,
+    ...customFields.map((field) => ({
+      key: `${CUSTOM_FIELD_PREFIX}${field.key}`,
+      label: field.label,
+      required: false,
+      aliases: [field.key],
+    })),
+  ];
+}
+
+/**
+ * Compares headers ignoring case, spaces and punctuation
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(HEADER_NOISE_PATTERN, "");
+}
+
+/**
+ * Maps the columns whose header matches a field label or alias
+ */
+export function guessServiceImportMapping(
+  headers: readonly string[],
+  fields: readonly ServiceImportField[]
+): ServiceImportMapping {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  for (const field of fields) {
+    const names = new Set([field.label, ...field.aliases].map(normalizeHeader));
+    const header = headers.find(
+      (candidate) =>
+        !used.has(candidate) && names.has(normalizeHeader(candidate))
+    );
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Applies a saved mapping to a sheet, keeping the columns the sheet has
+ */
+export function applySavedImportMapping(
+  columns: ServiceImportMapping,
+  headers: readonly string[],
+  fields: readonly ServiceImportField[]
+): ServiceImportMapping {
+  const keys = new Set(fields.map((field) => field.key));
+  return Object.fromEntries(
+    Object.entries(columns).filter(
+      ([key, header]) => keys.has(key) && headers.includes(header)
+    )
+  );
+}
+
+/**
+ * Required fields no column is mapped to
+ */
+export function getUnmappedImportFields(
+  mapping: ServiceImportMapping,
+  fields: readonly ServiceImportField[]
+): ServiceImportField[] {
+  return fields.filter((field) => field.required && !mapping[field.key]);
+}
+
+/**
+ * Reads the mapped cells of each row. Dashes written by the export for
+ * empty values count as empty.
+ */
+function readImportRows(
+  table: SpreadsheetTable,
+  mapping: ServiceImportMapping
+): ImportRow[] {
+  const columns = Object.entries(mapping).flatMap(([key, header]) => {
+    const index = table.headers.indexOf(header);
+    return index === -1 ? [] : [[key, index] as const];
+  });
+  return table.rows.map((row) => ({
+    number: row.number,
+    values: new Map(
+      columns.flatMap(([key, index]) => {
+        const cell = (row.cells[index] ?? "").trim();
+        return cell && cell !== EXPORT_EMPTY_CELL ? [[key, cell] as const] : [];
+      })
+    ),
+  }));
+}
+
+/**
+ * Groups rows by service name, in sheet order. Names match stored services
+ * exactly, like the uniqueness check of the service form.
+ */
+function groupImportRows<T extends BulkEditSource>(
+  rows: readonly ImportRow[],
+  services: readonly T[]
+): ImportGroup<T>[] {
+  const rowsByName = new Map<string, ImportRow[]>();
+  for (const row of rows) {
+    const name = row.values.get("name") ?? "";
+    rowsByName.set(name, [...(rowsByName.get(name) ?? []), row]);
+  }
+  return Array.from(rowsByName, ([name, groupRows]) => {
+    const existing = services.find((service) => service.name === name) ?? null;
+    return {
+      name,
+      serviceId: existing?.id ?? id(),
+      existing,
+      rows: groupRows,
+    };
+  });
+}
+
+/**
+ * Form data of a stored service, which the imported cells change. Tech stack
+ * and links aren't imported and keep their stored values.
+ */
+function createStoredImportData(
+  service: BulkEditSource,
+  services: readonly DependencyServiceOption[]
+): CreateServiceFormData {
+  const data = serviceSnapshotToFormData(createServiceSnapshot(service));
+  return {
+    ...data,
+    // Legacy free-text dependencies are matched by name, like in the form
+    dependencies: (service.dependencies ?? []).map((dep) => ({
+      id: dep.id,
+      name: getDependencyDisplayName(dep),
+      serviceId: resolveDependencyTargetId(dep, services),
+    })),
+    techStack: undefined,
+    links: undefined,
+  };
+}
+
+/**
+ * Form data of a new service before its cells are applied
+ */
+function createNewImportData(
+  name: string,
+  customFields: readonly CustomFieldDefinition[]
+): CreateServiceFormData {
+  return {
+    name,
+    description: "",
+    languages: [],
+    owner: "",
+    repository: "",
+    interfaces: [],
+    dependencies: [],
+    customFields: getCustomFieldDefaults(customFields),
+    lifecycle: DEFAULT_LIFECYCLE_STATUS,
+    sunsetDate: null,
+    replacement: null,
+    tags: [],
+  };
+}
+
+/**
+ * Value of a service column: the filled cell of the service's rows. Rows
+ * giving different values are a conflict.
+ */
+function getGroupValue(
+  rows: readonly ImportRow[],
+  key: string,
+  label: string,
+  issues: ImportIssue[]
+): string {
+  const values = Array.from(
+    new Set(rows.flatMap((row) => row.values.get(key) ?? []))
+  );
+  if (values.length > 1) {
+    issues.push({
+      rowNumber: null,
+      kind: "conflict",
+      message: `Rows disagree on ${label}: ${values.join(" / ")}`,
+    });
+  }
+  return values[0] ?? "";
+}
+
+/**
+ * Values of a list column, across the service's rows
+ */
+function getGroupList(rows: readonly ImportRow[], key: string): string[] {
+  return parseBulkEditList(
+    rows.map((row) => row.values.get(key) ?? "").join(",")
+  );
+}
+
+/**
+ * Adds values missing from a list, compared case-insensitively
+ */
+function mergeList(
+  values: readonly string[],
+  add: readonly string[]
+): string[] {
+  const present = new Set(values.map((value) => value.toLowerCase()));
+  return [
+    ...values,
+    ...add.filter((value) => !present.has(value.toLowerCase())),
+  ];
+}
+
+/**
+ * Team an owner cell refers to. Unknown owners become new teams, created
+ * with the first service written for them.
+ */
+function resolveImportTeam(owner: string, state: ImportPlanState): TeamOption {
+  const team = resolveTeam(owner, state.teams);
+  if (team) {
+    return team;
+  }
+  const created = { id: id(), name: owner, slug: slugifyTeamName(owner) };
+  state.teams.push(created);
+  state.newTeamIds.add(created.id);
+  return created;
+}
+
+/**
+ * Applies the description, team and repository cells
+ */
+function applyServiceCells(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  state: ImportPlanState,
+  issues: ImportIssue[]
+): CreateServiceFormData {
+  const description = getGroupValue(rows, "description", "Description", issues);
+  const owner = getGroupValue(rows, "owner", "Team", issues);
+  const repository = getGroupValue(rows, "repository", "Repository", issues);
+  const team = owner ? resolveImportTeam(owner, state) : null;
+  return {
+    ...data,
+    description: description || data.description,
+    owner: team?.name ?? data.owner,
+    teamId: team?.id ?? data.teamId,
+    repository: repository || data.repository,
+  };
+}
+
+/**
+ * Service a dependency cell names, by name or by the entity name a
+ * catalog-info export refers to it with
+ */
+function resolveImportDependencyTarget(
+  name: string,
+  targets: readonly DependencyServiceOption[]
+): DependencyServiceOption | null {
+  const target = resolveDependencyTarget(name, targets);
+  if (target) {
+    return target;
+  }
+  const normalized = name.trim().toLowerCase();
+  return (
+    targets.find(
+      (service) => toCatalogEntityName(service.name) === normalized
+    ) ?? null
+  );
+}
+
+/**
+ * Dependencies of the cells missing from the service. A dependency is
+ * present when its name or entity name matches, so re-importing a
+ * catalog-info export adds nothing.
+ */
+function getImportDependencies(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  state: ImportPlanState
+): ServiceDependency[] {
+  const present = new Set(
+    data.dependencies.flatMap((dep) => [
+      dep.name.trim().toLowerCase(),
+      toCatalogEntityName(dep.name),
+    ])
+  );
+  const dependencies: ServiceDependency[] = [];
+  for (const name of getGroupList(rows, "dependencies")) {
+    const target = resolveImportDependencyTarget(name, state.targets);
+    const dependencyName = target?.name ?? name;
+    if (
+      present.has(name.toLowerCase()) ||
+      present.has(dependencyName.toLowerCase())
+    ) {
+      continue;
+    }
+    present.add(dependencyName.toLowerCase());
+    present.add(toCatalogEntityName(dependencyName));
+    dependencies.push({
+      id: id(),
+      name: dependencyName,
+      serviceId: target?.id ?? null,
+    });
+  }
+  return dependencies;
+}
+
+/**
+ * Adds the languages, dependencies and tags of the list cells. Tags must
+ * exist in the organization.
+ */
+function applyListCells(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  context: ServiceImportContext<BulkEditSource>,
+  state: ImportPlanState,
+  issues: ImportIssue[]
+): CreateServiceFormData {
+  const dependencies = getImportDependencies(data, rows, state);
+
+  const tags = [...(data.tags ?? [])];
+  for (const name of getGroupList(rows, "tags")) {
+    const tag = context.tags.find((candidate) =>
+      isSameTagName(candidate.name, name)
+    );
+    if (!tag) {
+      issues.push({
+        rowNumber: null,
+        kind: "error",
+        message: `Unknown tag "${name}"`,
+      });
+    } else if (!tags.some((attached) => attached.id === tag.id)) {
+      tags.push({ id: tag.id, name: tag.name });
+    }
+  }
+
+  return {
+    ...data,
+    languages: mergeList(data.languages, getGroupList(rows, "languages")),
+    dependencies: [...data.dependencies, ...dependencies],
+    tags,
+  };
+}
+
+/**
+ * Lifecycle status a cell names, by value or label
+ */
+function parseLifecycleCell(value: string): LifecycleStatus | null {
+  const normalized = value.toLowerCase();
+  return (
+    LIFECYCLE_STATUSES.find(
+      (status) =>
+        status.value === normalized || status.label.toLowerCase() === normalized
+    )?.value ?? null
+  );
+}
+
+/**
+ * Date of a cell as "YYYY-MM-DD". Spreadsheet date serials are converted;
+ * other text is kept for validation to report.
+ */
+function parseDateCell(value: string): string {
+  if (!SPREADSHEET_SERIAL_PATTERN.test(value)) {
+    return value;
+  }
+  const time = SPREADSHEET_EPOCH + Math.floor(Number(value)) * DAY_MS;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Applies the lifecycle, sunset date and replacement cells
+ */
+function applyLifecycleCells(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  state: ImportPlanState,
+  issues: ImportIssue[]
+): CreateServiceFormData {
+  const status = getGroupValue(rows, "lifecycle", "Lifecycle", issues);
+  const sunsetDate = getGroupValue(rows, "sunsetDate", "Sunset Date", issues);
+  const replacementName = getGroupValue(
+    rows,
+    "replacement",
+    "Replacement",
+    issues
+  );
+
+  const lifecycle = status ? parseLifecycleCell(status) : null;
+  if (status && !lifecycle) {
+    issues.push({
+      rowNumber: null,
+      kind: "error",
+      message: `Unknown lifecycle "${status}"`,
+    });
+  }
+  const replacement = replacementName
+    ? resolveDependencyTarget(replacementName, state.targets)
+    : null;
+  if (replacementName && !replacement) {
+    issues.push({
+      rowNumber: null,
+      kind: "error",
+      message: `Unknown replacement service "${replacementName}"`,
+    });
+  }
+
+  return {
+    ...data,
+    lifecycle: lifecycle ?? data.lifecycle,
+    sunsetDate: sunsetDate ? parseDateCell(sunsetDate) : data.sunsetDate,
+    replacement: replacement
+      ? { id: replacement.id, name: replacement.name }
+      : data.replacement,
+  };
+}
+
+/**
+ * Option a cell names, ignoring case; unknown values are kept for
+ * validation to report
+ */
+function matchOption(options: readonly string[], value: string): string {
+  return (
+    options.find((option) => option.toLowerCase() === value.toLowerCase()) ??
+    value
+  );
+}
+
+/**
+ * Custom field value of a cell, typed like the service form stores it.
+ * Cells that don't parse are kept as text for validation to report.
+ */
+function parseCustomFieldCell(
+  definition: CustomFieldDefinition,
+  value: string
+): CustomFieldValue {
+  switch (definition.type) {
+    case "number": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case "boolean": {
+      const normalized = value.toLowerCase();
+      if (TRUE_CELLS.has(normalized)) {
+        return true;
+      }
+      return FALSE_CELLS.has(normalized) ? false : value;
+    }
+    case "date":
+      return parseDateCell(value);
+    case "enum":
+      return matchOption(definition.options, value);
+    case "multi-enum":
+      return parseBulkEditList(value).map((option) =>
+        matchOption(definition.options, option)
+      );
+    default:
+      return value;
+  }
+}
+
+/**
+ * Applies the custom field cells
+ */
+function applyCustomFieldCells(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  customFields: readonly CustomFieldDefinition[],
+  issues: ImportIssue[]
+): CreateServiceFormData {
+  const values = { ...data.customFields };
+  for (const definition of customFields) {
+    const key = `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+    const value = getGroupValue(rows, key, definition.label, issues);
+    if (value) {
+      values[definition.key] = parseCustomFieldCell(definition, value);
+    }
+  }
+  return { ...data, customFields: values };
+}
+
+/**
+ * Environment a cell names, by key, alias or label
+ */
+function findImportEnvironment(
+  catalog: EnvironmentCatalog,
+  value: string
+): EnvironmentDefinition | null {
+  return (
+    findEnvironment(catalog, value) ??
+    catalog.environments.find(
+      (environment) => environment.label.toLowerCase() === value.toLowerCase()
+    ) ??
+    null
+  );
+}
+
+/**
+ * Runtime key a cell names, by key or label
+ */
+function findImportRuntimeKey(
+  catalog: RuntimeCatalog,
+  value: string
+): string | null {
+  const runtime =
+    findRuntime(catalog, value) ??
+    catalog.runtimes.find(
+      (candidate) => candidate.label.toLowerCase() === value.toLowerCase()
+    );
+  return runtime?.key ?? null;
+}
+
+/**
+ * Interface cells of a row, with the environment and runtime resolved
+ * against the catalogs. Cells left empty are undefined.
+ */
+function readInterfaceCells(
+  row: ImportRow,
+  context: ServiceImportContext<BulkEditSource>,
+  issues: ImportIssue[]
+): Partial<Omit<ServiceInterface, "id">> {
+  const env = row.values.get("env");
+  const runtimeType = row.values.get("runtimeType");
+  const envKey = env
+    ? findImportEnvironment(context.environmentCatalog, env)?.key
+    : undefined;
+  const runtimeKey = runtimeType
+    ? findImportRuntimeKey(context.runtimeCatalog, runtimeType)
+    : undefined;
+  if (env && !envKey) {
+    issues.push({
+      rowNumber: row.number,
+      kind: "error",
+      message: `Unknown environment "${env}"`,
+    });
+  }
+  if (runtimeType && !runtimeKey) {
+    issues.push({
+      rowNumber: row.number,
+      kind: "error",
+      message: `Unknown runtime type "${runtimeType}"`,
+    });
+  }
+  return {
+    domain: row.values.get("domain"),
+    env: envKey,
+    branch: row.values.get("branch"),
+    runtimeType: runtimeKey ?? undefined,
+    runtimeId: row.values.get("runtimeId"),
+  };
+}
+
+/**
+ * Adds or updates the interface of each row, matched to stored interfaces
+ * by domain. Returns the form data and the row of each imported interface.
+ */
+function applyInterfaceCells(
+  data: CreateServiceFormData,
+  rows: readonly ImportRow[],
+  context: ServiceImportContext<BulkEditSource>,
+  issues: ImportIssue[]
+): { data: CreateServiceFormData; rowsByInterface: Map<string, number> } {
+  const interfaces = [...data.interfaces];
+  const rowsByInterface = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!INTERFACE_FIELD_KEYS.some((key) => row.values.has(key))) {
+      continue;
+    }
+    const cells = readInterfaceCells(row, context, issues);
+    if (!cells.domain) {
+      issues.push({
+        rowNumber: row.number,
+        kind: "error",
+        message: "Interface cells need a Domain",
+      });
+      continue;
+    }
+
+    const domain = normalizeDomain(cells.domain);
+    const index = interfaces.findIndex(
+      (iface) => normalizeDomain(iface.domain) === domain
+    );
+    const current = index === -1 ? null : interfaces[index];
+    if (current && rowsByInterface.has(current.id)) {
+      issues.push({
+        rowNumber: row.number,
+        kind: "error",
+        message: `${cells.domain}: Domain must be unique`,
+      });
+      continue;
+    }
+
+    const iface: ServiceInterface = {
+      id: current?.id ?? id(),
+      domain: current?.domain ?? cells.domain,
+      env: cells.env ?? current?.env ?? "",
+      branch: cells.branch ?? current?.branch ?? "",
+      runtimeType: cells.runtimeType ?? current?.runtimeType ?? "",
+      runtimeId: cells.runtimeId ?? current?.runtimeId ?? "",
+    };
+    if (current) {
+      interfaces[index] = iface;
+    } else {
+      interfaces.push(iface);
+    }
+    rowsByInterface.set(iface.id, row.number);
+  }
+
+  return { data: { ...data, interfaces }, rowsByInterface };
+}
+
+/**
+ * Validates the imported interfaces. Domains held by other services are
+ * conflicts; other failures are errors.
+ */
+function validateImportedInterfaces(
+  group: ImportGroup<BulkEditSource>,
+  data: CreateServiceFormData,
+  rowsByInterface: ReadonlyMap<string, number>,
+  context: ServiceImportContext<BulkEditSource>,
+  state: ImportPlanState,
+  issues: ImportIssue[]
+): void {
+  const claims = new Map(
+    Array.from(state.claims).filter(
+      ([, owner]) => owner.serviceId !== group.serviceId
+    )
+  );
+  for (const iface of data.interfaces) {
+    const rowNumber = rowsByInterface.get(iface.id);
+    if (rowNumber === undefined) {
+      continue;
+    }
+    const errors = validateServiceInterface(
+      iface,
+      data.interfaces.filter((other) => other.id !== iface.id),
+      { catalog: context.environmentCatalog, claims }
+    );
+    const claimed = claims.has(
+      getDomainKey(iface.domain, iface.env, context.environmentCatalog)
+    );
+    for (const message of Object.values(errors)) {
+      issues.push({
+        rowNumber,
+        kind: claimed && message === errors.domain ? "conflict" : "error",
+        message: `${iface.domain}: ${message}`,
+      });
+    }
+  }
+}
+
+/**
+ * Prefixes a field's error with its label, unless the message names it
+ */
+function formatFieldError(label: string, message: string): string {
+  return message.startsWith(label) ? message : `${label}: ${message}`;
+}
+
+/**
+ * Validates a service with the rules of the service form. Only the
+ * dependencies the import adds are checked, like in a bulk edit.
+ */
+function validateImportedService(
+  group: ImportGroup<BulkEditSource>,
+  before: CreateServiceFormData,
+  data: CreateServiceFormData,
+  context: ServiceImportContext<BulkEditSource>,
+  state: ImportPlanState,
+  issues: ImportIssue[]
+): void {
+  const error = (message: string) =>
+    issues.push({ rowNumber: null, kind: "error", message });
+
+  const nameError = validateName(
+    data.name,
+    context.services.map((service) => service.name),
+    group.existing?.name
+  );
+  if (nameError) {
+    error(nameError);
+  }
+  if (!data.owner.trim()) {
+    error("Team is required");
+  }
+  const repositoryError = validateUrl(data.repository);
+  if (repositoryError) {
+    error(repositoryError);
+  }
+
+  const existingIds = new Set(before.dependencies.map((dep) => dep.id));
+  const dependencyErrors = validateServiceDependencies(data.dependencies, {
+    serviceId: group.serviceId,
+    serviceName: data.name,
+    adjacency: state.adjacency,
+    serviceNames: state.serviceNames,
+  });
+  for (const dep of data.dependencies) {
+    if (!existingIds.has(dep.id) && dependencyErrors[dep.id]) {
+      error(`${dep.name}: ${dependencyErrors[dep.id]}`);
+    }
+  }
+
+  const customFieldErrors = validateCustomFieldValues(
+    context.customFields,
+    data.customFields
+  );
+  for (const definition of context.customFields) {
+    const message = customFieldErrors[definition.key];
+    if (message) {
+      error(formatFieldError(definition.label, message));
+    }
+  }
+
+  const lifecycleErrors = validateLifecycle(
+    normalizeLifecycleFields({
+      lifecycle: data.lifecycle ?? DEFAULT_LIFECYCLE_STATUS,
+      sunsetDate: data.sunsetDate ?? null,
+      replacement: data.replacement ?? null,
+    }),
+    {
+      previousStatus: group.existing
+        ? resolveLifecycleStatus(group.existing.lifecycle)
+        : null,
+      serviceId: group.serviceId,
+    }
+  );
+  for (const message of Object.values(lifecycleErrors)) {
+    if (message) {
+      error(message);
+    }
+  }
+}
+
+/**
+ * Status of a planned service
+ */
+function getOutcomeStatus(
+  group: ImportGroup<BulkEditSource>,
+  before: CreateServiceFormData,
+  data: CreateServiceFormData,
+  issues: readonly ImportIssue[]
+): ServiceImportStatus {
+  if (issues.some((issue) => issue.kind === "conflict")) {
+    return "conflict";
+  }
+  if (issues.length > 0) {
+    return "error";
+  }
+  if (!group.existing) {
+    return "create";
+  }
+  return JSON.stringify(before) === JSON.stringify(data)
+    ? "unchanged"
+    : "update";
+}
+
+/**
+ * Records a service to write in the planning state, so the services after
+ * it can't claim its domains or close a dependency cycle through it
+ */
+function recordPlannedService(
+  group: ImportGroup<BulkEditSource>,
+  data: CreateServiceFormData,
+  context: ServiceImportContext<BulkEditSource>,
+  state: ImportPlanState
+): void {
+  for (const [key, owner] of Array.from(state.claims)) {
+    if (owner.serviceId === group.serviceId) {
+      state.claims.delete(key);
+    }
+  }
+  for (const iface of data.interfaces) {
+    const key = getDomainKey(
+      iface.domain,
+      iface.env,
+      context.environmentCatalog
+    );
+    if (!state.claims.has(key)) {
+      state.claims.set(key, {
+        serviceId: group.serviceId,
+        serviceName: data.name,
+        interfaceId: iface.id,
+      });
+    }
+  }
+  state.adjacency.set(
+    group.serviceId,
+    data.dependencies.flatMap((dep) => (dep.serviceId ? [dep.serviceId] : []))
+  );
+}
+
+/**
+ * Plans one service: applies its cells to the stored or new form data and
+ * validates the result
+ */
+function planImportGroup<T extends BulkEditSource>(
+  group: ImportGroup<T>,
+  context: ServiceImportContext<T>,
+  state: ImportPlanState
+): ImportOutcome<T> {
+  const issues: ImportIssue[] = [];
+  if (!group.name) {
+    issues.push({
+      rowNumber: null,
+      kind: "error",
+      message: "Service name is missing",
+    });
+    return { group, status: "error", issues, write: null };
+  }
+
+  const before = group.existing
+    ? createStoredImportData(group.existing, context.services)
+    : createNewImportData(group.name, context.customFields);
+  let data = applyServiceCells(before, group.rows, state, issues);
+  data = applyListCells(data, group.rows, context, state, issues);
+  data = applyLifecycleCells(data, group.rows, state, issues);
+  data = applyCustomFieldCells(data, group.rows, context.customFields, issues);
+  const applied = applyInterfaceCells(data, group.rows, context, issues);
+  data = applied.data;
+
+  validateImportedInterfaces(
+    group,
+    data,
+    applied.rowsByInterface,
+    context,
+    state,
+    issues
+  );
+  validateImportedService(group, before, data, context, state, issues);
+
+  const status = getOutcomeStatus(group, before, data, issues);
+  if (status !== "create" && status !== "update") {
+    return { group, status, issues, write: null };
+  }
+  recordPlannedService(group, data, context, state);
+  return {
+    group,
+    status,
+    issues,
+    write: {
+      serviceId: group.serviceId,
+      serviceName: group.name,
+      existing: group.existing,
+      data,
+      rowNumbers: group.rows.map((row) => row.number),
+    },
+  };
+}
+
+/**
+ * Services a write links to, by dependency or replacement
+ */
+function getLinkedServiceIds(data: CreateServiceFormData): string[] {
+  const ids = data.dependencies.flatMap((dep) =>
+    dep.serviceId ? [dep.serviceId] : []
+  );
+  return data.replacement ? [...ids, data.replacement.id] : ids;
+}
+
+/**
+ * Holds back services linking to a new service that isn't written, until
+ * every written service links only to services that exist after the import
+ */
+function holdBackUnresolvedLinks(
+  outcomes: readonly ImportOutcome<BulkEditSource>[]
+): void {
+  const missing = new Set(
+    outcomes
+      .filter((outcome) => !(outcome.group.existing || outcome.write))
+      .map((outcome) => outcome.group.serviceId)
+  );
+  const names = new Map(
+    outcomes.map((outcome) => [outcome.group.serviceId, outcome.group.name])
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const outcome of outcomes) {
+      const targetId = outcome.write
+        ? getLinkedServiceIds(outcome.write.data).find((serviceId) =>
+            missing.has(serviceId)
+          )
+        : undefined;
+      if (!(outcome.write && targetId)) {
+        continue;
+      }
+      outcome.issues.push({
+        rowNumber: null,
+        kind: "error",
+        message: `Links to ${names.get(targetId)}, which isn't imported`,
+      });
+      outcome.status = "error";
+      outcome.write = null;
+      if (!outcome.group.existing) {
+        missing.add(outcome.group.serviceId);
+      }
+      changed = true;
+    }
+  }
+}
+
+/**
+ * Orders writes so new services come first, each after the new services it
+ * links to, then updates
+ */
+function orderImportWrites<T extends BulkEditSource>(
+  writes: readonly ServiceImportWrite<T>[]
+): ServiceImportWrite<T>[] {
+  const creates = new Map(
+    writes
+      .filter((write) => !write.existing)
+      .map((write) => [write.serviceId, write])
+  );
+  const ordered: ServiceImportWrite<T>[] = [];
+  const visited = new Set<string>();
+  const visit = (write: ServiceImportWrite<T>) => {
+    if (visited.has(write.serviceId)) {
+      return;
+    }
+    visited.add(write.serviceId);
+    for (const targetId of getLinkedServiceIds(write.data)) {
+      const target = creates.get(targetId);
+      if (target) {
+        visit(target);
+      }
+    }
+    ordered.push(write);
+  };
+  creates.forEach(visit);
+  return [...ordered, ...writes.filter((write) => write.existing)];
+}
+
+/**
+ * Marks the first write of each new team, which creates the team
+ */
+function markNewTeams<T extends BulkEditSource>(
+  writes: readonly ServiceImportWrite<T>[],
+  newTeamIds: ReadonlySet<string>
+): ServiceImportWrite<T>[] {
+  const pending = new Set(newTeamIds);
+  return writes.map((write) => {
+    const teamId = write.data.teamId;
+    if (!(teamId && pending.has(teamId))) {
+      return write;
+    }
+    pending.delete(teamId);
+    return { ...write, data: { ...write.data, createTeam: true } };
+  });
+}
+
+/**
+ * Plans an import without writing anything: groups the rows of a sheet by
+ * service, applies their cells and validates each service. Services are
+ * checked against the ones planned before them, so two rows can't claim the
+ * same domain or close a dependency cycle between imported services.
+ *
+ * @param table - Sheet read by readSpreadsheetFile
+ * @param mapping - Column header of each mapped field
+ * @param context - Services, teams, tags, catalogs and custom fields of the
+ * organization
+ * @returns Outcome of each row, in sheet order, and the services to write
+ */
+export function planServiceImport<T extends BulkEditSource>(
+  table: SpreadsheetTable,
+  mapping: ServiceImportMapping,
+  context: ServiceImportContext<T>
+): ServiceImportPlan<T> {
+  const groups = groupImportRows(
+    readImportRows(table, mapping),
+    context.services
+  );
+  const targets = [
+    ...context.services.map(({ id: serviceId, name }) => ({
+      id: serviceId,
+      name,
+    })),
+    ...groups
+      .filter((group) => group.name && !group.existing)
+      .map((group) => ({ id: group.serviceId, name: group.name })),
+  ];
+  const state: ImportPlanState = {
+    claims: new Map(
+      buildDomainClaims(context.services, context.environmentCatalog)
+    ),
+    adjacency: new Map(context.adjacency),
+    serviceNames: new Map(targets.map((target) => [target.id, target.name])),
+    targets,
+    teams: [...context.teams],
+    newTeamIds: new Set(),
+  };
+
+  const outcomes = groups.map((group) =>
+    planImportGroup(group, context, state)
+  );
+  holdBackUnresolvedLinks(outcomes);
+
+  const rows = outcomes
+    .flatMap(({ group, status, issues }) =>
+      group.rows.map((row) => ({
+        rowNumber: row.number,
+        serviceName: group.name,
+        status,
+        messages: issues
+          .filter(
+            (issue) =>
+              issue.rowNumber === null || issue.rowNumber === row.number
+          )
+          .map((issue) => issue.message),
+      }))
+    )
+    .sort((a, b) => a.rowNumber - b.rowNumber);
+  const writes = outcomes.flatMap((outcome) =>
+    outcome.write ? [outcome.write] : []
+  );
+
+  return {
+    rows,
+    writes: markNewTeams(orderImportWrites(writes), state.newTeamIds),
+  };
+}
+
+/**
+ * Row outcomes after the import: rows of services that failed to save are
+ * marked failed with the reason
+ *
+ * @param failures - Failure message by service name
+ */
+export function applyServiceImportResults(
+  rows: readonly ServiceImportRowResult[],
+  failures: ReadonlyMap<string, string>
+): ServiceImportRowResult[] {
+  return rows.map((row) => {
+    const message = failures.get(row.serviceName);
+    return message === undefined
+      ? row
+      : { ...row, status: "failed", messages: [message] };
+  });
+}
+
+/**
+ * Saves a column mapping of the organization
+ */
+export function createImportMappingTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  mappingId: string,
+  name: string,
+  columns: ServiceImportMapping
+) {
+  return dbInstance.tx.importMappings[mappingId]
+    .create({
+      name: name.trim(),
+      organizationId,
+      columns,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Replaces the columns of a saved mapping
+ */
+export function createUpdateImportMappingTransaction(
+  dbInstance: typeof db,
+  mappingId: string,
+  columns: ServiceImportMapping
+) {
+  return dbInstance.tx.importMappings[mappingId].update({
+    columns,
+    updatedAt: new Date(),
+  });
+}
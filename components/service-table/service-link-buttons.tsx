@@ -0,0 +1,109 @@
+/**
+ * Service Link Buttons
+ *
+ * Icon buttons opening a service's operational links in a new tab, used in
+ * the actions column of the services table and on the service page.
+ */
+
+"use client";
+
+import {
+  BellRing,
+  BookOpen,
+  FileText,
+  Gauge,
+  type LucideIcon,
+  PhoneCall,
+  Scale,
+  ScrollText,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import {
+  formatServiceLinkLabel,
+  type ServiceLink,
+  type ServiceLinkType,
+} from "./service-links";
+
+/**
+ * Icon of each link type
+ */
+export const SERVICE_LINK_ICONS: Readonly<Record<ServiceLinkType, LucideIcon>> =
+  {
+    runbook: BookOpen,
+    dashboard: Gauge,
+    logs: ScrollText,
+    docs: FileText,
+    adr: Scale,
+    "on-call": PhoneCall,
+    alerting: BellRing,
+  };
+
+interface ServiceLinkButtonsProps {
+  readonly links: readonly ServiceLink[];
+  /** Links shown before the rest are counted; all when unset */
+  readonly maxVisible?: number;
+  readonly className?: string;
+}
+
+/**
+ * Row of icon buttons, one per link, with the type, scope and URL on hover
+ */
+export function ServiceLinkButtons({
+  links,
+  maxVisible = links.length,
+  className,
+}: ServiceLinkButtonsProps) {
+  if (links.length === 0) {
+    return null;
+  }
+  const visible = links.slice(0, maxVisible);
+  const hiddenCount = links.length - visible.length;
+
+  return (
+    <div className={cn("flex items-center", className)}>
+      {visible.map((link) => {
+        const Icon = SERVICE_LINK_ICONS[link.type];
+        const label = formatServiceLinkLabel(link);
+        return (
+          <Tooltip key={`${link.type}|${link.env ?? ""}|${link.url}`}>
+            <TooltipTrigger asChild>
+              <Button
+                asChild
+                className="size-7 text-muted-foreground hover:text-foreground"
+                size="icon"
+                variant="ghost"
+              >
+                <a
+                  aria-label={label}
+                  href={link.url}
+                  onClick={(e) => e.stopPropagation()}
+                  rel="noopener noreferrer"
+                  target="_blank"
+                >
+                  <Icon className="size-3.5" />
+                </a>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <span className="block font-medium">{label}</span>
+              <span className="block max-w-xs truncate font-mono text-[10px]">
+                {link.url}
+              </span>
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+      {hiddenCount > 0 && (
+        <span className="px-1 text-muted-foreground text-xs">
+          +{hiddenCount}
+        </span>
+      )}
+    </div>
+  );
+}
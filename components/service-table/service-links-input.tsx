@@ -0,0 +1,165 @@
+/**
+ * Service Links Input
+ *
+ * Operational link rows of the service form: a link type, the environment
+ * the link is scoped to (or every environment) and the URL.
+ */
+
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { EnvironmentSelectOption } from "./environments";
+import { SERVICE_LINK_ICONS } from "./service-link-buttons";
+import { SERVICE_LINK_TYPES, type ServiceLinkType } from "./service-links";
+import type { ServiceFormLink } from "./types";
+
+/** Select value of links that apply to every environment */
+const ALL_ENVIRONMENTS = "__all__";
+
+const NO_LINKS: readonly ServiceFormLink[] = [];
+
+interface ServiceLinksInputProps {
+  /** Links of the service; undefined while the stored links are kept */
+  readonly value?: readonly ServiceFormLink[];
+  /** Environments a link can be scoped to */
+  readonly environmentOptions: readonly EnvironmentSelectOption[];
+  /** Error messages keyed by link id */
+  readonly errors: Readonly<Record<string, string>>;
+  readonly onChange: (links: readonly ServiceFormLink[]) => void;
+}
+
+/**
+ * Editable list of operational links
+ */
+export function ServiceLinksInput({
+  value = NO_LINKS,
+  environmentOptions,
+  errors,
+  onChange,
+}: ServiceLinksInputProps) {
+  const handleAdd = () => {
+    onChange([
+      ...value,
+      { id: `link-${Date.now()}`, type: "runbook", url: "", env: null },
+    ]);
+  };
+
+  const handleRemove = (linkId: string) => {
+    onChange(value.filter((link) => link.id !== linkId));
+  };
+
+  const handleChange = (linkId: string, changes: Partial<ServiceFormLink>) => {
+    onChange(
+      value.map((link) => (link.id === linkId ? { ...link, ...changes } : link))
+    );
+  };
+
+  return (
+    <div className="space-y-3 pb-2">
+      <div className="flex items-center justify-between">
+        <Label>Links</Label>
+        <Button onClick={handleAdd} size="sm" type="button" variant="outline">
+          <Plus className="mr-1 size-3" />
+          Add
+        </Button>
+      </div>
+
+      {value.length === 0 ? (
+        <p className="text-muted-foreground text-xs">
+          No links added yet. Add the runbook, dashboards, logs and on-call
+          schedule so they are one click away during an incident.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((link) => (
+            <div className="space-y-1" key={link.id}>
+              <div className="flex items-center gap-2">
+                <Select
+                  onValueChange={(next) =>
+                    handleChange(link.id, { type: next as ServiceLinkType })
+                  }
+                  value={link.type}
+                >
+                  <SelectTrigger
+                    aria-label="Link type"
+                    className="w-32 shrink-0"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERVICE_LINK_TYPES.map((type) => {
+                      const Icon = SERVICE_LINK_ICONS[type.value];
+                      return (
+                        <SelectItem key={type.value} value={type.value}>
+                          <Icon className="size-3.5" />
+                          {type.label}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+                <Select
+                  onValueChange={(next) =>
+                    handleChange(link.id, {
+                      env: next === ALL_ENVIRONMENTS ? null : next,
+                    })
+                  }
+                  value={link.env ?? ALL_ENVIRONMENTS}
+                >
+                  <SelectTrigger aria-label="Environment" className="min-w-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ENVIRONMENTS}>
+                      All environments
+                    </SelectItem>
+                    {environmentOptions.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  aria-label="Remove link"
+                  className="ml-auto"
+                  onClick={() => handleRemove(link.id)}
+                  size="icon"
+                  type="button"
+                  variant="ghost"
+                >
+                  <X className="size-4" />
+                </Button>
+              </div>
+              <Input
+                aria-invalid={errors[link.id] ? "true" : "false"}
+                aria-label="URL"
+                onChange={(e) => handleChange(link.id, { url: e.target.value })}
+                placeholder={
+                  link.type === "on-call"
+                    ? "https://example.pagerduty.com/schedules/..."
+                    : "https://"
+                }
+                type="url"
+                value={link.url}
+              />
+              {errors[link.id] && (
+                <p className="text-destructive text-xs">{errors[link.id]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
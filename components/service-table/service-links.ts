@@ -0,0 +1,145 @@
+/**
+ * Service Links
+ *
+ * Operational links of a service: where to find its runbook, dashboards,
+ * logs, docs, architecture decision records, on-call schedule and alerting
+ * rules when something goes wrong. Links are stored on the service as a JSON
+ * array; each one has a type, a URL and an optional environment scope (null
+ * for links that apply to every environment).
+ */
+
+/**
+ * Kind of operational link
+ */
+export type ServiceLinkType =
+  | "runbook"
+  | "dashboard"
+  | "logs"
+  | "docs"
+  | "adr"
+  | "on-call"
+  | "alerting";
+
+/**
+ * Link types with their display names and accepted URL schemes, in the
+ * order they are shown
+ */
+export const SERVICE_LINK_TYPES: ReadonlyArray<{
+  readonly value: ServiceLinkType;
+  readonly label: string;
+  /** URL schemes the link may use */
+  readonly protocols: readonly string[];
+}> = [
+  { value: "runbook", label: "Runbook", protocols: ["https:", "http:"] },
+  { value: "dashboard", label: "Dashboard", protocols: ["https:", "http:"] },
+  { value: "logs", label: "Logs", protocols: ["https:", "http:"] },
+  { value: "docs", label: "Docs", protocols: ["https:", "http:"] },
+  { value: "adr", label: "ADR", protocols: ["https:", "http:"] },
+  // Schedules can also be an escalation mailbox or a phone number
+  {
+    value: "on-call",
+    label: "On-call",
+    protocols: ["https:", "http:", "mailto:", "tel:"],
+  },
+  { value: "alerting", label: "Alerting", protocols: ["https:", "http:"] },
+];
+
+/**
+ * Operational link of a service
+ */
+export interface ServiceLink {
+  readonly type: ServiceLinkType;
+  readonly url: string;
+  /** Environment key the link is scoped to; null for every environment */
+  readonly env: string | null;
+}
+
+/**
+ * Whether a value is a link type
+ */
+export function isServiceLinkType(value: unknown): value is ServiceLinkType {
+  return SERVICE_LINK_TYPES.some((type) => type.value === value);
+}
+
+/**
+ * Display name of a link type
+ */
+export function getServiceLinkTypeLabel(type: ServiceLinkType): string {
+  return SERVICE_LINK_TYPES.find((item) => item.value === type)?.label ?? type;
+}
+
+/**
+ * URL schemes a link type accepts
+ */
+export function getServiceLinkProtocols(
+  type: ServiceLinkType
+): readonly string[] {
+  return (
+    SERVICE_LINK_TYPES.find((item) => item.value === type)?.protocols ?? []
+  );
+}
+
+/**
+ * Sorts links by type, in display order, then unscoped links first and by
+ * environment and URL
+ */
+export function sortServiceLinks<T extends ServiceLink>(
+  links: readonly T[]
+): T[] {
+  const typeOrder = (type: ServiceLinkType) =>
+    SERVICE_LINK_TYPES.findIndex((item) => item.value === type);
+  return [...links].sort(
+    (a, b) =>
+      typeOrder(a.type) - typeOrder(b.type) ||
+      (a.env ?? "").localeCompare(b.env ?? "") ||
+      a.url.localeCompare(b.url)
+  );
+}
+
+/**
+ * Reads stored links: drops malformed and empty ones, trims values, keeps
+ * one link per type, environment and URL, and sorts them
+ */
+export function normalizeServiceLinks(value: unknown): ServiceLink[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const links: ServiceLink[] = [];
+  const seen = new Set<string>();
+  for (const item of value as unknown[]) {
+    if (typeof item !== "object" || item === null) {
+      continue;
+    }
+    const { type, url, env } = item as Record<string, unknown>;
+    const trimmedUrl = typeof url === "string" ? url.trim() : "";
+    if (!(isServiceLinkType(type) && trimmedUrl)) {
+      continue;
+    }
+    const scope = typeof env === "string" && env.trim() ? env.trim() : null;
+    const key = `${type}|${scope ?? ""}|${trimmedUrl}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    links.push({ type, url: trimmedUrl, env: scope });
+  }
+  return sortServiceLinks(links);
+}
+
+/**
+ * Describes a link: "Runbook" or "Dashboard (production)"
+ */
+export function formatServiceLinkLabel(link: ServiceLink): string {
+  const label = getServiceLinkTypeLabel(link.type);
+  return link.env ? `${label} (${link.env})` : label;
+}
+
+/**
+ * Formats links for diffs and exports: "Runbook: https://...; Logs
+ * (production): https://..."
+ */
+export function formatServiceLinks(links: readonly ServiceLink[]): string {
+  return links
+    .map((link) => `${formatServiceLinkLabel(link)}: ${link.url}`)
+    .join("; ");
+}
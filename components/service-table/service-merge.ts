@@ -0,0 +1,312 @@
+/**
+ * Service Merge
+ *
+ * Plans the merge of a duplicate service into the service that is kept (the
+ * survivor). Single-valued fields are taken from whichever service was picked
+ * for them; interfaces, dependencies, languages, tags, tech stack and links
+ * are combined. Dependencies and replacements pointing at the duplicate are
+ * moved to the survivor, and the duplicate goes to the trash.
+ *
+ * The plan is pure data, shown in the merge dialog before it is applied by
+ * `createMergeServicesTransactions`.
+ */
+
+import { formatCustomFieldValue } from "./custom-fields";
+import type { StoredDependency } from "./dependency-links";
+import { normalizeDomain } from "./domains";
+import { getLifecycleLabel } from "./lifecycle";
+import { normalizeServiceLinks } from "./service-links";
+import {
+  createServiceSnapshot,
+  type ServiceSnapshot,
+  type ServiceSnapshotSource,
+  serviceSnapshotToFormData,
+} from "./service-revisions";
+import { sortTags, type TagReference } from "./tags";
+import { normalizeTechStack } from "./tech-stack";
+import type { CreateServiceFormData } from "./types";
+
+/**
+ * Field whose value is taken from one of the two services
+ */
+export type MergeField =
+  | "name"
+  | "description"
+  | "owner"
+  | "repository"
+  | "lifecycle"
+  | "customFields";
+
+/**
+ * Service a field value is taken from
+ */
+export type MergeSide = "survivor" | "duplicate";
+
+/**
+ * Service picked for each field
+ */
+export type MergeFieldChoices = Readonly<Record<MergeField, MergeSide>>;
+
+/**
+ * Fields picked in the merge dialog, in display order
+ */
+export const MERGE_FIELDS: ReadonlyArray<{
+  readonly value: MergeField;
+  readonly label: string;
+}> = [
+  { value: "name", label: "Name" },
+  { value: "description", label: "Description" },
+  { value: "owner", label: "Team" },
+  { value: "repository", label: "Repository" },
+  { value: "lifecycle", label: "Lifecycle" },
+  { value: "customFields", label: "Custom fields" },
+];
+
+/**
+ * Every field kept from the survivor
+ */
+export const DEFAULT_MERGE_CHOICES: MergeFieldChoices = {
+  name: "survivor",
+  description: "survivor",
+  owner: "survivor",
+  repository: "survivor",
+  lifecycle: "survivor",
+  customFields: "survivor",
+};
+
+/**
+ * Service as loaded for a merge, with its interfaces and dependencies
+ */
+export interface MergeServiceRecord extends ServiceSnapshotSource {
+  readonly id: string;
+  readonly dependencies?: readonly StoredDependency[];
+}
+
+/**
+ * Dependency of another service on the duplicate
+ */
+export interface MergeDependent {
+  readonly dependencyId: string;
+  readonly serviceId: string;
+  readonly serviceName: string;
+  /** Removed when the service already depends on the survivor */
+  readonly action: "repoint" | "remove";
+}
+
+/**
+ * Outcome of merging a duplicate into the survivor
+ */
+export interface ServiceMergePlan {
+  /** Survivor after the merge */
+  readonly data: CreateServiceFormData;
+  /** Interfaces of the duplicate moved to the survivor */
+  readonly movedInterfaceIds: readonly string[];
+  /** Dependencies of the duplicate moved to the survivor */
+  readonly movedDependencyIds: readonly string[];
+  readonly dependents: readonly MergeDependent[];
+  /** Services whose replacement moves from the duplicate to the survivor */
+  readonly replacedServiceIds: readonly string[];
+}
+
+/**
+ * Formats the value a field would take from a service, for the merge dialog
+ */
+export function formatMergeFieldValue(
+  snapshot: ServiceSnapshot,
+  field: MergeField
+): string {
+  switch (field) {
+    case "name":
+      return snapshot.name;
+    case "description":
+      return snapshot.description ?? "—";
+    case "owner":
+      return snapshot.owner;
+    case "repository":
+      return snapshot.repository;
+    case "lifecycle":
+      return snapshot.lifecycle
+        ? [
+            getLifecycleLabel(snapshot.lifecycle),
+            snapshot.sunsetDate && `sunset ${snapshot.sunsetDate}`,
+            snapshot.replacement && `replaced by ${snapshot.replacement.name}`,
+          ]
+            .filter(Boolean)
+            .join(", ")
+        : "—";
+    default:
+      return (
+        Object.entries(snapshot.customFields ?? {})
+          .map(([key, value]) => `${key}: ${formatCustomFieldValue(value)}`)
+          .join("; ") || "—"
+      );
+  }
+}
+
+/**
+ * Interfaces match when they serve the same domain in the same environment
+ */
+function getInterfaceKey(iface: ServiceSnapshot["interfaces"][number]): string {
+  return `${iface.env}|${normalizeDomain(iface.domain)}`;
+}
+
+/**
+ * Interfaces of the duplicate the survivor doesn't serve yet
+ */
+function getMovedInterfaces(
+  survivor: ServiceSnapshot,
+  duplicate: ServiceSnapshot
+): ServiceSnapshot["interfaces"] {
+  const survivorKeys = new Set(survivor.interfaces.map(getInterfaceKey));
+  return duplicate.interfaces.filter(
+    (iface) => !survivorKeys.has(getInterfaceKey(iface))
+  );
+}
+
+/**
+ * Dependencies of the duplicate the survivor doesn't have yet. A dependency on
+ * the survivor itself is dropped, like the survivor's own on the duplicate.
+ */
+function getMovedDependencies(
+  survivorDependencies: ServiceSnapshot["dependencies"],
+  duplicate: ServiceSnapshot,
+  survivorId: string
+): ServiceSnapshot["dependencies"] {
+  const names = new Set(
+    survivorDependencies.map((dep) => dep.name.toLowerCase())
+  );
+  const targets = new Set(survivorDependencies.map((dep) => dep.serviceId));
+  return duplicate.dependencies.filter(
+    (dep) =>
+      dep.serviceId !== survivorId &&
+      !names.has(dep.name.toLowerCase()) &&
+      !(dep.serviceId && targets.has(dep.serviceId))
+  );
+}
+
+/**
+ * Tags of both services, without repeats
+ */
+function mergeTags(
+  survivor: ServiceSnapshot,
+  duplicate: ServiceSnapshot
+): TagReference[] {
+  const tags = new Map(
+    [...(duplicate.tags ?? []), ...(survivor.tags ?? [])].map((tag) => [
+      tag.id,
+      tag,
+    ])
+  );
+  return sortTags(Array.from(tags.values()));
+}
+
+/**
+ * Dependencies of other services on the duplicate. Legacy free-text
+ * dependencies are left alone; they are resolved by name when reconciled.
+ */
+function getMergeDependents(
+  survivorId: string,
+  duplicateId: string,
+  services: readonly MergeServiceRecord[]
+): MergeDependent[] {
+  return services.flatMap((service) => {
+    if (service.id === survivorId || service.id === duplicateId) {
+      return [];
+    }
+    const dependencies = service.dependencies ?? [];
+    const dependsOnSurvivor = dependencies.some(
+      (dep) => dep.target?.id === survivorId
+    );
+    return dependencies
+      .filter((dep) => dep.target?.id === duplicateId)
+      .map((dep) => ({
+        dependencyId: dep.id,
+        serviceId: service.id,
+        serviceName: service.name,
+        action: dependsOnSurvivor ? ("remove" as const) : ("repoint" as const),
+      }));
+  });
+}
+
+/**
+ * Plans merging a duplicate into the survivor
+ */
+export function planServiceMerge(
+  survivor: MergeServiceRecord,
+  duplicate: MergeServiceRecord,
+  choices: MergeFieldChoices,
+  services: readonly MergeServiceRecord[]
+): ServiceMergePlan {
+  const kept = createServiceSnapshot(survivor);
+  const retired = createServiceSnapshot(duplicate);
+  const pick = (field: MergeField) =>
+    choices[field] === "duplicate" ? retired : kept;
+  const other = (field: MergeField) =>
+    choices[field] === "duplicate" ? kept : retired;
+
+  const keptDependencies = kept.dependencies.filter(
+    (dep) => dep.serviceId !== duplicate.id
+  );
+  const movedInterfaces = getMovedInterfaces(kept, retired);
+  const movedDependencies = getMovedDependencies(
+    keptDependencies,
+    retired,
+    survivor.id
+  );
+
+  const lifecycleSource = pick("lifecycle");
+  // Neither service can be replaced by the merged one or by the duplicate
+  const replacement =
+    lifecycleSource.replacement &&
+    lifecycleSource.replacement.id !== survivor.id &&
+    lifecycleSource.replacement.id !== duplicate.id
+      ? lifecycleSource.replacement
+      : null;
+
+  const snapshot: ServiceSnapshot = {
+    ...kept,
+    name: pick("name").name,
+    description: pick("description").description,
+    owner: pick("owner").owner,
+    teamId: pick("owner").teamId,
+    repository: pick("repository").repository,
+    languages: Array.from(new Set([...kept.languages, ...retired.languages])),
+    lifecycle: lifecycleSource.lifecycle,
+    sunsetDate: lifecycleSource.sunsetDate,
+    replacement,
+    // Values set on only one service are kept; the picked service wins
+    customFields: {
+      ...other("customFields").customFields,
+      ...pick("customFields").customFields,
+    },
+    tags: mergeTags(kept, retired),
+    techStack: normalizeTechStack([
+      ...(kept.techStack ?? []),
+      ...(retired.techStack ?? []),
+    ]),
+    links: normalizeServiceLinks([
+      ...(kept.links ?? []),
+      ...(retired.links ?? []),
+    ]),
+    interfaces: [...kept.interfaces, ...movedInterfaces],
+    dependencies: [...keptDependencies, ...movedDependencies],
+  };
+
+  return {
+    data: {
+      ...serviceSnapshotToFormData(snapshot),
+      teamId: snapshot.teamId ?? null,
+    },
+    movedInterfaceIds: movedInterfaces.map((iface) => iface.id),
+    movedDependencyIds: movedDependencies.map((dep) => dep.id),
+    dependents: getMergeDependents(survivor.id, duplicate.id, services),
+    replacedServiceIds: services
+      .filter(
+        (service) =>
+          service.id !== survivor.id &&
+          service.id !== duplicate.id &&
+          service.replacement?.id === duplicate.id
+      )
+      .map((service) => service.id),
+  };
+}
@@ -0,0 +1,582 @@
+/**
+ * Service Revisions
+ *
+ * Every create, update, merge, delete, restore and purge of a service records
+ * a revision holding a full snapshot of the service, its interfaces and its
+ * dependencies.
+ * Revisions are written in the same `db.transact` batch as the change itself,
+ * so the history can never drift from the data it describes. Changes made
+ * outside the form, such as team renames, owner migrations and dependency
+ * reconciliation, record an update revision too.
+ *
+ * This module owns the snapshot shape, the revision transaction builder, the
+ * field-level diff used by the timeline, and the mapping back to form data
+ * used by "restore this revision".
+ */
+
+import { id } from "@instantdb/react";
+import type { db } from "@/lib/db";
+import {
+  type CustomFieldValues,
+  formatCustomFieldValue,
+  normalizeCustomFieldValues,
+} from "./custom-fields";
+import {
+  getLifecycleLabel,
+  type LifecycleStatus,
+  resolveLifecycleStatus,
+  type ServiceReference,
+} from "./lifecycle";
+import {
+  formatServiceLinks,
+  normalizeServiceLinks,
+  type ServiceLink,
+} from "./service-links";
+import { sortTags, type TagReference } from "./tags";
+import {
+  formatTechStack,
+  normalizeTechStack,
+  type TechStackEntry,
+} from "./tech-stack";
+import type { CreateServiceFormData } from "./types";
+
+/**
+ * Kind of change recorded by a revision
+ */
+export type ServiceRevisionAction =
+  | "create"
+  | "update"
+  | "merge"
+  | "delete"
+  | "restore"
+  | "purge";
+
+/**
+ * Interface as captured in a snapshot
+ */
+export interface ServiceSnapshotInterface {
+  readonly id: string;
+  readonly domain: string;
+  readonly env: string;
+  readonly branch: string | null;
+  readonly runtimeType: string | null;
+  readonly runtimeId: string | null;
+}
+
+/**
+ * Dependency as captured in a snapshot
+ */
+export interface ServiceSnapshotDependency {
+  readonly id: string;
+  readonly name: string;
+  /** Linked service; absent for external dependencies and older snapshots */
+  readonly serviceId?: string | null;
+}
+
+/**
+ * Full state of a service at a point in time
+ */
+export interface ServiceSnapshot {
+  readonly name: string;
+  readonly description: string | null;
+  readonly languages: readonly string[];
+  readonly owner: string;
+  /** Owning team; absent in snapshots taken before teams */
+  readonly teamId?: string | null;
+  readonly repository: string;
+  readonly interfaces: readonly ServiceSnapshotInterface[];
+  readonly dependencies: readonly ServiceSnapshotDependency[];
+  /** Custom field values; absent in snapshots taken before custom fields */
+  readonly customFields?: CustomFieldValues;
+  /** Lifecycle fields; absent in snapshots taken before the lifecycle */
+  readonly lifecycle?: LifecycleStatus;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+  /** Attached tags; absent in snapshots taken before tags */
+  readonly tags?: readonly TagReference[];
+  /** Tech stack; absent in snapshots taken before tech stacks */
+  readonly techStack?: readonly TechStackEntry[];
+  /** Operational links; absent in snapshots taken before links */
+  readonly links?: readonly ServiceLink[];
+}
+
+/**
+ * Stored service record, as loaded with its interfaces and dependencies
+ */
+export interface ServiceSnapshotSource {
+  readonly name: string;
+  readonly description?: string | null;
+  readonly language?: string | null;
+  readonly owner: string;
+  readonly team?: { readonly id: string; readonly name?: string } | null;
+  readonly repository: string;
+  readonly customFields?: CustomFieldValues | null;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+  readonly tags?: ReadonlyArray<{ readonly id: string; readonly name: string }>;
+  readonly techStack?: unknown;
+  readonly links?: unknown;
+  readonly interfaces?: ReadonlyArray<{
+    readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch?: string | null;
+    readonly runtimeType?: string | null;
+    readonly runtimeId?: string | null;
+  }>;
+  readonly dependencies?: ReadonlyArray<{
+    readonly id: string;
+    readonly dependencyName: string;
+    readonly target?: { readonly id: string; readonly name?: string } | null;
+  }>;
+}
+
+/**
+ * Stored service record with its id
+ */
+export interface StoredServiceSource extends ServiceSnapshotSource {
+  readonly id: string;
+}
+
+/**
+ * Organization and user a change made outside the form is recorded under
+ */
+export interface ServiceChangeAuthor {
+  readonly organizationId: string;
+  readonly userId: string;
+}
+
+/**
+ * A single field-level change between two snapshots
+ */
+export interface ServiceFieldChange {
+  readonly key: string;
+  readonly label: string;
+  readonly before: string | null;
+  readonly after: string | null;
+}
+
+const FIELD_LABELS = {
+  name: "Name",
+  description: "Description",
+  languages: "Languages",
+  owner: "Team",
+  repository: "Repository",
+} as const;
+
+/**
+ * Orders snapshot collections so snapshots compare and serialise stably
+ */
+function sortSnapshot(snapshot: ServiceSnapshot): ServiceSnapshot {
+  return {
+    ...snapshot,
+    languages: [...snapshot.languages].sort((a, b) => a.localeCompare(b)),
+    interfaces: [...snapshot.interfaces].sort(
+      (a, b) => a.env.localeCompare(b.env) || a.domain.localeCompare(b.domain)
+    ),
+    dependencies: [...snapshot.dependencies].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+  };
+}
+
+/**
+ * Builds a snapshot from a stored service record
+ */
+export function createServiceSnapshot(
+  service: ServiceSnapshotSource
+): ServiceSnapshot {
+  return sortSnapshot({
+    name: service.name,
+    description: service.description?.trim() || null,
+    languages: (service.language ?? "")
+      .split(",")
+      .map((lang) => lang.trim())
+      .filter(Boolean),
+    owner: service.team?.name ?? service.owner,
+    teamId: service.team?.id ?? null,
+    repository: service.repository,
+    customFields: normalizeCustomFieldValues(service.customFields),
+    lifecycle: resolveLifecycleStatus(service.lifecycle),
+    sunsetDate: service.sunsetDate ?? null,
+    replacement: service.replacement
+      ? { id: service.replacement.id, name: service.replacement.name }
+      : null,
+    tags: sortTags(
+      (service.tags ?? []).map((tag) => ({ id: tag.id, name: tag.name }))
+    ),
+    techStack: normalizeTechStack(service.techStack),
+    links: normalizeServiceLinks(service.links),
+    interfaces: (service.interfaces ?? []).map((iface) => ({
+      id: iface.id,
+      domain: iface.domain,
+      env: iface.env ?? "production",
+      branch: iface.branch ?? null,
+      runtimeType: iface.runtimeType ?? null,
+      runtimeId: iface.runtimeId ?? null,
+    })),
+    dependencies: (service.dependencies ?? []).map((dep) => ({
+      id: dep.id,
+      name: dep.target?.name ?? dep.dependencyName,
+      serviceId: dep.target?.id ?? null,
+    })),
+  });
+}
+
+/**
+ * Creates the transaction recording a revision of a service.
+ * The revision is linked to the organization (not only the service) so it
+ * remains visible after the service itself is deleted.
+ */
+export function createServiceRevisionTransaction(
+  dbInstance: typeof db,
+  params: {
+    readonly serviceId: string;
+    readonly organizationId: string;
+    readonly userId: string;
+    readonly action: ServiceRevisionAction;
+    readonly snapshot: ServiceSnapshot;
+  }
+) {
+  const { serviceId, organizationId, userId, action, snapshot } = params;
+  const revisionTx = dbInstance.tx.serviceRevisions[id()]
+    .create({
+      action,
+      createdAt: new Date(),
+      createdById: userId,
+      organizationId,
+      serviceId,
+      serviceName: snapshot.name,
+      snapshot: sortSnapshot(snapshot),
+    })
+    .link({ organization: organizationId })
+    .link({ author: userId });
+
+  // A purged service can't be linked; serviceId keeps the reference
+  return action === "purge"
+    ? revisionTx
+    : revisionTx.link({ service: serviceId });
+}
+
+/**
+ * Records an update revision of a stored service changed outside the form,
+ * such as by a team rename. The snapshot is the stored record with the
+ * changed fields applied, so untouched fields are captured as stored.
+ */
+export function createServiceChangeRevisionTransaction(
+  dbInstance: typeof db,
+  params: ServiceChangeAuthor & {
+    readonly service: StoredServiceSource;
+    readonly changes: Partial<ServiceSnapshotSource>;
+  }
+) {
+  const { service, changes, organizationId, userId } = params;
+  return createServiceRevisionTransaction(dbInstance, {
+    serviceId: service.id,
+    organizationId,
+    userId,
+    action: "update",
+    snapshot: createServiceSnapshot({ ...service, ...changes }),
+  });
+}
+
+/**
+ * Formats an interface for display in a diff
+ */
+function formatInterface(iface: ServiceSnapshotInterface): string {
+  const parts = [iface.domain];
+  if (iface.branch) {
+    parts.push(`branch ${iface.branch}`);
+  }
+  if (iface.runtimeType) {
+    parts.push(
+      iface.runtimeId
+        ? `${iface.runtimeType} ${iface.runtimeId}`
+        : iface.runtimeType
+    );
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Compares interfaces keyed by environment and domain, so that an interface
+ * re-created with a new id is not reported as removed and added. Revisions
+ * record environments as stored, since the organization's environments may
+ * have changed since.
+ */
+function diffInterfaces(
+  before: readonly ServiceSnapshotInterface[],
+  after: readonly ServiceSnapshotInterface[]
+): ServiceFieldChange[] {
+  const keyOf = (iface: ServiceSnapshotInterface) =>
+    `${iface.env.trim().toLowerCase()}:${iface.domain.toLowerCase()}`;
+  const beforeByKey = new Map(before.map((iface) => [keyOf(iface), iface]));
+  const afterByKey = new Map(after.map((iface) => [keyOf(iface), iface]));
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])];
+
+  const changes: ServiceFieldChange[] = [];
+  for (const key of keys) {
+    const previous = beforeByKey.get(key);
+    const next = afterByKey.get(key);
+    const formattedBefore = previous ? formatInterface(previous) : null;
+    const formattedAfter = next ? formatInterface(next) : null;
+    if (formattedBefore === formattedAfter) {
+      continue;
+    }
+    const env = (next ?? previous)?.env ?? "";
+    changes.push({
+      key: `interface:${key}`,
+      label: `Interface (${env})`,
+      before: formattedBefore,
+      after: formattedAfter,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Compares dependencies by name
+ */
+function diffDependencies(
+  before: readonly ServiceSnapshotDependency[],
+  after: readonly ServiceSnapshotDependency[]
+): ServiceFieldChange[] {
+  const beforeNames = new Set(before.map((dep) => dep.name));
+  const afterNames = new Set(after.map((dep) => dep.name));
+  const changes: ServiceFieldChange[] = [];
+
+  for (const name of beforeNames) {
+    if (!afterNames.has(name)) {
+      changes.push({
+        key: `dependency:${name}`,
+        label: "Dependency",
+        before: name,
+        after: null,
+      });
+    }
+  }
+  for (const name of afterNames) {
+    if (!beforeNames.has(name)) {
+      changes.push({
+        key: `dependency:${name}`,
+        label: "Dependency",
+        before: null,
+        after: name,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares the attached tags as one list of names
+ */
+function diffTags(
+  before: readonly TagReference[],
+  after: readonly TagReference[]
+): ServiceFieldChange[] {
+  const format = (tags: readonly TagReference[]) =>
+    tags.length > 0
+      ? sortTags(tags)
+          .map((tag) => tag.name)
+          .join(", ")
+      : null;
+  const previous = format(before);
+  const next = format(after);
+  return previous === next
+    ? []
+    : [{ key: "tags", label: "Tags", before: previous, after: next }];
+}
+
+/**
+ * Compares the tech stacks as one list of "name version" entries
+ */
+function diffTechStack(
+  before: readonly TechStackEntry[],
+  after: readonly TechStackEntry[]
+): ServiceFieldChange[] {
+  const previous = formatTechStack(normalizeTechStack(before)) || null;
+  const next = formatTechStack(normalizeTechStack(after)) || null;
+  return previous === next
+    ? []
+    : [
+        {
+          key: "techStack",
+          label: "Tech stack",
+          before: previous,
+          after: next,
+        },
+      ];
+}
+
+/**
+ * Compares the operational links as one list
+ */
+function diffLinks(
+  before: readonly ServiceLink[],
+  after: readonly ServiceLink[]
+): ServiceFieldChange[] {
+  const previous = formatServiceLinks(normalizeServiceLinks(before)) || null;
+  const next = formatServiceLinks(normalizeServiceLinks(after)) || null;
+  return previous === next
+    ? []
+    : [{ key: "links", label: "Links", before: previous, after: next }];
+}
+
+/**
+ * Compares custom field values by key. Revisions don't know the fields'
+ * labels at the time, so changes are labelled with the key.
+ */
+function diffCustomFields(
+  before: CustomFieldValues,
+  after: CustomFieldValues
+): ServiceFieldChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const changes: ServiceFieldChange[] = [];
+  for (const key of keys.sort((a, b) => a.localeCompare(b))) {
+    const previous = formatCustomFieldValue(before[key]) || null;
+    const next = formatCustomFieldValue(after[key]) || null;
+    if (previous !== next) {
+      changes.push({
+        key: `customField:${key}`,
+        label: `Custom field (${key})`,
+        before: previous,
+        after: next,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares the lifecycle fields. Snapshots taken before the lifecycle stand
+ * for active services.
+ */
+function diffLifecycle(
+  before: ServiceSnapshot | null,
+  after: ServiceSnapshot | null
+): ServiceFieldChange[] {
+  const fields = (snapshot: ServiceSnapshot | null) => ({
+    lifecycle: snapshot
+      ? getLifecycleLabel(resolveLifecycleStatus(snapshot.lifecycle))
+      : null,
+    sunsetDate: snapshot?.sunsetDate || null,
+    replacement: snapshot?.replacement?.name || null,
+  });
+  const previous = fields(before);
+  const next = fields(after);
+  const labels = {
+    lifecycle: "Lifecycle",
+    sunsetDate: "Sunset date",
+    replacement: "Replacement",
+  } as const;
+
+  const changes: ServiceFieldChange[] = [];
+  for (const key of Object.keys(labels) as Array<keyof typeof labels>) {
+    if (previous[key] !== next[key]) {
+      changes.push({
+        key,
+        label: labels[key],
+        before: previous[key],
+        after: next[key],
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Computes field-level changes between two snapshots.
+ * A missing snapshot stands for "no service" (before a create, after a delete).
+ */
+export function diffServiceSnapshots(
+  before: ServiceSnapshot | null,
+  after: ServiceSnapshot | null
+): ServiceFieldChange[] {
+  const scalar = (
+    snapshot: ServiceSnapshot | null,
+    field: keyof typeof FIELD_LABELS
+  ): string | null => {
+    if (!snapshot) {
+      return null;
+    }
+    if (field === "languages") {
+      return snapshot.languages.length > 0
+        ? snapshot.languages.join(", ")
+        : null;
+    }
+    return snapshot[field] || null;
+  };
+
+  const changes: ServiceFieldChange[] = [];
+  for (const field of Object.keys(FIELD_LABELS) as Array<
+    keyof typeof FIELD_LABELS
+  >) {
+    const previous = scalar(before, field);
+    const next = scalar(after, field);
+    if (previous !== next) {
+      changes.push({
+        key: field,
+        label: FIELD_LABELS[field],
+        before: previous,
+        after: next,
+      });
+    }
+  }
+
+  return [
+    ...changes,
+    ...diffLifecycle(before, after),
+    ...diffTags(before?.tags ?? [], after?.tags ?? []),
+    ...diffTechStack(before?.techStack ?? [], after?.techStack ?? []),
+    ...diffLinks(before?.links ?? [], after?.links ?? []),
+    ...diffInterfaces(before?.interfaces ?? [], after?.interfaces ?? []),
+    ...diffDependencies(before?.dependencies ?? [], after?.dependencies ?? []),
+    ...diffCustomFields(before?.customFields ?? {}, after?.customFields ?? {}),
+  ];
+}
+
+/**
+ * Converts a snapshot back into form data, used to restore a revision
+ */
+export function serviceSnapshotToFormData(
+  snapshot: ServiceSnapshot
+): CreateServiceFormData {
+  return {
+    name: snapshot.name,
+    description: snapshot.description ?? "",
+    languages: [...snapshot.languages],
+    owner: snapshot.owner,
+    // Older snapshots keep the service's current team
+    teamId: snapshot.teamId ?? undefined,
+    repository: snapshot.repository,
+    interfaces: snapshot.interfaces.map((iface) => ({
+      id: iface.id,
+      domain: iface.domain,
+      env: iface.env,
+      branch: iface.branch ?? "",
+      runtimeType: iface.runtimeType ?? "",
+      runtimeId: iface.runtimeId ?? "",
+    })),
+    dependencies: snapshot.dependencies.map((dep) => ({
+      id: dep.id,
+      name: dep.name,
+      serviceId: dep.serviceId ?? null,
+    })),
+    // Older snapshots keep the service's current values
+    customFields: snapshot.customFields,
+    lifecycle: snapshot.lifecycle,
+    sunsetDate: snapshot.sunsetDate,
+    replacement: snapshot.replacement,
+    tags: snapshot.tags,
+    techStack: snapshot.techStack?.map((entry, idx) => ({
+      ...entry,
+      id: `tech-stack-${idx}`,
+    })),
+    links: snapshot.links?.map((link, idx) => ({
+      ...link,
+      id: `link-${idx}`,
+    })),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Service Tags Input
+ *
+ * Tag picker of the service form. Only the organization's tags can be
+ * attached; new tags are created in the organization's tag settings.
+ */
+
+"use client";
+
+import { CheckIcon, Tag } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+  Tags,
+  TagsContent,
+  TagsEmpty,
+  TagsGroup,
+  TagsInput,
+  TagsItem,
+  TagsList,
+  TagsTrigger,
+  TagsValue,
+} from "@/components/kibo-ui/tags";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_TAG_COLOR,
+  type StoredTag,
+  sortTags,
+  type TagReference,
+} from "./tags";
+
+const NO_TAGS: readonly TagReference[] = [];
+
+interface ServiceTagsInputProps {
+  /** Attached tags; undefined while the stored tags are kept */
+  readonly value?: readonly TagReference[];
+  /** Tags of the organization */
+  readonly availableTags: readonly StoredTag[];
+  readonly onChange: (tags: readonly TagReference[]) => void;
+}
+
+/**
+ * Multi-select of the organization's tags
+ */
+export function ServiceTagsInput({
+  value = NO_TAGS,
+  availableTags,
+  onChange,
+}: ServiceTagsInputProps) {
+  const [search, setSearch] = useState("");
+
+  const selectedIds = useMemo(
+    () => new Set(value.map((tag) => tag.id)),
+    [value]
+  );
+  const colorById = useMemo(
+    () => new Map(availableTags.map((tag) => [tag.id, tag.color])),
+    [availableTags]
+  );
+  const filteredTags = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query
+      ? availableTags.filter((tag) => tag.name.toLowerCase().includes(query))
+      : availableTags;
+  }, [availableTags, search]);
+
+  const handleToggle = (tag: StoredTag) => {
+    onChange(
+      selectedIds.has(tag.id)
+        ? value.filter((selected) => selected.id !== tag.id)
+        : sortTags([...value, { id: tag.id, name: tag.name }])
+    );
+  };
+
+  const handleRemove = (tagId: string) => {
+    onChange(value.filter((selected) => selected.id !== tagId));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="service-tags">
+        <div className="flex items-center gap-2">
+          <Tag className="size-3" />
+          Tags
+        </div>
+      </Label>
+      <Tags className="w-full">
+        <TagsTrigger id="service-tags">
+          {value.map((tag) => (
+            <TagsValue key={tag.id} onRemove={() => handleRemove(tag.id)}>
+              <span
+                className="inline-flex size-2 shrink-0 rounded-full"
+                style={{
+                  backgroundColor: colorById.get(tag.id) ?? DEFAULT_TAG_COLOR,
+                }}
+              />
+              {tag.name}
+            </TagsValue>
+          ))}
+        </TagsTrigger>
+        <TagsContent className="z-[70]">
+          <TagsInput
+            onValueChange={setSearch}
+            placeholder="Search tags..."
+            value={search}
+          />
+          <TagsList>
+            <TagsEmpty>
+              {availableTags.length === 0
+                ? "No tags yet. Create them in the organization's tag settings."
+                : "No tags found."}
+            </TagsEmpty>
+            <TagsGroup>
+              {filteredTags.map((tag) => (
+                <TagsItem
+                  key={tag.id}
+                  onSelect={() => handleToggle(tag)}
+                  value={tag.name}
+                >
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="inline-flex size-2 shrink-0 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                    />
+                    {tag.name}
+                  </span>
+                  {selectedIds.has(tag.id) && (
+                    <CheckIcon className="text-muted-foreground" size={14} />
+                  )}
+                </TagsItem>
+              ))}
+            </TagsGroup>
+          </TagsList>
+        </TagsContent>
+      </Tags>
+      <p className="text-muted-foreground text-xs">
+        Optional. Labels used to filter and search services.
+      </p>
+    </div>
+  );
+}
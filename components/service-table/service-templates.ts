@@ -0,0 +1,350 @@
+/**
+ * Service Templates
+ *
+ * Starting points for the service form. Admins define named templates of
+ * interfaces, dependencies, languages and custom field values; applying one
+ * in the form replaces those fields. Any service can also be duplicated,
+ * which pre-fills the form with a copy of it under a new name.
+ *
+ * Domains, branches and runtime ids may contain a `{name}` placeholder
+ * (`{name}.staging.example.com`), filled with the service name as a slug.
+ * The form keeps the patterns of the interfaces it filled, so renaming the
+ * service refills the values the user hasn't edited since.
+ */
+
+import { id } from "@instantdb/react";
+import type { db } from "@/lib/db";
+import type { CustomFieldValues } from "./custom-fields";
+import {
+  type DependencyServiceOption,
+  resolveDependencyTarget,
+} from "./dependency-links";
+import { DEFAULT_LIFECYCLE_STATUS } from "./lifecycle";
+import type {
+  CreateServiceFormData,
+  GroupedService,
+  ServiceDependency,
+  ServiceInterface,
+} from "./types";
+
+/**
+ * Placeholder replaced by the service name
+ */
+export const NAME_PLACEHOLDER = "{name}";
+
+/**
+ * Suffix of the name given to a duplicated service
+ */
+const COPY_SUFFIX = "-copy";
+
+const SLUG_SEPARATOR_PATTERN = /[^a-z0-9]+/g;
+const SLUG_EDGE_DASHES_PATTERN = /^-+|-+$/g;
+
+/**
+ * Interface of a template. Domain, branch and runtime id may contain the
+ * `{name}` placeholder.
+ */
+export type ServiceTemplateInterface = Omit<ServiceInterface, "id">;
+
+/**
+ * Template defined by an organization
+ */
+export interface ServiceTemplateDefinition {
+  readonly name: string;
+  readonly description: string;
+  readonly languages: readonly string[];
+  readonly interfaces: readonly ServiceTemplateInterface[];
+  /** Dependency names, linked to services of the same name when applied */
+  readonly dependencies: readonly string[];
+  /** Custom field values, overriding the fields' own defaults */
+  readonly customFields: CustomFieldValues;
+}
+
+/**
+ * Template as stored for an organization
+ */
+export interface StoredServiceTemplate extends ServiceTemplateDefinition {
+  readonly id: string;
+}
+
+/**
+ * Fields of an interface that may contain the `{name}` placeholder
+ */
+type NamePatternField = "domain" | "branch" | "runtimeId";
+
+/**
+ * Values of an interface with their placeholders, as filled by the form
+ */
+type InterfaceNamePattern = Pick<ServiceTemplateInterface, NamePatternField>;
+
+/**
+ * Patterns of the interfaces filled from a template or a duplicate, by
+ * interface id
+ */
+export type InterfaceNamePatterns = ReadonlyMap<string, InterfaceNamePattern>;
+
+/**
+ * Form data pre-filled from a template or another service, with the
+ * patterns of its interfaces
+ */
+export interface ServicePrefill {
+  readonly data: CreateServiceFormData;
+  readonly patterns: InterfaceNamePatterns;
+}
+
+/**
+ * Service name as used in domains: "Payments API" becomes "payments-api".
+ * An empty slug keeps the placeholder until a name is entered.
+ */
+export function getServiceNameSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(SLUG_SEPARATOR_PATTERN, "-")
+    .replace(SLUG_EDGE_DASHES_PATTERN, "");
+}
+
+/**
+ * Replaces the `{name}` placeholder with the slug of a service name
+ */
+export function fillNamePlaceholder(value: string, name: string): string {
+  const slug = getServiceNameSlug(name);
+  return slug ? value.split(NAME_PLACEHOLDER).join(slug) : value;
+}
+
+/**
+ * Fills the patterns of an interface for a service name
+ */
+function fillInterfacePattern(
+  pattern: InterfaceNamePattern,
+  name: string
+): InterfaceNamePattern {
+  return {
+    domain: fillNamePlaceholder(pattern.domain, name),
+    branch: fillNamePlaceholder(pattern.branch, name),
+    runtimeId: fillNamePlaceholder(pattern.runtimeId, name),
+  };
+}
+
+/**
+ * Refills the interfaces after the service is renamed. Values changed by
+ * the user since they were filled are left alone.
+ */
+export function refreshNamePlaceholders(
+  interfaces: readonly ServiceInterface[],
+  patterns: InterfaceNamePatterns,
+  previousName: string,
+  name: string
+): ServiceInterface[] {
+  return interfaces.map((iface) => {
+    const pattern = patterns.get(iface.id);
+    if (!pattern) {
+      return iface;
+    }
+    const previous = fillInterfacePattern(pattern, previousName);
+    const next = fillInterfacePattern(pattern, name);
+    const refill = (field: NamePatternField) =>
+      iface[field] === previous[field] ? next[field] : iface[field];
+    return {
+      ...iface,
+      domain: refill("domain"),
+      branch: refill("branch"),
+      runtimeId: refill("runtimeId"),
+    };
+  });
+}
+
+/**
+ * Links dependency names to services of the same name
+ */
+function resolveDependencies(
+  names: readonly string[],
+  services: readonly DependencyServiceOption[]
+): ServiceDependency[] {
+  return names.map((name, idx) => {
+    const target = resolveDependencyTarget(name, services);
+    return {
+      id: `dependency-${idx}`,
+      name: target?.name ?? name,
+      serviceId: target?.id ?? null,
+    };
+  });
+}
+
+/**
+ * Applies a template to the form: its languages, interfaces and dependencies
+ * replace the entered ones, and its custom field values override the
+ * entered values. Placeholders are filled with the entered name.
+ */
+export function applyServiceTemplate(
+  data: CreateServiceFormData,
+  template: ServiceTemplateDefinition,
+  services: readonly DependencyServiceOption[]
+): ServicePrefill {
+  const patterns = new Map<string, InterfaceNamePattern>();
+  const interfaces = template.interfaces.map((iface) => {
+    const interfaceId = id();
+    patterns.set(interfaceId, {
+      domain: iface.domain,
+      branch: iface.branch,
+      runtimeId: iface.runtimeId,
+    });
+    return {
+      ...iface,
+      ...fillInterfacePattern(iface, data.name),
+      id: interfaceId,
+    };
+  });
+
+  return {
+    data: {
+      ...data,
+      languages: [...template.languages],
+      interfaces,
+      dependencies: resolveDependencies(template.dependencies, services),
+      customFields: { ...data.customFields, ...template.customFields },
+    },
+    patterns,
+  };
+}
+
+/**
+ * Name of a duplicated service: "payments-copy", then "payments-copy-2"...
+ */
+export function getDuplicateServiceName(
+  name: string,
+  existingNames: readonly string[]
+): string {
+  const taken = new Set(existingNames.map((other) => other.toLowerCase()));
+  const base = `${name}${COPY_SUFFIX}`;
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+}
+
+/**
+ * Replaces the slug of a service name with the placeholder where it appears
+ * as a whole word: "payments" in "payments.example.com" but not in
+ * "paymentsdb.example.com"
+ */
+function toNamePattern(value: string, name: string): string {
+  const slug = getServiceNameSlug(name);
+  if (!slug) {
+    return value;
+  }
+  const pattern = new RegExp(`(^|[^a-z0-9])${slug}(?=$|[^a-z0-9])`, "gi");
+  return value.replace(pattern, `$1${NAME_PLACEHOLDER}`);
+}
+
+/**
+ * Pre-fills the form with a copy of a service under a new name. Interfaces
+ * are new, with the service name in their domains, branches and runtime ids
+ * replaced by the new one; the lifecycle starts over as active.
+ */
+export function createDuplicatePrefill(
+  service: GroupedService,
+  existingNames: readonly string[],
+  services: readonly DependencyServiceOption[]
+): ServicePrefill {
+  const name = getDuplicateServiceName(service.name, existingNames);
+  const patterns = new Map<string, InterfaceNamePattern>();
+  const interfaces = service.environments.map((env) => {
+    const interfaceId = id();
+    const pattern = {
+      domain: toNamePattern(env.domain, service.name),
+      branch: toNamePattern(env.branch ?? "", service.name),
+      runtimeId: toNamePattern(env.runtimeId ?? "", service.name),
+    };
+    patterns.set(interfaceId, pattern);
+    return {
+      id: interfaceId,
+      env: env.storedEnv || env.env,
+      runtimeType: env.runtimeType ?? "",
+      ...fillInterfacePattern(pattern, name),
+    };
+  });
+
+  return {
+    data: {
+      name,
+      description: service.description ?? "",
+      languages: service.languages ?? [],
+      owner: service.owner,
+      teamId: service.teamId ?? null,
+      repository: service.repository,
+      interfaces,
+      dependencies: resolveDependencies(service.dependencies, services),
+      customFields: service.customFields ?? {},
+      lifecycle: DEFAULT_LIFECYCLE_STATUS,
+      sunsetDate: null,
+      replacement: null,
+      tags: service.tags ?? [],
+      techStack: (service.techStack ?? []).map((entry, idx) => ({
+        ...entry,
+        id: `tech-stack-${idx}`,
+      })),
+      links: (service.links ?? []).map((link, idx) => ({
+        ...link,
+        id: `link-${idx}`,
+      })),
+    },
+    patterns,
+  };
+}
+
+/**
+ * Template definition as stored: trimmed, without empty entries
+ */
+function toStoredTemplate(definition: ServiceTemplateDefinition) {
+  return {
+    name: definition.name.trim(),
+    description: definition.description.trim(),
+    languages: [...definition.languages],
+    interfaces: definition.interfaces.map((iface) => ({
+      env: iface.env,
+      domain: iface.domain.trim(),
+      branch: iface.branch.trim(),
+      runtimeType: iface.runtimeType,
+      runtimeId: iface.runtimeId.trim(),
+    })),
+    dependencies: definition.dependencies
+      .map((name) => name.trim())
+      .filter(Boolean),
+    customFields: { ...definition.customFields },
+  };
+}
+
+/**
+ * Creates a service template linked to the organization
+ */
+export function createServiceTemplateTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  templateId: string,
+  definition: ServiceTemplateDefinition
+) {
+  return dbInstance.tx.serviceTemplates[templateId]
+    .create({
+      ...toStoredTemplate(definition),
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Updates a service template. Services created from it are left as they
+ * are.
+ */
+export function createUpdateServiceTemplateTransaction(
+  dbInstance: typeof db,
+  templateId: string,
+  definition: ServiceTemplateDefinition
+) {
+  return dbInstance.tx.serviceTemplates[templateId].update({
+    ...toStoredTemplate(definition),
+    updatedAt: new Date(),
+  });
+}
@@ -1,109 +1,513 @@
 import { id } from "@instantdb/react";
 import type { db } from "@/lib/db";
+import type { BulkEditSource, BulkEditUpdate } from "./bulk-edit";
+import {
+  type CustomFieldValues,
+  normalizeCustomFieldValues,
+} from "./custom-fields";
+import {
+  getDependencyDisplayName,
+  type StoredDependency,
+} from "./dependency-links";
+import { normalizeDomain } from "./domains";
+import {
+  type LifecycleFields,
+  normalizeLifecycleFields,
+  resolveLifecycleStatus,
+  type ServiceReference,
+} from "./lifecycle";
+import { normalizeServiceLinks, type ServiceLink } from "./service-links";
+import type { MergeServiceRecord, ServiceMergePlan } from "./service-merge";
+import {
+  createServiceChangeRevisionTransaction,
+  createServiceRevisionTransaction,
+  createServiceSnapshot,
+  type ServiceRevisionAction,
+  type ServiceSnapshot,
+  type ServiceSnapshotSource,
+} from "./service-revisions";
+import { getTagLinkChanges, type TagReference } from "./tags";
+import { createTeamTransaction, slugifyTeamName } from "./team-links";
+import { normalizeTechStack, type TechStackEntry } from "./tech-stack";
 import type { CreateServiceFormData } from "./types";
 
 interface RawService {
   readonly id: string;
-  readonly interfaces?: Array<{
-    readonly id: string;
-  }>;
-  readonly dependencies?: Array<{
+  readonly interfaces?: ReadonlyArray<{
     readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch?: string | null;
+    readonly runtimeType?: string | null;
+    readonly runtimeId?: string | null;
   }>;
+  readonly dependencies?: readonly StoredDependency[];
+  readonly team?: { readonly id: string } | null;
+  readonly customFields?: CustomFieldValues | null;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+  readonly tags?: readonly TagReference[];
+  readonly techStack?: unknown;
+  readonly links?: unknown;
+}
+
+interface InterfaceRecord {
+  readonly id: string;
+  readonly domain: string;
+  readonly env: string;
+  readonly branch: string | null;
+  readonly runtimeType: string | null;
+  readonly runtimeId: string | null;
+}
+
+interface DependencyRecord {
+  readonly id: string;
+  readonly dependencyName: string;
+  readonly targetServiceId: string | null;
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Uses the form row id as the stored id when it is a valid entity id,
+ * so new rows keep the identity the form gave them
+ */
+function resolveRecordId(formId: string): string {
+  return UUID_PATTERN.test(formId) ? formId : id();
+}
+
+/**
+ * Builds the snapshot of a service as written from form data
+ */
+function createFormDataSnapshot(
+  data: CreateServiceFormData,
+  interfaceRecords: readonly InterfaceRecord[],
+  dependencyRecords: readonly DependencyRecord[],
+  customFields: CustomFieldValues,
+  lifecycle: LifecycleFields,
+  tags: readonly TagReference[],
+  techStack: readonly TechStackEntry[],
+  links: readonly ServiceLink[]
+): ServiceSnapshot {
+  return createServiceSnapshot({
+    name: data.name,
+    description: data.description,
+    language: data.languages.join(","),
+    owner: data.owner,
+    team: data.teamId ? { id: data.teamId, name: data.owner } : null,
+    repository: data.repository,
+    customFields,
+    ...lifecycle,
+    tags,
+    techStack,
+    links,
+    interfaces: interfaceRecords,
+    dependencies: dependencyRecords.map((dep) => ({
+      id: dep.id,
+      dependencyName: dep.dependencyName,
+      target: dep.targetServiceId ? { id: dep.targetServiceId } : null,
+    })),
+  });
+}
+
+/**
+ * Lifecycle fields as written from form data; undefined fields (older
+ * revisions) keep the stored values
+ */
+function resolveFormLifecycle(
+  data: CreateServiceFormData,
+  existingService?: RawService
+): LifecycleFields {
+  return normalizeLifecycleFields({
+    lifecycle:
+      data.lifecycle ?? resolveLifecycleStatus(existingService?.lifecycle),
+    sunsetDate:
+      data.sunsetDate === undefined
+        ? (existingService?.sunsetDate ?? null)
+        : data.sunsetDate,
+    replacement:
+      data.replacement === undefined
+        ? (existingService?.replacement ?? null)
+        : data.replacement,
+  });
+}
+
+/**
+ * Tags as written from form data; undefined tags (older revisions) keep the
+ * stored tags
+ */
+function resolveFormTags(
+  data: CreateServiceFormData,
+  existingService?: RawService
+): readonly TagReference[] {
+  return data.tags ?? existingService?.tags ?? [];
+}
+
+/**
+ * Tech stack as written from form data; an undefined stack (older
+ * revisions) keeps the stored one
+ */
+function resolveFormTechStack(
+  data: CreateServiceFormData,
+  existingService?: RawService
+): TechStackEntry[] {
+  return normalizeTechStack(data.techStack ?? existingService?.techStack);
 }
 
 /**
- * Creates transactions for updating an existing service
+ * Operational links as written from form data; undefined links (older
+ * revisions) keep the stored ones
+ */
+function resolveFormLinks(
+  data: CreateServiceFormData,
+  existingService?: RawService
+): ServiceLink[] {
+  return normalizeServiceLinks(data.links ?? existingService?.links);
+}
+
+/**
+ * Creates the team named after the owner when the form asks for a new one
+ */
+function createFormTeamTransactions(
+  dbInstance: typeof db,
+  organizationId: string,
+  data: CreateServiceFormData
+) {
+  if (!(data.createTeam && data.teamId)) {
+    return [];
+  }
+  return [
+    createTeamTransaction(dbInstance, organizationId, data.teamId, {
+      name: data.owner,
+      slug: slugifyTeamName(data.owner),
+    }),
+  ];
+}
+
+/**
+ * Links the tags added to a service and unlinks the removed ones
+ */
+function createTagLinkTransactions(
+  dbInstance: typeof db,
+  serviceId: string,
+  previousTags: readonly TagReference[] | undefined,
+  tags: readonly TagReference[]
+) {
+  const { link, unlink } = getTagLinkChanges(previousTags ?? [], tags);
+  const serviceTx = dbInstance.tx.services[serviceId];
+  return [
+    ...(unlink.length > 0 ? [serviceTx.unlink({ tags: unlink })] : []),
+    ...(link.length > 0 ? [serviceTx.link({ tags: link })] : []),
+  ];
+}
+
+/**
+ * Prepares interface records from form data, carrying the form row id.
+ * Domains are stored normalised.
+ */
+function buildInterfaceRecords(data: CreateServiceFormData): InterfaceRecord[] {
+  return data.interfaces
+    .filter((iface) => iface.domain.trim())
+    .map((iface) => ({
+      id: resolveRecordId(iface.id),
+      domain: normalizeDomain(iface.domain),
+      env: iface.env || "production",
+      branch: iface.branch.trim() || null,
+      runtimeType: iface.runtimeType || null,
+      runtimeId: iface.runtimeId.trim() || null,
+    }));
+}
+
+/**
+ * Prepares dependency records from form data, deduplicated by name.
+ * Names already stored keep their existing row id.
+ */
+function buildDependencyRecords(
+  data: CreateServiceFormData,
+  existingDependencies: readonly StoredDependency[] = []
+): DependencyRecord[] {
+  const existingByName = new Map(
+    existingDependencies.map((dep) => [
+      getDependencyDisplayName(dep).toLowerCase(),
+      dep,
+    ])
+  );
+  const records = new Map<string, DependencyRecord>();
+  for (const dep of data.dependencies) {
+    const name = dep.name.trim();
+    const key = name.toLowerCase();
+    if (!name || records.has(key)) {
+      continue;
+    }
+    records.set(key, {
+      id: existingByName.get(key)?.id ?? id(),
+      dependencyName: name,
+      targetServiceId: dep.serviceId ?? null,
+    });
+  }
+  return Array.from(records.values());
+}
+
+/**
+ * Creates a dependency row, linked to its target service or marked external
+ */
+function createDependencyTransaction(
+  dbInstance: typeof db,
+  serviceId: string,
+  record: DependencyRecord
+) {
+  const tx = dbInstance.tx.serviceDependencies[record.id]
+    .create({
+      serviceId,
+      dependencyName: record.dependencyName,
+      external: record.targetServiceId === null,
+      createdAt: new Date(),
+    })
+    .link({ service: serviceId });
+  return record.targetServiceId
+    ? tx.link({ target: record.targetServiceId })
+    : tx;
+}
+
+/**
+ * Updates a stored dependency in place when its name or target changed
+ */
+function updateDependencyTransactions(
+  dbInstance: typeof db,
+  existing: StoredDependency,
+  record: DependencyRecord
+) {
+  const previousTargetId = existing.target?.id ?? null;
+  const external = record.targetServiceId === null;
+  if (
+    existing.dependencyName === record.dependencyName &&
+    previousTargetId === record.targetServiceId &&
+    existing.external === external
+  ) {
+    return [];
+  }
+
+  let tx = dbInstance.tx.serviceDependencies[record.id].update({
+    dependencyName: record.dependencyName,
+    external,
+  });
+  if (previousTargetId && previousTargetId !== record.targetServiceId) {
+    tx = tx.unlink({ target: previousTargetId });
+  }
+  if (record.targetServiceId && previousTargetId !== record.targetServiceId) {
+    tx = tx.link({ target: record.targetServiceId });
+  }
+  return [tx];
+}
+
+/**
+ * Checks whether a stored interface differs from its form record
+ */
+function hasInterfaceChanged(
+  existing: NonNullable<RawService["interfaces"]>[number],
+  record: InterfaceRecord
+): boolean {
+  return (
+    existing.domain !== record.domain ||
+    existing.env !== record.env ||
+    (existing.branch ?? null) !== record.branch ||
+    (existing.runtimeType ?? null) !== record.runtimeType ||
+    (existing.runtimeId ?? null) !== record.runtimeId
+  );
+}
+
+/**
+ * Creates transactions for updating an existing service.
+ * Interfaces and dependencies are reconciled against the stored rows: matching
+ * rows are updated in place (only when changed), and only rows that were added
+ * or removed are created or deleted.
+ * Also used to restore a revision, recorded with the "restore" action, and to
+ * write the survivor of a merge, recorded with the "merge" action.
  */
 export function createUpdateServiceTransactions(
   dbInstance: typeof db,
   serviceId: string,
+  organizationId: string,
   userId: string,
   data: CreateServiceFormData,
-  existingService: RawService
+  existingService: RawService,
+  action: Extract<
+    ServiceRevisionAction,
+    "update" | "restore" | "merge"
+  > = "update"
 ) {
   const existingInterfaces = existingService.interfaces || [];
   const existingDependencies = existingService.dependencies || [];
+  // Undefined custom fields (older revisions) keep the stored values
+  const customFields = normalizeCustomFieldValues(
+    data.customFields ?? existingService.customFields
+  );
+  const lifecycle = resolveFormLifecycle(data, existingService);
+  const tags = resolveFormTags(data, existingService);
+  const techStack = resolveFormTechStack(data, existingService);
+  const links = resolveFormLinks(data, existingService);
 
   // Update service
-  const serviceTx = dbInstance.tx.services[serviceId].update({
-    name: data.name,
-    description: data.description.trim() || null,
-    language: data.languages.length > 0 ? data.languages.join(",") : null,
-    owner: data.owner,
-    repository: data.repository,
-    updatedAt: new Date(),
-    updatedById: userId,
-  });
+  let serviceTx = dbInstance.tx.services[serviceId]
+    .update({
+      name: data.name,
+      description: data.description.trim() || null,
+      language: data.languages.length > 0 ? data.languages.join(",") : null,
+      owner: data.owner,
+      repository: data.repository,
+      customFields,
+      lifecycle: lifecycle.lifecycle,
+      sunsetDate: lifecycle.sunsetDate,
+      techStack,
+      links,
+      updatedAt: new Date(),
+      updatedById: userId,
+    })
+    .link({ updater: userId });
 
-  // Delete all existing interfaces and dependencies
-  const deleteInterfaceTxs = existingInterfaces.map((iface) =>
-    dbInstance.tx.serviceInterfaces[iface.id].delete()
-  );
-  const deleteDependencyTxs = existingDependencies.map((dep) =>
-    dbInstance.tx.serviceDependencies[dep.id].delete()
+  // Move the service to the selected team; undefined keeps the current one
+  const previousTeamId = existingService.team?.id ?? null;
+  if (data.teamId !== undefined && data.teamId !== previousTeamId) {
+    if (previousTeamId) {
+      serviceTx = serviceTx.unlink({ team: previousTeamId });
+    }
+    if (data.teamId) {
+      serviceTx = serviceTx.link({ team: data.teamId });
+    }
+  }
+
+  const previousReplacementId = existingService.replacement?.id ?? null;
+  const replacementId = lifecycle.replacement?.id ?? null;
+  if (replacementId !== previousReplacementId) {
+    if (previousReplacementId) {
+      serviceTx = serviceTx.unlink({ replacement: previousReplacementId });
+    }
+    if (replacementId) {
+      serviceTx = serviceTx.link({ replacement: replacementId });
+    }
+  }
+
+  const interfaceRecords = buildInterfaceRecords(data);
+  const dependencyRecords = buildDependencyRecords(data, existingDependencies);
+
+  // Reconcile interfaces by id
+  const existingInterfaceById = new Map(
+    existingInterfaces.map((iface) => [iface.id, iface])
   );
+  const interfaceIds = new Set(interfaceRecords.map((iface) => iface.id));
 
-  // Create new interfaces
-  const interfaceTxs = data.interfaces
-    .filter((iface) => iface.domain.trim())
-    .map((iface) => {
-      const interfaceId = id();
-      return dbInstance.tx.serviceInterfaces[interfaceId]
-        .create({
-          serviceId,
-          domain: iface.domain.trim(),
-          env: iface.env || "production",
-          branch: iface.branch.trim() || null,
-          runtimeType: iface.runtimeType || null,
-          runtimeId: iface.runtimeId.trim() || null,
-          createdAt: new Date(),
+  const deleteInterfaceTxs = existingInterfaces
+    .filter((iface) => !interfaceIds.has(iface.id))
+    .map((iface) => dbInstance.tx.serviceInterfaces[iface.id].delete());
+
+  const interfaceTxs = interfaceRecords.flatMap(
+    ({ id: interfaceId, ...iface }) => {
+      const existing = existingInterfaceById.get(interfaceId);
+      if (!existing) {
+        return [
+          dbInstance.tx.serviceInterfaces[interfaceId]
+            .create({
+              ...iface,
+              serviceId,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            })
+            .link({ service: serviceId }),
+        ];
+      }
+      if (!hasInterfaceChanged(existing, { id: interfaceId, ...iface })) {
+        return [];
+      }
+      return [
+        dbInstance.tx.serviceInterfaces[interfaceId].update({
+          ...iface,
           updatedAt: new Date(),
-        })
-        .link({ service: serviceId });
-    });
+        }),
+      ];
+    }
+  );
 
-  // Create new dependencies
-  const dependencyTxs = data.dependencies
-    .filter((dep) => dep.name.trim())
-    .map((dep) => {
-      const depId = id();
-      return dbInstance.tx.serviceDependencies[depId]
-        .create({
-          serviceId,
-          dependencyName: dep.name.trim(),
-          createdAt: new Date(),
-        })
-        .link({ service: serviceId });
-    });
+  // Reconcile dependencies by name
+  const existingDependencyById = new Map(
+    existingDependencies.map((dep) => [dep.id, dep])
+  );
+  const dependencyIds = new Set(dependencyRecords.map((dep) => dep.id));
+
+  const deleteDependencyTxs = existingDependencies
+    .filter((dep) => !dependencyIds.has(dep.id))
+    .map((dep) => dbInstance.tx.serviceDependencies[dep.id].delete());
+
+  const dependencyTxs = dependencyRecords.flatMap((record) => {
+    const existing = existingDependencyById.get(record.id);
+    return existing
+      ? updateDependencyTransactions(dbInstance, existing, record)
+      : [createDependencyTransaction(dbInstance, serviceId, record)];
+  });
+
+  const revisionTx = createServiceRevisionTransaction(dbInstance, {
+    serviceId,
+    organizationId,
+    userId,
+    action,
+    snapshot: createFormDataSnapshot(
+      data,
+      interfaceRecords,
+      dependencyRecords,
+      customFields,
+      lifecycle,
+      tags,
+      techStack,
+      links
+    ),
+  });
 
   return [
+    ...createFormTeamTransactions(dbInstance, organizationId, data),
     serviceTx,
+    ...createTagLinkTransactions(
+      dbInstance,
+      serviceId,
+      existingService.tags,
+      tags
+    ),
     ...deleteInterfaceTxs,
     ...deleteDependencyTxs,
     ...interfaceTxs,
     ...dependencyTxs,
+    revisionTx,
   ];
 }
 
 /**
- * Creates transactions for creating a new service
+ * Creates transactions for creating a new service. The id may be chosen
+ * beforehand, so services created together can depend on each other.
  */
 export function createNewServiceTransactions(
   dbInstance: typeof db,
   organizationId: string,
   userId: string,
-  data: CreateServiceFormData
+  data: CreateServiceFormData,
+  serviceId: string = id()
 ) {
-  const serviceId = id();
+  const customFields = normalizeCustomFieldValues(data.customFields);
+  const lifecycle = resolveFormLifecycle(data);
+  const techStack = resolveFormTechStack(data);
+  const links = resolveFormLinks(data);
 
-  const serviceTx = dbInstance.tx.services[serviceId]
+  let serviceTx = dbInstance.tx.services[serviceId]
     .create({
       name: data.name,
       description: data.description.trim() || null,
       language: data.languages.length > 0 ? data.languages.join(",") : null,
       owner: data.owner,
       repository: data.repository,
+      customFields,
+      lifecycle: lifecycle.lifecycle,
+      sunsetDate: lifecycle.sunsetDate,
+      techStack,
+      links,
       organizationId,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -111,38 +515,309 @@ export function createNewServiceTransactions(
       updatedById: userId,
     })
     .link({ organization: organizationId })
-    .link({ creator: userId });
+    .link({ creator: userId })
+    .link({ updater: userId });
+  if (data.teamId) {
+    serviceTx = serviceTx.link({ team: data.teamId });
+  }
+  if (lifecycle.replacement) {
+    serviceTx = serviceTx.link({ replacement: lifecycle.replacement.id });
+  }
+  const tags = resolveFormTags(data);
 
-  const interfaceTxs = data.interfaces
-    .filter((iface) => iface.domain.trim())
-    .map((iface) => {
-      const interfaceId = id();
-      return dbInstance.tx.serviceInterfaces[interfaceId]
-        .create({
-          serviceId,
-          domain: iface.domain.trim(),
-          env: iface.env || "production",
-          branch: iface.branch.trim() || null,
-          runtimeType: iface.runtimeType || null,
-          runtimeId: iface.runtimeId.trim() || null,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .link({ service: serviceId });
-    });
+  const interfaceRecords = buildInterfaceRecords(data);
+  const dependencyRecords = buildDependencyRecords(data);
 
-  const dependencyTxs = data.dependencies
-    .filter((dep) => dep.name.trim())
-    .map((dep) => {
-      const depId = id();
-      return dbInstance.tx.serviceDependencies[depId]
-        .create({
-          serviceId,
-          dependencyName: dep.name.trim(),
-          createdAt: new Date(),
-        })
-        .link({ service: serviceId });
-    });
+  const interfaceTxs = interfaceRecords.map(({ id: interfaceId, ...iface }) =>
+    dbInstance.tx.serviceInterfaces[interfaceId]
+      .create({
+        ...iface,
+        serviceId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .link({ service: serviceId })
+  );
+
+  const dependencyTxs = dependencyRecords.map((record) =>
+    createDependencyTransaction(dbInstance, serviceId, record)
+  );
+
+  const revisionTx = createServiceRevisionTransaction(dbInstance, {
+    serviceId,
+    organizationId,
+    userId,
+    action: "create",
+    snapshot: createFormDataSnapshot(
+      data,
+      interfaceRecords,
+      dependencyRecords,
+      customFields,
+      lifecycle,
+      tags,
+      techStack,
+      links
+    ),
+  });
+
+  return [
+    ...createFormTeamTransactions(dbInstance, organizationId, data),
+    serviceTx,
+    ...createTagLinkTransactions(dbInstance, serviceId, [], tags),
+    ...interfaceTxs,
+    ...dependencyTxs,
+    revisionTx,
+  ];
+}
+
+/**
+ * Creates transactions for moving a service to the trash (soft delete).
+ * The service keeps its interfaces and dependencies so it can be restored.
+ */
+/**
+ * Creates transactions for one service of a bulk edit. Only the fields in
+ * the patch are written: stored interfaces and the dependencies it doesn't
+ * remove are left as they are.
+ */
+export function createBulkEditTransactions(
+  dbInstance: typeof db,
+  update: BulkEditUpdate,
+  organizationId: string,
+  userId: string
+) {
+  const { service, patch } = update;
+  const removedIds = new Set(patch.removedDependencyIds ?? []);
+  const addedRecords = (patch.addedDependencies ?? []).map((dep) => ({
+    id: dep.id,
+    dependencyName: dep.name,
+    targetServiceId: dep.serviceId ?? null,
+  }));
+
+  let serviceTx = dbInstance.tx.services[service.id]
+    .update({
+      ...(patch.team ? { owner: patch.team.name } : {}),
+      ...(patch.languages
+        ? {
+            language:
+              patch.languages.length > 0 ? patch.languages.join(",") : null,
+          }
+        : {}),
+      updatedAt: new Date(),
+      updatedById: userId,
+    })
+    .link({ updater: userId });
+
+  const previousTeamId = service.team?.id ?? null;
+  if (patch.team && patch.team.id !== previousTeamId) {
+    if (previousTeamId) {
+      serviceTx = serviceTx.unlink({ team: previousTeamId });
+    }
+    serviceTx = serviceTx.link({ team: patch.team.id });
+  }
+
+  const changes: Partial<BulkEditSource> = {
+    ...(patch.team
+      ? {
+          owner: patch.team.name,
+          team: { id: patch.team.id, name: patch.team.name },
+        }
+      : {}),
+    ...(patch.languages ? { language: patch.languages.join(",") } : {}),
+    dependencies: [
+      ...(service.dependencies ?? []).filter((dep) => !removedIds.has(dep.id)),
+      ...addedRecords.map((record) => ({
+        id: record.id,
+        dependencyName: record.dependencyName,
+        target: record.targetServiceId ? { id: record.targetServiceId } : null,
+      })),
+    ],
+  };
+
+  return [
+    serviceTx,
+    ...Array.from(removedIds, (dependencyId) =>
+      dbInstance.tx.serviceDependencies[dependencyId].delete()
+    ),
+    ...addedRecords.map((record) =>
+      createDependencyTransaction(dbInstance, service.id, record)
+    ),
+    createServiceChangeRevisionTransaction(dbInstance, {
+      service,
+      changes,
+      organizationId,
+      userId,
+    }),
+  ];
+}
+
+export function createDeleteServiceTransactions(
+  dbInstance: typeof db,
+  service: ServiceSnapshotSource & { readonly id: string },
+  organizationId: string,
+  userId: string
+) {
+  const serviceTx = dbInstance.tx.services[service.id]
+    .update({
+      deletedAt: new Date(),
+      deletedById: userId,
+    })
+    .link({ deleter: userId });
+
+  const revisionTx = createServiceRevisionTransaction(dbInstance, {
+    serviceId: service.id,
+    organizationId,
+    userId,
+    action: "delete",
+    snapshot: createServiceSnapshot(service),
+  });
+
+  return [serviceTx, revisionTx];
+}
+
+/**
+ * Creates transactions for merging a duplicate into the survivor of a merge
+ * plan: the survivor takes the merged values, the duplicate's remaining
+ * interfaces and dependencies move over, dependencies and replacements
+ * pointing at the duplicate point at the survivor, and the duplicate is moved
+ * to the trash with what was left on it.
+ */
+export function createMergeServicesTransactions(
+  dbInstance: typeof db,
+  survivor: MergeServiceRecord,
+  duplicate: MergeServiceRecord,
+  plan: ServiceMergePlan,
+  organizationId: string,
+  userId: string
+) {
+  const movedInterfaceIds = new Set(plan.movedInterfaceIds);
+  const movedDependencyIds = new Set(plan.movedDependencyIds);
+  const duplicateInterfaces = duplicate.interfaces ?? [];
+  const duplicateDependencies = duplicate.dependencies ?? [];
+  const movedInterfaces = duplicateInterfaces.filter((iface) =>
+    movedInterfaceIds.has(iface.id)
+  );
+  const movedDependencies = duplicateDependencies.filter((dep) =>
+    movedDependencyIds.has(dep.id)
+  );
+
+  const moveTxs = [
+    ...movedInterfaces.map((iface) =>
+      dbInstance.tx.serviceInterfaces[iface.id]
+        .update({ serviceId: survivor.id, updatedAt: new Date() })
+        .unlink({ service: duplicate.id })
+        .link({ service: survivor.id })
+    ),
+    ...movedDependencies.map((dep) =>
+      dbInstance.tx.serviceDependencies[dep.id]
+        .update({ serviceId: survivor.id })
+        .unlink({ service: duplicate.id })
+        .link({ service: survivor.id })
+    ),
+  ];
+
+  // Moved rows count as the survivor's own, so they are kept, not recreated
+  const survivorTxs = createUpdateServiceTransactions(
+    dbInstance,
+    survivor.id,
+    organizationId,
+    userId,
+    plan.data,
+    {
+      ...survivor,
+      interfaces: [...(survivor.interfaces ?? []), ...movedInterfaces],
+      dependencies: [...(survivor.dependencies ?? []), ...movedDependencies],
+    },
+    "merge"
+  );
+
+  const dependentTxs = plan.dependents.map((dependent) =>
+    dependent.action === "remove"
+      ? dbInstance.tx.serviceDependencies[dependent.dependencyId].delete()
+      : dbInstance.tx.serviceDependencies[dependent.dependencyId]
+          .update({ dependencyName: plan.data.name, external: false })
+          .unlink({ target: duplicate.id })
+          .link({ target: survivor.id })
+  );
+
+  const replacementTxs = plan.replacedServiceIds.map((serviceId) =>
+    dbInstance.tx.services[serviceId]
+      .unlink({ replacement: duplicate.id })
+      .link({ replacement: survivor.id })
+  );
+
+  const deleteTxs = createDeleteServiceTransactions(
+    dbInstance,
+    {
+      ...duplicate,
+      interfaces: duplicateInterfaces.filter(
+        (iface) => !movedInterfaceIds.has(iface.id)
+      ),
+      dependencies: duplicateDependencies.filter(
+        (dep) => !movedDependencyIds.has(dep.id)
+      ),
+    },
+    organizationId,
+    userId
+  );
+
+  return [
+    ...moveTxs,
+    ...survivorTxs,
+    ...dependentTxs,
+    ...replacementTxs,
+    ...deleteTxs,
+  ];
+}
+
+/**
+ * Creates transactions for restoring a service from the trash
+ */
+export function createRestoreDeletedServiceTransactions(
+  dbInstance: typeof db,
+  service: ServiceSnapshotSource & {
+    readonly id: string;
+    readonly deletedById?: string | null;
+  },
+  organizationId: string,
+  userId: string
+) {
+  let serviceTx = dbInstance.tx.services[service.id].update({
+    deletedAt: null,
+    deletedById: null,
+  });
+  if (service.deletedById) {
+    serviceTx = serviceTx.unlink({ deleter: service.deletedById });
+  }
+
+  const revisionTx = createServiceRevisionTransaction(dbInstance, {
+    serviceId: service.id,
+    organizationId,
+    userId,
+    action: "restore",
+    snapshot: createServiceSnapshot(service),
+  });
+
+  return [serviceTx, revisionTx];
+}
+
+/**
+ * Creates transactions for permanently deleting a service from the trash.
+ * Records a final revision with the service's last state before it is removed.
+ */
+export function createPurgeServiceTransactions(
+  dbInstance: typeof db,
+  service: ServiceSnapshotSource & { readonly id: string },
+  organizationId: string,
+  userId: string
+) {
+  const revisionTx = createServiceRevisionTransaction(dbInstance, {
+    serviceId: service.id,
+    organizationId,
+    userId,
+    action: "purge",
+    snapshot: createServiceSnapshot(service),
+  });
 
-  return [serviceTx, ...interfaceTxs, ...dependencyTxs];
+  // Delete service - cascades to interfaces and dependencies
+  return [revisionTx, dbInstance.tx.services[service.id].delete()];
 }
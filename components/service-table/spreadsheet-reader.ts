@@ -0,0 +1,410 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Reads the first sheet of a CSV or XLSX file as rows of text cells, for the
+ * services import. CSV follows RFC 4180 (quoted cells may hold separators,
+ * quotes and line breaks) and may be separated by semicolons, as spreadsheet
+ * applications write it in locales with a decimal comma.
+ *
+ * XLSX files are unzipped with the browser's DecompressionStream and their
+ * XML read with DOMParser, so this module runs in the browser only. Cells
+ * are read as stored: dates come back as serial day numbers.
+ *
+ * Backstage catalog-info YAML files are read as a sheet too, one row per
+ * interface of the services their entities describe.
+ */
+
+import { readCatalogImportTable } from "@/lib/backstage";
+
+const CSV_QUOTE = '"';
+const BYTE_ORDER_MARK = "\uFEFF";
+const CELL_REFERENCE_PATTERN = /^([A-Z]+)\d+$/;
+
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02_01_4b_50;
+const ZIP_END_SIGNATURE = 0x06_05_4b_50;
+const ZIP_END_RECORD_LENGTH = 22;
+const ZIP_LOCAL_HEADER_LENGTH = 30;
+const ZIP_CENTRAL_HEADER_LENGTH = 46;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+
+const SPREADSHEET_NAMESPACE =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIP_NAMESPACE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const WORKBOOK_PATH = "xl/workbook.xml";
+const WORKBOOK_RELS_PATH = "xl/_rels/workbook.xml.rels";
+const SHARED_STRINGS_PATH = "xl/sharedStrings.xml";
+
+/**
+ * Data row of a sheet
+ */
+export interface SpreadsheetRow {
+  /** One-based row number in the file, as spreadsheet applications show it */
+  readonly number: number;
+  /** Trimmed cells, as many as the header has */
+  readonly cells: readonly string[];
+}
+
+/**
+ * Rows of a sheet; the first filled row is the header
+ */
+export interface SpreadsheetTable {
+  readonly headers: readonly string[];
+  readonly rows: readonly SpreadsheetRow[];
+}
+
+/**
+ * Entry of a ZIP archive, located from the central directory
+ */
+interface ZipEntry {
+  readonly method: number;
+  readonly compressedSize: number;
+  readonly localHeaderOffset: number;
+}
+
+/**
+ * Picks the separator of a CSV file from its first line: semicolons when
+ * they outnumber commas
+ */
+function detectCsvSeparator(text: string): string {
+  const firstLine = text.slice(0, text.indexOf("\n") + 1 || text.length);
+  const count = (separator: string) => firstLine.split(separator).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+/**
+ * Reads a quoted CSV section starting after its opening quote, with doubled
+ * quotes unescaped. Returns the text and the index of the closing quote.
+ */
+function readQuotedCsvText(
+  content: string,
+  start: number
+): { readonly text: string; readonly end: number } {
+  let text = "";
+  let index = start;
+  while (index < content.length) {
+    const char = content[index];
+    if (char !== CSV_QUOTE) {
+      text += char;
+    } else if (content[index + 1] === CSV_QUOTE) {
+      text += CSV_QUOTE;
+      index++;
+    } else {
+      break;
+    }
+    index++;
+  }
+  return { text, end: index };
+}
+
+/**
+ * Splits CSV text into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text;
+  const separator = detectCsvSeparator(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === CSV_QUOTE) {
+      const quoted = readQuotedCsvText(content, index + 1);
+      cell += quoted.text;
+      index = quoted.end;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      if (char === "\r" && content[index + 1] === "\n") {
+        index++;
+      }
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads the entries of a ZIP archive by name
+ */
+function readZipEntries(view: DataView): Map<string, ZipEntry> {
+  let endOffset = view.byteLength - ZIP_END_RECORD_LENGTH;
+  while (
+    endOffset >= 0 &&
+    view.getUint32(endOffset, true) !== ZIP_END_SIGNATURE
+  ) {
+    endOffset--;
+  }
+  if (endOffset < 0) {
+    throw new Error("The file is not a valid XLSX workbook");
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("The file is not a valid XLSX workbook");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = view.byteOffset + offset + ZIP_CENTRAL_HEADER_LENGTH;
+    const name = decoder.decode(
+      new Uint8Array(view.buffer, nameStart, nameLength)
+    );
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset +=
+      ZIP_CENTRAL_HEADER_LENGTH + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Reads an entry of a ZIP archive as text; null when the archive lacks it
+ */
+async function readZipText(
+  view: DataView<ArrayBuffer>,
+  entries: ReadonlyMap<string, ZipEntry>,
+  path: string
+): Promise<string | null> {
+  const entry = entries.get(path);
+  if (!entry) {
+    return null;
+  }
+
+  const offset = entry.localHeaderOffset;
+  const dataStart =
+    offset +
+    ZIP_LOCAL_HEADER_LENGTH +
+    view.getUint16(offset + 26, true) +
+    view.getUint16(offset + 28, true);
+  const data = new Uint8Array(
+    view.buffer,
+    view.byteOffset + dataStart,
+    entry.compressedSize
+  );
+
+  if (entry.method === ZIP_METHOD_STORED) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== ZIP_METHOD_DEFLATED) {
+    throw new Error(`Unsupported compression in ${path}`);
+  }
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return await new Response(stream).text();
+}
+
+/**
+ * Parses an XML part of the workbook
+ */
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, "application/xml");
+}
+
+/**
+ * Text of a string item: plain, or the runs of rich text joined
+ */
+function getStringItemText(item: Element): string {
+  return Array.from(item.getElementsByTagNameNS(SPREADSHEET_NAMESPACE, "t"))
+    .map((text) => text.textContent ?? "")
+    .join("");
+}
+
+/**
+ * Path of the first sheet of the workbook, in tab order
+ */
+function getFirstSheetPath(workbook: Document, rels: Document): string {
+  const sheet = workbook.getElementsByTagNameNS(
+    SPREADSHEET_NAMESPACE,
+    "sheet"
+  )[0];
+  const relationshipId = sheet?.getAttributeNS(RELATIONSHIP_NAMESPACE, "id");
+  const relationship = Array.from(
+    rels.getElementsByTagName("Relationship")
+  ).find((element) => element.getAttribute("Id") === relationshipId);
+  const target = relationship?.getAttribute("Target");
+  if (!target) {
+    throw new Error("The workbook has no sheet");
+  }
+  // Targets are relative to xl/, or absolute from the archive root
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function getColumnIndex(reference: string): number | null {
+  const letters = reference.match(CELL_REFERENCE_PATTERN)?.[1];
+  if (!letters) {
+    return null;
+  }
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Text of a cell: shared and inline strings, booleans and numbers as stored
+ */
+function getCellText(cell: Element, sharedStrings: readonly string[]): string {
+  const type = cell.getAttribute("t");
+  if (type === "inlineStr") {
+    const item = cell.getElementsByTagNameNS(SPREADSHEET_NAMESPACE, "is")[0];
+    return item ? getStringItemText(item) : "";
+  }
+  const value =
+    cell.getElementsByTagNameNS(SPREADSHEET_NAMESPACE, "v")[0]?.textContent ??
+    "";
+  if (type === "s") {
+    return sharedStrings[Number(value)] ?? "";
+  }
+  if (type === "b") {
+    return value === "1" ? "TRUE" : "FALSE";
+  }
+  return value;
+}
+
+/**
+ * Reads the cells of a row, placing them by their reference so empty cells
+ * left out of the file keep their column
+ */
+function readWorksheetRow(
+  rowElement: Element,
+  sharedStrings: readonly string[]
+): string[] {
+  const row: string[] = [];
+  for (const cell of Array.from(
+    rowElement.getElementsByTagNameNS(SPREADSHEET_NAMESPACE, "c")
+  )) {
+    const index = getColumnIndex(cell.getAttribute("r") ?? "") ?? row.length;
+    while (row.length < index) {
+      row.push("");
+    }
+    row[index] = getCellText(cell, sharedStrings);
+  }
+  return row;
+}
+
+/**
+ * Reads the rows of a worksheet, placing them by their row number so empty
+ * rows left out of the file keep the numbering
+ */
+function readWorksheetRows(
+  worksheet: Document,
+  sharedStrings: readonly string[]
+): string[][] {
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(
+    worksheet.getElementsByTagNameNS(SPREADSHEET_NAMESPACE, "row")
+  )) {
+    const number = Number(rowElement.getAttribute("r")) || rows.length + 1;
+    while (rows.length < number - 1) {
+      rows.push([]);
+    }
+    rows[number - 1] = readWorksheetRow(rowElement, sharedStrings);
+  }
+  return rows;
+}
+
+/**
+ * Reads the rows of the first sheet of an XLSX workbook
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const read = (path: string) => readZipText(view, entries, path);
+
+  const [workbookXml, relsXml, sharedStringsXml] = await Promise.all([
+    read(WORKBOOK_PATH),
+    read(WORKBOOK_RELS_PATH),
+    read(SHARED_STRINGS_PATH),
+  ]);
+  if (!(workbookXml && relsXml)) {
+    throw new Error("The file is not a valid XLSX workbook");
+  }
+
+  const sheetPath = getFirstSheetPath(parseXml(workbookXml), parseXml(relsXml));
+  const sheetXml = await read(sheetPath);
+  if (!sheetXml) {
+    throw new Error("The workbook has no sheet");
+  }
+
+  const sharedStrings = sharedStringsXml
+    ? Array.from(
+        parseXml(sharedStringsXml).getElementsByTagNameNS(
+          SPREADSHEET_NAMESPACE,
+          "si"
+        )
+      ).map(getStringItemText)
+    : [];
+  return readWorksheetRows(parseXml(sheetXml), sharedStrings);
+}
+
+/**
+ * Turns rows into a table: the first filled row is the header, blank rows
+ * are dropped and cells are trimmed to the header's columns
+ */
+function toSpreadsheetTable(rows: readonly string[][]): SpreadsheetTable {
+  const filled = rows
+    .map((cells, index) => ({ number: index + 1, cells }))
+    .filter((row) => row.cells.some((cell) => cell.trim() !== ""));
+  const [headerRow, ...dataRows] = filled;
+  if (!headerRow) {
+    throw new Error("The file is empty");
+  }
+
+  const headers = headerRow.cells.map((header) => header.trim());
+  return {
+    headers,
+    rows: dataRows.map((row) => ({
+      number: row.number,
+      cells: headers.map((_, index) => (row.cells[index] ?? "").trim()),
+    })),
+  };
+}
+
+/**
+ * Reads a CSV, XLSX or Backstage catalog file chosen by the user, by its
+ * extension
+ *
+ * @param file - File from a file input
+ * @returns Header and data rows of the first sheet
+ */
+export async function readSpreadsheetFile(
+  file: File
+): Promise<SpreadsheetTable> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return toSpreadsheetTable(await parseXlsx(await file.arrayBuffer()));
+  }
+  if (name.endsWith(".csv") || name.endsWith(".txt")) {
+    return toSpreadsheetTable(parseCsv(await file.text()));
+  }
+  if (name.endsWith(".yaml") || name.endsWith(".yml")) {
+    return readCatalogImportTable(await file.text());
+  }
+  throw new Error("Choose a .csv, .xlsx or catalog-info.yaml file");
+}
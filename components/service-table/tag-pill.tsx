@@ -0,0 +1,36 @@
+/**
+ * Tag Pill
+ *
+ * Outlined pill with the colour and name of a tag, used in the services
+ * table, on the service page and in the tag settings.
+ */
+
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { TagDefinition } from "./tags";
+
+interface TagPillProps {
+  readonly tag: TagDefinition;
+  readonly className?: string;
+}
+
+/**
+ * Tag name with a dot of its colour
+ */
+export function TagPill({ tag, className }: TagPillProps) {
+  return (
+    <Badge
+      className={cn("gap-1.5 font-normal", className)}
+      style={{ borderColor: `${tag.color}66` }}
+      variant="outline"
+    >
+      <span
+        className="inline-flex size-2 shrink-0 rounded-full"
+        style={{ backgroundColor: tag.color }}
+      />
+      {tag.name}
+    </Badge>
+  );
+}
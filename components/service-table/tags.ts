@@ -0,0 +1,171 @@
+/**
+ * Service Tags
+ *
+ * Organizations keep a list of lightweight labels ("customer-facing", "pci",
+ * "legacy") with a colour each. Services are attached to tags through the
+ * `tags` link, so renaming or recolouring a tag shows on every service at
+ * once and deleting one detaches it everywhere.
+ *
+ * Tag names are unique per organization regardless of case; filters and
+ * search match them case-insensitively.
+ */
+
+import type { db } from "@/lib/db";
+
+/**
+ * Tag defined by an organization
+ */
+export interface TagDefinition {
+  readonly name: string;
+  /** Hex colour of the tag pill */
+  readonly color: string;
+}
+
+/**
+ * Stored tag of an organization
+ */
+export interface StoredTag extends TagDefinition {
+  readonly id: string;
+}
+
+/**
+ * Tag as captured in revisions and form data
+ */
+export interface TagReference {
+  readonly id: string;
+  readonly name: string;
+}
+
+/**
+ * Colours offered when creating a tag
+ */
+export const TAG_COLORS: readonly string[] = [
+  "#64748b",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+/**
+ * Colour of new tags
+ */
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0];
+
+/**
+ * Trims a tag name and collapses inner whitespace
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Whether two tag names refer to the same tag
+ */
+export function isSameTagName(a: string, b: string): boolean {
+  return (
+    normalizeTagName(a).toLowerCase() === normalizeTagName(b).toLowerCase()
+  );
+}
+
+/**
+ * Sorts tags by name
+ */
+export function sortTags<T extends { readonly name: string }>(
+  tags: readonly T[]
+): T[] {
+  return [...tags].sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+  );
+}
+
+/**
+ * Tags of a stored service, sorted by name
+ */
+export function getServiceTags(service: {
+  readonly tags?: ReadonlyArray<{
+    readonly id: string;
+    readonly name: string;
+    readonly color?: string | null;
+  }> | null;
+}): StoredTag[] {
+  return sortTags(
+    (service.tags ?? []).map((tag) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color || DEFAULT_TAG_COLOR,
+    }))
+  );
+}
+
+/**
+ * Counts the services attached to each tag, by tag id
+ */
+export function countTagUsage(
+  services: ReadonlyArray<{
+    readonly tags?: ReadonlyArray<{ readonly id: string }> | null;
+  }>
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const service of services) {
+    for (const tag of service.tags ?? []) {
+      counts.set(tag.id, (counts.get(tag.id) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Tag ids to link and unlink to move a service from its stored tags to the
+ * selected ones
+ */
+export function getTagLinkChanges(
+  previous: ReadonlyArray<{ readonly id: string }>,
+  next: ReadonlyArray<{ readonly id: string }>
+): { readonly link: string[]; readonly unlink: string[] } {
+  const previousIds = new Set(previous.map((tag) => tag.id));
+  const nextIds = new Set(next.map((tag) => tag.id));
+  return {
+    link: [...nextIds].filter((tagId) => !previousIds.has(tagId)),
+    unlink: [...previousIds].filter((tagId) => !nextIds.has(tagId)),
+  };
+}
+
+/**
+ * Creates a tag of an organization
+ */
+export function createTagTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  tagId: string,
+  definition: TagDefinition
+) {
+  return dbInstance.tx.tags[tagId]
+    .create({
+      name: normalizeTagName(definition.name),
+      color: definition.color,
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+}
+
+/**
+ * Renames or recolours a tag; attached services follow
+ */
+export function createUpdateTagTransaction(
+  dbInstance: typeof db,
+  tagId: string,
+  definition: TagDefinition
+) {
+  return dbInstance.tx.tags[tagId].update({
+    name: normalizeTagName(definition.name),
+    color: definition.color,
+    updatedAt: new Date(),
+  });
+}
@@ -0,0 +1,340 @@
+/**
+ * Team Links
+ *
+ * Services are owned by a team of the same organization (`team` link). The
+ * free-text `owner` mirrors the team name (on save and when a team is renamed
+ * or deleted) and remains the fallback for services that predate teams.
+ *
+ * Also provides the migration that maps legacy owner strings to teams:
+ * variants such as "payments", "Payments Team" and "payments-team" share an
+ * owner key and end up on the same team.
+ */
+
+import { id } from "@instantdb/react";
+import type { db } from "@/lib/db";
+import {
+  createServiceChangeRevisionTransaction,
+  type ServiceChangeAuthor,
+  type StoredServiceSource,
+} from "./service-revisions";
+
+/**
+ * Team that a service can be assigned to
+ */
+export interface TeamOption {
+  readonly id: string;
+  readonly name: string;
+  readonly slug: string;
+}
+
+/**
+ * Editable team fields
+ */
+export interface TeamInput {
+  readonly name: string;
+  readonly slug: string;
+  readonly description: string;
+  readonly contactChannel: string;
+  /** Organization member record ids */
+  readonly memberIds: readonly string[];
+}
+
+/**
+ * Stored team as loaded with its members and services. Services are loaded
+ * in full, as changing their owner records a revision of each.
+ */
+export interface StoredTeam extends TeamOption {
+  readonly members?: ReadonlyArray<{ readonly id: string }>;
+  readonly services?: readonly StoredServiceSource[];
+}
+
+/**
+ * Planned outcome of migrating one group of owner strings
+ */
+export interface OwnerMigrationGroup {
+  readonly key: string;
+  /** Owner strings mapped to the team, most used first */
+  readonly variants: readonly string[];
+  readonly serviceIds: readonly string[];
+  /** Existing team, or null when the migration creates one */
+  readonly team: TeamOption | null;
+  /** Name of the existing team, or of the team to create */
+  readonly teamName: string;
+}
+
+/**
+ * Words that don't distinguish one owner from another
+ */
+const OWNER_NOISE_WORDS = new Set(["team", "teams", "squad"]);
+
+/**
+ * Builds a URL-safe slug from a team name: "Payments Team" → "payments-team"
+ */
+export function slugifyTeamName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Key under which owner spellings are considered the same team:
+ * "payments", "Payments Team" and "payments-team" all give "payments"
+ */
+export function getOwnerKey(owner: string): string {
+  const slug = slugifyTeamName(owner);
+  const words = slug.split("-").filter((word) => !OWNER_NOISE_WORDS.has(word));
+  return words.length > 0 ? words.join("-") : slug;
+}
+
+/**
+ * Finds the team an owner string refers to, by name, slug or owner key
+ */
+export function resolveTeam(
+  owner: string,
+  teams: readonly TeamOption[]
+): TeamOption | null {
+  const normalized = owner.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  const exact = teams.find(
+    (team) =>
+      team.name.toLowerCase() === normalized ||
+      team.slug.toLowerCase() === normalized
+  );
+  if (exact) {
+    return exact;
+  }
+  const key = getOwnerKey(owner);
+  return (
+    teams.find(
+      (team) => getOwnerKey(team.name) === key || getOwnerKey(team.slug) === key
+    ) ?? null
+  );
+}
+
+/**
+ * Display owner of a service: its team's current name when linked, so
+ * renaming a team doesn't require rewriting its services
+ */
+export function getServiceOwnerName(service: {
+  readonly owner: string;
+  readonly team?: { readonly name: string } | null;
+}): string {
+  return service.team?.name ?? service.owner;
+}
+
+/**
+ * Plans the migration of services without a team, grouping their owner
+ * strings by owner key and matching each group to an existing team
+ */
+export function planOwnerMigration(
+  services: ReadonlyArray<{
+    readonly id: string;
+    readonly owner: string;
+    readonly team?: { readonly id: string } | null;
+  }>,
+  teams: readonly TeamOption[]
+): OwnerMigrationGroup[] {
+  const groups = new Map<
+    string,
+    { serviceIds: string[]; variantCounts: Map<string, number> }
+  >();
+
+  for (const service of services) {
+    const owner = service.owner.trim();
+    if (service.team || !owner) {
+      continue;
+    }
+    const key = getOwnerKey(owner);
+    const group = groups.get(key) ?? {
+      serviceIds: [],
+      variantCounts: new Map<string, number>(),
+    };
+    group.serviceIds.push(service.id);
+    group.variantCounts.set(owner, (group.variantCounts.get(owner) ?? 0) + 1);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const variants = Array.from(group.variantCounts.keys()).sort(
+      (a, b) =>
+        (group.variantCounts.get(b) ?? 0) - (group.variantCounts.get(a) ?? 0) ||
+        a.localeCompare(b)
+    );
+    const team =
+      variants
+        .map((variant) => resolveTeam(variant, teams))
+        .find((match) => match !== null) ?? null;
+    return {
+      key,
+      variants,
+      serviceIds: group.serviceIds,
+      team,
+      teamName: team?.name ?? variants[0] ?? key,
+    };
+  }).sort((a, b) => a.teamName.localeCompare(b.teamName));
+}
+
+/**
+ * Creates a team of an organization with its members
+ */
+export function createTeamTransaction(
+  dbInstance: typeof db,
+  organizationId: string,
+  teamId: string,
+  input: Pick<TeamInput, "name" | "slug"> & Partial<TeamInput>
+) {
+  let tx = dbInstance.tx.teams[teamId]
+    .create({
+      name: input.name.trim(),
+      slug: input.slug.trim(),
+      description: input.description?.trim() || null,
+      contactChannel: input.contactChannel?.trim() || null,
+      organizationId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .link({ organization: organizationId });
+  for (const memberId of input.memberIds ?? []) {
+    tx = tx.link({ members: memberId });
+  }
+  return tx;
+}
+
+/**
+ * Sets the owner of a service and records the change in its history
+ */
+function createServiceOwnerTransactions(
+  dbInstance: typeof db,
+  service: StoredServiceSource,
+  changes: Pick<StoredServiceSource, "owner" | "team">,
+  author: ServiceChangeAuthor
+) {
+  return [
+    dbInstance.tx.services[service.id].update({ owner: changes.owner }),
+    createServiceChangeRevisionTransaction(dbInstance, {
+      service,
+      changes,
+      ...author,
+    }),
+  ];
+}
+
+/**
+ * Updates a team's fields and reconciles its members. A rename is copied to
+ * the owner of its services.
+ */
+export function createUpdateTeamTransactions(
+  dbInstance: typeof db,
+  team: StoredTeam,
+  input: TeamInput,
+  author: ServiceChangeAuthor
+) {
+  const previousMemberIds = new Set(
+    (team.members ?? []).map((member) => member.id)
+  );
+  const memberIds = new Set(input.memberIds);
+  const name = input.name.trim();
+
+  let teamTx = dbInstance.tx.teams[team.id].update({
+    name,
+    slug: input.slug.trim(),
+    description: input.description.trim() || null,
+    contactChannel: input.contactChannel.trim() || null,
+    updatedAt: new Date(),
+  });
+  for (const memberId of previousMemberIds) {
+    if (!memberIds.has(memberId)) {
+      teamTx = teamTx.unlink({ members: memberId });
+    }
+  }
+  for (const memberId of memberIds) {
+    if (!previousMemberIds.has(memberId)) {
+      teamTx = teamTx.link({ members: memberId });
+    }
+  }
+
+  const serviceTxs =
+    name === team.name
+      ? []
+      : (team.services ?? []).flatMap((service) =>
+          createServiceOwnerTransactions(
+            dbInstance,
+            service,
+            { owner: name, team: { id: team.id, name } },
+            author
+          )
+        );
+  return [teamTx, ...serviceTxs];
+}
+
+/**
+ * Deletes a team. Its services keep the team name as free-text owner.
+ */
+export function createDeleteTeamTransactions(
+  dbInstance: typeof db,
+  team: StoredTeam,
+  author: ServiceChangeAuthor
+) {
+  return [
+    ...(team.services ?? []).flatMap((service) =>
+      createServiceOwnerTransactions(
+        dbInstance,
+        service,
+        { owner: team.name, team: null },
+        author
+      )
+    ),
+    dbInstance.tx.teams[team.id].delete(),
+  ];
+}
+
+/**
+ * Creates transactions applying an owner migration plan: missing teams are
+ * created and every service is linked to its team, taking the team's name
+ *
+ * @param services - Services the plan was made from
+ */
+export function createOwnerMigrationTransactions(
+  dbInstance: typeof db,
+  plan: readonly OwnerMigrationGroup[],
+  services: readonly StoredServiceSource[],
+  author: ServiceChangeAuthor
+) {
+  const { organizationId } = author;
+  const servicesById = new Map(
+    services.map((service) => [service.id, service])
+  );
+  return plan.flatMap((group) => {
+    const teamId = group.team?.id ?? id();
+    const teamTxs = group.team
+      ? []
+      : [
+          createTeamTransaction(dbInstance, organizationId, teamId, {
+            name: group.teamName,
+            slug: slugifyTeamName(group.teamName),
+          }),
+        ];
+    const team = { id: teamId, name: group.teamName };
+    const serviceTxs = group.serviceIds.flatMap((serviceId) => {
+      const service = servicesById.get(serviceId);
+      if (!service) {
+        return [];
+      }
+      return [
+        dbInstance.tx.services[serviceId]
+          .update({ owner: group.teamName })
+          .link({ team: teamId }),
+        createServiceChangeRevisionTransaction(dbInstance, {
+          service,
+          changes: { owner: group.teamName, team },
+          ...author,
+        }),
+      ];
+    });
+    return [...teamTxs, ...serviceTxs];
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Tech Stack Input
+ *
+ * Tech stack rows of the service form: a kind, a technology name suggested
+ * from the end-of-life dataset, and a version. Each row shows whether its
+ * version is still supported.
+ */
+
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EolBadge } from "./eol-badge";
+import { EOL_DATASET } from "./eol-dataset";
+import { getEolInfo, TECH_STACK_KINDS, type TechStackKind } from "./tech-stack";
+import type { ServiceTechStackEntry } from "./types";
+
+const NO_ENTRIES: readonly ServiceTechStackEntry[] = [];
+
+/**
+ * Technology names suggested in the name inputs
+ */
+const TECHNOLOGY_SUGGESTIONS = EOL_DATASET.map((product) => ({
+  value: product.aliases[0] ?? product.id,
+  label: product.label,
+}));
+
+interface TechStackInputProps {
+  /** Entries of the service; undefined while the stored stack is kept */
+  readonly value?: readonly ServiceTechStackEntry[];
+  /** Error messages keyed by entry id */
+  readonly errors: Readonly<Record<string, string>>;
+  readonly onChange: (entries: readonly ServiceTechStackEntry[]) => void;
+}
+
+/**
+ * Editable list of tech stack entries with their support status
+ */
+export function TechStackInput({
+  value = NO_ENTRIES,
+  errors,
+  onChange,
+}: TechStackInputProps) {
+  // Status is computed for today; the drawer stays open for minutes at most
+  const today = useMemo(() => new Date(), []);
+
+  const handleAdd = () => {
+    onChange([
+      ...value,
+      {
+        id: `tech-stack-${Date.now()}`,
+        kind: "runtime",
+        name: "",
+        version: "",
+      },
+    ]);
+  };
+
+  const handleRemove = (entryId: string) => {
+    onChange(value.filter((entry) => entry.id !== entryId));
+  };
+
+  const handleChange = (
+    entryId: string,
+    field: "kind" | "name" | "version",
+    fieldValue: string
+  ) => {
+    onChange(
+      value.map((entry) =>
+        entry.id === entryId ? { ...entry, [field]: fieldValue } : entry
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-3 pb-2">
+      <div className="flex items-center justify-between">
+        <Label>Technologies</Label>
+        <Button onClick={handleAdd} size="sm" type="button" variant="outline">
+          <Plus className="mr-1 size-3" />
+          Add
+        </Button>
+      </div>
+
+      {value.length === 0 ? (
+        <p className="text-muted-foreground text-xs">
+          No technologies added yet. Add runtimes and frameworks with their
+          versions, e.g. node 20 or spring-boot 3.3, to be warned before they
+          reach end of life.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <datalist id="tech-stack-options">
+            {TECHNOLOGY_SUGGESTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </datalist>
+          {value.map((entry) => (
+            <div className="space-y-1" key={entry.id}>
+              <div className="flex items-center gap-2">
+                <Select
+                  onValueChange={(next) =>
+                    handleChange(entry.id, "kind", next as TechStackKind)
+                  }
+                  value={entry.kind}
+                >
+                  <SelectTrigger aria-label="Kind" className="w-28 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">
+                    {TECH_STACK_KINDS.map((kind) => (
+                      <SelectItem key={kind.value} value={kind.value}>
+                        {kind.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-invalid={errors[entry.id] ? "true" : "false"}
+                  aria-label="Technology"
+                  list="tech-stack-options"
+                  onChange={(e) =>
+                    handleChange(entry.id, "name", e.target.value)
+                  }
+                  placeholder="node"
+                  value={entry.name}
+                />
+                <Input
+                  aria-label="Version"
+                  className="w-20 shrink-0"
+                  onChange={(e) =>
+                    handleChange(entry.id, "version", e.target.value)
+                  }
+                  placeholder="20"
+                  value={entry.version}
+                />
+                <Button
+                  aria-label="Remove technology"
+                  onClick={() => handleRemove(entry.id)}
+                  size="icon"
+                  type="button"
+                  variant="ghost"
+                >
+                  <X className="size-4" />
+                </Button>
+              </div>
+              {errors[entry.id] ? (
+                <p className="text-destructive text-xs">{errors[entry.id]}</p>
+              ) : (
+                entry.name.trim() &&
+                entry.version.trim() && (
+                  <EolBadge info={getEolInfo(entry, today)} />
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
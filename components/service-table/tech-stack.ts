@@ -0,0 +1,286 @@
+/**
+ * Tech Stack
+ *
+ * Services list the languages, frameworks and runtimes they are built on,
+ * each with a version ("node 18", "java 11", "spring-boot 2.7"). Entries are
+ * stored on the service as a JSON array, sorted by kind and name, with one
+ * entry per kind and name.
+ *
+ * Versions are checked against the bundled end-of-life dataset so services
+ * running unsupported or soon unsupported versions can be flagged.
+ */
+
+import { EOL_DATASET, type EolCycle, type EolProduct } from "./eol-dataset";
+import { getDaysUntil } from "./lifecycle";
+
+/**
+ * Kind of technology in a tech stack
+ */
+export type TechStackKind = "language" | "framework" | "runtime";
+
+/**
+ * Tech stack kinds with their display names, in picker order
+ */
+export const TECH_STACK_KINDS: ReadonlyArray<{
+  readonly value: TechStackKind;
+  readonly label: string;
+}> = [
+  { value: "language", label: "Language" },
+  { value: "framework", label: "Framework" },
+  { value: "runtime", label: "Runtime" },
+];
+
+/**
+ * Technology used by a service
+ */
+export interface TechStackEntry {
+  readonly kind: TechStackKind;
+  /** Technology name, e.g. "node" or "spring-boot" */
+  readonly name: string;
+  /** Version in use, e.g. "18" or "2.7.18"; empty when unknown */
+  readonly version: string;
+}
+
+/**
+ * Support status of a technology version
+ *
+ * - `supported`: support ends in more than `EOL_SOON_DAYS` days, or no end
+ *   date is announced
+ * - `eol-soon`: support ends within `EOL_SOON_DAYS` days
+ * - `eol`: support has ended
+ * - `unknown`: the technology or version is not in the dataset
+ */
+export type EolStatus = "supported" | "eol-soon" | "eol" | "unknown";
+
+/**
+ * Days before the end of support a version is flagged as ending soon
+ */
+export const EOL_SOON_DAYS = 180;
+
+/**
+ * End-of-life details of a tech stack entry
+ */
+export interface EolInfo {
+  readonly status: EolStatus;
+  /** Dataset product label, e.g. "Node.js"; null when not tracked */
+  readonly productLabel: string | null;
+  /** Matched release line, e.g. "18"; null when not tracked */
+  readonly cycle: string | null;
+  /** "YYYY-MM-DD" end of support; null when none is known */
+  readonly eolDate: string | null;
+  /** Days until the end of support, negative once passed */
+  readonly daysLeft: number | null;
+}
+
+/**
+ * Service running an end-of-life or soon end-of-life version
+ */
+export interface EolFinding {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  /** Owning team's name */
+  readonly owner: string;
+  readonly entry: TechStackEntry;
+  readonly info: EolInfo;
+}
+
+const VERSION_PREFIX_PATTERN = /^v/;
+
+const UNKNOWN_EOL: EolInfo = {
+  status: "unknown",
+  productLabel: null,
+  cycle: null,
+  eolDate: null,
+  daysLeft: null,
+};
+
+/**
+ * Whether a value is a tech stack kind
+ */
+export function isTechStackKind(value: unknown): value is TechStackKind {
+  return TECH_STACK_KINDS.some((kind) => kind.value === value);
+}
+
+/**
+ * Display name of a tech stack kind
+ */
+export function getTechStackKindLabel(kind: TechStackKind): string {
+  return TECH_STACK_KINDS.find((item) => item.value === kind)?.label ?? kind;
+}
+
+/**
+ * Sorts entries by kind, in picker order, then by name
+ */
+export function sortTechStack(
+  entries: readonly TechStackEntry[]
+): TechStackEntry[] {
+  const kindOrder = (kind: TechStackKind) =>
+    TECH_STACK_KINDS.findIndex((item) => item.value === kind);
+  return [...entries].sort(
+    (a, b) =>
+      kindOrder(a.kind) - kindOrder(b.kind) ||
+      a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+  );
+}
+
+/**
+ * Reads a stored tech stack: drops malformed and nameless entries, trims
+ * values, keeps the first entry of each kind and name, and sorts the rest
+ */
+export function normalizeTechStack(value: unknown): TechStackEntry[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const entries: TechStackEntry[] = [];
+  const seen = new Set<string>();
+  for (const item of value as unknown[]) {
+    if (typeof item !== "object" || item === null) {
+      continue;
+    }
+    const { kind, name, version } = item as Record<string, unknown>;
+    const trimmedName = typeof name === "string" ? name.trim() : "";
+    if (!(isTechStackKind(kind) && trimmedName)) {
+      continue;
+    }
+    const key = `${kind}:${trimmedName.toLowerCase()}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    entries.push({
+      kind,
+      name: trimmedName,
+      version: typeof version === "string" ? version.trim() : "",
+    });
+  }
+  return sortTechStack(entries);
+}
+
+/**
+ * Formats an entry as "name version"
+ */
+export function formatTechStackEntry(entry: TechStackEntry): string {
+  return entry.version ? `${entry.name} ${entry.version}` : entry.name;
+}
+
+/**
+ * Formats a tech stack for diffs and exports: "node 18, express 4"
+ */
+export function formatTechStack(entries: readonly TechStackEntry[]): string {
+  return entries.map(formatTechStackEntry).join(", ");
+}
+
+/**
+ * Dataset product a technology name refers to
+ */
+export function findEolProduct(name: string): EolProduct | null {
+  const normalized = name.trim().toLowerCase();
+  return (
+    EOL_DATASET.find(
+      (product) =>
+        product.id === normalized || product.aliases.includes(normalized)
+    ) ?? null
+  );
+}
+
+/**
+ * Release line a version belongs to: the longest cycle equal to the version
+ * or prefixing it at a dot ("3.11.4" is in "3.11", not "3.1")
+ */
+function findEolCycle(product: EolProduct, version: string): EolCycle | null {
+  const normalized = version
+    .trim()
+    .toLowerCase()
+    .replace(VERSION_PREFIX_PATTERN, "");
+  if (!normalized) {
+    return null;
+  }
+  let match: EolCycle | null = null;
+  for (const cycle of product.cycles) {
+    const matches =
+      normalized === cycle.cycle || normalized.startsWith(`${cycle.cycle}.`);
+    if (matches && (!match || cycle.cycle.length > match.cycle.length)) {
+      match = cycle;
+    }
+  }
+  return match;
+}
+
+/**
+ * Support status of an entry's version on a given day
+ */
+export function getEolInfo(entry: TechStackEntry, today: Date): EolInfo {
+  const product = findEolProduct(entry.name);
+  const cycle = product ? findEolCycle(product, entry.version) : null;
+  if (!(product && cycle)) {
+    return UNKNOWN_EOL;
+  }
+  const daysLeft = cycle.eol ? getDaysUntil(cycle.eol, today) : null;
+  let status: EolStatus = "supported";
+  if (daysLeft !== null && daysLeft < 0) {
+    status = "eol";
+  } else if (daysLeft !== null && daysLeft <= EOL_SOON_DAYS) {
+    status = "eol-soon";
+  }
+  return {
+    status,
+    productLabel: product.label,
+    cycle: cycle.cycle,
+    eolDate: cycle.eol || null,
+    daysLeft,
+  };
+}
+
+/**
+ * Display name of a support status
+ */
+export function getEolStatusLabel(status: EolStatus): string {
+  switch (status) {
+    case "eol":
+      return "End of life";
+    case "eol-soon":
+      return "EOL soon";
+    case "supported":
+      return "Supported";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Whether a status should be flagged
+ */
+export function isEolWarning(status: EolStatus): boolean {
+  return status === "eol" || status === "eol-soon";
+}
+
+/**
+ * Entries of services running end-of-life or soon end-of-life versions,
+ * the longest past end of support first
+ */
+export function getEolFindings(
+  services: ReadonlyArray<{
+    readonly id: string;
+    readonly name: string;
+    readonly owner: string;
+    readonly techStack?: unknown;
+  }>,
+  today: Date
+): EolFinding[] {
+  return services
+    .flatMap((service) =>
+      normalizeTechStack(service.techStack).map((entry) => ({
+        serviceId: service.id,
+        serviceName: service.name,
+        owner: service.owner,
+        entry,
+        info: getEolInfo(entry, today),
+      }))
+    )
+    .filter((finding) => isEolWarning(finding.info.status))
+    .sort(
+      (a, b) =>
+        (a.info.daysLeft ?? 0) - (b.info.daysLeft ?? 0) ||
+        a.serviceName.localeCompare(b.serviceName)
+    );
+}
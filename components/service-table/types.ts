@@ -1,11 +1,36 @@
+import type { ServiceBulkAction } from "./bulk-edit";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValues,
+} from "./custom-fields";
+import type {
+  LifecycleStatus,
+  LifecycleWarning,
+  ServiceReference,
+} from "./lifecycle";
+import type { ServiceLink } from "./service-links";
+import type { StoredTag, TagReference } from "./tags";
+import type { TechStackEntry } from "./tech-stack";
+
 /**
  * Environment information extracted from service interfaces
  */
 export interface EnvironmentInfo {
-  readonly env: "production" | "staging" | "development";
+  readonly id?: string;
+  /** Key of the organization environment, or the stored value if undefined */
+  readonly env: string;
+  /** Value as stored on the interface, which may be an alias */
+  readonly storedEnv: string;
+  readonly envLabel: string;
+  /** Badge colour; null for values matching no environment */
+  readonly envColor: string | null;
+  /** Part of the organization's most critical environments */
+  readonly isCritical: boolean;
   readonly domain: string;
   readonly branch: string | null;
   readonly runtimeType: string | null;
+  /** Label of the runtime type in the organization's catalog */
+  readonly runtimeLabel: string | null;
   readonly runtimeId: string | null;
 }
 
@@ -18,12 +43,33 @@ export interface GroupedService {
   readonly name: string;
   readonly description?: string | null;
   readonly languages?: readonly string[];
+  /** Owning team's name, or the legacy owner string when not linked */
   readonly owner: string;
+  /** Owning team; null or undefined for services that predate teams */
+  readonly teamId?: string | null;
   readonly repository: string;
   readonly dependencies: readonly string[];
   readonly environments: readonly EnvironmentInfo[];
   readonly domainsCount: number;
   readonly runtimeFootprint: readonly string[];
+  /** Table badges of the runtime footprint, in the same order */
+  readonly runtimeBadges: readonly string[];
+  /** Values of the organization's custom fields, by field key */
+  readonly customFields?: CustomFieldValues;
+  /** Lifecycle status; services that predate it are active */
+  readonly lifecycle?: LifecycleStatus;
+  readonly sunsetDate?: string | null;
+  /** Service replacing a deprecated or retired one */
+  readonly replacementServiceId?: string | null;
+  readonly replacementName?: string | null;
+  /** Dependencies on deprecated or retired services */
+  readonly lifecycleWarnings?: readonly LifecycleWarning[];
+  /** Organization tags attached to the service, sorted by name */
+  readonly tags?: readonly StoredTag[];
+  /** Languages, frameworks and runtimes with their versions */
+  readonly techStack?: readonly TechStackEntry[];
+  /** Operational links (runbook, dashboards, on-call...) */
+  readonly links?: readonly ServiceLink[];
 }
 
 /**
@@ -35,8 +81,25 @@ export interface ServiceTableProps {
   readonly initialSearchQuery?: string;
   readonly onSearchChange?: (query: string) => void;
   readonly showHeader?: boolean;
+  readonly onView?: (service: GroupedService) => void;
   readonly onEdit?: (service: GroupedService) => void;
   readonly onDelete?: (service: GroupedService) => void;
+  /** Offers duplicating a service from its row actions when set */
+  readonly onDuplicate?: (service: GroupedService) => void;
+  /** Organization custom fields, shown as columns and exported */
+  readonly customFields?: readonly CustomFieldDefinition[];
+  /**
+   * Starts a bulk action on the selected services; rows are selectable only
+   * when set
+   */
+  readonly onBulkAction?: (
+    action: ServiceBulkAction,
+    services: readonly GroupedService[]
+  ) => void;
+  /** Whether the bulk edits are offered (editors and above) */
+  readonly canBulkEdit?: boolean;
+  /** Whether the bulk delete is offered (admins and owners) */
+  readonly canBulkDelete?: boolean;
 }
 
 /**
@@ -57,6 +120,22 @@ export interface ServiceInterface {
 export interface ServiceDependency {
   readonly id: string;
   readonly name: string;
+  /** Linked service; null or undefined marks the dependency as external */
+  readonly serviceId?: string | null;
+}
+
+/**
+ * Tech stack entry for form data
+ */
+export interface ServiceTechStackEntry extends TechStackEntry {
+  readonly id: string;
+}
+
+/**
+ * Operational link for form data
+ */
+export interface ServiceFormLink extends ServiceLink {
+  readonly id: string;
 }
 
 /**
@@ -66,8 +145,27 @@ export interface CreateServiceFormData {
   readonly name: string;
   readonly description: string;
   readonly languages: readonly string[];
+  /** Owning team's name */
   readonly owner: string;
+  /** Owning team; undefined keeps the stored team link */
+  readonly teamId?: string | null;
+  /** Set when `teamId` is a new team, created on save with the owner name */
+  readonly createTeam?: boolean;
   readonly repository: string;
   readonly interfaces: readonly ServiceInterface[];
   readonly dependencies: readonly ServiceDependency[];
+  /** Custom field values; undefined keeps the stored values */
+  readonly customFields?: CustomFieldValues;
+  /** Lifecycle status; undefined keeps the stored status */
+  readonly lifecycle?: LifecycleStatus;
+  /** "YYYY-MM-DD"; undefined keeps the stored date */
+  readonly sunsetDate?: string | null;
+  /** Replacing service; undefined keeps the stored link */
+  readonly replacement?: ServiceReference | null;
+  /** Attached tags; undefined keeps the stored tags */
+  readonly tags?: readonly TagReference[];
+  /** Tech stack entries; undefined keeps the stored stack */
+  readonly techStack?: readonly ServiceTechStackEntry[];
+  /** Operational links; undefined keeps the stored links */
+  readonly links?: readonly ServiceFormLink[];
 }
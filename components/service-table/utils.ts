@@ -1,41 +1,65 @@
 import type { Service } from "@/lib/yaml-utils";
-import { ENV_LABELS, ENV_ORDER } from "./constants";
+import {
+  type CustomFieldValues,
+  formatCustomFieldValue,
+  normalizeCustomFieldValues,
+} from "./custom-fields";
+import {
+  compareEnvironmentValues,
+  DEFAULT_ENVIRONMENT_CATALOG,
+  type EnvironmentCatalog,
+  resolveEnvironment,
+} from "./environments";
+import {
+  getLifecycleFields,
+  getLifecycleWarnings,
+  type LifecycleSource,
+  type ServiceReference,
+} from "./lifecycle";
+import {
+  DEFAULT_RUNTIME_CATALOG,
+  getRuntimeBadge,
+  getRuntimeLabel,
+  type RuntimeCatalog,
+} from "./runtimes";
+import { normalizeServiceLinks } from "./service-links";
+import { getServiceTags } from "./tags";
+import { getServiceOwnerName } from "./team-links";
+import { normalizeTechStack } from "./tech-stack";
 import type { EnvironmentInfo, GroupedService } from "./types";
 
 /**
- * Normalizes environment string to a valid environment type
+ * Builds the environment info of an interface. The stored value is kept as
+ * is; the environment key and label come from the organization's catalog.
  */
-export function normalizeEnv(
-  env: string | null
-): "production" | "staging" | "development" | null {
-  if (!env) {
-    return null;
-  }
-
-  const normalized = env.toLowerCase();
-  if (normalized === "production" || normalized === "prod") {
-    return "production";
-  }
-
-  if (normalized === "staging" || normalized === "stage") {
-    return "staging";
-  }
-
-  if (normalized === "development" || normalized === "dev") {
-    return "development";
-  }
-
-  return null;
+export function createEnvironmentInfo(
+  catalog: EnvironmentCatalog,
+  storedEnv: string | null,
+  fields: Omit<
+    EnvironmentInfo,
+    "env" | "storedEnv" | "envLabel" | "envColor" | "isCritical"
+  >
+): EnvironmentInfo {
+  const resolved = resolveEnvironment(catalog, storedEnv);
+  return {
+    ...fields,
+    env: resolved.key,
+    storedEnv: storedEnv?.trim() ?? "",
+    envLabel: resolved.label,
+    envColor: resolved.color,
+    isCritical: resolved.isCritical,
+  };
 }
 
 /**
  * Sorts environments by criticality order
  */
 export function sortEnvironments(
-  envs: readonly EnvironmentInfo[]
+  envs: readonly EnvironmentInfo[],
+  catalog: EnvironmentCatalog
 ): readonly EnvironmentInfo[] {
-  return [...envs].sort(
-    (a, b) => ENV_ORDER.indexOf(a.env) - ENV_ORDER.indexOf(b.env)
+  return [...envs].sort((a, b) =>
+    compareEnvironmentValues(catalog, a.env, b.env)
   );
 }
 
@@ -55,7 +79,19 @@ export function computeRuntimeFootprint(
 }
 
 /**
- * Groups services by service name, aggregating interfaces into environments
+ * Table badges of a runtime footprint
+ */
+export function computeRuntimeBadges(
+  runtimeFootprint: readonly string[],
+  catalog: RuntimeCatalog
+): readonly string[] {
+  return runtimeFootprint.map((runtime) => getRuntimeBadge(catalog, runtime));
+}
+
+/**
+ * Groups services by service name, aggregating interfaces into environments.
+ * YAML documents aren't tied to an organization and use the default
+ * environments and runtimes.
  */
 export function groupServicesByService(
   services: readonly Service[]
@@ -66,22 +102,26 @@ export function groupServicesByService(
     if (service.interfaces && service.interfaces.length > 0) {
       for (const iface of service.interfaces) {
         if (iface.domain && iface.domain.trim().length > 0) {
-          const normalizedEnv = normalizeEnv(iface.env);
-          const env: "production" | "staging" | "development" =
-            normalizedEnv ?? "development";
-
-          environments.push({
-            env,
-            domain: iface.domain.trim(),
-            branch: iface.branch?.trim() ?? null,
-            runtimeType: iface.runtime?.type ?? null,
-            runtimeId: iface.runtime?.id ?? null,
-          });
+          environments.push(
+            createEnvironmentInfo(DEFAULT_ENVIRONMENT_CATALOG, iface.env, {
+              domain: iface.domain.trim(),
+              branch: iface.branch?.trim() ?? null,
+              runtimeType: iface.runtime?.type ?? null,
+              runtimeLabel: iface.runtime
+                ? getRuntimeLabel(DEFAULT_RUNTIME_CATALOG, iface.runtime.type)
+                : null,
+              runtimeId: iface.runtime?.id ?? null,
+            })
+          );
         }
       }
     }
 
-    const sortedEnvs = sortEnvironments(environments);
+    const sortedEnvs = sortEnvironments(
+      environments,
+      DEFAULT_ENVIRONMENT_CATALOG
+    );
+    const runtimeFootprint = computeRuntimeFootprint(sortedEnvs);
 
     return {
       id: `service-${serviceIndex}`,
@@ -92,7 +132,11 @@ export function groupServicesByService(
       dependencies: service.dependencies ?? [],
       environments: sortedEnvs,
       domainsCount: sortedEnvs.length,
-      runtimeFootprint: computeRuntimeFootprint(sortedEnvs),
+      runtimeFootprint,
+      runtimeBadges: computeRuntimeBadges(
+        runtimeFootprint,
+        DEFAULT_RUNTIME_CATALOG
+      ),
     };
   });
 }
@@ -125,22 +169,85 @@ export function calculateSearchScore(
     }
 
     if (
-      env.env === lowerQuery ||
-      ENV_LABELS[env.env].toLowerCase() === lowerQuery
+      env.env.toLowerCase() === lowerQuery ||
+      env.storedEnv.toLowerCase() === lowerQuery ||
+      env.envLabel.toLowerCase() === lowerQuery
     ) {
       score += 20;
     }
 
-    if (env.runtimeType?.toLowerCase().includes(lowerQuery)) {
+    if (
+      env.runtimeType?.toLowerCase().includes(lowerQuery) ||
+      env.runtimeLabel?.toLowerCase().includes(lowerQuery)
+    ) {
       score += 25;
     }
   }
 
+  for (const value of Object.values(service.customFields ?? {})) {
+    if (formatCustomFieldValue(value).toLowerCase().includes(lowerQuery)) {
+      score += 10;
+    }
+  }
+
+  if (
+    service.tags?.some((tag) => tag.name.toLowerCase().includes(lowerQuery))
+  ) {
+    score += 40;
+  }
+
+  if (
+    service.techStack?.some((entry) =>
+      entry.name.toLowerCase().includes(lowerQuery)
+    )
+  ) {
+    score += 30;
+  }
+
   return score;
 }
 
 /**
- * Converts InstantDB services data to GroupedService format for ServiceTable
+ * Lifecycle fields of a grouped service, with warnings for its dependencies
+ * on deprecated or retired services. Targets missing from the services
+ * (deleted ones) are not warned about.
+ */
+function getGroupedLifecycle(
+  service: LifecycleSource & {
+    readonly dependencies?: ReadonlyArray<{
+      readonly target?: { readonly id: string } | null;
+    }>;
+  },
+  servicesById: ReadonlyMap<string, LifecycleSource>
+): Pick<
+  GroupedService,
+  | "lifecycle"
+  | "sunsetDate"
+  | "replacementServiceId"
+  | "replacementName"
+  | "lifecycleWarnings"
+> {
+  const lifecycle = getLifecycleFields(service);
+  return {
+    lifecycle: lifecycle.lifecycle,
+    sunsetDate: lifecycle.sunsetDate,
+    replacementServiceId: lifecycle.replacement?.id ?? null,
+    replacementName: lifecycle.replacement?.name ?? null,
+    lifecycleWarnings: getLifecycleWarnings(
+      (service.dependencies ?? []).map((dep) =>
+        dep.target ? servicesById.get(dep.target.id) : undefined
+      )
+    ),
+  };
+}
+
+/**
+ * Converts InstantDB services data to GroupedService format for ServiceTable,
+ * resolving interface environments and runtimes against the organization's
+ * catalogs
+ *
+ * @param servicesById - Services that dependency targets are looked up in
+ * for lifecycle warnings; defaults to the converted services
  */
 export function convertServicesToGrouped(
   services: Array<{
@@ -149,8 +256,21 @@ export function convertServicesToGrouped(
     readonly description?: string | null;
     readonly language?: string | null;
     readonly owner: string;
+    readonly team?: { readonly id: string; readonly name: string } | null;
     readonly repository: string;
+    readonly customFields?: CustomFieldValues | null;
+    readonly lifecycle?: string | null;
+    readonly sunsetDate?: string | null;
+    readonly replacement?: ServiceReference | null;
+    readonly tags?: ReadonlyArray<{
+      readonly id: string;
+      readonly name: string;
+      readonly color?: string | null;
+    }>;
+    readonly techStack?: unknown;
+    readonly links?: unknown;
     readonly interfaces?: Array<{
+      readonly id?: string;
       readonly domain: string;
       readonly env: string | null;
       readonly branch: string | null;
@@ -159,37 +279,39 @@ export function convertServicesToGrouped(
     }>;
     readonly dependencies?: Array<{
       readonly dependencyName: string;
+      readonly target?: { readonly id: string; readonly name: string } | null;
     }>;
-  }>
+  }>,
+  environmentCatalog: EnvironmentCatalog,
+  runtimeCatalog: RuntimeCatalog,
+  servicesById: ReadonlyMap<string, LifecycleSource> = new Map(
+    services.map((service) => [service.id, service])
+  )
 ): readonly GroupedService[] {
   return services.map((service, serviceIndex) => {
-    const environments: Array<{
-      readonly env: "production" | "staging" | "development";
-      readonly domain: string;
-      readonly branch: string | null;
-      readonly runtimeType: string | null;
-      readonly runtimeId: string | null;
-    }> = [];
+    const environments: EnvironmentInfo[] = [];
 
     if (service.interfaces && service.interfaces.length > 0) {
       for (const iface of service.interfaces) {
         if (iface.domain && iface.domain.trim().length > 0) {
-          const normalizedEnv = normalizeEnv(iface.env);
-          const env: "production" | "staging" | "development" =
-            normalizedEnv ?? "development";
-
-          environments.push({
-            env,
-            domain: iface.domain.trim(),
-            branch: iface.branch?.trim() ?? null,
-            runtimeType: iface.runtimeType?.trim() ?? null,
-            runtimeId: iface.runtimeId?.trim() ?? null,
-          });
+          environments.push(
+            createEnvironmentInfo(environmentCatalog, iface.env, {
+              id: iface.id,
+              domain: iface.domain.trim(),
+              branch: iface.branch?.trim() ?? null,
+              runtimeType: iface.runtimeType?.trim() ?? null,
+              runtimeLabel: iface.runtimeType?.trim()
+                ? getRuntimeLabel(runtimeCatalog, iface.runtimeType.trim())
+                : null,
+              runtimeId: iface.runtimeId?.trim() ?? null,
+            })
+          );
         }
       }
     }
 
-    const sortedEnvs = sortEnvironments(environments);
+    const sortedEnvs = sortEnvironments(environments, environmentCatalog);
+    const runtimeFootprint = computeRuntimeFootprint(sortedEnvs);
 
     // Parse languages from comma-separated string to array
     const languages =
@@ -206,12 +328,22 @@ export function convertServicesToGrouped(
       name: service.name,
       description: service.description ?? null,
       languages: languages.length > 0 ? languages : undefined,
-      owner: service.owner,
+      owner: getServiceOwnerName(service),
+      teamId: service.team?.id ?? null,
       repository: service.repository,
-      dependencies: service.dependencies?.map((d) => d.dependencyName) ?? [],
+      // Linked dependencies follow the target service's current name
+      dependencies:
+        service.dependencies?.map((d) => d.target?.name ?? d.dependencyName) ??
+        [],
       environments: sortedEnvs,
       domainsCount: sortedEnvs.length,
-      runtimeFootprint: computeRuntimeFootprint(sortedEnvs),
+      runtimeFootprint,
+      runtimeBadges: computeRuntimeBadges(runtimeFootprint, runtimeCatalog),
+      customFields: normalizeCustomFieldValues(service.customFields),
+      ...getGroupedLifecycle(service, servicesById),
+      tags: getServiceTags(service),
+      techStack: normalizeTechStack(service.techStack),
+      links: normalizeServiceLinks(service.links),
     };
   });
 }
@@ -1,4 +1,83 @@
-import type { ServiceInterface } from "./types";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  isChoiceCustomField,
+  isEmptyCustomFieldValue,
+} from "./custom-fields";
+import {
+  type DependencyAdjacency,
+  findDependencyPath,
+  formatDependencyCycle,
+} from "./dependency-cycles";
+import {
+  type DomainClaims,
+  getDomainKey,
+  isValidHostname,
+  normalizeDomain,
+  parseDomain,
+} from "./domains";
+import {
+  type EnvironmentCatalog,
+  type EnvironmentDefinition,
+  getEnvironmentLabel,
+} from "./environments";
+import {
+  canTransitionLifecycle,
+  getLifecycleLabel,
+  type LifecycleFields,
+  type LifecycleStatus,
+} from "./lifecycle";
+import type { RuntimeDefinition } from "./runtimes";
+import {
+  getServiceLinkProtocols,
+  getServiceLinkTypeLabel,
+  type ServiceLink,
+} from "./service-links";
+import {
+  fillNamePlaceholder,
+  type ServiceTemplateDefinition,
+} from "./service-templates";
+import { isSameTagName, type TagDefinition } from "./tags";
+import { resolveTeam, type TeamInput, type TeamOption } from "./team-links";
+import type {
+  ServiceDependency,
+  ServiceFormLink,
+  ServiceInterface,
+  ServiceTechStackEntry,
+} from "./types";
+
+const TEAM_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const CATALOG_KEY_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const RUNTIME_BADGE_MAX_LENGTH = 6;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TAG_NAME_MAX_LENGTH = 32;
+const TECH_VERSION_PATTERN = /^v?\d+[0-9a-z.+_-]*$/i;
+const PORT_MAX = 65_535;
+/** Name filled into template placeholders to check the domains they make */
+const TEMPLATE_SAMPLE_NAME = "service";
+
+/**
+ * Organization context needed to validate a service's dependencies
+ */
+export interface DependencyValidationContext {
+  /** Service being edited; null while creating one */
+  readonly serviceId: string | null;
+  readonly serviceName: string;
+  /** Existing dependency graph of the organization, by service id */
+  readonly adjacency: DependencyAdjacency;
+  readonly serviceNames: ReadonlyMap<string, string>;
+}
+
+/**
+ * Organization context needed to validate a service's interface domains
+ */
+export interface InterfaceValidationContext {
+  readonly catalog: EnvironmentCatalog;
+  /** Domains held by the organization's other services */
+  readonly claims: DomainClaims;
+}
 
 /**
  * Validates service name for uniqueness and non-empty value
@@ -22,13 +101,346 @@ export function validateName(
   return undefined;
 }
 
+/**
+ * Validates a team's name and slug. Names must not match another team under
+ * owner matching ("Payments Team" vs "payments"), or services couldn't tell
+ * the two apart.
+ */
+export function validateTeam(
+  team: Pick<TeamInput, "name" | "slug">,
+  otherTeams: readonly TeamOption[]
+): Partial<Record<"name" | "slug", string>> {
+  const errors: Partial<Record<"name" | "slug", string>> = {};
+
+  const name = team.name.trim();
+  const nameMatch = resolveTeam(name, otherTeams);
+  if (!name) {
+    errors.name = "Name is required";
+  } else if (nameMatch) {
+    errors.name = `Matches the existing team "${nameMatch.name}"`;
+  }
+
+  const slug = team.slug.trim();
+  const slugOwner = otherTeams.find((other) => other.slug === slug);
+  if (!slug) {
+    errors.slug = "Slug is required";
+  } else if (!TEAM_SLUG_PATTERN.test(slug)) {
+    errors.slug = "Use lowercase letters, numbers and single dashes";
+  } else if (slugOwner) {
+    errors.slug = `Already used by the team "${slugOwner.name}"`;
+  }
+
+  return errors;
+}
+
+/**
+ * Finds the first alias of an environment that is already a key or alias of
+ * another environment
+ */
+function findConflictingAlias(
+  environment: EnvironmentDefinition,
+  otherEnvironments: readonly EnvironmentDefinition[]
+): { alias: string; owner: EnvironmentDefinition } | null {
+  for (const alias of environment.aliases) {
+    const owner = otherEnvironments.find(
+      (other) =>
+        other.key.toLowerCase() === alias ||
+        other.aliases.some((otherAlias) => otherAlias === alias)
+    );
+    if (owner) {
+      return { alias, owner };
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates an organization environment. Keys and aliases must resolve to a
+ * single environment, or stored values would be ambiguous.
+ */
+export function validateEnvironment(
+  environment: EnvironmentDefinition,
+  otherEnvironments: readonly EnvironmentDefinition[]
+): Partial<Record<keyof EnvironmentDefinition, string>> {
+  const errors: Partial<Record<keyof EnvironmentDefinition, string>> = {};
+
+  const key = environment.key.trim();
+  const keyOwner = otherEnvironments.find(
+    (other) =>
+      other.key.toLowerCase() === key.toLowerCase() ||
+      other.aliases.includes(key.toLowerCase())
+  );
+  if (!key) {
+    errors.key = "Key is required";
+  } else if (!CATALOG_KEY_PATTERN.test(key)) {
+    errors.key = "Use lowercase letters, numbers, dashes and underscores";
+  } else if (keyOwner) {
+    errors.key = `Already used by ${keyOwner.label}`;
+  }
+
+  if (!environment.label.trim()) {
+    errors.label = "Label is required";
+  }
+
+  if (!Number.isInteger(environment.order) || environment.order < 0) {
+    errors.order = "Use a whole number, 0 being the most critical";
+  }
+
+  if (!HEX_COLOR_PATTERN.test(environment.color)) {
+    errors.color = "Use a hex colour such as #22c55e";
+  }
+
+  const conflict = findConflictingAlias(environment, otherEnvironments);
+  if (environment.aliases.includes(key.toLowerCase())) {
+    errors.aliases = "An alias can't repeat the key";
+  } else if (conflict) {
+    errors.aliases = `"${conflict.alias}" already refers to ${conflict.owner.label}`;
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a runtime type of the organization catalog
+ */
+export function validateRuntime(
+  runtime: RuntimeDefinition,
+  otherRuntimes: readonly RuntimeDefinition[]
+): Partial<Record<keyof RuntimeDefinition, string>> {
+  const errors: Partial<Record<keyof RuntimeDefinition, string>> = {};
+
+  const key = runtime.key.trim();
+  const keyOwner = otherRuntimes.find(
+    (other) => other.key.toLowerCase() === key.toLowerCase()
+  );
+  if (!key) {
+    errors.key = "Key is required";
+  } else if (!CATALOG_KEY_PATTERN.test(key)) {
+    errors.key = "Use lowercase letters, numbers, dashes and underscores";
+  } else if (keyOwner) {
+    errors.key = `Already used by ${keyOwner.label}`;
+  }
+
+  if (!runtime.label.trim()) {
+    errors.label = "Label is required";
+  }
+
+  const badge = runtime.badge.trim();
+  if (!badge) {
+    errors.badge = "Badge is required";
+  } else if (badge.length > RUNTIME_BADGE_MAX_LENGTH) {
+    errors.badge = `Keep the badge to ${RUNTIME_BADGE_MAX_LENGTH} characters`;
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a tag of the organization. Names are unique regardless of case,
+ * since filters match them that way.
+ */
+export function validateTag(
+  tag: TagDefinition,
+  otherTags: readonly TagDefinition[]
+): Partial<Record<keyof TagDefinition, string>> {
+  const errors: Partial<Record<keyof TagDefinition, string>> = {};
+
+  const name = tag.name.trim();
+  if (!name) {
+    errors.name = "Name is required";
+  } else if (name.length > TAG_NAME_MAX_LENGTH) {
+    errors.name = `Keep the name to ${TAG_NAME_MAX_LENGTH} characters`;
+  } else if (name.includes(",")) {
+    // Tag filters are comma-separated in the URL
+    errors.name = "Names can't contain commas";
+  } else if (otherTags.some((other) => isSameTagName(other.name, name))) {
+    errors.name = "A tag with this name already exists";
+  }
+
+  if (!HEX_COLOR_PATTERN.test(tag.color)) {
+    errors.color = "Use a hex colour such as #22c55e";
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a filled-in value against its field's type and options
+ */
+function validateCustomFieldValueType(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue
+): string | undefined {
+  switch (definition.type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? undefined
+        : "Enter a number";
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "Choose yes or no";
+    case "date":
+      return typeof value === "string" && isIsoDate(value)
+        ? undefined
+        : "Enter a date as YYYY-MM-DD";
+    case "url":
+      return typeof value === "string" && !validateUrl(value)
+        ? undefined
+        : "Please enter a valid URL";
+    case "enum":
+      return typeof value === "string" && definition.options.includes(value)
+        ? undefined
+        : "Choose one of the options";
+    case "multi-enum":
+      return Array.isArray(value) &&
+        value.every((option) => definition.options.includes(option))
+        ? undefined
+        : "Choose among the options";
+    default:
+      return typeof value === "string" ? undefined : "Enter text";
+  }
+}
+
+/**
+ * Whether a value is a "YYYY-MM-DD" calendar date
+ */
+function isIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Validates a custom field value. Yes / No fields are never missing: an
+ * unset one reads as "No".
+ */
+export function validateCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: CustomFieldValue | null | undefined
+): string | undefined {
+  if (isEmptyCustomFieldValue(value)) {
+    return definition.required && definition.type !== "boolean"
+      ? `${definition.label} is required`
+      : undefined;
+  }
+  return validateCustomFieldValueType(definition, value as CustomFieldValue);
+}
+
+/**
+ * Validates a service's custom field values against the organization's
+ * fields. Values of fields that no longer exist are left alone.
+ *
+ * @returns Error messages keyed by field key
+ */
+export function validateCustomFieldValues(
+  definitions: readonly CustomFieldDefinition[],
+  values: CustomFieldValues | null | undefined
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const definition of definitions) {
+    const error = validateCustomFieldValue(
+      definition,
+      values?.[definition.key]
+    );
+    if (error) {
+      errors[definition.key] = error;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a custom field of the organization: a unique key, options for
+ * choice fields and a default its own type accepts
+ */
+export function validateCustomField(
+  field: CustomFieldDefinition,
+  otherFields: readonly CustomFieldDefinition[]
+): Partial<Record<keyof CustomFieldDefinition, string>> {
+  const errors: Partial<Record<keyof CustomFieldDefinition, string>> = {};
+
+  const key = field.key.trim();
+  const keyOwner = otherFields.find(
+    (other) => other.key.toLowerCase() === key.toLowerCase()
+  );
+  if (!key) {
+    errors.key = "Key is required";
+  } else if (!CATALOG_KEY_PATTERN.test(key)) {
+    errors.key = "Use lowercase letters, numbers, dashes and underscores";
+  } else if (keyOwner) {
+    errors.key = `Already used by ${keyOwner.label}`;
+  }
+
+  if (!field.label.trim()) {
+    errors.label = "Label is required";
+  }
+
+  if (!Number.isInteger(field.order) || field.order < 0) {
+    errors.order = "Use a whole number, 0 coming first";
+  }
+
+  if (isChoiceCustomField(field.type) && field.options.length === 0) {
+    errors.options = "Add at least one option";
+  }
+
+  if (!isEmptyCustomFieldValue(field.defaultValue)) {
+    const defaultError = validateCustomFieldValueType(
+      field,
+      field.defaultValue as CustomFieldValue
+    );
+    if (defaultError) {
+      errors.defaultValue = defaultError;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a service template: a unique name, and interface domains that
+ * are valid once `{name}` is filled. Domains may be left for the service
+ * form to fill in.
+ */
+export function validateServiceTemplate(
+  template: ServiceTemplateDefinition,
+  otherTemplates: readonly ServiceTemplateDefinition[]
+): Partial<Record<"name" | "interfaces", string>> {
+  const errors: Partial<Record<"name" | "interfaces", string>> = {};
+
+  const name = template.name.trim();
+  if (!name) {
+    errors.name = "Name is required";
+  } else if (
+    otherTemplates.some(
+      (other) => other.name.trim().toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    errors.name = "A template with this name already exists";
+  }
+
+  for (const [idx, iface] of template.interfaces.entries()) {
+    const domain = iface.domain.trim();
+    const error =
+      domain &&
+      validateDomain(fillNamePlaceholder(domain, TEMPLATE_SAMPLE_NAME));
+    if (error) {
+      errors.interfaces = `Interface ${idx + 1}: ${error}`;
+      break;
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validates URL format
+ *
+ * @param label - Name of the field in the "is required" message
  */
-export function validateUrl(url: string): string | undefined {
+export function validateUrl(
+  url: string,
+  label = "Repository URL"
+): string | undefined {
   const trimmed = url.trim();
   if (!trimmed) {
-    return "Repository URL is required";
+    return `${label} is required`;
   }
   try {
     new URL(trimmed);
@@ -39,24 +451,107 @@ export function validateUrl(url: string): string | undefined {
 }
 
 /**
- * Validates a service interface for required fields and uniqueness
+ * Validates an operational link: a valid URL using one of the schemes its
+ * type accepts (web pages, plus mailto: and tel: for on-call)
+ */
+export function validateServiceLink(link: ServiceLink): string | undefined {
+  const label = `${getServiceLinkTypeLabel(link.type)} URL`;
+  const urlError = validateUrl(link.url, label);
+  if (urlError) {
+    return urlError;
+  }
+  const protocols = getServiceLinkProtocols(link.type);
+  if (!protocols.includes(new URL(link.url.trim()).protocol)) {
+    const schemes = protocols.map((protocol) => protocol.slice(0, -1));
+    return `${label} must use ${schemes.join(", ")}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates a service's operational links: each one on its own, and no link
+ * listed twice for the same type and environment
+ *
+ * @returns Error messages keyed by link id
+ */
+export function validateServiceLinks(
+  links: readonly ServiceFormLink[]
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+  for (const link of links) {
+    const key = `${link.type}|${link.env ?? ""}|${link.url.trim()}`;
+    const error =
+      validateServiceLink(link) ??
+      (seen.has(key) ? "Duplicate link" : undefined);
+    if (error) {
+      errors[link.id] = error;
+    }
+    seen.add(key);
+  }
+  return errors;
+}
+
+/**
+ * Validates an interface domain: a hostname or URL, optionally with a port
+ * and path, where only the first label may be a "*" wildcard
+ */
+export function validateDomain(domain: string): string | undefined {
+  if (!domain.trim()) {
+    return "Domain is required";
+  }
+  const { host, port, wildcard } = parseDomain(domain);
+  if (!isValidHostname(wildcard ? host.slice(2) : host)) {
+    return host.includes("*")
+      ? "Wildcards are only allowed as the first label, e.g. *.example.com"
+      : "Enter a hostname or URL, e.g. api.example.com";
+  }
+  if (port !== null && !(Number(port) >= 1 && Number(port) <= PORT_MAX)) {
+    return `Port must be between 1 and ${PORT_MAX}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates a domain against the service's other interfaces and the domains
+ * held by other services of the organization in the same environment
+ */
+function validateDomainUniqueness(
+  iface: ServiceInterface,
+  otherInterfaces: readonly ServiceInterface[],
+  context: InterfaceValidationContext
+): string | undefined {
+  const domain = normalizeDomain(iface.domain);
+  if (otherInterfaces.some((i) => normalizeDomain(i.domain) === domain)) {
+    return "Domain must be unique";
+  }
+  const owner = context.claims.get(
+    getDomainKey(iface.domain, iface.env, context.catalog)
+  );
+  if (owner) {
+    const envLabel = getEnvironmentLabel(context.catalog, iface.env);
+    return `Already used in ${envLabel} by ${owner.serviceName}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates a service interface for required fields and uniqueness: a
+ * domain is unique within the service, and each (domain, environment) pair
+ * across the organization
  */
 export function validateServiceInterface(
   iface: ServiceInterface,
-  otherInterfaces: readonly ServiceInterface[]
+  otherInterfaces: readonly ServiceInterface[],
+  context: InterfaceValidationContext
 ): Partial<Record<keyof ServiceInterface, string>> {
   const errors: Partial<Record<keyof ServiceInterface, string>> = {};
 
-  if (iface.domain.trim()) {
-    // Check uniqueness within this service
-    const duplicate = otherInterfaces.some(
-      (i) => i.domain.trim() === iface.domain.trim() && iface.domain.trim()
-    );
-    if (duplicate) {
-      errors.domain = "Domain must be unique";
-    }
-  } else {
-    errors.domain = "Domain is required";
+  const domainError =
+    validateDomain(iface.domain) ??
+    validateDomainUniqueness(iface, otherInterfaces, context);
+  if (domainError) {
+    errors.domain = domainError;
   }
 
   if (iface.runtimeType && !iface.runtimeId.trim()) {
@@ -65,3 +560,129 @@ export function validateServiceInterface(
 
   return errors;
 }
+
+/**
+ * Validates a service's dependencies: no self-references, no duplicates and
+ * no dependency that closes a cycle in the organization's dependency graph.
+ *
+ * @returns Error messages keyed by dependency id
+ */
+export function validateServiceDependencies(
+  dependencies: readonly ServiceDependency[],
+  context: DependencyValidationContext
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+  const serviceName = context.serviceName.trim().toLowerCase();
+
+  for (const dependency of dependencies) {
+    const name = dependency.name.trim();
+    if (!name) {
+      continue;
+    }
+
+    const targetId = dependency.serviceId ?? null;
+    if (
+      (targetId !== null && targetId === context.serviceId) ||
+      (serviceName && name.toLowerCase() === serviceName)
+    ) {
+      errors[dependency.id] = "A service can't depend on itself";
+      continue;
+    }
+
+    const key = targetId ?? name.toLowerCase();
+    if (seen.has(key)) {
+      errors[dependency.id] = "Duplicate dependency";
+      continue;
+    }
+    seen.add(key);
+
+    // A path back from the target means this dependency closes a cycle
+    if (targetId && context.serviceId) {
+      const path = findDependencyPath(
+        context.adjacency,
+        targetId,
+        context.serviceId
+      );
+      if (path) {
+        const names = [context.serviceId, ...path.slice(0, -1)].map((id) =>
+          id === context.serviceId
+            ? context.serviceName.trim()
+            : (context.serviceNames.get(id) ?? id)
+        );
+        errors[dependency.id] =
+          `Creates a dependency cycle: ${formatDependencyCycle(names)}`;
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a service's tech stack: every entry needs a name, appears once
+ * per kind and has a version starting with a number ("18", "3.11.4",
+ * "v2.7.18"). Versions are optional, but can't be checked for end of life
+ * without one.
+ *
+ * @returns Error messages keyed by entry id
+ */
+export function validateTechStack(
+  entries: readonly ServiceTechStackEntry[]
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const name = entry.name.trim();
+    const version = entry.version.trim();
+    const key = `${entry.kind}:${name.toLowerCase()}`;
+    if (!name) {
+      errors[entry.id] = "Name is required";
+    } else if (seen.has(key)) {
+      errors[entry.id] = "Duplicate technology";
+    } else if (version && !TECH_VERSION_PATTERN.test(version)) {
+      errors[entry.id] = "Version must start with a number, e.g. 18 or 3.11";
+    }
+    seen.add(key);
+  }
+  return errors;
+}
+
+/**
+ * Validates a service's lifecycle: the status must be reachable from the
+ * stored one, and deprecated services need a sunset date and a replacement
+ * other than themselves. Retired services may keep a sunset date.
+ *
+ * @param previousStatus - Stored status; null while creating the service
+ */
+export function validateLifecycle(
+  fields: LifecycleFields,
+  context: {
+    readonly previousStatus: LifecycleStatus | null;
+    readonly serviceId: string | null;
+  }
+): Partial<Record<keyof LifecycleFields, string>> {
+  const errors: Partial<Record<keyof LifecycleFields, string>> = {};
+  const { lifecycle, sunsetDate, replacement } = fields;
+
+  if (!canTransitionLifecycle(context.previousStatus, lifecycle)) {
+    errors.lifecycle = context.previousStatus
+      ? `${getLifecycleLabel(context.previousStatus)} services can't become ${getLifecycleLabel(lifecycle).toLowerCase()}`
+      : "New services are planned or active";
+  }
+
+  const date = sunsetDate?.trim() ?? "";
+  if (date && !isIsoDate(date)) {
+    errors.sunsetDate = "Enter a date as YYYY-MM-DD";
+  } else if (!date && lifecycle === "deprecated") {
+    errors.sunsetDate = "Deprecated services need a sunset date";
+  }
+
+  if (replacement && replacement.id === context.serviceId) {
+    errors.replacement = "A service can't replace itself";
+  } else if (!replacement && lifecycle === "deprecated") {
+    errors.replacement = "Deprecated services need a replacement";
+  }
+
+  return errors;
+}
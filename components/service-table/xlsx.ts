@@ -0,0 +1,689 @@
+/** biome-ignore-all lint/suspicious/noBitwiseOperators: CRC-32 and DOS timestamps of the ZIP format */
+/**
+ * XLSX Writer
+ *
+ * Writes Excel workbooks without a spreadsheet library: an .xlsx file is a
+ * ZIP archive of SpreadsheetML parts. Cells are inline strings or numbers,
+ * the header row of each sheet is bold, frozen and carries an autofilter,
+ * and column widths follow the longest value.
+ *
+ * Entries are stored uncompressed, which every spreadsheet application
+ * reads. Works in the browser and on the server; the server export streams
+ * workbooks whose rows are read while they are written.
+ */
+
+/**
+ * Cell value; null leaves the cell empty
+ */
+export type XlsxCell = string | number | null;
+
+/**
+ * Sheet of a workbook. The first row is the header.
+ */
+export interface XlsxSheet {
+  /** Tab name; at most 31 characters, without []:*?/\ */
+  readonly name: string;
+  readonly rows: readonly (readonly XlsxCell[])[];
+  /** Whether the header row is frozen and filterable; on by default */
+  readonly header?: boolean;
+}
+
+/**
+ * Sheet of a streamed workbook, whose rows are produced while it is written.
+ * The header row is frozen and filterable.
+ */
+export interface XlsxSheetStream {
+  /** Tab name; at most 31 characters, without []:*?/\ */
+  readonly name: string;
+  readonly columns: readonly string[];
+  /** Data rows, read once when the sheet is written */
+  readonly rows: () =>
+    | AsyncIterable<readonly XlsxCell[]>
+    | Iterable<readonly XlsxCell[]>;
+}
+
+/**
+ * Entry of an archive as recorded in its central directory
+ */
+interface ZipEntryRecord {
+  readonly name: Uint8Array;
+  readonly flags: number;
+  readonly crc: number;
+  readonly size: number;
+  /** Position of the local header in the archive */
+  readonly offset: number;
+}
+
+/**
+ * Entry of a streamed archive, with its content in chunks
+ */
+interface ZipStreamFile {
+  readonly path: string;
+  readonly chunks: AsyncIterable<string> | Iterable<string>;
+}
+
+/**
+ * MIME type of .xlsx files
+ */
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Longest text a cell holds */
+const CELL_MAX_LENGTH = 32_767;
+const COLUMN_MIN_WIDTH = 8;
+const COLUMN_MAX_WIDTH = 60;
+/** Streamed sheets size columns from their header, with room for values */
+const STREAMED_COLUMN_MIN_WIDTH = 16;
+const SHEET_NAME_MAX_LENGTH = 31;
+const SHEET_NAME_INVALID_PATTERN = /[[\]:*?/\\]/g;
+const XML_ESCAPES: Readonly<Record<string, string>> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+const XML_SPECIAL_PATTERN = /[&<>"]/g;
+const CELL_REFERENCE_PATTERN = /([A-Z]+)(\d+)/g;
+const QUOTE_PATTERN = /'/g;
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04_03_4b_50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02_01_4b_50;
+const ZIP_DATA_DESCRIPTOR_SIGNATURE = 0x08_07_4b_50;
+const ZIP_END_SIGNATURE = 0x06_05_4b_50;
+const ZIP_VERSION = 20;
+/** Names are UTF-8 */
+const ZIP_UTF8_FLAG = 0x08_00;
+/** Checksum and sizes follow the entry data */
+const ZIP_DATA_DESCRIPTOR_FLAG = 0x00_08;
+const CRC_INITIAL = 0xff_ff_ff_ff;
+
+const WORKBOOK_PATH = "xl/workbook.xml";
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NAMESPACE =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIP_NAMESPACE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIP_NAMESPACE =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Whether a character can appear in XML text
+ */
+function isXmlCharacter(code: number): boolean {
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escapes text for XML, dropping the control characters XML can't hold
+ */
+export function escapeXml(value: string): string {
+  let text = "";
+  for (const char of value) {
+    if (isXmlCharacter(char.charCodeAt(0))) {
+      text += char;
+    }
+  }
+  return text.replace(XML_SPECIAL_PATTERN, (char) => XML_ESCAPES[char]);
+}
+
+/**
+ * Column letters of a zero-based index: 0 is "A", 26 is "AA"
+ */
+function getColumnName(index: number): string {
+  let name = "";
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Sheet name Excel accepts
+ */
+function toSheetName(name: string, index: number): string {
+  const cleaned = name
+    .replace(SHEET_NAME_INVALID_PATTERN, " ")
+    .trim()
+    .slice(0, SHEET_NAME_MAX_LENGTH);
+  return cleaned || `Sheet${index + 1}`;
+}
+
+/**
+ * XML of a cell
+ */
+function writeCell(
+  value: XlsxCell,
+  reference: string,
+  isHeader: boolean
+): string {
+  const style = isHeader ? ' s="1"' : "";
+  if (value === null || value === "") {
+    return "";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? `<c r="${reference}"${style}><v>${value}</v></c>`
+      : "";
+  }
+  const text = escapeXml(value.slice(0, CELL_MAX_LENGTH));
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+/**
+ * Width of each column, from its longest value
+ */
+function getColumnWidths(rows: readonly (readonly XlsxCell[])[]): number[] {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((value, index) => {
+      const length = value === null ? 0 : String(value).length;
+      widths[index] = Math.max(widths[index] ?? COLUMN_MIN_WIDTH, length + 2);
+    });
+  }
+  return widths.map((width) => Math.min(width, COLUMN_MAX_WIDTH));
+}
+
+/**
+ * Range covered by a sheet, such as "A1:F12"; null when empty
+ */
+function getRange(columnCount: number, rowCount: number): string | null {
+  if (columnCount === 0 || rowCount === 0) {
+    return null;
+  }
+  return `A1:${getColumnName(columnCount - 1)}${rowCount}`;
+}
+
+/**
+ * Start of a worksheet part, up to its first row
+ */
+function writeWorksheetStart(
+  widths: readonly number[],
+  hasHeader: boolean
+): string {
+  const view = hasHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft"/></sheetView></sheetViews>'
+    : '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+  const columns =
+    widths.length > 0
+      ? `<cols>${widths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+          )
+          .join("")}</cols>`
+      : "";
+
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">${view}${columns}<sheetData>`;
+}
+
+/**
+ * XML of a row
+ */
+function writeRow(
+  row: readonly XlsxCell[],
+  rowIndex: number,
+  isHeader: boolean
+): string {
+  const cells = row
+    .map((value, columnIndex) =>
+      writeCell(value, `${getColumnName(columnIndex)}${rowIndex + 1}`, isHeader)
+    )
+    .join("");
+  return `<row r="${rowIndex + 1}">${cells}</row>`;
+}
+
+/**
+ * End of a worksheet part, with the autofilter of its header
+ */
+function writeWorksheetEnd(filterRange: string | null): string {
+  const filter = filterRange ? `<autoFilter ref="${filterRange}"/>` : "";
+  return `</sheetData>${filter}</worksheet>`;
+}
+
+/**
+ * Worksheet part of a sheet, and the range its autofilter covers
+ */
+function writeWorksheet(sheet: XlsxSheet): {
+  readonly xml: string;
+  readonly filterRange: string | null;
+} {
+  const hasHeader = sheet.header !== false && sheet.rows.length > 0;
+  const columnCount = sheet.rows.reduce(
+    (max, row) => Math.max(max, row.length),
+    0
+  );
+  const filterRange = hasHeader
+    ? getRange(columnCount, sheet.rows.length)
+    : null;
+  const rows = sheet.rows
+    .map((row, rowIndex) =>
+      writeRow(row, rowIndex, hasHeader && rowIndex === 0)
+    )
+    .join("");
+
+  return {
+    xml: `${writeWorksheetStart(getColumnWidths(sheet.rows), hasHeader)}${rows}${writeWorksheetEnd(filterRange)}`,
+    filterRange,
+  };
+}
+
+/**
+ * Workbook part: the sheets, and the ranges their autofilters cover
+ */
+function writeWorkbook(
+  names: readonly string[],
+  filterRanges: readonly (string | null)[]
+): string {
+  const sheetEntries = names
+    .map(
+      (name, index) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    )
+    .join("");
+  const filterNames = names
+    .map((name, index) => {
+      const range = filterRanges[index];
+      if (!range) {
+        return "";
+      }
+      const absolute = range.replace(CELL_REFERENCE_PATTERN, "$$$1$$$2");
+      const quoted = `'${name.replace(QUOTE_PATTERN, "''")}'`;
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">${escapeXml(`${quoted}!${absolute}`)}</definedName>`;
+    })
+    .join("");
+  const definedNames = filterNames
+    ? `<definedNames>${filterNames}</definedNames>`
+    : "";
+
+  return `${XML_DECLARATION}<workbook xmlns="${MAIN_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><sheets>${sheetEntries}</sheets>${definedNames}</workbook>`;
+}
+
+/**
+ * Styles part: the default style, and bold for headers
+ */
+function writeStyles(): string {
+  return `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NAMESPACE}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+}
+
+/**
+ * Path of a worksheet part in the archive
+ */
+function getWorksheetPath(index: number): string {
+  return `xl/worksheets/sheet${index + 1}.xml`;
+}
+
+/**
+ * Package parts around the workbook and worksheet parts, by path in the
+ * archive: content types, relationships and styles
+ */
+function writePackageParts(sheetCount: number): [string, string][] {
+  const indexes = Array.from({ length: sheetCount }, (_, index) => index);
+  const sheetOverrides = indexes
+    .map(
+      (index) =>
+        `<Override PartName="/${getWorksheetPath(index)}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+  const sheetRelationships = indexes
+    .map(
+      (index) =>
+        `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join("");
+
+  return [
+    [
+      "[Content_Types].xml",
+      `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/${WORKBOOK_PATH}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetOverrides}</Types>`,
+    ],
+    [
+      "_rels/.rels",
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}"><Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="${WORKBOOK_PATH}"/></Relationships>`,
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">${sheetRelationships}<Relationship Id="rId${sheetCount + 1}" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/></Relationships>`,
+    ],
+    ["xl/styles.xml", writeStyles()],
+  ];
+}
+
+/**
+ * Adds bytes to a running CRC-32 checksum, started at CRC_INITIAL
+ */
+function updateCrc32(crc: number, data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xed_b8_83_20 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let next = crc;
+  for (const byte of data) {
+    next = crcTable[(next ^ byte) & 0xff] ^ (next >>> 8);
+  }
+  return next;
+}
+
+/**
+ * Final value of a running CRC-32 checksum
+ */
+function finishCrc32(crc: number): number {
+  return (crc ^ CRC_INITIAL) >>> 0;
+}
+
+/**
+ * MS-DOS time and date of the archive entries
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Little-endian fields of a ZIP record, followed by an entry name
+ */
+function writeZipRecord(
+  fields: readonly (readonly [value: number, byteLength: 2 | 4])[],
+  name: Uint8Array = new Uint8Array(0)
+): Uint8Array<ArrayBuffer> {
+  const fieldsLength = fields.reduce((total, [, length]) => total + length, 0);
+  const record = new Uint8Array(fieldsLength + name.length);
+  const view = new DataView(record.buffer);
+  let offset = 0;
+  for (const [value, length] of fields) {
+    if (length === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += length;
+  }
+  record.set(name, offset);
+  return record;
+}
+
+/**
+ * Local file header of an entry. With the data descriptor flag, the
+ * checksum and sizes are zero and follow the data instead.
+ */
+function writeLocalHeader(
+  entry: Omit<ZipEntryRecord, "offset">,
+  modified: { time: number; date: number }
+): Uint8Array<ArrayBuffer> {
+  return writeZipRecord(
+    [
+      [ZIP_LOCAL_HEADER_SIGNATURE, 4],
+      [ZIP_VERSION, 2],
+      [entry.flags, 2],
+      [0, 2], // stored
+      [modified.time, 2],
+      [modified.date, 2],
+      [entry.crc, 4],
+      [entry.size, 4],
+      [entry.size, 4],
+      [entry.name.length, 2],
+      [0, 2], // extra field
+    ],
+    entry.name
+  );
+}
+
+/**
+ * Central directory header of an entry
+ */
+function writeCentralHeader(
+  entry: ZipEntryRecord,
+  modified: { time: number; date: number }
+): Uint8Array<ArrayBuffer> {
+  return writeZipRecord(
+    [
+      [ZIP_CENTRAL_HEADER_SIGNATURE, 4],
+      [ZIP_VERSION, 2],
+      [ZIP_VERSION, 2],
+      [entry.flags, 2],
+      [0, 2], // stored
+      [modified.time, 2],
+      [modified.date, 2],
+      [entry.crc, 4],
+      [entry.size, 4],
+      [entry.size, 4],
+      [entry.name.length, 2],
+      [0, 2], // extra field
+      [0, 2], // comment
+      [0, 2], // disk
+      [0, 2], // internal attributes
+      [0, 4], // external attributes
+      [entry.offset, 4],
+    ],
+    entry.name
+  );
+}
+
+/**
+ * Central directory headers and end record of an archive
+ */
+function writeCentralDirectory(
+  entries: readonly ZipEntryRecord[],
+  centralOffset: number,
+  modified: { time: number; date: number }
+): Uint8Array<ArrayBuffer>[] {
+  const headers = entries.map((entry) => writeCentralHeader(entry, modified));
+  const centralSize = headers.reduce(
+    (total, header) => total + header.length,
+    0
+  );
+  return [
+    ...headers,
+    writeZipRecord([
+      [ZIP_END_SIGNATURE, 4],
+      [0, 2], // disk
+      [0, 2], // central directory disk
+      [entries.length, 2],
+      [entries.length, 2],
+      [centralSize, 4],
+      [centralOffset, 4],
+      [0, 2], // comment
+    ]),
+  ];
+}
+
+/**
+ * ZIP archive of uncompressed entries
+ */
+function createZip(
+  files: readonly [string, string][],
+  modifiedAt: Date
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const modified = toDosDateTime(modifiedAt);
+  const chunks: Uint8Array[] = [];
+  const entries: ZipEntryRecord[] = [];
+  let offset = 0;
+
+  for (const [path, content] of files) {
+    const data = encoder.encode(content);
+    const entry: ZipEntryRecord = {
+      name: encoder.encode(path),
+      flags: ZIP_UTF8_FLAG,
+      crc: finishCrc32(updateCrc32(CRC_INITIAL, data)),
+      size: data.length,
+      offset,
+    };
+    const header = writeLocalHeader(entry, modified);
+    chunks.push(header, data);
+    entries.push(entry);
+    offset += header.length + data.length;
+  }
+  chunks.push(...writeCentralDirectory(entries, offset, modified));
+
+  const buffer = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let position = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, position);
+    position += chunk.length;
+  }
+  return buffer;
+}
+
+/**
+ * ZIP archive of uncompressed entries whose content is produced while it
+ * is written. Each entry is read to its end before the next one is pulled,
+ * and only the entry names and checksums are kept in memory.
+ */
+async function* streamZip(
+  files: Iterable<ZipStreamFile>,
+  modifiedAt: Date
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const modified = toDosDateTime(modifiedAt);
+  const entries: ZipEntryRecord[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const flags = ZIP_UTF8_FLAG | ZIP_DATA_DESCRIPTOR_FLAG;
+    const header = writeLocalHeader({ name, flags, crc: 0, size: 0 }, modified);
+    yield header;
+
+    let crc = CRC_INITIAL;
+    let size = 0;
+    for await (const chunk of file.chunks) {
+      const data = encoder.encode(chunk);
+      crc = updateCrc32(crc, data);
+      size += data.length;
+      yield data;
+    }
+
+    const entry: ZipEntryRecord = {
+      name,
+      flags,
+      crc: finishCrc32(crc),
+      size,
+      offset,
+    };
+    const descriptor = writeZipRecord([
+      [ZIP_DATA_DESCRIPTOR_SIGNATURE, 4],
+      [entry.crc, 4],
+      [entry.size, 4],
+      [entry.size, 4],
+    ]);
+    yield descriptor;
+    entries.push(entry);
+    offset += header.length + size + descriptor.length;
+  }
+
+  for (const record of writeCentralDirectory(entries, offset, modified)) {
+    yield record;
+  }
+}
+
+/**
+ * Worksheet part of a streamed sheet, written row by row. Reports the range
+ * of its autofilter once the rows are written.
+ */
+async function* streamWorksheet(
+  sheet: XlsxSheetStream,
+  onFilterRange: (range: string | null) => void
+): AsyncGenerator<string> {
+  const widths = sheet.columns.map((column) =>
+    Math.min(
+      Math.max(column.length + 2, STREAMED_COLUMN_MIN_WIDTH),
+      COLUMN_MAX_WIDTH
+    )
+  );
+  yield `${writeWorksheetStart(widths, true)}${writeRow(sheet.columns, 0, true)}`;
+
+  let rowCount = 1;
+  for await (const row of sheet.rows()) {
+    yield writeRow(row, rowCount, false);
+    rowCount++;
+  }
+
+  const range = getRange(sheet.columns.length, rowCount);
+  onFilterRange(range);
+  yield writeWorksheetEnd(range);
+}
+
+/**
+ * Parts of a streamed workbook. The workbook part comes last: the ranges
+ * of its autofilters are known once the worksheets are written.
+ */
+function* streamParts(
+  sheets: readonly XlsxSheetStream[]
+): Generator<ZipStreamFile> {
+  const names = sheets.map((sheet, index) => toSheetName(sheet.name, index));
+  const filterRanges: (string | null)[] = sheets.map(() => null);
+
+  for (const [path, content] of writePackageParts(sheets.length)) {
+    yield { path, chunks: [content] };
+  }
+  for (const [index, sheet] of sheets.entries()) {
+    yield {
+      path: getWorksheetPath(index),
+      chunks: streamWorksheet(sheet, (range) => {
+        filterRanges[index] = range;
+      }),
+    };
+  }
+  yield { path: WORKBOOK_PATH, chunks: [writeWorkbook(names, filterRanges)] };
+}
+
+/**
+ * Writes a workbook with the given sheets, in order
+ */
+export function createXlsxWorkbook(
+  sheets: readonly XlsxSheet[],
+  createdAt: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const names = sheets.map((sheet, index) => toSheetName(sheet.name, index));
+  const worksheets = sheets.map(writeWorksheet);
+
+  return createZip(
+    [
+      ...writePackageParts(sheets.length),
+      [
+        WORKBOOK_PATH,
+        writeWorkbook(
+          names,
+          worksheets.map((worksheet) => worksheet.filterRange)
+        ),
+      ],
+      ...worksheets.map((worksheet, index): [string, string] => [
+        getWorksheetPath(index),
+        worksheet.xml,
+      ]),
+    ],
+    createdAt
+  );
+}
+
+/**
+ * Writes a workbook chunk by chunk, reading the rows of each sheet only
+ * when the sheet is written, so that large exports never hold all their
+ * rows in memory
+ */
+export function streamXlsxWorkbook(
+  sheets: readonly XlsxSheetStream[],
+  createdAt: Date = new Date()
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  return streamZip(streamParts(sheets), createdAt);
+}
@@ -0,0 +1,534 @@
+/**
+ * Service Template Form Dialog
+ *
+ * Defines or edits a service template of an organization: its name, the
+ * languages and dependencies it starts with, its interfaces and the custom
+ * field values it sets. Domains, branches and runtime ids may use the
+ * `{name}` placeholder, filled with the service name in the service form.
+ */
+
+"use client";
+
+import { id } from "@instantdb/react";
+import { Plus, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { parseBulkEditList } from "@/components/service-table/bulk-edit";
+import { CustomFieldInputList } from "@/components/service-table/custom-field-input";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "@/components/service-table/custom-fields";
+import {
+  type EnvironmentCatalog,
+  getEnvironmentSelectOptions,
+} from "@/components/service-table/environments";
+import {
+  getRuntimeSelectOptions,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
+import {
+  NAME_PLACEHOLDER,
+  type ServiceTemplateDefinition,
+  type ServiceTemplateInterface,
+} from "@/components/service-table/service-templates";
+import {
+  validateCustomFieldValues,
+  validateServiceTemplate,
+} from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ServiceTemplateFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Template being edited, or the empty values of a new one */
+  readonly initialValue: ServiceTemplateDefinition;
+  readonly isEditing: boolean;
+  /** Templates the name must not collide with */
+  readonly otherTemplates: readonly ServiceTemplateDefinition[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly customFields: readonly CustomFieldDefinition[];
+  readonly onSubmit: (definition: ServiceTemplateDefinition) => Promise<void>;
+}
+
+/**
+ * Interface row of the form, keyed for rendering
+ */
+interface FormInterface extends ServiceTemplateInterface {
+  readonly id: string;
+}
+
+/**
+ * Form values; languages and dependencies are kept as typed
+ */
+interface FormValues {
+  readonly name: string;
+  readonly description: string;
+  readonly languages: string;
+  readonly dependencies: string;
+  readonly interfaces: readonly FormInterface[];
+  readonly customFields: CustomFieldValues;
+}
+
+/**
+ * Form values of a template definition
+ */
+function toFormValues(definition: ServiceTemplateDefinition): FormValues {
+  return {
+    name: definition.name,
+    description: definition.description,
+    languages: definition.languages.join(", "),
+    dependencies: definition.dependencies.join(", "),
+    interfaces: definition.interfaces.map((iface) => ({ ...iface, id: id() })),
+    customFields: definition.customFields,
+  };
+}
+
+/**
+ * Template definition of the form values
+ */
+function toDefinition(values: FormValues): ServiceTemplateDefinition {
+  return {
+    name: values.name,
+    description: values.description,
+    languages: parseBulkEditList(values.languages),
+    dependencies: parseBulkEditList(values.dependencies),
+    interfaces: values.interfaces.map(
+      ({ env, domain, branch, runtimeType, runtimeId }) => ({
+        env,
+        domain,
+        branch,
+        runtimeType,
+        runtimeId,
+      })
+    ),
+    customFields: values.customFields,
+  };
+}
+
+/**
+ * Dialog with the service template settings
+ */
+export function ServiceTemplateFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  isEditing,
+  otherTemplates,
+  environmentCatalog,
+  runtimeCatalog,
+  customFields,
+  onSubmit,
+}: ServiceTemplateFormDialogProps) {
+  const [values, setValues] = useState<FormValues>(() =>
+    toFormValues(initialValue)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(initialValue));
+    }
+  }, [open, initialValue]);
+
+  const definition = useMemo(() => toDefinition(values), [values]);
+  const errors = useMemo(
+    () => validateServiceTemplate(definition, otherTemplates),
+    [definition, otherTemplates]
+  );
+  // Templates set some fields only; required ones are checked on the service
+  const optionalFields = useMemo(
+    () => customFields.map((field) => ({ ...field, required: false })),
+    [customFields]
+  );
+  const customFieldErrors = useMemo(
+    () => validateCustomFieldValues(optionalFields, values.customFields),
+    [optionalFields, values.customFields]
+  );
+  const isFormValid =
+    Object.keys(errors).length === 0 &&
+    Object.keys(customFieldErrors).length === 0;
+
+  const environmentOptions = useMemo(
+    () =>
+      getEnvironmentSelectOptions(
+        environmentCatalog,
+        values.interfaces.map((iface) => iface.env)
+      ),
+    [environmentCatalog, values.interfaces]
+  );
+  const runtimeOptions = useMemo(
+    () =>
+      getRuntimeSelectOptions(
+        runtimeCatalog,
+        values.interfaces.map((iface) => iface.runtimeType)
+      ),
+    [runtimeCatalog, values.interfaces]
+  );
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Create";
+  }, [isSubmitting, isEditing]);
+
+  const handleAddInterface = () => {
+    setValues((prev) => ({
+      ...prev,
+      interfaces: [
+        ...prev.interfaces,
+        {
+          id: id(),
+          env: "",
+          domain: "",
+          branch: "",
+          runtimeType: "",
+          runtimeId: "",
+        },
+      ],
+    }));
+  };
+
+  const handleInterfaceChange = (
+    interfaceId: string,
+    field: keyof ServiceTemplateInterface,
+    value: string
+  ) => {
+    setValues((prev) => ({
+      ...prev,
+      interfaces: prev.interfaces.map((iface) =>
+        iface.id === interfaceId ? { ...iface, [field]: value } : iface
+      ),
+    }));
+  };
+
+  const handleRemoveInterface = (interfaceId: string) => {
+    setValues((prev) => ({
+      ...prev,
+      interfaces: prev.interfaces.filter((iface) => iface.id !== interfaceId),
+    }));
+  };
+
+  const handleCustomFieldChange = (
+    key: string,
+    value: CustomFieldValue | null
+  ) => {
+    setValues((prev) => {
+      const others = Object.fromEntries(
+        Object.entries(prev.customFields).filter(
+          ([otherKey]) => otherKey !== key
+        )
+      );
+      return {
+        ...prev,
+        customFields: value === null ? others : { ...others, [key]: value },
+      };
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(definition);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save service template:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit template" : "New template"}
+          </DialogTitle>
+          <DialogDescription>
+            Applying the template in the service form replaces its languages,
+            interfaces and dependencies. Use {NAME_PLACEHOLDER} in domains,
+            branches and runtime ids for the service name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="service-template-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.name && errors.name ? "true" : "false"}
+              id="service-template-name"
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="Node.js API"
+              value={values.name}
+            />
+            {values.name && errors.name && (
+              <p className="text-destructive text-xs">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="service-template-description">Description</Label>
+            <Textarea
+              id="service-template-description"
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, description: e.target.value }))
+              }
+              placeholder="When to use this template"
+              rows={2}
+              value={values.description}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="service-template-languages">Languages</Label>
+            <Input
+              id="service-template-languages"
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, languages: e.target.value }))
+              }
+              placeholder="typescript, go"
+              value={values.languages}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="service-template-dependencies">Dependencies</Label>
+            <Input
+              id="service-template-dependencies"
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, dependencies: e.target.value }))
+              }
+              placeholder="auth-service, postgres"
+              value={values.dependencies}
+            />
+          </div>
+
+          <p className="col-span-2 text-muted-foreground text-xs">
+            Separate names with commas. Dependencies naming a service link to
+            it, the others are external.
+          </p>
+
+          <div className="col-span-2 space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Interfaces</Label>
+              <Button
+                onClick={handleAddInterface}
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                <Plus className="mr-1 size-3" />
+                Add
+              </Button>
+            </div>
+
+            {values.interfaces.length === 0 ? (
+              <p className="text-muted-foreground text-xs">
+                No interfaces added yet
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {values.interfaces.map((iface) => (
+                  <div
+                    className="grid grid-cols-2 gap-2 rounded-lg border bg-card p-3"
+                    key={iface.id}
+                  >
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs" htmlFor={`domain-${iface.id}`}>
+                        Domain
+                      </Label>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          className="font-mono"
+                          id={`domain-${iface.id}`}
+                          onChange={(e) =>
+                            handleInterfaceChange(
+                              iface.id,
+                              "domain",
+                              e.target.value
+                            )
+                          }
+                          placeholder={`${NAME_PLACEHOLDER}.staging.example.com`}
+                          value={iface.domain}
+                        />
+                        <Button
+                          aria-label="Remove interface"
+                          onClick={() => handleRemoveInterface(iface.id)}
+                          size="icon"
+                          type="button"
+                          variant="ghost"
+                        >
+                          <Trash2 className="size-3" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`env-${iface.id}`}>
+                        Environment
+                      </Label>
+                      <Select
+                        onValueChange={(value) =>
+                          handleInterfaceChange(iface.id, "env", value)
+                        }
+                        value={iface.env || undefined}
+                      >
+                        <SelectTrigger
+                          className="w-full"
+                          id={`env-${iface.id}`}
+                        >
+                          <SelectValue placeholder="Select environment" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {environmentOptions.map((opt) => (
+                            <SelectItem key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`branch-${iface.id}`}>
+                        Branch
+                      </Label>
+                      <Input
+                        id={`branch-${iface.id}`}
+                        onChange={(e) =>
+                          handleInterfaceChange(
+                            iface.id,
+                            "branch",
+                            e.target.value
+                          )
+                        }
+                        placeholder="main"
+                        value={iface.branch}
+                      />
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label
+                        className="text-xs"
+                        htmlFor={`runtime-type-${iface.id}`}
+                      >
+                        Runtime type
+                      </Label>
+                      <Select
+                        onValueChange={(value) =>
+                          handleInterfaceChange(iface.id, "runtimeType", value)
+                        }
+                        value={iface.runtimeType || undefined}
+                      >
+                        <SelectTrigger
+                          className="w-full"
+                          id={`runtime-type-${iface.id}`}
+                        >
+                          <SelectValue placeholder="Select runtime" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {runtimeOptions.map((opt) => (
+                            <SelectItem key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label
+                        className="text-xs"
+                        htmlFor={`runtime-id-${iface.id}`}
+                      >
+                        Runtime id
+                      </Label>
+                      <Input
+                        id={`runtime-id-${iface.id}`}
+                        onChange={(e) =>
+                          handleInterfaceChange(
+                            iface.id,
+                            "runtimeId",
+                            e.target.value
+                          )
+                        }
+                        placeholder={`${NAME_PLACEHOLDER}-deployment`}
+                        value={iface.runtimeId}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {errors.interfaces && (
+              <p className="text-destructive text-xs">{errors.interfaces}</p>
+            )}
+          </div>
+
+          {customFields.length > 0 && (
+            <div className="col-span-2 space-y-3">
+              <div>
+                <Label>Custom fields</Label>
+                <p className="text-muted-foreground text-xs">
+                  Optional. Values set here replace the field defaults.
+                </p>
+              </div>
+              <CustomFieldInputList
+                errors={customFieldErrors}
+                fields={optionalFields}
+                onChange={handleCustomFieldChange}
+                values={values.customFields}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+/**
+ * Service Template Settings
+ *
+ * Lists the service templates of an organization with what they pre-fill.
+ * Admins and owners create, edit and delete templates; services created from
+ * a template keep their values when it changes.
+ */
+
+"use client";
+
+import { LayoutTemplate, Pencil, Plus, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import type { CustomFieldDefinition } from "@/components/service-table/custom-fields";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
+import type {
+  ServiceTemplateDefinition,
+  ServiceTemplateInterface,
+  StoredServiceTemplate,
+} from "@/components/service-table/service-templates";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ServiceTemplateFormDialog } from "./service-template-form-dialog";
+
+interface ServiceTemplateSettingsProps {
+  readonly templates: readonly StoredServiceTemplate[];
+  readonly canAdminister: boolean;
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly customFields: readonly CustomFieldDefinition[];
+  readonly onCreate: (definition: ServiceTemplateDefinition) => Promise<void>;
+  readonly onUpdate: (
+    template: StoredServiceTemplate,
+    definition: ServiceTemplateDefinition
+  ) => Promise<void>;
+  readonly onDelete: (template: StoredServiceTemplate) => Promise<void>;
+}
+
+/**
+ * Template being edited in the form dialog
+ */
+interface FormState {
+  readonly initialValue: ServiceTemplateDefinition;
+  /** Stored template being edited; null to create one */
+  readonly template: StoredServiceTemplate | null;
+}
+
+const EMPTY_TEMPLATE: ServiceTemplateDefinition = {
+  name: "",
+  description: "",
+  languages: [],
+  interfaces: [],
+  dependencies: [],
+  customFields: {},
+};
+
+/**
+ * Comma-separated values, or a dash when there are none
+ */
+function formatList(values: readonly string[]): string {
+  return values.length > 0 ? values.join(", ") : "—";
+}
+
+/**
+ * Interface summary: "{name}.example.com (staging)"
+ */
+function formatInterface(iface: ServiceTemplateInterface): string {
+  const domain = iface.domain || "no domain";
+  return iface.env ? `${domain} (${iface.env})` : domain;
+}
+
+/**
+ * Service templates table
+ */
+export function ServiceTemplateSettings({
+  templates,
+  canAdminister,
+  environmentCatalog,
+  runtimeCatalog,
+  customFields,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: ServiceTemplateSettingsProps) {
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [pendingDelete, setPendingDelete] =
+    useState<StoredServiceTemplate | null>(null);
+
+  const otherTemplates = useMemo(
+    () =>
+      templates.filter((template) => template.id !== formState?.template?.id),
+    [templates, formState]
+  );
+  const fieldLabels = useMemo(
+    () => new Map(customFields.map((field) => [field.key, field.label])),
+    [customFields]
+  );
+
+  const handleSubmit = useCallback(
+    (definition: ServiceTemplateDefinition) =>
+      formState?.template
+        ? onUpdate(formState.template, definition)
+        : onCreate(definition),
+    [formState, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const template = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(template);
+    } catch (error) {
+      console.error("Failed to delete service template:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          Templates pre-fill the interfaces, dependencies, languages and custom
+          fields of new services.
+        </p>
+        {canAdminister && (
+          <Button
+            onClick={() =>
+              setFormState({ initialValue: EMPTY_TEMPLATE, template: null })
+            }
+            size="sm"
+          >
+            <Plus className="mr-1.5 size-3.5" />
+            New template
+          </Button>
+        )}
+      </div>
+
+      {templates.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <LayoutTemplate className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>No service templates</EmptyTitle>
+            <EmptyDescription>
+              Describe the usual shape of a service, such as an API deployed to
+              staging and production, and start new services from it.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Interfaces</TableHead>
+                <TableHead>Languages</TableHead>
+                <TableHead>Dependencies</TableHead>
+                <TableHead>Custom fields</TableHead>
+                {canAdminister && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="text-sm">
+                    <span className="font-medium">{template.name}</span>
+                    {template.description && (
+                      <span className="block truncate text-muted-foreground text-xs">
+                        {template.description}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {formatList(template.interfaces.map(formatInterface))}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatList(template.languages)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatList(template.dependencies)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatList(
+                      Object.keys(template.customFields).map(
+                        (key) => fieldLabels.get(key) ?? key
+                      )
+                    )}
+                  </TableCell>
+                  {canAdminister && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          onClick={() =>
+                            setFormState({ initialValue: template, template })
+                          }
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Pencil className="mr-1.5 size-3.5" />
+                          Edit
+                        </Button>
+                        <Button
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPendingDelete(template)}
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Trash2 className="mr-1.5 size-3.5" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {formState && (
+        <ServiceTemplateFormDialog
+          customFields={customFields}
+          environmentCatalog={environmentCatalog}
+          initialValue={formState.initialValue}
+          isEditing={formState.template !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormState(null);
+            }
+          }}
+          onSubmit={handleSubmit}
+          open
+          otherTemplates={otherTemplates}
+          runtimeCatalog={runtimeCatalog}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete template</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.name} will no longer be offered in the service
+              form. Services created from it are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
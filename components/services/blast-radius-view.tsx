@@ -0,0 +1,261 @@
+/**
+ * Blast Radius View
+ *
+ * Impact analysis for a service or external dependency: every service that
+ * depends on it directly or transitively, with depth, owner and production
+ * domains. The analysed subject is kept in the URL (`subject`) so on-call can
+ * share the result.
+ *
+ * Uses nuqs (useSearchParams), so it must be rendered inside a Suspense boundary.
+ */
+
+"use client";
+
+import { Download, Radar } from "lucide-react";
+import Link from "next/link";
+import { parseAsString, useQueryState } from "nuqs";
+import { useCallback, useMemo } from "react";
+import {
+  type BlastRadius,
+  computeBlastRadius,
+  listBlastRadiusSubjects,
+} from "@/components/service-table/blast-radius";
+import type { DependencyGraphSource } from "@/components/service-table/dependency-graph";
+import type { GroupedService } from "@/components/service-table/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+/**
+ * Formats a count with its singular or plural noun
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * One-sentence summary of the analysis
+ */
+function BlastRadiusSummary({
+  blastRadius,
+  directCount,
+}: {
+  readonly blastRadius: BlastRadius;
+  readonly directCount: number;
+}) {
+  const subject = (
+    <span className="font-medium text-foreground">
+      {blastRadius.subject.name}
+    </span>
+  );
+
+  if (blastRadius.affected.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        Nothing depends on {subject}.
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-muted-foreground text-sm">
+      An outage of {subject} affects{" "}
+      {pluralize(blastRadius.affected.length, "service")} ({directCount} direct,
+      up to {pluralize(blastRadius.maxDepth, "hop")} away) owned by{" "}
+      {pluralize(blastRadius.ownerCount, "team")}, serving{" "}
+      {pluralize(blastRadius.productionDomainCount, "production domain")}.
+    </p>
+  );
+}
+
+interface BlastRadiusViewProps {
+  readonly groupedServices: readonly GroupedService[];
+  readonly rawServices: readonly DependencyGraphSource[];
+  readonly servicesHref: string;
+}
+
+/**
+ * Subject picker, summary and affected services table
+ */
+export function BlastRadiusView({
+  groupedServices,
+  rawServices,
+  servicesHref,
+}: BlastRadiusViewProps) {
+  const [subjectId, setSubjectId] = useQueryState(
+    "subject",
+    parseAsString.withOptions({ history: "push" })
+  );
+
+  const subjects = useMemo(
+    () => listBlastRadiusSubjects(groupedServices, rawServices),
+    [groupedServices, rawServices]
+  );
+  const serviceSubjects = subjects.filter((subject) => !subject.external);
+  const externalSubjects = subjects.filter((subject) => subject.external);
+
+  const blastRadius = useMemo(
+    () =>
+      subjectId
+        ? computeBlastRadius(groupedServices, rawServices, subjectId)
+        : null,
+    [groupedServices, rawServices, subjectId]
+  );
+
+  const directCount = useMemo(
+    () =>
+      blastRadius?.affected.filter((entry) => entry.depth === 1).length ?? 0,
+    [blastRadius]
+  );
+
+  const handleExport = useCallback(() => {
+    if (!blastRadius) {
+      return;
+    }
+    import("@/components/service-table/export").then(
+      ({ exportBlastRadiusToCsv }) => {
+        exportBlastRadiusToCsv(blastRadius);
+      }
+    );
+  }, [blastRadius]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 py-2">
+        <Select onValueChange={setSubjectId} value={subjectId ?? undefined}>
+          <SelectTrigger className="w-full max-w-[360px]">
+            <SelectValue placeholder="Select a service or dependency" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Services</SelectLabel>
+              {serviceSubjects.map((subject) => (
+                <SelectItem key={subject.id} value={subject.id}>
+                  {subject.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {externalSubjects.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>External dependencies</SelectLabel>
+                {externalSubjects.map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>
+                    {subject.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+
+        <Button
+          disabled={!blastRadius || blastRadius.affected.length === 0}
+          onClick={handleExport}
+          size="sm"
+          variant="outline"
+        >
+          <Download className="mr-1.5 size-3.5" />
+          Export CSV
+        </Button>
+      </div>
+
+      {blastRadius ? (
+        <>
+          <BlastRadiusSummary
+            blastRadius={blastRadius}
+            directCount={directCount}
+          />
+
+          {blastRadius.affected.length > 0 && (
+            <div className="rounded-lg border border-border/40">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Depth</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Via</TableHead>
+                    <TableHead>Production domains</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {blastRadius.affected.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">
+                        <Link
+                          className="underline-offset-2 hover:underline"
+                          href={`${servicesHref}/${entry.id}`}
+                        >
+                          {entry.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={entry.depth === 1 ? "default" : "outline"}
+                        >
+                          {entry.depth === 1 ? "Direct" : `${entry.depth} hops`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {entry.owner}
+                      </TableCell>
+                      <TableCell className="font-mono text-muted-foreground text-xs">
+                        {entry.via}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {entry.productionDomains.length > 0 ? (
+                          entry.productionDomains.join(", ")
+                        ) : (
+                          <span className="text-muted-foreground/40">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      ) : (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Radar className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>
+              {subjectId ? "Subject not found" : "Choose what goes down"}
+            </EmptyTitle>
+            <EmptyDescription>
+              {subjectId
+                ? "This service or dependency is no longer part of the organization."
+                : "Pick a service or external dependency to list everything that depends on it."}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+    </div>
+  );
+}
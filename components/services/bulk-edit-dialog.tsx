@@ -0,0 +1,384 @@
+/**
+ * Bulk Edit Dialog
+ *
+ * Collects the change for a bulk action started from the services table,
+ * shows progress while the selected services are written, and ends with the
+ * outcome for each service: saved, failed with the error, or skipped with
+ * the reason.
+ */
+
+"use client";
+
+import { CircleCheck, CircleMinus, CircleX } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  type BulkEditResult,
+  parseBulkEditList,
+  type ServiceBulkAction,
+  type ServiceBulkOperation,
+} from "@/components/service-table/bulk-edit";
+import type { TeamOption } from "@/components/service-table/team-links";
+import type { GroupedService } from "@/components/service-table/types";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface BulkEditDialogProps {
+  /** Action being configured; the dialog is open while set */
+  readonly action: ServiceBulkAction | null;
+  readonly services: readonly GroupedService[];
+  readonly availableTeams: readonly TeamOption[];
+  readonly onOpenChange: (open: boolean) => void;
+  /** Writes the operation, reporting progress, and returns each outcome */
+  readonly onRun: (
+    operation: ServiceBulkOperation,
+    onProgress: (completed: number, total: number) => void
+  ) => Promise<BulkEditResult[]>;
+}
+
+type BulkEditPhase = "edit" | "running" | "done";
+
+/**
+ * Values entered in the dialog
+ */
+interface BulkEditInput {
+  readonly teamId: string;
+  readonly add: string;
+  readonly remove: string;
+}
+
+const EMPTY_INPUT: BulkEditInput = { teamId: "", add: "", remove: "" };
+
+/**
+ * Service names listed in the description before "and N more"
+ */
+const LISTED_SERVICE_NAMES = 5;
+
+const ACTION_TITLES: Record<ServiceBulkAction, string> = {
+  owner: "Change team",
+  languages: "Edit languages",
+  dependencies: "Edit dependencies",
+  delete: "Delete services",
+};
+
+/**
+ * Pluralizes the service count: "1 service", "2 services"
+ */
+function formatServiceCount(count: number): string {
+  return `${count} ${count === 1 ? "service" : "services"}`;
+}
+
+/**
+ * Names of the selected services: "a, b, c and 4 more"
+ */
+function formatServiceNames(services: readonly GroupedService[]): string {
+  const names = services
+    .slice(0, LISTED_SERVICE_NAMES)
+    .map((service) => service.name)
+    .join(", ");
+  const more = services.length - LISTED_SERVICE_NAMES;
+  return more > 0 ? `${names} and ${more} more` : names;
+}
+
+/**
+ * Operation described by the dialog input; null until it changes something
+ */
+function buildOperation(
+  action: ServiceBulkAction,
+  input: BulkEditInput,
+  teams: readonly TeamOption[]
+): ServiceBulkOperation | null {
+  switch (action) {
+    case "delete":
+      return { kind: "delete" };
+    case "owner": {
+      const team = teams.find((option) => option.id === input.teamId);
+      return team ? { kind: "owner", team } : null;
+    }
+    default: {
+      const add = parseBulkEditList(input.add);
+      const remove = parseBulkEditList(input.remove);
+      return add.length > 0 || remove.length > 0
+        ? { kind: action, add, remove }
+        : null;
+    }
+  }
+}
+
+/**
+ * Fields of the change: a team, or values to add and remove
+ */
+function BulkEditFields({
+  action,
+  input,
+  teams,
+  onChange,
+}: {
+  readonly action: ServiceBulkAction;
+  readonly input: BulkEditInput;
+  readonly teams: readonly TeamOption[];
+  readonly onChange: (input: BulkEditInput) => void;
+}) {
+  if (action === "delete") {
+    return (
+      <p className="text-muted-foreground text-sm">
+        The services are moved to the trash with their interfaces and
+        dependencies, and can be restored from there.
+      </p>
+    );
+  }
+
+  if (action === "owner") {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="bulk-edit-team">Team</Label>
+        <Select
+          onValueChange={(teamId) => onChange({ ...input, teamId })}
+          value={input.teamId || undefined}
+        >
+          <SelectTrigger className="w-full" id="bulk-edit-team">
+            <SelectValue placeholder="Select a team" />
+          </SelectTrigger>
+          <SelectContent>
+            {teams.map((team) => (
+              <SelectItem key={team.id} value={team.id}>
+                {team.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  const noun = action === "languages" ? "languages" : "dependencies";
+  const placeholder =
+    action === "languages" ? "TypeScript, Go" : "auth-service, postgres";
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="bulk-edit-add">Add {noun}</Label>
+        <Input
+          id="bulk-edit-add"
+          onChange={(e) => onChange({ ...input, add: e.target.value })}
+          placeholder={placeholder}
+          value={input.add}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="bulk-edit-remove">Remove {noun}</Label>
+        <Input
+          id="bulk-edit-remove"
+          onChange={(e) => onChange({ ...input, remove: e.target.value })}
+          placeholder={placeholder}
+          value={input.remove}
+        />
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Separate names with commas. Names are matched ignoring case
+        {action === "dependencies" &&
+          "; dependencies naming a service link to it, the others are external"}
+        .
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Icon of a service outcome
+ */
+function ResultIcon({ status }: { readonly status: BulkEditResult["status"] }) {
+  switch (status) {
+    case "succeeded":
+      return <CircleCheck className="size-3.5 shrink-0 text-emerald-500" />;
+    case "failed":
+      return <CircleX className="size-3.5 shrink-0 text-destructive" />;
+    default:
+      return (
+        <CircleMinus className="size-3.5 shrink-0 text-muted-foreground" />
+      );
+  }
+}
+
+/**
+ * Outcome of the bulk action for each service, failures first
+ */
+function BulkEditSummary({
+  results,
+}: {
+  readonly results: readonly BulkEditResult[];
+}) {
+  const count = (status: BulkEditResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  const order: Record<BulkEditResult["status"], number> = {
+    failed: 0,
+    skipped: 1,
+    succeeded: 2,
+  };
+  const sorted = [...results].sort(
+    (a, b) =>
+      order[a.status] - order[b.status] ||
+      a.serviceName.localeCompare(b.serviceName)
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        {formatServiceCount(count("succeeded"))} saved, {count("failed")}{" "}
+        failed, {count("skipped")} skipped.
+      </p>
+      <ul className="max-h-[40vh] space-y-1 overflow-y-auto rounded-md border border-border/40 p-2">
+        {sorted.map((result) => (
+          <li className="flex items-start gap-2 text-xs" key={result.serviceId}>
+            <ResultIcon status={result.status} />
+            <span className="font-mono">{result.serviceName}</span>
+            {result.message && (
+              <span className="text-muted-foreground">{result.message}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Dialog running a bulk action on the selected services
+ */
+export function BulkEditDialog({
+  action,
+  services,
+  availableTeams,
+  onOpenChange,
+  onRun,
+}: BulkEditDialogProps) {
+  const [phase, setPhase] = useState<BulkEditPhase>("edit");
+  const [input, setInput] = useState<BulkEditInput>(EMPTY_INPUT);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [results, setResults] = useState<readonly BulkEditResult[]>([]);
+
+  // Reset the dialog each time an action starts
+  useEffect(() => {
+    if (action) {
+      setPhase("edit");
+      setInput(EMPTY_INPUT);
+      setProgress({ completed: 0, total: 0 });
+      setResults([]);
+    }
+  }, [action]);
+
+  const operation = action
+    ? buildOperation(action, input, availableTeams)
+    : null;
+
+  const handleOpenChange = (open: boolean) => {
+    // Writes can't be interrupted once started
+    if (phase !== "running") {
+      onOpenChange(open);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!operation || phase !== "edit") {
+      return;
+    }
+    setPhase("running");
+    setProgress({ completed: 0, total: services.length });
+    try {
+      setResults(
+        await onRun(operation, (completed, total) =>
+          setProgress({ completed, total })
+        )
+      );
+    } catch (error) {
+      console.error("Failed to run bulk action:", error);
+      setResults(
+        services.map((service) => ({
+          serviceId: service.id,
+          serviceName: service.name,
+          status: "failed",
+          message: "Failed to save changes",
+        }))
+      );
+    } finally {
+      setPhase("done");
+    }
+  };
+
+  const percent =
+    progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+
+  return (
+    <Dialog onOpenChange={handleOpenChange} open={action !== null}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{action ? ACTION_TITLES[action] : ""}</DialogTitle>
+          <DialogDescription>
+            Applies to {formatServiceCount(services.length)}:{" "}
+            {formatServiceNames(services)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {action && phase === "edit" && (
+          <BulkEditFields
+            action={action}
+            input={input}
+            onChange={setInput}
+            teams={availableTeams}
+          />
+        )}
+
+        {phase === "running" && (
+          <div className="space-y-2">
+            <Progress value={percent} />
+            <p aria-live="polite" className="text-muted-foreground text-xs">
+              Saved {progress.completed} of {progress.total}
+            </p>
+          </div>
+        )}
+
+        {phase === "done" && <BulkEditSummary results={results} />}
+
+        <DialogFooter>
+          {phase === "done" ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button
+                disabled={phase === "running"}
+                onClick={() => onOpenChange(false)}
+                variant="outline"
+              >
+                Cancel
+              </Button>
+              <Button
+                disabled={!operation || phase === "running"}
+                onClick={handleApply}
+                variant={action === "delete" ? "destructive" : "default"}
+              >
+                {phase === "running" ? "Saving..." : "Apply"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
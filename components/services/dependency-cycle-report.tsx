@@ -0,0 +1,106 @@
+/**
+ * Dependency Cycle Report
+ *
+ * Lists the dependency cycles already present in an organization so they can
+ * be broken one by one. Each cycle is shown as a chain of links back to its
+ * first service.
+ */
+
+"use client";
+
+import { ArrowRight, CircleCheck, RefreshCw } from "lucide-react";
+import Link from "next/link";
+import { Fragment, useMemo } from "react";
+import {
+  buildServiceDependencyAdjacency,
+  findDependencyCycles,
+} from "@/components/service-table/dependency-cycles";
+import type { DependencyGraphSource } from "@/components/service-table/dependency-graph";
+import { Badge } from "@/components/ui/badge";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+
+interface DependencyCycleReportProps {
+  readonly rawServices: readonly DependencyGraphSource[];
+  readonly servicesHref: string;
+}
+
+/**
+ * Cycle list with links to the services involved
+ */
+export function DependencyCycleReport({
+  rawServices,
+  servicesHref,
+}: DependencyCycleReportProps) {
+  const cycles = useMemo(
+    () => findDependencyCycles(buildServiceDependencyAdjacency(rawServices)),
+    [rawServices]
+  );
+
+  const namesById = useMemo(
+    () => new Map(rawServices.map((service) => [service.id, service.name])),
+    [rawServices]
+  );
+
+  if (cycles.length === 0) {
+    return (
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CircleCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>No dependency cycles</EmptyTitle>
+          <EmptyDescription>
+            No group of services depends on itself, directly or transitively.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        {cycles.length === 1
+          ? "1 dependency cycle"
+          : `${cycles.length} dependency cycles`}{" "}
+        found. Services in a cycle can't be deployed or recovered independently;
+        remove one dependency of each cycle to break it.
+      </p>
+
+      <ul className="space-y-2">
+        {cycles.map((cycle) => (
+          <li
+            className="flex flex-wrap items-center gap-2 rounded-lg border border-border/40 px-4 py-3"
+            key={cycle.join(":")}
+          >
+            <Badge variant="outline">
+              <RefreshCw className="mr-1 size-3" />
+              {cycle.length === 1 ? "Self" : `${cycle.length} services`}
+            </Badge>
+            {[...cycle, cycle[0]].map((serviceId, index) => (
+              <Fragment
+                key={index === cycle.length ? `${serviceId}-end` : serviceId}
+              >
+                {index > 0 && (
+                  <ArrowRight className="size-3.5 text-muted-foreground" />
+                )}
+                <Link
+                  className="font-medium text-sm underline-offset-2 hover:underline"
+                  href={`${servicesHref}/${serviceId}`}
+                >
+                  {namesById.get(serviceId) ?? serviceId}
+                </Link>
+              </Fragment>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
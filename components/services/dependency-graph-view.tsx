@@ -0,0 +1,481 @@
+/**
+ * Dependency Graph View
+ *
+ * Interactive graph of an organization's services and their declared
+ * dependencies. Services are filtered with the same URL query state as the
+ * services table (search, env, owner, runtime, match), coloured by owner or
+ * runtime, and can be narrowed to one service's neighbourhood.
+ *
+ * Uses useServicesQueryState (useSearchParams), so it must be rendered inside
+ * a Suspense boundary.
+ */
+
+"use client";
+
+import {
+  Download,
+  ExternalLink,
+  Network,
+  Radar,
+  RefreshCw,
+  X,
+} from "lucide-react";
+import Link from "next/link";
+import { parseAsInteger, parseAsString, useQueryStates } from "nuqs";
+import { useCallback, useMemo, useState } from "react";
+import {
+  buildServiceDependencyAdjacency,
+  findDependencyCycles,
+} from "@/components/service-table/dependency-cycles";
+import {
+  buildDependencyGraph,
+  createDependencyGraphPalette,
+  type DependencyGraphColorBy,
+  type DependencyGraphSource,
+  focusDependencyGraph,
+  GRAPH_NEUTRAL_COLOR,
+  GRAPH_NODE_HEIGHT,
+  GRAPH_NODE_WIDTH,
+  layoutDependencyGraph,
+  truncateGraphLabel,
+} from "@/components/service-table/dependency-graph";
+import type { DependencyGraphExportFormat } from "@/components/service-table/dependency-graph-export";
+import { deriveVisibleServices } from "@/components/service-table/derive-visible-services";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
+import type { GroupedService } from "@/components/service-table/types";
+import { FilterChipsRow } from "@/components/services/filter-chips-row";
+import { GlobalSearchBar } from "@/components/services/global-search-bar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useServicesQueryState } from "@/hooks/use-services-query-state";
+import { cn } from "@/lib/utils";
+import type { CustomFieldFilter, FilterValueOption } from "@/types/filters";
+
+/**
+ * Neighbourhood depths offered when focusing a service
+ */
+const FOCUS_DEPTH_OPTIONS = [1, 2, 3] as const;
+
+/**
+ * Select value meaning "no focused service"
+ */
+const ALL_SERVICES_VALUE = "__all__";
+
+const EXPORT_OPTIONS: ReadonlyArray<{
+  readonly format: DependencyGraphExportFormat;
+  readonly label: string;
+}> = [
+  { format: "mermaid", label: "Mermaid" },
+  { format: "dot", label: "Graphviz DOT" },
+  { format: "svg", label: "SVG image" },
+];
+
+/**
+ * Focus state synced to the URL so a neighbourhood view can be shared
+ */
+const focusQuerySchema = {
+  focus: parseAsString,
+  depth: parseAsInteger.withDefault(1),
+} as const;
+
+interface DependencyGraphViewProps {
+  readonly groupedServices: readonly GroupedService[];
+  readonly rawServices: readonly DependencyGraphSource[];
+  readonly availableOwners: readonly string[];
+  readonly environmentOptions: readonly FilterValueOption[];
+  readonly runtimeOptions: readonly FilterValueOption[];
+  readonly tagOptions: readonly FilterValueOption[];
+  readonly customFieldFilters: readonly CustomFieldFilter[];
+  /** Labels the runtime legend */
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly servicesHref: string;
+  readonly impactHref: string;
+  readonly cyclesHref: string;
+}
+
+/**
+ * Dependency graph with filters, focus controls, legend and export
+ */
+export function DependencyGraphView({
+  groupedServices,
+  rawServices,
+  availableOwners,
+  environmentOptions,
+  runtimeOptions,
+  tagOptions,
+  customFieldFilters,
+  runtimeCatalog,
+  servicesHref,
+  impactHref,
+  cyclesHref,
+}: DependencyGraphViewProps) {
+  const queryState = useServicesQueryState();
+  const [{ focus, depth }, setFocusParams] = useQueryStates(focusQuerySchema, {
+    history: "push",
+  });
+  const [colorBy, setColorBy] = useState<DependencyGraphColorBy>("owner");
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+
+  const visibleServices = useMemo(
+    () => deriveVisibleServices(groupedServices, queryState),
+    [groupedServices, queryState]
+  );
+
+  const graph = useMemo(() => {
+    const fullGraph = buildDependencyGraph(visibleServices, rawServices);
+    return focus
+      ? focusDependencyGraph(fullGraph, focus, Math.max(1, depth))
+      : fullGraph;
+  }, [visibleServices, rawServices, focus, depth]);
+
+  const layout = useMemo(() => layoutDependencyGraph(graph), [graph]);
+  const cycleCount = useMemo(
+    () =>
+      findDependencyCycles(buildServiceDependencyAdjacency(rawServices)).length,
+    [rawServices]
+  );
+  const palette = useMemo(
+    () => createDependencyGraphPalette(graph, colorBy, runtimeCatalog),
+    [graph, colorBy, runtimeCatalog]
+  );
+
+  const focusedService = useMemo(
+    () => groupedServices.find((service) => service.id === focus) ?? null,
+    [groupedServices, focus]
+  );
+
+  const sortedServices = useMemo(
+    () => [...visibleServices].sort((a, b) => a.name.localeCompare(b.name)),
+    [visibleServices]
+  );
+
+  // Edges touching the hovered node are highlighted, the rest dimmed
+  const highlightedNodeIds = useMemo(() => {
+    if (!hoveredNodeId) {
+      return null;
+    }
+    const ids = new Set([hoveredNodeId]);
+    for (const { source, target } of graph.edges) {
+      if (source === hoveredNodeId) {
+        ids.add(target);
+      } else if (target === hoveredNodeId) {
+        ids.add(source);
+      }
+    }
+    return ids;
+  }, [graph, hoveredNodeId]);
+
+  const handleFocusChange = useCallback(
+    (value: string) => {
+      setFocusParams({
+        focus: value === ALL_SERVICES_VALUE ? null : value,
+        depth: null,
+      });
+    },
+    [setFocusParams]
+  );
+
+  const handleExport = useCallback(
+    (format: DependencyGraphExportFormat) => {
+      import("@/components/service-table/dependency-graph-export").then(
+        ({ exportDependencyGraph }) => {
+          exportDependencyGraph(graph, format, colorBy, runtimeCatalog);
+        }
+      );
+    },
+    [graph, colorBy, runtimeCatalog]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 py-2">
+        <div className="w-full min-w-[320px] max-w-[560px]">
+          <GlobalSearchBar onChange={queryState.setQ} value={queryState.q} />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <Select
+            onValueChange={(value) =>
+              setColorBy(value as DependencyGraphColorBy)
+            }
+            value={colorBy}
+          >
+            <SelectTrigger className="w-[160px]" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="owner">Colour by team</SelectItem>
+              <SelectItem value="runtime">Colour by runtime</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            onValueChange={handleFocusChange}
+            value={focus ?? ALL_SERVICES_VALUE}
+          >
+            <SelectTrigger className="w-[200px]" size="sm">
+              <SelectValue placeholder="Focus on service" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SERVICES_VALUE}>All services</SelectItem>
+              {sortedServices.map((service) => (
+                <SelectItem key={service.id} value={service.id}>
+                  {service.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {focus && (
+            <>
+              <Select
+                onValueChange={(value) =>
+                  setFocusParams({ depth: Number(value) })
+                }
+                value={String(depth)}
+              >
+                <SelectTrigger className="w-[110px]" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FOCUS_DEPTH_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} hop{option === 1 ? "" : "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {focusedService && (
+                <>
+                  <Button asChild size="sm" variant="ghost">
+                    <Link href={`${servicesHref}/${focusedService.id}`}>
+                      <ExternalLink className="mr-1.5 size-3.5" />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button asChild size="sm" variant="ghost">
+                    <Link
+                      href={`${impactHref}?subject=${encodeURIComponent(focusedService.id)}`}
+                    >
+                      <Radar className="mr-1.5 size-3.5" />
+                      Blast radius
+                    </Link>
+                  </Button>
+                </>
+              )}
+              <Button
+                aria-label="Clear focus"
+                onClick={() => handleFocusChange(ALL_SERVICES_VALUE)}
+                size="icon"
+                variant="ghost"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+
+          {cycleCount > 0 && (
+            <Button asChild size="sm" variant="outline">
+              <Link href={cyclesHref}>
+                <RefreshCw className="mr-1.5 size-3.5 text-destructive" />
+                {cycleCount === 1 ? "1 cycle" : `${cycleCount} cycles`}
+              </Link>
+            </Button>
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                disabled={graph.nodes.length === 0}
+                size="sm"
+                variant="outline"
+              >
+                <Download className="mr-1.5 size-3.5" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_OPTIONS.map(({ format, label }) => (
+                <DropdownMenuItem
+                  key={format}
+                  onClick={() => handleExport(format)}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <FilterChipsRow
+        availableOwners={availableOwners}
+        custom={queryState.custom}
+        customFieldFilters={customFieldFilters}
+        env={queryState.env}
+        environmentOptions={environmentOptions}
+        lifecycle={queryState.lifecycle}
+        match={queryState.match}
+        onClearFilters={queryState.clearFilters}
+        onCustomFieldChange={queryState.setCustomField}
+        onEnvChange={queryState.setEnv}
+        onLifecycleChange={queryState.setLifecycle}
+        onMatchChange={queryState.setMatch}
+        onOwnerChange={queryState.setOwner}
+        onRuntimeChange={queryState.setRuntime}
+        onTagChange={queryState.setTag}
+        owner={queryState.owner}
+        runtime={queryState.runtime}
+        runtimeOptions={runtimeOptions}
+        tag={queryState.tag}
+        tagOptions={tagOptions}
+      />
+
+      {graph.nodes.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Network className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>No services to show</EmptyTitle>
+            <EmptyDescription>
+              No services match the current search and filters.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground text-xs">
+            {palette.legend.map((item) => (
+              <span className="flex items-center gap-1.5" key={item.key}>
+                <span
+                  className={cn(
+                    "size-2.5 rounded-sm",
+                    item.key === "external" && "border border-dashed"
+                  )}
+                  style={{ backgroundColor: item.color }}
+                />
+                {item.label}
+              </span>
+            ))}
+            <span className="ml-auto">
+              {graph.nodes.length} nodes · {graph.edges.length} dependencies
+            </span>
+          </div>
+
+          <div className="overflow-auto rounded-lg border border-border/40 bg-card">
+            <svg
+              aria-label="Dependency graph"
+              height={layout.height}
+              role="img"
+              viewBox={`0 0 ${layout.width} ${layout.height}`}
+              width={layout.width}
+            >
+              <defs>
+                <marker
+                  id="dependency-graph-arrow"
+                  markerHeight="8"
+                  markerWidth="8"
+                  orient="auto-start-reverse"
+                  refX="10"
+                  refY="5"
+                  viewBox="0 0 10 10"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+                </marker>
+              </defs>
+
+              {layout.edges.map(({ edge, path }) => {
+                const isHighlighted =
+                  edge.source === hoveredNodeId ||
+                  edge.target === hoveredNodeId;
+                return (
+                  <path
+                    d={path}
+                    fill="none"
+                    key={`${edge.source}->${edge.target}`}
+                    markerEnd="url(#dependency-graph-arrow)"
+                    opacity={highlightedNodeIds && !isHighlighted ? 0.15 : 1}
+                    stroke="#94a3b8"
+                    strokeWidth={isHighlighted ? 2.5 : 1.5}
+                  />
+                );
+              })}
+
+              {layout.nodes.map(({ node, x, y }) => {
+                const color =
+                  palette.nodeColors.get(node.id) ?? GRAPH_NEUTRAL_COLOR;
+                const isDimmed =
+                  highlightedNodeIds !== null &&
+                  !highlightedNodeIds.has(node.id);
+                const isFocused = node.id === focus;
+                return (
+                  // biome-ignore lint/a11y/noStaticElementInteractions: SVG nodes mirror the focus select for pointer users
+                  <g
+                    className={cn(!node.external && "cursor-pointer")}
+                    key={node.id}
+                    onClick={() => {
+                      if (!node.external) {
+                        handleFocusChange(node.id);
+                      }
+                    }}
+                    onMouseEnter={() => setHoveredNodeId(node.id)}
+                    onMouseLeave={() => setHoveredNodeId(null)}
+                    opacity={isDimmed ? 0.3 : 1}
+                  >
+                    <title>
+                      {node.external
+                        ? `${node.name} (external)`
+                        : `${node.name} · ${node.owner ?? "No team"}`}
+                    </title>
+                    <rect
+                      fill={color}
+                      height={GRAPH_NODE_HEIGHT}
+                      rx={8}
+                      stroke={isFocused ? "#0f172a" : color}
+                      strokeDasharray={node.external ? "4 3" : undefined}
+                      strokeWidth={isFocused ? 3 : 1}
+                      width={GRAPH_NODE_WIDTH}
+                      x={x}
+                      y={y}
+                    />
+                    <text
+                      className="select-none"
+                      dominantBaseline="central"
+                      fill="#ffffff"
+                      fontSize={12}
+                      textAnchor="middle"
+                      x={x + GRAPH_NODE_WIDTH / 2}
+                      y={y + GRAPH_NODE_HEIGHT / 2}
+                    >
+                      {truncateGraphLabel(node.name)}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Domain Conflict Report
+ *
+ * Lists the interface domains of an organization that break the domain
+ * rules in existing data: domains held by more than one interface in the
+ * same environment, and domains that aren't a valid hostname or URL. The
+ * service form rejects both, so entries only go away when a service is
+ * edited.
+ */
+
+"use client";
+
+import { CircleCheck } from "lucide-react";
+import Link from "next/link";
+import { useMemo } from "react";
+import { findDomainConflicts } from "@/components/service-table/domains";
+import {
+  type EnvironmentCatalog,
+  getEnvironmentLabel,
+} from "@/components/service-table/environments";
+import { validateDomain } from "@/components/service-table/validation";
+import { Badge } from "@/components/ui/badge";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ActiveServiceRecord } from "@/hooks/use-active-services";
+
+interface DomainConflictReportProps {
+  readonly rawServices: readonly ActiveServiceRecord[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly servicesHref: string;
+}
+
+/**
+ * Interface whose stored domain doesn't pass validation
+ */
+interface InvalidDomain {
+  readonly serviceId: string;
+  readonly serviceName: string;
+  readonly interfaceId: string;
+  readonly domain: string;
+  readonly env: string | null;
+  readonly error: string;
+}
+
+/**
+ * Stored domains that aren't a valid hostname or URL, by service name
+ */
+function findInvalidDomains(
+  services: readonly ActiveServiceRecord[]
+): InvalidDomain[] {
+  return services
+    .flatMap((service) =>
+      (service.interfaces ?? []).flatMap((iface) => {
+        const error = validateDomain(iface.domain);
+        return error
+          ? [
+              {
+                serviceId: service.id,
+                serviceName: service.name,
+                interfaceId: iface.id,
+                domain: iface.domain,
+                env: iface.env,
+                error,
+              },
+            ]
+          : [];
+      })
+    )
+    .sort((a, b) => a.serviceName.localeCompare(b.serviceName));
+}
+
+/**
+ * Tables of the conflicting and invalid domains
+ */
+export function DomainConflictReport({
+  rawServices,
+  environmentCatalog,
+  servicesHref,
+}: DomainConflictReportProps) {
+  const conflicts = useMemo(
+    () => findDomainConflicts(rawServices, environmentCatalog),
+    [rawServices, environmentCatalog]
+  );
+  const invalidDomains = useMemo(
+    () => findInvalidDomains(rawServices),
+    [rawServices]
+  );
+
+  if (conflicts.length === 0 && invalidDomains.length === 0) {
+    return (
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CircleCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>No domain conflicts</EmptyTitle>
+          <EmptyDescription>
+            Domains used by more than one service in the same environment, and
+            domains that aren't a valid hostname or URL, are listed here.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-muted-foreground text-sm">
+        {conflicts.length === 1
+          ? "1 domain is"
+          : `${conflicts.length} domains are`}{" "}
+        used more than once in the same environment, and{" "}
+        {invalidDomains.length === 1
+          ? "1 domain isn't"
+          : `${invalidDomains.length} domains aren't`}{" "}
+        a valid hostname or URL. Edit the services listed to resolve them.
+      </p>
+
+      {conflicts.length > 0 && (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Domain</TableHead>
+                <TableHead>Environment</TableHead>
+                <TableHead>Used by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {conflicts.map((conflict) => (
+                <TableRow key={`${conflict.env}|${conflict.domain}`}>
+                  <TableCell className="font-mono text-xs">
+                    {conflict.domain}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {getEnvironmentLabel(environmentCatalog, conflict.env)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                      {conflict.owners.map((owner) => (
+                        <Link
+                          className="font-medium text-sm underline-offset-2 hover:underline"
+                          href={`${servicesHref}/${owner.serviceId}`}
+                          key={owner.interfaceId}
+                        >
+                          {owner.serviceName}
+                        </Link>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {invalidDomains.length > 0 && (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Domain</TableHead>
+                <TableHead>Environment</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invalidDomains.map((invalid) => (
+                <TableRow key={invalid.interfaceId}>
+                  <TableCell>
+                    <Link
+                      className="font-medium text-sm underline-offset-2 hover:underline"
+                      href={`${servicesHref}/${invalid.serviceId}`}
+                    >
+                      {invalid.serviceName}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {invalid.domain}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {getEnvironmentLabel(environmentCatalog, invalid.env)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {invalid.error}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Duplicate Services Report
+ *
+ * Lists pairs of services of an organization that look like the same
+ * software registered twice: similar names, the same repository or the same
+ * production domain. Admins and owners can merge a pair from here.
+ */
+
+"use client";
+
+import { CircleCheck, Merge } from "lucide-react";
+import Link from "next/link";
+import { useMemo } from "react";
+import {
+  type DuplicatePair,
+  findDuplicatePairs,
+  getDuplicateReasonLabel,
+} from "@/components/service-table/duplicates";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import { getServiceOwnerName } from "@/components/service-table/team-links";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ActiveServiceRecord } from "@/hooks/use-active-services";
+
+interface DuplicateServicesReportProps {
+  readonly rawServices: readonly ActiveServiceRecord[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly servicesHref: string;
+  /** Whether the user may merge services (admins and owners) */
+  readonly canMerge: boolean;
+  readonly onMerge: (pair: DuplicatePair<ActiveServiceRecord>) => void;
+}
+
+/**
+ * Service cell: name, owner and repository
+ */
+function ServiceSummary({
+  service,
+  servicesHref,
+}: {
+  readonly service: ActiveServiceRecord;
+  readonly servicesHref: string;
+}) {
+  return (
+    <div className="min-w-0">
+      <Link
+        className="font-medium text-sm underline-offset-2 hover:underline"
+        href={`${servicesHref}/${service.id}`}
+      >
+        {service.name}
+      </Link>
+      <span className="block text-muted-foreground text-xs">
+        {getServiceOwnerName(service)}
+      </span>
+      <span className="block max-w-xs truncate font-mono text-[10px] text-muted-foreground">
+        {service.repository}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Table of the possible duplicates with what each pair shares
+ */
+export function DuplicateServicesReport({
+  rawServices,
+  environmentCatalog,
+  servicesHref,
+  canMerge,
+  onMerge,
+}: DuplicateServicesReportProps) {
+  const pairs = useMemo(
+    () => findDuplicatePairs(rawServices, environmentCatalog),
+    [rawServices, environmentCatalog]
+  );
+
+  const serviceCount = new Set(
+    pairs.flatMap((pair) => [pair.first.id, pair.second.id])
+  ).size;
+
+  if (pairs.length === 0) {
+    return (
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CircleCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>No possible duplicates</EmptyTitle>
+          <EmptyDescription>
+            Services whose names only differ by case, separators or a suffix, or
+            that share a repository or production domain, are listed here.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        {pairs.length === 1
+          ? "1 possible duplicate"
+          : `${pairs.length} possible duplicates`}{" "}
+        across {serviceCount} services. Merging keeps one service and moves the
+        other to the trash.
+        {!canMerge && " Only admins and owners can merge services."}
+      </p>
+
+      <div className="rounded-lg border border-border/40">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Service</TableHead>
+              <TableHead>Possible duplicate</TableHead>
+              <TableHead>Shared</TableHead>
+              {canMerge && <TableHead className="w-24" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pairs.map((pair) => (
+              <TableRow key={`${pair.first.id}:${pair.second.id}`}>
+                <TableCell>
+                  <ServiceSummary
+                    service={pair.first}
+                    servicesHref={servicesHref}
+                  />
+                </TableCell>
+                <TableCell>
+                  <ServiceSummary
+                    service={pair.second}
+                    servicesHref={servicesHref}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {getDuplicateReasonLabel(reason)}
+                      </Badge>
+                    ))}
+                  </div>
+                  {pair.sharedDomains.length > 0 && (
+                    <span className="mt-1 block font-mono text-[10px] text-muted-foreground">
+                      {pair.sharedDomains.join(", ")}
+                    </span>
+                  )}
+                </TableCell>
+                {canMerge && (
+                  <TableCell className="text-right">
+                    <Button
+                      onClick={() => onMerge(pair)}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <Merge className="mr-1 size-3" />
+                      Merge
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * End-of-Life Report
+ *
+ * Lists the services of an organization running a language, framework or
+ * runtime version that is past its end of support or reaches it soon, with
+ * the owning team, so upgrades can be planned before support runs out.
+ * Support dates come from the bundled end-of-life dataset.
+ */
+
+"use client";
+
+import { CircleCheck } from "lucide-react";
+import Link from "next/link";
+import { useMemo } from "react";
+import { EolBadge } from "@/components/service-table/eol-badge";
+import { EOL_DATASET_UPDATED } from "@/components/service-table/eol-dataset";
+import { formatSunsetDistance } from "@/components/service-table/lifecycle";
+import {
+  EOL_SOON_DAYS,
+  getEolFindings,
+  getTechStackKindLabel,
+} from "@/components/service-table/tech-stack";
+import type { GroupedService } from "@/components/service-table/types";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface EndOfLifeReportProps {
+  readonly services: readonly GroupedService[];
+  readonly servicesHref: string;
+  /** Day the support status is computed for */
+  readonly today: Date;
+}
+
+/**
+ * Pluralizes "service"
+ */
+function formatServiceCount(count: number): string {
+  return `${count} service${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Table of the versions past or near their end of support
+ */
+export function EndOfLifeReport({
+  services,
+  servicesHref,
+  today,
+}: EndOfLifeReportProps) {
+  const findings = useMemo(
+    () => getEolFindings(services, today),
+    [services, today]
+  );
+
+  const affectedCount = new Set(findings.map((finding) => finding.serviceId))
+    .size;
+  const ownerCount = new Set(findings.map((finding) => finding.owner)).size;
+  const endedCount = findings.filter(
+    (finding) => finding.info.status === "eol"
+  ).length;
+
+  if (findings.length === 0) {
+    return (
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CircleCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>No end-of-life versions</EmptyTitle>
+          <EmptyDescription>
+            Services whose tech stack includes a version past its end of
+            support, or within {EOL_SOON_DAYS} days of it, are listed here.
+            Support dates as of {EOL_DATASET_UPDATED}.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        {formatServiceCount(affectedCount)} of{" "}
+        {ownerCount === 1 ? "1 team" : `${ownerCount} teams`}
+        {endedCount > 0 &&
+          `, ${endedCount} ${endedCount === 1 ? "version" : "versions"} past end of support`}
+        . Versions reaching end of support within {EOL_SOON_DAYS} days are
+        included. Support dates as of {EOL_DATASET_UPDATED}.
+      </p>
+
+      <div className="rounded-lg border border-border/40">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Service</TableHead>
+              <TableHead>Team</TableHead>
+              <TableHead>Technology</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>End of support</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {findings.map((finding) => (
+              <TableRow
+                key={`${finding.serviceId}:${finding.entry.kind}:${finding.entry.name}`}
+              >
+                <TableCell>
+                  <Link
+                    className="font-medium text-sm underline-offset-2 hover:underline"
+                    href={`${servicesHref}/${finding.serviceId}`}
+                  >
+                    {finding.serviceName}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-muted-foreground text-xs">
+                  {finding.owner}
+                </TableCell>
+                <TableCell>
+                  <span className="block text-sm">
+                    {finding.info.productLabel}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {getTechStackKindLabel(finding.entry.kind)}
+                  </span>
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {finding.entry.version}
+                </TableCell>
+                <TableCell>
+                  <span className="block font-mono text-xs">
+                    {finding.info.eolDate}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {formatSunsetDistance(finding.info.daysLeft)}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <EolBadge info={finding.info} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
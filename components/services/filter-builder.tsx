@@ -4,7 +4,8 @@
  * Floating panel for building structured filters with comprehensive keyboard navigation.
  *
  * Layout:
- * - Left column (45%): Field list ("Environment", "Owner", "Runtime")
+ * - Left column (45%): Field list ("Environment", "Runtime", "Team",
+ *   "Status", "Tag", then the organization's custom fields)
  * - Right column (55%): Value list with search input and checkboxes
  *
  * Accessibility Features:
@@ -35,6 +36,7 @@
 import { Check } from "lucide-react";
 import type React from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { LifecycleStatus } from "@/components/service-table/lifecycle";
 import {
   Popover,
   PopoverContent,
@@ -44,12 +46,16 @@ import type { Environment } from "@/hooks/use-services-query-state";
 import {
   filterValueOptions,
   getAllFilterFieldMetadata,
-  getEnvironmentOptions,
+  getCustomFieldFilterKey,
+  getLifecycleOptions,
   getOwnerOptions,
-  getRuntimeOptions,
 } from "@/lib/filter-utils";
 import { cn } from "@/lib/utils";
-import type { FilterFieldType } from "@/types/filters";
+import type {
+  CustomFieldFilter,
+  FilterFieldType,
+  FilterValueOption,
+} from "@/types/filters";
 
 /**
  * Builder panel width in pixels.
@@ -71,6 +77,18 @@ const ROW_HEIGHT_PX = 36;
  */
 const TYPEAHEAD_TIMEOUT_MS = 500;
 
+/**
+ * Stable defaults for organizations without custom fields.
+ */
+const NO_CUSTOM_FIELD_FILTERS: readonly CustomFieldFilter[] = [];
+const NO_CUSTOM_FIELD_SELECTIONS: Readonly<Record<string, readonly string[]>> =
+  {};
+
+/**
+ * Lifecycle statuses are the same for every organization.
+ */
+const LIFECYCLE_OPTIONS = getLifecycleOptions();
+
 interface FilterBuilderProps {
   readonly isOpen: boolean;
   readonly onOpenChange: (open: boolean) => void;
@@ -78,11 +96,25 @@ interface FilterBuilderProps {
   readonly selectedEnv: readonly Environment[];
   readonly selectedOwner: readonly string[];
   readonly selectedRuntime: readonly string[];
+  readonly selectedLifecycle: readonly LifecycleStatus[];
+  readonly selectedTag: readonly string[];
   readonly availableOwners: readonly string[];
-  readonly availableRuntimes: readonly string[];
+  /** Environments of the organization and undefined values on services */
+  readonly environmentOptions: readonly FilterValueOption[];
+  /** Runtime types found on services, labelled from the runtime catalog */
+  readonly runtimeOptions: readonly FilterValueOption[];
+  /** Tags of the organization */
+  readonly tagOptions: readonly FilterValueOption[];
   readonly onEnvChange: (environments: readonly Environment[]) => void;
   readonly onOwnerChange: (owners: readonly string[]) => void;
   readonly onRuntimeChange: (runtimes: readonly string[]) => void;
+  readonly onLifecycleChange: (statuses: readonly LifecycleStatus[]) => void;
+  readonly onTagChange: (tags: readonly string[]) => void;
+  /** Custom fields of the organization with their values */
+  readonly customFieldFilters?: readonly CustomFieldFilter[];
+  /** Selected values by custom field key */
+  readonly selectedCustomFields?: Readonly<Record<string, readonly string[]>>;
+  readonly onCustomFieldChange?: (key: string, values: readonly string[]) => void;
   readonly trigger: React.ReactNode;
   readonly className?: string;
 }
@@ -95,6 +127,9 @@ interface FilterBuilderProps {
  * @param selectedEnv - Selected environments
  * @param selectedOwner - Selected owners
  * @param selectedRuntime - Selected runtimes
+ * @param selectedLifecycle - Selected lifecycle statuses
+ * @param selectedTag - Selected tag names
+ * @param selectedCustomFields - Selected values by custom field key
  * @returns True if value is selected
  */
 function isValueSelected(
@@ -102,10 +137,17 @@ function isValueSelected(
   value: string,
   selectedEnv: readonly Environment[],
   selectedOwner: readonly string[],
-  selectedRuntime: readonly string[]
+  selectedRuntime: readonly string[],
+  selectedLifecycle: readonly string[],
+  selectedTag: readonly string[],
+  selectedCustomFields: Readonly<Record<string, readonly string[]>>
 ): boolean {
+  const customKey = getCustomFieldFilterKey(field);
+  if (customKey !== null) {
+    return selectedCustomFields[customKey]?.includes(value) ?? false;
+  }
   if (field === "env") {
-    return selectedEnv.includes(value as Environment);
+    return selectedEnv.includes(value);
   }
   if (field === "owner") {
     return selectedOwner.includes(value);
@@ -113,9 +155,28 @@ function isValueSelected(
   if (field === "runtime") {
     return selectedRuntime.includes(value);
   }
+  if (field === "lifecycle") {
+    return selectedLifecycle.includes(value);
+  }
+  if (field === "tag") {
+    return selectedTag.includes(value);
+  }
   return false;
 }
 
+/**
+ * Adds a value to a selection, or removes it when already selected.
+ *
+ * @param values - Current selection
+ * @param value - Value to toggle
+ * @returns New selection
+ */
+function toggleValue(values: readonly string[], value: string): string[] {
+  return values.includes(value)
+    ? values.filter((selected) => selected !== value)
+    : [...values, value];
+}
+
 /**
  * Two-panel filter builder component with full keyboard navigation.
  *
@@ -131,11 +192,20 @@ export function FilterBuilder({
   selectedEnv,
   selectedOwner,
   selectedRuntime,
+  selectedLifecycle,
+  selectedTag,
   availableOwners,
-  availableRuntimes,
+  environmentOptions,
+  runtimeOptions,
+  tagOptions,
   onEnvChange,
   onOwnerChange,
   onRuntimeChange,
+  onLifecycleChange,
+  onTagChange,
+  customFieldFilters = NO_CUSTOM_FIELD_FILTERS,
+  selectedCustomFields = NO_CUSTOM_FIELD_SELECTIONS,
+  onCustomFieldChange,
   trigger,
   className,
 }: FilterBuilderProps): React.ReactElement {
@@ -172,7 +242,10 @@ export function FilterBuilder({
   }, [selectedField]);
 
   // Get field metadata
-  const fieldMetadata = getAllFilterFieldMetadata();
+  const fieldMetadata = useMemo(
+    () => getAllFilterFieldMetadata(customFieldFilters),
+    [customFieldFilters]
+  );
 
   // Get value options for selected field
   const valueOptions = useMemo(() => {
@@ -180,18 +253,39 @@ export function FilterBuilder({
       return [];
     }
 
+    const customKey = getCustomFieldFilterKey(selectedField);
+    if (customKey !== null) {
+      return (
+        customFieldFilters.find((filter) => filter.key === customKey)
+          ?.options ?? []
+      );
+    }
+
     if (selectedField === "env") {
-      return getEnvironmentOptions();
+      return environmentOptions;
     }
     if (selectedField === "owner") {
       return getOwnerOptions(availableOwners);
     }
     if (selectedField === "runtime") {
-      return getRuntimeOptions(availableRuntimes);
+      return runtimeOptions;
+    }
+    if (selectedField === "lifecycle") {
+      return LIFECYCLE_OPTIONS;
+    }
+    if (selectedField === "tag") {
+      return tagOptions;
     }
 
     return [];
-  }, [selectedField, availableOwners, availableRuntimes]);
+  }, [
+    selectedField,
+    availableOwners,
+    environmentOptions,
+    runtimeOptions,
+    tagOptions,
+    customFieldFilters,
+  ]);
 
   // Filter value options by search query
   const filteredValueOptions = useMemo(
@@ -279,37 +373,24 @@ export function FilterBuilder({
         return;
       }
 
-      if (selectedField === "env") {
-        const envValue = value as Environment;
-        const currentSet = new Set(selectedEnv);
-
-        if (currentSet.has(envValue)) {
-          currentSet.delete(envValue);
-        } else {
-          currentSet.add(envValue);
-        }
-
-        onEnvChange(Array.from(currentSet));
+      const customKey = getCustomFieldFilterKey(selectedField);
+      if (customKey !== null) {
+        onCustomFieldChange?.(
+          customKey,
+          toggleValue(selectedCustomFields[customKey] ?? [], value)
+        );
+      } else if (selectedField === "env") {
+        onEnvChange(toggleValue(selectedEnv, value));
       } else if (selectedField === "owner") {
-        const currentSet = new Set(selectedOwner);
-
-        if (currentSet.has(value)) {
-          currentSet.delete(value);
-        } else {
-          currentSet.add(value);
-        }
-
-        onOwnerChange(Array.from(currentSet));
+        onOwnerChange(toggleValue(selectedOwner, value));
       } else if (selectedField === "runtime") {
-        const currentSet = new Set(selectedRuntime);
-
-        if (currentSet.has(value)) {
-          currentSet.delete(value);
-        } else {
-          currentSet.add(value);
-        }
-
-        onRuntimeChange(Array.from(currentSet));
+        onRuntimeChange(toggleValue(selectedRuntime, value));
+      } else if (selectedField === "lifecycle") {
+        onLifecycleChange(
+          toggleValue(selectedLifecycle, value) as LifecycleStatus[]
+        );
+      } else if (selectedField === "tag") {
+        onTagChange(toggleValue(selectedTag, value));
       }
     },
     [
@@ -317,9 +398,15 @@ export function FilterBuilder({
       selectedEnv,
       selectedOwner,
       selectedRuntime,
+      selectedLifecycle,
+      selectedTag,
+      selectedCustomFields,
       onEnvChange,
       onOwnerChange,
       onRuntimeChange,
+      onLifecycleChange,
+      onTagChange,
+      onCustomFieldChange,
     ]
   );
 
@@ -754,7 +841,10 @@ export function FilterBuilder({
                         option.value,
                         selectedEnv,
                         selectedOwner,
-                        selectedRuntime
+                        selectedRuntime,
+                        selectedLifecycle,
+                        selectedTag,
+                        selectedCustomFields
                       );
                       const isFocused = focusedValueIndex === index;
 
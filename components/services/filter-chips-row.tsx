@@ -22,7 +22,8 @@
  * - Row exists even with zero filters (shows Filter button)
  * - Chips height 32px, full rounded, editable segments
  * - Match mode and Clear disabled when no filters active
- * - Chips ordered consistently: env, runtime, owner
+ * - Chips ordered consistently: env, runtime, owner, lifecycle, tag, then
+ *   custom fields
  */
 
 "use client";
@@ -30,6 +31,7 @@
 import { SlidersHorizontal } from "lucide-react";
 import type React from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { LifecycleStatus } from "@/components/service-table/lifecycle";
 import { Button } from "@/components/ui/button";
 import { PopoverTrigger } from "@/components/ui/popover";
 import {
@@ -40,11 +42,18 @@ import {
 import type { Environment } from "@/hooks/use-services-query-state";
 import {
   generateChipValueDisplay,
+  getCustomFieldFilterField,
   getFilterFieldMetadata,
+  getLifecycleOptions,
   getOperatorForValueCount,
 } from "@/lib/filter-utils";
 import { cn } from "@/lib/utils";
-import type { FilterFieldType, FilterMatchMode } from "@/types/filters";
+import type {
+  CustomFieldFilter,
+  FilterFieldType,
+  FilterMatchMode,
+  FilterValueOption,
+} from "@/types/filters";
 import { FilterBuilder } from "./filter-builder";
 import { FilterChip } from "./filter-chip";
 
@@ -53,16 +62,42 @@ import { FilterChip } from "./filter-chip";
  */
 const FILTER_ROW_HEIGHT_PX = 32;
 
+/**
+ * Stable defaults for organizations without custom fields.
+ */
+const NO_CUSTOM_FIELD_FILTERS: readonly CustomFieldFilter[] = [];
+const NO_CUSTOM_FIELD_SELECTIONS: Readonly<Record<string, readonly string[]>> =
+  {};
+
+/**
+ * Lifecycle statuses, used to label the lifecycle chip.
+ */
+const LIFECYCLE_OPTIONS = getLifecycleOptions();
+
 interface FilterChipsRowProps {
   readonly env: readonly Environment[];
   readonly owner: readonly string[];
   readonly runtime: readonly string[];
+  readonly lifecycle: readonly LifecycleStatus[];
+  readonly tag: readonly string[];
   readonly match: FilterMatchMode;
   readonly availableOwners: readonly string[];
-  readonly availableRuntimes: readonly string[];
+  /** Environments of the organization and undefined values on services */
+  readonly environmentOptions: readonly FilterValueOption[];
+  /** Runtime types found on services, labelled from the runtime catalog */
+  readonly runtimeOptions: readonly FilterValueOption[];
+  /** Tags of the organization */
+  readonly tagOptions: readonly FilterValueOption[];
   readonly onEnvChange: (environments: readonly Environment[]) => void;
   readonly onOwnerChange: (owners: readonly string[]) => void;
   readonly onRuntimeChange: (runtimes: readonly string[]) => void;
+  readonly onLifecycleChange: (statuses: readonly LifecycleStatus[]) => void;
+  readonly onTagChange: (tags: readonly string[]) => void;
+  /** Custom fields of the organization with their values */
+  readonly customFieldFilters?: readonly CustomFieldFilter[];
+  /** Selected values by custom field key */
+  readonly custom?: Readonly<Record<string, readonly string[]>>;
+  readonly onCustomFieldChange?: (key: string, values: readonly string[]) => void;
   readonly onMatchChange: (mode: FilterMatchMode) => void;
   readonly onClearFilters: () => void;
   readonly className?: string;
@@ -74,14 +109,27 @@ interface FilterChipsRowProps {
  * @param env - Environment filters
  * @param owner - Owner filters
  * @param runtime - Runtime filters
+ * @param lifecycle - Lifecycle status filters
+ * @param tag - Tag filters
+ * @param custom - Custom field filters
  * @returns True if at least one filter is active
  */
 function hasActiveFilters(
   env: readonly Environment[],
   owner: readonly string[],
-  runtime: readonly string[]
+  runtime: readonly string[],
+  lifecycle: readonly LifecycleStatus[],
+  tag: readonly string[],
+  custom: Readonly<Record<string, readonly string[]>>
 ): boolean {
-  return env.length > 0 || owner.length > 0 || runtime.length > 0;
+  return (
+    env.length > 0 ||
+    owner.length > 0 ||
+    runtime.length > 0 ||
+    lifecycle.length > 0 ||
+    tag.length > 0 ||
+    Object.keys(custom).length > 0
+  );
 }
 
 /**
@@ -93,12 +141,21 @@ export function FilterChipsRow({
   env,
   owner,
   runtime,
+  lifecycle,
+  tag,
   match,
   availableOwners,
-  availableRuntimes,
+  environmentOptions,
+  runtimeOptions,
+  tagOptions,
   onEnvChange,
   onOwnerChange,
   onRuntimeChange,
+  onLifecycleChange,
+  onTagChange,
+  customFieldFilters = NO_CUSTOM_FIELD_FILTERS,
+  custom = NO_CUSTOM_FIELD_SELECTIONS,
+  onCustomFieldChange,
   onMatchChange,
   onClearFilters,
   className,
@@ -108,7 +165,14 @@ export function FilterChipsRow({
     useState<FilterFieldType | null>(null);
 
   const filterButtonRef = useRef<HTMLButtonElement>(null);
-  const hasFilters = hasActiveFilters(env, owner, runtime);
+  const hasFilters = hasActiveFilters(
+    env,
+    owner,
+    runtime,
+    lifecycle,
+    tag,
+    custom
+  );
 
   /**
    * Opens filter builder with optional preselected field.
@@ -245,6 +309,20 @@ export function FilterChipsRow({
     onRuntimeChange([]);
   }, [onRuntimeChange]);
 
+  /**
+   * Removes lifecycle filter.
+   */
+  const handleRemoveLifecycle = useCallback(() => {
+    onLifecycleChange([]);
+  }, [onLifecycleChange]);
+
+  /**
+   * Removes tag filter.
+   */
+  const handleRemoveTag = useCallback(() => {
+    onTagChange([]);
+  }, [onTagChange]);
+
   /**
    * Toggles environment filter between single and multi-select.
    * Not currently supported - environment is always multi-select.
@@ -277,7 +355,11 @@ export function FilterChipsRow({
 
     const metadata = getFilterFieldMetadata("env");
     const operator = getOperatorForValueCount(env.length);
-    const valueDisplay = generateChipValueDisplay("env", env);
+    const valueDisplay = generateChipValueDisplay(
+      "env",
+      env,
+      environmentOptions
+    );
 
     return {
       field: "env" as FilterFieldType,
@@ -288,7 +370,7 @@ export function FilterChipsRow({
       onRemove: handleRemoveEnv,
       onOperatorToggle: handleToggleEnvOperator,
     };
-  }, [env, handleRemoveEnv, handleToggleEnvOperator]);
+  }, [env, environmentOptions, handleRemoveEnv, handleToggleEnvOperator]);
 
   const runtimeChip = useMemo(() => {
     if (runtime.length === 0) {
@@ -297,7 +379,11 @@ export function FilterChipsRow({
 
     const metadata = getFilterFieldMetadata("runtime");
     const operator = getOperatorForValueCount(runtime.length);
-    const valueDisplay = generateChipValueDisplay("runtime", runtime);
+    const valueDisplay = generateChipValueDisplay(
+      "runtime",
+      runtime,
+      runtimeOptions
+    );
 
     return {
       field: "runtime" as FilterFieldType,
@@ -308,7 +394,12 @@ export function FilterChipsRow({
       onRemove: handleRemoveRuntime,
       onOperatorToggle: handleToggleRuntimeOperator,
     };
-  }, [runtime, handleRemoveRuntime, handleToggleRuntimeOperator]);
+  }, [
+    runtime,
+    runtimeOptions,
+    handleRemoveRuntime,
+    handleToggleRuntimeOperator,
+  ]);
 
   const ownerChip = useMemo(() => {
     if (owner.length === 0) {
@@ -330,11 +421,93 @@ export function FilterChipsRow({
     };
   }, [owner, handleRemoveOwner, handleToggleOwnerOperator]);
 
-  // Stable order: env, runtime, owner
-  const chips = [envChip, runtimeChip, ownerChip].filter(
-    (chip) => chip !== null
+  const lifecycleChip = useMemo(() => {
+    if (lifecycle.length === 0) {
+      return null;
+    }
+
+    const metadata = getFilterFieldMetadata("lifecycle");
+    const operator = getOperatorForValueCount(lifecycle.length);
+    const valueDisplay = generateChipValueDisplay(
+      "lifecycle",
+      lifecycle,
+      LIFECYCLE_OPTIONS
+    );
+
+    return {
+      field: "lifecycle" as FilterFieldType,
+      fieldLabel: metadata.label,
+      operator,
+      operatorSupportsToggle: false,
+      valueDisplay,
+      onRemove: handleRemoveLifecycle,
+      onOperatorToggle: () => {
+        // Lifecycle always supports multi-select, no toggle needed
+      },
+    };
+  }, [lifecycle, handleRemoveLifecycle]);
+
+  const tagChip = useMemo(() => {
+    if (tag.length === 0) {
+      return null;
+    }
+
+    const metadata = getFilterFieldMetadata("tag");
+    const operator = getOperatorForValueCount(tag.length);
+    const valueDisplay = generateChipValueDisplay("tag", tag, tagOptions);
+
+    return {
+      field: "tag" as FilterFieldType,
+      fieldLabel: metadata.label,
+      operator,
+      operatorSupportsToggle: false,
+      valueDisplay,
+      onRemove: handleRemoveTag,
+      onOperatorToggle: () => {
+        // Tag always supports multi-select, no toggle needed
+      },
+    };
+  }, [tag, tagOptions, handleRemoveTag]);
+
+  // One chip per custom field with selected values, in field order
+  const customChips = useMemo(
+    () =>
+      customFieldFilters
+        .filter((filter) => (custom[filter.key]?.length ?? 0) > 0)
+        .map((filter) => {
+          const values = custom[filter.key] ?? [];
+          const field = getCustomFieldFilterField(filter.key);
+
+          return {
+            field: field as FilterFieldType,
+            fieldLabel: filter.label,
+            operator: getOperatorForValueCount(values.length),
+            operatorSupportsToggle: false,
+            valueDisplay: generateChipValueDisplay(
+              field,
+              values,
+              filter.options,
+              customFieldFilters
+            ),
+            onRemove: () => onCustomFieldChange?.(filter.key, []),
+            onOperatorToggle: () => {
+              // Custom fields always support multi-select, no toggle needed
+            },
+          };
+        }),
+    [custom, customFieldFilters, onCustomFieldChange]
   );
 
+  // Stable order: env, runtime, owner, lifecycle, tag, then custom fields
+  const chips = [
+    envChip,
+    runtimeChip,
+    ownerChip,
+    lifecycleChip,
+    tagChip,
+    ...customChips,
+  ].filter((chip) => chip !== null);
+
   return (
     <div
       className={cn("flex items-center gap-2", className)}
@@ -343,16 +516,25 @@ export function FilterChipsRow({
       {/* Filter button (opens builder) with tooltip */}
       <FilterBuilder
         availableOwners={availableOwners}
-        availableRuntimes={availableRuntimes}
+        customFieldFilters={customFieldFilters}
+        environmentOptions={environmentOptions}
         isOpen={isBuilderOpen}
+        onCustomFieldChange={onCustomFieldChange}
         onEnvChange={onEnvChange}
+        onLifecycleChange={onLifecycleChange}
         onOpenChange={handleBuilderOpenChange}
         onOwnerChange={onOwnerChange}
         onRuntimeChange={onRuntimeChange}
+        onTagChange={onTagChange}
+        runtimeOptions={runtimeOptions}
+        selectedCustomFields={custom}
         selectedEnv={env}
         selectedField={selectedBuilderField}
+        selectedLifecycle={lifecycle}
         selectedOwner={owner}
         selectedRuntime={runtime}
+        selectedTag={tag}
+        tagOptions={tagOptions}
         trigger={
           <Tooltip disableHoverableContent>
             <TooltipTrigger asChild>
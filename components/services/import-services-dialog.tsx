@@ -0,0 +1,585 @@
+/**
+ * Import Services Dialog
+ *
+ * Wizard registering services from a CSV or XLSX file, or from Backstage
+ * catalog-info.yaml entities: the file is read,
+ * its columns are mapped to service fields (or a saved mapping is applied),
+ * and a dry run shows what each row would do before anything is written.
+ * Services are then written in batches, and the rows held back or failed
+ * can be downloaded as a CSV report.
+ */
+
+"use client";
+
+import { CircleCheck, CircleMinus, CircleX, TriangleAlert } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { BulkEditResult } from "@/components/service-table/bulk-edit";
+import { exportServiceImportReport } from "@/components/service-table/export";
+import {
+  applySavedImportMapping,
+  applyServiceImportResults,
+  getUnmappedImportFields,
+  guessServiceImportMapping,
+  SERVICE_IMPORT_STATUS_LABELS,
+  type ServiceImportField,
+  type ServiceImportMapping,
+  type ServiceImportPlan,
+  type ServiceImportRowResult,
+  type ServiceImportStatus,
+  type StoredImportMapping,
+} from "@/components/service-table/service-import";
+import {
+  readSpreadsheetFile,
+  type SpreadsheetTable,
+} from "@/components/service-table/spreadsheet-reader";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ImportServicesDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Fields columns can be mapped to */
+  readonly fields: readonly ServiceImportField[];
+  /** Column mappings saved by the organization */
+  readonly mappings: readonly StoredImportMapping[];
+  /** Plans the import of a sheet without writing anything */
+  readonly onPlan: (
+    table: SpreadsheetTable,
+    mapping: ServiceImportMapping
+  ) => ServiceImportPlan;
+  /** Writes the planned services, reporting progress, and returns each outcome */
+  readonly onImport: (
+    plan: ServiceImportPlan,
+    onProgress: (completed: number, total: number) => void
+  ) => Promise<BulkEditResult[]>;
+  /** Saves a mapping, replacing the saved mapping of the same name */
+  readonly onSaveMapping: (
+    name: string,
+    mapping: ServiceImportMapping
+  ) => Promise<void>;
+  readonly onDeleteMapping: (mappingId: string) => Promise<void>;
+}
+
+type ImportPhase = "upload" | "map" | "preview" | "running" | "done";
+
+/**
+ * Select value of a field no column is mapped to
+ */
+const NOT_IMPORTED = "__not-imported__";
+
+const FILE_ACCEPT_TYPES = ".csv,.xlsx,.yaml,.yml,text/csv";
+
+const PHASE_DESCRIPTIONS: Record<ImportPhase, string> = {
+  upload:
+    "Register services from a CSV or XLSX file, one row per service or per interface, or from a Backstage catalog.",
+  map: "Choose the column holding each field. Empty cells keep the stored values.",
+  preview: "Nothing is saved yet. Rows held back are left out of the import.",
+  running: "Saving services...",
+  done: "The import is finished.",
+};
+
+/**
+ * Order of the statuses in the row lists, problems first
+ */
+const STATUS_ORDER: Record<ServiceImportStatus, number> = {
+  failed: 0,
+  conflict: 1,
+  error: 2,
+  create: 3,
+  update: 4,
+  unchanged: 5,
+};
+
+/**
+ * Pluralizes the service count: "1 service", "2 services"
+ */
+function formatServiceCount(count: number): string {
+  return `${count} ${count === 1 ? "service" : "services"}`;
+}
+
+/**
+ * Whether a row is held back or failed, and belongs in the error report
+ */
+function isProblemRow(row: ServiceImportRowResult): boolean {
+  return (
+    row.status === "conflict" ||
+    row.status === "error" ||
+    row.status === "failed"
+  );
+}
+
+/**
+ * Icon of a row outcome
+ */
+function RowStatusIcon({ status }: { readonly status: ServiceImportStatus }) {
+  switch (status) {
+    case "create":
+    case "update":
+      return <CircleCheck className="size-3.5 shrink-0 text-emerald-500" />;
+    case "conflict":
+      return <TriangleAlert className="size-3.5 shrink-0 text-amber-500" />;
+    case "unchanged":
+      return (
+        <CircleMinus className="size-3.5 shrink-0 text-muted-foreground" />
+      );
+    default:
+      return <CircleX className="size-3.5 shrink-0 text-destructive" />;
+  }
+}
+
+/**
+ * Row counts by status, then each row with its messages, problems first
+ */
+function ImportRowList({
+  rows,
+}: {
+  readonly rows: readonly ServiceImportRowResult[];
+}) {
+  const counts = Object.entries(SERVICE_IMPORT_STATUS_LABELS).flatMap(
+    ([status, label]) => {
+      const count = rows.filter((row) => row.status === status).length;
+      return count > 0 ? [`${label}: ${count}`] : [];
+    }
+  );
+  const sorted = [...rows].sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      a.rowNumber - b.rowNumber
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">{counts.join(" · ") || "No rows to import."}</p>
+      <ul className="max-h-[40vh] space-y-1 overflow-y-auto rounded-md border border-border/40 p-2">
+        {sorted.map((row) => (
+          <li className="flex items-start gap-2 text-xs" key={row.rowNumber}>
+            <RowStatusIcon status={row.status} />
+            <span className="shrink-0 text-muted-foreground tabular-nums">
+              Row {row.rowNumber}
+            </span>
+            <span className="font-mono">{row.serviceName || "—"}</span>
+            <span className="text-muted-foreground">
+              {row.messages.length > 0
+                ? row.messages.join("; ")
+                : SERVICE_IMPORT_STATUS_LABELS[row.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Saved mappings: applying one, deleting it, and saving the current mapping
+ * under a name
+ */
+function SavedMappings({
+  mapping,
+  mappings,
+  selectedId,
+  onDelete,
+  onSave,
+  onSelect,
+}: {
+  readonly mapping: ServiceImportMapping;
+  readonly mappings: readonly StoredImportMapping[];
+  readonly selectedId: string;
+  readonly onDelete: (mappingId: string) => Promise<void>;
+  readonly onSave: (
+    name: string,
+    mapping: ServiceImportMapping
+  ) => Promise<void>;
+  readonly onSelect: (mapping: StoredImportMapping) => void;
+}) {
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(name.trim(), mapping);
+      setName("");
+    } catch (error) {
+      console.error("Failed to save import mapping:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await onDelete(selectedId);
+    } catch (error) {
+      console.error("Failed to delete import mapping:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {mappings.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="import-saved-mapping">Saved mapping</Label>
+          <div className="flex gap-2">
+            <Select
+              onValueChange={(mappingId) => {
+                const saved = mappings.find((item) => item.id === mappingId);
+                if (saved) {
+                  onSelect(saved);
+                }
+              }}
+              value={selectedId || undefined}
+            >
+              <SelectTrigger className="w-full" id="import-saved-mapping">
+                <SelectValue placeholder="Choose a saved mapping" />
+              </SelectTrigger>
+              <SelectContent>
+                {mappings.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              disabled={!selectedId}
+              onClick={handleDelete}
+              variant="outline"
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="import-mapping-name">Save this mapping</Label>
+        <div className="flex gap-2">
+          <Input
+            id="import-mapping-name"
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Mapping name"
+            value={name}
+          />
+          <Button
+            disabled={!name.trim() || isSaving}
+            onClick={handleSave}
+            variant="outline"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Column picked for each field
+ */
+function ColumnMappingFields({
+  fields,
+  headers,
+  mapping,
+  onChange,
+}: {
+  readonly fields: readonly ServiceImportField[];
+  readonly headers: readonly string[];
+  readonly mapping: ServiceImportMapping;
+  readonly onChange: (mapping: ServiceImportMapping) => void;
+}) {
+  const handleChange = (key: string, header: string) => {
+    const others = Object.entries(mapping).filter(([other]) => other !== key);
+    onChange(
+      Object.fromEntries(
+        header === NOT_IMPORTED ? others : [...others, [key, header]]
+      )
+    );
+  };
+
+  return (
+    <div className="grid max-h-[40vh] grid-cols-2 gap-3 overflow-y-auto pr-1">
+      {fields.map((field) => (
+        <div className="space-y-1" key={field.key}>
+          <Label htmlFor={`import-field-${field.key}`}>
+            {field.label}
+            {field.required && <span className="text-destructive">*</span>}
+          </Label>
+          <Select
+            onValueChange={(header) => handleChange(field.key, header)}
+            value={mapping[field.key] ?? NOT_IMPORTED}
+          >
+            <SelectTrigger className="w-full" id={`import-field-${field.key}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+              {headers.filter(Boolean).map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Dialog importing services from a spreadsheet
+ */
+export function ImportServicesDialog({
+  open,
+  onOpenChange,
+  fields,
+  mappings,
+  onPlan,
+  onImport,
+  onSaveMapping,
+  onDeleteMapping,
+}: ImportServicesDialogProps) {
+  const [phase, setPhase] = useState<ImportPhase>("upload");
+  const [fileName, setFileName] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [mapping, setMapping] = useState<ServiceImportMapping>({});
+  const [savedMappingId, setSavedMappingId] = useState("");
+  const [plan, setPlan] = useState<ServiceImportPlan | null>(null);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [rows, setRows] = useState<readonly ServiceImportRowResult[]>([]);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setPhase("upload");
+      setFileName("");
+      setFileError(null);
+      setTable(null);
+      setMapping({});
+      setSavedMappingId("");
+      setPlan(null);
+      setProgress({ completed: 0, total: 0 });
+      setRows([]);
+    }
+  }, [open]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Writes can't be interrupted once started
+    if (phase !== "running") {
+      onOpenChange(nextOpen);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setFileError(null);
+    try {
+      const sheet = await readSpreadsheetFile(file);
+      if (sheet.rows.length === 0) {
+        setFileError("The file has no rows below its header");
+        return;
+      }
+      setFileName(file.name);
+      setTable(sheet);
+      setMapping(guessServiceImportMapping(sheet.headers, fields));
+      setSavedMappingId("");
+      setPhase("map");
+    } catch (error) {
+      console.error("Failed to read import file:", error);
+      setFileError(
+        error instanceof Error ? error.message : "Failed to read the file"
+      );
+    }
+  };
+
+  const handleSelectMapping = (saved: StoredImportMapping) => {
+    if (table) {
+      setMapping(applySavedImportMapping(saved.columns, table.headers, fields));
+      setSavedMappingId(saved.id);
+    }
+  };
+
+  const handleDeleteMapping = async (mappingId: string) => {
+    await onDeleteMapping(mappingId);
+    setSavedMappingId("");
+  };
+
+  const handlePreview = () => {
+    if (table) {
+      const nextPlan = onPlan(table, mapping);
+      setPlan(nextPlan);
+      setRows(nextPlan.rows);
+      setPhase("preview");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || phase !== "preview") {
+      return;
+    }
+    setPhase("running");
+    setProgress({ completed: 0, total: plan.writes.length });
+    let results: BulkEditResult[];
+    try {
+      results = await onImport(plan, (completed, total) =>
+        setProgress({ completed, total })
+      );
+    } catch (error) {
+      console.error("Failed to import services:", error);
+      results = plan.writes.map((write) => ({
+        serviceId: write.serviceId,
+        serviceName: write.serviceName,
+        status: "failed",
+        message: "Failed to save changes",
+      }));
+    }
+    const failures = new Map(
+      results
+        .filter((result) => result.status === "failed")
+        .map((result) => [
+          result.serviceName,
+          result.message ?? "Failed to save changes",
+        ])
+    );
+    setRows(applyServiceImportResults(plan.rows, failures));
+    setPhase("done");
+  };
+
+  const unmapped = getUnmappedImportFields(mapping, fields);
+  const writeCount = plan?.writes.length ?? 0;
+  const hasProblems = rows.some(isProblemRow);
+  const percent =
+    progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+
+  return (
+    <Dialog onOpenChange={handleOpenChange} open={open}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            Import services{fileName ? ` from ${fileName}` : ""}
+          </DialogTitle>
+          <DialogDescription>{PHASE_DESCRIPTIONS[phase]}</DialogDescription>
+        </DialogHeader>
+
+        {phase === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              accept={FILE_ACCEPT_TYPES}
+              id="import-file"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              type="file"
+            />
+            {fileError && (
+              <p className="text-destructive text-xs" role="alert">
+                {fileError}
+              </p>
+            )}
+            <p className="text-muted-foreground text-xs">
+              The first row holds the column headers. A services export or a
+              Backstage catalog-info.yaml can be imported as it is.
+            </p>
+          </div>
+        )}
+
+        {phase === "map" && table && (
+          <div className="space-y-4">
+            <SavedMappings
+              mapping={mapping}
+              mappings={mappings}
+              onDelete={handleDeleteMapping}
+              onSave={onSaveMapping}
+              onSelect={handleSelectMapping}
+              selectedId={savedMappingId}
+            />
+            <ColumnMappingFields
+              fields={fields}
+              headers={table.headers}
+              mapping={mapping}
+              onChange={setMapping}
+            />
+            {unmapped.length > 0 && (
+              <p className="text-destructive text-xs">
+                Map a column to{" "}
+                {unmapped.map((field) => field.label).join(", ")}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {(phase === "preview" || phase === "done") && (
+          <ImportRowList rows={rows} />
+        )}
+
+        {phase === "running" && (
+          <div className="space-y-2">
+            <Progress value={percent} />
+            <p aria-live="polite" className="text-muted-foreground text-xs">
+              Saved {progress.completed} of {progress.total}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {(phase === "preview" || phase === "done") && hasProblems && (
+            <Button
+              className="sm:mr-auto"
+              onClick={() => exportServiceImportReport(rows, fileName)}
+              variant="ghost"
+            >
+              Download error report
+            </Button>
+          )}
+          {phase === "map" && (
+            <>
+              <Button onClick={() => setPhase("upload")} variant="outline">
+                Back
+              </Button>
+              <Button disabled={unmapped.length > 0} onClick={handlePreview}>
+                Preview
+              </Button>
+            </>
+          )}
+          {phase === "preview" && (
+            <>
+              <Button onClick={() => setPhase("map")} variant="outline">
+                Back
+              </Button>
+              <Button disabled={writeCount === 0} onClick={handleImport}>
+                Import {formatServiceCount(writeCount)}
+              </Button>
+            </>
+          )}
+          {phase === "upload" && (
+            <Button onClick={() => onOpenChange(false)} variant="outline">
+              Cancel
+            </Button>
+          )}
+          {phase === "done" && (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
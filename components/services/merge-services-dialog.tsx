@@ -0,0 +1,320 @@
+/**
+ * Merge Services Dialog
+ *
+ * Merges two services suspected to be duplicates: picks the service to keep,
+ * which of the two values each field keeps, and previews what moves over
+ * before the duplicate is moved to the trash.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_MERGE_CHOICES,
+  formatMergeFieldValue,
+  MERGE_FIELDS,
+  type MergeField,
+  type MergeFieldChoices,
+  type MergeServiceRecord,
+  type MergeSide,
+  planServiceMerge,
+  type ServiceMergePlan,
+} from "@/components/service-table/service-merge";
+import { createServiceSnapshot } from "@/components/service-table/service-revisions";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+interface MergeServicesDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Services to merge; the first one is kept unless changed */
+  readonly pair: readonly [MergeServiceRecord, MergeServiceRecord] | null;
+  /** Active services of the organization, to repoint their dependencies */
+  readonly services: readonly MergeServiceRecord[];
+  readonly onConfirm: (
+    survivor: MergeServiceRecord,
+    duplicate: MergeServiceRecord,
+    plan: ServiceMergePlan
+  ) => Promise<void>;
+}
+
+/**
+ * Pluralizes a count: "1 interface", "2 interfaces"
+ */
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Radio choice between the two values of a field
+ */
+function MergeFieldChoice({
+  field,
+  label,
+  survivorValue,
+  duplicateValue,
+  value,
+  onChange,
+}: {
+  readonly field: MergeField;
+  readonly label: string;
+  readonly survivorValue: string;
+  readonly duplicateValue: string;
+  readonly value: MergeSide;
+  readonly onChange: (field: MergeField, side: MergeSide) => void;
+}) {
+  const options: ReadonlyArray<{ side: MergeSide; text: string }> = [
+    { side: "survivor", text: survivorValue },
+    { side: "duplicate", text: duplicateValue },
+  ];
+
+  return (
+    <div className="grid grid-cols-[110px_1fr] gap-3 text-xs">
+      <span className="pt-0.5 text-muted-foreground">{label}</span>
+      <RadioGroup
+        className="gap-1.5"
+        onValueChange={(next) => onChange(field, next as MergeSide)}
+        value={value}
+      >
+        {options.map((option) => (
+          <div className="flex min-w-0 items-center gap-2" key={option.side}>
+            <RadioGroupItem
+              id={`merge-${field}-${option.side}`}
+              value={option.side}
+            />
+            <Label
+              className="min-w-0 truncate font-mono font-normal text-xs"
+              htmlFor={`merge-${field}-${option.side}`}
+              title={option.text}
+            >
+              {option.text}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
+
+/**
+ * What the merge moves, repoints and combines
+ */
+function MergeSummary({
+  plan,
+  survivorName,
+  duplicateName,
+}: {
+  readonly plan: ServiceMergePlan;
+  readonly survivorName: string;
+  readonly duplicateName: string;
+}) {
+  const repointed = plan.dependents.filter(
+    (dependent) => dependent.action === "repoint"
+  ).length;
+  const removed = plan.dependents.length - repointed;
+
+  return (
+    <ul className="list-disc space-y-0.5 pl-4 text-muted-foreground text-xs">
+      <li>
+        {formatCount(plan.movedInterfaceIds.length, "interface")} and{" "}
+        {formatCount(plan.movedDependencyIds.length, "dependency")} move to{" "}
+        <span className="font-mono text-foreground">{survivorName}</span>.
+        Interfaces serving the same domain and environment are not copied.
+      </li>
+      <li>
+        {formatCount(repointed, "dependent")} will depend on{" "}
+        <span className="font-mono text-foreground">{survivorName}</span>
+        {removed > 0 &&
+          `; ${removed} already ${removed === 1 ? "does" : "do"} and ${removed === 1 ? "its" : "their"} dependency on the duplicate is removed`}
+        .
+      </li>
+      {plan.replacedServiceIds.length > 0 && (
+        <li>
+          {formatCount(plan.replacedServiceIds.length, "service")} replaced by
+          the duplicate will be replaced by{" "}
+          <span className="font-mono text-foreground">{survivorName}</span>.
+        </li>
+      )}
+      <li>Languages, tags, tech stack and links of both services are kept.</li>
+      <li>
+        <span className="font-mono text-foreground">{duplicateName}</span> is
+        moved to the trash.
+      </li>
+    </ul>
+  );
+}
+
+/**
+ * Dialog choosing how two services are merged
+ */
+export function MergeServicesDialog({
+  open,
+  onOpenChange,
+  pair,
+  services,
+  onConfirm,
+}: MergeServicesDialogProps) {
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<MergeFieldChoices>(
+    DEFAULT_MERGE_CHOICES
+  );
+  const [isMerging, setIsMerging] = useState(false);
+
+  // Reset the choices each time the dialog opens
+  useEffect(() => {
+    if (open && pair) {
+      setSurvivorId(pair[0].id);
+      setChoices(DEFAULT_MERGE_CHOICES);
+    }
+  }, [open, pair]);
+
+  const survivor =
+    pair?.find((service) => service.id === survivorId) ?? pair?.[0] ?? null;
+  const duplicate =
+    pair?.find((service) => service.id !== survivor?.id) ?? null;
+
+  const snapshots = useMemo(
+    () =>
+      survivor && duplicate
+        ? {
+            survivor: createServiceSnapshot(survivor),
+            duplicate: createServiceSnapshot(duplicate),
+          }
+        : null,
+    [survivor, duplicate]
+  );
+
+  const plan = useMemo(
+    () =>
+      survivor && duplicate
+        ? planServiceMerge(survivor, duplicate, choices, services)
+        : null,
+    [survivor, duplicate, choices, services]
+  );
+
+  const handleSurvivorChange = (nextId: string) => {
+    // Field choices follow the services, not the sides
+    if (nextId !== survivor?.id) {
+      setChoices(
+        (prev) =>
+          Object.fromEntries(
+            Object.entries(prev).map(([field, side]) => [
+              field,
+              side === "survivor" ? "duplicate" : "survivor",
+            ])
+          ) as MergeFieldChoices
+      );
+    }
+    setSurvivorId(nextId);
+  };
+
+  const handleChoiceChange = (field: MergeField, side: MergeSide) => {
+    setChoices((prev) => ({ ...prev, [field]: side }));
+  };
+
+  const handleConfirm = async () => {
+    if (!(survivor && duplicate && plan) || isMerging) {
+      return;
+    }
+    setIsMerging(true);
+    try {
+      await onConfirm(survivor, duplicate, plan);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to merge services:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Merge services</DialogTitle>
+          <DialogDescription>
+            Combine two registrations of the same service into one. Pick the
+            service to keep and the value each field keeps.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pair && survivor && duplicate && snapshots && plan && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            <div className="space-y-2">
+              <Label>Service to keep</Label>
+              <RadioGroup
+                className="gap-1.5"
+                onValueChange={handleSurvivorChange}
+                value={survivor.id}
+              >
+                {pair.map((service) => (
+                  <div className="flex items-center gap-2" key={service.id}>
+                    <RadioGroupItem
+                      id={`merge-keep-${service.id}`}
+                      value={service.id}
+                    />
+                    <Label
+                      className="font-mono font-normal text-sm"
+                      htmlFor={`merge-keep-${service.id}`}
+                    >
+                      {service.name}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3 rounded-md border border-border/40 p-3">
+              {MERGE_FIELDS.map((field) => (
+                <MergeFieldChoice
+                  duplicateValue={formatMergeFieldValue(
+                    snapshots.duplicate,
+                    field.value
+                  )}
+                  field={field.value}
+                  key={field.value}
+                  label={field.label}
+                  onChange={handleChoiceChange}
+                  survivorValue={formatMergeFieldValue(
+                    snapshots.survivor,
+                    field.value
+                  )}
+                  value={choices[field.value]}
+                />
+              ))}
+            </div>
+
+            <MergeSummary
+              duplicateName={duplicate.name}
+              plan={plan}
+              survivorName={plan.data.name}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            disabled={isMerging}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button disabled={!plan || isMerging} onClick={handleConfirm}>
+            {isMerging ? "Merging..." : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
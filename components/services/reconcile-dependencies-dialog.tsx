@@ -0,0 +1,113 @@
+/**
+ * Reconcile Dependencies Dialog
+ *
+ * Previews and applies the one-time reconciliation of legacy free-text
+ * dependencies: names matching a service in the organization become links,
+ * the rest are marked external.
+ */
+
+"use client";
+
+import { ArrowRight } from "lucide-react";
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import type { DependencyReconciliation } from "@/components/service-table/dependency-links";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+
+interface ReconcileDependenciesDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  readonly plan: readonly DependencyReconciliation[];
+  readonly onConfirm: () => Promise<void>;
+}
+
+/**
+ * Confirmation dialog listing how each unresolved dependency will be resolved
+ */
+export function ReconcileDependenciesDialog({
+  open,
+  onOpenChange,
+  plan,
+  onConfirm,
+}: ReconcileDependenciesDialogProps) {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const linkedCount = useMemo(
+    () => plan.filter((item) => item.target).length,
+    [plan]
+  );
+
+  const sortedPlan = useMemo(
+    () =>
+      [...plan].sort(
+        (a, b) =>
+          Number(Boolean(b.target)) - Number(Boolean(a.target)) ||
+          a.dependencyName.localeCompare(b.dependencyName)
+      ),
+    [plan]
+  );
+
+  const handleConfirm = useCallback(
+    async (event: React.MouseEvent) => {
+      // Keep the dialog open until the transaction settles
+      event.preventDefault();
+      setIsApplying(true);
+      try {
+        await onConfirm();
+        onOpenChange(false);
+      } catch (error) {
+        console.error("Failed to reconcile dependencies:", error);
+      } finally {
+        setIsApplying(false);
+      }
+    },
+    [onConfirm, onOpenChange]
+  );
+
+  return (
+    <AlertDialog onOpenChange={onOpenChange} open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reconcile dependencies</AlertDialogTitle>
+          <AlertDialogDescription>
+            {linkedCount} of {plan.length} free-text dependencies match a
+            service and will be linked to it. The remaining{" "}
+            {plan.length - linkedCount} will be marked external.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="max-h-64 space-y-1 overflow-y-auto rounded-md border border-border/40 p-2">
+          {sortedPlan.map((item) => (
+            <li
+              className="flex items-center gap-2 font-mono text-xs"
+              key={item.dependencyId}
+            >
+              <span className="truncate">{item.dependencyName}</span>
+              <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+              {item.target ? (
+                <span className="truncate">{item.target.name}</span>
+              ) : (
+                <Badge variant="outline">External</Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isApplying}>Cancel</AlertDialogCancel>
+          <AlertDialogAction disabled={isApplying} onClick={handleConfirm}>
+            {isApplying ? "Reconciling..." : "Reconcile"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,751 @@
+/**
+ * Service Detail Component
+ *
+ * Read-only view of a single service: general fields, operational links,
+ * lifecycle, tags, tech stack (with end-of-life status per version), interfaces grouped by environment, declared dependencies (with warnings for
+ * those on deprecated or retired services), audit information (creator,
+ * updater and timestamps) and the revision history. The service can be
+ * downloaded as a Backstage catalog-info.yaml.
+ *
+ * Rendered by the /organization/[slug]/services/[serviceId] route, which
+ * resolves the organization and loads the service record.
+ */
+
+"use client";
+
+import { format } from "date-fns";
+import {
+  ArrowLeft,
+  Check,
+  Copy,
+  Download,
+  ExternalLink,
+  Radar,
+  TriangleAlert,
+} from "lucide-react";
+import Link from "next/link";
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import { getDependencyDisplayName } from "@/components/service-table/dependency-links";
+import {
+  type EnvironmentCatalog,
+  type ResolvedEnvironment,
+  resolveEnvironment,
+} from "@/components/service-table/environments";
+import { EolBadge } from "@/components/service-table/eol-badge";
+import {
+  getLifecycleFields,
+  getLifecycleLabel,
+  getLifecycleWarnings,
+  hasSunset,
+  type LifecycleFields,
+  type LifecycleWarning,
+  type ServiceReference,
+} from "@/components/service-table/lifecycle";
+import { LifecycleBadge } from "@/components/service-table/lifecycle-badge";
+import {
+  getRuntimeLabel,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
+import { ServiceLinkButtons } from "@/components/service-table/service-link-buttons";
+import { normalizeServiceLinks } from "@/components/service-table/service-links";
+import { TagPill } from "@/components/service-table/tag-pill";
+import { getServiceTags } from "@/components/service-table/tags";
+import {
+  formatTechStackEntry,
+  getEolInfo,
+  getTechStackKindLabel,
+  normalizeTechStack,
+  type TechStackEntry,
+} from "@/components/service-table/tech-stack";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ServiceRevisionHistory,
+  type ServiceRevisionRecord,
+} from "./service-revision-history";
+
+/**
+ * User reference as returned by the `creator`/`updater` links
+ */
+interface ServiceDetailUser {
+  readonly id: string;
+  readonly name?: string | null;
+  readonly email?: string | null;
+}
+
+/**
+ * Service record as loaded by the detail route
+ */
+export interface ServiceDetailRecord {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string | null;
+  readonly language?: string | null;
+  readonly owner: string;
+  readonly team?: {
+    readonly id: string;
+    readonly name: string;
+    readonly contactChannel?: string | null;
+  } | null;
+  readonly repository: string;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+  readonly tags?: ReadonlyArray<{
+    readonly id: string;
+    readonly name: string;
+    readonly color?: string | null;
+  }>;
+  readonly techStack?: unknown;
+  readonly links?: unknown;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly deletedAt?: Date | null;
+  readonly interfaces?: ReadonlyArray<{
+    readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch?: string | null;
+    readonly runtimeType?: string | null;
+    readonly runtimeId?: string | null;
+  }>;
+  readonly dependencies?: ReadonlyArray<{
+    readonly id: string;
+    readonly dependencyName: string;
+    readonly external?: boolean | null;
+    readonly target?: {
+      readonly id: string;
+      readonly name: string;
+      readonly lifecycle?: string | null;
+      readonly sunsetDate?: string | null;
+      readonly deletedAt?: Date | string | number | null;
+      readonly replacement?: ServiceReference | null;
+    } | null;
+  }>;
+  /** Dependencies of other services linked to this one */
+  readonly dependents?: ReadonlyArray<{
+    readonly id: string;
+    readonly service?: {
+      readonly id: string;
+      readonly name: string;
+      readonly deletedAt?: Date | string | number | null;
+    } | null;
+  }>;
+  readonly creator?: ServiceDetailUser | null;
+  readonly updater?: ServiceDetailUser | null;
+  readonly revisions?: readonly ServiceRevisionRecord[];
+}
+
+interface ServiceDetailProps {
+  readonly service: ServiceDetailRecord;
+  readonly servicesHref: string;
+  /** Environments of the organization, used to group interfaces */
+  readonly environmentCatalog: EnvironmentCatalog;
+  /** Runtime types of the organization, used to label interface runtimes */
+  readonly runtimeCatalog: RuntimeCatalog;
+  /** Blast radius page; the analysed service is passed as `subject` */
+  readonly impactHref?: string;
+  /** Download of the service as a Backstage catalog-info.yaml */
+  readonly catalogInfoHref?: string;
+  readonly canRestore?: boolean;
+  readonly onRestoreRevision?: (
+    revision: ServiceRevisionRecord
+  ) => Promise<void>;
+  /** Reasons a revision can't be restored, shown before restoring it */
+  readonly getRestoreErrors?: (
+    revision: ServiceRevisionRecord
+  ) => readonly string[];
+}
+
+type ServiceDetailInterface = NonNullable<
+  ServiceDetailRecord["interfaces"]
+>[number];
+
+interface InterfaceGroup {
+  readonly environment: ResolvedEnvironment;
+  readonly interfaces: readonly ServiceDetailInterface[];
+}
+
+/**
+ * Groups interfaces by environment, ordered by criticality.
+ * Unknown environments keep their stored value and are listed last.
+ */
+function groupInterfacesByEnvironment(
+  interfaces: readonly ServiceDetailInterface[],
+  catalog: EnvironmentCatalog
+): readonly InterfaceGroup[] {
+  const groups = new Map<string, InterfaceGroup>();
+
+  for (const iface of interfaces) {
+    const environment = resolveEnvironment(catalog, iface.env);
+    const group = groups.get(environment.key) ?? {
+      environment,
+      interfaces: [],
+    };
+    groups.set(environment.key, {
+      ...group,
+      interfaces: [...group.interfaces, iface],
+    });
+  }
+
+  return Array.from(groups.values())
+    .sort(
+      (a, b) =>
+        a.environment.rank - b.environment.rank ||
+        a.environment.key.localeCompare(b.environment.key)
+    )
+    .map((group) => ({
+      ...group,
+      interfaces: [...group.interfaces].sort((a, b) =>
+        a.domain.localeCompare(b.domain)
+      ),
+    }));
+}
+
+/**
+ * Parses the comma-separated language field
+ */
+function parseLanguages(language: string | null | undefined): string[] {
+  if (!language?.trim()) {
+    return [];
+  }
+  return language
+    .split(",")
+    .map((lang) => lang.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Formats a user reference for display
+ */
+function formatUser(user: ServiceDetailUser | null | undefined): string {
+  return user?.name?.trim() || user?.email?.trim() || "Unknown user";
+}
+
+/**
+ * Formats a timestamp for display
+ */
+function formatTimestamp(value: Date | string | number): string {
+  return format(new Date(value), "PPpp");
+}
+
+/**
+ * Titled section wrapper
+ */
+function DetailSection({
+  title,
+  count,
+  children,
+}: {
+  readonly title: string;
+  readonly count?: number;
+  readonly children: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-3 rounded-lg border border-border/40 bg-card p-4">
+      <h2 className="font-medium text-[11px] text-muted-foreground/70 uppercase tracking-wide">
+        {title}
+        {count !== undefined && ` (${count})`}
+      </h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Label/value row used in the general and audit sections
+ */
+function DetailField({
+  label,
+  children,
+}: {
+  readonly label: string;
+  readonly children: React.ReactNode;
+}) {
+  return (
+    <div className="grid grid-cols-[140px_1fr] items-start gap-3 text-sm">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="min-w-0 break-words">{children}</dd>
+    </div>
+  );
+}
+
+/**
+ * Placeholder for empty values
+ */
+function EmptyValue() {
+  return <span className="font-mono text-muted-foreground/40 text-xs">—</span>;
+}
+
+/**
+ * Lifecycle status, with the sunset date and replacement of deprecated and
+ * retired services
+ */
+function LifecycleDetail({
+  lifecycle,
+  servicesHref,
+}: {
+  readonly lifecycle: LifecycleFields;
+  readonly servicesHref: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <LifecycleBadge status={lifecycle.lifecycle} />
+      {hasSunset(lifecycle.lifecycle) && (
+        <span className="block text-muted-foreground text-xs">
+          Sunset {lifecycle.sunsetDate ?? "date not set"}
+          {lifecycle.replacement && (
+            <>
+              {" · replaced by "}
+              <Link
+                className="underline-offset-2 hover:underline"
+                href={`${servicesHref}/${lifecycle.replacement.id}`}
+              >
+                {lifecycle.replacement.name}
+              </Link>
+            </>
+          )}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Tech stack entries with the support status of their versions
+ */
+function TechStackDetail({
+  techStack,
+}: {
+  readonly techStack: readonly TechStackEntry[];
+}) {
+  const today = useMemo(() => new Date(), []);
+
+  if (techStack.length === 0) {
+    return <EmptyValue />;
+  }
+  return (
+    <ul className="space-y-1">
+      {techStack.map((entry) => (
+        <li
+          className="flex flex-wrap items-center gap-2"
+          key={`${entry.kind}:${entry.name}`}
+        >
+          <span className="font-mono text-xs">
+            {formatTechStackEntry(entry)}
+          </span>
+          <span className="text-muted-foreground text-xs">
+            {getTechStackKindLabel(entry.kind)}
+          </span>
+          {entry.version && <EolBadge info={getEolInfo(entry, today)} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Warns about dependencies on deprecated or retired services
+ */
+function LifecycleWarningsAlert({
+  warnings,
+}: {
+  readonly warnings: readonly LifecycleWarning[];
+}) {
+  return (
+    <Alert className="py-2">
+      <TriangleAlert className="h-3.5 w-3.5 text-amber-500" />
+      <AlertTitle className="text-xs">
+        Depends on {warnings.length === 1 ? "a service" : "services"} being
+        phased out
+      </AlertTitle>
+      <AlertDescription className="text-xs">
+        <ul className="space-y-0.5">
+          {warnings.map((warning) => (
+            <li key={warning.serviceId}>
+              <span className="font-medium font-mono">{warning.name}</span> is{" "}
+              {getLifecycleLabel(warning.lifecycle).toLowerCase()}
+              {warning.sunsetDate && `, sunset ${warning.sunsetDate}`}
+              {warning.replacementName
+                ? `. Move to ${warning.replacementName}.`
+                : "."}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+/**
+ * Full-page service detail view
+ */
+export function ServiceDetail({
+  service,
+  servicesHref,
+  environmentCatalog,
+  runtimeCatalog,
+  impactHref,
+  catalogInfoHref,
+  canRestore = false,
+  onRestoreRevision,
+  getRestoreErrors,
+}: ServiceDetailProps) {
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const languages = useMemo(
+    () => parseLanguages(service.language),
+    [service.language]
+  );
+
+  const interfaceGroups = useMemo(
+    () =>
+      groupInterfacesByEnvironment(
+        service.interfaces ?? [],
+        environmentCatalog
+      ),
+    [service.interfaces, environmentCatalog]
+  );
+
+  const dependencies = useMemo(
+    () =>
+      [...(service.dependencies ?? [])]
+        .map((dep) => ({ ...dep, name: getDependencyDisplayName(dep) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [service.dependencies]
+  );
+
+  const lifecycle = useMemo(() => getLifecycleFields(service), [service]);
+
+  const tags = useMemo(() => getServiceTags(service), [service]);
+
+  const techStack = useMemo(
+    () => normalizeTechStack(service.techStack),
+    [service.techStack]
+  );
+
+  const links = useMemo(
+    () => normalizeServiceLinks(service.links),
+    [service.links]
+  );
+
+  // Dependencies on deprecated or retired services, excluding the trash
+  const lifecycleWarnings = useMemo(
+    () =>
+      getLifecycleWarnings(
+        dependencies.map((dep) =>
+          dep.target && !dep.target.deletedAt ? dep.target : null
+        )
+      ),
+    [dependencies]
+  );
+
+  // Direct dependents; services in the trash no longer depend on anything
+  const dependents = useMemo(() => {
+    const byId = new Map<string, { id: string; name: string }>();
+    for (const dependent of service.dependents ?? []) {
+      if (dependent.service && !dependent.service.deletedAt) {
+        byId.set(dependent.service.id, dependent.service);
+      }
+    }
+    return Array.from(byId.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }, [service.dependents]);
+
+  const handleCopyLink = useCallback(() => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => {
+        setIsLinkCopied(true);
+        setTimeout(() => setIsLinkCopied(false), 2000);
+      })
+      .catch(() => {
+        // Ignore clipboard errors
+      });
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          <Link
+            className="inline-flex items-center gap-1 text-muted-foreground text-xs transition-colors hover:text-foreground"
+            href={servicesHref}
+          >
+            <ArrowLeft className="size-3" />
+            Services
+          </Link>
+          <h1 className="truncate font-semibold text-2xl tracking-tight">
+            {service.name}
+          </h1>
+          {service.description ? (
+            <p className="text-muted-foreground text-sm">
+              {service.description}
+            </p>
+          ) : (
+            <p className="text-muted-foreground/60 text-sm italic">
+              No description
+            </p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {catalogInfoHref && (
+            <Button asChild size="sm" variant="outline">
+              <a download href={catalogInfoHref}>
+                <Download className="mr-1.5 size-3.5" />
+                catalog-info.yaml
+              </a>
+            </Button>
+          )}
+          <Button
+            aria-label="Copy link to this service"
+            onClick={handleCopyLink}
+            size="sm"
+            variant="outline"
+          >
+            {isLinkCopied ? (
+              <Check className="mr-1.5 size-3.5" />
+            ) : (
+              <Copy className="mr-1.5 size-3.5" />
+            )}
+            {isLinkCopied ? "Copied" : "Copy link"}
+          </Button>
+        </div>
+      </div>
+
+      <DetailSection title="General">
+        <dl className="space-y-2">
+          <DetailField label="Team">
+            {service.team ? (
+              <>
+                {service.team.name}
+                {service.team.contactChannel && (
+                  <span className="block text-muted-foreground text-xs">
+                    {service.team.contactChannel}
+                  </span>
+                )}
+              </>
+            ) : (
+              <>
+                {service.owner}
+                <span className="block text-muted-foreground text-xs">
+                  Not linked to a team
+                </span>
+              </>
+            )}
+          </DetailField>
+          <DetailField label="Links">
+            {links.length > 0 ? (
+              <ServiceLinkButtons className="-ml-1.5 flex-wrap" links={links} />
+            ) : (
+              <EmptyValue />
+            )}
+          </DetailField>
+          <DetailField label="Lifecycle">
+            <LifecycleDetail
+              lifecycle={lifecycle}
+              servicesHref={servicesHref}
+            />
+          </DetailField>
+          <DetailField label="Repository">
+            {service.repository ? (
+              <a
+                className="inline-flex items-center gap-1 font-mono text-xs underline-offset-2 hover:underline"
+                href={service.repository}
+                rel="noopener noreferrer"
+                target="_blank"
+              >
+                {service.repository}
+                <ExternalLink className="size-3 shrink-0" />
+              </a>
+            ) : (
+              <EmptyValue />
+            )}
+          </DetailField>
+          <DetailField label="Languages">
+            {languages.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {languages.map((lang) => (
+                  <Badge key={lang} variant="secondary">
+                    {lang}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <EmptyValue />
+            )}
+          </DetailField>
+          <DetailField label="Tags">
+            {tags.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <TagPill key={tag.id} tag={tag} />
+                ))}
+              </div>
+            ) : (
+              <EmptyValue />
+            )}
+          </DetailField>
+          <DetailField label="Tech stack">
+            <TechStackDetail techStack={techStack} />
+          </DetailField>
+        </dl>
+      </DetailSection>
+
+      <DetailSection count={service.interfaces?.length ?? 0} title="Interfaces">
+        {interfaceGroups.length === 0 ? (
+          <p className="text-muted-foreground text-xs">
+            No interfaces configured
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {interfaceGroups.map((group) => (
+              <div className="space-y-1.5" key={group.environment.key}>
+                <div className="flex items-center gap-1.5 px-1">
+                  {group.environment.color && (
+                    <span
+                      className="inline-flex size-2 shrink-0 rounded-full"
+                      style={{ backgroundColor: group.environment.color }}
+                    />
+                  )}
+                  <span className="font-mono text-[10px] text-muted-foreground/70 uppercase tracking-wide">
+                    {group.environment.label}
+                  </span>
+                </div>
+                <ul className="divide-y divide-border/40 rounded-md border border-border/40">
+                  {group.interfaces.map((iface) => (
+                    <li
+                      className="flex flex-col gap-0.5 px-3 py-2"
+                      key={iface.id}
+                    >
+                      <span className="truncate font-medium font-mono text-[12px]">
+                        {iface.domain}
+                      </span>
+                      <span className="flex flex-wrap gap-x-4 font-mono text-[11px] text-muted-foreground/70">
+                        <span>branch: {iface.branch || "—"}</span>
+                        <span>
+                          runtime:{" "}
+                          {iface.runtimeType
+                            ? getRuntimeLabel(runtimeCatalog, iface.runtimeType)
+                            : "—"}
+                          {iface.runtimeId ? ` · ${iface.runtimeId}` : ""}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </DetailSection>
+
+      <DetailSection count={dependencies.length} title="Dependencies">
+        {lifecycleWarnings.length > 0 && (
+          <LifecycleWarningsAlert warnings={lifecycleWarnings} />
+        )}
+        {dependencies.length === 0 ? (
+          <p className="text-muted-foreground text-xs">
+            No dependencies declared
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {dependencies.map((dep) =>
+              dep.target ? (
+                <Badge
+                  asChild
+                  className="font-mono"
+                  key={dep.id}
+                  variant="outline"
+                >
+                  <Link href={`${servicesHref}/${dep.target.id}`}>
+                    {dep.name}
+                  </Link>
+                </Badge>
+              ) : (
+                <Badge
+                  className="font-mono text-muted-foreground"
+                  key={dep.id}
+                  title={
+                    dep.external
+                      ? "External dependency"
+                      : "Not linked to a service"
+                  }
+                  variant="outline"
+                >
+                  {dep.name}
+                  {dep.external && (
+                    <span className="font-sans text-[10px] uppercase">
+                      external
+                    </span>
+                  )}
+                </Badge>
+              )
+            )}
+          </div>
+        )}
+      </DetailSection>
+
+      <DetailSection count={dependents.length} title="Used by">
+        {dependents.length === 0 ? (
+          <p className="text-muted-foreground text-xs">
+            No services depend on this service
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {dependents.map((dependent) => (
+              <Badge
+                asChild
+                className="font-mono"
+                key={dependent.id}
+                variant="outline"
+              >
+                <Link href={`${servicesHref}/${dependent.id}`}>
+                  {dependent.name}
+                </Link>
+              </Badge>
+            ))}
+          </div>
+        )}
+        {impactHref && dependents.length > 0 && (
+          <Link
+            className="inline-flex items-center gap-1 text-muted-foreground text-xs transition-colors hover:text-foreground"
+            href={`${impactHref}?subject=${encodeURIComponent(service.id)}`}
+          >
+            <Radar className="size-3" />
+            View blast radius
+          </Link>
+        )}
+      </DetailSection>
+
+      <DetailSection title="Audit">
+        <dl className="space-y-2">
+          <DetailField label="Created by">
+            {formatUser(service.creator)}
+          </DetailField>
+          <DetailField label="Created at">
+            {formatTimestamp(service.createdAt)}
+          </DetailField>
+          <DetailField label="Last updated by">
+            {formatUser(service.updater)}
+          </DetailField>
+          <DetailField label="Last updated at">
+            {formatTimestamp(service.updatedAt)}
+          </DetailField>
+        </dl>
+      </DetailSection>
+
+      <DetailSection count={service.revisions?.length ?? 0} title="History">
+        <ServiceRevisionHistory
+          canRestore={canRestore}
+          getRestoreErrors={getRestoreErrors}
+          onRestore={onRestoreRevision}
+          revisions={service.revisions ?? []}
+        />
+      </DetailSection>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * Service Revision History Component
+ *
+ * Timeline of a service's revisions, newest first. Each entry shows who made
+ * the change and when, the field-level diff against the preceding revision,
+ * and (for editors) a "Restore this revision" action.
+ */
+
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import {
+  diffServiceSnapshots,
+  type ServiceFieldChange,
+  type ServiceRevisionAction,
+  type ServiceSnapshot,
+} from "@/components/service-table/service-revisions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Revision record as loaded with its author
+ */
+export interface ServiceRevisionRecord {
+  readonly id: string;
+  readonly action: ServiceRevisionAction;
+  readonly createdAt: Date | string | number;
+  readonly snapshot: ServiceSnapshot;
+  readonly author?: {
+    readonly id: string;
+    readonly name?: string | null;
+    readonly email?: string | null;
+  } | null;
+}
+
+interface ServiceRevisionHistoryProps {
+  readonly revisions: readonly ServiceRevisionRecord[];
+  readonly canRestore: boolean;
+  readonly onRestore?: (revision: ServiceRevisionRecord) => Promise<void>;
+  /** Reasons a revision can't be restored into the current organization */
+  readonly getRestoreErrors?: (
+    revision: ServiceRevisionRecord
+  ) => readonly string[];
+}
+
+const ACTION_LABELS: Record<ServiceRevisionAction, string> = {
+  create: "Created",
+  update: "Updated",
+  merge: "Merged",
+  delete: "Moved to trash",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+/**
+ * Renders a single before/after change
+ */
+function FieldChange({ change }: { readonly change: ServiceFieldChange }) {
+  return (
+    <li className="grid grid-cols-[140px_1fr] gap-3 text-xs">
+      <span className="text-muted-foreground">{change.label}</span>
+      <span className="min-w-0 break-words font-mono">
+        {change.before !== null && (
+          <span className="text-destructive line-through decoration-destructive/50">
+            {change.before}
+          </span>
+        )}
+        {change.before !== null && change.after !== null && (
+          <span className="px-1.5 text-muted-foreground">→</span>
+        )}
+        {change.after !== null && (
+          <span className="text-emerald-600 dark:text-emerald-400">
+            {change.after}
+          </span>
+        )}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * Revision timeline with diffs and restore action
+ */
+export function ServiceRevisionHistory({
+  revisions,
+  canRestore,
+  onRestore,
+  getRestoreErrors,
+}: ServiceRevisionHistoryProps) {
+  const [pendingRestore, setPendingRestore] =
+    useState<ServiceRevisionRecord | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Newest first; each entry is diffed against the revision before it
+  const entries = useMemo(() => {
+    const chronological = [...revisions].sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    return chronological
+      .map((revision, index) => {
+        const previous = index > 0 ? chronological[index - 1].snapshot : null;
+        const next = revision.action === "purge" ? null : revision.snapshot;
+        // Services created before history was recorded have no baseline
+        const hasBaseline = previous !== null || revision.action === "create";
+        return {
+          revision,
+          changes: hasBaseline ? diffServiceSnapshots(previous, next) : [],
+          hasBaseline,
+          isCurrent: index === chronological.length - 1,
+        };
+      })
+      .reverse();
+  }, [revisions]);
+
+  const restoreErrors = useMemo(
+    () =>
+      pendingRestore && getRestoreErrors
+        ? getRestoreErrors(pendingRestore)
+        : [],
+    [pendingRestore, getRestoreErrors]
+  );
+
+  const handleRestoreConfirm = useCallback(async () => {
+    if (!(pendingRestore && onRestore) || restoreErrors.length > 0) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      await onRestore(pendingRestore);
+      setPendingRestore(null);
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [pendingRestore, onRestore, restoreErrors]);
+
+  if (entries.length === 0) {
+    return (
+      <p className="flex items-center gap-1.5 text-muted-foreground text-xs">
+        <History className="size-3.5" />
+        No revisions recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <ol className="space-y-3">
+        {entries.map(({ revision, changes, hasBaseline, isCurrent }) => (
+          <li
+            className="space-y-2 border-border/40 border-l-2 pl-3"
+            key={revision.id}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={isCurrent ? "default" : "secondary"}>
+                  {ACTION_LABELS[revision.action]}
+                </Badge>
+                <span className="font-medium">
+                  {revision.author?.name?.trim() ||
+                    revision.author?.email?.trim() ||
+                    "Unknown user"}
+                </span>
+                <time
+                  className="text-muted-foreground text-xs"
+                  dateTime={new Date(revision.createdAt).toISOString()}
+                  title={new Date(revision.createdAt).toLocaleString()}
+                >
+                  {formatDistanceToNow(new Date(revision.createdAt), {
+                    addSuffix: true,
+                  })}
+                </time>
+              </div>
+              {canRestore &&
+                onRestore &&
+                !isCurrent &&
+                revision.action !== "delete" &&
+                revision.action !== "purge" && (
+                  <Button
+                    onClick={() => setPendingRestore(revision)}
+                    size="sm"
+                    variant="ghost"
+                  >
+                    <RotateCcw className="mr-1.5 size-3.5" />
+                    Restore this revision
+                  </Button>
+                )}
+            </div>
+            {changes.length > 0 ? (
+              <ul className="space-y-1">
+                {changes.map((change) => (
+                  <FieldChange change={change} key={change.key} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground text-xs">
+                {hasBaseline
+                  ? "No field changes"
+                  : "Earliest recorded state of this service"}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingRestore(null);
+          }
+        }}
+        open={pendingRestore !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision</AlertDialogTitle>
+            <AlertDialogDescription>
+              The service, its interfaces and its dependencies will be reset to
+              this revision. The current state stays available in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {restoreErrors.length > 0 && (
+            <div className="space-y-1 text-sm" role="alert">
+              <p className="font-medium">
+                This revision can't be restored as it is:
+              </p>
+              <ul className="list-disc space-y-0.5 pl-5 text-destructive">
+                {restoreErrors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isRestoring || restoreErrors.length > 0}
+              onClick={handleRestoreConfirm}
+            >
+              {isRestoring ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * Service Trash Component
+ *
+ * Lists an organization's soft-deleted services with who deleted them, when,
+ * and how long until they are purged automatically. Admins and owners can
+ * restore or permanently purge services and configure the retention period.
+ */
+
+"use client";
+
+import { format } from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import { getServiceOwnerName } from "@/components/service-table/team-links";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getDaysUntilPurge, TRASH_RETENTION_OPTIONS } from "@/lib/trash";
+
+/**
+ * Deleted service as loaded by the trash route
+ */
+export interface TrashedService {
+  readonly id: string;
+  readonly name: string;
+  readonly owner: string;
+  readonly team?: { readonly name: string } | null;
+  readonly deletedAt: Date | string | number;
+  readonly deleter?: {
+    readonly id: string;
+    readonly name?: string | null;
+    readonly email?: string | null;
+  } | null;
+}
+
+interface ServiceTrashProps {
+  readonly services: readonly TrashedService[];
+  readonly activeServiceNames: readonly string[];
+  readonly retentionDays: number;
+  readonly canAdminister: boolean;
+  readonly onRestore: (service: TrashedService) => Promise<void>;
+  readonly onPurge: (service: TrashedService) => Promise<void>;
+  readonly onRetentionChange: (days: number) => Promise<void>;
+}
+
+/**
+ * Trash bin listing with restore/purge actions
+ */
+export function ServiceTrash({
+  services,
+  activeServiceNames,
+  retentionDays,
+  canAdminister,
+  onRestore,
+  onPurge,
+  onRetentionChange,
+}: ServiceTrashProps) {
+  const [pendingPurge, setPendingPurge] = useState<TrashedService | null>(null);
+  const [busyServiceId, setBusyServiceId] = useState<string | null>(null);
+
+  // Restoring would create a duplicate name; the active service wins
+  const activeNames = useMemo(
+    () => new Set(activeServiceNames.map((name) => name.toLowerCase())),
+    [activeServiceNames]
+  );
+
+  const sortedServices = useMemo(
+    () =>
+      [...services].sort(
+        (a, b) =>
+          new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+      ),
+    [services]
+  );
+
+  const runAction = useCallback(
+    async (
+      service: TrashedService,
+      action: (service: TrashedService) => Promise<void>
+    ) => {
+      setBusyServiceId(service.id);
+      try {
+        await action(service);
+      } catch (error) {
+        console.error("Failed to update trashed service:", error);
+      } finally {
+        setBusyServiceId(null);
+      }
+    },
+    []
+  );
+
+  const handlePurgeConfirm = useCallback(async () => {
+    if (!pendingPurge) {
+      return;
+    }
+    const service = pendingPurge;
+    setPendingPurge(null);
+    await runAction(service, onPurge);
+  }, [pendingPurge, onPurge, runAction]);
+
+  const handleRetentionChange = useCallback(
+    (value: string) => {
+      onRetentionChange(Number(value)).catch((error) => {
+        console.error("Failed to update trash retention:", error);
+      });
+    },
+    [onRetentionChange]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          Deleted services are purged permanently {retentionDays} days after
+          deletion.
+          {!canAdminister &&
+            " Only admins and owners can restore or purge services."}
+        </p>
+        {canAdminister && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Retention</span>
+            <Select
+              onValueChange={handleRetentionChange}
+              value={String(retentionDays)}
+            >
+              <SelectTrigger className="w-[110px]" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {sortedServices.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Trash2 className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>Trash is empty</EmptyTitle>
+            <EmptyDescription>
+              Deleted services appear here until they are restored or purged.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Team</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Purged in</TableHead>
+                {canAdminister && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedServices.map((service) => {
+                const hasNameConflict = activeNames.has(
+                  service.name.toLowerCase()
+                );
+                const isBusy = busyServiceId === service.id;
+                const daysLeft = getDaysUntilPurge(
+                  service.deletedAt,
+                  retentionDays
+                );
+                return (
+                  <TableRow key={service.id}>
+                    <TableCell className="font-medium">
+                      {service.name}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getServiceOwnerName(service)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {format(new Date(service.deletedAt), "PPp")}
+                      <span className="block">
+                        by{" "}
+                        {service.deleter?.name?.trim() ||
+                          service.deleter?.email?.trim() ||
+                          "Unknown user"}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {daysLeft === 0
+                        ? "Next purge run"
+                        : `${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                    </TableCell>
+                    {canAdminister && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            disabled={isBusy || hasNameConflict}
+                            onClick={() => runAction(service, onRestore)}
+                            size="sm"
+                            title={
+                              hasNameConflict
+                                ? `A service named "${service.name}" already exists`
+                                : undefined
+                            }
+                            variant="ghost"
+                          >
+                            <RotateCcw className="mr-1.5 size-3.5" />
+                            Restore
+                          </Button>
+                          <Button
+                            className="text-destructive hover:text-destructive"
+                            disabled={isBusy}
+                            onClick={() => setPendingPurge(service)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Trash2 className="mr-1.5 size-3.5" />
+                            Purge
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingPurge(null);
+          }
+        }}
+        open={pendingPurge !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge service</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingPurge?.name}" and all its interfaces and dependencies
+              will be deleted permanently. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handlePurgeConfirm}
+            >
+              Purge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
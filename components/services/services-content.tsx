@@ -9,6 +9,7 @@
  * - Render search bar and filter controls
  * - Filter and display services based on query state
  * - Handle service CRUD operations
+ * - Run bulk actions on the services selected in the table
  *
  * This component is separated from the page to allow proper Suspense boundaries
  * around dynamic rendering caused by useSearchParams().
@@ -17,18 +18,43 @@
 "use client";
 
 import { Package, Plus } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ServiceTable } from "@/components/service-table";
+import {
+  type BulkEditResult,
+  planBulkEdit,
+  runBulkWrites,
+  type ServiceBulkAction,
+  type ServiceBulkOperation,
+} from "@/components/service-table/bulk-edit";
 import { CreateServiceDrawer } from "@/components/service-table/create-service-drawer";
+import type {
+  CustomFieldDefinition,
+  CustomFieldValues,
+} from "@/components/service-table/custom-fields";
+import { buildServiceDependencyAdjacency } from "@/components/service-table/dependency-cycles";
 import { deriveVisibleServices } from "@/components/service-table/derive-visible-services";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
+import {
+  createDuplicatePrefill,
+  type ServicePrefill,
+  type StoredServiceTemplate,
+} from "@/components/service-table/service-templates";
 import {
+  createBulkEditTransactions,
+  createDeleteServiceTransactions,
   createNewServiceTransactions,
   createUpdateServiceTransactions,
 } from "@/components/service-table/service-transactions";
+import type { StoredTag } from "@/components/service-table/tags";
+import type { TeamOption } from "@/components/service-table/team-links";
 import type {
   CreateServiceFormData,
   GroupedService,
 } from "@/components/service-table/types";
+import { BulkEditDialog } from "@/components/services/bulk-edit-dialog";
 import { FilterChipsRow } from "@/components/services/filter-chips-row";
 import { Button } from "@/components/ui/button";
 import {
@@ -41,14 +67,32 @@ import {
 } from "@/components/ui/empty";
 import { useServicesQueryState } from "@/hooks/use-services-query-state";
 import { db } from "@/lib/db";
+import { getCustomFieldFilters } from "@/lib/filter-utils";
+import type { FilterValueOption } from "@/types/filters";
 
 interface RawService {
   readonly id: string;
+  readonly name: string;
+  readonly description?: string | null;
+  readonly language?: string | null;
+  readonly owner: string;
+  readonly team?: { readonly id: string; readonly name: string } | null;
+  readonly repository: string;
+  readonly customFields?: CustomFieldValues | null;
+  readonly tags?: ReadonlyArray<{ readonly id: string; readonly name: string }>;
   readonly interfaces?: Array<{
     readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch: string | null;
+    readonly runtimeType: string | null;
+    readonly runtimeId: string | null;
   }>;
   readonly dependencies?: Array<{
     readonly id: string;
+    readonly dependencyName: string;
+    readonly external?: boolean | null;
+    readonly target?: { readonly id: string; readonly name: string } | null;
   }>;
 }
 
@@ -56,11 +100,24 @@ interface ServicesContentProps {
   readonly userId: string;
   readonly organizationIds: readonly string[];
   readonly canCreate: boolean;
+  /** Whether the user may move services to the trash (admins and owners) */
+  readonly canDelete: boolean;
   readonly groupedServices: readonly GroupedService[];
   readonly rawServices: readonly RawService[];
   readonly existingServiceNames: readonly string[];
-  readonly availableRuntimes: readonly string[];
   readonly availableOwners: readonly string[];
+  readonly availableTeams: readonly TeamOption[];
+  /** Tags of the organization, offered in the form */
+  readonly availableTags: readonly StoredTag[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly environmentOptions: readonly FilterValueOption[];
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly runtimeOptions: readonly FilterValueOption[];
+  readonly tagOptions: readonly FilterValueOption[];
+  /** Custom fields of the organization, in display order */
+  readonly customFields: readonly CustomFieldDefinition[];
+  /** Service templates of the organization, offered in the form */
+  readonly templates: readonly StoredServiceTemplate[];
   readonly createServiceTrigger: number;
   readonly onDrawerOpenChange?: (open: boolean) => void;
 }
@@ -99,11 +156,20 @@ export function ServicesContent({
   userId,
   organizationIds,
   canCreate,
+  canDelete,
   groupedServices,
   rawServices,
   existingServiceNames,
-  availableRuntimes,
   availableOwners,
+  availableTeams,
+  availableTags,
+  environmentCatalog,
+  environmentOptions,
+  runtimeCatalog,
+  runtimeOptions,
+  tagOptions,
+  customFields,
+  templates,
   createServiceTrigger,
   onDrawerOpenChange,
 }: ServicesContentProps) {
@@ -111,12 +177,21 @@ export function ServicesContent({
   const [editingService, setEditingService] = useState<GroupedService | null>(
     null
   );
+  const [prefill, setPrefill] = useState<ServicePrefill | null>(null);
+  const [bulkAction, setBulkAction] = useState<ServiceBulkAction | null>(null);
+  const [bulkServices, setBulkServices] = useState<readonly GroupedService[]>(
+    []
+  );
   const previousFocusRef = useRef<HTMLElement | null>(null);
+  const router = useRouter();
+  const params = useParams<{ slug: string }>();
+  const slug = params.slug;
 
   // Open drawer when create service is triggered from toolbar
   useEffect(() => {
     if (createServiceTrigger > 0 && canCreate) {
       setEditingService(null);
+      setPrefill(null);
       setIsDrawerOpen(true);
     }
   }, [createServiceTrigger, canCreate]);
@@ -130,6 +205,11 @@ export function ServicesContent({
     [groupedServices, queryState]
   );
 
+  const customFieldFilters = useMemo(
+    () => getCustomFieldFilters(customFields, groupedServices),
+    [customFields, groupedServices]
+  );
+
   const hasServices = groupedServices.length > 0;
   const hasFilteredServices = visibleServices.length > 0;
 
@@ -139,10 +219,20 @@ export function ServicesContent({
       previousFocusRef.current =
         (document.activeElement as HTMLElement) || null;
       setEditingService(null);
+      setPrefill(null);
       setIsDrawerOpen(true);
     }
   }, [canCreate]);
 
+  const handleViewService = useCallback(
+    (service: GroupedService) => {
+      router.push(
+        `/organization/${encodeURIComponent(slug)}/services/${service.id}`
+      );
+    },
+    [router, slug]
+  );
+
   const handleEditService = useCallback(
     (service: GroupedService) => {
       if (canCreate) {
@@ -156,21 +246,121 @@ export function ServicesContent({
     [canCreate]
   );
 
+  const handleDuplicateService = useCallback(
+    (service: GroupedService) => {
+      if (canCreate) {
+        previousFocusRef.current =
+          (document.activeElement as HTMLElement) || null;
+        setEditingService(null);
+        setPrefill(
+          createDuplicatePrefill(service, existingServiceNames, rawServices)
+        );
+        setIsDrawerOpen(true);
+      }
+    },
+    [canCreate, existingServiceNames, rawServices]
+  );
+
   const handleDeleteService = useCallback(
     async (service: GroupedService) => {
-      if (!userId) {
+      if (!userId || organizationIds.length === 0) {
+        return;
+      }
+
+      const existingService = rawServices.find((s) => s.id === service.id);
+      if (!existingService) {
+        console.error("Service not found for deletion");
         return;
       }
 
       try {
-        // Delete service - cascades to interfaces and dependencies
-        await db.transact([db.tx.services[service.id].delete()]);
+        await db.transact(
+          createDeleteServiceTransactions(
+            db,
+            existingService,
+            organizationIds[0],
+            userId
+          )
+        );
       } catch (error) {
         console.error("Failed to delete service:", error);
         // TODO: Show error toast
       }
     },
-    [userId]
+    [userId, organizationIds, rawServices]
+  );
+
+  const handleBulkAction = useCallback(
+    (action: ServiceBulkAction, services: readonly GroupedService[]) => {
+      // Same rules as a single service: editors edit, admins delete
+      if (action === "delete" ? canDelete : canCreate) {
+        setBulkServices(services);
+        setBulkAction(action);
+      }
+    },
+    [canCreate, canDelete]
+  );
+
+  const handleBulkDialogOpenChange = useCallback((open: boolean) => {
+    if (!open) {
+      setBulkAction(null);
+    }
+  }, []);
+
+  const handleBulkRun = useCallback(
+    (
+      operation: ServiceBulkOperation,
+      onProgress: (completed: number, total: number) => void
+    ): Promise<BulkEditResult[]> => {
+      if (!userId || organizationIds.length === 0) {
+        return Promise.resolve([]);
+      }
+
+      const organizationId = organizationIds[0];
+      const selectedIds = new Set(bulkServices.map((service) => service.id));
+      const selected = rawServices.filter((service) =>
+        selectedIds.has(service.id)
+      );
+      const transact = (chunks: Parameters<typeof db.transact>[0]) =>
+        db.transact(chunks);
+
+      if (operation.kind === "delete") {
+        return runBulkWrites(
+          selected.map((service) => ({
+            serviceId: service.id,
+            serviceName: service.name,
+            transactions: createDeleteServiceTransactions(
+              db,
+              service,
+              organizationId,
+              userId
+            ),
+          })),
+          transact,
+          onProgress
+        );
+      }
+
+      const plan = planBulkEdit(selected, operation, {
+        services: rawServices,
+        adjacency: buildServiceDependencyAdjacency(rawServices),
+      });
+      return runBulkWrites(
+        plan.updates.map((update) => ({
+          serviceId: update.service.id,
+          serviceName: update.service.name,
+          transactions: createBulkEditTransactions(
+            db,
+            update,
+            organizationId,
+            userId
+          ),
+        })),
+        transact,
+        onProgress
+      ).then((results) => [...results, ...plan.skipped]);
+    },
+    [userId, organizationIds, bulkServices, rawServices]
   );
 
   const handleServiceSubmit = useCallback(
@@ -196,6 +386,7 @@ export function ServicesContent({
           const transactions = createUpdateServiceTransactions(
             db,
             serviceId,
+            organizationId,
             userId,
             data,
             existingService
@@ -228,6 +419,7 @@ export function ServicesContent({
       onDrawerOpenChange?.(open);
       if (!open) {
         setEditingService(null);
+        setPrefill(null);
         // Restore focus to the previously focused element
         // Use setTimeout to ensure Sheet has fully closed and DOM has updated
         setTimeout(() => {
@@ -245,24 +437,39 @@ export function ServicesContent({
       {hasServices && (
         <FilterChipsRow
           availableOwners={availableOwners}
-          availableRuntimes={availableRuntimes}
+          custom={queryState.custom}
+          customFieldFilters={customFieldFilters}
           env={queryState.env}
+          environmentOptions={environmentOptions}
+          lifecycle={queryState.lifecycle}
           match={queryState.match}
           onClearFilters={queryState.clearFilters}
+          onCustomFieldChange={queryState.setCustomField}
           onEnvChange={queryState.setEnv}
+          onLifecycleChange={queryState.setLifecycle}
           onMatchChange={queryState.setMatch}
           onOwnerChange={queryState.setOwner}
           onRuntimeChange={queryState.setRuntime}
+          onTagChange={queryState.setTag}
           owner={queryState.owner}
           runtime={queryState.runtime}
+          runtimeOptions={runtimeOptions}
+          tag={queryState.tag}
+          tagOptions={tagOptions}
         />
       )}
 
       {/* Content Area */}
       {hasServices && hasFilteredServices && (
         <ServiceTable
+          canBulkDelete={canDelete}
+          canBulkEdit={canCreate}
+          customFields={customFields}
+          onBulkAction={handleBulkAction}
           onDelete={handleDeleteService}
+          onDuplicate={canCreate ? handleDuplicateService : undefined}
           onEdit={handleEditService}
+          onView={handleViewService}
           services={visibleServices}
           showHeader={false}
           yamlContent=""
@@ -272,9 +479,7 @@ export function ServicesContent({
       {hasServices &&
         !hasFilteredServices &&
         (queryState.q.trim().length > 0 ||
-          queryState.env.length > 0 ||
-          queryState.runtime.length > 0 ||
-          queryState.owner.length > 0) && (
+          queryState.activeFilterCount > 0) && (
           <Empty className="border-border/40">
             <EmptyHeader>
               <EmptyMedia variant="icon">
@@ -317,13 +522,29 @@ export function ServicesContent({
         </Empty>
       )}
 
+      <BulkEditDialog
+        action={bulkAction}
+        availableTeams={availableTeams}
+        onOpenChange={handleBulkDialogOpenChange}
+        onRun={handleBulkRun}
+        services={bulkServices}
+      />
+
       <CreateServiceDrawer
+        availableServices={rawServices}
+        availableTags={availableTags}
+        availableTeams={availableTeams}
         canCreate={canCreate}
+        customFields={customFields}
         editingService={editingService}
+        environmentCatalog={environmentCatalog}
         existingServiceNames={existingServiceNames}
         onOpenChange={handleDrawerOpenChange}
         onSubmit={handleServiceSubmit}
         open={isDrawerOpen}
+        prefill={prefill}
+        runtimeCatalog={runtimeCatalog}
+        templates={templates}
       />
     </>
   );
@@ -0,0 +1,154 @@
+/**
+ * Upcoming Sunsets
+ *
+ * Lists the deprecated services of an organization by sunset date, overdue
+ * ones first, with their replacement and the services still depending on
+ * them, so migrations can be chased before the date.
+ */
+
+"use client";
+
+import { CalendarClock, CircleCheck } from "lucide-react";
+import Link from "next/link";
+import { useMemo } from "react";
+import {
+  formatSunsetDistance,
+  getUpcomingSunsets,
+} from "@/components/service-table/lifecycle";
+import { getServiceOwnerName } from "@/components/service-table/team-links";
+import { Badge } from "@/components/ui/badge";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import type { ActiveServiceRecord } from "@/hooks/use-active-services";
+import { cn } from "@/lib/utils";
+
+interface UpcomingSunsetsProps {
+  readonly rawServices: readonly ActiveServiceRecord[];
+  readonly servicesHref: string;
+  /** Day the distances are counted from */
+  readonly today: Date;
+}
+
+/**
+ * Sunset list with links to the services involved
+ */
+export function UpcomingSunsets({
+  rawServices,
+  servicesHref,
+  today,
+}: UpcomingSunsetsProps) {
+  const sunsets = useMemo(
+    () => getUpcomingSunsets(rawServices, today),
+    [rawServices, today]
+  );
+
+  const ownersById = useMemo(
+    () =>
+      new Map(
+        rawServices.map((service) => [service.id, getServiceOwnerName(service)])
+      ),
+    [rawServices]
+  );
+
+  const overdueCount = sunsets.filter(
+    (sunset) => sunset.daysLeft !== null && sunset.daysLeft < 0
+  ).length;
+
+  if (sunsets.length === 0) {
+    return (
+      <Empty className="border-border/40 border-dashed">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <CircleCheck className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>No deprecated services</EmptyTitle>
+          <EmptyDescription>
+            Services marked as deprecated are listed here by sunset date.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        {sunsets.length === 1
+          ? "1 deprecated service"
+          : `${sunsets.length} deprecated services`}
+        {overdueCount > 0 && `, ${overdueCount} past their sunset date`}.
+        Services still depending on them need to move to the replacement first.
+      </p>
+
+      <ul className="space-y-2">
+        {sunsets.map((sunset) => {
+          const isOverdue = sunset.daysLeft !== null && sunset.daysLeft < 0;
+
+          return (
+            <li
+              className="space-y-2 rounded-lg border border-border/40 px-4 py-3"
+              key={sunset.id}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge
+                  className={cn(isOverdue && "border-destructive/40")}
+                  variant="outline"
+                >
+                  <CalendarClock
+                    className={cn(
+                      "mr-1 size-3",
+                      isOverdue && "text-destructive"
+                    )}
+                  />
+                  {formatSunsetDistance(sunset.daysLeft)}
+                </Badge>
+                <Link
+                  className="font-medium text-sm underline-offset-2 hover:underline"
+                  href={`${servicesHref}/${sunset.id}`}
+                >
+                  {sunset.name}
+                </Link>
+                <span className="text-muted-foreground text-xs">
+                  {ownersById.get(sunset.id)}
+                  {sunset.sunsetDate && ` · sunset ${sunset.sunsetDate}`}
+                  {sunset.replacementName &&
+                    ` · replaced by ${sunset.replacementName}`}
+                </span>
+              </div>
+              {sunset.dependents.length > 0 ? (
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-muted-foreground text-xs">
+                    {sunset.dependents.length === 1
+                      ? "1 dependent:"
+                      : `${sunset.dependents.length} dependents:`}
+                  </span>
+                  {sunset.dependents.map((dependent) => (
+                    <Badge
+                      asChild
+                      className="font-mono"
+                      key={dependent.id}
+                      variant="outline"
+                    >
+                      <Link href={`${servicesHref}/${dependent.id}`}>
+                        {dependent.name}
+                      </Link>
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground text-xs">
+                  No services depend on it anymore
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
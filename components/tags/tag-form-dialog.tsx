@@ -0,0 +1,197 @@
+/**
+ * Tag Form Dialog
+ *
+ * Creates or edits a tag of an organization: its name and colour. Services
+ * are linked to the tag, so a rename shows on every service using it.
+ */
+
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { TagPill } from "@/components/service-table/tag-pill";
+import {
+  normalizeTagName,
+  TAG_COLORS,
+  type TagDefinition,
+} from "@/components/service-table/tags";
+import { validateTag } from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface TagFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Tag being edited, or the prefilled values of a new one */
+  readonly initialValue: TagDefinition;
+  readonly isEditing: boolean;
+  /** Tags the name must not collide with */
+  readonly otherTags: readonly TagDefinition[];
+  readonly onSubmit: (definition: TagDefinition) => Promise<void>;
+}
+
+/**
+ * Dialog with the tag fields
+ */
+export function TagFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  isEditing,
+  otherTags,
+  onSubmit,
+}: TagFormDialogProps) {
+  const [values, setValues] = useState<TagDefinition>(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(initialValue);
+    }
+  }, [open, initialValue]);
+
+  const definition = useMemo(
+    () => ({
+      name: normalizeTagName(values.name),
+      color: values.color.trim(),
+    }),
+    [values]
+  );
+  const errors = useMemo(
+    () => validateTag(definition, otherTags),
+    [definition, otherTags]
+  );
+  const isFormValid = Object.keys(errors).length === 0;
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Create";
+  }, [isSubmitting, isEditing]);
+
+  const setField = (field: keyof TagDefinition, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(definition);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save tag:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit tag" : "New tag"}</DialogTitle>
+          <DialogDescription>
+            Tags label services for filtering and search. Renaming a tag renames
+            it on every service.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={values.name && errors.name ? "true" : "false"}
+              id="tag-name"
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="customer-facing"
+              value={values.name}
+            />
+            {values.name && errors.name && (
+              <p className="text-destructive text-xs">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tag-color">Colour</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {TAG_COLORS.map((color) => (
+                <button
+                  aria-label={`Use ${color}`}
+                  aria-pressed={values.color === color}
+                  className={cn(
+                    "size-6 rounded-full border border-border/40 transition-shadow",
+                    values.color === color &&
+                      "ring-2 ring-ring ring-offset-2 ring-offset-background"
+                  )}
+                  key={color}
+                  onClick={() => setField("color", color)}
+                  style={{ backgroundColor: color }}
+                  type="button"
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Pick colour"
+                className="h-9 w-12 shrink-0 p-1"
+                onChange={(e) => setField("color", e.target.value)}
+                type="color"
+                value={errors.color ? "#000000" : values.color}
+              />
+              <Input
+                aria-invalid={errors.color ? "true" : "false"}
+                className="font-mono"
+                id="tag-color"
+                onChange={(e) => setField("color", e.target.value)}
+                value={values.color}
+              />
+            </div>
+            {errors.color && (
+              <p className="text-destructive text-xs">{errors.color}</p>
+            )}
+          </div>
+
+          {definition.name && !errors.color && (
+            <div className="flex items-center gap-2 text-muted-foreground text-xs">
+              Preview
+              <TagPill tag={definition} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
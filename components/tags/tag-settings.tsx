@@ -0,0 +1,255 @@
+/**
+ * Tag Settings
+ *
+ * Lists the tags of an organization with the number of services using
+ * them. Admins and owners create, rename, recolour and delete tags; deleting
+ * one detaches it from every service.
+ */
+
+"use client";
+
+import { Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import { TagPill } from "@/components/service-table/tag-pill";
+import {
+  DEFAULT_TAG_COLOR,
+  type StoredTag,
+  type TagDefinition,
+} from "@/components/service-table/tags";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TagFormDialog } from "./tag-form-dialog";
+
+interface TagSettingsProps {
+  readonly tags: readonly StoredTag[];
+  /** Services per tag id */
+  readonly usageCounts: ReadonlyMap<string, number>;
+  readonly canAdminister: boolean;
+  readonly onCreate: (definition: TagDefinition) => Promise<void>;
+  readonly onUpdate: (
+    tag: StoredTag,
+    definition: TagDefinition
+  ) => Promise<void>;
+  readonly onDelete: (tag: StoredTag) => Promise<void>;
+}
+
+/**
+ * Tag being edited in the form dialog
+ */
+interface FormState {
+  readonly initialValue: TagDefinition;
+  /** Stored tag being edited; null to create one */
+  readonly tag: StoredTag | null;
+}
+
+/**
+ * Pluralizes "service"
+ */
+function formatServiceCount(count: number): string {
+  return `${count} service${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Tags table
+ */
+export function TagSettings({
+  tags,
+  usageCounts,
+  canAdminister,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: TagSettingsProps) {
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<StoredTag | null>(null);
+
+  const otherTags = useMemo(
+    () => tags.filter((tag) => tag.id !== formState?.tag?.id),
+    [tags, formState]
+  );
+
+  const openCreate = useCallback(() => {
+    setFormState({
+      initialValue: { name: "", color: DEFAULT_TAG_COLOR },
+      tag: null,
+    });
+  }, []);
+
+  const handleSubmit = useCallback(
+    (definition: TagDefinition) =>
+      formState?.tag
+        ? onUpdate(formState.tag, definition)
+        : onCreate(definition),
+    [formState, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const tag = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(tag);
+    } catch (error) {
+      console.error("Failed to delete tag:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          Tags are shown as pills in the services table, can be filtered and
+          searched, and are included in exports.
+        </p>
+        {canAdminister && (
+          <Button onClick={openCreate} size="sm">
+            <Plus className="mr-1.5 size-3.5" />
+            New tag
+          </Button>
+        )}
+      </div>
+
+      {tags.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Tag className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>No tags</EmptyTitle>
+            <EmptyDescription>
+              Label services as customer-facing, PCI scoped, legacy or part of a
+              migration.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead>Colour</TableHead>
+                <TableHead>Usage</TableHead>
+                {canAdminister && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.map((tag) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <TagPill tag={tag} />
+                  </TableCell>
+                  <TableCell className="font-mono text-muted-foreground text-xs">
+                    {tag.color}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {formatServiceCount(usageCounts.get(tag.id) ?? 0)}
+                  </TableCell>
+                  {canAdminister && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          onClick={() =>
+                            setFormState({ initialValue: tag, tag })
+                          }
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Pencil className="mr-1.5 size-3.5" />
+                          Edit
+                        </Button>
+                        <Button
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPendingDelete(tag)}
+                          size="sm"
+                          variant="ghost"
+                        >
+                          <Trash2 className="mr-1.5 size-3.5" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {formState && (
+        <TagFormDialog
+          initialValue={formState.initialValue}
+          isEditing={formState.tag !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setFormState(null);
+            }
+          }}
+          onSubmit={handleSubmit}
+          open
+          otherTags={otherTags}
+        />
+      )}
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.name} will be removed from{" "}
+              {formatServiceCount(
+                pendingDelete ? (usageCounts.get(pendingDelete.id) ?? 0) : 0
+              )}
+              . This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Owner Migration Dialog
+ *
+ * Previews and applies the migration of free-text owners to teams: spellings
+ * of the same owner are grouped, matched to an existing team or to a new team
+ * named after the most used spelling, and their services are linked to it.
+ */
+
+"use client";
+
+import { ArrowRight } from "lucide-react";
+import type React from "react";
+import { useCallback, useMemo, useState } from "react";
+import type { OwnerMigrationGroup } from "@/components/service-table/team-links";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+
+interface OwnerMigrationDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  readonly plan: readonly OwnerMigrationGroup[];
+  readonly onConfirm: () => Promise<void>;
+}
+
+/**
+ * Confirmation dialog listing which team each owner spelling maps to
+ */
+export function OwnerMigrationDialog({
+  open,
+  onOpenChange,
+  plan,
+  onConfirm,
+}: OwnerMigrationDialogProps) {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const serviceCount = useMemo(
+    () => plan.reduce((count, group) => count + group.serviceIds.length, 0),
+    [plan]
+  );
+  const newTeamCount = useMemo(
+    () => plan.filter((group) => !group.team).length,
+    [plan]
+  );
+
+  const handleConfirm = useCallback(
+    async (event: React.MouseEvent) => {
+      // Keep the dialog open until the transaction settles
+      event.preventDefault();
+      setIsApplying(true);
+      try {
+        await onConfirm();
+        onOpenChange(false);
+      } catch (error) {
+        console.error("Failed to migrate owners:", error);
+      } finally {
+        setIsApplying(false);
+      }
+    },
+    [onConfirm, onOpenChange]
+  );
+
+  return (
+    <AlertDialog onOpenChange={onOpenChange} open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Migrate owners to teams</AlertDialogTitle>
+          <AlertDialogDescription>
+            {serviceCount} services without a team will be linked to{" "}
+            {plan.length} teams, {newTeamCount} of which will be created.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="max-h-64 space-y-1 overflow-y-auto rounded-md border border-border/40 p-2">
+          {plan.map((group) => (
+            <li className="flex items-center gap-2 text-xs" key={group.key}>
+              <span className="truncate font-mono">
+                {group.variants.join(", ")}
+              </span>
+              <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+              <span className="truncate">{group.teamName}</span>
+              {!group.team && <Badge variant="outline">New</Badge>}
+              <span className="ml-auto shrink-0 text-muted-foreground">
+                {group.serviceIds.length}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isApplying}>Cancel</AlertDialogCancel>
+          <AlertDialogAction disabled={isApplying} onClick={handleConfirm}>
+            {isApplying ? "Migrating..." : "Migrate"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
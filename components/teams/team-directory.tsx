@@ -0,0 +1,333 @@
+/**
+ * Team Directory
+ *
+ * Lists an organization's teams with their contact channel, members and the
+ * services they own. Editors create and edit teams and migrate legacy
+ * free-text owners; admins and owners can delete teams.
+ */
+
+"use client";
+
+import { Pencil, Plus, Trash2, UsersRound, Wand2 } from "lucide-react";
+import Link from "next/link";
+import { useCallback, useMemo, useState } from "react";
+import type { StoredServiceSource } from "@/components/service-table/service-revisions";
+import type {
+  OwnerMigrationGroup,
+  StoredTeam,
+  TeamInput,
+} from "@/components/service-table/team-links";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OwnerMigrationDialog } from "./owner-migration-dialog";
+import { TeamFormDialog, type TeamMemberOption } from "./team-form-dialog";
+
+/**
+ * Team as loaded by the teams route
+ */
+export interface TeamRecord extends StoredTeam {
+  readonly description?: string | null;
+  readonly contactChannel?: string | null;
+  readonly services?: ReadonlyArray<
+    StoredServiceSource & {
+      readonly deletedAt?: Date | string | number | null;
+    }
+  >;
+}
+
+interface TeamDirectoryProps {
+  readonly teams: readonly TeamRecord[];
+  readonly memberOptions: readonly TeamMemberOption[];
+  readonly migrationPlan: readonly OwnerMigrationGroup[];
+  readonly servicesHref: string;
+  readonly canCreate: boolean;
+  readonly canAdminister: boolean;
+  readonly onCreate: (input: TeamInput) => Promise<void>;
+  readonly onUpdate: (team: TeamRecord, input: TeamInput) => Promise<void>;
+  readonly onDelete: (team: TeamRecord) => Promise<void>;
+  readonly onMigrate: () => Promise<void>;
+}
+
+/**
+ * Editable fields of a stored team
+ */
+function toTeamInput(team: TeamRecord): TeamInput {
+  return {
+    name: team.name,
+    slug: team.slug,
+    description: team.description ?? "",
+    contactChannel: team.contactChannel ?? "",
+    memberIds: (team.members ?? []).map((member) => member.id),
+  };
+}
+
+/**
+ * Teams table with create, edit, delete and owner migration
+ */
+export function TeamDirectory({
+  teams,
+  memberOptions,
+  migrationPlan,
+  servicesHref,
+  canCreate,
+  canAdminister,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onMigrate,
+}: TeamDirectoryProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<TeamRecord | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<TeamRecord | null>(null);
+  const [isMigrationOpen, setIsMigrationOpen] = useState(false);
+
+  const sortedTeams = useMemo(
+    () => [...teams].sort((a, b) => a.name.localeCompare(b.name)),
+    [teams]
+  );
+
+  const memberLabels = useMemo(
+    () => new Map(memberOptions.map((member) => [member.id, member.label])),
+    [memberOptions]
+  );
+
+  const unassignedCount = useMemo(
+    () =>
+      migrationPlan.reduce(
+        (count, group) => count + group.serviceIds.length,
+        0
+      ),
+    [migrationPlan]
+  );
+
+  const initialValue = useMemo(
+    () => (editingTeam ? toTeamInput(editingTeam) : null),
+    [editingTeam]
+  );
+  const otherTeams = useMemo(
+    () => teams.filter((team) => team.id !== editingTeam?.id),
+    [teams, editingTeam]
+  );
+
+  const openForm = useCallback((team: TeamRecord | null) => {
+    setEditingTeam(team);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleSubmit = useCallback(
+    (input: TeamInput) =>
+      editingTeam ? onUpdate(editingTeam, input) : onCreate(input),
+    [editingTeam, onCreate, onUpdate]
+  );
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+    const team = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await onDelete(team);
+    } catch (error) {
+      console.error("Failed to delete team:", error);
+    }
+  }, [pendingDelete, onDelete]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-muted-foreground text-sm">
+          {unassignedCount > 0
+            ? `${unassignedCount} service${unassignedCount === 1 ? " has" : "s have"} a free-text owner and no team.`
+            : "Every service is owned by a team."}
+        </p>
+        {canCreate && (
+          <div className="flex items-center gap-2">
+            {unassignedCount > 0 && (
+              <Button
+                onClick={() => setIsMigrationOpen(true)}
+                size="sm"
+                variant="outline"
+              >
+                <Wand2 className="mr-1.5 size-3.5" />
+                Migrate owners
+              </Button>
+            )}
+            <Button onClick={() => openForm(null)} size="sm">
+              <Plus className="mr-1.5 size-3.5" />
+              New team
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {sortedTeams.length === 0 ? (
+        <Empty className="border-border/40 border-dashed">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <UsersRound className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>No teams yet</EmptyTitle>
+            <EmptyDescription>
+              Create teams to own services, or migrate the owners already set on
+              your services.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border border-border/40">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Services</TableHead>
+                {canCreate && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedTeams.map((team) => {
+                const serviceCount = (team.services ?? []).filter(
+                  (service) => !service.deletedAt
+                ).length;
+                return (
+                  <TableRow key={team.id}>
+                    <TableCell>
+                      <span className="font-medium">{team.name}</span>
+                      <span className="block font-mono text-muted-foreground text-xs">
+                        {team.slug}
+                      </span>
+                      {team.description && (
+                        <span className="block max-w-[360px] truncate text-muted-foreground text-xs">
+                          {team.description}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {team.contactChannel || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex max-w-[320px] flex-wrap gap-1">
+                        {(team.members ?? []).map((member) => (
+                          <Badge key={member.id} variant="secondary">
+                            {memberLabels.get(member.id) ?? "Former member"}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        className="text-sm underline-offset-2 hover:underline"
+                        href={`${servicesHref}?owner=${encodeURIComponent(team.name)}`}
+                      >
+                        {serviceCount}
+                      </Link>
+                    </TableCell>
+                    {canCreate && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            onClick={() => openForm(team)}
+                            size="sm"
+                            variant="ghost"
+                          >
+                            <Pencil className="mr-1.5 size-3.5" />
+                            Edit
+                          </Button>
+                          {canAdminister && (
+                            <Button
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setPendingDelete(team)}
+                              size="sm"
+                              variant="ghost"
+                            >
+                              <Trash2 className="mr-1.5 size-3.5" />
+                              Delete
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <TeamFormDialog
+        initialValue={initialValue}
+        memberOptions={memberOptions}
+        onOpenChange={setIsFormOpen}
+        onSubmit={handleSubmit}
+        open={isFormOpen}
+        otherTeams={otherTeams}
+      />
+
+      <OwnerMigrationDialog
+        onConfirm={onMigrate}
+        onOpenChange={setIsMigrationOpen}
+        open={isMigrationOpen}
+        plan={migrationPlan}
+      />
+
+      <AlertDialog
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingDelete(null);
+          }
+        }}
+        open={pendingDelete !== null}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete team</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will be deleted. Its services keep "
+              {pendingDelete?.name}" as a free-text owner until they are
+              assigned to another team.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleDeleteConfirm}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+/**
+ * Team Form Dialog
+ *
+ * Creates or edits a team: name, slug, description, contact channel and the
+ * organization members who belong to it. The slug follows the name until it
+ * is edited by hand.
+ */
+
+"use client";
+
+import { CheckIcon } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Tags,
+  TagsContent,
+  TagsEmpty,
+  TagsGroup,
+  TagsInput,
+  TagsItem,
+  TagsList,
+  TagsTrigger,
+  TagsValue,
+} from "@/components/kibo-ui/tags";
+import {
+  slugifyTeamName,
+  type TeamInput,
+  type TeamOption,
+} from "@/components/service-table/team-links";
+import { validateTeam } from "@/components/service-table/validation";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+/**
+ * Organization member that can join a team
+ */
+export interface TeamMemberOption {
+  /** Member record id */
+  readonly id: string;
+  readonly label: string;
+}
+
+interface TeamFormDialogProps {
+  readonly open: boolean;
+  readonly onOpenChange: (open: boolean) => void;
+  /** Team being edited; null to create one */
+  readonly initialValue: TeamInput | null;
+  /** Teams the name and slug must not collide with */
+  readonly otherTeams: readonly TeamOption[];
+  readonly memberOptions: readonly TeamMemberOption[];
+  readonly onSubmit: (input: TeamInput) => Promise<void>;
+}
+
+const EMPTY_TEAM: TeamInput = {
+  name: "",
+  slug: "",
+  description: "",
+  contactChannel: "",
+  memberIds: [],
+};
+
+/**
+ * Dialog with the team fields
+ */
+export function TeamFormDialog({
+  open,
+  onOpenChange,
+  initialValue,
+  otherTeams,
+  memberOptions,
+  onSubmit,
+}: TeamFormDialogProps) {
+  const [formData, setFormData] = useState<TeamInput>(EMPTY_TEAM);
+  const [isSlugEdited, setIsSlugEdited] = useState(false);
+  const [memberSearch, setMemberSearch] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditing = initialValue !== null;
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(initialValue ?? EMPTY_TEAM);
+      setIsSlugEdited(initialValue !== null);
+      setMemberSearch("");
+    }
+  }, [open, initialValue]);
+
+  const errors = useMemo(
+    () => validateTeam(formData, otherTeams),
+    [formData, otherTeams]
+  );
+  const isFormValid = Object.keys(errors).length === 0;
+
+  const submitButtonText = useMemo(() => {
+    if (isSubmitting) {
+      return "Saving...";
+    }
+    return isEditing ? "Save" : "Create";
+  }, [isSubmitting, isEditing]);
+
+  const memberLabels = useMemo(
+    () => new Map(memberOptions.map((member) => [member.id, member.label])),
+    [memberOptions]
+  );
+
+  const filteredMembers = useMemo(() => {
+    const search = memberSearch.trim().toLowerCase();
+    return search
+      ? memberOptions.filter((member) =>
+          member.label.toLowerCase().includes(search)
+        )
+      : memberOptions;
+  }, [memberOptions, memberSearch]);
+
+  const handleNameChange = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      name,
+      slug: isSlugEdited ? prev.slug : slugifyTeamName(name),
+    }));
+  };
+
+  const handleSlugChange = (slug: string) => {
+    setIsSlugEdited(true);
+    setFormData((prev) => ({ ...prev, slug }));
+  };
+
+  const handleMemberToggle = (memberId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      memberIds: prev.memberIds.includes(memberId)
+        ? prev.memberIds.filter((id) => id !== memberId)
+        : [...prev.memberIds, memberId],
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!isFormValid || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(formData);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to save team:", error);
+      // Keep dialog open on error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit team" : "New team"}</DialogTitle>
+          <DialogDescription>
+            Teams own services. Renaming a team updates every service it owns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={formData.name && errors.name ? "true" : "false"}
+              id="team-name"
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="Payments"
+              value={formData.name}
+            />
+            {formData.name && errors.name && (
+              <p className="text-destructive text-xs">{errors.name}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-slug">
+              Slug <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              aria-invalid={formData.slug && errors.slug ? "true" : "false"}
+              className="font-mono"
+              id="team-slug"
+              onChange={(e) => handleSlugChange(e.target.value)}
+              placeholder="payments"
+              value={formData.slug}
+            />
+            {formData.slug && errors.slug && (
+              <p className="text-destructive text-xs">{errors.slug}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-description">Description</Label>
+            <Textarea
+              id="team-description"
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  description: e.target.value,
+                }))
+              }
+              placeholder="What the team is responsible for..."
+              rows={2}
+              value={formData.description}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-contact">Contact channel</Label>
+            <Input
+              id="team-contact"
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  contactChannel: e.target.value,
+                }))
+              }
+              placeholder="#payments-oncall"
+              value={formData.contactChannel}
+            />
+            <p className="text-muted-foreground text-xs">
+              Optional. Chat channel, mailing list or pager rotation.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-members">Members</Label>
+            <Tags className="w-full">
+              <TagsTrigger id="team-members">
+                {formData.memberIds.map((memberId) => (
+                  <TagsValue
+                    key={memberId}
+                    onRemove={() => handleMemberToggle(memberId)}
+                  >
+                    {memberLabels.get(memberId) ?? "Former member"}
+                  </TagsValue>
+                ))}
+              </TagsTrigger>
+              <TagsContent className="z-[70]">
+                <TagsInput
+                  onValueChange={setMemberSearch}
+                  placeholder="Search members..."
+                  value={memberSearch}
+                />
+                <TagsList>
+                  <TagsEmpty>No members found.</TagsEmpty>
+                  <TagsGroup>
+                    {filteredMembers.map((member) => (
+                      <TagsItem
+                        key={member.id}
+                        onSelect={() => handleMemberToggle(member.id)}
+                        value={member.id}
+                      >
+                        {member.label}
+                        {formData.memberIds.includes(member.id) && (
+                          <CheckIcon
+                            className="text-muted-foreground"
+                            size={14}
+                          />
+                        )}
+                      </TagsItem>
+                    ))}
+                  </TagsGroup>
+                </TagsList>
+              </TagsContent>
+            </Tags>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={isSubmitting}
+            onClick={() => onOpenChange(false)}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isFormValid || isSubmitting}
+            onClick={handleSubmit}
+          >
+            {submitButtonText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,18 @@
 "use client";
 
-import type { OnMount } from "@monaco-editor/react";
+import type { Monaco, OnMount } from "@monaco-editor/react";
 import { useAtomValue, useSetAtom } from "jotai";
 import { AlertCircle, CheckCircle, Download, Upload } from "lucide-react";
 import dynamic from "next/dynamic";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_ENVIRONMENT_CATALOG,
+  type EnvironmentCatalog,
+} from "@/components/service-table/environments";
+import {
+  DEFAULT_RUNTIME_CATALOG,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
 import { useTheme } from "@/components/theme-provider";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -45,7 +53,17 @@ interface ValidationError {
 
 type ValidationResult = ValidationState | ValidationError;
 
-export function YamlEditor() {
+interface YamlEditorProps {
+  /** Environments suggested and accepted for `env`; the defaults when unset */
+  readonly environmentCatalog?: EnvironmentCatalog;
+  /** Runtimes suggested and accepted for `runtime.type`; the defaults when unset */
+  readonly runtimeCatalog?: RuntimeCatalog;
+}
+
+export function YamlEditor({
+  environmentCatalog = DEFAULT_ENVIRONMENT_CATALOG,
+  runtimeCatalog = DEFAULT_RUNTIME_CATALOG,
+}: YamlEditorProps = {}) {
   const { resolvedTheme } = useTheme();
   const content = useAtomValue(contentAtom);
   const setContent = useSetAtom(contentAtom);
@@ -54,6 +72,7 @@ export function YamlEditor() {
     valid: true,
   });
   const [mounted, setMounted] = useState(false);
+  const monacoRef = useRef<Monaco | null>(null);
 
   useAutosave();
   useAutosaveFlush();
@@ -65,7 +84,11 @@ export function YamlEditor() {
   useEffect(() => {
     try {
       const parsed = parseYaml(content);
-      const validationResult = validateSchema(parsed);
+      const validationResult = validateSchema(
+        parsed,
+        environmentCatalog,
+        runtimeCatalog
+      );
       if (validationResult.valid) {
         setValidation({ valid: true });
       } else {
@@ -82,11 +105,22 @@ export function YamlEditor() {
         error: errorMessage,
       });
     }
-  }, [content]);
+  }, [content, environmentCatalog, runtimeCatalog]);
 
-  const handleEditorMount: OnMount = useCallback((editor, monaco) => {
-    setupYamlLanguage(monaco);
-  }, []);
+  // Completions follow the catalogs once the editor is mounted
+  useEffect(() => {
+    if (monacoRef.current) {
+      setupYamlLanguage(monacoRef.current, environmentCatalog, runtimeCatalog);
+    }
+  }, [environmentCatalog, runtimeCatalog]);
+
+  const handleEditorMount: OnMount = useCallback(
+    (_editor, monaco) => {
+      monacoRef.current = monaco;
+      setupYamlLanguage(monaco, environmentCatalog, runtimeCatalog);
+    },
+    [environmentCatalog, runtimeCatalog]
+  );
 
   const handleEditorChange = useCallback(
     (value: string | undefined) => {
@@ -237,8 +271,10 @@ export function YamlEditor() {
             required)
           </div>
           <div className="ml-4">
-            - <span className="text-foreground">env</span>: production | staging
-            | development
+            - <span className="text-foreground">env</span>:{" "}
+            {environmentCatalog.environments
+              .map((environment) => environment.key)
+              .join(" | ")}
           </div>
           <div className="ml-4">
             - <span className="text-foreground">branch</span>: string (git
@@ -249,8 +285,11 @@ export function YamlEditor() {
             (optional)
           </div>
           <div className="ml-8">
-            - <span className="text-foreground">type</span>: ec2 | vm | k8s |
-            lambda | container | paas | unknown
+            - <span className="text-foreground">type</span>:{" "}
+            {[
+              ...runtimeCatalog.runtimes.map((runtime) => runtime.key),
+              "unknown",
+            ].join(" | ")}
           </div>
           <div className="ml-8">
             - <span className="text-foreground">id</span>: string (runtime
@@ -0,0 +1,216 @@
+/**
+ * Active Services Hook
+ *
+ * Loads an organization's services that are not in the trash, with their
+ * interfaces and linked dependencies, and groups them for display with the
+ * organization's environments, runtimes, custom fields and tags. Shared by the dependency analysis pages
+ * (graph, blast radius), the upcoming sunsets, the end-of-life report and the
+ * possible duplicates report.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import type { CustomFieldValues } from "@/components/service-table/custom-fields";
+import type { StoredDependency } from "@/components/service-table/dependency-links";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import type { ServiceReference } from "@/components/service-table/lifecycle";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
+import type { ServiceLink } from "@/components/service-table/service-links";
+import type { TechStackEntry } from "@/components/service-table/tech-stack";
+import type { GroupedService } from "@/components/service-table/types";
+import { convertServicesToGrouped } from "@/components/service-table/utils";
+import { db } from "@/lib/db";
+import {
+  getCustomFieldFilters,
+  getEnvironmentOptions,
+  getRuntimeOptions,
+  getTagOptions,
+} from "@/lib/filter-utils";
+import type { CustomFieldFilter, FilterValueOption } from "@/types/filters";
+import { useCustomFields } from "./use-custom-fields";
+import { useEnvironmentCatalog } from "./use-environment-catalog";
+import { useRuntimeCatalog } from "./use-runtime-catalog";
+import { useTags } from "./use-tags";
+
+/**
+ * Raw service record with interfaces and dependencies
+ */
+export interface ActiveServiceRecord {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string | null;
+  readonly language?: string | null;
+  readonly owner: string;
+  readonly team?: { readonly id: string; readonly name: string } | null;
+  readonly repository: string;
+  readonly customFields?: CustomFieldValues | null;
+  readonly lifecycle?: string | null;
+  readonly sunsetDate?: string | null;
+  readonly replacement?: ServiceReference | null;
+  readonly tags?: ReadonlyArray<{
+    readonly id: string;
+    readonly name: string;
+    readonly color?: string | null;
+  }>;
+  readonly techStack?: readonly TechStackEntry[] | null;
+  readonly links?: readonly ServiceLink[] | null;
+  readonly interfaces?: Array<{
+    readonly id: string;
+    readonly domain: string;
+    readonly env: string | null;
+    readonly branch: string | null;
+    readonly runtimeType: string | null;
+    readonly runtimeId: string | null;
+  }>;
+  readonly dependencies?: Array<
+    StoredDependency & {
+      readonly target?: { readonly id: string; readonly name: string } | null;
+    }
+  >;
+}
+
+interface ActiveServicesResult {
+  readonly rawServices: readonly ActiveServiceRecord[];
+  readonly groupedServices: readonly GroupedService[];
+  readonly environmentCatalog: EnvironmentCatalog;
+  readonly runtimeCatalog: RuntimeCatalog;
+  readonly availableOwners: readonly string[];
+  readonly environmentOptions: readonly FilterValueOption[];
+  readonly runtimeOptions: readonly FilterValueOption[];
+  readonly customFieldFilters: readonly CustomFieldFilter[];
+  /** Tags of the organization */
+  readonly tagOptions: readonly FilterValueOption[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the active services of an organization (skipped until the id is known)
+ */
+export function useActiveServices(
+  organizationId: string | null | undefined
+): ActiveServicesResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          services: {
+            $: {
+              where: {
+                organizationId,
+                deletedAt: { $isNull: true },
+              },
+            },
+            interfaces: {},
+            dependencies: {
+              target: {},
+            },
+            team: {},
+            replacement: {},
+            tags: {},
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const {
+    catalog: environmentCatalog,
+    isLoading: isLoadingEnvironments,
+    error: environmentsError,
+  } = useEnvironmentCatalog(organizationId);
+
+  const {
+    catalog: runtimeCatalog,
+    isLoading: isLoadingRuntimes,
+    error: runtimesError,
+  } = useRuntimeCatalog(organizationId);
+
+  const {
+    fields: customFields,
+    isLoading: isLoadingCustomFields,
+    error: customFieldsError,
+  } = useCustomFields(organizationId);
+
+  const {
+    tags,
+    isLoading: isLoadingTags,
+    error: tagsError,
+  } = useTags(organizationId);
+
+  const rawServices = (data?.services ?? []) as ActiveServiceRecord[];
+
+  const groupedServices = useMemo(
+    () =>
+      convertServicesToGrouped(rawServices, environmentCatalog, runtimeCatalog),
+    [rawServices, environmentCatalog, runtimeCatalog]
+  );
+
+  const availableOwners = useMemo(
+    () =>
+      Array.from(
+        new Set(groupedServices.map((service) => service.owner))
+      ).sort(),
+    [groupedServices]
+  );
+
+  const runtimeOptions = useMemo(
+    () =>
+      getRuntimeOptions(
+        runtimeCatalog,
+        Array.from(
+          new Set(
+            groupedServices.flatMap((service) => service.runtimeFootprint)
+          )
+        )
+      ),
+    [runtimeCatalog, groupedServices]
+  );
+
+  const environmentOptions = useMemo(
+    () =>
+      getEnvironmentOptions(
+        environmentCatalog,
+        groupedServices.flatMap((service) =>
+          service.environments.map((env) => env.env)
+        )
+      ),
+    [environmentCatalog, groupedServices]
+  );
+
+  const customFieldFilters = useMemo(
+    () => getCustomFieldFilters(customFields, groupedServices),
+    [customFields, groupedServices]
+  );
+
+  const tagOptions = useMemo(() => getTagOptions(tags), [tags]);
+
+  return {
+    rawServices,
+    groupedServices,
+    environmentCatalog,
+    runtimeCatalog,
+    availableOwners,
+    environmentOptions,
+    runtimeOptions,
+    customFieldFilters,
+    tagOptions,
+    isLoading:
+      (Boolean(organizationId) && isLoading) ||
+      isLoadingEnvironments ||
+      isLoadingRuntimes ||
+      isLoadingCustomFields ||
+      isLoadingTags,
+    error:
+      error ??
+      environmentsError ??
+      runtimesError ??
+      customFieldsError ??
+      tagsError,
+  };
+}
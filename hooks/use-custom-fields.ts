@@ -0,0 +1,76 @@
+/**
+ * Custom Fields Hook
+ *
+ * Loads the custom fields an organization has defined, in form order. The
+ * fields drive the service form, the table columns, the filters and the
+ * export columns.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  type CustomFieldType,
+  type CustomFieldValue,
+  type StoredCustomField,
+  sortCustomFields,
+} from "@/components/service-table/custom-fields";
+import { db } from "@/lib/db";
+
+interface CustomFieldsResult {
+  readonly fields: readonly StoredCustomField[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the custom fields of an organization (skipped until the id is known)
+ */
+export function useCustomFields(
+  organizationId: string | null | undefined
+): CustomFieldsResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          customFields: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const fields = useMemo(
+    () =>
+      sortCustomFields(
+        (data?.customFields ?? []).map(
+          (field): StoredCustomField => ({
+            id: field.id,
+            key: field.key,
+            label: field.label,
+            type: field.type as CustomFieldType,
+            required: field.required,
+            options: field.options ?? [],
+            defaultValue: (field.defaultValue as CustomFieldValue) ?? null,
+            order: field.order,
+          })
+        )
+      ),
+    [data?.customFields]
+  );
+
+  return {
+    fields,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
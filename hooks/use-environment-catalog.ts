@@ -0,0 +1,75 @@
+/**
+ * Environment Catalog Hook
+ *
+ * Loads the environments an organization has defined and resolves them into
+ * the catalog used to label, sort and filter interfaces. Falls back to the
+ * default environments while loading and when none are defined.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  createEnvironmentCatalog,
+  type EnvironmentCatalog,
+  type StoredEnvironment,
+} from "@/components/service-table/environments";
+import { db } from "@/lib/db";
+
+interface EnvironmentCatalogResult {
+  readonly catalog: EnvironmentCatalog;
+  readonly records: readonly StoredEnvironment[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the environments of an organization (skipped until the id is known)
+ */
+export function useEnvironmentCatalog(
+  organizationId: string | null | undefined
+): EnvironmentCatalogResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          environments: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const records = useMemo(
+    () =>
+      (data?.environments ?? []).map(
+        (environment): StoredEnvironment => ({
+          id: environment.id,
+          key: environment.key,
+          label: environment.label,
+          order: environment.order,
+          color: environment.color,
+          aliases: environment.aliases ?? [],
+        })
+      ),
+    [data?.environments]
+  );
+
+  const catalog = useMemo(() => createEnvironmentCatalog(records), [records]);
+
+  return {
+    catalog,
+    records,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
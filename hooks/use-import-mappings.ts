@@ -0,0 +1,70 @@
+/**
+ * Import Mappings Hook
+ *
+ * Loads the column mappings an organization saved for importing services,
+ * by name. The import wizard offers them for sheets with the same headers.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import type {
+  ServiceImportMapping,
+  StoredImportMapping,
+} from "@/components/service-table/service-import";
+import { db } from "@/lib/db";
+
+interface ImportMappingsResult {
+  readonly mappings: readonly StoredImportMapping[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the saved import mappings of an organization (skipped until the
+ * id is known)
+ */
+export function useImportMappings(
+  organizationId: string | null | undefined
+): ImportMappingsResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          importMappings: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const mappings = useMemo(
+    () =>
+      (data?.importMappings ?? [])
+        .map(
+          (mapping): StoredImportMapping => ({
+            id: mapping.id,
+            name: mapping.name,
+            columns:
+              (mapping.columns as ServiceImportMapping | undefined) ?? {},
+          })
+        )
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [data?.importMappings]
+  );
+
+  return {
+    mappings,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
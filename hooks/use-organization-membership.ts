@@ -0,0 +1,227 @@
+/**
+ * Organization Membership Hook
+ *
+ * Resolves the organization addressed by the `[slug]` route segment and the
+ * signed-in user's membership in it. Shared by every organization-scoped page
+ * so that access checks and role gating behave identically everywhere.
+ *
+ * Resolution strategy:
+ * 1. Better Auth organization list (server-backed, available right after
+ *    accepting an invitation)
+ * 2. Fallback: InstantDB organization-by-slug query (may be empty until the
+ *    client permission sync completes)
+ */
+
+"use client";
+
+import { AuthUIContext } from "@daveyplate/better-auth-ui";
+import { useContext, useMemo } from "react";
+import { db } from "@/lib/db";
+
+/**
+ * Minimal organization shape used by organization-scoped pages.
+ */
+export interface ResolvedOrganization {
+  readonly id: string;
+  readonly name?: string;
+  readonly slug: string;
+}
+
+/**
+ * Roles allowed to create and edit services (mirrors `hasEditorRole` in perms).
+ */
+const EDITOR_ROLES = new Set(["member", "editor", "admin", "owner"]);
+
+/**
+ * Roles allowed to delete services (mirrors `hasAdminRole` in perms).
+ */
+const ADMIN_ROLES = new Set(["admin", "owner"]);
+
+/**
+ * Entry of the Better Auth organization list: either a member record with a
+ * nested organization or a plain organization.
+ */
+interface ApiOrganization {
+  readonly slug?: string;
+  readonly id?: string;
+  readonly name?: string;
+}
+
+type ApiOrganizationListItem =
+  | ApiOrganization
+  | { readonly organization?: ApiOrganization };
+
+/**
+ * Unwraps the organization from an organization list entry.
+ */
+function resolveApiOrganization(
+  item: ApiOrganizationListItem
+): ApiOrganization | undefined {
+  return "organization" in item ? item.organization : (item as ApiOrganization);
+}
+
+/**
+ * Result of resolving an organization and the current user's membership.
+ */
+export interface OrganizationMembershipState {
+  readonly slug: string | undefined;
+  readonly userId: string | null;
+  readonly organization: ResolvedOrganization | null;
+  readonly organizationId: string | null;
+  readonly memberRole: string | null;
+  readonly canCreate: boolean;
+  readonly canAdminister: boolean;
+  readonly isLoading: boolean;
+  readonly orgNotFound: boolean;
+  readonly noAccess: boolean;
+  readonly error: { readonly message: string } | null;
+}
+
+/**
+ * Hook for resolving the organization by slug and the user's role within it.
+ *
+ * @param slug - Organization slug from the route
+ * @returns Organization, membership role, derived permissions and status flags
+ */
+export function useOrganizationMembership(
+  slug: string | undefined
+): OrganizationMembershipState {
+  const { user } = db.useAuth();
+  const userId = user?.id && typeof user.id === "string" ? user.id : null;
+
+  // Resolve organization from Better Auth API list (server-backed). This avoids
+  // client-side InstantDB permission/sync issues after accepting an invitation.
+  const authUIContext = useContext(AuthUIContext);
+  const orgListResult = authUIContext?.hooks?.useListOrganizations?.();
+  const apiOrgList = orgListResult?.data ?? null;
+  const isOrgListLoading = orgListResult?.isPending ?? false;
+
+  // API may return members (with nested organization) or plain organizations; resolve by slug
+  const organizationFromApi = useMemo(() => {
+    if (!(slug && Array.isArray(apiOrgList))) {
+      return null;
+    }
+    for (const item of apiOrgList as ApiOrganizationListItem[]) {
+      const candidate = resolveApiOrganization(item);
+      if (candidate?.slug != null && String(candidate.slug) === String(slug)) {
+        return candidate as ResolvedOrganization;
+      }
+    }
+    return null;
+  }, [slug, apiOrgList]);
+
+  // Fallback: client-side InstantDB org-by-slug (may be empty due to permissions until sync)
+  const { data: orgData, error: orgError } = db.useQuery(
+    slug && !organizationFromApi
+      ? {
+          organizations: {
+            $: {
+              where: { slug },
+            },
+          },
+        }
+      : null
+  );
+
+  const orgListFromDb = Array.isArray(orgData?.organizations)
+    ? orgData.organizations
+    : [];
+  const organizationFromDb = orgListFromDb[0] ?? null;
+
+  const organization: ResolvedOrganization | null =
+    organizationFromApi ?? organizationFromDb;
+  const organizationId =
+    organization?.id && typeof organization.id === "string"
+      ? organization.id
+      : null;
+
+  // Determine if user has access: if org is from API, user has access
+  const hasAccessViaApi = Boolean(organizationFromApi);
+
+  // Query user's membership to determine role
+  const { data: membershipData, error: membershipError } = db.useQuery(
+    userId && organizationId
+      ? {
+          members: {
+            $: {
+              where: {
+                userId,
+                organizationId,
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const membership = membershipData?.members?.[0];
+  const memberRole = membership?.role ?? null;
+
+  // While membership is loading, disable writes to avoid permission errors
+  const canCreate = Boolean(
+    membershipData && membership && memberRole && EDITOR_ROLES.has(memberRole)
+  );
+  const canAdminister = Boolean(
+    membershipData && membership && memberRole && ADMIN_ROLES.has(memberRole)
+  );
+
+  // Resolving org from the API list or from InstantDB
+  const isLoading = useMemo(() => {
+    if (!slug) {
+      return false;
+    }
+    if (isOrgListLoading && !organizationFromApi) {
+      return true;
+    }
+    return !organizationFromApi && orgData === undefined;
+  }, [slug, isOrgListLoading, organizationFromApi, orgData]);
+
+  // Org not found: slug in URL but org not in API list and not in InstantDB result
+  const orgNotFound = useMemo(() => {
+    if (!slug) {
+      return false;
+    }
+    if (organization) {
+      return false;
+    }
+    if (isOrgListLoading) {
+      return false;
+    }
+    if (organizationFromApi !== null) {
+      return false;
+    }
+    if (orgData === undefined) {
+      return false;
+    }
+    return orgListFromDb.length === 0;
+  }, [
+    slug,
+    organization,
+    isOrgListLoading,
+    organizationFromApi,
+    orgData,
+    orgListFromDb.length,
+  ]);
+
+  // Only block if: org exists, no API access, and membership query shows no membership
+  const noAccess = useMemo(() => {
+    if (hasAccessViaApi) {
+      return false;
+    }
+    return Boolean(organization && membershipData !== undefined && !membership);
+  }, [hasAccessViaApi, organization, membershipData, membership]);
+
+  return {
+    slug,
+    userId,
+    organization,
+    organizationId,
+    memberRole,
+    canCreate,
+    canAdminister,
+    isLoading,
+    orgNotFound,
+    noAccess,
+    error: orgError ?? membershipError ?? null,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Runtime Catalog Hook
+ *
+ * Loads the runtime types an organization has registered and resolves them
+ * into the catalog used to label, pick and filter interface runtimes. Falls
+ * back to the default runtimes while loading and when none are registered.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  createRuntimeCatalog,
+  type RuntimeCatalog,
+  type StoredRuntime,
+} from "@/components/service-table/runtimes";
+import { db } from "@/lib/db";
+
+interface RuntimeCatalogResult {
+  readonly catalog: RuntimeCatalog;
+  readonly records: readonly StoredRuntime[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the runtime types of an organization (skipped until the id is known)
+ */
+export function useRuntimeCatalog(
+  organizationId: string | null | undefined
+): RuntimeCatalogResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          runtimes: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const records = useMemo(
+    () =>
+      (data?.runtimes ?? []).map(
+        (runtime): StoredRuntime => ({
+          id: runtime.id,
+          key: runtime.key,
+          label: runtime.label,
+          badge: runtime.badge,
+          runtimeIdHint: runtime.runtimeIdHint ?? "",
+        })
+      ),
+    [data?.runtimes]
+  );
+
+  const catalog = useMemo(() => createRuntimeCatalog(records), [records]);
+
+  return {
+    catalog,
+    records,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Service Templates Hook
+ *
+ * Loads the service templates an organization has defined, by name. The
+ * service form offers them as starting points for new services.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import type { CustomFieldValues } from "@/components/service-table/custom-fields";
+import type {
+  ServiceTemplateInterface,
+  StoredServiceTemplate,
+} from "@/components/service-table/service-templates";
+import { db } from "@/lib/db";
+
+interface ServiceTemplatesResult {
+  readonly templates: readonly StoredServiceTemplate[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the service templates of an organization (skipped until the id is
+ * known)
+ */
+export function useServiceTemplates(
+  organizationId: string | null | undefined
+): ServiceTemplatesResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          serviceTemplates: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const templates = useMemo(
+    () =>
+      (data?.serviceTemplates ?? [])
+        .map(
+          (template): StoredServiceTemplate => ({
+            id: template.id,
+            name: template.name,
+            description: template.description ?? "",
+            languages: (template.languages as string[] | undefined) ?? [],
+            interfaces:
+              (template.interfaces as ServiceTemplateInterface[] | undefined) ??
+              [],
+            dependencies: (template.dependencies as string[] | undefined) ?? [],
+            customFields:
+              (template.customFields as CustomFieldValues | undefined) ?? {},
+          })
+        )
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [data?.serviceTemplates]
+  );
+
+  return {
+    templates,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
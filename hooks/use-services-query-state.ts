@@ -4,7 +4,8 @@
  * Manages all query state for the Services page with URL synchronization via nuqs.
  * Implements Linear-style two-layer architecture:
  * - Layer 1: Free text search (q parameter)
- * - Layer 2: Structured filters (env, owner, runtime, match)
+ * - Layer 2: Structured filters (env, owner, runtime, lifecycle, tag, cf,
+ *   match)
  *
  * State is normalized to Sets internally for efficient lookups while serializing
  * as arrays in the URL for shareability.
@@ -12,19 +13,21 @@
  * Invariants:
  * - q is always a string (free text, never contains filter tokens)
  * - Filter arrays are deduplicated
+ * - Unknown lifecycle statuses are dropped
  * - Empty arrays serialize as null in URL
+ * - Custom field filters serialize as "key:value" entries of cf
  * - match defaults to "all"
  */
 
 "use client";
 
-import {
-  parseAsArrayOf,
-  parseAsString,
-  parseAsStringEnum,
-  useQueryStates,
-} from "nuqs";
+import { useQueryStates } from "nuqs";
 import { useCallback, useMemo } from "react";
+import type { LifecycleStatus } from "@/components/service-table/lifecycle";
+import {
+  normalizeServicesQueryParams,
+  servicesQuerySchema,
+} from "@/lib/services-query";
 import type { FilterMatchMode } from "@/types/filters";
 
 /**
@@ -34,9 +37,10 @@ import type { FilterMatchMode } from "@/types/filters";
 const QUERY_BAR_DEBOUNCE_MS = 200;
 
 /**
- * Valid environment values for services.
+ * Environment key from the organization's environments. Keys aren't known to
+ * the URL layer, so any value is kept; values no service has match nothing.
  */
-export type Environment = "production" | "staging" | "development";
+export type Environment = string;
 
 /**
  * Complete query state for the services table.
@@ -47,6 +51,11 @@ export interface ServicesQueryState {
   readonly env: readonly Environment[];
   readonly owner: readonly string[];
   readonly runtime: readonly string[];
+  readonly lifecycle: readonly LifecycleStatus[];
+  /** Selected tag names */
+  readonly tag: readonly string[];
+  /** Selected values by custom field key */
+  readonly custom: Readonly<Record<string, readonly string[]>>;
   readonly match: FilterMatchMode;
 }
 
@@ -60,45 +69,27 @@ export interface ServicesQueryStateHelpers {
   readonly toggleEnv: (env: Environment) => void;
   readonly setOwner: (owners: readonly string[]) => void;
   readonly setRuntime: (runtimes: readonly string[]) => void;
+  readonly setLifecycle: (statuses: readonly LifecycleStatus[]) => void;
+  readonly setTag: (tags: readonly string[]) => void;
+  readonly setCustomField: (key: string, values: readonly string[]) => void;
   readonly setMatch: (mode: FilterMatchMode) => void;
   readonly clearFilters: () => void;
   readonly activeFilterCount: number;
 }
 
 /**
- * URL query parameter schema with type-safe parsers.
- * Defines how state is serialized to/from URL.
- */
-const servicesQuerySchema = {
-  q: parseAsString.withDefault(""),
-  env: parseAsArrayOf(parseAsString).withDefault([]),
-  owner: parseAsArrayOf(parseAsString).withDefault([]),
-  runtime: parseAsArrayOf(parseAsString).withDefault([]),
-  match: parseAsStringEnum<FilterMatchMode>(["all", "any"]).withDefault("all"),
-} as const;
-
-/**
- * Type guard: checks if a string is a valid Environment.
+ * Serializes custom field filters back to "key:value" entries.
  *
- * @param value - String to validate
- * @returns True if value is a valid Environment
+ * @param custom - Selected values by custom field key
+ * @returns Entries for the cf parameter, or null when empty
  */
-function isValidEnvironment(value: string): value is Environment {
-  return (
-    value === "production" || value === "staging" || value === "development"
+function serializeCustomFieldFilters(
+  custom: Readonly<Record<string, readonly string[]>>
+): string[] | null {
+  const entries = Object.entries(custom).flatMap(([key, values]) =>
+    values.map((value) => `${key}:${value}`)
   );
-}
-
-/**
- * Normalizes environment array by filtering out invalid values.
- *
- * @param rawEnv - Raw array from URL parameters
- * @returns Array of valid Environment values only
- */
-function normalizeEnvironments(
-  rawEnv: readonly string[]
-): readonly Environment[] {
-  return rawEnv.filter(isValidEnvironment);
+  return entries.length > 0 ? entries : null;
 }
 
 /**
@@ -119,13 +110,7 @@ export function useServicesQueryState(): ServicesQueryState &
 
   // Normalize state from URL parameters
   const normalizedState: ServicesQueryState = useMemo(
-    () => ({
-      q: params.q?.trim() ?? "",
-      env: normalizeEnvironments(params.env ?? []),
-      owner: Array.from(new Set(params.owner ?? [])),
-      runtime: Array.from(new Set(params.runtime ?? [])),
-      match: params.match ?? "all",
-    }),
+    () => normalizeServicesQueryParams(params),
     [params]
   );
 
@@ -182,6 +167,45 @@ export function useServicesQueryState(): ServicesQueryState &
     [setParams]
   );
 
+  // Helper: Set lifecycle status filters (replace all)
+  const setLifecycle = useCallback(
+    (statuses: readonly LifecycleStatus[]) => {
+      const uniqueStatuses = Array.from(new Set(statuses));
+      setParams({
+        lifecycle: uniqueStatuses.length > 0 ? uniqueStatuses : null,
+      });
+    },
+    [setParams]
+  );
+
+  // Helper: Set tag filters (replace all)
+  const setTag = useCallback(
+    (tags: readonly string[]) => {
+      const uniqueTags = Array.from(new Set(tags));
+      setParams({
+        tag: uniqueTags.length > 0 ? uniqueTags : null,
+      });
+    },
+    [setParams]
+  );
+
+  // Helper: Set the values of one custom field filter (replace all)
+  const setCustomField = useCallback(
+    (key: string, values: readonly string[]) => {
+      const nextCustom: Record<string, readonly string[]> = Object.fromEntries(
+        Object.entries(normalizedState.custom).filter(
+          ([otherKey]) => otherKey !== key
+        )
+      );
+      const uniqueValues = Array.from(new Set(values));
+      if (uniqueValues.length > 0) {
+        nextCustom[key] = uniqueValues;
+      }
+      setParams({ cf: serializeCustomFieldFilters(nextCustom) });
+    },
+    [normalizedState.custom, setParams]
+  );
+
   // Helper: Set filter match mode
   const setMatch = useCallback(
     (mode: FilterMatchMode) => {
@@ -196,6 +220,9 @@ export function useServicesQueryState(): ServicesQueryState &
       env: null,
       owner: null,
       runtime: null,
+      lifecycle: null,
+      tag: null,
+      cf: null,
       match: "all",
     });
   }, [setParams]);
@@ -212,6 +239,13 @@ export function useServicesQueryState(): ServicesQueryState &
     if (normalizedState.runtime.length > 0) {
       count += 1;
     }
+    if (normalizedState.lifecycle.length > 0) {
+      count += 1;
+    }
+    if (normalizedState.tag.length > 0) {
+      count += 1;
+    }
+    count += Object.keys(normalizedState.custom).length;
     return count;
   }, [normalizedState]);
 
@@ -222,6 +256,9 @@ export function useServicesQueryState(): ServicesQueryState &
     toggleEnv,
     setOwner,
     setRuntime,
+    setLifecycle,
+    setTag,
+    setCustomField,
     setMatch,
     clearFilters,
     activeFilterCount,
@@ -0,0 +1,67 @@
+/**
+ * Tags Hook
+ *
+ * Loads the tags an organization has defined, sorted by name. The tags are
+ * offered in the service form and the tag filter.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import {
+  DEFAULT_TAG_COLOR,
+  type StoredTag,
+  sortTags,
+} from "@/components/service-table/tags";
+import { db } from "@/lib/db";
+
+interface TagsResult {
+  readonly tags: readonly StoredTag[];
+  readonly isLoading: boolean;
+  readonly error: { readonly message: string } | undefined;
+}
+
+/**
+ * Queries the tags of an organization (skipped until the id is known)
+ */
+export function useTags(organizationId: string | null | undefined): TagsResult {
+  // IMPORTANT: Must query organization relationship for permissions to work
+  const { data, isLoading, error } = db.useQuery(
+    organizationId
+      ? {
+          tags: {
+            $: {
+              where: {
+                organizationId,
+              },
+            },
+            organization: {
+              members: {
+                user: {},
+              },
+            },
+          },
+        }
+      : null
+  );
+
+  const tags = useMemo(
+    () =>
+      sortTags(
+        (data?.tags ?? []).map(
+          (tag): StoredTag => ({
+            id: tag.id,
+            name: tag.name,
+            color: tag.color || DEFAULT_TAG_COLOR,
+          })
+        )
+      ),
+    [data?.tags]
+  );
+
+  return {
+    tags,
+    isLoading: Boolean(organizationId) && isLoading,
+    error,
+  };
+}
@@ -45,6 +45,21 @@ const rules = {
       update: "hasEditorRole",
     },
   },
+  serviceRevisions: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasEditorRole",
+      "isOrgMember && ('member' in auth.ref('$user.members.role') || 'editor' in auth.ref('$user.members.role') || 'admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      // Revisions are an append-only audit trail
+      view: "isOrgMember",
+      create: "hasEditorRole && auth.id == data.createdById",
+      delete: "false",
+      update: "false",
+    },
+  },
   services: {
     bind: [
       "isOrgMember",
@@ -58,7 +73,121 @@ const rules = {
       view: "isOrgMember",
       create: "hasEditorRole",
       delete: "hasAdminRole",
+      // Moving a service to or from the trash is reserved to admins/owners
+      update:
+        "hasEditorRole && (newData.deletedAt == data.deletedAt || hasAdminRole)",
+    },
+  },
+  environments: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // The environment vocabulary is organization configuration
+      create: "hasAdminRole",
+      update: "hasAdminRole",
+      delete: "hasAdminRole",
+    },
+  },
+  runtimes: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Like environments, the runtime catalog is organization configuration
+      create: "hasAdminRole",
+      update: "hasAdminRole",
+      delete: "hasAdminRole",
+    },
+  },
+  customFields: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Editors fill in values on services; only admins change the fields
+      create: "hasAdminRole",
+      update: "hasAdminRole",
+      delete: "hasAdminRole",
+    },
+  },
+  serviceTemplates: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Editors create services from templates; only admins change them
+      create: "hasAdminRole",
+      update: "hasAdminRole",
+      delete: "hasAdminRole",
+    },
+  },
+  importMappings: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasEditorRole",
+      "isOrgMember && ('member' in auth.ref('$user.members.role') || 'editor' in auth.ref('$user.members.role') || 'admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Saved by the editors who import services
+      create: "hasEditorRole",
+      update: "hasEditorRole",
+      delete: "hasEditorRole",
+    },
+  },
+  tags: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasEditorRole",
+      "isOrgMember && ('member' in auth.ref('$user.members.role') || 'editor' in auth.ref('$user.members.role') || 'admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+      "keepsAttributes",
+      "newData.name == data.name && newData.color == data.color && newData.organizationId == data.organizationId && newData.createdAt == data.createdAt && newData.updatedAt == data.updatedAt",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Admins manage the tag list; editors only attach tags to services,
+      // which updates the tag's links without changing its attributes
+      create: "hasAdminRole",
+      update: "hasAdminRole || (hasEditorRole && keepsAttributes)",
+      delete: "hasAdminRole",
+    },
+  },
+  teams: {
+    bind: [
+      "isOrgMember",
+      "auth.id != null && auth.id in data.ref('organization.members.user.id')",
+      "hasEditorRole",
+      "isOrgMember && ('member' in auth.ref('$user.members.role') || 'editor' in auth.ref('$user.members.role') || 'admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+      "hasAdminRole",
+      "isOrgMember && ('admin' in auth.ref('$user.members.role') || 'owner' in auth.ref('$user.members.role'))",
+    ],
+    allow: {
+      view: "isOrgMember",
+      // Editors create teams from the service form and assign members
+      create: "hasEditorRole",
       update: "hasEditorRole",
+      delete: "hasAdminRole",
     },
   },
   $users: {
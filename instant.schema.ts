@@ -1,6 +1,15 @@
 // Docs: https://www.instantdb.com/docs/modeling-data
 
 import { i } from "@instantdb/react";
+import type {
+  CustomFieldValue,
+  CustomFieldValues,
+} from "./components/service-table/custom-fields";
+import type { ServiceImportMapping } from "./components/service-table/service-import";
+import type { ServiceLink } from "./components/service-table/service-links";
+import type { ServiceSnapshot } from "./components/service-table/service-revisions";
+import type { ServiceTemplateInterface } from "./components/service-table/service-templates";
+import type { TechStackEntry } from "./components/service-table/tech-stack";
 
 const _schema = i.schema({
   entities: {
@@ -36,6 +45,35 @@ const _schema = i.schema({
       updatedAt: i.date(),
       userId: i.string().indexed(),
     }),
+    customFields: i.entity({
+      createdAt: i.date(),
+      defaultValue: i.json<CustomFieldValue>().optional(),
+      key: i.string().indexed(),
+      label: i.string(),
+      options: i.json<string[]>().optional(),
+      order: i.number().indexed(),
+      organizationId: i.string().indexed(),
+      required: i.boolean(),
+      type: i.string(),
+      updatedAt: i.date(),
+    }),
+    environments: i.entity({
+      aliases: i.json<string[]>().optional(),
+      color: i.string(),
+      createdAt: i.date(),
+      key: i.string().indexed(),
+      label: i.string(),
+      order: i.number().indexed(),
+      organizationId: i.string().indexed(),
+      updatedAt: i.date(),
+    }),
+    importMappings: i.entity({
+      columns: i.json<ServiceImportMapping>(),
+      createdAt: i.date(),
+      name: i.string().indexed(),
+      organizationId: i.string().indexed(),
+      updatedAt: i.date(),
+    }),
     invitations: i.entity({
       createdAt: i.date(),
       email: i.string().indexed(),
@@ -63,10 +101,21 @@ const _schema = i.schema({
       metadata: i.string().optional(),
       name: i.string().indexed(),
       slug: i.string().unique().indexed(),
+      trashRetentionDays: i.number().optional(),
+    }),
+    runtimes: i.entity({
+      badge: i.string(),
+      createdAt: i.date(),
+      key: i.string().indexed(),
+      label: i.string(),
+      organizationId: i.string().indexed(),
+      runtimeIdHint: i.string().optional(),
+      updatedAt: i.date(),
     }),
     serviceDependencies: i.entity({
       createdAt: i.date(),
       dependencyName: i.string().indexed(),
+      external: i.boolean().indexed().optional(),
       serviceId: i.string().indexed(),
     }),
     serviceInterfaces: i.entity({
@@ -79,15 +128,42 @@ const _schema = i.schema({
       serviceId: i.string().indexed(),
       updatedAt: i.date(),
     }),
+    serviceRevisions: i.entity({
+      action: i.string().indexed(),
+      createdAt: i.date().indexed(),
+      createdById: i.string().indexed(),
+      organizationId: i.string().indexed(),
+      serviceId: i.string().indexed(),
+      serviceName: i.string().indexed(),
+      snapshot: i.json<ServiceSnapshot>(),
+    }),
+    serviceTemplates: i.entity({
+      createdAt: i.date(),
+      customFields: i.json<CustomFieldValues>().optional(),
+      dependencies: i.json<string[]>().optional(),
+      description: i.string().optional(),
+      interfaces: i.json<ServiceTemplateInterface[]>().optional(),
+      languages: i.json<string[]>().optional(),
+      name: i.string().indexed(),
+      organizationId: i.string().indexed(),
+      updatedAt: i.date(),
+    }),
     services: i.entity({
       createdAt: i.date(),
       createdById: i.string().indexed(),
+      customFields: i.json<CustomFieldValues>().optional(),
+      deletedAt: i.date().indexed().optional(),
+      deletedById: i.string().indexed().optional(),
       description: i.string().optional(),
       language: i.string().indexed().optional(),
+      lifecycle: i.string().indexed().optional(),
+      links: i.json<ServiceLink[]>().optional(),
       name: i.string().indexed(),
       organizationId: i.string().indexed(),
       owner: i.string().indexed(),
       repository: i.string().indexed(),
+      sunsetDate: i.string().indexed().optional(),
+      techStack: i.json<TechStackEntry[]>().optional(),
       updatedAt: i.date(),
       updatedById: i.string().indexed(),
     }),
@@ -102,6 +178,22 @@ const _schema = i.schema({
       userAgent: i.string().optional(),
       userId: i.string().indexed(),
     }),
+    tags: i.entity({
+      color: i.string(),
+      createdAt: i.date(),
+      name: i.string().indexed(),
+      organizationId: i.string().indexed(),
+      updatedAt: i.date(),
+    }),
+    teams: i.entity({
+      contactChannel: i.string().optional(),
+      createdAt: i.date(),
+      description: i.string().optional(),
+      name: i.string().indexed(),
+      organizationId: i.string().indexed(),
+      slug: i.string().indexed(),
+      updatedAt: i.date(),
+    }),
     users: i.entity({
       banExpires: i.date().optional(),
       banned: i.boolean().optional(),
@@ -149,6 +241,45 @@ const _schema = i.schema({
         label: "accounts",
       },
     },
+    customFieldsOrganization: {
+      forward: {
+        on: "customFields",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "customFields",
+      },
+    },
+    environmentsOrganization: {
+      forward: {
+        on: "environments",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "environments",
+      },
+    },
+    importMappingsOrganization: {
+      forward: {
+        on: "importMappings",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "importMappings",
+      },
+    },
     invitationsInviter: {
       forward: {
         on: "invitations",
@@ -201,6 +332,19 @@ const _schema = i.schema({
         label: "members",
       },
     },
+    runtimesOrganization: {
+      forward: {
+        on: "runtimes",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "runtimes",
+      },
+    },
     serviceDependenciesService: {
       forward: {
         on: "serviceDependencies",
@@ -214,6 +358,18 @@ const _schema = i.schema({
         label: "dependencies",
       },
     },
+    serviceDependenciesTarget: {
+      forward: {
+        on: "serviceDependencies",
+        has: "one",
+        label: "target",
+      },
+      reverse: {
+        on: "services",
+        has: "many",
+        label: "dependents",
+      },
+    },
     serviceInterfacesService: {
       forward: {
         on: "serviceInterfaces",
@@ -227,6 +383,56 @@ const _schema = i.schema({
         label: "interfaces",
       },
     },
+    serviceRevisionsAuthor: {
+      forward: {
+        on: "serviceRevisions",
+        has: "one",
+        label: "author",
+      },
+      reverse: {
+        on: "$users",
+        has: "many",
+        label: "serviceRevisions",
+      },
+    },
+    serviceRevisionsOrganization: {
+      forward: {
+        on: "serviceRevisions",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "serviceRevisions",
+      },
+    },
+    serviceRevisionsService: {
+      forward: {
+        on: "serviceRevisions",
+        has: "one",
+        label: "service",
+      },
+      reverse: {
+        on: "services",
+        has: "many",
+        label: "revisions",
+      },
+    },
+    serviceTemplatesOrganization: {
+      forward: {
+        on: "serviceTemplates",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "serviceTemplates",
+      },
+    },
     servicesCreator: {
       forward: {
         on: "services",
@@ -239,6 +445,18 @@ const _schema = i.schema({
         label: "createdServices",
       },
     },
+    servicesDeleter: {
+      forward: {
+        on: "services",
+        has: "one",
+        label: "deleter",
+      },
+      reverse: {
+        on: "$users",
+        has: "many",
+        label: "deletedServices",
+      },
+    },
     servicesOrganization: {
       forward: {
         on: "services",
@@ -252,6 +470,42 @@ const _schema = i.schema({
         label: "services",
       },
     },
+    servicesReplacement: {
+      forward: {
+        on: "services",
+        has: "one",
+        label: "replacement",
+      },
+      reverse: {
+        on: "services",
+        has: "many",
+        label: "replacedServices",
+      },
+    },
+    servicesTags: {
+      forward: {
+        on: "services",
+        has: "many",
+        label: "tags",
+      },
+      reverse: {
+        on: "tags",
+        has: "many",
+        label: "services",
+      },
+    },
+    servicesTeam: {
+      forward: {
+        on: "services",
+        has: "one",
+        label: "team",
+      },
+      reverse: {
+        on: "teams",
+        has: "many",
+        label: "services",
+      },
+    },
     servicesUpdater: {
       forward: {
         on: "services",
@@ -277,6 +531,44 @@ const _schema = i.schema({
         label: "sessions",
       },
     },
+    tagsOrganization: {
+      forward: {
+        on: "tags",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "tags",
+      },
+    },
+    teamsMembers: {
+      forward: {
+        on: "teams",
+        has: "many",
+        label: "members",
+      },
+      reverse: {
+        on: "members",
+        has: "many",
+        label: "teams",
+      },
+    },
+    teamsOrganization: {
+      forward: {
+        on: "teams",
+        has: "one",
+        label: "organization",
+        onDelete: "cascade",
+      },
+      reverse: {
+        on: "organizations",
+        has: "many",
+        label: "teams",
+      },
+    },
     users$user: {
       forward: {
         on: "users",
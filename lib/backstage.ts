@@ -0,0 +1,693 @@
+/**
+ * Backstage Catalog
+ *
+ * Reads Backstage `catalog-info.yaml` files for the services import, and
+ * writes services as catalog-info documents, so either tool can be the
+ * starting point.
+ *
+ * On import, Component entities become services. API entities become
+ * interfaces of the components providing them, one per server URL of their
+ * OpenAPI definition; APIs no component in the file provides are imported as
+ * services of their own. Resource entities are dependencies, named after
+ * the resource. System entities lend their owner to the entities in them
+ * that don't name one.
+ *
+ * `spec.owner` gives the team, `spec.dependsOn` (with `consumesApis` and
+ * `dependencyOf`) the dependencies, and the source location annotations the
+ * repository. Entities are turned into rows with the column headers of the
+ * CSV export, so the import wizard maps them by itself.
+ */
+
+import { normalizeDomain } from "@/components/service-table/domains";
+import type { LifecycleStatus } from "@/components/service-table/lifecycle";
+import { getServiceLinkTypeLabel } from "@/components/service-table/service-links";
+import type { SpreadsheetTable } from "@/components/service-table/spreadsheet-reader";
+import { slugifyTeamName } from "@/components/service-table/team-links";
+import type { InventoryService } from "@/lib/inventory";
+import {
+  isYamlMap,
+  parseYamlDocuments,
+  type YamlMap,
+  type YamlValue,
+} from "@/lib/yaml-reader";
+
+/**
+ * File name Backstage discovers entities in
+ */
+export const CATALOG_INFO_FILE_NAME = "catalog-info.yaml";
+
+const CATALOG_API_VERSION = "backstage.io/v1alpha1";
+
+/**
+ * Type of the links written for interfaces, read back on import
+ */
+const INTERFACE_LINK_TYPE = "interface";
+
+const SOURCE_LOCATION_ANNOTATION = "backstage.io/source-location";
+const MANAGED_BY_LOCATION_ANNOTATION = "backstage.io/managed-by-location";
+const GITHUB_SLUG_ANNOTATION = "github.com/project-slug";
+const GITLAB_SLUG_ANNOTATION = "gitlab.com/project-slug";
+
+const LOCATION_TYPE_PATTERN = /^url:/;
+const HTTP_URL_PATTERN = /^https?:\/\//i;
+const REPOSITORY_PATH_SUFFIX_PATTERN = /\/(-\/)?(tree|blob|src)\/.*$/;
+const TRAILING_SLASHES_PATTERN = /\/+$/;
+const GIT_SUFFIX_PATTERN = /\.git$/;
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/([^/]+\/[^/]+)$/i;
+const ENTITY_NAME_INVALID_PATTERN = /[^A-Za-z0-9_.-]+/g;
+const ENTITY_NAME_SEPARATORS_PATTERN = /[-_.]{2,}/g;
+const ENTITY_NAME_EDGES_PATTERN = /^[-_.]+|[-_.]+$/g;
+const TAG_INVALID_PATTERN = /[^a-z0-9:+#]+/g;
+const TAG_EDGES_PATTERN = /^-+|-+$/g;
+const PLAIN_SCALAR_PATTERN = /^[A-Za-z][\w./@+:-]*$/;
+
+/**
+ * Longest entity name and tag Backstage accepts
+ */
+const MAX_NAME_LENGTH = 63;
+
+/**
+ * Values YAML would read as something else than text
+ */
+const RESERVED_SCALARS = new Set([
+  "true",
+  "false",
+  "yes",
+  "no",
+  "on",
+  "off",
+  "null",
+  "y",
+  "n",
+]);
+
+/**
+ * Catalog kinds the import reads
+ */
+type CatalogKind = "component" | "api" | "resource" | "system";
+
+const CATALOG_KINDS: ReadonlySet<string> = new Set<CatalogKind>([
+  "component",
+  "api",
+  "resource",
+  "system",
+]);
+
+/**
+ * Lifecycle of the services a catalog lifecycle maps to. Deprecated
+ * entities are left to be retired in the app, which asks for a sunset date
+ * and a replacement.
+ */
+const LIFECYCLES_BY_CATALOG: Readonly<Record<string, LifecycleStatus>> = {
+  experimental: "planned",
+  production: "active",
+};
+
+/**
+ * Catalog lifecycle written for each lifecycle status
+ */
+const CATALOG_LIFECYCLES: Readonly<Record<LifecycleStatus, string>> = {
+  planned: "experimental",
+  active: "production",
+  deprecated: "deprecated",
+  retired: "deprecated",
+};
+
+/**
+ * Column headers of the import rows, as the CSV export writes them
+ */
+const CATALOG_IMPORT_HEADERS = [
+  "Service",
+  "Description",
+  "Team",
+  "Repository",
+  "Dependencies",
+  "Lifecycle",
+  "Domain",
+  "Environment",
+];
+
+/**
+ * Entity of a catalog file
+ */
+interface CatalogEntity {
+  readonly kind: CatalogKind;
+  readonly name: string;
+  readonly title: string | null;
+  readonly description: string | null;
+  readonly annotations: YamlMap;
+  readonly links: readonly YamlValue[];
+  readonly spec: YamlMap;
+  /** Line the entity's document starts on */
+  readonly line: number;
+}
+
+/**
+ * Reference to an entity, as `[kind:][namespace/]name`
+ */
+interface EntityRef {
+  readonly kind: string;
+  readonly name: string;
+}
+
+/**
+ * Interface of an imported service
+ */
+interface CatalogInterface {
+  readonly domain: string;
+  readonly env: string;
+}
+
+/**
+ * Entities of a file, indexed to resolve the references between them
+ */
+interface CatalogIndex {
+  readonly entities: readonly CatalogEntity[];
+  readonly byRef: ReadonlyMap<string, CatalogEntity>;
+  /** Components providing each API, by API reference key */
+  readonly providers: ReadonlyMap<string, readonly CatalogEntity[]>;
+}
+
+/**
+ * Text of a scalar node; other nodes have none
+ */
+function getText(value: YamlValue | undefined): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Mapping under a key, empty when missing
+ */
+function getMap(map: YamlMap, key: string): YamlMap {
+  const value = map[key];
+  return isYamlMap(value) ? value : {};
+}
+
+/**
+ * Sequence under a key; a single value counts as a sequence of one
+ */
+function getList(map: YamlMap, key: string): readonly YamlValue[] {
+  const value = map[key];
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value === null || value === undefined ? [] : [value];
+}
+
+/**
+ * Texts of a sequence under a key
+ */
+function getTextList(map: YamlMap, key: string): string[] {
+  return getList(map, key).flatMap((item) => getText(item) ?? []);
+}
+
+/**
+ * Reads a document as an entity of one of the imported kinds
+ */
+function toCatalogEntity(value: YamlValue, line: number): CatalogEntity | null {
+  if (!isYamlMap(value)) {
+    return null;
+  }
+  const kind = getText(value.kind)?.toLowerCase() ?? "";
+  const metadata = getMap(value, "metadata");
+  const name = getText(metadata.name);
+  if (!(name && CATALOG_KINDS.has(kind))) {
+    return null;
+  }
+  return {
+    kind: kind as CatalogKind,
+    name,
+    title: getText(metadata.title),
+    description: getText(metadata.description),
+    annotations: getMap(metadata, "annotations"),
+    links: getList(metadata, "links"),
+    spec: getMap(value, "spec"),
+    line,
+  };
+}
+
+/**
+ * Splits an entity reference, using a default kind when it has none
+ */
+function parseEntityRef(ref: string, defaultKind: string): EntityRef {
+  const colon = ref.indexOf(":");
+  const kind = colon === -1 ? defaultKind : ref.slice(0, colon);
+  const path = colon === -1 ? ref : ref.slice(colon + 1);
+  return {
+    kind: kind.trim().toLowerCase(),
+    name: path.slice(path.lastIndexOf("/") + 1).trim(),
+  };
+}
+
+/**
+ * Key of an entity reference in the index; names compare case-insensitively
+ */
+function getRefKey(ref: EntityRef): string {
+  return `${ref.kind}:${ref.name.toLowerCase()}`;
+}
+
+/**
+ * Indexes entities by reference, and the components providing each API
+ */
+function indexCatalog(entities: readonly CatalogEntity[]): CatalogIndex {
+  const byRef = new Map<string, CatalogEntity>();
+  const providers = new Map<string, CatalogEntity[]>();
+  for (const entity of entities) {
+    byRef.set(getRefKey(entity), entity);
+  }
+  for (const entity of entities) {
+    if (entity.kind !== "component") {
+      continue;
+    }
+    for (const ref of getTextList(entity.spec, "providesApis")) {
+      const key = getRefKey(parseEntityRef(ref, "api"));
+      providers.set(key, [...(providers.get(key) ?? []), entity]);
+    }
+  }
+  return { entities, byRef, providers };
+}
+
+/**
+ * Whether an entity becomes a service: components, and APIs no component
+ * in the file provides
+ */
+function isImportedService(
+  entity: CatalogEntity,
+  index: CatalogIndex
+): boolean {
+  return (
+    entity.kind === "component" ||
+    (entity.kind === "api" && !index.providers.has(getRefKey(entity)))
+  );
+}
+
+/**
+ * Name of the service an entity is imported as
+ */
+function getServiceName(entity: CatalogEntity): string {
+  return entity.title ?? entity.name;
+}
+
+/**
+ * Names of the services and resources an entity reference resolves to.
+ * APIs resolve to the components providing them.
+ */
+function resolveDependencyRef(
+  ref: string,
+  defaultKind: string,
+  index: CatalogIndex
+): string[] {
+  const parsed = parseEntityRef(ref, defaultKind);
+  const key = getRefKey(parsed);
+  const providers = index.providers.get(key);
+  if (parsed.kind === "api" && providers) {
+    return providers.map(getServiceName);
+  }
+  const entity = index.byRef.get(key);
+  return [entity ? getServiceName(entity) : parsed.name];
+}
+
+/**
+ * Names of the services and resources an entity depends on, from its own
+ * `dependsOn` and `consumesApis`, and the `dependencyOf` of other entities
+ */
+function getCatalogDependencies(
+  entity: CatalogEntity,
+  index: CatalogIndex
+): string[] {
+  const key = getRefKey(entity);
+  const names = [
+    ...getTextList(entity.spec, "dependsOn").flatMap((ref) =>
+      resolveDependencyRef(ref, "component", index)
+    ),
+    ...getTextList(entity.spec, "consumesApis").flatMap((ref) =>
+      resolveDependencyRef(ref, "api", index)
+    ),
+    ...index.entities
+      .filter((other) =>
+        getTextList(other.spec, "dependencyOf").some(
+          (ref) => getRefKey(parseEntityRef(ref, "component")) === key
+        )
+      )
+      .map(getServiceName),
+  ];
+  const own = getServiceName(entity).toLowerCase();
+  return names.filter((name) => name.toLowerCase() !== own);
+}
+
+/**
+ * Team of an entity: its owner, or the owner of its system
+ */
+function getCatalogOwner(entity: CatalogEntity, index: CatalogIndex): string {
+  const systemRef = getText(entity.spec.system);
+  const system = systemRef
+    ? index.byRef.get(getRefKey(parseEntityRef(systemRef, "system")))
+    : undefined;
+  const owner = getText(entity.spec.owner) ?? getText(system?.spec.owner);
+  return owner ? parseEntityRef(owner, "group").name : "";
+}
+
+/**
+ * Repository URL of a location annotation, without the path to a branch or
+ * file
+ */
+function toRepositoryUrl(location: string): string | null {
+  const url = location.replace(LOCATION_TYPE_PATTERN, "").trim();
+  if (!HTTP_URL_PATTERN.test(url)) {
+    return null;
+  }
+  return url
+    .replace(REPOSITORY_PATH_SUFFIX_PATTERN, "")
+    .replace(TRAILING_SLASHES_PATTERN, "")
+    .replace(GIT_SUFFIX_PATTERN, "");
+}
+
+/**
+ * Repository of an entity, from its source location, project slug or
+ * catalog file location annotations
+ */
+function getCatalogRepository(entity: CatalogEntity): string {
+  const { annotations } = entity;
+  const githubSlug = getText(annotations[GITHUB_SLUG_ANNOTATION]);
+  const gitlabSlug = getText(annotations[GITLAB_SLUG_ANNOTATION]);
+  const candidates = [
+    getText(annotations[SOURCE_LOCATION_ANNOTATION]),
+    githubSlug ? `https://github.com/${githubSlug}` : null,
+    gitlabSlug ? `https://gitlab.com/${gitlabSlug}` : null,
+    getText(annotations[MANAGED_BY_LOCATION_ANNOTATION]),
+  ];
+  for (const candidate of candidates) {
+    const url = candidate ? toRepositoryUrl(candidate) : null;
+    if (url) {
+      return url;
+    }
+  }
+  return "";
+}
+
+/**
+ * Absolute server URLs of an OpenAPI definition, written inline as YAML or
+ * JSON. Definitions that can't be read give none.
+ */
+function getDefinitionServerUrls(definition: string | null): string[] {
+  if (!definition) {
+    return [];
+  }
+  let document: unknown;
+  try {
+    document = definition.startsWith("{")
+      ? JSON.parse(definition)
+      : parseYamlDocuments(definition)[0]?.value;
+  } catch {
+    return [];
+  }
+  const servers =
+    typeof document === "object" && document !== null
+      ? (document as { servers?: unknown }).servers
+      : undefined;
+  if (!Array.isArray(servers)) {
+    return [];
+  }
+  return servers.flatMap((server: unknown) => {
+    const url = (server as { url?: unknown } | null)?.url;
+    return typeof url === "string" &&
+      HTTP_URL_PATTERN.test(url) &&
+      !url.includes("{")
+      ? [url]
+      : [];
+  });
+}
+
+/**
+ * Interfaces written as links of the interface type, with the environment
+ * as title
+ */
+function getInterfaceLinks(entity: CatalogEntity): CatalogInterface[] {
+  return entity.links.flatMap((link) => {
+    if (!isYamlMap(link) || getText(link.type) !== INTERFACE_LINK_TYPE) {
+      return [];
+    }
+    const url = getText(link.url);
+    return url
+      ? [{ domain: normalizeDomain(url), env: getText(link.title) ?? "" }]
+      : [];
+  });
+}
+
+/**
+ * Interfaces of a service: its interface links, then the servers of the
+ * APIs it is imported from or provides, once per domain
+ */
+function getCatalogInterfaces(
+  entity: CatalogEntity,
+  index: CatalogIndex
+): CatalogInterface[] {
+  const apis =
+    entity.kind === "api"
+      ? [entity]
+      : getTextList(entity.spec, "providesApis").flatMap(
+          (ref) => index.byRef.get(getRefKey(parseEntityRef(ref, "api"))) ?? []
+        );
+  const interfaces = [
+    ...getInterfaceLinks(entity),
+    ...apis.flatMap((api) =>
+      getDefinitionServerUrls(getText(api.spec.definition)).map((url) => ({
+        domain: normalizeDomain(url),
+        env: "",
+      }))
+    ),
+  ];
+  return interfaces.filter(
+    (iface, position) =>
+      interfaces.findIndex((other) => other.domain === iface.domain) ===
+      position
+  );
+}
+
+/**
+ * Import rows of a service: one per interface, or a single row without
+ * one, repeating the service cells
+ */
+function toCatalogImportRows(
+  entity: CatalogEntity,
+  index: CatalogIndex
+): SpreadsheetTable["rows"] {
+  const lifecycle = getText(entity.spec.lifecycle)?.toLowerCase() ?? "";
+  const serviceCells = [
+    getServiceName(entity),
+    entity.description ?? "",
+    getCatalogOwner(entity, index),
+    getCatalogRepository(entity),
+    getCatalogDependencies(entity, index).join(", "),
+    Object.hasOwn(LIFECYCLES_BY_CATALOG, lifecycle)
+      ? LIFECYCLES_BY_CATALOG[lifecycle]
+      : "",
+  ];
+  const interfaces = getCatalogInterfaces(entity, index);
+  return (interfaces.length > 0 ? interfaces : [{ domain: "", env: "" }]).map(
+    (iface) => ({
+      number: entity.line,
+      cells: [...serviceCells, iface.domain, iface.env],
+    })
+  );
+}
+
+/**
+ * Reads the entities of a catalog file as import rows, with the headers of
+ * the CSV export. Row numbers are the lines the entities start on.
+ *
+ * @param text - Content of one or more catalog-info files
+ * @returns Rows of the services to import
+ * @throws Error when the YAML can't be read or holds no imported entity
+ */
+export function readCatalogImportTable(text: string): SpreadsheetTable {
+  const entities = parseYamlDocuments(text).flatMap(
+    (document) => toCatalogEntity(document.value, document.line) ?? []
+  );
+  if (entities.length === 0) {
+    throw new Error(
+      "The file holds no Component, API, Resource or System entity"
+    );
+  }
+  const index = indexCatalog(entities);
+  return {
+    headers: CATALOG_IMPORT_HEADERS,
+    rows: entities
+      .filter((entity) => isImportedService(entity, index))
+      .flatMap((entity) => toCatalogImportRows(entity, index)),
+  };
+}
+
+/**
+ * Entity name for a service name: letters, digits and single separators,
+ * lowercased as Backstage recommends. The services import matches
+ * dependencies by it, as references to entities outside the file keep it.
+ *
+ * @param name - Service or dependency name
+ * @returns Entity name, "service" when nothing of the name is allowed
+ */
+export function toCatalogEntityName(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(ENTITY_NAME_INVALID_PATTERN, "-")
+    .replace(ENTITY_NAME_SEPARATORS_PATTERN, "-")
+    .replace(ENTITY_NAME_EDGES_PATTERN, "");
+  return (
+    slug.slice(0, MAX_NAME_LENGTH).replace(ENTITY_NAME_EDGES_PATTERN, "") ||
+    "service"
+  );
+}
+
+/**
+ * Catalog tag for a tag name; empty when nothing of it is allowed
+ */
+function toCatalogTag(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(TAG_INVALID_PATTERN, "-")
+    .replace(TAG_EDGES_PATTERN, "")
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(TAG_EDGES_PATTERN, "");
+}
+
+/**
+ * Scalar as written to a catalog document: plain when YAML reads it back as
+ * the same text, double-quoted otherwise
+ */
+function formatCatalogScalar(value: string): string {
+  return PLAIN_SCALAR_PATTERN.test(value) &&
+    !value.endsWith(":") &&
+    !RESERVED_SCALARS.has(value.toLowerCase())
+    ? value
+    : JSON.stringify(value);
+}
+
+/**
+ * Annotations locating the source of a service
+ */
+function getSourceAnnotations(repository: string): [string, string][] {
+  if (!HTTP_URL_PATTERN.test(repository)) {
+    return [];
+  }
+  const annotations: [string, string][] = [
+    [SOURCE_LOCATION_ANNOTATION, `url:${repository}`],
+  ];
+  const github = GITHUB_URL_PATTERN.exec(
+    repository.replace(TRAILING_SLASHES_PATTERN, "")
+  );
+  if (github) {
+    annotations.push([GITHUB_SLUG_ANNOTATION, github[1]]);
+  }
+  return annotations;
+}
+
+/**
+ * Lines of the metadata links: interfaces first, then operational links
+ */
+function getCatalogLinkLines(service: InventoryService): string[] {
+  const links = [
+    ...service.interfaces.map((iface) => ({
+      url: `https://${iface.domain}`,
+      title: iface.env ?? "",
+      type: INTERFACE_LINK_TYPE,
+    })),
+    ...service.links.map((link) => {
+      const label = getServiceLinkTypeLabel(link.type);
+      return {
+        url: link.url,
+        title: link.env ? `${label} (${link.env})` : label,
+        type: link.type,
+      };
+    }),
+  ];
+  return links.flatMap(({ url, title, type }) => [
+    `    - url: ${formatCatalogScalar(url)}`,
+    ...(title ? [`      title: ${formatCatalogScalar(title)}`] : []),
+    `      type: ${formatCatalogScalar(type)}`,
+  ]);
+}
+
+/**
+ * Lines of a list under a key, left out when empty
+ */
+function toListLines(
+  key: string,
+  indent: string,
+  values: readonly string[]
+): string[] {
+  return values.length > 0
+    ? [
+        `${indent}${key}:`,
+        ...values.map((value) => `${indent}  - ${formatCatalogScalar(value)}`),
+      ]
+    : [];
+}
+
+/**
+ * Writes a service as a Component entity
+ */
+function toCatalogInfoDocument(
+  service: InventoryService,
+  serviceNames: ReadonlySet<string>
+): string {
+  const name = toCatalogEntityName(service.name);
+  const annotations = getSourceAnnotations(service.repository);
+  const links = getCatalogLinkLines(service);
+  const tags = [...new Set(service.tags.map(toCatalogTag))].filter(Boolean);
+  const owner = slugifyTeamName(service.owner);
+  const dependsOn = service.dependencies.map(
+    (dependency) =>
+      `${serviceNames.has(dependency) ? "component" : "resource"}:${toCatalogEntityName(dependency)}`
+  );
+
+  const lines = [
+    `apiVersion: ${CATALOG_API_VERSION}`,
+    "kind: Component",
+    "metadata:",
+    `  name: ${formatCatalogScalar(name)}`,
+    ...(name === service.name
+      ? []
+      : [`  title: ${formatCatalogScalar(service.name)}`]),
+    ...(service.description
+      ? [`  description: ${formatCatalogScalar(service.description)}`]
+      : []),
+    ...(annotations.length > 0
+      ? [
+          "  annotations:",
+          ...annotations.map(
+            ([key, value]) => `    ${key}: ${formatCatalogScalar(value)}`
+          ),
+        ]
+      : []),
+    ...toListLines("tags", "  ", tags),
+    ...(links.length > 0 ? ["  links:", ...links] : []),
+    "spec:",
+    "  type: service",
+    `  lifecycle: ${CATALOG_LIFECYCLES[service.lifecycle]}`,
+    ...(owner ? [`  owner: ${formatCatalogScalar(`group:${owner}`)}`] : []),
+    ...toListLines("dependsOn", "  ", dependsOn),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes services as catalog-info documents, one Component entity per
+ * service, sorted by name. Dependencies on services of the organization are
+ * components, others resources, referred to by entity name; the services
+ * import matches those names to the services and dependencies they came
+ * from.
+ *
+ * @param services - Services from toInventoryService
+ * @param serviceNames - Names of every service of the organization
+ * @returns YAML stream of the documents, separated by `---`
+ */
+export function serializeCatalogInfo(
+  services: readonly InventoryService[],
+  serviceNames: ReadonlySet<string>
+): string {
+  return [...services]
+    .sort((a, b) => (a.name < b.name ? -1 : Number(a.name > b.name)))
+    .map((service) => toCatalogInfoDocument(service, serviceNames))
+    .join("---\n");
+}
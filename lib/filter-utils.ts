@@ -11,21 +11,48 @@
  * - Summary text generation for chips
  */
 
-import { ENV_LABELS } from "@/components/service-table/constants";
-import type { Environment } from "@/hooks/use-services-query-state";
+import {
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+  getCustomFieldFilterTokens,
+  isChoiceCustomField,
+} from "@/components/service-table/custom-fields";
+import {
+  compareEnvironmentValues,
+  type EnvironmentCatalog,
+  findEnvironment,
+} from "@/components/service-table/environments";
+import { LIFECYCLE_STATUSES } from "@/components/service-table/lifecycle";
+import {
+  getRuntimeLabel,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
+import type { TagDefinition } from "@/components/service-table/tags";
 import type {
+  CustomFieldFilter,
+  CustomFilterFieldType,
   FilterFieldMetadata,
   FilterFieldType,
   FilterOperator,
   FilterValueOption,
 } from "@/types/filters";
 
+/**
+ * Filter fields every organization has
+ */
+type StandardFilterFieldType = Exclude<FilterFieldType, CustomFilterFieldType>;
+
+/**
+ * Prefix of custom field filter fields
+ */
+const CUSTOM_FILTER_FIELD_PREFIX = "custom:";
+
 /**
  * Metadata for all supported filter fields.
  * Defines display labels, plural forms, and multi-select support.
  */
 const FILTER_FIELD_METADATA: Readonly<
-  Record<FilterFieldType, FilterFieldMetadata>
+  Record<StandardFilterFieldType, FilterFieldMetadata>
 > = {
   env: {
     field: "env",
@@ -35,8 +62,8 @@ const FILTER_FIELD_METADATA: Readonly<
   },
   owner: {
     field: "owner",
-    label: "Owner",
-    pluralLabel: "owners",
+    label: "Team",
+    pluralLabel: "teams",
     supportsMultiSelect: true,
   },
   runtime: {
@@ -45,39 +72,105 @@ const FILTER_FIELD_METADATA: Readonly<
     pluralLabel: "runtimes",
     supportsMultiSelect: true,
   },
+  lifecycle: {
+    field: "lifecycle",
+    label: "Status",
+    pluralLabel: "statuses",
+    supportsMultiSelect: true,
+  },
+  tag: {
+    field: "tag",
+    label: "Tag",
+    pluralLabel: "tags",
+    supportsMultiSelect: true,
+  },
 } as const;
 
 /**
  * Order in which filter fields should appear in the UI.
  * Stable order ensures consistent chip placement.
  */
-const FILTER_FIELD_DISPLAY_ORDER: readonly FilterFieldType[] = [
+const FILTER_FIELD_DISPLAY_ORDER: readonly StandardFilterFieldType[] = [
   "env",
   "runtime",
   "owner",
+  "lifecycle",
+  "tag",
 ] as const;
 
+/**
+ * Returns the filter field of a custom field.
+ *
+ * @param key - Custom field key
+ * @returns Filter field, e.g. "custom:cost_center"
+ */
+export function getCustomFieldFilterField(key: string): CustomFilterFieldType {
+  return `${CUSTOM_FILTER_FIELD_PREFIX}${key}`;
+}
+
+/**
+ * Returns the custom field key of a filter field.
+ *
+ * @param field - Filter field type
+ * @returns Custom field key, or null for the standard fields
+ */
+export function getCustomFieldFilterKey(field: FilterFieldType): string | null {
+  return field.startsWith(CUSTOM_FILTER_FIELD_PREFIX)
+    ? field.slice(CUSTOM_FILTER_FIELD_PREFIX.length)
+    : null;
+}
+
+/**
+ * Builds the metadata of a custom field filter.
+ *
+ * @param filter - Custom field offered in the builder
+ * @returns Field metadata labelled with the custom field's label
+ */
+function createCustomFieldMetadata(
+  filter: CustomFieldFilter
+): FilterFieldMetadata {
+  return {
+    field: getCustomFieldFilterField(filter.key),
+    label: filter.label,
+    pluralLabel: "values",
+    supportsMultiSelect: true,
+  };
+}
+
 /**
  * Returns metadata for a specific filter field.
  *
  * @param field - Filter field type
+ * @param customFieldFilters - Custom fields of the organization
  * @returns Field metadata including labels and capabilities
  */
 export function getFilterFieldMetadata(
-  field: FilterFieldType
+  field: FilterFieldType,
+  customFieldFilters: readonly CustomFieldFilter[] = []
 ): FilterFieldMetadata {
-  return FILTER_FIELD_METADATA[field];
+  const key = getCustomFieldFilterKey(field);
+  if (key === null) {
+    return FILTER_FIELD_METADATA[field as StandardFilterFieldType];
+  }
+  const filter = customFieldFilters.find((candidate) => candidate.key === key);
+  return createCustomFieldMetadata(
+    filter ?? { key, label: key, options: [] }
+  );
 }
 
 /**
- * Returns all filter field metadata in display order.
+ * Returns all filter field metadata in display order, custom fields last.
  *
+ * @param customFieldFilters - Custom fields of the organization
  * @returns Array of field metadata ordered for UI display
  */
-export function getAllFilterFieldMetadata(): readonly FilterFieldMetadata[] {
-  return FILTER_FIELD_DISPLAY_ORDER.map(
-    (field) => FILTER_FIELD_METADATA[field]
-  );
+export function getAllFilterFieldMetadata(
+  customFieldFilters: readonly CustomFieldFilter[] = []
+): readonly FilterFieldMetadata[] {
+  return [
+    ...FILTER_FIELD_DISPLAY_ORDER.map((field) => FILTER_FIELD_METADATA[field]),
+    ...customFieldFilters.map(createCustomFieldMetadata),
+  ];
 }
 
 /**
@@ -91,32 +184,43 @@ export function getOperatorForValueCount(valueCount: number): FilterOperator {
 }
 
 /**
- * Formats a single environment value for display.
- *
- * @param env - Environment value
- * @returns Display label (e.g., "PROD", "STAGE", "DEV")
- */
-export function formatEnvironmentLabel(env: Environment): string {
-  return ENV_LABELS[env];
-}
-
-/**
- * Generates environment filter value options.
+ * Generates environment filter value options: the organization's
+ * environments, then stored values that match none of them.
  *
+ * @param catalog - Environments of the organization
+ * @param storedValues - Environment values found on services
  * @returns Array of environment options with display labels and search terms
  */
-export function getEnvironmentOptions(): readonly FilterValueOption[] {
-  const environments: readonly Environment[] = [
-    "production",
-    "staging",
-    "development",
-  ];
-
-  return environments.map((env) => ({
-    value: env,
-    displayLabel: formatEnvironmentLabel(env),
-    searchTerms: [env, formatEnvironmentLabel(env).toLowerCase()],
+export function getEnvironmentOptions(
+  catalog: EnvironmentCatalog,
+  storedValues: readonly string[]
+): readonly FilterValueOption[] {
+  const definedOptions = catalog.environments.map((environment) => ({
+    value: environment.key,
+    displayLabel: environment.label,
+    searchTerms: [
+      environment.key.toLowerCase(),
+      environment.label.toLowerCase(),
+      ...environment.aliases,
+    ],
   }));
+
+  const undefinedValues = Array.from(
+    new Set(
+      storedValues.filter(
+        (value) => value.length > 0 && !findEnvironment(catalog, value)
+      )
+    )
+  ).sort((a, b) => compareEnvironmentValues(catalog, a, b));
+
+  return [
+    ...definedOptions,
+    ...undefinedValues.map((value) => ({
+      value,
+      displayLabel: value.toUpperCase(),
+      searchTerms: [value.toLowerCase()],
+    })),
+  ];
 }
 
 /**
@@ -136,18 +240,117 @@ export function getOwnerOptions(
 }
 
 /**
- * Generates runtime filter value options from available runtimes.
+ * Generates runtime filter value options from the runtimes found on
+ * services, labelled from the organization's runtime catalog.
  *
- * @param availableRuntimes - List of runtime identifiers
- * @returns Array of runtime options with display labels
+ * @param catalog - Runtime types of the organization
+ * @param availableRuntimes - Runtime types found on services
+ * @returns Array of runtime options with display labels, sorted by label
  */
 export function getRuntimeOptions(
+  catalog: RuntimeCatalog,
   availableRuntimes: readonly string[]
 ): readonly FilterValueOption[] {
-  return availableRuntimes.map((runtime) => ({
-    value: runtime,
-    displayLabel: runtime,
-    searchTerms: [runtime.toLowerCase()],
+  return availableRuntimes
+    .map((runtime) => ({
+      value: runtime,
+      displayLabel: getRuntimeLabel(catalog, runtime),
+      searchTerms: [
+        runtime.toLowerCase(),
+        getRuntimeLabel(catalog, runtime).toLowerCase(),
+      ],
+    }))
+    .sort((a, b) => a.displayLabel.localeCompare(b.displayLabel));
+}
+
+/**
+ * Generates lifecycle filter value options, in lifecycle order.
+ *
+ * @returns Array of lifecycle status options with display labels
+ */
+export function getLifecycleOptions(): readonly FilterValueOption[] {
+  return LIFECYCLE_STATUSES.map((status) => ({
+    value: status.value,
+    displayLabel: status.label,
+    searchTerms: [status.value, status.label.toLowerCase()],
+  }));
+}
+
+/**
+ * Generates tag filter value options from the organization's tags.
+ *
+ * @param tags - Tags of the organization, sorted by name
+ * @returns Array of tag options, keyed by tag name
+ */
+export function getTagOptions(
+  tags: readonly TagDefinition[]
+): readonly FilterValueOption[] {
+  return tags.map((tag) => ({
+    value: tag.name,
+    displayLabel: tag.name,
+    searchTerms: [tag.name.toLowerCase()],
+  }));
+}
+
+/**
+ * Generates the value options of a custom field: its options for choice
+ * fields, yes and no for booleans, and the values found on services for the
+ * other types.
+ *
+ * @param definition - Custom field of the organization
+ * @param storedValues - Custom field values of the services
+ * @returns Array of value options with display labels
+ */
+function getCustomFieldValueOptions(
+  definition: CustomFieldDefinition,
+  storedValues: readonly CustomFieldValues[]
+): readonly FilterValueOption[] {
+  if (definition.type === "boolean") {
+    return [
+      { value: "true", displayLabel: "Yes", searchTerms: ["yes", "true"] },
+      { value: "false", displayLabel: "No", searchTerms: ["no", "false"] },
+    ];
+  }
+
+  const found = new Set(
+    storedValues.flatMap((values) =>
+      getCustomFieldFilterTokens(values[definition.key])
+    )
+  );
+  const values = isChoiceCustomField(definition.type)
+    ? [
+        ...definition.options,
+        ...Array.from(found)
+          .filter((value) => !definition.options.includes(value))
+          .sort((a, b) => a.localeCompare(b)),
+      ]
+    : Array.from(found).sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      );
+
+  return values.map((value) => ({
+    value,
+    displayLabel: value,
+    searchTerms: [value.toLowerCase()],
+  }));
+}
+
+/**
+ * Generates the filter fields of an organization's custom fields.
+ *
+ * @param definitions - Custom fields of the organization, in display order
+ * @param services - Services providing the values found
+ * @returns Custom fields with their value options
+ */
+export function getCustomFieldFilters(
+  definitions: readonly CustomFieldDefinition[],
+  services: ReadonlyArray<{ readonly customFields?: CustomFieldValues }>
+): readonly CustomFieldFilter[] {
+  const storedValues = services.map((service) => service.customFields ?? {});
+  return definitions.map((definition) => ({
+    key: definition.key,
+    label: definition.label,
+    options: getCustomFieldValueOptions(definition, storedValues),
   }));
 }
 
@@ -182,11 +385,15 @@ export function filterValueOptions(
  *
  * @param field - Filter field type
  * @param values - Selected filter values
+ * @param valueOptions - Options providing display labels (raw value if absent)
+ * @param customFieldFilters - Custom fields of the organization
  * @returns Formatted display text for chip
  */
 export function generateChipValueDisplay(
   field: FilterFieldType,
-  values: readonly string[]
+  values: readonly string[],
+  valueOptions: readonly FilterValueOption[] = [],
+  customFieldFilters: readonly CustomFieldFilter[] = []
 ): string {
   if (values.length === 0) {
     return "";
@@ -194,13 +401,13 @@ export function generateChipValueDisplay(
 
   if (values.length === 1) {
     const singleValue = values[0];
-    if (field === "env") {
-      return formatEnvironmentLabel(singleValue as Environment);
-    }
-    return singleValue;
+    return (
+      valueOptions.find((option) => option.value === singleValue)
+        ?.displayLabel ?? singleValue
+    );
   }
 
-  const metadata = getFilterFieldMetadata(field);
+  const metadata = getFilterFieldMetadata(field, customFieldFilters);
   return `${values.length} ${metadata.pluralLabel}`;
 }
 
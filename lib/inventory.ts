@@ -0,0 +1,214 @@
+/**
+ * Service Inventory Documents
+ *
+ * Canonical YAML and JSON documents of an organization's services, for
+ * keeping the inventory in git and feeding scripts. The YAML is the legacy
+ * format read by `parseYaml`; the JSON holds the same services with the
+ * fields the legacy format lacks, and is described by the JSON Schema
+ * published at `INVENTORY_SCHEMA_PATH`.
+ *
+ * Both documents write keys in a fixed order, sort services by name and
+ * their lists by value, and leave out the export time, so exporting an
+ * unchanged inventory gives the same file.
+ */
+
+import type { CustomFieldValues } from "@/components/service-table/custom-fields";
+import {
+  DEFAULT_LIFECYCLE_STATUS,
+  type LifecycleStatus,
+} from "@/components/service-table/lifecycle";
+import type { ServiceLink } from "@/components/service-table/service-links";
+import type { TechStackEntry } from "@/components/service-table/tech-stack";
+import type {
+  EnvironmentInfo,
+  GroupedService,
+} from "@/components/service-table/types";
+import {
+  normalizeRuntimeType,
+  type Service,
+  type ServiceInterface,
+  serializeYaml,
+} from "@/lib/yaml-utils";
+
+/**
+ * Version of the JSON document, bumped on incompatible changes
+ */
+export const INVENTORY_FORMAT_VERSION = 1;
+
+/**
+ * Path of the JSON Schema describing the JSON document
+ */
+export const INVENTORY_SCHEMA_PATH = "/schemas/inventory.v1.schema.json";
+
+/**
+ * Service in the inventory documents. The legacy fields come first, with
+ * the owning team's name as owner.
+ */
+export interface InventoryService {
+  readonly name: string;
+  readonly owner: string;
+  readonly repository: string;
+  /** Names of the services and external systems depended on */
+  readonly dependencies: readonly string[];
+  /** Interfaces, with the environment key as env */
+  readonly interfaces: readonly ServiceInterface[];
+  readonly description: string | null;
+  readonly languages: readonly string[];
+  readonly lifecycle: LifecycleStatus;
+  readonly sunsetDate: string | null;
+  /** Name of the replacement service */
+  readonly replacement: string | null;
+  /** Tag names */
+  readonly tags: readonly string[];
+  readonly techStack: readonly TechStackEntry[];
+  readonly links: readonly ServiceLink[];
+  /** Custom field values by field key */
+  readonly customFields: CustomFieldValues;
+}
+
+/**
+ * Orders text by code point, independently of the locale, so documents are
+ * sorted the same everywhere
+ */
+function compareText(a: string, b: string): number {
+  if (a < b) {
+    return -1;
+  }
+  if (a > b) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Orders interfaces by domain, then environment, then branch
+ */
+function compareInterfaces(a: ServiceInterface, b: ServiceInterface): number {
+  return (
+    compareText(a.domain, b.domain) ||
+    compareText(a.env ?? "", b.env ?? "") ||
+    compareText(a.branch ?? "", b.branch ?? "")
+  );
+}
+
+/**
+ * Interface in the inventory; the runtime is written when either its type
+ * or its id is recorded, with an empty id when only the type is
+ */
+function toInventoryInterface(env: EnvironmentInfo): ServiceInterface {
+  return {
+    domain: env.domain,
+    env: env.env,
+    branch: env.branch,
+    runtime:
+      env.runtimeType || env.runtimeId
+        ? {
+            type: normalizeRuntimeType(env.runtimeType ?? ""),
+            id: env.runtimeId ?? "",
+          }
+        : null,
+  };
+}
+
+/**
+ * Custom field values with their keys sorted
+ */
+function sortCustomFieldValues(values: CustomFieldValues): CustomFieldValues {
+  return Object.fromEntries(
+    Object.entries(values).sort(([a], [b]) => compareText(a, b))
+  );
+}
+
+/**
+ * Converts a service to its inventory form, with sorted dependencies,
+ * interfaces, tags and custom fields. The tech stack and links keep the
+ * order chosen on the service.
+ *
+ * @param service - Service as shown in the services table
+ * @returns Service as written to the inventory documents
+ */
+export function toInventoryService(service: GroupedService): InventoryService {
+  return {
+    name: service.name,
+    owner: service.owner,
+    repository: service.repository,
+    dependencies: [...service.dependencies].sort(compareText),
+    interfaces: service.environments
+      .map(toInventoryInterface)
+      .sort(compareInterfaces),
+    description: service.description ?? null,
+    languages: service.languages ?? [],
+    lifecycle: service.lifecycle ?? DEFAULT_LIFECYCLE_STATUS,
+    sunsetDate: service.sunsetDate ?? null,
+    replacement: service.replacementName ?? null,
+    tags: (service.tags ?? []).map((tag) => tag.name).sort(compareText),
+    techStack: (service.techStack ?? []).map(({ kind, name, version }) => ({
+      kind,
+      name,
+      version,
+    })),
+    links: (service.links ?? []).map(({ type, url, env }) => ({
+      type,
+      url,
+      env,
+    })),
+    customFields: sortCustomFieldValues(service.customFields ?? {}),
+  };
+}
+
+/**
+ * Orders services by name
+ */
+function compareServices(a: InventoryService, b: InventoryService): number {
+  return compareText(a.name, b.name);
+}
+
+/**
+ * Legacy fields of an inventory service, as parseYaml returns them
+ */
+function toLegacyService(service: InventoryService): Service {
+  return {
+    name: service.name,
+    owner: service.owner,
+    repository: service.repository,
+    dependencies: service.dependencies,
+    interfaces: service.interfaces.length > 0 ? service.interfaces : undefined,
+  };
+}
+
+/**
+ * Writes services as the legacy YAML inventory, sorted by name. parseYaml
+ * reads back the legacy fields of each service.
+ *
+ * @param services - Services from toInventoryService
+ * @returns YAML document
+ * @throws Error if parseYaml can't read a service back unchanged, such as
+ *   one without an owner or with a runtime type but no id
+ */
+export function serializeInventoryYaml(
+  services: readonly InventoryService[]
+): string {
+  return serializeYaml({
+    services: [...services].sort(compareServices).map(toLegacyService),
+  });
+}
+
+/**
+ * Writes services as the JSON inventory, sorted by name, with the URL of
+ * its JSON Schema and the format version
+ *
+ * @param services - Services from toInventoryService
+ * @param schemaUrl - URL where INVENTORY_SCHEMA_PATH is served
+ * @returns JSON document, indented by two spaces
+ */
+export function serializeInventoryJson(
+  services: readonly InventoryService[],
+  schemaUrl: string
+): string {
+  const document = {
+    $schema: schemaUrl,
+    version: INVENTORY_FORMAT_VERSION,
+    services: [...services].sort(compareServices),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
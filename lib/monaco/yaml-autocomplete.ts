@@ -1,4 +1,6 @@
 import type { languages } from "monaco-editor";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
 
 interface CompletionItem {
   readonly label: string;
@@ -8,6 +10,21 @@ interface CompletionItem {
   readonly detail?: string;
 }
 
+/**
+ * Runtime type accepted alongside the catalog's runtimes
+ */
+const UNKNOWN_RUNTIME_TYPE = "unknown";
+
+/**
+ * Completions that depend on the organization's environments and runtimes
+ */
+interface CatalogCompletions {
+  readonly interfaceProperties: readonly CompletionItem[];
+  readonly envValues: readonly CompletionItem[];
+  readonly runtimeTypeValues: readonly CompletionItem[];
+  readonly runtimeProperties: readonly CompletionItem[];
+}
+
 const SERVICE_PROPERTIES: readonly CompletionItem[] = [
   {
     label: "name",
@@ -47,139 +64,110 @@ const SERVICE_PROPERTIES: readonly CompletionItem[] = [
   },
 ] as const;
 
-const INTERFACE_PROPERTIES: readonly CompletionItem[] = [
-  {
-    label: "domain",
-    kind: 2,
-    insertText: 'domain: "$1"',
-    documentation: "Domain name (required)",
-    detail: "string (required)",
-  },
-  {
-    label: "env",
-    kind: 2,
-    insertText: 'env: "$1"',
-    documentation: "Environment: production | staging | development",
-    detail: "enum",
-  },
-  {
-    label: "branch",
-    kind: 2,
-    insertText: 'branch: "$1"',
-    documentation: "Git branch name",
-    detail: "string",
-  },
-  {
-    label: "runtime",
-    kind: 2,
-    insertText: 'runtime:\n    type: "$1"\n    id: "$2"',
-    documentation:
-      "Runtime locator (type: ec2|vm|k8s|lambda|container|paas|unknown, id: runtime identifier)",
-    detail: "object",
-  },
-] as const;
-
-const ENV_VALUES: readonly CompletionItem[] = [
-  {
-    label: "production",
-    kind: 12,
-    insertText: "production",
-    documentation: "Production environment",
-  },
-  {
-    label: "staging",
-    kind: 12,
-    insertText: "staging",
-    documentation: "Staging environment",
-  },
-  {
-    label: "development",
-    kind: 12,
-    insertText: "development",
-    documentation: "Development environment",
-  },
-] as const;
-
-const RUNTIME_TYPE_VALUES: readonly CompletionItem[] = [
-  {
-    label: "ec2",
-    kind: 12,
-    insertText: "ec2",
-    documentation: "EC2 instance",
-  },
-  {
-    label: "vm",
-    kind: 12,
-    insertText: "vm",
-    documentation: "Virtual machine",
-  },
-  {
-    label: "k8s",
-    kind: 12,
-    insertText: "k8s",
-    documentation: "Kubernetes cluster/namespace",
-  },
-  {
-    label: "lambda",
-    kind: 12,
-    insertText: "lambda",
-    documentation: "AWS Lambda function",
-  },
-  {
-    label: "container",
-    kind: 12,
-    insertText: "container",
-    documentation: "Container runtime",
-  },
-  {
-    label: "paas",
-    kind: 12,
-    insertText: "paas",
-    documentation: "Platform as a Service",
-  },
-  {
-    label: "unknown",
-    kind: 12,
-    insertText: "unknown",
-    documentation: "Unknown runtime",
-  },
-] as const;
+/**
+ * Builds the completions listing the environments and runtimes of a catalog
+ */
+function createCatalogCompletions(
+  environmentCatalog: EnvironmentCatalog,
+  runtimeCatalog: RuntimeCatalog
+): CatalogCompletions {
+  const environmentKeys = environmentCatalog.environments.map(
+    (environment) => environment.key
+  );
+  const runtimeKeys = [
+    ...runtimeCatalog.runtimes.map((runtime) => runtime.key),
+    UNKNOWN_RUNTIME_TYPE,
+  ];
 
-const RUNTIME_PROPERTIES: readonly CompletionItem[] = [
-  {
-    label: "type",
-    kind: 2,
-    insertText: 'type: "$1"',
-    documentation: "Runtime type: ec2|vm|k8s|lambda|container|paas|unknown",
-    detail: "enum",
-  },
-  {
-    label: "id",
-    kind: 2,
-    insertText: 'id: "$1"',
-    documentation:
-      "Runtime identifier (e.g., instance ID, cluster/namespace, function name)",
-    detail: "string",
-  },
-] as const;
+  return {
+    interfaceProperties: [
+      {
+        label: "domain",
+        kind: 2,
+        insertText: 'domain: "$1"',
+        documentation: "Domain name (required)",
+        detail: "string (required)",
+      },
+      {
+        label: "env",
+        kind: 2,
+        insertText: 'env: "$1"',
+        documentation: `Environment: ${environmentKeys.join(" | ")}`,
+        detail: "enum",
+      },
+      {
+        label: "branch",
+        kind: 2,
+        insertText: 'branch: "$1"',
+        documentation: "Git branch name",
+        detail: "string",
+      },
+      {
+        label: "runtime",
+        kind: 2,
+        insertText: 'runtime:\n    type: "$1"\n    id: "$2"',
+        documentation: `Runtime locator (type: ${runtimeKeys.join("|")}, id: runtime identifier)`,
+        detail: "object",
+      },
+    ],
+    envValues: environmentCatalog.environments.map((environment) => ({
+      label: environment.key,
+      kind: 12,
+      insertText: environment.key,
+      documentation: `${environment.label} environment`,
+    })),
+    runtimeTypeValues: [
+      ...runtimeCatalog.runtimes.map((runtime) => ({
+        label: runtime.key,
+        kind: 12,
+        insertText: runtime.key,
+        documentation: `${runtime.label} (id: ${runtime.runtimeIdHint})`,
+      })),
+      {
+        label: UNKNOWN_RUNTIME_TYPE,
+        kind: 12,
+        insertText: UNKNOWN_RUNTIME_TYPE,
+        documentation: "Unknown runtime",
+      },
+    ],
+    runtimeProperties: [
+      {
+        label: "type",
+        kind: 2,
+        insertText: 'type: "$1"',
+        documentation: `Runtime type: ${runtimeKeys.join("|")}`,
+        detail: "enum",
+      },
+      {
+        label: "id",
+        kind: 2,
+        insertText: 'id: "$1"',
+        documentation:
+          "Runtime identifier (e.g., instance ID, cluster/namespace, function name)",
+        detail: "string",
+      },
+    ],
+  };
+}
 
 function getContextualCompletions(
   line: string,
-  position: number
+  position: number,
+  completions: CatalogCompletions
 ): readonly CompletionItem[] {
   const beforeCursor = line.slice(0, position);
   const trimmed = beforeCursor.trim();
   const previousLines = line.split("\n").slice(0, -1).join("\n");
 
   if (trimmed.endsWith("env:")) {
-    return ENV_VALUES;
+    return completions.envValues;
   }
 
   if (
     trimmed.endsWith("runtime.type:") ||
     (trimmed.includes("runtime:") && trimmed.endsWith("type:"))
   ) {
-    return RUNTIME_TYPE_VALUES;
+    return completions.runtimeTypeValues;
   }
 
   if (
@@ -187,7 +175,7 @@ function getContextualCompletions(
     !trimmed.includes("type:") &&
     !trimmed.includes("id:")
   ) {
-    return RUNTIME_PROPERTIES;
+    return completions.runtimeProperties;
   }
 
   const isInInterfacesArray =
@@ -196,7 +184,7 @@ function getContextualCompletions(
     trimmed.match(/^\s*-\s*\w+:/) && !trimmed.match(/^\s*-\s*name:/);
 
   if (isInInterfacesArray || isInterfaceItem) {
-    return INTERFACE_PROPERTIES;
+    return completions.interfaceProperties;
   }
 
   if (
@@ -209,7 +197,18 @@ function getContextualCompletions(
   return SERVICE_PROPERTIES;
 }
 
-export function createYamlAutocompleteProvider(): languages.CompletionItemProvider {
+/**
+ * Completion provider for the inventory YAML, suggesting the environments and
+ * runtimes of the organization's catalogs
+ */
+export function createYamlAutocompleteProvider(
+  environmentCatalog: EnvironmentCatalog,
+  runtimeCatalog: RuntimeCatalog
+): languages.CompletionItemProvider {
+  const catalogCompletions = createCatalogCompletions(
+    environmentCatalog,
+    runtimeCatalog
+  );
   return {
     provideCompletionItems: (model, position) => {
       const word = model.getWordUntilPosition(position);
@@ -223,7 +222,8 @@ export function createYamlAutocompleteProvider(): languages.CompletionItemProvid
       const lineContent = model.getLineContent(position.lineNumber);
       const completions = getContextualCompletions(
         lineContent,
-        position.column - 1
+        position.column - 1,
+        catalogCompletions
       );
 
       const filtered = completions.filter((item) =>
@@ -1,9 +1,24 @@
 import type { Monaco } from "@monaco-editor/react";
+import type { EnvironmentCatalog } from "@/components/service-table/environments";
+import type { RuntimeCatalog } from "@/components/service-table/runtimes";
 import { createYamlAutocompleteProvider } from "./yaml-autocomplete";
 
-let providerRegistered = false;
+/**
+ * Completion provider registered for the current catalogs
+ */
+let registeredProvider: ReturnType<
+  Monaco["languages"]["registerCompletionItemProvider"]
+> | null = null;
 
-export function setupYamlLanguage(monaco: Monaco): void {
+/**
+ * Registers the YAML completion provider for the given catalogs, replacing
+ * the one registered for previous catalogs
+ */
+export function setupYamlLanguage(
+  monaco: Monaco,
+  environmentCatalog: EnvironmentCatalog,
+  runtimeCatalog: RuntimeCatalog
+): void {
   const languages = monaco.languages.getLanguages();
   const yamlLanguage = languages.find(
     (lang: { id: string }) => lang.id === "yaml"
@@ -13,13 +28,9 @@ export function setupYamlLanguage(monaco: Monaco): void {
     return;
   }
 
-  if (providerRegistered) {
-    return;
-  }
-
-  monaco.languages.registerCompletionItemProvider(
+  registeredProvider?.dispose();
+  registeredProvider = monaco.languages.registerCompletionItemProvider(
     "yaml",
-    createYamlAutocompleteProvider()
+    createYamlAutocompleteProvider(environmentCatalog, runtimeCatalog)
   );
-  providerRegistered = true;
 }
@@ -0,0 +1,112 @@
+/**
+ * Services Query Parameters
+ *
+ * URL schema of the services search and filters, shared by the services page
+ * (through `useServicesQueryState`) and the server export route so that a
+ * shared filtered URL selects the same services in both.
+ */
+
+import {
+  createLoader,
+  type inferParserType,
+  parseAsArrayOf,
+  parseAsString,
+  parseAsStringEnum,
+} from "nuqs/server";
+import { LIFECYCLE_STATUSES } from "@/components/service-table/lifecycle";
+import type {
+  Environment,
+  ServicesQueryState,
+} from "@/hooks/use-services-query-state";
+import type { FilterMatchMode } from "@/types/filters";
+
+/**
+ * URL query parameter schema with type-safe parsers.
+ * Defines how state is serialized to/from URL.
+ */
+export const servicesQuerySchema = {
+  q: parseAsString.withDefault(""),
+  env: parseAsArrayOf(parseAsString).withDefault([]),
+  owner: parseAsArrayOf(parseAsString).withDefault([]),
+  runtime: parseAsArrayOf(parseAsString).withDefault([]),
+  lifecycle: parseAsArrayOf(
+    parseAsStringEnum(LIFECYCLE_STATUSES.map((status) => status.value))
+  ).withDefault([]),
+  tag: parseAsArrayOf(parseAsString).withDefault([]),
+  cf: parseAsArrayOf(parseAsString).withDefault([]),
+  match: parseAsStringEnum<FilterMatchMode>(["all", "any"]).withDefault("all"),
+} as const;
+
+/**
+ * Parses the services query parameters of a URL or search params
+ */
+export const loadServicesQueryParams = createLoader(servicesQuerySchema);
+
+/**
+ * Raw parameters as parsed from the URL
+ */
+export type ServicesQueryParams = inferParserType<typeof servicesQuerySchema>;
+
+/**
+ * Normalizes environment array by trimming, dropping blanks and duplicates.
+ *
+ * @param rawEnv - Raw array from URL parameters
+ * @returns Array of non-empty Environment values
+ */
+function normalizeEnvironments(
+  rawEnv: readonly string[]
+): readonly Environment[] {
+  return Array.from(
+    new Set(rawEnv.map((env) => env.trim()).filter((env) => env.length > 0))
+  );
+}
+
+/**
+ * Groups "key:value" custom field filter entries by key, dropping malformed
+ * entries and duplicates.
+ *
+ * @param rawEntries - Raw cf array from URL parameters
+ * @returns Selected values by custom field key
+ */
+function parseCustomFieldFilters(
+  rawEntries: readonly string[]
+): Readonly<Record<string, readonly string[]>> {
+  const grouped: Record<string, string[]> = {};
+  for (const entry of rawEntries) {
+    const separatorIndex = entry.indexOf(":");
+    if (separatorIndex <= 0) {
+      continue;
+    }
+    const key = entry.slice(0, separatorIndex);
+    const value = entry.slice(separatorIndex + 1);
+    const values = grouped[key] ?? [];
+    if (value.length > 0 && !values.includes(value)) {
+      values.push(value);
+    }
+    grouped[key] = values;
+  }
+  return Object.fromEntries(
+    Object.entries(grouped).filter(([, values]) => values.length > 0)
+  );
+}
+
+/**
+ * Normalizes parsed URL parameters into the services query state.
+ *
+ * @param params - Parameters parsed with the services query schema
+ * @returns Trimmed search, deduplicated filters and grouped custom filters
+ */
+export function normalizeServicesQueryParams(
+  params: Partial<ServicesQueryParams>
+): ServicesQueryState {
+  return {
+    q: params.q?.trim() ?? "",
+    env: normalizeEnvironments(params.env ?? []),
+    owner: Array.from(new Set(params.owner ?? [])),
+    runtime: Array.from(new Set(params.runtime ?? [])),
+    lifecycle: Array.from(new Set(params.lifecycle ?? [])),
+    tag: Array.from(new Set(params.tag ?? [])),
+    custom: parseCustomFieldFilters(params.cf ?? []),
+    match: params.match ?? "all",
+  };
+}
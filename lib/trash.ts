@@ -0,0 +1,65 @@
+/**
+ * Trash Retention
+ *
+ * Soft-deleted services stay in the organization's trash until an admin
+ * restores or purges them, or until the retention period elapses and the
+ * scheduled purge (`/api/trash/purge`) removes them permanently.
+ */
+
+import { addDays, differenceInCalendarDays } from "date-fns";
+
+/**
+ * Retention applied when the organization hasn't configured one
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Retention periods offered in the trash settings
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+/**
+ * Resolves an organization's retention period, falling back to the default
+ */
+export function resolveTrashRetentionDays(
+  retentionDays: number | null | undefined
+): number {
+  return typeof retentionDays === "number" && retentionDays > 0
+    ? Math.floor(retentionDays)
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Date after which a deleted service is purged automatically
+ */
+export function getTrashPurgeDate(
+  deletedAt: Date | string | number,
+  retentionDays: number
+): Date {
+  return addDays(new Date(deletedAt), retentionDays);
+}
+
+/**
+ * Whole days left before a deleted service is purged (never negative)
+ */
+export function getDaysUntilPurge(
+  deletedAt: Date | string | number,
+  retentionDays: number,
+  now: Date = new Date()
+): number {
+  return Math.max(
+    0,
+    differenceInCalendarDays(getTrashPurgeDate(deletedAt, retentionDays), now)
+  );
+}
+
+/**
+ * Whether a deleted service has outlived the retention period
+ */
+export function isPastTrashRetention(
+  deletedAt: Date | string | number,
+  retentionDays: number,
+  now: Date = new Date()
+): boolean {
+  return getTrashPurgeDate(deletedAt, retentionDays).getTime() <= now.getTime();
+}
@@ -0,0 +1,560 @@
+/**
+ * YAML Reader
+ *
+ * Reads the YAML found in catalog files and API definitions: block mappings
+ * and sequences, flow collections, quoted scalars, literal and folded block
+ * scalars, comments and several documents separated by `---`.
+ *
+ * Scalars are returned as text, without converting numbers or booleans;
+ * empty values, `~` and `null` are null. Anchors, aliases, tags and complex
+ * keys are not supported.
+ */
+
+const BYTE_ORDER_MARK = "\uFEFF";
+const LINE_BREAK_PATTERN = /\r?\n/;
+const DOCUMENT_START_PATTERN = /^---(\s|$)/;
+const DOCUMENT_END_PATTERN = /^\.\.\.(\s|$)/;
+const BLOCK_SCALAR_PATTERN = /^([|>])([+-]?)\d*([+-]?)$/;
+const WHITESPACE_PATTERN = /\s/;
+const TOKEN_START_PATTERN = /[\s[{,]/;
+const FOLDED_LINE_BREAK_PATTERN = /([^\n])\n(?=[^\n])/g;
+const FOLDED_BLANK_LINES_PATTERN = /\n(\n+)/g;
+
+const NULL_SCALARS = new Set(["~", "null", "Null", "NULL"]);
+
+/**
+ * Value of a YAML node
+ */
+export type YamlValue = string | null | readonly YamlValue[] | YamlMap;
+
+/**
+ * Mapping node, by key
+ */
+export interface YamlMap {
+  readonly [key: string]: YamlValue;
+}
+
+/**
+ * Document of a YAML stream
+ */
+export interface YamlDocument {
+  /** One-based line number of the first content line of the document */
+  readonly line: number;
+  readonly value: YamlValue;
+}
+
+/**
+ * Lines of a document being read. Sequence items holding a mapping on the
+ * dash line are rewritten in place so the mapping reads like any other.
+ */
+interface ReaderState {
+  readonly lines: string[];
+  /** Index in the stream of the first line of the document */
+  readonly offset: number;
+  index: number;
+}
+
+/**
+ * Position in a flow collection being read
+ */
+interface FlowCursor {
+  readonly text: string;
+  readonly line: number;
+  index: number;
+}
+
+/**
+ * Number of spaces a line is indented by
+ */
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Whether a line holds something besides spaces and comments
+ */
+function isContentLine(line: string): boolean {
+  const text = line.trim();
+  return text !== "" && !text.startsWith("#");
+}
+
+/**
+ * Whether a trimmed line is a block sequence item
+ */
+function isSequenceItem(text: string): boolean {
+  return text === "-" || text.startsWith("- ");
+}
+
+/**
+ * Whether a quote at a position opens a quoted scalar rather than being
+ * part of plain text
+ */
+function isTokenStart(text: string, index: number): boolean {
+  return index === 0 || TOKEN_START_PATTERN.test(text[index - 1]);
+}
+
+/**
+ * Whether the character at a position closes a scalar opened with a quote
+ */
+function isClosingQuote(text: string, index: number, quote: string): boolean {
+  return text[index] === quote && !(quote === '"' && text[index - 1] === "\\");
+}
+
+/**
+ * Text of a line before its comment, if any
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      quote = isClosingQuote(text, index, quote) ? null : quote;
+    } else if ((char === '"' || char === "'") && isTokenStart(text, index)) {
+      quote = char;
+    } else if (
+      char === "#" &&
+      (index === 0 || WHITESPACE_PATTERN.test(text[index - 1]))
+    ) {
+      return text.slice(0, index);
+    }
+  }
+  return text;
+}
+
+/**
+ * Index of the colon separating a key from its value, outside quotes and
+ * flow collections; -1 when the text isn't a mapping entry
+ */
+function findMappingColon(text: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      quote = isClosingQuote(text, index, quote) ? null : quote;
+    } else if ((char === '"' || char === "'") && isTokenStart(text, index)) {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === "}") {
+      depth--;
+    } else if (
+      char === ":" &&
+      depth === 0 &&
+      (index + 1 === text.length || WHITESPACE_PATTERN.test(text[index + 1]))
+    ) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Text of a single- or double-quoted scalar
+ */
+function readQuoted(text: string): string {
+  if (text.startsWith("'")) {
+    return text.slice(1, -1).replaceAll("''", "'");
+  }
+  try {
+    return JSON.parse(text) as string;
+  } catch {
+    return text.slice(1, -1);
+  }
+}
+
+/**
+ * Value of a scalar written on one line
+ */
+function readScalar(text: string): string | null {
+  if (text === "" || NULL_SCALARS.has(text)) {
+    return null;
+  }
+  const quote = text[0];
+  if ((quote === '"' || quote === "'") && text.endsWith(quote)) {
+    return readQuoted(text);
+  }
+  return text;
+}
+
+/**
+ * Moves a flow cursor past spaces
+ */
+function skipFlowSpace(cursor: FlowCursor): void {
+  while (
+    cursor.index < cursor.text.length &&
+    WHITESPACE_PATTERN.test(cursor.text[cursor.index])
+  ) {
+    cursor.index++;
+  }
+}
+
+/**
+ * Reads a scalar of a flow collection, up to one of the stop characters
+ */
+function readFlowScalar(cursor: FlowCursor, stops: string): string | null {
+  const { text } = cursor;
+  const start = cursor.index;
+  const quote = text[start];
+  if (quote === '"' || quote === "'") {
+    let end = start + 1;
+    while (end < text.length && !isClosingQuote(text, end, quote)) {
+      end++;
+    }
+    cursor.index = end + 1;
+    return readQuoted(text.slice(start, end + 1));
+  }
+  while (cursor.index < text.length && !stops.includes(text[cursor.index])) {
+    cursor.index++;
+  }
+  return readScalar(text.slice(start, cursor.index).trim());
+}
+
+/**
+ * Checks that a flow collection continues with a separator or its closing
+ * bracket, and moves past the separator
+ */
+function readFlowSeparator(cursor: FlowCursor, closing: string): void {
+  skipFlowSpace(cursor);
+  const char = cursor.text[cursor.index];
+  if (char === ",") {
+    cursor.index++;
+  } else if (char !== closing) {
+    throw new Error(`Line ${cursor.line}: expected "," or "${closing}"`);
+  }
+}
+
+/**
+ * Reads a flow sequence, from its opening bracket
+ */
+function readFlowSequence(cursor: FlowCursor): YamlValue[] {
+  const items: YamlValue[] = [];
+  cursor.index++;
+  for (;;) {
+    skipFlowSpace(cursor);
+    if (cursor.index >= cursor.text.length) {
+      throw new Error(`Line ${cursor.line}: unclosed "["`);
+    }
+    if (cursor.text[cursor.index] === "]") {
+      cursor.index++;
+      return items;
+    }
+    items.push(readFlowNode(cursor));
+    readFlowSeparator(cursor, "]");
+  }
+}
+
+/**
+ * Reads a flow mapping, from its opening brace
+ */
+function readFlowMapping(cursor: FlowCursor): YamlMap {
+  const entries: Record<string, YamlValue> = {};
+  cursor.index++;
+  for (;;) {
+    skipFlowSpace(cursor);
+    if (cursor.index >= cursor.text.length) {
+      throw new Error(`Line ${cursor.line}: unclosed "{"`);
+    }
+    if (cursor.text[cursor.index] === "}") {
+      cursor.index++;
+      return entries;
+    }
+    const key = readFlowScalar(cursor, ",:}") ?? "";
+    skipFlowSpace(cursor);
+    let value: YamlValue = null;
+    if (cursor.text[cursor.index] === ":") {
+      cursor.index++;
+      value = readFlowNode(cursor);
+    }
+    entries[key] = value;
+    readFlowSeparator(cursor, "}");
+  }
+}
+
+/**
+ * Reads a node of a flow collection
+ */
+function readFlowNode(cursor: FlowCursor): YamlValue {
+  skipFlowSpace(cursor);
+  const char = cursor.text[cursor.index];
+  if (char === "[") {
+    return readFlowSequence(cursor);
+  }
+  if (char === "{") {
+    return readFlowMapping(cursor);
+  }
+  return readFlowScalar(cursor, ",]}");
+}
+
+/**
+ * Value written after a key or dash on the same line, without its comment
+ */
+function readInlineValue(text: string, line: number): YamlValue {
+  if (!(text.startsWith("[") || text.startsWith("{"))) {
+    return readScalar(text);
+  }
+  const cursor: FlowCursor = { text, line, index: 0 };
+  const value = readFlowNode(cursor);
+  skipFlowSpace(cursor);
+  if (cursor.index < text.length) {
+    throw new Error(`Line ${line}: unexpected text after the collection`);
+  }
+  return value;
+}
+
+/**
+ * One-based line number in the stream of a line of the document
+ */
+function getLineNumber(state: ReaderState, index: number): number {
+  return state.offset + index + 1;
+}
+
+/**
+ * Moves past blank and comment lines; returns the index of the next
+ * content line, or -1 at the end of the document
+ */
+function findContentLine(state: ReaderState): number {
+  while (
+    state.index < state.lines.length &&
+    !isContentLine(state.lines[state.index])
+  ) {
+    state.index++;
+  }
+  return state.index < state.lines.length ? state.index : -1;
+}
+
+/**
+ * Applies the chomping indicator of a block scalar to its lines
+ */
+function chompBlockScalar(
+  text: string,
+  trailing: number,
+  chomp: string
+): string {
+  if (chomp === "-" || text === "") {
+    return text;
+  }
+  return chomp === "+" ? `${text}\n${"\n".repeat(trailing)}` : `${text}\n`;
+}
+
+/**
+ * Reads a literal (`|`) or folded (`>`) block scalar, from the line after
+ * its indicator
+ */
+function readBlockScalar(
+  state: ReaderState,
+  parentIndent: number,
+  indicator: RegExpExecArray
+): string {
+  const [, style, chompBefore, chompAfter] = indicator;
+  const lines: string[] = [];
+  let contentIndent = -1;
+  let index = state.index;
+  for (; index < state.lines.length; index++) {
+    const line = state.lines[index];
+    if (line.trim()) {
+      const indent = getIndent(line);
+      contentIndent = contentIndent === -1 ? indent : contentIndent;
+      if (indent < contentIndent || contentIndent <= parentIndent) {
+        break;
+      }
+      lines.push(line.slice(contentIndent));
+    } else {
+      lines.push("");
+    }
+  }
+  state.index = index;
+
+  let trailing = 0;
+  while (lines.length > 0 && lines.at(-1) === "") {
+    lines.pop();
+    trailing++;
+  }
+  const text = lines.join("\n");
+  const body =
+    style === ">"
+      ? text
+          .replace(FOLDED_LINE_BREAK_PATTERN, "$1 ")
+          .replace(FOLDED_BLANK_LINES_PATTERN, "$1")
+      : text;
+  return chompBlockScalar(body, trailing, chompBefore || chompAfter);
+}
+
+/**
+ * Reads the value of a mapping entry or sequence item: a block scalar, a
+ * value on the same line, or the block nested under it. Sequences may sit at
+ * the indentation of the key they belong to.
+ */
+function readEntryValue(
+  state: ReaderState,
+  indent: number,
+  rest: string,
+  line: number
+): YamlValue {
+  const indicator = BLOCK_SCALAR_PATTERN.exec(rest);
+  if (indicator) {
+    return readBlockScalar(state, indent, indicator);
+  }
+  if (rest) {
+    return readInlineValue(rest, line);
+  }
+  const index = findContentLine(state);
+  if (index === -1) {
+    return null;
+  }
+  const next = state.lines[index];
+  const nextIndent = getIndent(next);
+  if (nextIndent > indent) {
+    return readNode(state, indent);
+  }
+  if (nextIndent === indent && isSequenceItem(next.trim())) {
+    return readSequence(state, indent);
+  }
+  return null;
+}
+
+/**
+ * Reads the entries of a block mapping indented by a number of spaces
+ */
+function readMapping(state: ReaderState, indent: number): YamlMap {
+  const entries: Record<string, YamlValue> = {};
+  for (;;) {
+    const index = findContentLine(state);
+    if (index === -1) {
+      return entries;
+    }
+    const line = state.lines[index];
+    const text = line.trim();
+    const lineIndent = getIndent(line);
+    if (lineIndent < indent || isSequenceItem(text)) {
+      return entries;
+    }
+    const colon = findMappingColon(text);
+    if (lineIndent > indent || colon === -1) {
+      throw new Error(
+        `Line ${getLineNumber(state, index)}: expected "key: value"`
+      );
+    }
+    state.index = index + 1;
+    const key = readScalar(text.slice(0, colon).trim()) ?? "";
+    entries[key] = readEntryValue(
+      state,
+      indent,
+      stripComment(text.slice(colon + 1)).trim(),
+      getLineNumber(state, index)
+    );
+  }
+}
+
+/**
+ * Reads the items of a block sequence whose dashes are indented by a
+ * number of spaces
+ */
+function readSequence(state: ReaderState, indent: number): YamlValue[] {
+  const items: YamlValue[] = [];
+  for (;;) {
+    const index = findContentLine(state);
+    if (index === -1) {
+      return items;
+    }
+    const line = state.lines[index];
+    if (getIndent(line) !== indent || !isSequenceItem(line.trim())) {
+      return items;
+    }
+    const item = line.slice(indent + 1);
+    const rest = stripComment(item).trim();
+    if (isSequenceItem(rest) || findMappingColon(rest) !== -1) {
+      // A block starting on the dash line: read it as if on a line of its own
+      const itemIndent = indent + 1 + getIndent(item);
+      state.lines[index] = `${" ".repeat(itemIndent)}${item.trimStart()}`;
+      state.index = index;
+      items.push(readNode(state, indent));
+    } else {
+      state.index = index + 1;
+      items.push(
+        readEntryValue(state, indent, rest, getLineNumber(state, index))
+      );
+    }
+  }
+}
+
+/**
+ * Reads the block indented deeper than its parent, if any
+ */
+function readNode(state: ReaderState, parentIndent: number): YamlValue {
+  const index = findContentLine(state);
+  if (index === -1) {
+    return null;
+  }
+  const line = state.lines[index];
+  const indent = getIndent(line);
+  if (indent <= parentIndent) {
+    return null;
+  }
+  if (isSequenceItem(line.trim())) {
+    return readSequence(state, indent);
+  }
+  if (findMappingColon(line.trim()) !== -1) {
+    return readMapping(state, indent);
+  }
+  state.index = index + 1;
+  return readInlineValue(
+    stripComment(line).trim(),
+    getLineNumber(state, index)
+  );
+}
+
+/**
+ * Reads a document, checking that nothing is left after its root node
+ */
+function readDocument(lines: string[], offset: number): YamlValue {
+  const state: ReaderState = { lines, offset, index: 0 };
+  const value = readNode(state, -1);
+  const index = findContentLine(state);
+  if (index !== -1) {
+    throw new Error(
+      `Line ${getLineNumber(state, index)}: unexpected indentation`
+    );
+  }
+  return value;
+}
+
+/**
+ * Reads the documents of a YAML stream. Documents without content are left
+ * out.
+ *
+ * @param text - YAML text, possibly holding several documents
+ * @returns Documents in the order they appear
+ * @throws Error naming the line of the first syntax error
+ */
+export function parseYamlDocuments(text: string): YamlDocument[] {
+  const lines = text.replace(BYTE_ORDER_MARK, "").split(LINE_BREAK_PATTERN);
+  const documents: YamlDocument[] = [];
+  let start = 0;
+  const addDocument = (end: number) => {
+    const first = lines.slice(start, end).findIndex(isContentLine);
+    if (first !== -1) {
+      documents.push({
+        line: start + first + 1,
+        value: readDocument(lines.slice(start, end), start),
+      });
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (DOCUMENT_START_PATTERN.test(line) || DOCUMENT_END_PATTERN.test(line)) {
+      addDocument(index);
+      start = index + 1;
+    }
+  }
+  addDocument(lines.length);
+  return documents;
+}
+
+/**
+ * Whether a value is a mapping node
+ */
+export function isYamlMap(value: YamlValue | undefined): value is YamlMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
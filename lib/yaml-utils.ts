@@ -1,28 +1,28 @@
+import {
+  findDependencyCycles,
+  formatDependencyCycle,
+} from "@/components/service-table/dependency-cycles";
+import {
+  DEFAULT_ENVIRONMENT_CATALOG,
+  type EnvironmentCatalog,
+  findEnvironment,
+} from "@/components/service-table/environments";
+import {
+  DEFAULT_RUNTIME_CATALOG,
+  findRuntime,
+  type RuntimeCatalog,
+} from "@/components/service-table/runtimes";
+
 /**
- * Valid runtime types for service interfaces
+ * Runtime type key, from the organization's runtime catalog
  */
-const RUNTIME_TYPES = {
-  EC2: "ec2",
-  VM: "vm",
-  K8S: "k8s",
-  LAMBDA: "lambda",
-  CONTAINER: "container",
-  PAAS: "paas",
-  UNKNOWN: "unknown",
-} as const;
+type RuntimeType = string;
 
 /**
- * Valid environment types
+ * Runtime type of a runtime block that doesn't name one; accepted alongside
+ * the catalog's runtimes
  */
-const ENVIRONMENT_TYPES = {
-  PRODUCTION: "production",
-  STAGING: "staging",
-  DEVELOPMENT: "development",
-} as const;
-
-type RuntimeType = (typeof RUNTIME_TYPES)[keyof typeof RUNTIME_TYPES];
-type EnvironmentType =
-  (typeof ENVIRONMENT_TYPES)[keyof typeof ENVIRONMENT_TYPES];
+const UNKNOWN_RUNTIME_TYPE = "unknown";
 
 export type { RuntimeType };
 
@@ -116,14 +116,10 @@ const ARRAY_START = "[";
 const ARRAY_END = "]";
 const TAB_SIZE = 2;
 
-const VALID_RUNTIME_TYPES = new Set<RuntimeType>(Object.values(RUNTIME_TYPES));
-const VALID_ENV_TYPES = new Set<EnvironmentType>(
-  Object.values(ENVIRONMENT_TYPES)
-);
-
 const RE_KEY_VALUE = /^(\w+):\s*(.*)$/;
 const RE_SERVICE_START = /^-\s+name:\s*(.+)$/;
 const RE_INTERFACE_ITEM = /^-\s+(\w+):\s*(.+)$/;
+const RE_QUOTE = /["']/;
 
 /**
  * Calculates the indentation level of a line (spaces only, tabs count as 2 spaces)
@@ -170,14 +166,35 @@ function parseKeyValue(
   return { key, value };
 }
 
+/**
+ * Reads a double-quoted value, resolving escapes such as \" and \n. Values
+ * with invalid escapes are legacy input and keep their text between the
+ * quotes as written.
+ */
+function parseDoubleQuotedValue(value: string): string {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed === "string") {
+      return parsed;
+    }
+  } catch {
+    // Not a valid escaped string
+  }
+  return value.slice(1, -1);
+}
+
 /**
  * Removes quotes from a value if present
  */
 function parseQuotedValue(value: string): string {
   if (
-    (value.startsWith(QUOTE_DOUBLE) && value.endsWith(QUOTE_DOUBLE)) ||
-    (value.startsWith(QUOTE_SINGLE) && value.endsWith(QUOTE_SINGLE))
+    value.length > 1 &&
+    value.startsWith(QUOTE_DOUBLE) &&
+    value.endsWith(QUOTE_DOUBLE)
   ) {
+    return parseDoubleQuotedValue(value);
+  }
+  if (value.startsWith(QUOTE_SINGLE) && value.endsWith(QUOTE_SINGLE)) {
     return value.slice(1, -1);
   }
   return value;
@@ -229,11 +246,18 @@ function parseInlineArray(value: string): readonly string[] {
 }
 
 /**
- * Normalizes runtime type to a valid RuntimeType
+ * Normalizes a runtime type to its lowercased key. Whether the key is in the
+ * organization's catalog is checked by validateSchema.
  */
-function normalizeRuntimeType(value: string): RuntimeType {
-  const lower = value.toLowerCase() as RuntimeType;
-  return VALID_RUNTIME_TYPES.has(lower) ? lower : RUNTIME_TYPES.UNKNOWN;
+export function normalizeRuntimeType(value: string): RuntimeType {
+  return value.trim().toLowerCase() || UNKNOWN_RUNTIME_TYPE;
+}
+
+/**
+ * Checks that a runtime type is in the catalog (or the unknown placeholder)
+ */
+function isValidRuntimeType(catalog: RuntimeCatalog, value: string): boolean {
+  return value === UNKNOWN_RUNTIME_TYPE || findRuntime(catalog, value) !== null;
 }
 
 /**
@@ -251,7 +275,7 @@ function buildRuntime(builder: InterfaceBuilder): RuntimeLocator | null {
   }
 
   return {
-    type: rt.type ?? RUNTIME_TYPES.UNKNOWN,
+    type: rt.type ?? UNKNOWN_RUNTIME_TYPE,
     id,
   };
 }
@@ -378,11 +402,16 @@ function finishCurrentService(
   acc.dependencies = [];
 }
 
+/**
+ * Checks if a line starts a service: a list item with the name key before
+ * any quoted value, so quoted values containing "name:" don't
+ */
 function isServiceStart(trimmed: string): boolean {
   if (trimmed.startsWith("- name:")) {
     return true;
   }
-  return trimmed.startsWith(ARRAY_ITEM_PREFIX) && trimmed.includes("name:");
+  const unquoted = trimmed.split(RE_QUOTE, 1)[0] ?? "";
+  return trimmed.startsWith(ARRAY_ITEM_PREFIX) && unquoted.includes("name:");
 }
 
 function parseServiceStart(
@@ -523,7 +552,7 @@ function handleRuntimeKeyValue(
     return;
   }
 
-  const rt = iface.runtime ?? { type: RUNTIME_TYPES.UNKNOWN, id: "" };
+  const rt = iface.runtime ?? { type: UNKNOWN_RUNTIME_TYPE, id: "" };
   const parsed = parseQuotedValue(value);
 
   const handlers: Readonly<Record<string, (v: string) => void>> = {
@@ -736,13 +765,153 @@ export function parseYaml(yamlString: string): ParsedYaml {
   };
 }
 
+/**
+ * Writes a value as a double-quoted scalar, escaping quotes, backslashes
+ * and line breaks so the value stays on one line and reads back unchanged
+ */
+function formatYamlValue(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Lines of an interface item, at the indentation of a service's interfaces
+ */
+function formatYamlInterface(iface: ServiceInterface): string[] {
+  const lines = [`      - ${DOMAIN_KEY}: ${formatYamlValue(iface.domain)}`];
+  if (iface.env !== null) {
+    lines.push(`        ${ENV_KEY}: ${formatYamlValue(iface.env)}`);
+  }
+  if (iface.branch !== null) {
+    lines.push(`        ${BRANCH_KEY}: ${formatYamlValue(iface.branch)}`);
+  }
+  if (iface.runtime) {
+    lines.push(
+      `        ${RUNTIME_KEY}:`,
+      `          ${TYPE_KEY}: ${formatYamlValue(iface.runtime.type)}`,
+      `          ${ID_KEY}: ${formatYamlValue(iface.runtime.id)}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Checks if a value has surrounding spaces, which parseYaml trims from
+ * interface values
+ */
+function isUntrimmed(value: string | null): boolean {
+  return value !== null && value !== value.trim();
+}
+
+/**
+ * What of an interface parseYaml would drop or change, or null when it
+ * reads back unchanged
+ */
+function getUnwritableInterfaceReason(iface: ServiceInterface): string | null {
+  if (iface.domain.trim().length === 0) {
+    return "an interface without a domain";
+  }
+  if (
+    isUntrimmed(iface.domain) ||
+    isUntrimmed(iface.env) ||
+    isUntrimmed(iface.branch)
+  ) {
+    return `interface "${iface.domain}" values with surrounding spaces`;
+  }
+  if (iface.runtime && iface.runtime.id.trim() !== iface.runtime.id) {
+    return `interface "${iface.domain}" runtime id with surrounding spaces`;
+  }
+  if (iface.runtime && iface.runtime.id.length === 0) {
+    return `interface "${iface.domain}" runtime without an id`;
+  }
+  return null;
+}
+
+/**
+ * Throws when parseYaml would skip or change part of a service: a service
+ * needs a name and an owner, and the interface values are read trimmed
+ */
+function assertYamlWritable(service: Service): void {
+  if (service.name.trim().length === 0) {
+    throw new Error("A service without a name can't be written as YAML");
+  }
+  if (service.owner.length === 0) {
+    throw new Error(
+      `Service "${service.name}" has no owner, which can't be written as YAML`
+    );
+  }
+  for (const iface of service.interfaces ?? []) {
+    const reason = getUnwritableInterfaceReason(iface);
+    if (reason) {
+      throw new Error(
+        `Service "${service.name}" has ${reason}, which can't be written as YAML`
+      );
+    }
+  }
+}
+
+/**
+ * Writes a service as an item of the services list, ending with a line
+ * break. Keys are always in the same order, and dependencies come before
+ * interfaces since parseYaml reads list items following an interfaces block
+ * as interfaces.
+ *
+ * @throws Error if parseYaml can't read the service back unchanged
+ */
+function serializeYamlService(service: Service): string {
+  assertYamlWritable(service);
+
+  const lines = [
+    `  - ${NAME_KEY}: ${formatYamlValue(service.name)}`,
+    `    ${OWNER_KEY}: ${formatYamlValue(service.owner)}`,
+    `    ${REPOSITORY_KEY}: ${formatYamlValue(service.repository)}`,
+  ];
+
+  if (service.dependencies.length === 0) {
+    lines.push(`    ${DEPENDENCIES_KEY}: ${ARRAY_START}${ARRAY_END}`);
+  } else {
+    lines.push(`    ${DEPENDENCIES_KEY}:`);
+    for (const dependency of service.dependencies) {
+      lines.push(`      ${ARRAY_ITEM_PREFIX}${formatYamlValue(dependency)}`);
+    }
+  }
+
+  // parseYaml reads an empty interfaces list as no interfaces
+  if (service.interfaces && service.interfaces.length > 0) {
+    lines.push(`    ${SERVICE_ARRAY_KEY}:`);
+    for (const iface of service.interfaces) {
+      lines.push(...formatYamlInterface(iface));
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes services as YAML in the format parseYaml reads. Values are written
+ * as escaped double-quoted scalars, so parseYaml returns the same services
+ * for lowercased runtime types.
+ *
+ * @param parsed - Services to write
+ * @returns YAML document
+ * @throws Error if a service can't be read back, see serializeYamlService
+ */
+export function serializeYaml(parsed: ParsedYaml): string {
+  return `services:\n${parsed.services.map(serializeYamlService).join("")}`;
+}
+
 /**
  * Validates that data matches the expected service schema
  *
  * @param data - Data to validate
+ * @param environmentCatalog - Environments that interface envs must refer to
+ * @param runtimeCatalog - Runtime types that interface runtimes must refer to
  * @returns Validation result with error message if invalid
  */
-export function validateSchema(data: unknown): ValidationResult {
+export function validateSchema(
+  data: unknown,
+  environmentCatalog: EnvironmentCatalog = DEFAULT_ENVIRONMENT_CATALOG,
+  runtimeCatalog: RuntimeCatalog = DEFAULT_RUNTIME_CATALOG
+): ValidationResult {
   if (!data || typeof data !== "object") {
     return { valid: false, error: "YAML must be an object" };
   }
@@ -807,14 +976,14 @@ export function validateSchema(data: unknown): ValidationResult {
           };
         }
 
-        if (ifaceObj.env !== undefined && typeof ifaceObj.env === "string") {
-          const env = ifaceObj.env.toLowerCase() as EnvironmentType;
-          if (!VALID_ENV_TYPES.has(env)) {
-            return {
-              valid: false,
-              error: `Service "${serviceObj.name}" interface "${ifaceObj.domain}" has invalid env. Must be one of: ${Array.from(VALID_ENV_TYPES).join(", ")}`,
-            };
-          }
+        if (
+          typeof ifaceObj.env === "string" &&
+          !findEnvironment(environmentCatalog, ifaceObj.env)
+        ) {
+          return {
+            valid: false,
+            error: `Service "${serviceObj.name}" interface "${ifaceObj.domain}" has invalid env. Must be one of: ${environmentCatalog.environments.map((environment) => environment.key).join(", ")}`,
+          };
         }
 
         if (ifaceObj.runtime !== undefined && ifaceObj.runtime !== null) {
@@ -830,11 +999,14 @@ export function validateSchema(data: unknown): ValidationResult {
           if (
             runtimeObj.type !== undefined &&
             (typeof runtimeObj.type !== "string" ||
-              !VALID_RUNTIME_TYPES.has(runtimeObj.type as RuntimeType))
+              !isValidRuntimeType(runtimeCatalog, runtimeObj.type))
           ) {
             return {
               valid: false,
-              error: `Service "${serviceObj.name}" interface "${ifaceObj.domain}" has invalid runtime.type. Must be one of: ${Array.from(VALID_RUNTIME_TYPES).join(", ")}`,
+              error: `Service "${serviceObj.name}" interface "${ifaceObj.domain}" has invalid runtime.type. Must be one of: ${[
+                ...runtimeCatalog.runtimes.map((runtime) => runtime.key),
+                UNKNOWN_RUNTIME_TYPE,
+              ].join(", ")}`,
             };
           }
 
@@ -852,5 +1024,67 @@ export function validateSchema(data: unknown): ValidationResult {
     }
   }
 
+  return validateDependencies(
+    dataObj.services as readonly Record<string, unknown>[]
+  );
+}
+
+/**
+ * Validates dependencies across the document: no self-references, no
+ * duplicate entries and no cycles between the listed services
+ *
+ * @param services - Services that already passed the field checks
+ * @returns Validation result naming the first offending service or cycle
+ */
+function validateDependencies(
+  services: readonly Record<string, unknown>[]
+): ValidationResult {
+  const namesByKey = new Map<string, string>();
+  for (const service of services) {
+    const name = String(service.name);
+    namesByKey.set(name.trim().toLowerCase(), name);
+  }
+
+  const adjacency = new Map<string, string[]>();
+  for (const service of services) {
+    const name = String(service.name);
+    const serviceKey = name.trim().toLowerCase();
+    const dependencies = Array.isArray(service.dependencies)
+      ? service.dependencies.filter(
+          (dep): dep is string => typeof dep === "string"
+        )
+      : [];
+
+    const seen = new Set<string>();
+    for (const dependency of dependencies) {
+      const key = dependency.trim().toLowerCase();
+      if (key === serviceKey) {
+        return { valid: false, error: `Service "${name}" depends on itself` };
+      }
+      if (seen.has(key)) {
+        return {
+          valid: false,
+          error: `Service "${name}" lists dependency "${dependency}" more than once`,
+        };
+      }
+      seen.add(key);
+    }
+
+    adjacency.set(
+      serviceKey,
+      Array.from(seen).filter((key) => namesByKey.has(key))
+    );
+  }
+
+  const [cycle] = findDependencyCycles(adjacency);
+  if (cycle) {
+    return {
+      valid: false,
+      error: `Dependency cycle: ${formatDependencyCycle(
+        cycle.map((key) => namesByKey.get(key) ?? key)
+      )}`,
+    };
+  }
+
   return { valid: true };
 }
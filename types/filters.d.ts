@@ -6,13 +6,25 @@
  * - Layer 2: Structured filters (chips + builder)
  */
 
+import type { LifecycleStatus } from "@/components/service-table/lifecycle";
 import type { Environment } from "@/hooks/use-services-query-state";
 
+/**
+ * Filter field of an organization custom field, e.g. "custom:cost_center"
+ */
+export type CustomFilterFieldType = `custom:${string}`;
+
 /**
  * Filter field types supported by the filter builder.
  * Maps to structured filter dimensions in the data model.
  */
-export type FilterFieldType = "env" | "owner" | "runtime";
+export type FilterFieldType =
+  | "env"
+  | "owner"
+  | "runtime"
+  | "lifecycle"
+  | "tag"
+  | CustomFilterFieldType;
 
 /**
  * Filter operator for value matching.
@@ -46,7 +58,7 @@ export interface FilterDefinition {
  * Complete filter state for the services table.
  *
  * Invariants:
- * - env values must be valid Environment types
+ * - env values are environment keys of the organization
  * - All arrays are deduplicated
  * - Empty arrays indicate no filter for that field
  */
@@ -54,6 +66,11 @@ export interface FilterState {
   readonly env: readonly Environment[];
   readonly owner: readonly string[];
   readonly runtime: readonly string[];
+  readonly lifecycle: readonly LifecycleStatus[];
+  /** Selected tag names */
+  readonly tag: readonly string[];
+  /** Selected values by custom field key */
+  readonly custom: Readonly<Record<string, readonly string[]>>;
   readonly matchMode: FilterMatchMode;
 }
 
@@ -84,3 +101,12 @@ export interface FilterValueOption {
   readonly displayLabel: string;
   readonly searchTerms: readonly string[];
 }
+
+/**
+ * Custom field offered in the filter builder, with the values it can take
+ */
+export interface CustomFieldFilter {
+  readonly key: string;
+  readonly label: string;
+  readonly options: readonly FilterValueOption[];
+}
@@ -19,7 +19,10 @@ export const STICKY_COLUMNS: Record<TableId, StickyColumnConfig[]> = {
     { id: "select", width: 50 },
     { id: "title", width: 250 },
   ],
-  services: [{ id: "name", width: 180 }],
+  services: [
+    { id: "select", width: 50 },
+    { id: "name", width: 180 },
+  ],
 };
 
 /**
@@ -70,7 +73,7 @@ export const NON_REORDERABLE_COLUMNS: Record<TableId, Set<string>> = {
   invoices: new Set(["select", "invoiceNumber", "actions"]),
   customers: new Set(["name", "actions"]),
   vault: new Set(["select", "title", "actions"]),
-  services: new Set(["name", "actions"]),
+  services: new Set(["select", "name", "actions"]),
 };
 
 /**